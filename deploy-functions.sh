@@ -40,11 +40,38 @@ SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy setti
 echo "📦 Deploying execute-trade..."
 SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy execute-trade --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
 
+echo "📦 Deploying shadow-comparison..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy shadow-comparison --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
+echo "📦 Deploying earnings-calendar..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy earnings-calendar --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
+echo "📦 Deploying portfolio-risk..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy portfolio-risk --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
+echo "📦 Deploying backtest..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy backtest --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
+echo "📦 Deploying rebalance-coordinator..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy rebalance-coordinator --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
 
 # Deploy coordinator (needs --no-verify-jwt to access database properly)
 echo "📦 Deploying analysis-coordinator..."
 SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy analysis-coordinator --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
 
+# Deploy scheduler (action 'run-due' is invoked every 5 minutes by the pg_cron job in schema.sql)
+echo "📦 Deploying analysis-scheduler..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy analysis-scheduler --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
+# Deploy position guardian (action 'run-due' is invoked every 5 minutes by the pg_cron job in schema.sql)
+echo "📦 Deploying position-guardian..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy position-guardian --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
+# Deploy credential rotation (invoke with the service role key after changing CREDENTIAL_ENCRYPTION_KEY)
+echo "📦 Deploying rotate-credentials..."
+SUPABASE_ACCESS_TOKEN=$SUPABASE_ACCESS_TOKEN npx supabase functions deploy rotate-credentials --project-ref $SUPABASE_PROJECT_REF --no-verify-jwt
+
 
 # Deploy all agent functions
 agents=(
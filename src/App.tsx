@@ -14,7 +14,9 @@ import RegisterPage from "./pages/RegisterPage";
 import Settings from "./pages/Settings";
 import Profile from "./pages/Profile";
 import AnalysisRecords from "./pages/AnalysisRecords";
+import Backtest from "./pages/Backtest";
 import TradeHistory from "./pages/TradeHistory";
+import Usage from "./pages/Usage";
 import NotFound from "./pages/NotFound";
 import ForgotPassword from "./components/ForgotPassword";
 import ResetPasswordPage from "./pages/ResetPasswordPage";
@@ -34,7 +36,9 @@ const AppRoutes = () => {
       <Route path="/settings" element={<Settings />} />
       <Route path="/profile" element={<Profile />} />
       <Route path="/analysis-records" element={<AnalysisRecords />} />
+      <Route path="/backtest" element={<Backtest />} />
       <Route path="/trade-history" element={<TradeHistory />} />
+      <Route path="/usage" element={<Usage />} />
       <Route path="/forgot-password" element={<ForgotPassword />} />
       <Route path="/reset-password" element={<ResetPasswordPage />} />
       <Route path="/disclaimer" element={<Disclaimer />} />
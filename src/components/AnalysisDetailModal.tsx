@@ -339,6 +339,7 @@ export default function AnalysisDetailModal({ ticker, analysisId, isOpen, onClos
     return agent
       .replace(/_/g, ' ')
       .replace(/([A-Z])/g, ' $1')
+      .replace(/(\d+)$/, ' $1')
       .trim()
       .split(' ')
       .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarClock, Loader2, Trash2 } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+
+export interface AnalysisSchedule {
+  id: string;
+  ticker: string;
+  frequency: 'daily' | 'weekly';
+  day_of_week: number | null;
+  run_time: string;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_status: 'started' | 'skipped' | 'failed' | null;
+  last_error: string | null;
+  last_analysis_id: string | null;
+}
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+interface AnalysisScheduleDialogProps {
+  ticker: string;
+  schedule?: AnalysisSchedule;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function AnalysisScheduleDialog({ ticker, schedule, isOpen, onClose, onSaved }: AnalysisScheduleDialogProps) {
+  const { toast } = useToast();
+  const [frequency, setFrequency] = useState<'daily' | 'weekly'>('daily');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [runTime, setRunTime] = useState('09:45');
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFrequency(schedule?.frequency || 'daily');
+    setDayOfWeek(schedule?.day_of_week || 1);
+    setRunTime(schedule?.run_time?.slice(0, 5) || '09:45');
+    setEnabled(schedule?.enabled ?? true);
+  }, [isOpen, schedule]);
+
+  const runTimeValid = runTime >= '04:00' && runTime <= '19:59';
+
+  const invokeScheduler = async (body: Record<string, unknown>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('analysis-scheduler', { body });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Scheduler request failed');
+
+      toast({ title: "Schedule Updated", description: successMessage });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error updating analysis schedule:', error);
+      toast({
+        title: "Schedule Update Failed",
+        description: error instanceof Error ? error.message : 'Unable to update schedule',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveSchedule = () => invokeScheduler(
+    { action: 'save-schedule', ticker, frequency, dayOfWeek, runTime, enabled },
+    enabled ? `${ticker} will be analyzed automatically` : `Scheduled analyses for ${ticker} are paused`
+  );
+
+  const deleteSchedule = () => invokeScheduler(
+    { action: 'delete-schedule', ticker },
+    `Removed the analysis schedule for ${ticker}`
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Schedule Analysis for {ticker}
+          </DialogTitle>
+          <DialogDescription>
+            Runs on trading days only; weekends and market holidays are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as 'daily' | 'weekly')}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Every trading day</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {frequency === 'weekly' && (
+            <div className="space-y-2">
+              <Label>Day</Label>
+              <Select value={String(dayOfWeek)} onValueChange={(value) => setDayOfWeek(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index + 1)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-run-time">Time (ET)</Label>
+            <Input
+              id="schedule-run-time"
+              type="time"
+              value={runTime}
+              onChange={(e) => setRunTime(e.target.value)}
+              className={!runTimeValid ? "border-red-500" : ""}
+            />
+            <p className={`text-xs ${runTimeValid ? 'text-muted-foreground' : 'text-red-500'}`}>
+              Between 4:00 AM and 8:00 PM ET (pre-market through after-hours)
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="schedule-enabled">Enabled</Label>
+            <Switch id="schedule-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {schedule && (
+            <Button variant="outline" onClick={deleteSchedule} disabled={saving} className="sm:mr-auto">
+              <Trash2 className="h-4 w-4 mr-1" />
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={saveSchedule} disabled={saving || !runTimeValid}>
+            {saving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
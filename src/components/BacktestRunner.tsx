@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { AlertCircle, Loader2, Play } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+import { AGENT_CATALOG } from "@/lib/workflowDefinition";
+
+interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number;
+  cagr: number | null;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  hitRate: number | null;
+  decisionsEvaluated: number;
+  tradesExecuted: number;
+}
+
+interface BacktestTrade {
+  analysisId: string;
+  ticker: string;
+  date: string;
+  action: 'BUY' | 'SELL';
+  shares: number;
+  price: number;
+  dollarAmount: number;
+  realizedPnl?: number;
+}
+
+interface AgentAttribution {
+  agent: string;
+  signals: number;
+  hits: number;
+  hitRate: number | null;
+  agreementWithDecision: number | null;
+  averageSignedReturn: number | null;
+}
+
+interface BacktestResponse {
+  settings: {
+    positionSizeDollars: number;
+    minPositionPercent: number;
+    maxPositionPercent: number;
+    holdingPeriodDays: number;
+  };
+  metrics: BacktestMetrics;
+  equityCurve: Array<{ date: string; equity: number; cash: number }>;
+  trades: BacktestTrade[];
+  outcomes: Array<{ analysisId: string; skipReason?: string }>;
+  agentAttribution: AgentAttribution[];
+  missingData: string[];
+}
+
+// Agent insights are keyed by camelCase names; show the same labels as the workflow
+const AGENT_LABELS: { [insightKey: string]: string } = Object.fromEntries(
+  Object.values(AGENT_CATALOG).map(entry => [entry.insightKey, entry.displayName])
+);
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value.toFixed(2)}%`;
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+function defaultStartDate(): string {
+  const date = new Date();
+  date.setMonth(date.getMonth() - 6);
+  return date.toISOString().split('T')[0];
+}
+
+export default function BacktestRunner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState(defaultStartDate());
+  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [tickers, setTickers] = useState('');
+  const [initialCapital, setInitialCapital] = useState(100000);
+  const [holdingPeriodDays, setHoldingPeriodDays] = useState(20);
+  const [offline, setOffline] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<BacktestResponse | null>(null);
+
+  const runBacktest = async () => {
+    if (!user?.id) return;
+
+    setRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('backtest', {
+        body: {
+          startDate,
+          endDate,
+          tickers: tickers.split(',').map(t => t.trim().toUpperCase()).filter(Boolean),
+          initialCapital,
+          holdingPeriodDays,
+          offline
+        }
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Backtest failed');
+
+      setResult(data as BacktestResponse);
+    } catch (error) {
+      console.error('Backtest error:', error);
+      toast({
+        title: "Backtest Failed",
+        description: error instanceof Error ? error.message : 'Unable to run backtest',
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const skipped = result?.outcomes.filter(o => o.skipReason).length || 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Parameters</CardTitle>
+          <CardDescription>
+            Completed analyses in the date range are traded with your default position size and min/max position limits
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backtest-start">Start Date</Label>
+              <Input id="backtest-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-end">End Date</Label>
+              <Input id="backtest-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-tickers">Tickers</Label>
+              <Input
+                id="backtest-tickers"
+                placeholder="All analyzed tickers"
+                value={tickers}
+                onChange={(e) => setTickers(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-capital">Initial Capital ($)</Label>
+              <Input
+                id="backtest-capital"
+                type="number"
+                min={1}
+                value={initialCapital}
+                onChange={(e) => setInitialCapital(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-holding">Scoring Horizon (trading days)</Label>
+              <Input
+                id="backtest-holding"
+                type="number"
+                min={1}
+                value={holdingPeriodDays}
+                onChange={(e) => setHoldingPeriodDays(Math.max(1, Math.floor(Number(e.target.value))))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-offline">Cached Bars Only</Label>
+              <div className="flex items-center gap-2 h-10">
+                <Switch id="backtest-offline" checked={offline} onCheckedChange={setOffline} />
+                <span className="text-sm text-muted-foreground">
+                  {offline ? 'No market data requests' : 'Fetch missing bars from Alpaca'}
+                </span>
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={runBacktest} disabled={running || !startDate || !endDate}>
+              {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run Backtest
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          {(result.missingData.length > 0 || skipped > 0) && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {result.missingData.length > 0 && `No cached bars for ${result.missingData.join(', ')}. `}
+                {skipped > 0 && `${skipped} decision${skipped === 1 ? ' was' : 's were'} not traded (no price data, cash or position limits).`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            {[
+              { label: 'Final Equity', value: formatCurrency(result.metrics.finalEquity) },
+              { label: 'Total Return', value: formatPercent(result.metrics.totalReturn) },
+              { label: 'CAGR', value: formatPercent(result.metrics.cagr) },
+              { label: 'Max Drawdown', value: formatPercent(result.metrics.maxDrawdown) },
+              { label: 'Sharpe Ratio', value: result.metrics.sharpeRatio?.toFixed(2) ?? '—' },
+              { label: 'Hit Rate', value: `${formatPercent(result.metrics.hitRate)} (${result.metrics.decisionsEvaluated})` },
+            ].map(metric => (
+              <Card key={metric.label}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">{metric.label}</p>
+                  <p className="text-xl font-bold">{metric.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Equity Curve</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={result.equityCurve}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} domain={['auto', 'auto']} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Line type="monotone" dataKey="equity" stroke="#10b981" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Agent Attribution</CardTitle>
+              <CardDescription>
+                How each agent's BUY/SELL calls fared over {result.settings.holdingPeriodDays} trading days
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Agent</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Hit Rate</TableHead>
+                    <TableHead className="text-right">Agreed with Decision</TableHead>
+                    <TableHead className="text-right">Avg Return</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.agentAttribution.map(row => (
+                    <TableRow key={row.agent}>
+                      <TableCell>{AGENT_LABELS[row.agent] || row.agent}</TableCell>
+                      <TableCell className="text-right">{row.signals}</TableCell>
+                      <TableCell className="text-right">{formatPercent(row.hitRate)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(row.agreementWithDecision)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(row.averageSignedReturn)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {result.agentAttribution.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">
+                        No scored agent calls in this range
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Simulated Trades</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Realized P&L</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.trades.map(trade => (
+                    <TableRow key={`${trade.analysisId}-${trade.date}`}>
+                      <TableCell>{trade.date}</TableCell>
+                      <TableCell className="font-medium">{trade.ticker}</TableCell>
+                      <TableCell>
+                        <Badge variant={trade.action === 'BUY' ? 'buy' : 'sell'}>{trade.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(trade.price)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(trade.dollarAmount)}</TableCell>
+                      <TableCell className={`text-right ${(trade.realizedPnl ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {trade.realizedPnl !== undefined ? formatCurrency(trade.realizedPnl) : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {result.trades.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground">
+                        No trades were simulated
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { useEffect } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/lib/auth";
+import { PRIMARY_ACCOUNT_LABEL, useBrokerAccounts } from "@/lib/brokerAccounts";
+
+const PRIMARY_VALUE = 'primary';
+
+// Picks the Alpaca account the dashboard shows; hidden until the user adds a broker account
+export default function BrokerAccountSwitcher() {
+  const { isAuthenticated } = useAuth();
+  const { accounts, selectedAccountId, loadAccounts, selectAccount } = useBrokerAccounts();
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadAccounts();
+    }
+  }, [isAuthenticated, loadAccounts]);
+
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={selectedAccountId || PRIMARY_VALUE}
+      onValueChange={(value) => selectAccount(value === PRIMARY_VALUE ? null : value)}
+    >
+      <SelectTrigger className="h-7 w-auto min-w-[140px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PRIMARY_VALUE} className="text-xs">{PRIMARY_ACCOUNT_LABEL}</SelectItem>
+        {accounts.map(account => (
+          <SelectItem key={account.id} value={account.id} className="text-xs">
+            {account.name} ({account.is_paper ? 'Paper' : 'Live'})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -12,9 +12,12 @@ import {
   RefreshCw,
   UserPlus,
   Activity,
-  Menu
+  Menu,
+  History,
+  Coins
 } from "lucide-react";
 import { useAuth, hasRequiredApiKeys } from "@/lib/auth";
+import MarketStatusBadge from "@/components/MarketStatusBadge";
 import { supabase } from "@/lib/supabase";
 import {
   ANALYSIS_STATUS,
@@ -105,6 +108,12 @@ export default function Header() {
                       Analysis Records
                     </Button>
                   </Link>
+                  <Link to="/backtest">
+                    <Button variant="ghost" size="sm">
+                      <History className="h-4 w-4 mr-2" />
+                      Backtest
+                    </Button>
+                  </Link>
                   <Link to="/trade-history">
                     <Button variant="ghost" size="sm">
                       <TrendingUp className="h-4 w-4 mr-2" />
@@ -139,6 +148,12 @@ export default function Header() {
                           Profile
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link to="/usage" className="flex items-center">
+                          <Coins className="h-4 w-4 mr-2" />
+                          AI Usage
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuItem asChild>
                         <Link to="/settings" className="flex items-center">
                           <Settings className="h-4 w-4 mr-2" />
@@ -180,6 +195,12 @@ export default function Header() {
                           Analysis Records
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link to="/backtest" className="flex items-center">
+                          <History className="h-4 w-4 mr-2" />
+                          Backtest
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuItem asChild>
                         <Link to="/trade-history" className="flex items-center">
                           <TrendingUp className="h-4 w-4 mr-2" />
@@ -194,6 +215,12 @@ export default function Header() {
                           Profile
                         </Link>
                       </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link to="/usage" className="flex items-center">
+                          <Coins className="h-4 w-4 mr-2" />
+                          AI Usage
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuItem asChild>
                         <Link to="/settings" className="flex items-center">
                           <Settings className="h-4 w-4 mr-2" />
@@ -208,6 +235,8 @@ export default function Header() {
                     </DropdownMenuContent>
                   </DropdownMenu>
 
+                  <MarketStatusBadge />
+
                   <div className="text-right hidden sm:block">
                     <p className="text-sm font-medium text-foreground">System Status</p>
                     <div className="flex items-center gap-2">
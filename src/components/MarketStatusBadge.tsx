@@ -0,0 +1,26 @@
+import { useEffect, useState } from "react";
+import { formatMarketTime, getMarketStatus } from "@/lib/tradingCalendar";
+
+export default function MarketStatusBadge() {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000); // Refresh every minute
+    return () => clearInterval(interval);
+  }, []);
+
+  const status = getMarketStatus(now);
+  const detail = status.isOpen && status.closesAt
+    ? `Closes ${formatMarketTime(status.closesAt, now)}${status.earlyClose ? ' (early close)' : ''}`
+    : `${status.holiday ? `${status.holiday} · ` : ''}Opens ${formatMarketTime(status.nextOpen, now)}`;
+
+  return (
+    <div className="text-right hidden lg:block">
+      <p className="text-sm font-medium text-foreground">Market {status.isOpen ? 'Open' : 'Closed'}</p>
+      <div className="flex items-center gap-2 justify-end">
+        <div className={`h-2 w-2 rounded-full ${status.isOpen ? 'bg-buy' : 'bg-muted-foreground'}`}></div>
+        <span className="text-xs text-muted-foreground">{detail}</span>
+      </div>
+    </div>
+  );
+}
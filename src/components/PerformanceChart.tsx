@@ -11,6 +11,8 @@ import { useAuth, isSessionValid } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import { fetchPortfolioData, fetchStockData, type PortfolioData, type StockData, type PortfolioDataPoint } from "@/lib/portfolio-data";
 import { useNavigate } from "react-router-dom";
+import { useBrokerAccounts } from "@/lib/brokerAccounts";
+import BrokerAccountSwitcher from "./BrokerAccountSwitcher";
 
 interface PerformanceChartProps {
   selectedStock?: string;
@@ -46,12 +48,14 @@ const PerformanceChart = React.memo(({ selectedStock, onClearSelection }: Perfor
   const [positions, setPositions] = useState<any[]>([]);
   const [hasAlpacaConfig, setHasAlpacaConfig] = useState(true); // Assume configured initially
   const { apiSettings, isAuthenticated } = useAuth();
+  const selectedAccountId = useBrokerAccounts(state => state.selectedAccountId);
   const { toast } = useToast();
 
   // Track if we've already fetched for current apiSettings and selectedStock
   const fetchedRef = useRef<string>('');
   const lastFetchTimeRef = useRef<number>(0);
   const metricsLoaded = useRef(false);
+  const accountRef = useRef(selectedAccountId);
 
   const fetchData = useCallback(async (period: string) => {
     // Debounce fetches - don't fetch if we just fetched less than 2 seconds ago
@@ -141,8 +145,8 @@ const PerformanceChart = React.memo(({ selectedStock, onClearSelection }: Perfor
 
           const data = batchData[selectedStock];
           if (data?.quote && data?.previousBar) {
-            const currentPrice = data.quote.ap || data.quote.bp || 0;
-            const previousClose = data.previousBar.c;
+            const currentPrice = data.quote.askPrice || data.quote.bidPrice || 0;
+            const previousClose = data.previousBar.close;
             const dayChange = currentPrice - previousClose;
             // const dayChangePercent = previousClose > 0 ? (dayChange / previousClose) * 100 : 0;
             console.log(`Daily change for ${selectedStock}: $${dayChange.toFixed(2)}`);
@@ -175,6 +179,19 @@ const PerformanceChart = React.memo(({ selectedStock, onClearSelection }: Perfor
     }
   }, [selectedStock, portfolioData, stockData, toast]);
 
+  // Drop cached history and metrics when switching broker accounts so the next fetch reloads them
+  useEffect(() => {
+    if (accountRef.current === selectedAccountId) return;
+    accountRef.current = selectedAccountId;
+
+    fetchedRef.current = '';
+    lastFetchTimeRef.current = 0;
+    metricsLoaded.current = false;
+    setPortfolioData(null);
+    setStockData({});
+    setPositionsLoading(true);
+  }, [selectedAccountId]);
+
   // Fetch data when period or stock changes
   useEffect(() => {
     // Don't fetch if not authenticated or session is invalid
@@ -222,19 +239,19 @@ const PerformanceChart = React.memo(({ selectedStock, onClearSelection }: Perfor
       };
     }
 
-    // Handle both raw Alpaca format and transformed metrics format
-    const shares = position.shares !== undefined ? position.shares : (parseFloat(position.qty || '0') || 0);
-    const avgCost = position.avgCost !== undefined ? position.avgCost : (parseFloat(position.avg_entry_price || '0') || 0);
-    const currentPrice = position.currentPrice !== undefined ? position.currentPrice : (parseFloat(position.current_price || '0') || 0);
-    const lastdayPrice = position.lastdayPrice !== undefined ? position.lastdayPrice : (parseFloat(position.lastday_price || '0') || 0);
-    const marketValue = position.marketValue !== undefined ? position.marketValue : (parseFloat(position.market_value || '0') || 0);
-    const unrealizedPL = position.unrealizedPL !== undefined ? position.unrealizedPL : (parseFloat(position.unrealized_pl || '0') || 0);
-    const unrealizedPLPercent = position.unrealizedPLPct !== undefined ? position.unrealizedPLPct : ((parseFloat(position.unrealized_plpc || '0') || 0) * 100);
+    // Handle both broker position format and transformed metrics format
+    const shares = position.shares !== undefined ? position.shares : (position.quantity || 0);
+    const avgCost = position.avgCost !== undefined ? position.avgCost : (position.avgEntryPrice || 0);
+    const currentPrice = position.currentPrice || 0;
+    const lastdayPrice = position.lastdayPrice || 0;
+    const marketValue = position.marketValue || 0;
+    const unrealizedPL = position.unrealizedPL !== undefined ? position.unrealizedPL : (position.unrealizedPl || 0);
+    const unrealizedPLPercent = position.unrealizedPLPct !== undefined ? position.unrealizedPLPct : (position.unrealizedPlPercent || 0);
     
     // For intraday P/L, calculate from day change if not directly available
     const dayChange = position.dayChange !== undefined ? position.dayChange : 0;
-    const todayPL = position.unrealized_intraday_pl !== undefined ? parseFloat(position.unrealized_intraday_pl || '0') : (dayChange * shares * currentPrice / 100);
-    const todayPLPercent = position.unrealized_intraday_plpc !== undefined ? (parseFloat(position.unrealized_intraday_plpc || '0') * 100) : dayChange;
+    const todayPL = position.unrealizedIntradayPl !== undefined ? position.unrealizedIntradayPl : (dayChange * shares * currentPrice / 100);
+    const todayPLPercent = position.unrealizedIntradayPlPercent !== undefined ? position.unrealizedIntradayPlPercent : dayChange;
 
     // Calculate stock's daily price change (not position P&L)
     const stockDailyChange = currentPrice - lastdayPrice;
@@ -387,19 +404,22 @@ const PerformanceChart = React.memo(({ selectedStock, onClearSelection }: Perfor
               </div>
             )}
           </div>
-          <div className="text-xs text-muted-foreground">
-            Data may be incomplete or delayed.{' '}
-            <a
-              href={selectedStock 
-                ? `https://app.alpaca.markets/trade/${selectedStock}`
-                : 'https://app.alpaca.markets/dashboard/overview'
-              }
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-primary hover:underline"
-            >
-              View on Alpaca →
-            </a>
+          <div className="flex items-center gap-3">
+            <BrokerAccountSwitcher />
+            <div className="text-xs text-muted-foreground">
+              Data may be incomplete or delayed.{' '}
+              <a
+                href={selectedStock 
+                  ? `https://app.alpaca.markets/trade/${selectedStock}`
+                  : 'https://app.alpaca.markets/dashboard/overview'
+                }
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                View on Alpaca →
+              </a>
+            </div>
           </div>
         </div>
       </CardHeader>
@@ -4,12 +4,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { TrendingUp, TrendingDown, Loader2, Activity, AlertCircle, AlertTriangle } from "lucide-react";
+import { TrendingUp, TrendingDown, Loader2, Activity, AlertCircle, AlertTriangle, Scale, Shield } from "lucide-react";
 import { alpacaAPI } from "@/lib/alpaca";
+import type { BrokerTickerData } from "@/lib/broker";
 import { useAuth } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 import { useAlpacaConnectionStore } from "@/hooks/useAlpacaConnection";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { describeGuardRules, GUARD_RULE_SOURCE_LABELS, type PositionGuard } from "@/lib/positionGuards";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -24,6 +27,9 @@ import {
   convertLegacyAnalysisStatus,
   isAnalysisActive
 } from "@/lib/statusTypes";
+import RebalanceDialog from "./RebalanceDialog";
+import BrokerAccountSwitcher from "./BrokerAccountSwitcher";
+import { useBrokerAccounts } from "@/lib/brokerAccounts";
 
 interface Position {
   symbol: string;
@@ -46,11 +52,19 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
   const { apiSettings, isAuthenticated, user } = useAuth();
   const { toast } = useToast();
   const { isConnected: isAlpacaConnected } = useAlpacaConnectionStore();
+  const { accounts, selectedAccountId } = useBrokerAccounts();
+  const selectedAccount = accounts.find(account => account.id === selectedAccountId);
+  // Rebalancing and position guards run on the primary account only
+  const isPrimaryAccount = !selectedAccount;
+  const isPaperTrading = selectedAccount ? selectedAccount.is_paper : apiSettings?.alpaca_paper_trading;
   const [positions, setPositions] = useState<Position[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
   const [runningAnalysesCount, setRunningAnalysesCount] = useState(0);
+  const [showRebalanceDialog, setShowRebalanceDialog] = useState(false);
+  const [guardsByTicker, setGuardsByTicker] = useState<Record<string, PositionGuard[]>>({});
+  const [cancelingGuardId, setCancelingGuardId] = useState<string | null>(null);
 
 
 
@@ -112,8 +126,8 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
       }
 
       // Get batch data for all positions to get today's open prices
-      const symbols = alpacaPositions.map((pos: any) => pos.symbol);
-      let batchData: any = {};
+      const symbols = alpacaPositions.map(pos => pos.symbol);
+      let batchData: Record<string, BrokerTickerData> = {};
 
       if (symbols.length > 0) {
         try {
@@ -126,32 +140,32 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
         }
       }
 
-      const formattedPositions: Position[] = alpacaPositions.map((pos: any) => {
-        const currentPrice = parseFloat(pos.current_price);
-        let dayChangePercent = parseFloat(pos.change_today); // Default to API value
+      const formattedPositions: Position[] = alpacaPositions.map(pos => {
+        const currentPrice = pos.currentPrice;
+        let dayChangePercent = pos.changeTodayPercent; // Default to the broker's value
 
         // Calculate today's change from open if we have the data
         const stockData = batchData[pos.symbol];
         if (stockData?.currentBar) {
-          const todayOpen = stockData.currentBar.o;
+          const todayOpen = stockData.currentBar.open;
           const priceChange = currentPrice - todayOpen;
           dayChangePercent = todayOpen > 0 ? (priceChange / todayOpen) * 100 : 0;
           console.log(`${pos.symbol}: Open: ${todayOpen}, Current: ${currentPrice}, Change: ${dayChangePercent.toFixed(2)}%`);
         } else if (stockData?.previousBar) {
           // Fallback to previous close if no current bar (market closed)
-          const previousClose = stockData.previousBar.c;
+          const previousClose = stockData.previousBar.close;
           const priceChange = currentPrice - previousClose;
           dayChangePercent = previousClose > 0 ? (priceChange / previousClose) * 100 : 0;
         }
 
         return {
           symbol: pos.symbol,
-          shares: parseFloat(pos.qty),
-          avgCost: parseFloat(pos.avg_entry_price),
+          shares: pos.quantity,
+          avgCost: pos.avgEntryPrice,
           currentPrice: currentPrice,
-          marketValue: parseFloat(pos.market_value),
-          unrealizedPL: parseFloat(pos.unrealized_pl),
-          unrealizedPLPct: parseFloat(pos.unrealized_plpc) * 100,
+          marketValue: pos.marketValue,
+          unrealizedPL: pos.unrealizedPl,
+          unrealizedPLPct: pos.unrealizedPlPercent,
           dayChange: dayChangePercent
         };
       });
@@ -182,7 +196,58 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
     // Refresh positions every 30 seconds
     const interval = setInterval(fetchPositions, 30000);
     return () => clearInterval(interval);
-  }, [apiSettings]);
+  }, [apiSettings, selectedAccountId]);
+
+  // Active exit rules armed by the position-guardian function
+  const loadGuards = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('position_guards')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .order('entry_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading position guards:', error);
+      return;
+    }
+
+    const grouped: Record<string, PositionGuard[]> = {};
+    for (const guard of (data || []) as PositionGuard[]) {
+      (grouped[guard.ticker] ||= []).push(guard);
+    }
+    setGuardsByTicker(grouped);
+  };
+
+  useEffect(() => {
+    loadGuards();
+    const interval = setInterval(loadGuards, 30000);
+    return () => clearInterval(interval);
+  }, [user]);
+
+  const cancelGuard = async (guard: PositionGuard) => {
+    setCancelingGuardId(guard.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('position-guardian', {
+        body: { action: 'cancel-guard', guardId: guard.id }
+      });
+      if (error || !data?.success) {
+        throw new Error(data?.error || error?.message || 'Failed to remove guard');
+      }
+      toast({ title: "Guard removed", description: `${guard.ticker} is no longer watched by this guard` });
+      await loadGuards();
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to remove guard',
+        variant: "destructive",
+      });
+    } finally {
+      setCancelingGuardId(null);
+    }
+  };
 
   // Check for running analyses
   useEffect(() => {
@@ -232,13 +297,24 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
             <div className="flex items-center gap-2">
               <CardTitle className="text-base font-semibold">Holdings</CardTitle>
               {apiSettings && (
-                <Badge variant={apiSettings.alpaca_paper_trading ? "secondary" : "destructive"} className="text-xs">
-                  {apiSettings.alpaca_paper_trading ? "Paper" : "Live"}
+                <Badge variant={isPaperTrading ? "secondary" : "destructive"} className="text-xs">
+                  {isPaperTrading ? "Paper" : "Live"}
                 </Badge>
               )}
             </div>
             <div className="flex items-center gap-2">
-              {/* Holdings controls can be added here if needed */}
+              <BrokerAccountSwitcher />
+              {isAlpacaConnected && isPrimaryAccount && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowRebalanceDialog(true)}
+                  className="h-7 text-xs"
+                >
+                  <Scale className="h-3 w-3 mr-1" />
+                  Rebalance
+                </Button>
+              )}
             </div>
           </div>
           {lastRefresh && (
@@ -283,9 +359,53 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
                         onClick={() => onSelectStock?.(position.symbol)}
                       >
                         <TableCell className="font-medium w-[60px]">
-                          <Badge variant={selectedStock === position.symbol ? 'default' : 'outline'}>
-                            {position.symbol}
-                          </Badge>
+                          <div className="flex items-center gap-1">
+                            <Badge variant={selectedStock === position.symbol ? 'default' : 'outline'}>
+                              {position.symbol}
+                            </Badge>
+                            {isPrimaryAccount && guardsByTicker[position.symbol] && (
+                              <Popover>
+                                <PopoverTrigger asChild>
+                                  <button
+                                    type="button"
+                                    className="text-primary hover:text-primary/80"
+                                    onClick={(e) => e.stopPropagation()}
+                                    aria-label={`Exit rules for ${position.symbol}`}
+                                  >
+                                    <Shield className="h-3 w-3" />
+                                  </button>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-80 text-xs" onClick={(e) => e.stopPropagation()}>
+                                  <div className="space-y-3">
+                                    {guardsByTicker[position.symbol].map(guard => (
+                                      <div key={guard.id} className="space-y-1">
+                                        <p className="font-medium">
+                                          {Number(guard.shares).toFixed(2)} shares @ ${Number(guard.entry_price).toFixed(2)} on {new Date(guard.entry_at).toLocaleDateString()}
+                                        </p>
+                                        {describeGuardRules(guard).map(line => (
+                                          <p key={line} className="text-muted-foreground">{line}</p>
+                                        ))}
+                                        <p className="text-muted-foreground">Rules from {GUARD_RULE_SOURCE_LABELS[guard.rule_source]}</p>
+                                        {guard.last_error && (
+                                          <p className="text-red-500">{guard.last_error}</p>
+                                        )}
+                                        <Button
+                                          variant="outline"
+                                          size="sm"
+                                          className="h-6 text-xs"
+                                          disabled={cancelingGuardId === guard.id}
+                                          onClick={() => cancelGuard(guard)}
+                                        >
+                                          {cancelingGuardId === guard.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                                          Remove guard
+                                        </Button>
+                                      </div>
+                                    ))}
+                                  </div>
+                                </PopoverContent>
+                              </Popover>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell className="text-right text-sm px-2">{position.shares.toFixed(2)}</TableCell>
                         <TableCell className="text-right font-medium text-sm px-2">
@@ -327,7 +447,10 @@ export default function PortfolioPositions({ onSelectStock, selectedStock }: Por
         </CardContent>
       </Card>
 
-      
+      <RebalanceDialog
+        isOpen={showRebalanceDialog}
+        onClose={() => setShowRebalanceDialog(false)}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  correlationClassName,
+  ExposureBucket,
+  formatWeight,
+  PortfolioRiskReport
+} from "@/lib/portfolioRisk";
+
+function ExposureList({ buckets }: { buckets: ExposureBucket[] }) {
+  return (
+    <div className="space-y-3">
+      {buckets.map(bucket => (
+        <div key={bucket.name} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{bucket.name}</span>
+            <span className="text-muted-foreground">{formatWeight(bucket.weight)}</span>
+          </div>
+          <Progress value={Math.min(100, bucket.weight * 100)} className="h-2" />
+          <p className="text-xs text-muted-foreground">{bucket.symbols.join(', ')}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Portfolio risk: beta vs SPY, 1-day VaR/CVaR, sector and industry exposure and
+ * the correlation matrix of the current Alpaca positions
+ */
+export default function PortfolioRiskPanel() {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [report, setReport] = useState<PortfolioRiskReport | null>(null);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('portfolio-risk', { body: {} });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Portfolio risk calculation failed');
+      setReport(data.report as PortfolioRiskReport);
+    } catch (error) {
+      console.error('Portfolio risk error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to load portfolio risk',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  if (!loading && !report) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Portfolio Risk</CardTitle>
+          <CardDescription>
+            Beta vs SPY, 1-day value at risk and concentration of your current positions, from up to one year of daily returns.
+          </CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={loadReport} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !report ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : report && report.positions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No open positions to analyze
+          </p>
+        ) : report && (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Beta vs SPY</p>
+                <p className="text-2xl font-semibold">{report.beta?.toFixed(2) ?? '—'}</p>
+                <p className="text-xs text-muted-foreground">
+                  Volatility {formatWeight(report.volatility)} a year, cash {formatWeight(report.cashWeight)}
+                </p>
+              </div>
+              {report.historicalVaR.map(measure => {
+                const parametric = report.parametricVaR.find(item => item.confidence === measure.confidence);
+                return (
+                  <div key={measure.confidence} className="rounded-lg border p-4">
+                    <p className="text-sm text-muted-foreground">{measure.confidence}% 1-day VaR</p>
+                    <p className="text-2xl font-semibold text-red-600 dark:text-red-400">
+                      ${measure.varAmount.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatWeight(measure.var)} historical, CVaR {formatWeight(measure.cvar)}
+                      {parametric && `; parametric ${formatWeight(parametric.var)}`}
+                    </p>
+                  </div>
+                );
+              })}
+              {report.historicalVaR.length === 0 && (
+                <div className="rounded-lg border p-4 md:col-span-2">
+                  <p className="text-sm text-muted-foreground">Value at risk</p>
+                  <p className="text-sm">Not enough daily price history for the current positions</p>
+                </div>
+              )}
+            </div>
+
+            {report.warnings.length > 0 && (
+              <div className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3 space-y-1">
+                {report.warnings.map(warning => (
+                  <p key={warning} className="flex items-start gap-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-600" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <Tabs defaultValue="sectors">
+              <TabsList>
+                <TabsTrigger value="sectors">Sectors</TabsTrigger>
+                <TabsTrigger value="industries">Industries</TabsTrigger>
+                <TabsTrigger value="positions">Positions</TabsTrigger>
+                <TabsTrigger value="correlation">Correlation</TabsTrigger>
+              </TabsList>
+              <TabsContent value="sectors" className="pt-2">
+                <ExposureList buckets={report.sectors} />
+              </TabsContent>
+              <TabsContent value="industries" className="pt-2">
+                <ExposureList buckets={report.industries} />
+              </TabsContent>
+              <TabsContent value="positions" className="pt-2">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Symbol</TableHead>
+                      <TableHead>Sector</TableHead>
+                      <TableHead className="text-right">Weight</TableHead>
+                      <TableHead className="text-right">Beta</TableHead>
+                      <TableHead className="text-right">Volatility</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.positions.map(position => (
+                      <TableRow key={position.symbol}>
+                        <TableCell className="font-medium">{position.symbol}</TableCell>
+                        <TableCell>
+                          {position.sector}
+                          {position.industry && <p className="text-xs text-muted-foreground">{position.industry}</p>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatWeight(position.weight)}</TableCell>
+                        <TableCell className="text-right">{position.beta?.toFixed(2) ?? '—'}</TableCell>
+                        <TableCell className="text-right">{formatWeight(position.volatility)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {report.missingHistory.length > 0 && (
+                  <p className="text-xs text-muted-foreground pt-2">
+                    Not enough price history for {report.missingHistory.join(', ')}; left out of beta, VaR and correlations
+                  </p>
+                )}
+              </TabsContent>
+              <TabsContent value="correlation" className="pt-2">
+                {report.correlation.symbols.length < 2 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    Correlations need at least two positions with price history
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="text-xs">
+                      <thead>
+                        <tr>
+                          <th />
+                          {report.correlation.symbols.map(symbol => (
+                            <th key={symbol} className="px-2 py-1 font-medium">{symbol}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.correlation.symbols.map((symbol, row) => (
+                          <tr key={symbol}>
+                            <th className="px-2 py-1 text-left font-medium">{symbol}</th>
+                            {report.correlation.matrix[row].map((value, column) => (
+                              <td
+                                key={column}
+                                className={`px-2 py-1 text-center ${row === column ? 'text-muted-foreground' : correlationClassName(value)}`}
+                              >
+                                {value === null ? '—' : value.toFixed(2)}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
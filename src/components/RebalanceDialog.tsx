@@ -0,0 +1,379 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check, Loader2, Plus, RefreshCw, Scale, Trash2, X } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+
+interface TargetRow {
+  ticker: string;
+  percentage: string;
+}
+
+interface TickerDrift {
+  ticker: string;
+  currentWeight: number;
+  targetWeight: number;
+  drift: number;
+  drifted: boolean;
+}
+
+interface RebalanceRequest {
+  id: string;
+  status: 'analyzing' | 'planning' | 'pending_approval' | 'approved' | 'rejected' | 'no_action' | 'failed';
+  analysis_ids: string[];
+  error_message: string | null;
+  created_at: string;
+  plan: {
+    drifts?: TickerDrift[];
+    untracked?: string[];
+    skipped?: Array<{ ticker: string; action: string; reason: string }>;
+    budget?: { allowedCash: number; sellProceeds: number; buyScale: number };
+  };
+}
+
+interface RebalanceOrder {
+  id: string;
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  shares: number;
+  dollar_amount: number;
+  status: string;
+  reasoning: string;
+}
+
+const STATUS_LABELS: Record<RebalanceRequest['status'], string> = {
+  analyzing: 'Analyzing drifted tickers',
+  planning: 'Planning',
+  pending_approval: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  no_action: 'Already balanced',
+  failed: 'Failed'
+};
+
+interface RebalanceDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function RebalanceDialog({ isOpen, onClose }: RebalanceDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [targets, setTargets] = useState<TargetRow[]>([]);
+  const [savedTickers, setSavedTickers] = useState<string[]>([]);
+  const [driftThreshold, setDriftThreshold] = useState('2');
+  const [runAnalysis, setRunAnalysis] = useState(false);
+  const [request, setRequest] = useState<RebalanceRequest | null>(null);
+  const [orders, setOrders] = useState<RebalanceOrder[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const invokeCoordinator = useCallback(async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('rebalance-coordinator', { body });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || 'Rebalance request failed');
+    setRequest(data.request);
+    setOrders(data.orders || []);
+    return data;
+  }, []);
+
+  const loadState = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('target_allocations')
+      .select('ticker, target_percentage')
+      .eq('user_id', user.id)
+      .order('ticker');
+
+    setTargets((data || []).map((row: { ticker: string; target_percentage: number }) => ({ ticker: row.ticker, percentage: String(row.target_percentage) })));
+    setSavedTickers((data || []).map((row: { ticker: string }) => row.ticker));
+
+    try {
+      await invokeCoordinator({ action: 'get-rebalance' });
+    } catch (error) {
+      console.error('Error loading rebalance:', error);
+    }
+  }, [user, invokeCoordinator]);
+
+  useEffect(() => {
+    if (isOpen) loadState();
+  }, [isOpen, loadState]);
+
+  const totalTarget = targets.reduce((sum, row) => sum + (parseFloat(row.percentage) || 0), 0);
+  const targetsValid = targets.every(row => /^[A-Z0-9.-]+$/.test(row.ticker) && parseFloat(row.percentage) >= 0)
+    && totalTarget <= 100;
+  const threshold = parseFloat(driftThreshold);
+  const isActive = request?.status === 'analyzing' || request?.status === 'planning' || request?.status === 'pending_approval';
+
+  const updateTarget = (index: number, changes: Partial<TargetRow>) => {
+    setTargets(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const runAction = async (action: () => Promise<void>, failureTitle: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : 'Unexpected error',
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveTargets = () => runAction(async () => {
+    if (!user) return;
+    const removed = savedTickers.filter(ticker => !targets.some(row => row.ticker === ticker));
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from('target_allocations')
+        .delete()
+        .eq('user_id', user.id)
+        .in('ticker', removed);
+      if (error) throw error;
+    }
+    if (targets.length > 0) {
+      const { error } = await supabase
+        .from('target_allocations')
+        .upsert(
+          targets.map(row => ({ user_id: user.id, ticker: row.ticker, target_percentage: parseFloat(row.percentage) })),
+          { onConflict: 'user_id,ticker' }
+        );
+      if (error) throw error;
+    }
+    setSavedTickers(targets.map(row => row.ticker));
+    toast({ title: "Targets Saved", description: `${targets.length} target allocation(s) saved` });
+  }, 'Failed to Save Targets');
+
+  const startRebalance = () => runAction(async () => {
+    const data = await invokeCoordinator({ action: 'start-rebalance', driftThreshold: threshold, runAnalysis });
+    toast({
+      title: "Rebalance Started",
+      description: data.request?.status === 'analyzing'
+        ? 'Analyzing drifted tickers before building the orders'
+        : STATUS_LABELS[data.request?.status as RebalanceRequest['status']] || 'Rebalance created',
+    });
+  }, 'Rebalance Failed');
+
+  const decideBatch = (action: 'approve-batch' | 'reject-batch') => runAction(async () => {
+    const data = await invokeCoordinator({ action, rebalanceRequestId: request?.id });
+    const failed = (data.results || []).filter((result: { success: boolean }) => !result.success).length;
+    toast({
+      title: action === 'approve-batch' ? "Rebalance Approved" : "Rebalance Rejected",
+      description: action === 'approve-batch'
+        ? `${orders.length - failed} order(s) submitted${failed ? `, ${failed} failed` : ''}`
+        : 'All orders in the batch were rejected',
+      variant: failed ? "destructive" : "default",
+    });
+  }, action === 'approve-batch' ? 'Approval Failed' : 'Rejection Failed');
+
+  const drifts = request?.plan?.drifts || [];
+  const skipped = request?.plan?.skipped || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Rebalance Portfolio
+          </DialogTitle>
+          <DialogDescription>
+            Targets are weights within your stock allocation. Orders are created as one batch that you approve or reject together.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Target Allocations</Label>
+            <span className={`text-xs ${totalTarget > 100 ? 'text-red-500' : 'text-muted-foreground'}`}>
+              Total {totalTarget.toFixed(1)}% of stocks
+            </span>
+          </div>
+          {targets.map((row, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={row.ticker}
+                onChange={(e) => updateTarget(index, { ticker: e.target.value.toUpperCase().trim() })}
+                placeholder="Ticker"
+                className="h-8 w-28"
+                disabled={busy}
+              />
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                step="0.5"
+                value={row.percentage}
+                onChange={(e) => updateTarget(index, { percentage: e.target.value })}
+                className="h-8 w-24"
+                disabled={busy}
+              />
+              <span className="text-xs text-muted-foreground">%</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setTargets(rows => rows.filter((_, i) => i !== index))}
+                disabled={busy}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setTargets(rows => [...rows, { ticker: '', percentage: '0' }])} disabled={busy}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Ticker
+            </Button>
+            <Button variant="outline" size="sm" onClick={saveTargets} disabled={busy || !targetsValid}>
+              Save Targets
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 pt-2">
+          <div className="space-y-1">
+            <Label htmlFor="rebalance-drift">Drift threshold (% points)</Label>
+            <Input
+              id="rebalance-drift"
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={driftThreshold}
+              onChange={(e) => setDriftThreshold(e.target.value)}
+              className="h-8"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2 pt-5">
+            <Label htmlFor="rebalance-analysis" className="text-sm">Analyze drifted tickers first</Label>
+            <Switch id="rebalance-analysis" checked={runAnalysis} onCheckedChange={setRunAnalysis} />
+          </div>
+        </div>
+
+        {request && (
+          <div className="space-y-3 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Badge variant={request.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {STATUS_LABELS[request.status]}
+                </Badge>
+                <span className="text-xs text-muted-foreground">{new Date(request.created_at).toLocaleString()}</span>
+              </div>
+              {request.status === 'analyzing' && (
+                <Button variant="ghost" size="sm" onClick={() => runAction(() => invokeCoordinator({ action: 'get-rebalance' }), 'Refresh Failed')} disabled={busy}>
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            {request.status === 'analyzing' && (
+              <p className="text-xs text-muted-foreground">
+                Waiting for {request.analysis_ids.length} analysis(es). Orders are built once they finish.
+              </p>
+            )}
+            {request.error_message && <p className="text-xs text-red-500">{request.error_message}</p>}
+
+            {drifts.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Ticker</TableHead>
+                    <TableHead className="text-right text-xs">Current</TableHead>
+                    <TableHead className="text-right text-xs">Target</TableHead>
+                    <TableHead className="text-right text-xs">Drift</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drifts.map((drift) => (
+                    <TableRow key={drift.ticker}>
+                      <TableCell className="text-sm font-medium">{drift.ticker}</TableCell>
+                      <TableCell className="text-right text-sm">{drift.currentWeight.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right text-sm">{drift.targetWeight.toFixed(1)}%</TableCell>
+                      <TableCell className={`text-right text-sm ${drift.drifted ? 'font-medium' : 'text-muted-foreground'}`}>
+                        {drift.drift > 0 ? '+' : ''}{drift.drift.toFixed(1)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {orders.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Orders</Label>
+                {orders.map((order) => (
+                  <div key={order.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      <Badge variant={order.action === 'BUY' ? 'default' : 'destructive'} className="mr-2 text-xs">{order.action}</Badge>
+                      {order.ticker}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {order.dollar_amount > 0 ? `$${Number(order.dollar_amount).toFixed(2)}` : `${order.shares} shares`} · {order.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {skipped.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Skipped</Label>
+                {skipped.map((skip) => (
+                  <p key={`${skip.ticker}-${skip.action}`} className="text-xs text-muted-foreground">
+                    {skip.action} {skip.ticker}: {skip.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {request?.status === 'pending_approval' ? (
+            <>
+              <Button variant="outline" onClick={() => decideBatch('reject-batch')} disabled={busy}>
+                <X className="h-4 w-4 mr-1" />
+                Reject All
+              </Button>
+              <Button onClick={() => decideBatch('approve-batch')} disabled={busy}>
+                {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                Approve All ({orders.length})
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={busy}>
+                Close
+              </Button>
+              <Button
+                onClick={startRebalance}
+                disabled={busy || isActive || savedTickers.length === 0 || !(threshold >= 0 && threshold <= 100)}
+              >
+                {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Start Rebalance
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
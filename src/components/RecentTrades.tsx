@@ -7,6 +7,8 @@ import { useAuth, isSessionValid } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 import AnalysisDetailModal from "@/components/AnalysisDetailModal";
+import { formatOptionContract, optionContractFromRow, type OptionContract } from "@/lib/orderExecution";
+import { formatMarketTime } from "@/lib/tradingCalendar";
 
 interface TradeDecision {
   id: string;
@@ -27,6 +29,7 @@ interface TradeDecision {
   alpacaOrderStatus?: string;
   alpacaFilledQty?: number;
   alpacaFilledPrice?: number;
+  optionContract?: OptionContract | null;
   createdAt: string;
 }
 
@@ -80,6 +83,7 @@ function RecentTrades() {
           alpacaOrderStatus: item.metadata?.alpaca_order?.status,
           alpacaFilledQty: item.metadata?.alpaca_order?.filled_qty ? Number(item.metadata.alpaca_order.filled_qty) : undefined,
           alpacaFilledPrice: item.metadata?.alpaca_order?.filled_avg_price ? Number(item.metadata.alpaca_order.filled_avg_price) : undefined,
+          optionContract: optionContractFromRow(item),
           createdAt: item.created_at
         }));
 
@@ -167,8 +171,10 @@ function RecentTrades() {
 
       if (data.success) {
         toast({
-          title: "Order Executed",
-          description: `${decision.action} order for ${decision.symbol} has been submitted to Alpaca. Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`,
+          title: data.queuedUntil ? "Order Queued" : "Order Executed",
+          description: data.queuedUntil
+            ? `The market is closed; ${decision.action} order for ${decision.symbol} will execute at the open (${formatMarketTime(new Date(data.queuedUntil))}). Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`
+            : `${decision.action} order for ${decision.symbol} has been submitted to Alpaca. Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`,
         });
 
         // Refresh trades
@@ -254,6 +260,10 @@ function RecentTrades() {
       return 'bg-gray-500/5 border-gray-500/20';
     };
 
+    // Option quantities are contracts of 100 shares each
+    const unitLabel = decision.optionContract ? 'contracts' : 'shares';
+    const filledValueMultiplier = decision.optionContract ? 100 : 1;
+
     return (
       <div
         key={decision.id}
@@ -278,19 +288,24 @@ function RecentTrades() {
                 >
                   {decision.action}
                 </Badge>
+                {decision.optionContract && (
+                  <Badge variant="outline" className="text-xs">
+                    {formatOptionContract(decision.optionContract)}
+                  </Badge>
+                )}
                 <span className="text-xs text-muted-foreground">
                   {decision.alpacaFilledQty && decision.alpacaFilledPrice
-                    ? `${Number(decision.alpacaFilledQty).toFixed(2)} shares @ $${decision.alpacaFilledPrice.toFixed(2)}`
+                    ? `${Number(decision.alpacaFilledQty).toFixed(2)} ${unitLabel} @ $${decision.alpacaFilledPrice.toFixed(2)}`
                     : decision.dollarAmount && decision.dollarAmount > 0
                       ? `$${Number(decision.dollarAmount).toLocaleString()} order`
                       : decision.quantity > 0
-                        ? `${Number(decision.quantity).toFixed(2)} shares ${decision.price > 0 ? `@ $${decision.price.toFixed(2)}` : '(market price)'}`
+                        ? `${Number(decision.quantity).toFixed(2)} ${unitLabel} ${decision.price > 0 ? `@ $${decision.price.toFixed(2)}` : '(market price)'}`
                         : 'Order details pending'
                   }
                 </span>
                 {decision.alpacaFilledQty && decision.alpacaFilledPrice ? (
                   <span className="text-xs font-medium">
-                    ${(decision.alpacaFilledQty * decision.alpacaFilledPrice).toLocaleString()}
+                    ${(decision.alpacaFilledQty * decision.alpacaFilledPrice * filledValueMultiplier).toLocaleString()}
                   </span>
                 ) : null}
                 {!decision.alpacaFilledQty && !decision.alpacaFilledPrice && decision.dollarAmount && decision.dollarAmount > 0 ? (
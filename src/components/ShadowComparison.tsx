@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RefreshCw } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DIVERGENCE_LABELS,
+  formatPnl,
+  pnlClassName,
+  ShadowComparisonResult,
+  ShadowSideResult
+} from "@/lib/shadowComparison";
+
+const PERIOD_OPTIONS = [7, 30, 90, 365];
+
+function formatFill(side: ShadowSideResult): string {
+  if (!side.filledQty || !side.filledPrice) return side.status || '—';
+  return `${Number(side.filledQty).toFixed(2)} @ $${side.filledPrice.toFixed(2)}`;
+}
+
+/**
+ * Shadow mode comparison: P&L of every decision executed on paper ("followed the AI")
+ * against the live orders the user approved, marked at current prices
+ */
+export default function ShadowComparison() {
+  const { toast } = useToast();
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [result, setResult] = useState<ShadowComparisonResult | null>(null);
+
+  const loadComparison = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('shadow-comparison', { body: { days } });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Shadow comparison failed');
+      setResult(data as ShadowComparisonResult);
+    } catch (error) {
+      console.error('Shadow comparison error:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to load shadow comparison',
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [days, toast]);
+
+  useEffect(() => {
+    loadComparison();
+  }, [loadComparison]);
+
+  if (!loading && !result) {
+    return null;
+  }
+
+  const summary = result?.summary;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Shadow Mode: AI vs. Approved</CardTitle>
+          <CardDescription>
+            Every decision is executed on your paper account; live orders only when you approve them. P&amp;L is marked at current prices.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={loadComparison} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading && !result ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : summary && (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">Followed the AI (paper)</p>
+                <p className={`text-2xl font-semibold ${pnlClassName(summary.followedAi.pnl)}`}>{formatPnl(summary.followedAi.pnl)}</p>
+                <p className="text-xs text-muted-foreground">{summary.followedAi.filled} of {summary.followedAi.trades} orders filled</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">What I approved (live)</p>
+                <p className={`text-2xl font-semibold ${pnlClassName(summary.approved.pnl)}`}>{formatPnl(summary.approved.pnl)}</p>
+                <p className="text-xs text-muted-foreground">{summary.approved.filled} of {summary.approved.trades} approved orders filled</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-muted-foreground">AI minus approved</p>
+                <p className={`text-2xl font-semibold ${pnlClassName(summary.pnlDifference)}`}>{formatPnl(summary.pnlDifference)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {summary.unpricedTrades > 0 ? `${summary.unpricedTrades} filled trade(s) without a current price are excluded` : 'Positive means following the AI did better'}
+                </p>
+              </div>
+            </div>
+
+            {result.trades.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No shadow trades in the last {days} days
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Trade</TableHead>
+                    <TableHead>Divergence</TableHead>
+                    <TableHead className="text-right">Decision price</TableHead>
+                    <TableHead className="text-right">Paper fill</TableHead>
+                    <TableHead className="text-right">Live fill</TableHead>
+                    <TableHead className="text-right">Paper P&amp;L</TableHead>
+                    <TableHead className="text-right">Live P&amp;L</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.trades.map(trade => (
+                    <TableRow key={trade.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{trade.ticker}</span>
+                          <Badge variant={trade.action === 'BUY' ? 'buy' : 'sell'} className="text-xs">{trade.action}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {trade.optionSymbol || new Date(trade.createdAt).toLocaleDateString()}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="text-xs" title={trade.paper.error || undefined}>
+                          {DIVERGENCE_LABELS[trade.divergence] || trade.divergence}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {trade.decisionPrice ? `$${trade.decisionPrice.toFixed(2)}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatFill(trade.paper)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatFill(trade.live)}
+                        {trade.fillPriceDifference !== null && (
+                          <p className="text-xs text-muted-foreground">
+                            {trade.fillPriceDifference >= 0 ? '+' : '-'}${Math.abs(trade.fillPriceDifference).toFixed(2)} vs paper
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right ${pnlClassName(trade.paper.pnl)}`}>{formatPnl(trade.paper.pnl)}</TableCell>
+                      <TableCell className={`text-right ${pnlClassName(trade.live.pnl)}`}>{formatPnl(trade.live.pnl)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
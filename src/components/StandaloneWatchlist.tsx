@@ -6,11 +6,12 @@ import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useAlpacaConnectionStore } from "@/hooks/useAlpacaConnection";
 import StockTickerAutocomplete from "@/components/StockTickerAutocomplete";
-import { Plus, X, TrendingUp, TrendingDown, Loader2, RefreshCw, Play, Eye, AlertCircle } from "lucide-react";
+import { Plus, X, TrendingUp, TrendingDown, Loader2, RefreshCw, Play, Eye, AlertCircle, CalendarClock, CalendarDays } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuth } from "@/lib/auth";
 import { alpacaAPI } from "@/lib/alpaca";
 import AnalysisDetailModal from "./AnalysisDetailModal";
+import AnalysisScheduleDialog, { type AnalysisSchedule } from "./AnalysisScheduleDialog";
 import {
   AlertDialog,
   AlertDialogContent,
@@ -26,6 +27,7 @@ import {
   convertLegacyAnalysisStatus,
   isAnalysisActive
 } from "@/lib/statusTypes";
+import { getSelectedBrokerAccountId } from "@/lib/brokerAccounts";
 
 interface WatchlistItem {
   id?: string;
@@ -40,6 +42,29 @@ interface WatchlistItem {
   priceChangePercent?: number;
 }
 
+// Next earnings report of a watchlist ticker (earnings-calendar function)
+interface UpcomingEarnings {
+  reportDate: string;
+  timing: 'bmo' | 'amc' | 'dmh' | null;
+  epsEstimate: number | null;
+  revenueEstimate: number | null;
+}
+
+const EARNINGS_TIMING_LABELS = {
+  bmo: 'before open',
+  amc: 'after close',
+  dmh: 'during market'
+};
+
+// Next scheduled run in New York time, e.g. "Mon 9:45 AM ET"
+const formatNextRun = (nextRunAt: string) =>
+  `${new Date(nextRunAt).toLocaleString('en-US', {
+    timeZone: 'America/New_York',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  })} ET`;
+
 interface StandaloneWatchlistProps {
   onSelectStock?: (ticker: string) => void;
   selectedStock?: string;
@@ -56,6 +81,9 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
   const [runningAnalyses, setRunningAnalyses] = useState<Set<string>>(new Set());
   const [showLimitAlert, setShowLimitAlert] = useState(false);
   const [showWatchlistLimitAlert, setShowWatchlistLimitAlert] = useState(false);
+  const [schedules, setSchedules] = useState<Record<string, AnalysisSchedule>>({});
+  const [scheduleTicker, setScheduleTicker] = useState<string | null>(null);
+  const [upcomingEarnings, setUpcomingEarnings] = useState<Record<string, UpcomingEarnings>>({});
 
   const maxParallelAnalysis = 5; // Default max parallel analysis
   const maxWatchlistStocks = 50; // Default max watchlist stocks
@@ -85,10 +113,9 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
         description: assetInfo?.name || ticker
       };
 
-      if (quoteData?.quote) {
-        const quote = quoteData.quote;
+      if (quoteData) {
         // Calculate current price from ask/bid prices
-        const currentPrice = quote.ap || quote.bp || 0; // Use ask price, fallback to bid
+        const currentPrice = quoteData.askPrice || quoteData.bidPrice || 0; // Use ask price, fallback to bid
         result.currentPrice = currentPrice;
 
         // Fetch previous day's close to calculate daily change
@@ -102,7 +129,7 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
           const bars = await alpacaAPI.getStockBars(ticker, '1Day', yesterdayStr, yesterdayStr, 1);
 
           if (bars && bars.length > 0) {
-            const previousClose = bars[0].c; // closing price
+            const previousClose = bars[0].close; // closing price
             const dayChange = currentPrice - previousClose;
             const dayChangePercent = previousClose > 0 ? (dayChange / previousClose) * 100 : 0;
 
@@ -173,13 +200,13 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
 
             // Add price data from quote
             if (data.quote) {
-              const currentPrice = data.quote.ap || data.quote.bp || 0;
+              const currentPrice = data.quote.askPrice || data.quote.bidPrice || 0;
               updates.currentPrice = currentPrice;
 
               // Calculate today's change from open (during market hours)
               // Use currentBar (today's bar) instead of previousBar
               if (data.currentBar) {
-                const todayOpen = data.currentBar.o; // Today's open price
+                const todayOpen = data.currentBar.open; // Today's open price
                 const dayChange = currentPrice - todayOpen;
                 const dayChangePercent = todayOpen > 0 ? (dayChange / todayOpen) * 100 : 0;
                 updates.priceChange = dayChange;
@@ -187,7 +214,7 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
                 console.log(`${item.ticker}: Open: ${todayOpen}, Current: ${currentPrice}, Change: ${dayChange} (${dayChangePercent.toFixed(2)}%)`);
               } else if (data.previousBar) {
                 // Fallback to previous close if no current bar (market closed)
-                const previousClose = data.previousBar.c;
+                const previousClose = data.previousBar.close;
                 const dayChange = currentPrice - previousClose;
                 const dayChangePercent = previousClose > 0 ? (dayChange / previousClose) * 100 : 0;
                 updates.priceChange = dayChange;
@@ -225,12 +252,56 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
     }
   };
 
+  const loadSchedules = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('analysis_schedules')
+        .select('*')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      setSchedules(Object.fromEntries((data || []).map((schedule: AnalysisSchedule) => [schedule.ticker, schedule])));
+    } catch (error) {
+      console.error('Error loading analysis schedules:', error);
+    }
+  };
+
+  const loadUpcomingEarnings = async (tickers: string[]) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('earnings-calendar', {
+        body: { tickers }
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to load earnings calendar');
+
+      setUpcomingEarnings(data.earnings || {});
+    } catch (error) {
+      console.error('Error loading earnings calendar:', error);
+    }
+  };
+
+  // Flag tickers reporting earnings within the user's earnings window
+  const watchlistTickers = watchlist.map(item => item.ticker).join(',');
+  useEffect(() => {
+    if (isAuthenticated && user && watchlistTickers) {
+      loadUpcomingEarnings(watchlistTickers.split(','));
+    } else {
+      setUpcomingEarnings({});
+    }
+  }, [isAuthenticated, user, watchlistTickers]);
+
   // Load watchlist from Supabase
   useEffect(() => {
     if (isAuthenticated && user) {
       loadWatchlist();
+      loadSchedules();
     } else {
       setWatchlist([]);
+      setSchedules({});
       setLoading(false);
     }
   }, [isAuthenticated, user]);
@@ -294,6 +365,9 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
         loadWatchlist();
       }
 
+      // Scheduled runs start on the server; pick up their next run and outcome
+      loadSchedules();
+
       // Update the ref with current running set
       previousRunningRef.current = running;
       setRunningAnalyses(running);
@@ -422,19 +496,19 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
 
         // Update price data from quote
         if (data.quote) {
-          const currentPrice = data.quote.ap || data.quote.bp || 0;
+          const currentPrice = data.quote.askPrice || data.quote.bidPrice || 0;
           updates.currentPrice = currentPrice;
 
           // Calculate today's change from open (during market hours)
           if (data.currentBar) {
-            const todayOpen = data.currentBar.o; // Today's open price
+            const todayOpen = data.currentBar.open; // Today's open price
             const dayChange = currentPrice - todayOpen;
             const dayChangePercent = todayOpen > 0 ? (dayChange / todayOpen) * 100 : 0;
             updates.priceChange = dayChange;
             updates.priceChangePercent = dayChangePercent;
           } else if (data.previousBar) {
             // Fallback to previous close if no current bar (market closed)
-            const previousClose = data.previousBar.c;
+            const previousClose = data.previousBar.close;
             const dayChange = currentPrice - previousClose;
             const dayChangePercent = previousClose > 0 ? (dayChange / previousClose) * 100 : 0;
             updates.priceChange = dayChange;
@@ -480,6 +554,7 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
           body: {
             ticker,
             userId: user?.id,
+            brokerAccountId: getSelectedBrokerAccountId(),
             // No phase/agent - indicates new analysis request
           }
         });
@@ -556,6 +631,42 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
     );
   };
 
+  const getScheduleSummary = (schedule: AnalysisSchedule) => {
+    const lastOutcomeColor = {
+      started: 'text-green-600',
+      skipped: 'text-yellow-600',
+      failed: 'text-red-600'
+    };
+
+    return (
+      <span className="flex items-center gap-1 text-muted-foreground" title={schedule.last_error || undefined}>
+        <CalendarClock className="h-3 w-3" />
+        {schedule.enabled && schedule.next_run_at ? `Next: ${formatNextRun(schedule.next_run_at)}` : 'Paused'}
+        {schedule.last_status && (
+          <span className={lastOutcomeColor[schedule.last_status]}>
+            · Last run {schedule.last_status}
+          </span>
+        )}
+      </span>
+    );
+  };
+
+  const getEarningsBadge = (earnings: UpcomingEarnings) => {
+    const reportDate = new Date(`${earnings.reportDate}T12:00:00Z`).toLocaleDateString('en-US', {
+      timeZone: 'UTC',
+      month: 'short',
+      day: 'numeric'
+    });
+    const consensus = earnings.epsEstimate !== null ? `Consensus EPS $${earnings.epsEstimate.toFixed(2)}` : undefined;
+
+    return (
+      <Badge variant="outline" className="gap-1 border-amber-500/50 text-amber-600" title={consensus}>
+        <CalendarDays className="h-3 w-3" />
+        Earnings {reportDate}{earnings.timing ? ` ${EARNINGS_TIMING_LABELS[earnings.timing]}` : ''}
+      </Badge>
+    );
+  };
+
   if (loading) {
     return (
       <Card>
@@ -664,15 +775,17 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
                         Last: {item.lastAnalysis || new Date().toISOString().split('T')[0]}
                       </span>
                       {getDecisionBadge(item.lastDecision)}
+                      {upcomingEarnings[item.ticker] && getEarningsBadge(upcomingEarnings[item.ticker])}
+                      {schedules[item.ticker] && getScheduleSummary(schedules[item.ticker])}
                     </div>
                   </div>
 
                   {/* Mobile: Show analyze button below at full width */}
-                  <div className="sm:hidden border-t border-border/50 px-4 py-2 bg-muted/30">
+                  <div className="sm:hidden flex gap-2 border-t border-border/50 px-4 py-2 bg-muted/30">
                     <Button
                       size="sm"
                       variant="outline"
-                      className="w-full border border-slate-700"
+                      className="flex-1 border border-slate-700"
                       disabled={!isAlpacaConnected && !runningAnalyses.has(item.ticker)}
                       onClick={(e) => {
                         e.stopPropagation();
@@ -696,6 +809,18 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
                         </>
                       )}
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border border-slate-700"
+                      title="Schedule analysis"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setScheduleTicker(item.ticker);
+                      }}
+                    >
+                      <CalendarClock className={`h-4 w-4 ${schedules[item.ticker]?.enabled ? 'text-primary' : ''}`} />
+                    </Button>
                   </div>
 
                   {/* Desktop: Show buttons on the right */}
@@ -727,6 +852,18 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
                         </>
                       )}
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border border-slate-700"
+                      title="Schedule analysis"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setScheduleTicker(item.ticker);
+                      }}
+                    >
+                      <CalendarClock className={`h-4 w-4 ${schedules[item.ticker]?.enabled ? 'text-primary' : ''}`} />
+                    </Button>
                     <Button
                       size="sm"
                       variant="outline"
@@ -759,6 +896,17 @@ export default function StandaloneWatchlist({ onSelectStock, selectedStock }: St
         />
       )}
 
+      {/* Schedule Dialog */}
+      {scheduleTicker && (
+        <AnalysisScheduleDialog
+          ticker={scheduleTicker}
+          schedule={schedules[scheduleTicker]}
+          isOpen={!!scheduleTicker}
+          onClose={() => setScheduleTicker(null)}
+          onSaved={loadSchedules}
+        />
+      )}
+
       {/* Limit Reached Alert Dialog */}
       <AlertDialog open={showLimitAlert} onOpenChange={setShowLimitAlert}>
         <AlertDialogContent>
@@ -9,6 +9,8 @@ import { useAuth } from "@/lib/auth";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
 import AnalysisDetailModal from "@/components/AnalysisDetailModal";
+import { formatOptionContract, optionContractFromRow, type OptionContract } from "@/lib/orderExecution";
+import { formatMarketTime } from "@/lib/tradingCalendar";
 
 interface TradeDecision {
   id: string;
@@ -29,6 +31,7 @@ interface TradeDecision {
   alpacaOrderStatus?: string;
   alpacaFilledQty?: number;
   alpacaFilledPrice?: number;
+  optionContract?: OptionContract | null;
   createdAt: string;
 }
 
@@ -78,6 +81,7 @@ export default function TradeHistoryTable() {
           alpacaOrderStatus: item.metadata?.alpaca_order?.status,
           alpacaFilledQty: item.metadata?.alpaca_order?.filled_qty ? Number(item.metadata.alpaca_order.filled_qty) : undefined,
           alpacaFilledPrice: item.metadata?.alpaca_order?.filled_avg_price ? Number(item.metadata.alpaca_order.filled_avg_price) : undefined,
+          optionContract: optionContractFromRow(item),
           createdAt: item.created_at
         }));
 
@@ -116,7 +120,7 @@ export default function TradeHistoryTable() {
       const ordersWithAlpacaIds = approvedOrders.filter(o => o.metadata?.alpaca_order?.id);
       if (ordersWithAlpacaIds.length === 0) return;
 
-      // Fetch current orders from Alpaca
+      // Fetch current orders from the broker
       const alpacaOrders = await alpacaAPI.getOrders('all');
 
       // Update status for each order
@@ -131,8 +135,8 @@ export default function TradeHistoryTable() {
             alpaca_order: {
               ...order.metadata.alpaca_order,
               status: alpacaOrder.status,
-              filled_qty: alpacaOrder.filled_qty ? parseFloat(alpacaOrder.filled_qty) : null,
-              filled_avg_price: alpacaOrder.filled_avg_price ? parseFloat(alpacaOrder.filled_avg_price) : null,
+              filled_qty: alpacaOrder.filledQuantity || null,
+              filled_avg_price: alpacaOrder.filledAvgPrice,
               updated_at: new Date().toISOString()
             }
           };
@@ -144,7 +148,7 @@ export default function TradeHistoryTable() {
           // If order is filled, update execution details
           if (alpacaOrder.status === 'filled') {
             updates.status = 'executed';
-            updates.executed_at = alpacaOrder.filled_at || new Date().toISOString();
+            updates.executed_at = alpacaOrder.filledAt || new Date().toISOString();
           } else if (['canceled', 'cancelled', 'rejected', 'expired'].includes(alpacaOrder.status)) {
             // Only update to rejected if it's not already rejected
             // This handles cases where an order was approved or executed but then canceled
@@ -235,8 +239,10 @@ export default function TradeHistoryTable() {
 
       if (data.success) {
         toast({
-          title: "Order Executed",
-          description: `${decision.action} order for ${decision.symbol} has been submitted to Alpaca. Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`,
+          title: data.queuedUntil ? "Order Queued" : "Order Executed",
+          description: data.queuedUntil
+            ? `The market is closed; ${decision.action} order for ${decision.symbol} will execute at the open (${formatMarketTime(new Date(data.queuedUntil))}). Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`
+            : `${decision.action} order for ${decision.symbol} has been submitted to Alpaca. Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`,
         });
 
         // Refresh trades
@@ -334,6 +340,10 @@ export default function TradeHistoryTable() {
       return 'bg-gray-500/5 border-gray-500/20';
     };
 
+    // Option quantities are contracts of 100 shares each
+    const unitLabel = decision.optionContract ? 'contracts' : 'shares';
+    const filledValueMultiplier = decision.optionContract ? 100 : 1;
+
     return (
       <div
         key={decision.id}
@@ -358,19 +368,24 @@ export default function TradeHistoryTable() {
                 >
                   {decision.action}
                 </Badge>
+                {decision.optionContract && (
+                  <Badge variant="outline" className="text-xs">
+                    {formatOptionContract(decision.optionContract)}
+                  </Badge>
+                )}
                 <span className="text-xs text-muted-foreground">
                   {decision.alpacaFilledQty && decision.alpacaFilledPrice
-                    ? `${Number(decision.alpacaFilledQty).toFixed(2)} shares @ $${decision.alpacaFilledPrice.toFixed(2)}`
+                    ? `${Number(decision.alpacaFilledQty).toFixed(2)} ${unitLabel} @ $${decision.alpacaFilledPrice.toFixed(2)}`
                     : decision.dollarAmount && decision.dollarAmount > 0
                       ? `$${Number(decision.dollarAmount).toLocaleString()} order`
                       : decision.quantity > 0
-                        ? `${Number(decision.quantity).toFixed(2)} shares ${decision.price > 0 ? `@ $${decision.price.toFixed(2)}` : '(market price)'}`
+                        ? `${Number(decision.quantity).toFixed(2)} ${unitLabel} ${decision.price > 0 ? `@ $${decision.price.toFixed(2)}` : '(market price)'}`
                         : 'Order details pending'
                   }
                 </span>
                 {decision.alpacaFilledQty > 0 && decision.alpacaFilledPrice && (
                   <span className="text-xs font-medium">
-                    ${(decision.alpacaFilledQty * decision.alpacaFilledPrice).toLocaleString()}
+                    ${(decision.alpacaFilledQty * decision.alpacaFilledPrice * filledValueMultiplier).toLocaleString()}
                   </span>
                 )}
                 {!decision.alpacaFilledQty && !decision.alpacaFilledPrice && decision.dollarAmount && decision.dollarAmount > 0 && (
@@ -482,8 +497,13 @@ export default function TradeHistoryTable() {
               </>
             )}
 
+            {/* Rebalance orders are approved or rejected as a batch from the Rebalance dialog */}
+            {isPending && decision.sourceType === 'rebalance' && (
+              <span className="text-xs text-muted-foreground">Decide in Rebalance</span>
+            )}
+
             {/* Only show action buttons for pending decisions */}
-            {isPending && (
+            {isPending && decision.sourceType !== 'rebalance' && (
               <>
                 <Button
                   size="sm"
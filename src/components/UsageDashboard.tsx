@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/lib/auth";
+import { supabase } from "@/lib/supabase";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildDailySpend,
+  buildMonthlySpend,
+  DailyUsageRow,
+  formatUsd,
+  getNYDateString,
+  getNYMonthStartIso,
+  groupUsageEvents,
+  UsageEventRow
+} from "@/lib/aiUsage";
+
+const DAILY_DAYS = 30;
+const MONTHLY_MONTHS = 12;
+
+export default function UsageDashboard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [savingBudget, setSavingBudget] = useState(false);
+  const [dailyRows, setDailyRows] = useState<DailyUsageRow[]>([]);
+  const [events, setEvents] = useState<UsageEventRow[]>([]);
+  const [budget, setBudget] = useState<number | null>(null);
+  const [budgetInput, setBudgetInput] = useState('');
+
+  const today = getNYDateString();
+  const monthStart = getNYMonthStartIso(today);
+
+  const loadUsage = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+
+    const yearAgo = new Date();
+    yearAgo.setMonth(yearAgo.getMonth() - MONTHLY_MONTHS);
+
+    const [usageResult, eventsResult, settingsResult] = await Promise.all([
+      supabase
+        .from('user_usage')
+        .select('usage_date, ai_request_count, ai_prompt_tokens, ai_completion_tokens, ai_cost')
+        .eq('user_id', user.id)
+        .gte('usage_date', getNYDateString(yearAgo))
+        .order('usage_date'),
+      supabase
+        .from('ai_usage_events')
+        .select('agent, provider, model, prompt_tokens, completion_tokens, estimated_cost, priced')
+        .eq('user_id', user.id)
+        .gte('created_at', monthStart)
+        .limit(10000),
+      supabase
+        .from('api_settings')
+        .select('monthly_ai_budget')
+        .eq('user_id', user.id)
+        .maybeSingle()
+    ]);
+
+    if (usageResult.error || eventsResult.error) {
+      console.error('Error loading AI usage:', usageResult.error || eventsResult.error);
+      toast({
+        title: "Failed to Load Usage",
+        description: (usageResult.error || eventsResult.error)?.message,
+        variant: "destructive",
+      });
+    }
+
+    const savedBudget = settingsResult.data?.monthly_ai_budget ?? null;
+    setDailyRows(usageResult.data || []);
+    setEvents(eventsResult.data || []);
+    setBudget(savedBudget === null ? null : Number(savedBudget));
+    setBudgetInput(savedBudget === null ? '' : String(savedBudget));
+    setLoading(false);
+  }, [user, monthStart, toast]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const saveBudget = async (value: number | null) => {
+    if (!user) return;
+    if (value !== null && !(value >= 0)) {
+      toast({ title: "Invalid Budget", description: "Enter a dollar amount of 0 or more", variant: "destructive" });
+      return;
+    }
+
+    setSavingBudget(true);
+    const { error } = await supabase
+      .from('api_settings')
+      .update({ monthly_ai_budget: value, updated_at: new Date().toISOString() })
+      .eq('user_id', user.id);
+    setSavingBudget(false);
+
+    if (error) {
+      toast({ title: "Failed to Save Budget", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    setBudget(value);
+    setBudgetInput(value === null ? '' : String(value));
+    toast({
+      title: "Budget Saved",
+      description: value === null ? "Monthly AI budget removed" : `New analyses stop once ${formatUsd(value)} is spent this month`,
+    });
+  };
+
+  const dailySpend = buildDailySpend(dailyRows, DAILY_DAYS, today);
+  const monthlySpend = buildMonthlySpend(dailyRows, MONTHLY_MONTHS, today);
+  const monthSpent = monthlySpend[monthlySpend.length - 1]?.cost || 0;
+  const monthTokens = monthlySpend[monthlySpend.length - 1]?.tokens || 0;
+  const byAgent = groupUsageEvents(events, 'agent');
+  const byModel = groupUsageEvents(events, 'model');
+  const unpricedCalls = events.filter(event => !event.priced).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Spent this month</CardDescription>
+            <CardTitle className="text-2xl">{formatUsd(monthSpent)}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-xs text-muted-foreground">
+            {monthTokens.toLocaleString()} tokens across {events.length} AI calls
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader className="pb-2">
+            <CardDescription>Monthly budget</CardDescription>
+            <CardTitle className="text-2xl">{budget === null ? 'No limit' : formatUsd(budget)}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {budget !== null && (
+              <Progress value={budget > 0 ? Math.min((monthSpent / budget) * 100, 100) : 100} />
+            )}
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="monthly-ai-budget" className="text-xs">Budget (USD)</Label>
+                <Input
+                  id="monthly-ai-budget"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  placeholder="No limit"
+                  className="h-8 w-32"
+                />
+              </div>
+              <Button size="sm" onClick={() => saveBudget(budgetInput === '' ? null : parseFloat(budgetInput))} disabled={savingBudget}>
+                {savingBudget && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Save
+              </Button>
+              {budget !== null && (
+                <Button size="sm" variant="outline" onClick={() => saveBudget(null)} disabled={savingBudget}>
+                  Remove Limit
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              New analyses are refused once the estimated spend for the current New York month reaches the budget.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend</CardTitle>
+          <CardDescription>
+            Estimated from provider token counts and the published price of each model
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="daily">
+            <TabsList>
+              <TabsTrigger value="daily">Last {DAILY_DAYS} days</TabsTrigger>
+              <TabsTrigger value="monthly">Last {MONTHLY_MONTHS} months</TabsTrigger>
+            </TabsList>
+            {[
+              { value: 'daily', data: dailySpend },
+              { value: 'monthly', data: monthlySpend }
+            ].map(({ value, data }) => (
+              <TabsContent key={value} value={value}>
+                <ResponsiveContainer width="100%" height={280}>
+                  <BarChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} tickFormatter={(cost: number) => `$${cost.toFixed(2)}`} />
+                    <Tooltip formatter={(cost: number) => formatUsd(cost)} />
+                    <Bar dataKey="cost" name="Cost" fill="#10b981" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>This Month by Agent and Model</CardTitle>
+          {unpricedCalls > 0 && (
+            <CardDescription>
+              {unpricedCalls} call(s) used models without a known price and are counted at $0
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="agent">
+            <TabsList>
+              <TabsTrigger value="agent">Agents</TabsTrigger>
+              <TabsTrigger value="model">Models</TabsTrigger>
+            </TabsList>
+            {[
+              { value: 'agent', rows: byAgent },
+              { value: 'model', rows: byModel }
+            ].map(({ value, rows }) => (
+              <TabsContent key={value} value={value}>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{value === 'agent' ? 'Agent' : 'Model'}</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-muted-foreground">
+                          No AI usage recorded this month
+                        </TableCell>
+                      </TableRow>
+                    ) : rows.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell className="font-medium">{row.key}</TableCell>
+                        <TableCell className="text-right">{row.requests}</TableCell>
+                        <TableCell className="text-right">{row.tokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{formatUsd(row.cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+            ))}
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
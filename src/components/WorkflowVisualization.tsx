@@ -16,6 +16,12 @@ import {
   Clock,
   AlertCircle
 } from "lucide-react";
+import {
+  getAgentDisplayName,
+  getOrderedPhaseIds,
+  getPhaseAgentRefs,
+  resolveWorkflowDefinition
+} from "@/lib/workflowDefinition";
 
 interface Agent {
   name: string;
@@ -105,49 +111,20 @@ const extractWorkflowSteps = (fullAnalysis: any): WorkflowStep[] => {
     return fullAnalysis.workflowSteps;
   }
 
-  // Otherwise, build from agent data
-  const steps: WorkflowStep[] = [
-    {
-      id: 'analysis',
-      name: 'Analysis Phase',
+  // Otherwise, build from the workflow definition the analysis was started with
+  const definition = resolveWorkflowDefinition(fullAnalysis.workflowDefinition);
+  const steps: WorkflowStep[] = getOrderedPhaseIds(definition).map((phaseId) => {
+    const phase = definition.phases[phaseId];
+    return {
+      id: phaseId,
+      name: phase.name || phaseId,
       status: 'pending',
-      agents: [
-        { name: 'Market Analyst', status: 'pending' },
-        { name: 'Social Media Analyst', status: 'pending' },
-        { name: 'News Analyst', status: 'pending' },
-        { name: 'Fundamentals Analyst', status: 'pending' }
-      ]
-    },
-    {
-      id: 'research-debate',
-      name: 'Research Debate',
-      status: 'pending',
-      agents: [
-        { name: 'Bull Researcher', status: 'pending' },
-        { name: 'Bear Researcher', status: 'pending' },
-        { name: 'Research Manager', status: 'pending' }
-      ]
-    },
-    {
-      id: 'trading-decision',
-      name: 'Trading Decision',
-      status: 'pending',
-      agents: [
-        { name: 'Trader', status: 'pending' }
-      ]
-    },
-    {
-      id: 'risk-assessment',
-      name: 'Risk Assessment',
-      status: 'pending',
-      agents: [
-        { name: 'Risky Analyst', status: 'pending' },
-        { name: 'Safe Analyst', status: 'pending' },
-        { name: 'Neutral Analyst', status: 'pending' },
-        { name: 'Risk Judge', status: 'pending' }
-      ]
-    }
-  ];
+      agents: getPhaseAgentRefs(phaseId, phase).map((agentRef) => ({
+        name: getAgentDisplayName(agentRef),
+        status: 'pending'
+      }))
+    };
+  });
 
   // Update status based on messages
   if (fullAnalysis.messages && Array.isArray(fullAnalysis.messages)) {
@@ -10,10 +10,11 @@ import {
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import TradeOrderCard from "./TradeOrderCard";
+import type { OrderExecution } from "@/lib/orderExecution";
 
 interface AnalysisActionsTabProps {
   analysisData: any;
-  handleApproveOrder: () => void;
+  handleApproveOrder: (execution?: OrderExecution) => void;
   handleRejectOrder: () => void;
   isOrderExecuted: boolean;
   isExecuting?: boolean;
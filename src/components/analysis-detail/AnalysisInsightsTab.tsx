@@ -125,11 +125,13 @@ export default function AnalysisInsightsTab({
     }
   });
 
-  const sortedEntries = entries.sort(([agentA], [agentB]) => {
-    const orderA = orderMap[agentA] || 999;
-    const orderB = orderMap[agentB] || 999;
-    return orderA - orderB;
-  });
+  // Repeated agents ("trader2") follow their first instance
+  const getOrder = (agent: string) => {
+    const [, baseKey, instance] = agent.match(/^(.*?)(\d*)$/) || [];
+    return (orderMap[agent] || orderMap[baseKey] || 999) + (Number(instance) || 0) / 100;
+  };
+
+  const sortedEntries = entries.sort(([agentA], [agentB]) => getOrder(agentA) - getOrder(agentB));
 
   console.log('Sorted insight entries (including missing):', sortedEntries.map(([agent]) => agent));
 
@@ -454,8 +456,8 @@ export default function AnalysisInsightsTab({
         }
 
         // Check if this agent has sources (News, Social Media, Fundamentals, Macro analysts)
-        const hasPerplefinaSources = ['newsAnalyst', 'socialMediaAnalyst', 'fundamentalsAnalyst', 'macroAnalyst'].includes(agent);
-        const sources = hasPerplefinaSources && insight?.sources ? insight.sources : null;
+        const hasResearchSources = ['newsAnalyst', 'socialMediaAnalyst', 'fundamentalsAnalyst', 'macroAnalyst'].includes(agent);
+        const sources = hasResearchSources && insight?.sources ? insight.sources : null;
 
         // Default rendering for all other agents
         const isCollapsed = collapsedCards.has(agent);
@@ -9,6 +9,43 @@ import {
 } from "@/components/ui/collapsible";
 import MarkdownRenderer from "../MarkdownRenderer";
 
+const formatAmount = (value: number | null | undefined) => {
+  if (value === null || value === undefined) return '—';
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  return value.toLocaleString();
+};
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+const formatNumber = (value: number | null | undefined, decimals: number = 2) =>
+  value === null || value === undefined ? '—' : value.toFixed(decimals);
+
+// Stored as FundamentalsQuarter by supabase/functions/_shared/secFundamentals.ts (the figures shown here)
+interface FundamentalsQuarter {
+  periodEnd: string;
+  revenue: number | null;
+  grossMargin: number | null;
+  operatingMargin: number | null;
+  netMargin: number | null;
+  epsDiluted: number | null;
+  freeCashFlow: number | null;
+  totalDebt: number | null;
+  dilutedShares: number | null;
+}
+
+// Quarterly trend rows (keys of the SEC fundamentals quarters stored by the agent)
+const QUARTER_ROWS: { key: Exclude<keyof FundamentalsQuarter, 'periodEnd'>; label: string; format: (value: number | null) => string }[] = [
+  { key: 'revenue', label: 'Revenue', format: formatAmount },
+  { key: 'grossMargin', label: 'Gross Margin', format: formatPercent },
+  { key: 'operatingMargin', label: 'Operating Margin', format: formatPercent },
+  { key: 'netMargin', label: 'Net Margin', format: formatPercent },
+  { key: 'epsDiluted', label: 'Diluted EPS', format: value => formatNumber(value) },
+  { key: 'freeCashFlow', label: 'Free Cash Flow', format: formatAmount },
+  { key: 'totalDebt', label: 'Total Debt', format: formatAmount },
+  { key: 'dilutedShares', label: 'Diluted Shares', format: formatAmount }
+];
+
 interface FundamentalsAnalystInsightProps {
   insightContent: string;
   additionalData: any;
@@ -24,6 +61,9 @@ export default function FundamentalsAnalystInsight({
   isCollapsed = false,
   onToggleCollapse
 }: FundamentalsAnalystInsightProps) {
+  const quarters: FundamentalsQuarter[] = additionalData?.quarters || [];
+  const ratios = additionalData?.ratios;
+
   return (
     <Collapsible open={!isCollapsed}>
       <Card id={id} className="overflow-hidden">
@@ -52,45 +92,54 @@ export default function FundamentalsAnalystInsight({
         </CollapsibleTrigger>
         <CollapsibleContent>
           <CardContent className="pt-4 space-y-4">
-        {/* Display fundamental data if available */}
-        {additionalData && (
-          <div className="grid grid-cols-2 gap-3 p-3 bg-muted/50 rounded-lg text-sm">
-            {additionalData.PERatio && (
-              <div>
-                <span className="text-muted-foreground">P/E Ratio:</span>
-                <span className="ml-2 font-medium">{parseFloat(additionalData.PERatio).toFixed(2)}</span>
-              </div>
-            )}
-            {additionalData.EPS && (
-              <div>
-                <span className="text-muted-foreground">EPS:</span>
-                <span className="ml-2 font-medium">${additionalData.EPS}</span>
+        {/* Reported quarters and ratios from SEC filings */}
+        {ratios && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-3 bg-muted/50 rounded-lg text-sm">
+            {[
+              ['P/E (TTM)', formatNumber(ratios.peRatio, 1)],
+              ['EV/EBITDA', formatNumber(ratios.evToEbitda, 1)],
+              ['ROIC', formatPercent(ratios.roic)],
+              ['Piotroski F-Score', ratios.piotroski ? `${ratios.piotroski.score}/9` : '—'],
+              ['Market Cap', formatAmount(ratios.marketCap)],
+              ['FCF Yield', formatPercent(ratios.fcfYield)],
+              ['Debt/Equity', formatNumber(ratios.debtToEquity)],
+              ['Revenue Growth (TTM)', formatPercent(ratios.revenueGrowthYoY)]
+            ].map(([label, value]) => (
+              <div key={label}>
+                <span className="text-muted-foreground">{label}:</span>
+                <span className="ml-2 font-medium">{value}</span>
               </div>
-            )}
-            {additionalData.DividendYield && additionalData.DividendYield !== 'None' && (
-              <div>
-                <span className="text-muted-foreground">Dividend Yield:</span>
-                <span className="ml-2 font-medium">{(parseFloat(additionalData.DividendYield) * 100).toFixed(2)}%</span>
-              </div>
-            )}
-            {additionalData.ProfitMargin && (
-              <div>
-                <span className="text-muted-foreground">Profit Margin:</span>
-                <span className="ml-2 font-medium">{(parseFloat(additionalData.ProfitMargin) * 100).toFixed(2)}%</span>
-              </div>
-            )}
-            {additionalData.Beta && (
-              <div>
-                <span className="text-muted-foreground">Beta:</span>
-                <span className="ml-2 font-medium">{parseFloat(additionalData.Beta).toFixed(2)}</span>
-              </div>
-            )}
-            {additionalData['52WeekHigh'] && (
-              <div>
-                <span className="text-muted-foreground">52W High:</span>
-                <span className="ml-2 font-medium">${additionalData['52WeekHigh']}</span>
-              </div>
-            )}
+            ))}
+          </div>
+        )}
+        {quarters.length > 0 && (
+          <div className="space-y-2">
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground">
+                    <th className="py-1 pr-4 text-left font-medium">Quarter End</th>
+                    {quarters.map(quarter => (
+                      <th key={quarter.periodEnd} className="py-1 px-2 text-right font-medium">{quarter.periodEnd}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {QUARTER_ROWS.map(row => (
+                    <tr key={row.key} className="border-t">
+                      <td className="py-1 pr-4 font-medium">{row.label}</td>
+                      {quarters.map(quarter => (
+                        <td key={quarter.periodEnd} className="py-1 px-2 text-right">{row.format(quarter[row.key])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {additionalData.companyName} 10-K/10-Q filings (CIK {additionalData.cik})
+              {ratios?.price != null && `; valuation at $${ratios.price.toFixed(2)}`}
+            </p>
           </div>
         )}
         <MarkdownRenderer content={insightContent} />
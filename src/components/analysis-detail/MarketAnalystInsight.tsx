@@ -2,6 +2,8 @@ import React from "react";
 import { 
   Activity,
   BarChart3,
+  CalendarDays,
+  Clock,
   FileText,
   ChevronDown,
   ChevronUp
@@ -16,6 +18,33 @@ import {
 } from "@/components/ui/collapsible";
 import MarkdownRenderer from "../MarkdownRenderer";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { FIBONACCI_RATIOS, getChartedIndicators } from "@/lib/indicatorRegistry";
+
+const CORPORATE_ACTION_LABELS: Record<string, string> = {
+  forward_split: 'Split',
+  reverse_split: 'Reverse split',
+  cash_dividend: 'Ex-dividend',
+  stock_dividend: 'Stock dividend',
+  earnings: 'Earnings'
+};
+
+// Stored as CorporateAction by supabase/functions/_shared/corporateActions.ts
+interface CorporateAction {
+  type: string;
+  exDate: string;
+  cashAmount: number | null;
+  ratio: number | null;
+}
+
+// Stored as TimeframeSignal by supabase/functions/_shared/timeframeConfluence.ts
+interface TimeframeSignal {
+  label: string;
+  trend: string;
+  rsi: number | null;
+  momentum: string;
+  macd: string | null;
+  adx: number | null;
+}
 
 interface MarketAnalystInsightProps {
   insight: any;
@@ -37,8 +66,14 @@ export default function MarketAnalystInsight({
   // Get historical data and indicators from the insight
   const marketHistorical = insight?.market_historical || [];
   const technicalIndicators = insight?.technical_indicators || {};
+  const corporateActions: CorporateAction[] = insight?.corporate_actions || [];
+  const timeframeConfluence = insight?.timeframe_confluence;
   const analysisRange = insight?.data?.analysisRange || additionalData?.analysisRange;
   const dataPoints = insight?.data?.dataPoints || additionalData?.dataPoints;
+  const chartedIndicators = getChartedIndicators(technicalIndicators);
+  const overlaySeries = chartedIndicators.flatMap(indicator => indicator.overlay || []);
+  const panelIndicators = chartedIndicators.filter(indicator => indicator.panel);
+  const fibonacciLevels: number[] = technicalIndicators.fibonacci_levels || [];
   
   // Format data for candlestick chart
   const chartData = marketHistorical.map((price: any, index: number) => ({
@@ -59,7 +94,13 @@ export default function MarketAnalystInsight({
     macd: technicalIndicators.macd?.[index],
     macd_signal: technicalIndicators.macd_signal?.[index],
     bollinger_upper: technicalIndicators.bollinger_upper?.[index],
-    bollinger_lower: technicalIndicators.bollinger_lower?.[index]
+    bollinger_lower: technicalIndicators.bollinger_lower?.[index],
+    // Registry indicators charted as overlays or panels
+    ...Object.fromEntries(
+      chartedIndicators
+        .flatMap(indicator => [...(indicator.overlay || []), ...(indicator.panel?.series || [])])
+        .map(series => [series.key, technicalIndicators[series.key]?.[index]])
+    )
   })).filter((d: any) => d.close); // Filter out any invalid data points
   
   return (
@@ -135,6 +176,9 @@ export default function MarketAnalystInsight({
             <h4 className="font-semibold text-sm flex items-center gap-2">
               <BarChart3 className="w-4 h-4" />
               Historical Price & Moving Averages
+              {insight?.market_historical_raw && (
+                <span className="text-xs font-normal text-muted-foreground">(split- and dividend-adjusted)</span>
+              )}
             </h4>
             <div className="h-64 w-full">
               <ResponsiveContainer width="100%" height="100%">
@@ -240,6 +284,31 @@ export default function MarketAnalystInsight({
                       />
                     </>
                   )}
+                  {/* Registry overlays (VWAP, Keltner, Ichimoku, Parabolic SAR) */}
+                  {overlaySeries.map(series => (
+                    <Line
+                      key={series.key}
+                      type="monotone"
+                      dataKey={series.key}
+                      stroke={series.dotsOnly ? 'none' : series.color}
+                      strokeWidth={1}
+                      dot={series.dotsOnly ? { r: 1, fill: series.color, stroke: series.color } : false}
+                      name={series.label}
+                      strokeDasharray={series.dashed ? '4 4' : undefined}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                  {/* Fibonacci retracement levels */}
+                  {fibonacciLevels.length === FIBONACCI_RATIOS.length && fibonacciLevels.map((level, i) => (
+                    <ReferenceLine
+                      key={`fib-${FIBONACCI_RATIOS[i]}`}
+                      y={level}
+                      stroke="#eab308"
+                      strokeDasharray="2 4"
+                      opacity={0.6}
+                      label={{ value: `${(FIBONACCI_RATIOS[i] * 100).toFixed(1)}%`, position: 'right', fontSize: 8, fill: '#eab308' }}
+                    />
+                  ))}
                 </LineChart>
               </ResponsiveContainer>
             </div>
@@ -373,6 +442,59 @@ export default function MarketAnalystInsight({
               </div>
             )}
             
+            {/* Registry oscillator panels (ADX/DMI, Stochastic, CCI, Williams %R, MFI) */}
+            {panelIndicators.map(indicator => {
+              const panel = indicator.panel!;
+              return (
+                <div key={indicator.id} className="space-y-2">
+                  <h5 className="text-xs font-medium text-muted-foreground">{indicator.name}</h5>
+                  <div className="h-32 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                        <XAxis 
+                          dataKey="dateShort" 
+                          fontSize={8}
+                          interval={Math.floor(chartData.length / 6)}
+                        />
+                        <YAxis domain={panel.domain || ['auto', 'auto']} fontSize={8} />
+                        <Tooltip 
+                          contentStyle={{
+                            backgroundColor: '#1f2937',
+                            border: '1px solid #374151',
+                            borderRadius: '8px',
+                            color: '#f9fafb',
+                            fontSize: '12px',
+                            boxShadow: '0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05)'
+                          }}
+                          labelStyle={{ color: '#d1d5db', fontWeight: 'bold' }}
+                          formatter={(value: number | string, name: string) => [
+                            typeof value === 'number' ? value.toFixed(panel.decimals) : value,
+                            name
+                          ]}
+                          labelFormatter={(label: string) => `Date: ${label}`}
+                        />
+                        {(panel.referenceLines || []).map(y => (
+                          <ReferenceLine key={y} y={y} stroke="#6b7280" strokeDasharray="3 3" opacity={0.5} />
+                        ))}
+                        {panel.series.map(series => (
+                          <Line 
+                            key={series.key}
+                            type="monotone" 
+                            dataKey={series.key} 
+                            stroke={series.color} 
+                            strokeWidth={1} 
+                            dot={false}
+                            name={series.label}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              );
+            })}
+            
             {/* Indicators Summary */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-2 p-3 bg-muted/30 rounded-lg text-xs">
               {technicalIndicators.sma_20 && (
@@ -422,6 +544,75 @@ export default function MarketAnalystInsight({
           </div>
         )}
         
+        {/* Corporate Actions */}
+        {corporateActions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm flex items-center gap-2">
+              <CalendarDays className="w-4 h-4" />
+              Corporate Actions
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {corporateActions.map((action, index) => (
+                <Badge key={`${action.type}-${action.exDate}-${index}`} variant="outline" className="text-xs">
+                  {action.exDate}: {CORPORATE_ACTION_LABELS[action.type] || action.type}
+                  {action.cashAmount ? ` $${action.cashAmount}` : ''}
+                  {action.ratio && action.type !== 'cash_dividend' ? ` ${Number(action.ratio.toFixed(4))}:1` : ''}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Multi-Timeframe Confluence (intraday mode) */}
+        {timeframeConfluence?.signals?.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-semibold text-sm flex items-center gap-2">
+              <Clock className="w-4 h-4" />
+              Timeframe Confluence
+            </h4>
+            <p className="text-xs text-muted-foreground">{timeframeConfluence.alignment}</p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="py-1 pr-4 font-medium">Timeframe</th>
+                    <th className="py-1 pr-4 font-medium">Trend</th>
+                    <th className="py-1 pr-4 font-medium">RSI</th>
+                    <th className="py-1 pr-4 font-medium">MACD</th>
+                    <th className="py-1 pr-4 font-medium">ADX</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timeframeConfluence.signals.map((signal: TimeframeSignal) => (
+                    <tr key={signal.label} className="border-t">
+                      <td className="py-1 pr-4 font-medium">{signal.label}</td>
+                      <td className={`py-1 pr-4 ${signal.trend === 'up' ? 'text-green-600' : signal.trend === 'down' ? 'text-red-600' : ''}`}>
+                        {signal.trend}
+                      </td>
+                      <td className="py-1 pr-4">
+                        {signal.rsi !== null ? signal.rsi.toFixed(1) : 'n/a'}
+                        {signal.momentum !== 'neutral' && (
+                          <Badge variant="outline" className="ml-2 text-xs">{signal.momentum}</Badge>
+                        )}
+                      </td>
+                      <td className="py-1 pr-4">{signal.macd || 'n/a'}</td>
+                      <td className="py-1 pr-4">{signal.adx !== null ? signal.adx.toFixed(1) : 'n/a'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {timeframeConfluence.session && (
+              <p className="text-xs text-muted-foreground">
+                Session {timeframeConfluence.session.date}: O {timeframeConfluence.session.open.toFixed(2)} ·
+                H {timeframeConfluence.session.high.toFixed(2)} · L {timeframeConfluence.session.low.toFixed(2)} ·
+                Last {timeframeConfluence.session.last.toFixed(2)}
+                {timeframeConfluence.session.vwap !== null && ` · VWAP ${timeframeConfluence.session.vwap.toFixed(2)}`}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Analysis Text */}
         {insightContent && (
           <div className="space-y-2">
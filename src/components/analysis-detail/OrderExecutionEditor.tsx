@@ -0,0 +1,159 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  type OrderExecution,
+  type OrderType,
+  type TimeInForce,
+  ORDER_TYPE_LABELS,
+  TIME_IN_FORCE_LABELS
+} from "@/lib/orderExecution";
+
+interface OrderExecutionEditorProps {
+  action: string;
+  execution: OrderExecution;
+  onChange: (execution: OrderExecution) => void;
+  error?: string | null;
+  disabled?: boolean;
+}
+
+interface PriceFieldProps {
+  id: string;
+  label: string;
+  value?: number | null;
+  onChange: (value: number | null) => void;
+  disabled?: boolean;
+}
+
+function PriceField({ id, label, value, onChange, disabled }: PriceFieldProps) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min="0"
+        step="0.01"
+        placeholder="Optional"
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : parseFloat(e.target.value))}
+        disabled={disabled}
+        className="h-8 text-xs"
+      />
+    </div>
+  );
+}
+
+// Order type, time in force and take-profit/stop-loss legs of a pending trade order
+export default function OrderExecutionEditor({
+  action,
+  execution,
+  onChange,
+  error,
+  disabled = false
+}: OrderExecutionEditorProps) {
+  const update = (changes: Partial<OrderExecution>) => onChange({ ...execution, ...changes });
+
+  const needsLimit = execution.orderType === 'limit' || execution.orderType === 'stop_limit';
+  const needsStop = execution.orderType === 'stop' || execution.orderType === 'stop_limit';
+  // Legs are only offered on BUY orders; a SELL with legs would open a short position
+  const allowsLegs = action === 'BUY';
+  const timeInForceOptions: TimeInForce[] = allowsLegs && (execution.takeProfitPrice || execution.stopLossPrice)
+    ? ['day', 'gtc']
+    : ['day', 'gtc', 'opg', 'cls', 'ioc', 'fok'];
+
+  return (
+    <div className="space-y-3 rounded-md border bg-muted/20 p-3" onClick={(e) => e.stopPropagation()}>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Order Type</Label>
+          <Select
+            value={execution.orderType}
+            onValueChange={(value) => update({
+              orderType: value as OrderType,
+              limitPrice: value === 'limit' || value === 'stop_limit' ? execution.limitPrice : null,
+              stopPrice: value === 'stop' || value === 'stop_limit' ? execution.stopPrice : null
+            })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map((type) => (
+                <SelectItem key={type} value={type}>{ORDER_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Time in Force</Label>
+          <Select
+            value={execution.timeInForce}
+            onValueChange={(value) => update({ timeInForce: value as TimeInForce })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeInForceOptions.map((tif) => (
+                <SelectItem key={tif} value={tif}>{TIME_IN_FORCE_LABELS[tif]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {(needsStop || needsLimit) && (
+        <div className="grid grid-cols-2 gap-2">
+          {needsStop && (
+            <PriceField
+              id="order-stop-price"
+              label="Stop Price"
+              value={execution.stopPrice}
+              onChange={(stopPrice) => update({ stopPrice })}
+              disabled={disabled}
+            />
+          )}
+          {needsLimit && (
+            <PriceField
+              id="order-limit-price"
+              label="Limit Price"
+              value={execution.limitPrice}
+              onChange={(limitPrice) => update({ limitPrice })}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      )}
+
+      {allowsLegs && (
+        <div className="grid grid-cols-2 gap-2">
+          <PriceField
+            id="order-take-profit"
+            label="Take Profit"
+            value={execution.takeProfitPrice}
+            onChange={(takeProfitPrice) => update({ takeProfitPrice })}
+            disabled={disabled}
+          />
+          <PriceField
+            id="order-stop-loss"
+            label="Stop Loss"
+            value={execution.stopLossPrice}
+            onChange={(stopLossPrice) => update({ stopLossPrice })}
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
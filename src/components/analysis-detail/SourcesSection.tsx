@@ -24,6 +24,8 @@ interface Source {
   metadata?: {
     title?: string;
     url?: string;
+    publishedAt?: string;   // Research sources that date their documents (news APIs, RSS, EDGAR)
+    source?: string;        // Publisher or feed name
   };
 }
 
@@ -473,9 +475,10 @@ function SourceCard({ source, index }: { source: Source; index: number }) {
           <h4 className="text-sm font-medium line-clamp-2">
             {index + 1}. {title}
           </h4>
-          {url && (
+          {(url || source.metadata?.source) && (
             <p className="text-xs text-muted-foreground mt-1">
-              {getDomain(url)}
+              {source.metadata?.source || getDomain(url!)}
+              {source.metadata?.publishedAt && ` · ${new Date(source.metadata.publishedAt).toLocaleDateString()}`}
             </p>
           )}
           {content && (
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import {
   Activity,
   AlertCircle,
@@ -9,7 +10,9 @@ import {
   TrendingUp,
   TrendingDown,
   XCircle,
-  Loader2
+  Loader2,
+  Pencil,
+  ShieldAlert
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -26,10 +29,19 @@ import {
   getTradeOrderStatusDisplayText,
   getAlpacaStatusDisplayText
 } from "@/lib/statusTypes";
+import {
+  type OrderExecution,
+  DEFAULT_ORDER_EXECUTION,
+  formatOptionContract,
+  formatOrderExecution,
+  getOrderExecutionError
+} from "@/lib/orderExecution";
+import { RISK_LIMIT_RULE_LABELS, type RiskViolation } from "@/lib/riskLimits";
+import OrderExecutionEditor from "./OrderExecutionEditor";
 
 interface TradeOrderCardProps {
   analysisData: any;
-  onApprove: () => void;
+  onApprove: (execution?: OrderExecution) => void;
   onReject: () => void;
   isExecuted?: boolean;
   isExecuting?: boolean;
@@ -45,6 +57,20 @@ export default function TradeOrderCard({
 }: TradeOrderCardProps) {
   // Use the actual trade order data if available (from trading_actions table)
   const tradeOrder = analysisData.tradeOrder;
+
+  // Order type/prices can be edited before approval; edits are sent along with the approval
+  const [execution, setExecution] = useState<OrderExecution>(tradeOrder?.execution || DEFAULT_ORDER_EXECUTION);
+  const [isEditingOrder, setIsEditingOrder] = useState(false);
+  const [isExecutionEdited, setIsExecutionEdited] = useState(false);
+  const [executionOrderId, setExecutionOrderId] = useState(tradeOrder?.id);
+
+  // Reset edits only when a different order is loaded, not on every poll refresh
+  if (tradeOrder?.id !== executionOrderId) {
+    setExecutionOrderId(tradeOrder?.id);
+    setExecution(tradeOrder?.execution || DEFAULT_ORDER_EXECUTION);
+    setIsEditingOrder(false);
+    setIsExecutionEdited(false);
+  }
   
   // IMPORTANT: Prioritize the Portfolio Manager's current decision over any old trade orders
   // The trade order might be from a different/old analysis, so we check PM's decision first
@@ -191,6 +217,13 @@ export default function TradeOrderCard({
   const isRejected = isTradeOrderRejected(orderStatus);
   const isOrderExecuted = orderStatus === 'executed' || isExecuted;
   
+  const executionError = getOrderExecutionError(decision, execution);
+
+  const handleExecutionChange = (updated: OrderExecution) => {
+    setExecution(updated);
+    setIsExecutionEdited(true);
+  };
+
   // Get Alpaca order details if available
   const alpacaOrderId = tradeOrder?.alpacaOrderId;
   const alpacaOrderStatus = tradeOrder?.alpacaOrderStatus;
@@ -240,11 +273,16 @@ export default function TradeOrderCard({
               >
                 {decision}
               </Badge>
+              {tradeOrder?.optionContract && (
+                <Badge variant="outline" className="text-xs">
+                  {formatOptionContract(tradeOrder.optionContract)}
+                </Badge>
+              )}
               <span className="text-xs text-muted-foreground">
                 {orderDollarAmount && orderDollarAmount > 0
                   ? `$${Number(orderDollarAmount).toLocaleString()} order`
                   : orderShares
-                    ? `${Number(orderShares).toFixed(2)} shares`
+                    ? `${Number(orderShares).toFixed(2)} ${tradeOrder?.optionContract ? 'contracts' : 'shares'}`
                     : 'Order details pending'
                 }
               </span>
@@ -263,6 +301,26 @@ export default function TradeOrderCard({
             <p className="text-xs text-muted-foreground line-clamp-2">
               {portfolioManagerInsight?.rationale || 'Trade order ready for execution'}
             </p>
+            {tradeOrder && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <span>{formatOrderExecution(execution)}</span>
+                {isPending && !isApproved && !isRejected && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-5 px-1 text-xs"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setIsEditingOrder(!isEditingOrder);
+                    }}
+                    disabled={isExecuting}
+                  >
+                    <Pencil className="h-3 w-3 mr-1" />
+                    {isEditingOrder ? 'Done' : 'Edit'}
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -338,9 +396,9 @@ export default function TradeOrderCard({
                 className="h-7 px-3 text-xs border-green-500/50 text-green-600 hover:bg-green-500/10 hover:border-green-500"
                 onClick={(e) => {
                   e.stopPropagation();
-                  onApprove();
+                  onApprove(isExecutionEdited ? execution : undefined);
                 }}
-                disabled={isExecuting}
+                disabled={isExecuting || !!executionError}
               >
                 {isExecuting ? (
                   <Loader2 className="h-3 w-3 mr-1 animate-spin" />
@@ -367,6 +425,33 @@ export default function TradeOrderCard({
         </div>
       </div>
 
+      {/* Order type and bracket legs editor for pending orders */}
+      {isEditingOrder && isPending && !isApproved && !isRejected && (
+        <OrderExecutionEditor
+          action={decision}
+          execution={execution}
+          onChange={handleExecutionChange}
+          error={executionError}
+          disabled={isExecuting}
+        />
+      )}
+
+      {/* Risk limit rules that blocked the order */}
+      {isRejected && tradeOrder?.riskViolations?.length > 0 && (
+        <div className="rounded-md border border-red-500/30 bg-red-500/10 p-3 space-y-1">
+          <p className="flex items-center gap-1 text-xs font-medium text-red-600 dark:text-red-400">
+            <ShieldAlert className="h-3 w-3" />
+            Blocked by risk limits
+          </p>
+          {tradeOrder.riskViolations.map((violation: RiskViolation) => (
+            <p key={violation.rule} className="text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{RISK_LIMIT_RULE_LABELS[violation.rule] || violation.rule}:</span>{' '}
+              {violation.message}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Additional Details - Confidence and Portfolio Impact */}
       <div className="space-y-3">
         {/* Confidence Level */}
@@ -460,7 +460,7 @@ export default function WorkflowStepsLayout({
                           {isActive && !isCompleted && !hasErrors && (
                             <Badge variant="running" className="text-xs">
                               <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-                              In Progress
+                              {runningAgents > 1 ? `${runningAgents} Running in Parallel` : 'In Progress'}
                             </Badge>
                           )}
                         </div>
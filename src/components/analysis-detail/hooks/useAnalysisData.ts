@@ -8,6 +8,7 @@ import {
   isAnalysisActive
 } from "@/lib/statusTypes";
 import { getCompleteMessages } from "@/lib/getCompleteMessages";
+import { optionContractFromRow, orderExecutionFromRow } from "@/lib/orderExecution";
 
 interface UseAnalysisDataProps {
   ticker?: string;
@@ -145,6 +146,7 @@ export function useAnalysisData({ ticker, analysisId, analysisDate, isOpen }: Us
             .from('trading_actions')
             .select('*')
             .eq('analysis_id', analysisToLoad.id)
+            .order('asset_class', { ascending: true })  // Equity order first when an option order was placed alongside it
             .order('created_at', { ascending: false })
             .limit(1);
 
@@ -166,6 +168,9 @@ export function useAnalysisData({ ticker, analysisId, analysisDate, isOpen }: Us
               createdAt: order.created_at,
               executedAt: order.executed_at,
               price: order.price,
+              execution: orderExecutionFromRow(order),
+              optionContract: optionContractFromRow(order),
+              riskViolations: order.risk_violations || null,
               beforeAllocation: order.metadata?.beforePosition?.allocation,
               afterAllocation: order.metadata?.afterPosition?.allocation,
               beforeShares: order.metadata?.beforePosition?.shares,
@@ -11,6 +11,8 @@ import {
   isAlpacaOrderTerminal,
   isAlpacaOrderFilled
 } from "@/lib/statusTypes";
+import type { OrderExecution } from "@/lib/orderExecution";
+import { formatMarketTime } from "@/lib/tradingCalendar";
 
 interface UseOrderActionsProps {
   analysisData: any;
@@ -86,7 +88,7 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
   };
 
   // Handle order approval
-  const handleApproveOrder = async () => {
+  const handleApproveOrder = async (execution?: OrderExecution) => {
     if (!analysisData?.tradeOrder?.id) {
       toast({
         title: "Error",
@@ -113,7 +115,8 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
       const { data, error } = await supabase.functions.invoke('execute-trade', {
         body: {
           tradeActionId: analysisData.tradeOrder.id,
-          action: 'approve'
+          action: 'approve',
+          ...(execution && { execution })
         }
       });
 
@@ -139,6 +142,7 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
           const updatedTradeOrder = {
             ...analysisData.tradeOrder,
             status: TRADE_ORDER_STATUS.APPROVED,
+            ...(execution && { execution }),
             alpacaOrderId: data.alpacaOrderId,
             alpacaOrderStatus: data.alpacaStatus
           };
@@ -148,8 +152,10 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
         }
 
         toast({
-          title: "Order Executed",
-          description: `${analysisData.decision} order for ${analysisData.ticker} has been submitted to Alpaca. Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`,
+          title: data.queuedUntil ? "Order Queued" : "Order Executed",
+          description: data.queuedUntil
+            ? `The market is closed; ${analysisData.decision} order for ${analysisData.ticker} will execute at the open (${formatMarketTime(new Date(data.queuedUntil))}). Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`
+            : `${analysisData.decision} order for ${analysisData.ticker} has been submitted to Alpaca. Order ID: ${data.alpacaOrderId?.substring(0, 8)}...`,
         });
 
         // Start polling for order status updates
@@ -157,8 +163,18 @@ export function useOrderActions({ analysisData, updateAnalysisData }: UseOrderAc
           pollAlpacaOrderStatus(data.alpacaOrderId);
         }
       } else {
+        // A risk limit block rejects the order server-side
+        if (data.riskViolations && analysisData.tradeOrder) {
+          updateAnalysisData({
+            tradeOrder: {
+              ...analysisData.tradeOrder,
+              status: TRADE_ORDER_STATUS.REJECTED,
+              riskViolations: data.riskViolations
+            }
+          });
+        }
         toast({
-          title: "Order Failed",
+          title: data.riskViolations ? "Order Blocked" : "Order Failed",
           description: data.message || "Failed to execute order",
           variant: "destructive",
         });
@@ -16,8 +16,62 @@ import {
   Briefcase
 } from 'lucide-react';
 import type { WorkflowStep } from '../types';
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  getAgentDisplayName,
+  getAgentInsightKey,
+  getAgentRefByDisplayName,
+  getOrderedPhaseIds,
+  getPhaseAgentRefs,
+  parseAgentRef,
+  type WorkflowDefinition
+} from '@/lib/workflowDefinition';
+
+// Workflow phase ids used by the coordinator mapped to the step ids shown here
+export const STEP_ID_BY_PHASE: { [phaseId: string]: string } = {
+  analysis: 'analysis',
+  research: 'research-debate',
+  trading: 'trading-decision',
+  risk: 'risk-assessment',
+  portfolio: 'portfolio-management'
+};
+
+/**
+ * Agent ref and agent_insights key for an agent display name, including repeated instances ("Trader 2")
+ */
+export const getAgentDetails = (agentName: string): { agentRef: string; insightKey: string } | null => {
+  const agentRef = getAgentRefByDisplayName(agentName);
+  return agentRef ? { agentRef, insightKey: getAgentInsightKey(agentRef) } : null;
+};
+
+/**
+ * Build the workflow steps for a workflow definition
+ * Phases and agents missing from the definition are left out, in the order the definition runs them.
+ * An agent listed more than once in its phase gets one card per instance.
+ */
+export const getInitialWorkflowSteps = (
+  definition: WorkflowDefinition = DEFAULT_WORKFLOW_DEFINITION
+): WorkflowStep[] => {
+  const allSteps = getAllWorkflowSteps();
+
+  return getOrderedPhaseIds(definition).flatMap((phaseId) => {
+    const step = allSteps.find(s => s.id === STEP_ID_BY_PHASE[phaseId]);
+    if (!step) return [];
+
+    const agents = getPhaseAgentRefs(phaseId, definition.phases[phaseId]).flatMap((agentRef) => {
+      const { functionName, instance } = parseAgentRef(agentRef);
+      const template = step.agents.find(agent => agent.name === getAgentDisplayName(functionName));
+      if (!template) return [];
+      return instance === 1
+        ? [template]
+        : [{ ...template, id: `${template.id}-${instance}`, name: getAgentDisplayName(agentRef) }];
+    });
+
+    return [{ ...step, agents }];
+  });
+};
 
-export const getInitialWorkflowSteps = (): WorkflowStep[] => [
+const getAllWorkflowSteps = (): WorkflowStep[] => [
   {
     id: 'analysis',
     name: 'Analysis Phase',
@@ -160,7 +214,7 @@ export const getInitialWorkflowSteps = (): WorkflowStep[] => [
       },
       {
         id: '13',
-        name: 'Risk Judge',
+        name: 'Risk Manager',
         icon: Gavel,
         status: 'pending',
         lastAction: 'Not started',
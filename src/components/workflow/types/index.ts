@@ -26,8 +26,4 @@ export interface WorkflowStep {
 export interface AgentStatusMapping {
   agent: Agent;
   key: string;
-}
-
-export type StepAgentMapping = {
-  [key: string]: AgentStatusMapping[];
-};
\ No newline at end of file
+}
\ No newline at end of file
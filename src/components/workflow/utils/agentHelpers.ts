@@ -66,6 +66,11 @@ export const getAgentStatus = (agentKey: string, stepId: string, analysis: any)
         const agentNameLower = a.name.toLowerCase().replace(/\s+/g, '');
         const keyLower = agentKey.toLowerCase();
 
+        // Repeated agents: "Trader 2" only matches "trader2", "Trader" only matches "trader"
+        const nameInstance = a.name.match(/ (\d+)$/)?.[1] || '1';
+        const keyInstance = agentKey.match(/(\d+)$/)?.[1] || '1';
+        if (nameInstance !== keyInstance) return false;
+
         // Debug logging for matching
         if (step.id === 'research' || step.id === 'research-debate') {
           console.log(`Matching agent in workflow: agent="${a.name}", agentNameLower="${agentNameLower}", keyLower="${keyLower}"`);
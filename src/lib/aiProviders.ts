@@ -0,0 +1,11 @@
+// Generic provider for self-hosted servers that speak the OpenAI chat completions API
+// (Ollama, vLLM, LM Studio). Must match OPENAI_COMPATIBLE_PROVIDER in the edge functions.
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+
+/**
+ * Parse a comma or newline separated list of model ids entered in Settings
+ */
+export const parseModelList = (models?: string | null): string[] => {
+  if (!models) return [];
+  return Array.from(new Set(models.split(/[,\n]/).map(model => model.trim()).filter(Boolean)));
+};
@@ -0,0 +1,122 @@
+/**
+ * Helpers for the AI usage page
+ * Daily totals come from user_usage (New York dates); per-call rows from ai_usage_events.
+ */
+
+export interface DailyUsageRow {
+  usage_date: string;
+  ai_request_count: number | null;
+  ai_prompt_tokens: number | null;
+  ai_completion_tokens: number | null;
+  ai_cost: number | string | null;
+}
+
+export interface UsageEventRow {
+  agent: string;
+  provider: string;
+  model: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  estimated_cost: number | string;
+  priced: boolean;
+}
+
+export interface SpendPoint {
+  label: string;
+  cost: number;
+  tokens: number;
+}
+
+export interface UsageBreakdown {
+  key: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+  unpriced: number;
+}
+
+/**
+ * Today's date in New York (YYYY-MM-DD), matching how usage dates are recorded
+ */
+export function getNYDateString(date: Date = new Date()): string {
+  return date.toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+/**
+ * UTC instant of midnight in New York on the first day of the month containing `today`
+ */
+export function getNYMonthStartIso(today: string = getNYDateString()): string {
+  const noonUtc = new Date(`${today.slice(0, 7)}-01T12:00:00Z`);
+  const nyHour = Number(noonUtc.toLocaleString("en-US", { timeZone: "America/New_York", hour: "numeric", hourCycle: "h23" }));
+  return new Date(noonUtc.getTime() - nyHour * 60 * 60 * 1000).toISOString();
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T12:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * One point per day for the last `days` days, including days without usage
+ */
+export function buildDailySpend(rows: DailyUsageRow[], days: number, today: string = getNYDateString()): SpendPoint[] {
+  const byDate = new Map(rows.map(row => [row.usage_date, row]));
+  const points: SpendPoint[] = [];
+
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = shiftDate(today, -offset);
+    const row = byDate.get(date);
+    points.push({
+      label: date.slice(5),
+      cost: Number(row?.ai_cost || 0),
+      tokens: Number(row?.ai_prompt_tokens || 0) + Number(row?.ai_completion_tokens || 0)
+    });
+  }
+
+  return points;
+}
+
+/**
+ * One point per calendar month for the last `months` months
+ */
+export function buildMonthlySpend(rows: DailyUsageRow[], months: number, today: string = getNYDateString()): SpendPoint[] {
+  const [year, month] = today.split('-').map(Number);
+  const points: SpendPoint[] = [];
+
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const date = new Date(Date.UTC(year, month - 1 - offset, 1));
+    const key = date.toISOString().slice(0, 7);
+    const monthRows = rows.filter(row => row.usage_date.startsWith(key));
+    points.push({
+      label: key,
+      cost: monthRows.reduce((sum, row) => sum + Number(row.ai_cost || 0), 0),
+      tokens: monthRows.reduce((sum, row) => sum + Number(row.ai_prompt_tokens || 0) + Number(row.ai_completion_tokens || 0), 0)
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Group usage events by agent or model, most expensive first
+ */
+export function groupUsageEvents(events: UsageEventRow[], by: 'agent' | 'model'): UsageBreakdown[] {
+  const groups = new Map<string, UsageBreakdown>();
+
+  for (const event of events) {
+    const key = by === 'agent' ? event.agent : `${event.provider} / ${event.model || 'unknown'}`;
+    const group = groups.get(key) || { key, requests: 0, tokens: 0, cost: 0, unpriced: 0 };
+    group.requests += 1;
+    group.tokens += event.prompt_tokens + event.completion_tokens;
+    group.cost += Number(event.estimated_cost || 0);
+    if (!event.priced) group.unpriced += 1;
+    groups.set(key, group);
+  }
+
+  return [...groups.values()].sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+}
+
+export function formatUsd(value: number): string {
+  return value < 1 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
@@ -1,9 +1,24 @@
 /**
  * Alpaca Trading API Integration
+ *
+ * Account, positions, quotes, bars, assets and orders go through the broker interface of the
+ * edge functions and come back in the broker-neutral shapes of ./broker, whichever broker is
+ * configured. Portfolio history and the asset list are read from Alpaca directly.
  */
 
 import { useAuth } from './auth';
+import { previousTradingDay } from './tradingCalendar';
 import { supabase } from './supabase';
+import { getSelectedBrokerAccountId } from './brokerAccounts';
+import type {
+  BrokerAccountSnapshot,
+  BrokerAsset,
+  BrokerBar,
+  BrokerOrder,
+  BrokerPosition,
+  BrokerQuote,
+  BrokerTickerData,
+} from './broker';
 
 interface AlpacaConfig {
   apiKey: string;
@@ -11,78 +26,6 @@ interface AlpacaConfig {
   paper: boolean;
 }
 
-interface AlpacaAccount {
-  id: string;
-  account_number: string;
-  status: string;
-  currency: string;
-  buying_power: string;
-  cash: string;
-  portfolio_value: string;
-  equity: string;
-  last_equity: string;
-  long_market_value: string;
-  short_market_value: string;
-  initial_margin: string;
-  maintenance_margin: string;
-  sma: string;
-  daytrade_count: number;
-  balance_asof: string;
-  created_at: string;
-  trade_suspended_by_user: boolean;
-  trading_blocked: boolean;
-  transfers_blocked: boolean;
-  account_blocked: boolean;
-  pattern_day_trader: boolean;
-  daytrading_buying_power: string;
-  regt_buying_power: string;
-  cash_withdrawable: string;
-}
-
-interface AlpacaPosition {
-  asset_id: string;
-  symbol: string;
-  exchange: string;
-  asset_class: string;
-  qty: string;
-  avg_entry_price: string;
-  side: string;
-  market_value: string;
-  cost_basis: string;
-  unrealized_pl: string;
-  unrealized_plpc: string;
-  unrealized_intraday_pl: string;
-  unrealized_intraday_plpc: string;
-  current_price: string;
-  lastday_price: string;
-  change_today: string;
-}
-
-interface AlpacaOrder {
-  id: string;
-  client_order_id: string;
-  created_at: string;
-  updated_at: string;
-  submitted_at: string;
-  filled_at: string | null;
-  expired_at: string | null;
-  canceled_at: string | null;
-  failed_at: string | null;
-  asset_id: string;
-  symbol: string;
-  asset_class: string;
-  qty: string;
-  filled_qty: string;
-  type: string;
-  side: 'buy' | 'sell';
-  time_in_force: string;
-  limit_price: string | null;
-  stop_price: string | null;
-  filled_avg_price: string | null;
-  status: string;
-  extended_hours: boolean;
-}
-
 interface AlpacaPortfolioHistory {
   timestamp: number[];
   equity: number[];
@@ -92,17 +35,6 @@ interface AlpacaPortfolioHistory {
   timeframe: string;
 }
 
-interface CreateOrderRequest {
-  symbol: string;
-  qty: number;
-  side: 'buy' | 'sell';
-  type: 'market' | 'limit' | 'stop' | 'stop_limit';
-  time_in_force: 'day' | 'gtc' | 'opg' | 'cls' | 'ioc' | 'fok';
-  limit_price?: number;
-  stop_price?: number;
-  client_order_id?: string;
-}
-
 class AlpacaAPI {
   private getConfig(): AlpacaConfig | null {
     const authState = useAuth.getState();
@@ -154,7 +86,8 @@ class AlpacaAPI {
       body: {
         method: options.method || 'GET',
         endpoint,
-        body: options.body ? JSON.parse(options.body as string) : undefined
+        body: options.body ? JSON.parse(options.body as string) : undefined,
+        accountId: getSelectedBrokerAccountId()
       }
     });
 
@@ -175,76 +108,70 @@ class AlpacaAPI {
     return data as T;
   }
 
+  // Broker actions of alpaca-proxy, available with every broker
+  private async brokerAction<T>(action: string, fields: Record<string, unknown>, failure: string): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('alpaca-proxy', {
+      body: {
+        action,
+        ...fields,
+        accountId: getSelectedBrokerAccountId()
+      }
+    });
+
+    if (error) {
+      throw new Error(`${failure}: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error(`${failure}: no data received`);
+    }
+
+    if (data.error) {
+      throw new Error(`${failure}: ${typeof data.error === 'string' ? data.error : JSON.stringify(data.error)}`);
+    }
+
+    return data as T;
+  }
+
   // Account Methods
-  async getAccount(): Promise<AlpacaAccount> {
+  async getAccount(): Promise<BrokerAccountSnapshot> {
     // Use batch endpoint for better performance
     const batchData = await this.getBatchAccountData();
     if (!batchData.account) {
-      // Return a default account object if Alpaca is unavailable
+      // Return a default account object if the broker is unavailable
       console.warn('No account data received, returning default values');
       return {
-        id: '',
-        account_number: '',
-        status: 'ACTIVE',
+        accountNumber: '',
         currency: 'USD',
-        buying_power: '0',
-        cash: '0',
-        portfolio_value: '0',
-        equity: '0',
-        last_equity: '0',
-        long_market_value: '0',
-        short_market_value: '0',
-        initial_margin: '0',
-        maintenance_margin: '0',
-        sma: '0',
-        daytrade_count: 0,
-        balance_asof: new Date().toISOString()
-      } as AlpacaAccount;
+        cash: 0,
+        buyingPower: 0,
+        portfolioValue: 0,
+        equity: 0,
+        lastEquity: 0,
+        longMarketValue: 0,
+        shortMarketValue: 0,
+        dayTradeCount: 0,
+        patternDayTrader: false
+      };
     }
     return batchData.account;
   }
 
   // Positions Methods
-  async getPositions(): Promise<AlpacaPosition[]> {
+  async getPositions(): Promise<BrokerPosition[]> {
     // Use batch endpoint for better performance
     const batchData = await this.getBatchAccountData();
     return batchData.positions || [];
   }
 
-  async getPosition(symbol: string): Promise<AlpacaPosition> {
-    return this.request<AlpacaPosition>(`/v2/positions/${symbol}`);
-  }
-
-  async closePosition(symbol: string): Promise<AlpacaOrder> {
-    return this.request<AlpacaOrder>(`/v2/positions/${symbol}`, {
-      method: 'DELETE',
-    });
-  }
-
-  async closeAllPositions(): Promise<AlpacaOrder[]> {
-    return this.request<AlpacaOrder[]>('/v2/positions', {
-      method: 'DELETE',
-    });
-  }
-
   // Orders Methods
-  async getOrders(status?: 'open' | 'closed' | 'all'): Promise<AlpacaOrder[]> {
-    const params = new URLSearchParams();
-    if (status) params.append('status', status);
-    return this.request<AlpacaOrder[]>(`/v2/orders?${params}`);
-  }
-
-  async createOrder(order: CreateOrderRequest): Promise<AlpacaOrder> {
-    return this.request<AlpacaOrder>('/v2/orders', {
-      method: 'POST',
-      body: JSON.stringify(order),
-    });
+  async getOrders(status?: 'open' | 'closed' | 'all'): Promise<BrokerOrder[]> {
+    const { orders } = await this.brokerAction<{ orders: BrokerOrder[] }>('orders', { status }, 'Failed to fetch orders');
+    return orders;
   }
 
   async cancelOrder(orderId: string): Promise<void> {
-    await this.request(`/v2/orders/${orderId}`, {
-      method: 'DELETE',
-    });
+    await this.brokerAction('cancel-order', { orderId }, `Failed to cancel order ${orderId}`);
   }
 
   // Portfolio History
@@ -261,37 +188,15 @@ class AlpacaAPI {
     );
   }
 
-  // Market Data (requires data subscription)
-  async getLatestQuote(symbol: string): Promise<any> {
-    const { data, error } = await supabase.functions.invoke('alpaca-proxy', {
-      body: {
-        method: 'GET',
-        endpoint: `/v2/stocks/${symbol}/quotes/latest`
-      }
-    });
-
-    if (error) {
-      throw new Error(`Failed to fetch quote for ${symbol}: ${error.message}`);
-    }
-
-    if (!data) {
-      throw new Error(`No quote data received for ${symbol}`);
-    }
-
-    if (data.error) {
-      throw new Error(`Failed to fetch quote: ${typeof data.error === 'string' ? data.error : JSON.stringify(data.error)}`);
-    }
-
-    return data;
+  // Market Data (requires data subscription); null when no quote is available
+  async getLatestQuote(symbol: string): Promise<BrokerQuote | null> {
+    const { quote } = await this.brokerAction<{ quote: BrokerQuote | null }>('quote', { symbol }, `Failed to fetch quote for ${symbol}`);
+    return quote;
   }
 
-  // Helper to get the last trading day (skip weekends)
+  // Helper to get the last trading day (skip weekends and market holidays)
   getLastTradingDay(date: Date = new Date()): string {
-    const day = date.getDay();
-    const daysToSubtract = day === 0 ? 2 : (day === 1 ? 3 : 1); // Sunday: -2, Monday: -3, other days: -1
-    const lastTradingDay = new Date(date);
-    lastTradingDay.setDate(date.getDate() - daysToSubtract);
-    return lastTradingDay.toISOString().split('T')[0];
+    return previousTradingDay(date.toLocaleDateString('en-CA', { timeZone: 'America/New_York' }));
   }
 
   // Get historical bars for a stock
@@ -301,71 +206,17 @@ class AlpacaAPI {
     start?: string,
     end?: string,
     limit?: number
-  ): Promise<any> {
-    const params: Record<string, string> = {
-      timeframe,
-      limit: (limit || 10000).toString(),
-      adjustment: 'raw',
-      feed: 'iex'
-    };
-    
-    if (start) params.start = start;
-    if (end) params.end = end;
-
-    const { data, error } = await supabase.functions.invoke('alpaca-proxy', {
-      body: {
-        method: 'GET',
-        endpoint: `/v2/stocks/${symbol}/bars`,
-        params
-      }
-    });
-
-    if (error) {
-      console.error(`Failed to fetch bars for ${symbol}:`, error);
-      throw new Error(`Failed to fetch bars for ${symbol}: ${error.message}`);
-    }
-
-    if (!data) {
-      throw new Error(`No bar data received for ${symbol}`);
-    }
+  ): Promise<BrokerBar[]> {
+    const { bars } = await this.brokerAction<{ bars: BrokerBar[] }>(
+      'bars',
+      { symbol, timeframe, start, end, limit },
+      `Failed to fetch bars for ${symbol}`
+    );
 
-    if (data.error) {
-      console.error(`Failed to fetch bars for ${symbol}:`, data.error);
-      throw new Error(`Failed to fetch bars for ${symbol}: ${typeof data.error === 'string' ? data.error : JSON.stringify(data.error)}`);
-    }
-    
-    // Handle null bars response (no data for the requested period)
-    if (data.bars === null) {
+    if (bars.length === 0) {
       console.log(`No bars data available for ${symbol} (${timeframe}) - market may be closed or date out of range`);
-      return [];
-    }
-    
-    console.log(`Alpaca bars response for ${symbol} (${timeframe}):`, {
-      hasData: !!data,
-      hasBars: !!data.bars,
-      symbolKey: data.bars?.[symbol] ? 'found' : 'not found',
-      barCount: data.bars?.[symbol]?.length || 0,
-      keys: Object.keys(data)
-    });
-    
-    // Alpaca v2 API returns: { bars: [...], symbol: "SYMBOL", next_page_token: null }
-    // The bars are in an array directly, not nested under symbol
-    if (data.bars && Array.isArray(data.bars)) {
-      console.log(`Returning ${data.bars.length} bars from data.bars array`);
-      return data.bars;
-    } else if (data.bars && data.bars[symbol]) {
-      console.log(`Returning ${data.bars[symbol].length} bars from data.bars[${symbol}]`);
-      return data.bars[symbol];
-    } else if (data[symbol]) {
-      console.log(`Returning ${data[symbol].length} bars from data[${symbol}]`);
-      return data[symbol];
-    } else if (Array.isArray(data)) {
-      console.log(`Returning ${data.length} bars from direct array`);
-      return data;
     }
-    
-    console.warn(`Unexpected bars response structure for ${symbol}:`, data);
-    return [];
+    return bars;
   }
 
   // Get all available assets (for search/autocomplete)
@@ -469,37 +320,23 @@ class AlpacaAPI {
     return data;
   }
   
-  // Get specific asset information
-  async getAsset(symbol: string): Promise<any> {
-    const { data, error } = await supabase.functions.invoke('alpaca-proxy', {
-      body: {
-        method: 'GET',
-        endpoint: `/v2/assets/${symbol}`
-      }
-    });
-    
-    if (error) {
-      throw new Error(`Failed to fetch asset ${symbol}: ${error.message}`);
-    }
-    
-    if (!data) {
-      throw new Error(`No asset data received for ${symbol}`);
-    }
-    
-    if (data.error) {
-      throw new Error(`Failed to fetch asset: ${typeof data.error === 'string' ? data.error : JSON.stringify(data.error)}`);
-    }
-    
-    return data;
+  // Get specific asset information; null for unknown symbols
+  async getAsset(symbol: string): Promise<BrokerAsset | null> {
+    const { asset } = await this.brokerAction<{ asset: BrokerAsset | null }>('asset', { symbol }, `Failed to fetch asset ${symbol}`);
+    return asset;
   }
 
   // Batch operations for efficiency
-  async getBatchData(tickers: string[], options?: { includeQuotes?: boolean; includeBars?: boolean }) {
+  async getBatchData(
+    tickers: string[],
+    options?: { includeQuotes?: boolean; includeBars?: boolean }
+  ): Promise<Record<string, BrokerTickerData>> {
     const { data, error } = await supabase.functions.invoke('alpaca-batch', {
       body: {
         tickers,
         includeQuotes: options?.includeQuotes ?? true,
-        includeBars: options?.includeBars ?? false
+        includeBars: options?.includeBars ?? false,
+        accountId: getSelectedBrokerAccountId()
       }
     });
 
@@ -519,11 +356,12 @@ class AlpacaAPI {
   }
 
   // Batch method for account and positions data
-  async getBatchAccountData() {
+  async getBatchAccountData(): Promise<{ account?: BrokerAccountSnapshot; positions?: BrokerPosition[] }> {
     const { data, error } = await supabase.functions.invoke('alpaca-batch', {
       body: {
         includeAccount: true,
-        includePositions: true
+        includePositions: true,
+        accountId: getSelectedBrokerAccountId()
       }
     });
 
@@ -573,7 +411,7 @@ class AlpacaAPI {
       const [batchData, history] = await Promise.all([
         this.getBatchAccountData().catch(err => {
           console.warn('Failed to get batch account data:', err);
-          return { account: null, positions: [] };
+          return { account: undefined, positions: [] };
         }),
         this.getPortfolioHistory('1D', '5Min').catch(err => {
           console.warn('Failed to get portfolio history:', err);
@@ -601,10 +439,10 @@ class AlpacaAPI {
         };
       }
 
-      const currentEquity = parseFloat(account.equity);
-      const lastEquity = parseFloat(account.last_equity);
-      const cashAvailable = parseFloat(account.cash);
-      const buyingPower = parseFloat(account.buying_power);
+      const currentEquity = account.equity;
+      const lastEquity = account.lastEquity;
+      const cashAvailable = account.cash;
+      const buyingPower = account.buyingPower;
 
       console.log('Account data:', {
         currentEquity,
@@ -668,15 +506,15 @@ class AlpacaAPI {
         totalReturnPct,
         maxDrawdown,
         sharpeRatio,
-        positions: positions.map((pos: any) => ({
+        positions: positions.map(pos => ({
           symbol: pos.symbol,
-          shares: parseFloat(pos.qty),
-          avgCost: parseFloat(pos.avg_entry_price),
-          currentPrice: parseFloat(pos.current_price),
-          marketValue: parseFloat(pos.market_value),
-          unrealizedPL: parseFloat(pos.unrealized_pl),
-          unrealizedPLPct: parseFloat(pos.unrealized_plpc) * 100,
-          dayChange: parseFloat(pos.change_today)
+          shares: pos.quantity,
+          avgCost: pos.avgEntryPrice,
+          currentPrice: pos.currentPrice,
+          marketValue: pos.marketValue,
+          unrealizedPL: pos.unrealizedPl,
+          unrealizedPLPct: pos.unrealizedPlPercent,
+          dayChange: pos.changeTodayPercent / 100
         }))
       };
     } catch (error) {
@@ -690,10 +528,4 @@ class AlpacaAPI {
 export const alpacaAPI = new AlpacaAPI();
 
 // Export types
-export type { 
-  AlpacaAccount, 
-  AlpacaPosition, 
-  AlpacaOrder, 
-  CreateOrderRequest,
-  AlpacaPortfolioHistory 
-};
\ No newline at end of file
+export type { AlpacaPortfolioHistory };
\ No newline at end of file
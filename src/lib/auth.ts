@@ -4,6 +4,9 @@ import { persist } from 'zustand/middleware';
 import { supabase } from './supabase';
 import { getCachedSession, clearSessionCache, updateCachedSession } from './cachedAuth';
 import type { User, Session } from '@supabase/supabase-js';
+import type { ResearchSourceSettings } from './researchSources';
+import type { ExitRules } from './positionGuards';
+import type { RiskLimits } from './riskLimits';
 
 // Types
 export interface Profile {
@@ -22,12 +25,23 @@ export interface ApiSettings {
   ai_provider: string;
   ai_api_key: string;
   ai_model: string;
+  ai_base_url?: string | null; // Only for openai-compatible providers
+  ai_models?: string[] | null;
   polygon_api_key?: string;
   alpaca_paper_api_key?: string;
   alpaca_paper_secret_key?: string;
   alpaca_live_api_key?: string;
   alpaca_live_secret_key?: string;
   alpaca_paper_trading?: boolean;
+  shadow_mode_enabled?: boolean;
+  market_analyst_indicators?: string[] | null;
+  market_analyst_intraday?: boolean;
+  research_sources?: ResearchSourceSettings | null;
+  research_rss_feeds?: string[] | null;
+  earnings_window_days?: number;
+  position_guard_enabled?: boolean;
+  position_guard_defaults?: Partial<ExitRules> | null;
+  risk_limits?: Partial<RiskLimits> | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -496,6 +510,9 @@ export const isAuthenticated = () => useAuth.getState().isAuthenticated;
 export const hasRequiredApiKeys = (settings: ApiSettings | null): boolean => {
   if (!settings) return false;
 
+  // Self-hosted OpenAI-compatible servers only need a base URL
+  if (settings.ai_provider === 'openai-compatible') return !!settings.ai_base_url;
+
   // At minimum, need an AI provider configured
   if (!settings.ai_provider || !settings.ai_api_key) return false;
 
@@ -0,0 +1,102 @@
+/**
+ * Broker-neutral market and account data returned by alpaca-batch and the alpaca-proxy broker actions
+ *
+ * Mirrors supabase/functions/_shared/broker/types.ts. Prices and amounts are numbers, quantities
+ * are shares (contracts for options) and percentages are in percent (1.5 = 1.5%).
+ */
+
+import type { AlpacaOrderStatus } from './statusTypes';
+
+export type BrokerAssetClass = 'equity' | 'option';
+
+export interface BrokerAccountSnapshot {
+  accountNumber: string;
+  currency: string;
+  cash: number;
+  buyingPower: number;
+  portfolioValue: number;
+  equity: number;
+  lastEquity: number;           // Equity at the previous close
+  longMarketValue: number;
+  shortMarketValue: number;
+  dayTradeCount: number;
+  patternDayTrader: boolean;
+}
+
+export interface BrokerPosition {
+  symbol: string;
+  assetClass: BrokerAssetClass;
+  side: 'long' | 'short';
+  quantity: number;
+  availableQuantity: number;    // Not held for open orders
+  avgEntryPrice: number;
+  currentPrice: number;
+  lastdayPrice: number;
+  marketValue: number;
+  costBasis: number;
+  unrealizedPl: number;
+  unrealizedPlPercent: number;
+  unrealizedIntradayPl: number;
+  unrealizedIntradayPlPercent: number;
+  changeTodayPercent: number;
+}
+
+export interface BrokerQuote {
+  symbol: string;
+  bidPrice: number;
+  bidSize: number;
+  askPrice: number;
+  askSize: number;
+  price: number;                // Midpoint, or whichever side is quoted
+  timestamp: string | null;
+}
+
+export interface BrokerBar {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BrokerAsset {
+  symbol: string;
+  name: string;
+  assetClass: BrokerAssetClass;
+  exchange: string;
+  status: 'active' | 'inactive';
+  tradable: boolean;
+  fractionable: boolean;
+}
+
+export interface BrokerOrder {
+  id: string;
+  clientOrderId: string | null;
+  symbol: string;
+  assetClass: BrokerAssetClass;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit' | 'stop' | 'stop_limit';
+  orderClass: 'simple' | 'bracket' | 'oto';
+  timeInForce: 'day' | 'gtc' | 'opg' | 'cls' | 'ioc' | 'fok';
+  status: AlpacaOrderStatus;
+  quantity: number | null;
+  notional: number | null;
+  filledQuantity: number;
+  filledAvgPrice: number | null;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  createdAt: string;
+  submittedAt: string | null;
+  filledAt: string | null;
+}
+
+/**
+ * Per-ticker entry of alpaca-batch; previousBar and currentBar are daily bars
+ */
+export interface BrokerTickerData {
+  asset: BrokerAsset | null;
+  quote?: BrokerQuote;
+  previousBar?: BrokerBar;
+  currentBar?: BrokerBar;
+}
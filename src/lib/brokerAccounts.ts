@@ -0,0 +1,133 @@
+/**
+ * Broker accounts - additional Alpaca accounts with their own keys and strategy settings
+ *
+ * Mirrors supabase/functions/_shared/brokerAccounts.ts. The Alpaca keys in api_settings remain the
+ * primary account (selectedAccountId null); the selected account is sent along with Alpaca data
+ * requests and new analyses. Accounts are read and written through settings-proxy with masked keys.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { supabase } from './supabase';
+
+export interface BrokerAccount {
+  id: string;
+  name: string;
+  is_paper: boolean;
+  api_key: string | null;      // masked
+  secret_key: string | null;   // masked
+  user_risk_level: 'conservative' | 'moderate' | 'aggressive';
+  default_position_size_dollars: number;
+  default_min_position_size: number;
+  default_max_position_size: number;
+  target_stock_allocation: number;
+  target_cash_allocation: number;
+  auto_execute_trades: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type BrokerAccountInput = Omit<BrokerAccount, 'id' | 'target_cash_allocation' | 'created_at' | 'updated_at'> & { id?: string };
+
+export const PRIMARY_ACCOUNT_LABEL = 'Primary account';
+
+export const DEFAULT_BROKER_ACCOUNT: BrokerAccountInput = {
+  name: '',
+  is_paper: true,
+  api_key: '',
+  secret_key: '',
+  user_risk_level: 'moderate',
+  default_position_size_dollars: 1000,
+  default_min_position_size: 2,
+  default_max_position_size: 25,
+  target_stock_allocation: 80,
+  auto_execute_trades: false
+};
+
+interface BrokerAccountsState {
+  accounts: BrokerAccount[];
+  selectedAccountId: string | null;
+  isLoading: boolean;
+  loadAccounts: () => Promise<void>;
+  selectAccount: (accountId: string | null) => void;
+  saveAccount: (account: BrokerAccountInput) => Promise<BrokerAccount>;
+  deleteAccount: (accountId: string) => Promise<void>;
+}
+
+export const useBrokerAccounts = create<BrokerAccountsState>()(
+  persist(
+    (set, get) => ({
+      accounts: [],
+      selectedAccountId: null,
+      isLoading: false,
+
+      loadAccounts: async () => {
+        set({ isLoading: true });
+        try {
+          const { data, error } = await supabase.functions.invoke('settings-proxy', {
+            body: { action: 'get_broker_accounts' }
+          });
+          if (error) throw error;
+
+          const accounts: BrokerAccount[] = data?.accounts || [];
+          // Fall back to the primary account when the selected one was deleted
+          const selectedAccountId = accounts.some(account => account.id === get().selectedAccountId)
+            ? get().selectedAccountId
+            : null;
+          set({ accounts, selectedAccountId });
+        } catch (error) {
+          console.error('Failed to load broker accounts:', error);
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      selectAccount: (accountId) => {
+        set({ selectedAccountId: accountId });
+      },
+
+      saveAccount: async (account) => {
+        const { data, error } = await supabase.functions.invoke('settings-proxy', {
+          body: { action: 'save_broker_account', account }
+        });
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        const saved = data.account as BrokerAccount;
+        const accounts = get().accounts;
+        set({
+          accounts: accounts.some(existing => existing.id === saved.id)
+            ? accounts.map(existing => existing.id === saved.id ? saved : existing)
+            : [...accounts, saved]
+        });
+        return saved;
+      },
+
+      deleteAccount: async (accountId) => {
+        const { data, error } = await supabase.functions.invoke('settings-proxy', {
+          body: { action: 'delete_broker_account', accountId }
+        });
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
+
+        set({
+          accounts: get().accounts.filter(account => account.id !== accountId),
+          selectedAccountId: get().selectedAccountId === accountId ? null : get().selectedAccountId
+        });
+      }
+    }),
+    {
+      name: 'broker-account-storage',
+      partialize: (state) => ({
+        selectedAccountId: state.selectedAccountId,
+      })
+    }
+  )
+);
+
+/**
+ * Account id to send with Alpaca data requests and new analyses; undefined for the primary account
+ */
+export function getSelectedBrokerAccountId(): string | undefined {
+  return useBrokerAccounts.getState().selectedAccountId || undefined;
+}
@@ -0,0 +1,179 @@
+/**
+ * Technical indicator catalogue for settings and charts
+ *
+ * Mirrors the ids, names and defaults of supabase/functions/_shared/indicatorRegistry.ts
+ * (the calculations live there only) and adds how each indicator is charted.
+ */
+
+export type IndicatorCategory = 'trend' | 'momentum' | 'volatility' | 'volume' | 'levels';
+
+export interface IndicatorSeries {
+  key: string;          // technical_indicators key
+  label: string;
+  color: string;
+  dashed?: boolean;
+  dotsOnly?: boolean;   // Plotted as dots (Parabolic SAR)
+}
+
+export interface IndicatorPanel {
+  domain?: [number, number];
+  referenceLines?: number[];
+  decimals: number;
+}
+
+export interface IndicatorInfo {
+  id: string;
+  name: string;
+  category: IndicatorCategory;
+  description: string;
+  overlay?: IndicatorSeries[];                    // Drawn on the price chart
+  panel?: IndicatorPanel & { series: IndicatorSeries[] };  // Drawn in its own chart below the price
+}
+
+export const INDICATOR_CATEGORY_LABELS: Record<IndicatorCategory, string> = {
+  trend: 'Trend',
+  momentum: 'Momentum',
+  volatility: 'Volatility',
+  volume: 'Volume',
+  levels: 'Price Levels'
+};
+
+export const FIBONACCI_RATIOS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+export const INDICATORS: IndicatorInfo[] = [
+  { id: 'sma_10', name: 'SMA 10', category: 'trend', description: '10-period simple moving average' },
+  { id: 'sma_20', name: 'SMA 20', category: 'trend', description: '20-period simple moving average' },
+  { id: 'sma_50', name: 'SMA 50', category: 'trend', description: '50-period simple moving average' },
+  { id: 'sma_200', name: 'SMA 200', category: 'trend', description: '200-period simple moving average (1Y range)' },
+  { id: 'ema_12', name: 'EMA 12', category: 'trend', description: '12-period exponential moving average' },
+  { id: 'ema_26', name: 'EMA 26', category: 'trend', description: '26-period exponential moving average' },
+  { id: 'ema_50', name: 'EMA 50', category: 'trend', description: '50-period exponential moving average' },
+  {
+    id: 'adx',
+    name: 'ADX / DMI',
+    category: 'trend',
+    description: 'Trend strength (ADX) and direction (+DI / -DI)',
+    panel: {
+      referenceLines: [25],
+      decimals: 1,
+      series: [
+        { key: 'adx', label: 'ADX', color: '#3b82f6' },
+        { key: 'plus_di', label: '+DI', color: '#22c55e' },
+        { key: 'minus_di', label: '-DI', color: '#ef4444' }
+      ]
+    }
+  },
+  {
+    id: 'ichimoku',
+    name: 'Ichimoku Cloud',
+    category: 'trend',
+    description: 'Conversion, base and leading span lines (9, 26, 52)',
+    overlay: [
+      { key: 'ichimoku_tenkan', label: 'Tenkan', color: '#06b6d4' },
+      { key: 'ichimoku_kijun', label: 'Kijun', color: '#be123c' },
+      { key: 'ichimoku_senkou_a', label: 'Senkou A', color: '#16a34a', dashed: true },
+      { key: 'ichimoku_senkou_b', label: 'Senkou B', color: '#dc2626', dashed: true }
+    ]
+  },
+  {
+    id: 'psar',
+    name: 'Parabolic SAR',
+    category: 'trend',
+    description: 'Stop-and-reverse trailing points',
+    overlay: [{ key: 'psar', label: 'PSAR', color: '#a855f7', dotsOnly: true }]
+  },
+  { id: 'macd', name: 'MACD', category: 'momentum', description: 'MACD line, signal and histogram (12, 26, 9)' },
+  { id: 'rsi', name: 'RSI', category: 'momentum', description: '14-period relative strength index' },
+  {
+    id: 'stochastic',
+    name: 'Stochastic',
+    category: 'momentum',
+    description: '%K and %D (14, 3)',
+    panel: {
+      domain: [0, 100],
+      referenceLines: [80, 20],
+      decimals: 1,
+      series: [
+        { key: 'stochastic_k', label: '%K', color: '#3b82f6' },
+        { key: 'stochastic_d', label: '%D', color: '#f59e0b' }
+      ]
+    }
+  },
+  {
+    id: 'cci',
+    name: 'CCI',
+    category: 'momentum',
+    description: '20-period commodity channel index',
+    panel: {
+      referenceLines: [100, -100],
+      decimals: 1,
+      series: [{ key: 'cci', label: 'CCI', color: '#0ea5e9' }]
+    }
+  },
+  {
+    id: 'williams_r',
+    name: 'Williams %R',
+    category: 'momentum',
+    description: '14-period Williams %R',
+    panel: {
+      domain: [-100, 0],
+      referenceLines: [-20, -80],
+      decimals: 1,
+      series: [{ key: 'williams_r', label: 'Williams %R', color: '#8b5cf6' }]
+    }
+  },
+  { id: 'bollinger', name: 'Bollinger Bands', category: 'volatility', description: '20-period bands two standard deviations wide' },
+  { id: 'atr', name: 'ATR', category: 'volatility', description: '14-period average true range' },
+  {
+    id: 'keltner',
+    name: 'Keltner Channels',
+    category: 'volatility',
+    description: '20-period EMA with bands two ATRs wide',
+    overlay: [
+      { key: 'keltner_upper', label: 'Keltner Upper', color: '#14b8a6', dashed: true },
+      { key: 'keltner_lower', label: 'Keltner Lower', color: '#14b8a6', dashed: true }
+    ]
+  },
+  { id: 'volume_sma', name: 'Volume SMA', category: 'volume', description: '20-period average volume' },
+  { id: 'obv', name: 'On-Balance Volume', category: 'volume', description: 'Cumulative volume by price direction' },
+  {
+    id: 'vwap',
+    name: 'VWAP',
+    category: 'volume',
+    description: 'Volume-weighted average price from the start of the range',
+    overlay: [{ key: 'vwap', label: 'VWAP', color: '#ec4899' }]
+  },
+  {
+    id: 'mfi',
+    name: 'Money Flow Index',
+    category: 'volume',
+    description: '14-period volume-weighted RSI',
+    panel: {
+      domain: [0, 100],
+      referenceLines: [80, 20],
+      decimals: 1,
+      series: [{ key: 'mfi', label: 'MFI', color: '#10b981' }]
+    }
+  },
+  { id: 'support_resistance', name: 'Support / Resistance', category: 'levels', description: 'Levels from local highs and lows (6M+ ranges)' },
+  { id: 'fibonacci', name: 'Fibonacci Retracements', category: 'levels', description: "Retracement levels of the range's main swing" }
+];
+
+// The indicators the market analyst received before they were configurable
+export const DEFAULT_INDICATOR_IDS = [
+  'sma_10', 'sma_20', 'sma_50', 'sma_200', 'ema_12', 'ema_26', 'ema_50',
+  'macd', 'rsi', 'stochastic', 'bollinger', 'atr', 'volume_sma', 'obv', 'support_resistance'
+];
+
+/**
+ * Indicators charted generically (overlays and panels), present in an analysis' indicator data
+ */
+export function getChartedIndicators(technicalIndicators: Record<string, unknown>): IndicatorInfo[] {
+  const hasData = (key: string) => {
+    const values = technicalIndicators[key];
+    return Array.isArray(values) && values.length > 0;
+  };
+  return INDICATORS.filter(indicator =>
+    [...(indicator.overlay || []), ...(indicator.panel?.series || [])].some(series => hasData(series.key))
+  );
+}
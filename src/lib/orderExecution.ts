@@ -0,0 +1,165 @@
+/**
+ * Order type, time in force and bracket legs of a trade order
+ * Mirrors OrderExecutionParams in supabase/functions/_shared/tradeOrders.ts
+ */
+
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+export type TimeInForce = 'day' | 'gtc' | 'opg' | 'cls' | 'ioc' | 'fok';
+
+export interface OrderExecution {
+  orderType: OrderType;
+  timeInForce: TimeInForce;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  takeProfitPrice?: number | null;
+  stopLossPrice?: number | null;
+}
+
+export const DEFAULT_ORDER_EXECUTION: OrderExecution = {
+  orderType: 'market',
+  timeInForce: 'day'
+};
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market',
+  limit: 'Limit',
+  stop: 'Stop',
+  stop_limit: 'Stop Limit'
+};
+
+export const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  day: 'Day',
+  gtc: 'Good til canceled',
+  opg: 'Market open',
+  cls: 'Market close',
+  ioc: 'Immediate or cancel',
+  fok: 'Fill or kill'
+};
+
+const parsePrice = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const price = parseFloat(String(value));
+  return Number.isFinite(price) && price > 0 ? price : null;
+};
+
+/**
+ * Order columns of a trading_actions row; prices may arrive as numeric strings
+ */
+export interface OrderExecutionRow {
+  order_type?: string | null;
+  time_in_force?: string | null;
+  limit_price?: number | string | null;
+  stop_price?: number | string | null;
+  take_profit_price?: number | string | null;
+  stop_loss_price?: number | string | null;
+}
+
+/**
+ * Build order execution settings from a trading_actions row
+ */
+export function orderExecutionFromRow(row: OrderExecutionRow | null | undefined): OrderExecution {
+  return {
+    orderType: (row?.order_type || 'market') as OrderType,
+    timeInForce: (row?.time_in_force || 'day') as TimeInForce,
+    limitPrice: parsePrice(row?.limit_price),
+    stopPrice: parsePrice(row?.stop_price),
+    takeProfitPrice: parsePrice(row?.take_profit_price),
+    stopLossPrice: parsePrice(row?.stop_loss_price)
+  };
+}
+
+/**
+ * Client-side check matching the execute-trade validation, returns an error message or null
+ */
+export function getOrderExecutionError(action: string, execution: OrderExecution): string | null {
+  const { orderType, timeInForce, limitPrice, stopPrice, takeProfitPrice, stopLossPrice } = execution;
+
+  if ((orderType === 'limit' || orderType === 'stop_limit') && !limitPrice) {
+    return 'Enter a limit price';
+  }
+  if ((orderType === 'stop' || orderType === 'stop_limit') && !stopPrice) {
+    return 'Enter a stop price';
+  }
+  if (!takeProfitPrice && !stopLossPrice) {
+    return null;
+  }
+  if (action !== 'BUY') {
+    return 'Take-profit and stop-loss legs are only available on BUY orders';
+  }
+  if (timeInForce !== 'day' && timeInForce !== 'gtc') {
+    return 'Take-profit and stop-loss legs need a Day or GTC order';
+  }
+  if (takeProfitPrice && stopLossPrice && takeProfitPrice <= stopLossPrice) {
+    return 'Take-profit must be above stop-loss';
+  }
+
+  const entryPrice = limitPrice || stopPrice;
+  if (entryPrice && takeProfitPrice && takeProfitPrice <= entryPrice) {
+    return 'Take-profit must be above the entry price';
+  }
+  if (entryPrice && stopLossPrice && stopLossPrice >= entryPrice) {
+    return 'Stop-loss must be below the entry price';
+  }
+  return null;
+}
+
+/**
+ * Short description such as "Limit $182.50 · GTC · TP $200.00 · SL $170.00"
+ */
+export function formatOrderExecution(execution: OrderExecution): string {
+  const parts: string[] = [ORDER_TYPE_LABELS[execution.orderType] || execution.orderType];
+
+  if (execution.stopPrice && (execution.orderType === 'stop' || execution.orderType === 'stop_limit')) {
+    parts[0] += ` stop $${execution.stopPrice.toFixed(2)}`;
+  }
+  if (execution.limitPrice && (execution.orderType === 'limit' || execution.orderType === 'stop_limit')) {
+    parts[0] += ` $${execution.limitPrice.toFixed(2)}`;
+  }
+  parts.push(execution.timeInForce.toUpperCase());
+  if (execution.takeProfitPrice) parts.push(`TP $${execution.takeProfitPrice.toFixed(2)}`);
+  if (execution.stopLossPrice) parts.push(`SL $${execution.stopLossPrice.toFixed(2)}`);
+
+  return parts.join(' · ');
+}
+
+export interface OptionContract {
+  symbol: string;
+  type: 'call' | 'put';
+  strike: number;
+  expiration: string;
+}
+
+/**
+ * Option columns of a trading_actions row
+ */
+export interface OptionContractRow {
+  asset_class?: string | null;
+  option_symbol?: string | null;
+  option_type?: string | null;
+  option_strike?: number | string | null;
+  option_expiration?: string | null;
+}
+
+/**
+ * Option contract on a trading_actions row, or null for equity orders
+ */
+export function optionContractFromRow(row: OptionContractRow | null | undefined): OptionContract | null {
+  if (row?.asset_class !== 'option' || !row.option_symbol) {
+    return null;
+  }
+
+  return {
+    symbol: row.option_symbol,
+    type: row.option_type === 'put' ? 'put' : 'call',
+    strike: Number(row.option_strike) || 0,
+    expiration: row.option_expiration || ''
+  };
+}
+
+/**
+ * Short description such as "2025-01-17 $200 Call"
+ */
+export function formatOptionContract(contract: OptionContract): string {
+  const strike = Number.isInteger(contract.strike) ? contract.strike.toString() : contract.strike.toFixed(2);
+  return `${contract.expiration} $${strike} ${contract.type === 'call' ? 'Call' : 'Put'}`;
+}
@@ -1,4 +1,5 @@
 import { alpacaAPI } from './alpaca';
+import type { BrokerBar } from './broker';
 import { useAuth } from './auth';
 
 export interface PortfolioDataPoint {
@@ -197,9 +198,9 @@ export const fetchPortfolioData = async (): Promise<PortfolioData> => {
   }
 };
 
-// Helper to convert Alpaca bar data to our format
+// Helper to convert broker bars to our format
 const convertBarsToDataPoints = (
-  bars: any[],
+  bars: BrokerBar[],
   period: string
 ): PortfolioDataPoint[] => {
   if (!bars || bars.length === 0) {
@@ -210,8 +211,7 @@ const convertBarsToDataPoints = (
   console.log(`Converting ${bars.length} bars for period ${period}. Sample bar:`, bars[0]);
   
   const firstBar = bars[0];
-  // Alpaca v2 API uses 'c' for close, 't' for timestamp
-  const firstPrice = firstBar.c !== undefined ? firstBar.c : firstBar.close;
+  const firstPrice = firstBar.close;
   
   if (firstPrice === undefined || firstPrice === null) {
     console.error(`Invalid first price for ${period}:`, firstBar);
@@ -222,8 +222,8 @@ const convertBarsToDataPoints = (
   // This shows today's change from open, not from previous close
   const referencePrice = firstPrice;
   
-  return bars.map((bar: any) => {
-    const price = bar.c !== undefined ? bar.c : bar.close;
+  return bars.map(bar => {
+    const price = bar.close;
     
     if (price === undefined || price === null) {
       console.warn(`Skipping bar with invalid price:`, bar);
@@ -234,8 +234,8 @@ const convertBarsToDataPoints = (
     const pnlPercent = referencePrice !== 0 ? ((price - referencePrice) / referencePrice) * 100 : 0;
     
     // Format time based on period
-    // Alpaca returns ISO strings for timestamps in 't' field
-    const date = new Date(bar.t || bar.timestamp);
+    // Bar timestamps are ISO strings
+    const date = new Date(bar.timestamp);
     let timeLabel: string;
     
     switch (period) {
@@ -420,8 +420,8 @@ export const fetchStockData = async (ticker: string): Promise<StockData[string]>
         
         console.log(`Response for ${ticker} ${period}:`, {
           barsReceived: bars?.length || 0,
-          firstBar: bars?.[0] ? { time: bars[0].t, close: bars[0].c } : null,
-          lastBar: bars?.[bars.length - 1] ? { time: bars[bars.length - 1].t, close: bars[bars.length - 1].c } : null
+          firstBar: bars?.[0] ? { time: bars[0].timestamp, close: bars[0].close } : null,
+          lastBar: bars?.[bars.length - 1] ? { time: bars[bars.length - 1].timestamp, close: bars[bars.length - 1].close } : null
         });
         
         if (!bars || bars.length === 0) {
@@ -436,16 +436,16 @@ export const fetchStockData = async (ticker: string): Promise<StockData[string]>
         
         if (period === '1D' && bars.length > 0) {
           // Sort bars by time to ensure chronological order
-          const sortedBars = [...bars].sort((a: any, b: any) => {
-            const timeA = new Date(a.t || a.timestamp).getTime();
-            const timeB = new Date(b.t || b.timestamp).getTime();
+          const sortedBars = [...bars].sort((a, b) => {
+            const timeA = new Date(a.timestamp).getTime();
+            const timeB = new Date(b.timestamp).getTime();
             return timeA - timeB;
           });
           
           // Find the most recent trading day
           // Compare dates in market timezone (ET) to avoid timezone issues
           const mostRecentBar = sortedBars[sortedBars.length - 1];
-          const mostRecentBarTime = new Date(mostRecentBar.t || mostRecentBar.timestamp);
+          const mostRecentBarTime = new Date(mostRecentBar.timestamp);
           
           // Get the market date (ET) for the most recent bar
           const marketDateStr = mostRecentBarTime.toLocaleDateString('en-US', {
@@ -457,8 +457,8 @@ export const fetchStockData = async (ticker: string): Promise<StockData[string]>
           
           // Filter to only include bars from the most recent trading day
           // Compare dates in ET timezone to ensure correct filtering
-          filteredBars = sortedBars.filter((bar: any) => {
-            const barTime = new Date(bar.t || bar.timestamp);
+          filteredBars = sortedBars.filter(bar => {
+            const barTime = new Date(bar.timestamp);
             const barMarketDate = barTime.toLocaleDateString('en-US', {
               timeZone: 'America/New_York',
               year: 'numeric',
@@ -477,8 +477,8 @@ export const fetchStockData = async (ticker: string): Promise<StockData[string]>
             });
             
             if (batchData[ticker]?.previousBar && filteredBars.length > 0) {
-              const prevClose = batchData[ticker].previousBar.c;
-              const todayOpen = filteredBars[0].c || filteredBars[0].close;
+              const prevClose = batchData[ticker].previousBar.close;
+              const todayOpen = filteredBars[0].close;
               const gapFromPrevClose = todayOpen - prevClose;
               const gapPercent = prevClose > 0 ? (gapFromPrevClose / prevClose) * 100 : 0;
               console.log(`${ticker} - Previous close: ${prevClose}, Today's open: ${todayOpen}, Gap: ${gapFromPrevClose.toFixed(2)} (${gapPercent.toFixed(2)}%)`);
@@ -492,8 +492,8 @@ export const fetchStockData = async (ticker: string): Promise<StockData[string]>
             filteredBars: filteredBars.length,
             marketDate: marketDateStr,
             previousClose,
-            firstBar: filteredBars[0] ? new Date(filteredBars[0].t || filteredBars[0].timestamp).toLocaleString() : 'none',
-            lastBar: filteredBars[filteredBars.length - 1] ? new Date(filteredBars[filteredBars.length - 1].t || filteredBars[filteredBars.length - 1].timestamp).toLocaleString() : 'none'
+            firstBar: filteredBars[0] ? new Date(filteredBars[0].timestamp).toLocaleString() : 'none',
+            lastBar: filteredBars[filteredBars.length - 1] ? new Date(filteredBars[filteredBars.length - 1].timestamp).toLocaleString() : 'none'
           });
         }
         
@@ -0,0 +1,76 @@
+/**
+ * Types and formatting for the portfolio-risk edge function
+ *
+ * Mirrors the report of supabase/functions/_shared/portfolioRisk.ts; weights, VaR and
+ * volatility are fractions (0.05 = 5%), VaR and CVaR are 1-day losses.
+ */
+
+export interface VaRMeasure {
+  confidence: 95 | 99;
+  var: number;
+  cvar: number;
+  varAmount: number;
+  cvarAmount: number;
+}
+
+export interface PositionRisk {
+  symbol: string;
+  marketValue: number;
+  weight: number;
+  beta: number | null;
+  volatility: number | null;
+  sector: string;
+  industry: string | null;
+}
+
+export interface ExposureBucket {
+  name: string;
+  weight: number;
+  symbols: string[];
+}
+
+export interface CorrelatedPair {
+  a: string;
+  b: string;
+  correlation: number;
+}
+
+export interface PortfolioRiskReport {
+  asOf: string;
+  portfolioValue: number;
+  investedValue: number;
+  cashWeight: number;
+  observations: number;
+  beta: number | null;
+  volatility: number | null;
+  historicalVaR: VaRMeasure[];
+  parametricVaR: VaRMeasure[];
+  positions: PositionRisk[];
+  sectors: ExposureBucket[];
+  industries: ExposureBucket[];
+  herfindahl: number;
+  correlation: {
+    symbols: string[];
+    matrix: (number | null)[][];
+  };
+  highlyCorrelated: CorrelatedPair[];
+  warnings: string[];
+  missingHistory: string[];
+}
+
+export function formatWeight(value: number | null): string {
+  if (value === null) return '—';
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Cell background of a correlation, stronger red the closer the pair moves together
+ */
+export function correlationClassName(value: number | null): string {
+  if (value === null) return 'text-muted-foreground';
+  if (value >= 0.85) return 'bg-red-500/40';
+  if (value >= 0.7) return 'bg-red-500/25';
+  if (value >= 0.4) return 'bg-orange-500/15';
+  if (value <= -0.3) return 'bg-blue-500/20';
+  return '';
+}
@@ -0,0 +1,87 @@
+/**
+ * Position guard rules and rows for the holdings list and settings
+ *
+ * Mirrors the types and stop math of supabase/functions/_shared/positionGuards.ts
+ * (rules are armed and enforced by the position-guardian function).
+ */
+
+export type GuardRule = 'trailing_stop' | 'atr_stop' | 'take_profit' | 'time_stop';
+
+export interface ExitRules {
+  trailingStopPercent: number | null;
+  atrMultiplier: number | null;
+  takeProfitPercent: number | null;
+  timeStopDays: number | null;
+}
+
+export interface PositionGuard {
+  id: string;
+  ticker: string;
+  shares: number;
+  entry_price: number;
+  entry_at: string;
+  high_water_price: number;
+  trailing_stop_percent: number | null;
+  atr_multiplier: number | null;
+  atr: number | null;
+  take_profit_price: number | null;
+  time_stop_days: number | null;
+  rule_source: 'risk_manager' | 'settings' | 'mixed';
+  status: 'active' | 'triggered' | 'closed' | 'canceled';
+  last_error: string | null;
+}
+
+export const GUARD_RULE_LABELS: Record<GuardRule, string> = {
+  trailing_stop: 'Trailing stop',
+  atr_stop: 'ATR stop',
+  take_profit: 'Take-profit',
+  time_stop: 'Time stop'
+};
+
+export const GUARD_RULE_SOURCE_LABELS: Record<PositionGuard['rule_source'], string> = {
+  risk_manager: 'Risk Manager',
+  settings: 'your settings',
+  mixed: 'Risk Manager and your settings'
+};
+
+/**
+ * Highest of the trailing and ATR stop levels, or null when neither rule is set
+ */
+export function getGuardStopPrice(guard: PositionGuard): number | null {
+  const highWater = Number(guard.high_water_price);
+  const stops: number[] = [];
+  if (guard.trailing_stop_percent) {
+    stops.push(highWater * (1 - Number(guard.trailing_stop_percent) / 100));
+  }
+  if (guard.atr_multiplier && guard.atr) {
+    stops.push(highWater - Number(guard.atr_multiplier) * Number(guard.atr));
+  }
+  return stops.length > 0 ? Math.max(...stops) : null;
+}
+
+/**
+ * One line per rule of a guard, e.g. "Trailing stop: 8% below $212.40 high ($195.41)"
+ */
+export function describeGuardRules(guard: PositionGuard): string[] {
+  const lines: string[] = [];
+  const highWater = Number(guard.high_water_price);
+
+  if (guard.trailing_stop_percent) {
+    const stop = highWater * (1 - Number(guard.trailing_stop_percent) / 100);
+    lines.push(`${GUARD_RULE_LABELS.trailing_stop}: ${guard.trailing_stop_percent}% below $${highWater.toFixed(2)} high ($${stop.toFixed(2)})`);
+  }
+  if (guard.atr_multiplier) {
+    lines.push(guard.atr
+      ? `${GUARD_RULE_LABELS.atr_stop}: ${guard.atr_multiplier} x ATR $${Number(guard.atr).toFixed(2)} ($${(highWater - Number(guard.atr_multiplier) * Number(guard.atr)).toFixed(2)})`
+      : `${GUARD_RULE_LABELS.atr_stop}: ${guard.atr_multiplier} x ATR (ATR unavailable)`);
+  }
+  if (guard.take_profit_price) {
+    lines.push(`${GUARD_RULE_LABELS.take_profit}: $${Number(guard.take_profit_price).toFixed(2)}`);
+  }
+  if (guard.time_stop_days) {
+    const exitDate = new Date(new Date(guard.entry_at).getTime() + guard.time_stop_days * 24 * 60 * 60 * 1000);
+    lines.push(`${GUARD_RULE_LABELS.time_stop}: ${guard.time_stop_days} days (${exitDate.toLocaleDateString()})`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,77 @@
+/**
+ * Research source catalogue for settings
+ *
+ * Mirrors the ids, focus coverage and defaults of supabase/functions/_shared/researchSources.ts
+ * (the adapters live there only).
+ */
+
+export type ResearchFocus = 'news' | 'social' | 'fundamentals' | 'macroEconomy';
+export type ResearchSourceId = 'perplefina' | 'alpaca_news' | 'rss' | 'sec_edgar' | 'fixture';
+
+export interface ResearchSourcePreference {
+  priority: ResearchSourceId[];
+  fallback: boolean;
+}
+
+export type ResearchSourceSettings = Partial<Record<ResearchFocus, ResearchSourcePreference>>;
+
+export interface ResearchSourceInfo {
+  id: ResearchSourceId;
+  name: string;
+  description: string;
+  focusModes: ResearchFocus[];
+}
+
+export const RESEARCH_FOCUS_LABELS: Record<ResearchFocus, string> = {
+  news: 'News Analyst',
+  social: 'Social Media Analyst',
+  fundamentals: 'Fundamentals Analyst',
+  macroEconomy: 'Macro Analyst'
+};
+
+export const RESEARCH_SOURCES: ResearchSourceInfo[] = [
+  {
+    id: 'perplefina',
+    name: 'Perplefina',
+    description: 'Web search and write-up by a Perplefina deployment (PERPLEFINA_API_URL)',
+    focusModes: ['news', 'social', 'fundamentals', 'macroEconomy']
+  },
+  {
+    id: 'alpaca_news',
+    name: 'Alpaca News',
+    description: 'Benzinga headlines from the Alpaca news API (uses your Alpaca keys)',
+    focusModes: ['news', 'social', 'fundamentals', 'macroEconomy']
+  },
+  {
+    id: 'rss',
+    name: 'RSS Feeds',
+    description: 'The feeds listed below, or built-in feeds for each analyst',
+    focusModes: ['news', 'social', 'fundamentals', 'macroEconomy']
+  },
+  {
+    id: 'sec_edgar',
+    name: 'SEC EDGAR',
+    description: 'Full-text search of 8-K, 10-Q and 10-K filings',
+    focusModes: ['news', 'fundamentals']
+  },
+  {
+    id: 'fixture',
+    name: 'Local Fixtures',
+    description: 'Canned documents for offline testing',
+    focusModes: ['news', 'social', 'fundamentals', 'macroEconomy']
+  }
+];
+
+export const DEFAULT_RESEARCH_SOURCES: Record<ResearchFocus, ResearchSourcePreference> = {
+  news: { priority: ['perplefina', 'alpaca_news', 'rss', 'sec_edgar'], fallback: true },
+  social: { priority: ['perplefina', 'rss', 'alpaca_news'], fallback: true },
+  fundamentals: { priority: ['perplefina', 'sec_edgar', 'alpaca_news'], fallback: true },
+  macroEconomy: { priority: ['perplefina', 'rss', 'alpaca_news'], fallback: true }
+};
+
+/**
+ * A focus' source preference with the defaults filled in
+ */
+export function getResearchSourcePreference(settings: ResearchSourceSettings | null | undefined, focus: ResearchFocus): ResearchSourcePreference {
+  return settings?.[focus] || DEFAULT_RESEARCH_SOURCES[focus];
+}
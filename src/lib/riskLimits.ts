@@ -0,0 +1,51 @@
+/**
+ * Hard risk limits for the settings page and blocked trade orders
+ *
+ * Mirrors the types and labels of supabase/functions/_shared/riskLimits.ts
+ * (limits are enforced by analysis-portfolio-manager and execute-trade).
+ */
+
+export type RiskLimitRule =
+  | 'max_position_weight'
+  | 'max_sector_weight'
+  | 'max_daily_loss'
+  | 'max_orders_per_day'
+  | 'max_gross_exposure'
+  | 'blacklist'
+  | 'earnings_blackout'
+  | 'risk_check_unavailable';
+
+export interface RiskLimits {
+  maxPositionPercent: number | null;
+  maxSectorPercent: number | null;
+  maxDailyLossPercent: number | null;
+  maxOrdersPerDay: number | null;
+  maxGrossExposurePercent: number | null;
+  blacklist: string[];
+  earningsBlackoutDays: number | null;
+}
+
+export interface RiskViolation {
+  rule: RiskLimitRule;
+  message: string;
+  limit: number | string | null;
+  actual: number | string | null;
+}
+
+export const RISK_LIMIT_RULE_LABELS: Record<RiskLimitRule, string> = {
+  max_position_weight: 'Max single-name weight',
+  max_sector_weight: 'Max sector weight',
+  max_daily_loss: 'Max daily loss',
+  max_orders_per_day: 'Max orders per day',
+  max_gross_exposure: 'Max gross exposure',
+  blacklist: 'Blacklisted ticker',
+  earnings_blackout: 'Earnings blackout',
+  risk_check_unavailable: 'Risk check unavailable'
+};
+
+/**
+ * Comma or whitespace separated tickers, upper-cased and de-duplicated
+ */
+export function parseBlacklist(value: string): string[] {
+  return Array.from(new Set(value.split(/[\s,]+/).map(ticker => ticker.trim().toUpperCase()).filter(Boolean)));
+}
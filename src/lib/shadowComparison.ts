@@ -0,0 +1,69 @@
+/**
+ * Types and formatting for the shadow-comparison edge function
+ * "Followed the AI" is the paper shadow account, "approved" the live orders the user executed.
+ */
+
+export interface ShadowSideResult {
+  status: string | null;
+  filledQty: number | null;
+  filledPrice: number | null;
+  pnl: number | null;
+}
+
+export interface ShadowTradeComparison {
+  id: string;
+  tradingActionId: string;
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  assetClass: string;
+  optionSymbol: string | null;
+  createdAt: string;
+  divergence: ShadowDivergence;
+  decisionPrice: number | null;
+  currentPrice: number | null;
+  fillPriceDifference: number | null;
+  paper: ShadowSideResult & { error: string | null };
+  live: ShadowSideResult & { orderStatus: string | null };
+}
+
+export interface ShadowSideSummary {
+  trades: number;
+  filled: number;
+  pnl: number;
+}
+
+export interface ShadowComparisonResult {
+  days: number;
+  shadowModeActive: boolean;
+  summary: {
+    followedAi: ShadowSideSummary;
+    approved: ShadowSideSummary;
+    pnlDifference: number;
+    unpricedTrades: number;
+  };
+  trades: ShadowTradeComparison[];
+}
+
+export type ShadowDivergence = 'paper_failed' | 'rejected_live' | 'pending_live' | 'both_filled' | 'awaiting_fill';
+
+export const DIVERGENCE_LABELS: Record<ShadowDivergence, string> = {
+  paper_failed: 'Paper order failed',
+  rejected_live: 'Rejected live',
+  pending_live: 'Awaiting approval',
+  both_filled: 'Both filled',
+  awaiting_fill: 'Awaiting fill'
+};
+
+/**
+ * Signed dollar amount such as "+$1,234.50" or "-$80.00"
+ */
+export function formatPnl(value: number | null): string {
+  if (value === null) return '—';
+  const sign = value > 0 ? '+' : value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function pnlClassName(value: number | null): string {
+  if (!value) return 'text-muted-foreground';
+  return value > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+}
@@ -1,4 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
+import type { WorkflowDefinition } from './workflowDefinition';
+import type { ResearchSourceSettings } from './researchSources';
+import type { ExitRules } from './positionGuards';
+import type { RiskLimits } from './riskLimits';
 
 // These should be in your .env file
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
@@ -129,9 +133,11 @@ export interface Profile {
 export interface ApiSettings {
   id: string;
   user_id: string;
-  ai_provider: 'openai' | 'anthropic' | 'google' | 'openrouter' | 'deepseek';
+  ai_provider: 'openai' | 'anthropic' | 'google' | 'openrouter' | 'deepseek' | 'openai-compatible';
   ai_api_key: string;
   ai_model?: string;
+  ai_base_url?: string | null; // Only for openai-compatible providers
+  ai_models?: string[] | null;
   polygon_api_key?: string;
   alpaca_paper_api_key?: string;
   alpaca_paper_secret_key?: string;
@@ -167,6 +173,11 @@ export interface ApiSettings {
   analysis_optimization?: string;
   analysis_depth?: number;
   analysis_history_days?: number | string;  // Can be number or string like "1M", "3M", etc.
+  market_analyst_indicators?: string[] | null;  // Indicator ids from src/lib/indicatorRegistry.ts; null = defaults
+  market_analyst_intraday?: boolean;  // Add 5Min/15Min/1Hour bars and a timeframe confluence summary
+  research_sources?: ResearchSourceSettings | null;  // Per-analyst source priority and fallback; null = defaults
+  research_rss_feeds?: string[] | null;  // Feed URLs for the RSS research source; {ticker} is replaced
+  earnings_window_days?: number;  // Pre-earnings mode and the watchlist earnings flag start this many days before a report
   // Max tokens settings
   analysis_max_tokens?: number;
   research_max_tokens?: number;
@@ -179,8 +190,17 @@ export interface ApiSettings {
   target_cash_allocation?: number;
   // Trade execution settings
   auto_execute_trades?: boolean;
+  // Mirror every live order to the paper account and execute it immediately
+  shadow_mode_enabled?: boolean;
+  // Arm exit rules for each filled BUY; the position-guardian function sells when one triggers
+  position_guard_enabled?: boolean;
+  position_guard_defaults?: Partial<ExitRules> | null;  // Override the Risk Manager's proposal rule by rule; null = proposal only
+  // Hard limits checked before an order is created and before it is sent to Alpaca; null = no limits
+  risk_limits?: Partial<RiskLimits> | null;
   default_position_size_dollars?: number;
   user_risk_level?: 'conservative' | 'moderate' | 'aggressive';
+  // Monthly AI spend limit in USD; null means no limit
+  monthly_ai_budget?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -427,54 +447,70 @@ export const supabaseHelpers = {
     }
   },
 
-  async saveProviderConfiguration(userId: string, provider: {
-    nickname: string;
-    provider: string;
-    api_key: string;
-    is_default?: boolean;
-  }) {
+  async deleteProviderConfiguration(userId: string, nickname: string) {
     try {
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from('provider_configurations')
-        .upsert({
-          user_id: userId,
-          ...provider,
-          updated_at: new Date().toISOString()
-        }, {
-          onConflict: 'user_id,nickname'
-        })
-        .select()
-        .single();
+        .delete()
+        .eq('user_id', userId)
+        .eq('nickname', nickname);
+
+      if (error) {
+        console.error('Error deleting provider configuration:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error in deleteProviderConfiguration:', error);
+      return false;
+    }
+  },
+
+  // Workflow definition methods
+  async getWorkflowDefinition(userId: string): Promise<WorkflowDefinition | null> {
+    try {
+      const { data, error } = await supabase
+        .from('workflow_definitions')
+        .select('definition')
+        .eq('user_id', userId)
+        .maybeSingle();
 
       if (error) {
-        console.error('Error saving provider configuration:', error);
+        console.error('Error fetching workflow definition:', error);
         return null;
       }
 
-      return data;
+      return data?.definition || null;
     } catch (error) {
-      console.error('Error in saveProviderConfiguration:', error);
+      console.error('Error in getWorkflowDefinition:', error);
       return null;
     }
   },
 
-  async deleteProviderConfiguration(userId: string, nickname: string) {
+  async saveWorkflowDefinition(userId: string, definition: WorkflowDefinition) {
     try {
-      const { error } = await supabase
-        .from('provider_configurations')
-        .delete()
-        .eq('user_id', userId)
-        .eq('nickname', nickname);
+      const { data, error } = await supabase
+        .from('workflow_definitions')
+        .upsert({
+          user_id: userId,
+          definition,
+          updated_at: new Date().toISOString()
+        }, {
+          onConflict: 'user_id'
+        })
+        .select()
+        .single();
 
       if (error) {
-        console.error('Error deleting provider configuration:', error);
-        return false;
+        console.error('Error saving workflow definition:', error);
+        return null;
       }
 
-      return true;
+      return data;
     } catch (error) {
-      console.error('Error in deleteProviderConfiguration:', error);
-      return false;
+      console.error('Error in saveWorkflowDefinition:', error);
+      return null;
     }
   },
 
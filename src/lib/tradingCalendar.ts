@@ -0,0 +1,259 @@
+/**
+ * NYSE trading calendar
+ *
+ * Mirrors supabase/functions/_shared/tradingCalendar.ts so the market status shown in the
+ * header agrees with what the scheduler and execute-trade decide. All dates are New York
+ * calendar dates (YYYY-MM-DD).
+ */
+
+export interface TradingHours {
+  date: string;
+  open: string;               // Regular session open, HH:MM ET
+  close: string;              // Regular session close, HH:MM ET
+  extendedClose: string;      // End of the after-hours session, HH:MM ET
+  earlyClose: boolean;
+}
+
+export const PRE_MARKET_OPEN = '04:00';
+export const REGULAR_OPEN = '09:30';
+export const REGULAR_CLOSE = '16:00';
+export const EARLY_CLOSE = '13:00';
+const AFTER_HOURS_CLOSE = '20:00';
+const EARLY_AFTER_HOURS_CLOSE = '17:00';
+
+const holidayCache = new Map<number, Map<string, string>>();
+const earlyCloseCache = new Map<number, Set<string>>();
+
+function formatDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+function dayOfWeek(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T12:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * nth weekday (0 = Sunday) of a month; n = -1 is the last one
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n < 0) {
+    const lastDay = formatDate(year, month + 1, 0);
+    return addDays(lastDay, -((dayOfWeek(lastDay) - weekday + 7) % 7));
+  }
+  const firstDay = formatDate(year, month, 1);
+  return addDays(firstDay, (weekday - dayOfWeek(firstDay) + 7) % 7 + (n - 1) * 7);
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return formatDate(year, month, day);
+}
+
+/**
+ * Fixed-date holidays move to Friday when on a Saturday and to Monday when on a Sunday
+ */
+function observed(date: string): string {
+  const weekday = dayOfWeek(date);
+  if (weekday === 6) return addDays(date, -1);
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * Full-day market holidays of a year, by date
+ */
+export function getMarketHolidays(year: number): Map<string, string> {
+  const cached = holidayCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays = new Map<string, string>();
+
+  // New Year's Day on a Saturday is not made up on the Friday before (end of the accounting year)
+  const newYear = formatDate(year, 1, 1);
+  if (dayOfWeek(newYear) !== 6) {
+    holidays.set(observed(newYear), "New Year's Day");
+  }
+  holidays.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  holidays.set(addDays(easterSunday(year), -2), 'Good Friday');
+  holidays.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= 2022) {
+    holidays.set(observed(formatDate(year, 6, 19)), 'Juneteenth');
+  }
+  holidays.set(observed(formatDate(year, 7, 4)), 'Independence Day');
+  holidays.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  holidays.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  holidays.set(observed(formatDate(year, 12, 25)), 'Christmas Day');
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * 1:00 PM closes: July 3, the day after Thanksgiving and Christmas Eve, when they are trading days
+ */
+function getEarlyCloses(year: number): Set<string> {
+  const cached = earlyCloseCache.get(year);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays = getMarketHolidays(year);
+  const candidates = [
+    formatDate(year, 7, 3),
+    addDays(nthWeekday(year, 11, 4, 4), 1),
+    formatDate(year, 12, 24)
+  ];
+  const earlyCloses = new Set(candidates.filter(date => {
+    const weekday = dayOfWeek(date);
+    return weekday !== 0 && weekday !== 6 && !holidays.has(date);
+  }));
+
+  earlyCloseCache.set(year, earlyCloses);
+  return earlyCloses;
+}
+
+/**
+ * Holiday name when the market is closed all day for a holiday, otherwise null
+ */
+export function getMarketHoliday(date: string): string | null {
+  return getMarketHolidays(Number(date.slice(0, 4))).get(date) || null;
+}
+
+export function isTradingDay(date: string): boolean {
+  const weekday = dayOfWeek(date);
+  return weekday !== 0 && weekday !== 6 && !getMarketHoliday(date);
+}
+
+/**
+ * Session times of a trading day, or null when the market is closed that day
+ */
+export function getTradingHours(date: string): TradingHours | null {
+  if (!isTradingDay(date)) {
+    return null;
+  }
+
+  const earlyClose = getEarlyCloses(Number(date.slice(0, 4))).has(date);
+  return {
+    date,
+    open: REGULAR_OPEN,
+    close: earlyClose ? EARLY_CLOSE : REGULAR_CLOSE,
+    extendedClose: earlyClose ? EARLY_AFTER_HOURS_CLOSE : AFTER_HOURS_CLOSE,
+    earlyClose
+  };
+}
+
+/**
+ * First trading day strictly after the given date
+ */
+export function nextTradingDay(date: string): string {
+  let candidate = addDays(date, 1);
+  while (!isTradingDay(candidate)) {
+    candidate = addDays(candidate, 1);
+  }
+  return candidate;
+}
+
+/**
+ * Last trading day strictly before the given date
+ */
+export function previousTradingDay(date: string): string {
+  let candidate = addDays(date, -1);
+  while (!isTradingDay(candidate)) {
+    candidate = addDays(candidate, -1);
+  }
+  return candidate;
+}
+
+export interface MarketStatus {
+  isOpen: boolean;
+  holiday: string | null;     // Holiday name when today is a full-day holiday
+  closesAt: Date | null;      // Today's regular close, while the market is open
+  earlyClose: boolean;
+  nextOpen: Date;
+}
+
+function getNYDate(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: 'America/New_York' });
+}
+
+/**
+ * UTC instant of a New York wall-clock date and time (HH:MM), handling EST/EDT
+ */
+function nyLocalTimeToUtc(date: string, time: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const nyWallClock = new Date(new Date(asUtc).toLocaleString('en-US', { timeZone: 'America/New_York' }));
+  const utcWallClock = new Date(new Date(asUtc).toLocaleString('en-US', { timeZone: 'UTC' }));
+
+  return new Date(asUtc + (utcWallClock.getTime() - nyWallClock.getTime()));
+}
+
+/**
+ * Next regular-session open strictly after `after`
+ */
+export function nextMarketOpen(after: Date = new Date()): Date {
+  const today = getNYDate(after);
+  const todaysOpen = isTradingDay(today) ? nyLocalTimeToUtc(today, REGULAR_OPEN) : null;
+  if (todaysOpen && todaysOpen.getTime() > after.getTime()) {
+    return todaysOpen;
+  }
+  return nyLocalTimeToUtc(nextTradingDay(today), REGULAR_OPEN);
+}
+
+/**
+ * Whether the regular session is open at `now`, when it closes and when it next opens
+ */
+export function getMarketStatus(now: Date = new Date()): MarketStatus {
+  const today = getNYDate(now);
+  const hours = getTradingHours(today);
+  const openAt = hours ? nyLocalTimeToUtc(today, hours.open) : null;
+  const closeAt = hours ? nyLocalTimeToUtc(today, hours.close) : null;
+  const isOpen = !!openAt && !!closeAt && now >= openAt && now < closeAt;
+
+  return {
+    isOpen,
+    holiday: getMarketHoliday(today),
+    closesAt: isOpen ? closeAt : null,
+    earlyClose: hours?.earlyClose ?? false,
+    nextOpen: nextMarketOpen(now)
+  };
+}
+
+/**
+ * A market time in New York, e.g. "Mon 9:30 AM ET"; the weekday is left out when it is today
+ */
+export function formatMarketTime(date: Date, now: Date = new Date()): string {
+  const time = date.toLocaleTimeString('en-US', { timeZone: 'America/New_York', hour: 'numeric', minute: '2-digit' });
+  if (getNYDate(date) === getNYDate(now)) {
+    return `${time} ET`;
+  }
+  const weekday = date.toLocaleDateString('en-US', { timeZone: 'America/New_York', weekday: 'short' });
+  return `${weekday} ${time} ET`;
+}
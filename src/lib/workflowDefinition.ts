@@ -0,0 +1,48 @@
+/**
+ * Workflow definition types, defaults and validation
+ *
+ * Re-exports supabase/functions/_shared/workflowCatalog.ts, which the coordinator
+ * also uses, so the settings editor rejects the same definitions the coordinator would.
+ */
+
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  validateWorkflowDefinition,
+  type WorkflowDefinition,
+  type WorkflowPhase
+} from '../../supabase/functions/_shared/workflowCatalog.ts';
+
+export {
+  AGENT_CATALOG,
+  DEFAULT_WORKFLOW_DEFINITION,
+  PARALLEL_PHASES,
+  REQUIRED_PHASES,
+  WORKFLOW_PHASE_IDS,
+  getAgentDisplayName,
+  getAgentInsightKey,
+  getAgentInstanceRefs,
+  getAgentRef,
+  getAgentRefByDisplayName,
+  getOrderedPhaseIds,
+  getPhaseAgentRefs,
+  parseAgentRef,
+  validateWorkflowDefinition
+} from '../../supabase/functions/_shared/workflowCatalog.ts';
+export type {
+  AgentCatalogEntry,
+  WorkflowDefinition,
+  WorkflowPhaseMode
+} from '../../supabase/functions/_shared/workflowCatalog.ts';
+
+export type WorkflowPhaseDefinition = WorkflowPhase;
+
+/**
+ * Return the definition when it is valid, otherwise the default workflow
+ */
+export function resolveWorkflowDefinition(definition: unknown): WorkflowDefinition {
+  const candidate = definition as WorkflowDefinition | null | undefined;
+  if (candidate && validateWorkflowDefinition(candidate).length === 0) {
+    return candidate;
+  }
+  return DEFAULT_WORKFLOW_DEFINITION;
+}
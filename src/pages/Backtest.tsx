@@ -0,0 +1,29 @@
+import React from 'react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import BacktestRunner from '@/components/BacktestRunner';
+import { History } from 'lucide-react';
+
+export default function Backtest() {
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-6 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <History className="h-8 w-8" />
+            Backtest
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Replay past analysis decisions against the prices that followed them
+          </p>
+        </div>
+
+        <BacktestRunner />
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
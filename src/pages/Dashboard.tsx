@@ -5,6 +5,7 @@ import Footer from "@/components/Footer";
 import PortfolioPositions from "@/components/PortfolioPositions";
 import RecentTrades from "@/components/RecentTrades";
 import PerformanceChart from "@/components/PerformanceChart";
+import PortfolioRiskPanel from "@/components/PortfolioRiskPanel";
 import HorizontalWorkflow from "@/components/workflow";
 import StandaloneWatchlist from "@/components/StandaloneWatchlist";
 import { useAuth } from "@/lib/auth";
@@ -69,12 +70,13 @@ const Dashboard = () => {
       <main className="flex-1 container mx-auto px-6 py-8">
         {/* Main Content */}
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
-          {/* Left Side - Performance and Watchlist */}
+          {/* Left Side - Performance, Risk and Watchlist */}
           <div className="xl:col-span-2 space-y-6">
             <PerformanceChart 
               selectedStock={selectedStock}
               onClearSelection={handleClearSelection}
             />
+            <PortfolioRiskPanel />
             <StandaloneWatchlist 
               onSelectStock={handleSelectStock}
               selectedStock={selectedStock}
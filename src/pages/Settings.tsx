@@ -17,19 +17,32 @@ import {
   AlertCircle,
   TrendingUp,
   Bot,
+  GitBranch,
 } from "lucide-react";
 import { useAuth } from "@/lib/auth";
 import { supabaseHelpers, supabase } from "@/lib/supabase";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import type { ApiSettings } from "@/lib/supabase";
+import { OPENAI_COMPATIBLE_PROVIDER, parseModelList } from "@/lib/aiProviders";
 import { useToast } from "@/hooks/use-toast";
 
 // Import tab components
 import ProvidersTab from "./settings/ProvidersTab";
 import AgentsTab from "./settings/AgentsTab";
 import TradingTab from "./settings/TradingTab";
+import WorkflowTab from "./settings/WorkflowTab";
 import type { AiProvider } from "./settings/types";
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  resolveWorkflowDefinition,
+  validateWorkflowDefinition,
+  type WorkflowDefinition
+} from "@/lib/workflowDefinition";
+import { DEFAULT_INDICATOR_IDS } from "@/lib/indicatorRegistry";
+import type { ResearchSourceSettings } from "@/lib/researchSources";
+import type { ExitRules } from "@/lib/positionGuards";
+import type { RiskLimits } from "@/lib/riskLimits";
 
 // Helper function to validate credentials via edge function
 const validateCredential = async (provider: string, apiKey: string, model?: string, secretKey?: string): Promise<{ valid: boolean; message: string }> => {
@@ -88,7 +101,7 @@ export default function SettingsPage() {
   // Form state
 
   // AI Provider configurations - Default AI is always first, additional providers follow
-  const [aiProviders, setAiProviders] = useState<Array<{ id: string, nickname: string, provider: string, apiKey: string }>>([]);
+  const [aiProviders, setAiProviders] = useState<AiProvider[]>([]);
 
   // Default AI settings
   const [defaultAiModel, setDefaultAiModel] = useState(apiSettings?.ai_model || 'gpt-4');
@@ -115,6 +128,19 @@ export default function SettingsPage() {
   // Historical data time ranges
   const [analysisHistoryDays, setAnalysisHistoryDays] = useState((apiSettings as any)?.analysis_history_days || '1M');
 
+  // Technical indicators given to the market analyst
+  const [marketAnalystIndicators, setMarketAnalystIndicators] = useState<string[]>(
+    apiSettings?.market_analyst_indicators?.length ? apiSettings.market_analyst_indicators : DEFAULT_INDICATOR_IDS
+  );
+  const [marketAnalystIntraday, setMarketAnalystIntraday] = useState(apiSettings?.market_analyst_intraday ?? false);
+
+  // Research sources of the news, social media, fundamentals and macro analysts
+  const [researchSources, setResearchSources] = useState<ResearchSourceSettings>(apiSettings?.research_sources || {});
+  const [researchRssFeeds, setResearchRssFeeds] = useState<string[]>(apiSettings?.research_rss_feeds || []);
+
+  // Days before an earnings report that analyses switch to pre-earnings mode
+  const [earningsWindowDays, setEarningsWindowDays] = useState(apiSettings?.earnings_window_days || 7);
+
   // Max tokens settings for each workflow step
   const [analysisMaxTokens, setAnalysisMaxTokens] = useState(apiSettings?.analysis_max_tokens || 2000);
   const [researchMaxTokens, setResearchMaxTokens] = useState(apiSettings?.research_max_tokens || 3000);
@@ -136,6 +162,10 @@ export default function SettingsPage() {
   const [alpacaLiveSecretKey, setAlpacaLiveSecretKey] = useState(apiSettings?.alpaca_live_secret_key || '');
   const [alpacaPaperTrading, setAlpacaPaperTrading] = useState(apiSettings?.alpaca_paper_trading ?? true);
   const [autoExecuteTrades, setAutoExecuteTrades] = useState(apiSettings?.auto_execute_trades ?? false);
+  const [shadowModeEnabled, setShadowModeEnabled] = useState(apiSettings?.shadow_mode_enabled ?? false);
+  const [positionGuardEnabled, setPositionGuardEnabled] = useState(apiSettings?.position_guard_enabled ?? false);
+  const [positionGuardDefaults, setPositionGuardDefaults] = useState<Partial<ExitRules>>(apiSettings?.position_guard_defaults || {});
+  const [riskLimits, setRiskLimits] = useState<Partial<RiskLimits>>(apiSettings?.risk_limits || {});
   const [userRiskLevel, setUserRiskLevel] = useState(apiSettings?.user_risk_level || 'moderate');
   const [defaultPositionSizeDollars, setDefaultPositionSizeDollars] = useState(apiSettings?.default_position_size_dollars || 1000);
   const [defaultMaxPositionSize, setDefaultMaxPositionSize] = useState(apiSettings?.default_max_position_size || 25);
@@ -143,6 +173,9 @@ export default function SettingsPage() {
   const [targetStockAllocation, setTargetStockAllocation] = useState(apiSettings?.target_stock_allocation || 80);
   const [targetCashAllocation, setTargetCashAllocation] = useState(apiSettings?.target_cash_allocation || 20);
 
+  // Workflow definition state
+  const [workflowDefinition, setWorkflowDefinition] = useState<WorkflowDefinition>(DEFAULT_WORKFLOW_DEFINITION);
+
   // Track if initial load is complete to prevent re-loading
   const [initialLoadComplete, setInitialLoadComplete] = useState(false);
   const [teamSettingsLoaded, setTeamSettingsLoaded] = useState(false);
@@ -172,6 +205,15 @@ export default function SettingsPage() {
     }
   }, [isAuthenticated, user?.id]);
 
+  // Load the saved workflow definition when authenticated
+  useEffect(() => {
+    if (isAuthenticated && user?.id) {
+      supabaseHelpers.getWorkflowDefinition(user.id).then(definition => {
+        setWorkflowDefinition(resolveWorkflowDefinition(definition));
+      });
+    }
+  }, [isAuthenticated, user?.id]);
+
   useEffect(() => {
     // Load settings when apiSettings changes - but only on initial load
     if (apiSettings && !initialLoadComplete) {
@@ -204,6 +246,14 @@ export default function SettingsPage() {
         setAnalysisHistoryDays(historyDays || '1M');
       }
 
+      if (apiSettings.market_analyst_indicators?.length) {
+        setMarketAnalystIndicators(apiSettings.market_analyst_indicators);
+      }
+      setMarketAnalystIntraday(apiSettings.market_analyst_intraday ?? false);
+      setResearchSources(apiSettings.research_sources || {});
+      setResearchRssFeeds(apiSettings.research_rss_feeds || []);
+      setEarningsWindowDays(apiSettings.earnings_window_days || 7);
+
       // Load all other settings once to avoid overwriting user changes
       // Default settings (ai_provider is handled by provider configuration loading)
 
@@ -229,6 +279,10 @@ export default function SettingsPage() {
       // Non-credential settings from apiSettings
       setAlpacaPaperTrading(apiSettings.alpaca_paper_trading ?? true);
       setAutoExecuteTrades(apiSettings.auto_execute_trades ?? false);
+      setShadowModeEnabled(apiSettings.shadow_mode_enabled ?? false);
+      setPositionGuardEnabled(apiSettings.position_guard_enabled ?? false);
+      setPositionGuardDefaults(apiSettings.position_guard_defaults || {});
+      setRiskLimits(apiSettings.risk_limits || {});
       setUserRiskLevel(apiSettings.user_risk_level || 'moderate');
       setDefaultPositionSizeDollars(apiSettings.default_position_size_dollars || 1000);
       setDefaultMaxPositionSize(apiSettings.default_max_position_size || 25);
@@ -273,6 +327,28 @@ export default function SettingsPage() {
 
       console.log('Using user from auth state:', user.id);
 
+      // Workflow definitions live in their own table, not api_settings
+      if (tab === 'workflow') {
+        const workflowErrors = validateWorkflowDefinition(workflowDefinition);
+        if (workflowErrors.length > 0) {
+          setErrors({ save: workflowErrors.join('. ') });
+          return;
+        }
+
+        const result = await supabaseHelpers.saveWorkflowDefinition(user.id, workflowDefinition);
+        if (!result) {
+          throw new Error('Failed to save workflow definition');
+        }
+
+        toast({
+          title: "Success",
+          description: "Workflow saved successfully!",
+          variant: "default",
+        });
+        setErrors({});
+        return;
+      }
+
       let settingsToSave: Partial<ApiSettings> = {};
 
       // Helper function to get provider info
@@ -303,7 +379,12 @@ export default function SettingsPage() {
           if (!provider.provider) {
             newErrors[`provider_${provider.id}`] = 'Provider selection is required';
           }
-          if (!provider.apiKey) {
+          if (provider.provider === OPENAI_COMPATIBLE_PROVIDER) {
+            // Self-hosted servers need a base URL; the API key is optional
+            if (!provider.baseUrl) {
+              newErrors[`provider_${provider.id}`] = 'Base URL is required';
+            }
+          } else if (!provider.apiKey) {
             newErrors[`provider_${provider.id}`] = 'API key is required';
           }
         }
@@ -324,7 +405,8 @@ export default function SettingsPage() {
         // Save each provider
         for (let index = 0; index < aiProviders.length; index++) {
           const provider = aiProviders[index];
-          if (provider.provider && provider.apiKey && provider.nickname) {
+          const isOpenAICompatible = provider.provider === OPENAI_COMPATIBLE_PROVIDER;
+          if (provider.provider && (provider.apiKey || isOpenAICompatible) && provider.nickname) {
             // Let the backend handle validation and masking logic
             // Always save the Default AI provider (ID '1') to api_settings via settings-proxy
             if (provider.id === '1') {
@@ -333,84 +415,42 @@ export default function SettingsPage() {
               if (provider.apiKey) {
                 settingsToSave.ai_api_key = provider.apiKey;
               }
+              if (isOpenAICompatible) {
+                settingsToSave.ai_base_url = provider.baseUrl;
+                settingsToSave.ai_models = parseModelList(provider.models);
+              }
               // Don't save nickname for default AI provider (no column in database)
               settingsToSave.ai_model = defaultAiModel === 'custom' ? defaultCustomModel : (defaultAiModel || getModelOptions(provider.provider)[0]);
             } else {
-              // Save additional providers via settings-proxy for masking support
-              try {
-                const { data: saveData, error: saveError } = await supabase.functions.invoke('settings-proxy', {
-                  body: {
-                    action: 'save_provider_configuration',
-                    provider: {
-                      id: provider.id !== '1' ? provider.id : undefined, // Don't pass ID for new providers
-                      nickname: provider.nickname,
-                      provider: provider.provider,
-                      api_key: provider.apiKey,
-                      is_default: false
-                    }
-                  }
-                });
-
-                if (saveError || !saveData.success) {
-                  console.error('Error saving provider via proxy:', saveError);
-                  // Fallback to direct save
-                  const saved = await supabaseHelpers.saveProviderConfiguration(user.id, {
+              // Additional providers are saved through settings-proxy, which encrypts the key in the vault
+              const { data: saveData, error: saveError } = await supabase.functions.invoke('settings-proxy', {
+                body: {
+                  action: 'save_provider_configuration',
+                  provider: {
+                    id: provider.id !== '1' ? provider.id : undefined, // Don't pass ID for new providers
                     nickname: provider.nickname,
                     provider: provider.provider,
                     api_key: provider.apiKey,
+                    base_url: isOpenAICompatible ? provider.baseUrl : null,
+                    models: isOpenAICompatible ? parseModelList(provider.models) : null,
                     is_default: false
-                  });
-
-                  if (!saved) {
-                    settingsToSave[`${provider.provider}_api_key`] = provider.apiKey;
-                    console.warn(`Note: Nickname "${provider.nickname}" for ${provider.provider} cannot be saved without the provider_configurations table`);
                   }
-                } else {
-                  // Update local provider state with masked API key
-                  setAiProviders(prev => prev.map(p =>
-                    p.id === provider.id ? { ...p, apiKey: saveData.configuration.api_key } : p
-                  ));
-                }
-              } catch (saveError) {
-                console.error('Error saving provider configuration via proxy:', saveError);
-                // Fallback to direct save
-                const saved = await supabaseHelpers.saveProviderConfiguration(user.id, {
-                  nickname: provider.nickname,
-                  provider: provider.provider,
-                  api_key: provider.apiKey,
-                  is_default: false
-                });
-
-                if (!saved) {
-                  settingsToSave[`${provider.provider}_api_key`] = provider.apiKey;
-                  console.warn(`Note: Nickname "${provider.nickname}" for ${provider.provider} cannot be saved without the provider_configurations table`);
                 }
+              });
+
+              if (saveError) throw saveError;
+              if (!saveData?.success) {
+                throw new Error(saveData?.error || `Failed to save provider "${provider.nickname}"`);
               }
-            }
-          }
-        }
 
-        // Check if we need to show migration warning
-        let needsMigration = false;
-        for (const provider of aiProviders) {
-          if (provider.id !== '1' && provider.apiKey) {
-            // Check if this provider was saved successfully
-            const saved = await supabaseHelpers.getProviderConfigurations(user.id);
-            if (saved.length === 0) {
-              needsMigration = true;
-              break;
+              // Update local provider state with masked API key
+              setAiProviders(prev => prev.map(p =>
+                p.id === provider.id ? { ...p, apiKey: saveData.configuration.api_key } : p
+              ));
             }
           }
         }
 
-        if (needsMigration) {
-          console.warn('Database migration required for full provider functionality');
-          setErrors({
-            ...errors,
-            migration: 'Note: Additional providers saved with limited functionality. To enable custom nicknames and multiple providers of the same type, run: npx supabase db push --project-ref lnvjsqyvhczgxvygbqer'
-          });
-        }
-
         // Use settings-proxy to save provider credentials with masking
         try {
           const { data, error } = await supabase.functions.invoke('settings-proxy', {
@@ -537,6 +577,8 @@ export default function SettingsPage() {
           return teamModel || null;
         };
 
+        const rssFeeds = researchRssFeeds.map(feed => feed.trim()).filter(Boolean);
+
         settingsToSave = {
           research_debate_rounds: researchDebateRounds,
           analysis_team_ai: analysisProvider.provider,
@@ -560,6 +602,11 @@ export default function SettingsPage() {
           // Analysis customization
           analysis_optimization: analysisOptimization,
           analysis_history_days: analysisHistoryDays, // Separate time range for analysis agents
+          market_analyst_indicators: marketAnalystIndicators.length > 0 ? marketAnalystIndicators : null,
+          market_analyst_intraday: marketAnalystIntraday,
+          research_sources: Object.keys(researchSources).length > 0 ? researchSources : null,
+          research_rss_feeds: rssFeeds.length > 0 ? rssFeeds : null,
+          earnings_window_days: earningsWindowDays,
           // Max tokens for each workflow step
           analysis_max_tokens: analysisMaxTokens,
           research_max_tokens: researchMaxTokens,
@@ -651,6 +698,11 @@ export default function SettingsPage() {
           alpaca_live_secret_key: alpacaLiveSecretKey,
           alpaca_paper_trading: alpacaPaperTrading,
           auto_execute_trades: autoExecuteTrades,
+          // Shadow mode mirrors live orders to paper, so it has no meaning in paper mode
+          shadow_mode_enabled: shadowModeEnabled && !alpacaPaperTrading,
+          position_guard_enabled: positionGuardEnabled,
+          position_guard_defaults: Object.keys(positionGuardDefaults).length > 0 ? positionGuardDefaults : null,
+          risk_limits: Object.keys(riskLimits).length > 0 ? riskLimits : null,
           user_risk_level: userRiskLevel,
           default_position_size_dollars: defaultPositionSizeDollars,
           default_max_position_size: defaultMaxPositionSize,
@@ -780,7 +832,7 @@ export default function SettingsPage() {
     setShowKeys(prev => ({ ...prev, [key]: !prev[key] }));
   };
 
-  const getModelOptions = (provider: string) => {
+  const getModelOptions = (provider: string, models?: string) => {
     switch (provider) {
       case 'openai':
         return ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo', 'gpt-4o', 'gpt-4o-mini', 'custom'];
@@ -806,6 +858,9 @@ export default function SettingsPage() {
           'deepseek/deepseek-chat',
           'custom'
         ];
+      case OPENAI_COMPATIBLE_PROVIDER:
+        // Self-hosted servers offer whatever models the user listed for them
+        return [...parseModelList(models), 'custom'];
       default:
         return ['custom'];
     }
@@ -814,7 +869,8 @@ export default function SettingsPage() {
   const getConfiguredProviders = () => {
     // Return all configured providers (Default AI is always first)
     return aiProviders
-      .filter(p => p.apiKey && p.apiKey.trim() !== '' && p.nickname && p.nickname.trim() !== '')
+      .filter(p => ((p.apiKey && p.apiKey.trim() !== '') || (p.provider === OPENAI_COMPATIBLE_PROVIDER && p.baseUrl)) &&
+        p.nickname && p.nickname.trim() !== '')
       .map(p => ({ id: p.id, nickname: p.nickname, provider: p.provider }));
   };
 
@@ -826,7 +882,7 @@ export default function SettingsPage() {
     setAiProviders([...aiProviders, { id: newId, nickname: defaultNickname, provider: 'openrouter', apiKey: '' }]);
   };
 
-  const updateAiProvider = (id: string, field: 'nickname' | 'provider' | 'apiKey', value: string) => {
+  const updateAiProvider = (id: string, field: 'nickname' | 'provider' | 'apiKey' | 'baseUrl' | 'models', value: string) => {
     setAiProviders(aiProviders.map(p =>
       p.id === id ? { ...p, [field]: value } : p
     ));
@@ -908,7 +964,9 @@ export default function SettingsPage() {
           id: '1',
           nickname: 'Default AI', // Fixed nickname for default provider
           provider: maskedSettings?.ai_provider || apiSettings?.ai_provider || 'openrouter',
-          apiKey: maskedSettings?.ai_api_key || ''
+          apiKey: maskedSettings?.ai_api_key || '',
+          baseUrl: maskedSettings?.ai_base_url || '',
+          models: (maskedSettings?.ai_models || []).join(', ')
         });
       } else {
         // Empty default provider
@@ -924,7 +982,7 @@ export default function SettingsPage() {
       if (maskedSettings?.ai_model) {
         const savedDefaultModel = maskedSettings.ai_model;
         const providerType = maskedSettings.ai_provider || 'openrouter';
-        const availableModels = getModelOptions(providerType);
+        const availableModels = getModelOptions(providerType, (maskedSettings.ai_models || []).join(', '));
 
         console.log('Loading default model from masked settings:', {
           savedModel: savedDefaultModel,
@@ -969,7 +1027,9 @@ export default function SettingsPage() {
               id: config.id,
               nickname: config.nickname,
               provider: config.provider,
-              apiKey: config.api_key // Already masked by settings-proxy
+              apiKey: config.api_key, // Already masked by settings-proxy
+              baseUrl: config.base_url || '',
+              models: (config.models || []).join(', ')
             });
           });
       }
@@ -1328,7 +1388,7 @@ export default function SettingsPage() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 lg:w-[525px] lg:mx-auto">
+          <TabsList className="grid w-full grid-cols-4 lg:w-[700px] lg:mx-auto">
             <TabsTrigger value="providers" className="flex items-center gap-2">
               <Key className="h-4 w-4" />
               Providers
@@ -1337,6 +1397,10 @@ export default function SettingsPage() {
               <Bot className="h-4 w-4" />
               Agent Config
             </TabsTrigger>
+            <TabsTrigger value="workflow" className="flex items-center gap-2">
+              <GitBranch className="h-4 w-4" />
+              Workflow
+            </TabsTrigger>
             <TabsTrigger value="trading" className="flex items-center gap-2">
               <TrendingUp className="h-4 w-4" />
               Trading
@@ -1394,6 +1458,11 @@ export default function SettingsPage() {
               portfolioManagerCustomModel={portfolioManagerCustomModel}
               analysisOptimization={analysisOptimization}
               analysisHistoryDays={analysisHistoryDays}
+              marketAnalystIndicators={marketAnalystIndicators}
+              marketAnalystIntraday={marketAnalystIntraday}
+              researchSources={researchSources}
+              researchRssFeeds={researchRssFeeds}
+              earningsWindowDays={earningsWindowDays}
               analysisMaxTokens={analysisMaxTokens}
               researchMaxTokens={researchMaxTokens}
               tradingMaxTokens={tradingMaxTokens}
@@ -1421,6 +1490,11 @@ export default function SettingsPage() {
               setPortfolioManagerCustomModel={setPortfolioManagerCustomModel}
               setAnalysisOptimization={setAnalysisOptimization}
               setAnalysisHistoryDays={setAnalysisHistoryDays}
+              setMarketAnalystIndicators={setMarketAnalystIndicators}
+              setMarketAnalystIntraday={setMarketAnalystIntraday}
+              setResearchSources={setResearchSources}
+              setResearchRssFeeds={setResearchRssFeeds}
+              setEarningsWindowDays={setEarningsWindowDays}
               setAnalysisMaxTokens={setAnalysisMaxTokens}
               setResearchMaxTokens={setResearchMaxTokens}
               setTradingMaxTokens={setTradingMaxTokens}
@@ -1434,6 +1508,13 @@ export default function SettingsPage() {
             />
           </TabsContent>
 
+          <TabsContent value="workflow" className="space-y-6">
+            <WorkflowTab
+              workflowDefinition={workflowDefinition}
+              setWorkflowDefinition={setWorkflowDefinition}
+              handleSaveTab={handleSaveTab}
+            />
+          </TabsContent>
 
           <TabsContent value="trading" className="space-y-6">
             <TradingTab
@@ -1443,6 +1524,10 @@ export default function SettingsPage() {
               alpacaLiveSecretKey={alpacaLiveSecretKey}
               alpacaPaperTrading={alpacaPaperTrading}
               autoExecuteTrades={autoExecuteTrades}
+              shadowModeEnabled={shadowModeEnabled}
+              positionGuardEnabled={positionGuardEnabled}
+              positionGuardDefaults={positionGuardDefaults}
+              riskLimits={riskLimits}
               userRiskLevel={userRiskLevel}
               defaultPositionSizeDollars={defaultPositionSizeDollars}
               defaultMaxPositionSize={defaultMaxPositionSize}
@@ -1459,6 +1544,10 @@ export default function SettingsPage() {
               setAlpacaLiveSecretKey={setAlpacaLiveSecretKey}
               setAlpacaPaperTrading={setAlpacaPaperTrading}
               setAutoExecuteTrades={setAutoExecuteTrades}
+              setShadowModeEnabled={setShadowModeEnabled}
+              setPositionGuardEnabled={setPositionGuardEnabled}
+              setPositionGuardDefaults={setPositionGuardDefaults}
+              setRiskLimits={setRiskLimits}
               setUserRiskLevel={setUserRiskLevel}
               setDefaultPositionSizeDollars={setDefaultPositionSizeDollars}
               setDefaultMaxPositionSize={setDefaultMaxPositionSize}
@@ -2,9 +2,13 @@ import React from 'react';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import TradeHistoryTable from '@/components/TradeHistoryTable';
+import ShadowComparison from '@/components/ShadowComparison';
 import { TrendingUp } from 'lucide-react';
+import { useAuth } from '@/lib/auth';
 
 export default function TradeHistory() {
+  const { apiSettings } = useAuth();
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Header />
@@ -20,6 +24,7 @@ export default function TradeHistory() {
           </p>
         </div>
         
+        {apiSettings?.shadow_mode_enabled && <ShadowComparison />}
         <TradeHistoryTable />
       </main>
       
@@ -0,0 +1,29 @@
+import React from 'react';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import UsageDashboard from '@/components/UsageDashboard';
+import { Coins } from 'lucide-react';
+
+export default function Usage() {
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-6 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Coins className="h-8 w-8" />
+            AI Usage
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Tokens and estimated cost of every AI call made by your agents
+          </p>
+        </div>
+
+        <UsageDashboard />
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
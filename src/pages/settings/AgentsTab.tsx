@@ -11,6 +11,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Bot,
   Save,
@@ -18,8 +21,24 @@ import {
   Check,
   Info,
   Lock,
+  ArrowUp,
+  ArrowDown,
 } from "lucide-react";
 import type { AgentsTabProps } from "./types";
+import {
+  DEFAULT_INDICATOR_IDS,
+  INDICATORS,
+  INDICATOR_CATEGORY_LABELS,
+  type IndicatorCategory
+} from "@/lib/indicatorRegistry";
+import {
+  RESEARCH_FOCUS_LABELS,
+  RESEARCH_SOURCES,
+  getResearchSourcePreference,
+  type ResearchFocus,
+  type ResearchSourceId,
+  type ResearchSourcePreference
+} from "@/lib/researchSources";
 
 export default function AgentsTab({
   aiProviders,
@@ -41,6 +60,11 @@ export default function AgentsTab({
   portfolioManagerCustomModel,
   analysisOptimization,
   analysisHistoryDays,
+  marketAnalystIndicators,
+  marketAnalystIntraday,
+  researchSources,
+  researchRssFeeds,
+  earningsWindowDays,
   analysisMaxTokens,
   researchMaxTokens,
   tradingMaxTokens,
@@ -68,6 +92,11 @@ export default function AgentsTab({
   setPortfolioManagerCustomModel,
   setAnalysisOptimization,
   setAnalysisHistoryDays,
+  setMarketAnalystIndicators,
+  setMarketAnalystIntraday,
+  setResearchSources,
+  setResearchRssFeeds,
+  setEarningsWindowDays,
   setAnalysisMaxTokens,
   setResearchMaxTokens,
   setTradingMaxTokens,
@@ -81,6 +110,36 @@ export default function AgentsTab({
 }: AgentsTabProps) {
   const defaultProviderId = aiProviders.length > 0 ? aiProviders[0].id : '1';
 
+  // Self-hosted providers list their own models, so look them up from the provider config
+  const getTeamModelOptions = (providerId: string) => {
+    const provider = aiProviders.find(p => p.id === providerId);
+    return getModelOptions(provider?.provider || 'openai', provider?.models);
+  };
+
+  const toggleIndicator = (id: string, checked: boolean) => {
+    setMarketAnalystIndicators(checked
+      ? INDICATORS.map(indicator => indicator.id).filter(indicatorId => indicatorId === id || marketAnalystIndicators.includes(indicatorId))
+      : marketAnalystIndicators.filter(indicatorId => indicatorId !== id));
+  };
+
+  const updateResearchSources = (focus: ResearchFocus, update: Partial<ResearchSourcePreference>) => {
+    setResearchSources({
+      ...researchSources,
+      [focus]: { ...getResearchSourcePreference(researchSources, focus), ...update }
+    });
+  };
+
+  const toggleResearchSource = (focus: ResearchFocus, id: ResearchSourceId, enabled: boolean) => {
+    const { priority } = getResearchSourcePreference(researchSources, focus);
+    updateResearchSources(focus, { priority: enabled ? [...priority, id] : priority.filter(sourceId => sourceId !== id) });
+  };
+
+  const moveResearchSource = (focus: ResearchFocus, index: number, direction: -1 | 1) => {
+    const priority = [...getResearchSourcePreference(researchSources, focus).priority];
+    [priority[index], priority[index + direction]] = [priority[index + direction], priority[index]];
+    updateResearchSources(focus, { priority });
+  };
+
   // Debug logging
   console.log('AgentsTab received props:', {
     analysisOptimization,
@@ -166,7 +225,7 @@ export default function AgentsTab({
                       <SelectValue placeholder="Select model" />
                     </SelectTrigger>
                     <SelectContent>
-                      {getModelOptions(aiProviders.find(p => p.id === analysisTeamProviderId)?.provider || 'openai').map(model => (
+                      {getTeamModelOptions(analysisTeamProviderId).map(model => (
                         <SelectItem key={model} value={model}>
                           {model === 'custom' ? 'Custom (enter manually)' : model}
                         </SelectItem>
@@ -253,6 +312,165 @@ export default function AgentsTab({
               Maximum response tokens for analysis agents (500-8000)
             </p>
           </div>
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Market Analyst Indicators</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setMarketAnalystIndicators(DEFAULT_INDICATOR_IDS)}
+                disabled={!hasAgentConfigAccess}
+              >
+                Reset to defaults
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              {(Object.keys(INDICATOR_CATEGORY_LABELS) as IndicatorCategory[]).map(category => (
+                <div key={category} className="space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground">{INDICATOR_CATEGORY_LABELS[category]}</p>
+                  {INDICATORS.filter(indicator => indicator.category === category).map(indicator => (
+                    <div key={indicator.id} className="flex items-center gap-2" title={indicator.description}>
+                      <Checkbox
+                        id={`indicator-${indicator.id}`}
+                        checked={marketAnalystIndicators.includes(indicator.id)}
+                        onCheckedChange={(checked) => toggleIndicator(indicator.id, checked === true)}
+                        disabled={!hasAgentConfigAccess}
+                      />
+                      <Label htmlFor={`indicator-${indicator.id}`} className="text-sm font-normal">
+                        {indicator.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Indicators the market analyst calculates and analyzes; indicators needing more history than the selected range are skipped
+            </p>
+            {marketAnalystIndicators.length === 0 && (
+              <p className="text-sm text-yellow-600">No indicators selected - the default set will be used</p>
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="market-analyst-intraday">Intraday Mode</Label>
+              <p className="text-xs text-muted-foreground">
+                Add 5-minute, 15-minute and hourly bars and summarize where the timeframes agree (e.g. daily trend up, hourly overbought)
+              </p>
+            </div>
+            <Switch
+              id="market-analyst-intraday"
+              checked={marketAnalystIntraday}
+              onCheckedChange={setMarketAnalystIntraday}
+              disabled={!hasAgentConfigAccess}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Earnings Window</Label>
+            <div className="flex items-center space-x-4 py-3 min-h-[40px]">
+              <Slider
+                value={[earningsWindowDays]}
+                onValueChange={(value) => setEarningsWindowDays(value[0])}
+                min={1}
+                max={30}
+                step={1}
+                className="flex-1"
+                disabled={!hasAgentConfigAccess}
+              />
+              <span className="w-16 text-center font-medium">{earningsWindowDays} days</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Within this many days of an earnings report, analyses focus on the implied move, past post-earnings drift and guidance expectations, and the watchlist flags the ticker. For a few days after a report they compare results with consensus and read the call instead
+            </p>
+          </div>
+        </div>
+
+        {/* Research Sources */}
+        <div className={`space-y-4 p-4 border rounded-lg bg-card ${!hasAgentConfigAccess ? 'opacity-50' : ''}`}>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            Research Sources
+            {!hasAgentConfigAccess && <Lock className="h-4 w-4 text-muted-foreground" />}
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Sources each analyst searches, in priority order. With fallback on, the next source is tried when one is not configured, fails or finds nothing.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(Object.keys(RESEARCH_FOCUS_LABELS) as ResearchFocus[]).map(focus => {
+              const preference = getResearchSourcePreference(researchSources, focus);
+              const unused = RESEARCH_SOURCES.filter(source =>
+                source.focusModes.includes(focus) && !preference.priority.includes(source.id));
+
+              return (
+                <div key={focus} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>{RESEARCH_FOCUS_LABELS[focus]}</Label>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`research-fallback-${focus}`} className="text-xs text-muted-foreground">Fallback</Label>
+                      <Switch
+                        id={`research-fallback-${focus}`}
+                        checked={preference.fallback}
+                        onCheckedChange={(checked) => updateResearchSources(focus, { fallback: checked })}
+                        disabled={!hasAgentConfigAccess}
+                      />
+                    </div>
+                  </div>
+                  {preference.priority.map((id, index) => {
+                    const source = RESEARCH_SOURCES.find(s => s.id === id);
+                    return (
+                      <div key={id} className="flex items-center gap-3 p-2 rounded-md bg-muted/30" title={source?.description}>
+                        <Checkbox
+                          checked
+                          disabled={!hasAgentConfigAccess || preference.priority.length === 1}
+                          onCheckedChange={() => toggleResearchSource(focus, id, false)}
+                        />
+                        <span className="flex-1 text-sm">{index + 1}. {source?.name || id}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={!hasAgentConfigAccess || index === 0}
+                          onClick={() => moveResearchSource(focus, index, -1)}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={!hasAgentConfigAccess || index === preference.priority.length - 1}
+                          onClick={() => moveResearchSource(focus, index, 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  {unused.map(source => (
+                    <div key={source.id} className="flex items-center gap-3 p-2 rounded-md" title={source.description}>
+                      <Checkbox
+                        checked={false}
+                        disabled={!hasAgentConfigAccess}
+                        onCheckedChange={() => toggleResearchSource(focus, source.id, true)}
+                      />
+                      <span className="flex-1 text-sm text-muted-foreground">{source.name}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="research-rss-feeds">RSS Feeds</Label>
+            <Textarea
+              id="research-rss-feeds"
+              value={researchRssFeeds.join('\n')}
+              onChange={(e) => setResearchRssFeeds(e.target.value.split('\n'))}
+              placeholder="https://feeds.finance.yahoo.com/rss/2.0/headline?s={ticker}&region=US&lang=en-US"
+              rows={3}
+              disabled={!hasAgentConfigAccess}
+            />
+            <p className="text-xs text-muted-foreground">
+              One feed URL per line; {'{ticker}'} is replaced with the analyzed symbol. Leave empty to use built-in feeds for each analyst.
+            </p>
+          </div>
         </div>
 
         {/* Research Agent */}
@@ -304,7 +522,7 @@ export default function AgentsTab({
                       <SelectValue placeholder="Select model" />
                     </SelectTrigger>
                     <SelectContent>
-                      {getModelOptions(aiProviders.find(p => p.id === researchTeamProviderId)?.provider || 'openai').map(model => (
+                      {getTeamModelOptions(researchTeamProviderId).map(model => (
                         <SelectItem key={model} value={model}>
                           {model === 'custom' ? 'Custom (enter manually)' : model}
                         </SelectItem>
@@ -418,7 +636,7 @@ export default function AgentsTab({
                       <SelectValue placeholder="Select model" />
                     </SelectTrigger>
                     <SelectContent>
-                      {getModelOptions(aiProviders.find(p => p.id === tradingTeamProviderId)?.provider || 'openai').map(model => (
+                      {getTeamModelOptions(tradingTeamProviderId).map(model => (
                         <SelectItem key={model} value={model}>
                           {model === 'custom' ? 'Custom (enter manually)' : model}
                         </SelectItem>
@@ -514,7 +732,7 @@ export default function AgentsTab({
                       <SelectValue placeholder="Select model" />
                     </SelectTrigger>
                     <SelectContent>
-                      {getModelOptions(aiProviders.find(p => p.id === riskTeamProviderId)?.provider || 'openai').map(model => (
+                      {getTeamModelOptions(riskTeamProviderId).map(model => (
                         <SelectItem key={model} value={model}>
                           {model === 'custom' ? 'Custom (enter manually)' : model}
                         </SelectItem>
@@ -613,7 +831,7 @@ export default function AgentsTab({
                       <SelectValue placeholder="Select model" />
                     </SelectTrigger>
                     <SelectContent>
-                      {getModelOptions(aiProviders.find(p => p.id === portfolioManagerProviderId)?.provider || 'openai').map(model => (
+                      {getTeamModelOptions(portfolioManagerProviderId).map(model => (
                         <SelectItem key={model} value={model}>
                           {model === 'custom' ? 'Custom (enter manually)' : model}
                         </SelectItem>
@@ -0,0 +1,307 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Info, Loader2, Pencil, Plus, Trash2, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_BROKER_ACCOUNT,
+  useBrokerAccounts,
+  type BrokerAccount,
+  type BrokerAccountInput,
+} from "@/lib/brokerAccounts";
+
+interface BrokerAccountsSectionProps {
+  canUseLiveTrading?: boolean;
+  canUseAutoTrading?: boolean;
+}
+
+function toInput(account: BrokerAccount): BrokerAccountInput {
+  const { target_cash_allocation: _cash, created_at: _created, updated_at: _updated, ...input } = account;
+  return input;
+}
+
+// Additional Alpaca accounts, saved one at a time through settings-proxy
+export default function BrokerAccountsSection({
+  canUseLiveTrading = true,
+  canUseAutoTrading = true,
+}: BrokerAccountsSectionProps) {
+  const { toast } = useToast();
+  const { accounts, isLoading, loadAccounts, saveAccount, deleteAccount } = useBrokerAccounts();
+  const [draft, setDraft] = useState<BrokerAccountInput | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const updateDraft = (changes: Partial<BrokerAccountInput>) => {
+    setDraft(prev => prev ? { ...prev, ...changes } : prev);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const saved = await saveAccount(draft);
+      toast({ title: "Broker account saved", description: `${saved.name} is ready to use` });
+      setDraft(null);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to save broker account',
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (account: BrokerAccount) => {
+    if (!window.confirm(`Remove ${account.name}? Its pending orders are rejected.`)) return;
+    setDeletingId(account.id);
+    try {
+      await deleteAccount(account.id);
+      toast({ title: "Broker account removed", description: `${account.name} was removed` });
+      if (draft?.id === account.id) setDraft(null);
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : 'Failed to remove broker account',
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg bg-card">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Wallet className="h-4 w-4" />
+          Additional Broker Accounts
+        </h3>
+        {!draft && (
+          <Button variant="outline" size="sm" onClick={() => setDraft({ ...DEFAULT_BROKER_ACCOUNT })}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Account
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 p-2 bg-muted/50 rounded-md">
+        <Info className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+        <p className="text-xs text-muted-foreground">
+          Each account has its own Alpaca keys, risk level, position sizes and allocation targets. Pick the account in the dashboard's account switcher; new analyses and their orders use the selected account. The keys above remain your primary account, which is also the one position guards and rebalancing run on.
+        </p>
+      </div>
+
+      {isLoading && accounts.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading accounts...
+        </div>
+      ) : accounts.length === 0 && !draft ? (
+        <p className="text-sm text-muted-foreground">No additional accounts yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {accounts.map(account => (
+            <div key={account.id} className="flex items-center justify-between rounded-md border p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{account.name}</span>
+                  <Badge variant={account.is_paper ? "secondary" : "destructive"} className="text-xs">
+                    {account.is_paper ? "Paper" : "Live"}
+                  </Badge>
+                  {account.auto_execute_trades && (
+                    <Badge variant="outline" className="text-xs">Auto-execute</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  <span className="capitalize">{account.user_risk_level}</span>
+                  {' · '}${account.default_position_size_dollars.toLocaleString()} per position
+                  {' · '}{account.default_min_position_size}-{account.default_max_position_size}% size
+                  {' · '}{account.target_stock_allocation}% stocks / {account.target_cash_allocation}% cash
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setDraft(toInput(account))}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(account)}
+                  disabled={deletingId === account.id}
+                >
+                  {deletingId === account.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="space-y-4 rounded-md border bg-muted/30 p-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-name">Account Name</Label>
+              <Input
+                id="broker-account-name"
+                placeholder="e.g. Growth IRA"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Trading Mode</Label>
+              <Select
+                value={draft.is_paper ? 'paper' : 'live'}
+                onValueChange={(value) => updateDraft({ is_paper: value === 'paper' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="paper">Paper</SelectItem>
+                  <SelectItem value="live" disabled={!canUseLiveTrading}>Live</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-api-key">API Key</Label>
+              <Input
+                id="broker-account-api-key"
+                type="password"
+                placeholder={draft.id ? "Leave unchanged to keep the current key" : "Enter the account's API key"}
+                value={draft.api_key || ''}
+                onChange={(e) => updateDraft({ api_key: e.target.value })}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-secret-key">Secret Key</Label>
+              <Input
+                id="broker-account-secret-key"
+                type="password"
+                placeholder={draft.id ? "Leave unchanged to keep the current key" : "Enter the account's secret key"}
+                value={draft.secret_key || ''}
+                onChange={(e) => updateDraft({ secret_key: e.target.value })}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Risk Level</Label>
+              <Select
+                value={draft.user_risk_level}
+                onValueChange={(value) => updateDraft({ user_risk_level: value as BrokerAccountInput['user_risk_level'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="conservative">Conservative</SelectItem>
+                  <SelectItem value="moderate">Moderate</SelectItem>
+                  <SelectItem value="aggressive">Aggressive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-position-size">Default Position Size ($)</Label>
+              <Input
+                id="broker-account-position-size"
+                type="number"
+                min="100"
+                step="100"
+                value={draft.default_position_size_dollars}
+                onChange={(e) => updateDraft({ default_position_size_dollars: Number(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-min-size">Min Position Size (%)</Label>
+              <Input
+                id="broker-account-min-size"
+                type="number"
+                min="0"
+                max="100"
+                value={draft.default_min_position_size}
+                onChange={(e) => updateDraft({ default_min_position_size: Number(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="broker-account-max-size">Max Position Size (%)</Label>
+              <Input
+                id="broker-account-max-size"
+                type="number"
+                min="0"
+                max="100"
+                value={draft.default_max_position_size}
+                onChange={(e) => updateDraft({ default_max_position_size: Number(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm flex items-center justify-between">
+              <span>Stock Allocation</span>
+              <span className="font-semibold text-primary">
+                {draft.target_stock_allocation}% stocks / {100 - draft.target_stock_allocation}% cash
+              </span>
+            </Label>
+            <Slider
+              value={[draft.target_stock_allocation]}
+              onValueChange={(value) => updateDraft({ target_stock_allocation: value[0] })}
+              min={0}
+              max={100}
+              step={5}
+              className="w-full"
+            />
+          </div>
+
+          <div className={`flex items-start space-x-3 ${!canUseAutoTrading ? 'opacity-50' : ''}`}>
+            <div className="flex items-center h-5">
+              <input
+                type="checkbox"
+                id="broker-account-auto-execute"
+                checked={draft.auto_execute_trades}
+                onChange={(e) => updateDraft({ auto_execute_trades: e.target.checked })}
+                disabled={!canUseAutoTrading}
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary focus:ring-offset-2 focus:ring-2 focus:ring-offset-background transition-all cursor-pointer disabled:cursor-not-allowed"
+              />
+            </div>
+            <Label htmlFor="broker-account-auto-execute" className="text-sm font-medium cursor-pointer leading-none">
+              Auto-execute trade orders for this account
+            </Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !draft.name.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {draft.id ? 'Update Account' : 'Add Account'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
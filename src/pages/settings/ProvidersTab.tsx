@@ -21,7 +21,55 @@ import {
   Lock,
 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { ProvidersTabProps } from "./types";
+import { OPENAI_COMPATIBLE_PROVIDER } from "@/lib/aiProviders";
+import type { AiProvider, ProvidersTabProps } from "./types";
+
+// Self-hosted OpenAI-compatible servers often run without authentication
+const requiresApiKey = (provider: AiProvider) => provider.provider !== OPENAI_COMPATIBLE_PROVIDER;
+
+function OpenAICompatibleFields({
+  provider,
+  updateAiProvider,
+  disabled = false,
+}: {
+  provider: AiProvider;
+  updateAiProvider: ProvidersTabProps['updateAiProvider'];
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex gap-4 items-start">
+      <div className="flex-1">
+        <Label className="text-xs mb-1">
+          Base URL <span className="text-red-500">*</span>
+        </Label>
+        <Input
+          placeholder="e.g., http://localhost:11434/v1"
+          value={provider.baseUrl || ''}
+          onChange={(e) => updateAiProvider(provider.id, 'baseUrl', e.target.value)}
+          className={!provider.baseUrl ? "border-red-500 font-mono text-sm" : "font-mono text-sm"}
+          disabled={disabled}
+          required
+        />
+        {!provider.baseUrl && (
+          <p className="text-sm text-red-500 mt-1">Base URL is required</p>
+        )}
+      </div>
+      <div className="flex-1">
+        <Label className="text-xs mb-1">Models</Label>
+        <Input
+          placeholder="e.g., llama3.1:8b, qwen2.5:14b"
+          value={provider.models || ''}
+          onChange={(e) => updateAiProvider(provider.id, 'models', e.target.value)}
+          className="font-mono text-sm"
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Comma-separated model ids served at this URL
+        </p>
+      </div>
+    </div>
+  );
+}
 
 export default function ProvidersTab({
   aiProviders,
@@ -94,6 +142,7 @@ export default function ProvidersTab({
                         <SelectItem value="google">Google AI</SelectItem>
                         <SelectItem value="deepseek">DeepSeek</SelectItem>
                         <SelectItem value="openrouter">OpenRouter</SelectItem>
+                        <SelectItem value={OPENAI_COMPATIBLE_PROVIDER}>OpenAI-Compatible (self-hosted)</SelectItem>
                       </SelectContent>
                     </Select>
                     {!provider.provider && (
@@ -101,19 +150,27 @@ export default function ProvidersTab({
                     )}
                   </div>
                 </div>
+                {provider.provider === OPENAI_COMPATIBLE_PROVIDER && (
+                  <OpenAICompatibleFields
+                    provider={provider}
+                    updateAiProvider={updateAiProvider}
+                  />
+                )}
                 <div className="flex gap-4 items-start">
                   <div className="flex-1">
                     <Label className="text-xs mb-1">
-                      API Key <span className="text-red-500">*</span>
+                      API Key {requiresApiKey(provider)
+                        ? <span className="text-red-500">*</span>
+                        : <span className="text-muted-foreground">(optional)</span>}
                     </Label>
                     <div className="relative">
                       <Input
                         type={showKeys[`provider_${provider.id}`] ? "text" : "password"}
-                        placeholder="Enter your default AI provider API key *"
+                        placeholder={requiresApiKey(provider) ? "Enter your default AI provider API key *" : "API key (only if your server requires one)"}
                         value={provider.apiKey}
                         onChange={(e) => updateAiProvider(provider.id, 'apiKey', e.target.value)}
-                        className={errors[`provider_${provider.id}`] || !provider.apiKey ? "border-red-500 font-mono text-sm" : "font-mono text-sm"}
-                        required
+                        className={errors[`provider_${provider.id}`] || (requiresApiKey(provider) && !provider.apiKey) ? "border-red-500 font-mono text-sm" : "font-mono text-sm"}
+                        required={requiresApiKey(provider)}
                       />
                       <Button
                         type="button"
@@ -132,7 +189,7 @@ export default function ProvidersTab({
                     {errors[`provider_${provider.id}`] && (
                       <p className="text-sm text-red-500 mt-1">{errors[`provider_${provider.id}`]}</p>
                     )}
-                    {!errors[`provider_${provider.id}`] && !provider.apiKey && (
+                    {!errors[`provider_${provider.id}`] && requiresApiKey(provider) && !provider.apiKey && (
                       <p className="text-sm text-red-500 mt-1">API key is required</p>
                     )}
                   </div>
@@ -145,7 +202,7 @@ export default function ProvidersTab({
                         <SelectValue placeholder="Select default model" />
                       </SelectTrigger>
                       <SelectContent>
-                        {getModelOptions(provider.provider).map(model => (
+                        {getModelOptions(provider.provider, provider.models).map(model => (
                           <SelectItem key={model} value={model}>
                             {model === 'custom' ? 'Custom (enter manually)' : model}
                           </SelectItem>
@@ -170,9 +227,9 @@ export default function ProvidersTab({
                   <p className="text-xs text-muted-foreground ml-1">
                     This provider will be used by default for all teams unless overridden
                   </p>
-                  {provider.provider && provider.apiKey && (
+                  {provider.provider && (provider.apiKey || !requiresApiKey(provider)) && (
                     <p className="text-xs text-muted-foreground ml-1">
-                      When agents use "Default AI", they will use this provider with the {defaultAiModel === 'custom' ? defaultCustomModel : (defaultAiModel || getModelOptions(provider.provider)[0])} model
+                      When agents use "Default AI", they will use this provider with the {defaultAiModel === 'custom' ? defaultCustomModel : (defaultAiModel || getModelOptions(provider.provider, provider.models)[0])} model
                     </p>
                   )}
                 </div>
@@ -233,6 +290,7 @@ export default function ProvidersTab({
                         <SelectItem value="google">Google AI</SelectItem>
                         <SelectItem value="deepseek">DeepSeek</SelectItem>
                         <SelectItem value="openrouter">OpenRouter</SelectItem>
+                        <SelectItem value={OPENAI_COMPATIBLE_PROVIDER}>OpenAI-Compatible (self-hosted)</SelectItem>
                       </SelectContent>
                     </Select>
                     {!provider.provider && (
@@ -240,20 +298,29 @@ export default function ProvidersTab({
                     )}
                   </div>
                 </div>
+                {provider.provider === OPENAI_COMPATIBLE_PROVIDER && (
+                  <OpenAICompatibleFields
+                    provider={provider}
+                    updateAiProvider={updateAiProvider}
+                    disabled={!hasAdditionalProviderAccess}
+                  />
+                )}
                 <div className="flex gap-4 items-start">
                   <div className="flex-1">
                     <Label className="text-xs mb-1">
-                      API Key <span className="text-red-500">*</span>
+                      API Key {requiresApiKey(provider)
+                        ? <span className="text-red-500">*</span>
+                        : <span className="text-muted-foreground">(optional)</span>}
                     </Label>
                     <div className="relative">
                       <Input
                         type={showKeys[`provider_${provider.id}`] ? "text" : "password"}
-                        placeholder="Enter API key *"
+                        placeholder={requiresApiKey(provider) ? "Enter API key *" : "API key (only if your server requires one)"}
                         value={provider.apiKey}
                         onChange={(e) => updateAiProvider(provider.id, 'apiKey', e.target.value)}
-                        className={errors[`provider_${provider.id}`] || !provider.apiKey ? "border-red-500 font-mono text-sm" : "font-mono text-sm"}
+                        className={errors[`provider_${provider.id}`] || (requiresApiKey(provider) && !provider.apiKey) ? "border-red-500 font-mono text-sm" : "font-mono text-sm"}
                         disabled={!hasAdditionalProviderAccess}
-                        required
+                        required={requiresApiKey(provider)}
                       />
                       <Button
                         type="button"
@@ -273,7 +340,7 @@ export default function ProvidersTab({
                     {errors[`provider_${provider.id}`] && (
                       <p className="text-sm text-red-500 mt-1">{errors[`provider_${provider.id}`]}</p>
                     )}
-                    {!errors[`provider_${provider.id}`] && !provider.apiKey && (
+                    {!errors[`provider_${provider.id}`] && requiresApiKey(provider) && !provider.apiKey && (
                       <p className="text-sm text-red-500 mt-1">API key is required</p>
                     )}
                   </div>
@@ -26,8 +26,30 @@ import {
   Lock,
   Info,
   Percent,
+  ShieldAlert,
 } from "lucide-react";
 import type { TradingTabProps } from "./types";
+import BrokerAccountsSection from "./BrokerAccountsSection";
+import type { ExitRules } from "@/lib/positionGuards";
+import { parseBlacklist, type RiskLimits } from "@/lib/riskLimits";
+
+const GUARD_RULE_FIELDS: { key: keyof ExitRules; label: string; unit: string; step: string }[] = [
+  { key: 'trailingStopPercent', label: 'Trailing Stop', unit: '%', step: '0.5' },
+  { key: 'atrMultiplier', label: 'ATR Stop', unit: 'x ATR', step: '0.5' },
+  { key: 'takeProfitPercent', label: 'Take-Profit', unit: '%', step: '1' },
+  { key: 'timeStopDays', label: 'Time Stop', unit: 'days', step: '1' },
+];
+
+type NumericRiskLimit = Exclude<keyof RiskLimits, 'blacklist'>;
+
+const RISK_LIMIT_FIELDS: { key: NumericRiskLimit; label: string; unit: string; step: string }[] = [
+  { key: 'maxPositionPercent', label: 'Max Single-Name Weight', unit: '%', step: '1' },
+  { key: 'maxSectorPercent', label: 'Max Sector Weight', unit: '%', step: '1' },
+  { key: 'maxDailyLossPercent', label: 'Max Daily Loss', unit: '%', step: '0.5' },
+  { key: 'maxGrossExposurePercent', label: 'Max Gross Exposure', unit: '% of equity', step: '5' },
+  { key: 'maxOrdersPerDay', label: 'Max Orders per Day', unit: 'orders', step: '1' },
+  { key: 'earningsBlackoutDays', label: 'Earnings Blackout', unit: 'days', step: '1' },
+];
 
 export default function TradingTab({
   alpacaPaperApiKey,
@@ -36,6 +58,10 @@ export default function TradingTab({
   alpacaLiveSecretKey,
   alpacaPaperTrading,
   autoExecuteTrades,
+  shadowModeEnabled,
+  positionGuardEnabled,
+  positionGuardDefaults,
+  riskLimits,
   userRiskLevel,
   defaultPositionSizeDollars,
   defaultMaxPositionSize,
@@ -52,6 +78,10 @@ export default function TradingTab({
   setAlpacaLiveSecretKey,
   setAlpacaPaperTrading,
   setAutoExecuteTrades,
+  setShadowModeEnabled,
+  setPositionGuardEnabled,
+  setPositionGuardDefaults,
+  setRiskLimits,
   setUserRiskLevel,
   setDefaultPositionSizeDollars,
   setDefaultMaxPositionSize,
@@ -63,6 +93,31 @@ export default function TradingTab({
   canUseLiveTrading = true,
   canUseAutoTrading = true,
 }: TradingTabProps) {
+  // Blank falls back to the Risk Manager's proposal, 0 turns the rule off (stored as null)
+  const updateGuardDefault = (key: keyof ExitRules, value: string) => {
+    const { [key]: _previous, ...rest } = positionGuardDefaults;
+    if (value === '') {
+      setPositionGuardDefaults(rest);
+      return;
+    }
+    const parsed = key === 'timeStopDays' ? parseInt(value, 10) : parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    setPositionGuardDefaults({ ...rest, [key]: parsed > 0 ? parsed : null });
+  };
+
+  // Blank or 0 turns a risk limit off
+  const updateRiskLimit = (key: NumericRiskLimit, value: string) => {
+    const { [key]: _previous, ...rest } = riskLimits;
+    const parsed = key === 'maxOrdersPerDay' || key === 'earningsBlackoutDays' ? parseInt(value, 10) : parseFloat(value);
+    setRiskLimits(parsed > 0 ? { ...rest, [key]: parsed } : rest);
+  };
+
+  const updateBlacklist = (value: string) => {
+    const { blacklist: _previous, ...rest } = riskLimits;
+    const tickers = parseBlacklist(value);
+    setRiskLimits(tickers.length > 0 ? { ...rest, blacklist: tickers } : rest);
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -252,6 +307,49 @@ export default function TradingTab({
             </div>
           </div>
 
+          {/* Risk Limits */}
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium flex items-center gap-2">
+              Risk Limits
+              <ShieldAlert className="h-3 w-3 text-muted-foreground" />
+            </h4>
+
+            <div className="grid grid-cols-2 gap-3">
+              {RISK_LIMIT_FIELDS.map(({ key, label, unit, step }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`risk-limit-${key}`} className="text-xs">{label} ({unit})</Label>
+                  <Input
+                    id={`risk-limit-${key}`}
+                    type="number"
+                    min="0"
+                    step={step}
+                    placeholder="Off"
+                    value={riskLimits[key] ? String(riskLimits[key]) : ''}
+                    onChange={(e) => updateRiskLimit(key, e.target.value)}
+                    className="h-8"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="risk-limit-blacklist" className="text-xs">Blacklisted Tickers</Label>
+              <Input
+                id="risk-limit-blacklist"
+                placeholder="e.g. TSLA, GME"
+                defaultValue={(riskLimits.blacklist || []).join(', ')}
+                key={(riskLimits.blacklist || []).join(',')}
+                onBlur={(e) => updateBlacklist(e.target.value)}
+                className="h-8"
+              />
+            </div>
+            <div className="flex items-center gap-2 p-2 bg-muted/50 rounded-md">
+              <Info className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+              <p className="text-xs text-muted-foreground">
+                Hard rules checked before any order is created and again before it is sent to Alpaca. Orders that break one are rejected with the reason. Only the order count applies to SELL orders; the earnings blackout only blocks new positions. Leave a field blank to turn it off.
+              </p>
+            </div>
+          </div>
+
           {/* Portfolio Allocation Targets */}
           <div className="space-y-4">
             <h4 className="text-sm font-medium flex items-center gap-2">
@@ -338,6 +436,92 @@ export default function TradingTab({
               </div>
             </div>
           </div>
+
+          {/* Shadow Mode */}
+          <div className="rounded-lg border bg-muted/30 p-4">
+            <div className={`flex items-start space-x-3 ${alpacaPaperTrading ? 'opacity-50' : ''}`}>
+              <div className="flex items-center h-5">
+                <input
+                  type="checkbox"
+                  id="shadow-mode"
+                  checked={shadowModeEnabled && !alpacaPaperTrading}
+                  onChange={(e) => setShadowModeEnabled(e.target.checked)}
+                  disabled={alpacaPaperTrading}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary focus:ring-offset-2 focus:ring-2 focus:ring-offset-background transition-all cursor-pointer disabled:cursor-not-allowed"
+                />
+              </div>
+              <div className="flex-1">
+                <Label htmlFor="shadow-mode" className="text-base font-medium cursor-pointer leading-none">
+                  Shadow Mode
+                </Label>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Every trade order is also executed immediately on your paper account while the live order waits for your approval. Compare both in Trade History.
+                </p>
+                {alpacaPaperTrading ? (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Available when live trading is selected
+                  </p>
+                ) : shadowModeEnabled && (!alpacaPaperApiKey || !alpacaPaperSecretKey) && (
+                  <div className="mt-2 p-2 bg-yellow-50 dark:bg-yellow-900/20 rounded-md">
+                    <p className="text-xs text-yellow-700 dark:text-yellow-400 flex items-center gap-1">
+                      <AlertCircle className="h-3 w-3" />
+                      <span>Add paper trading credentials below for shadow orders</span>
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Position Guardian */}
+          <div className="rounded-lg border bg-muted/30 p-4">
+            <div className="flex items-start space-x-3">
+              <div className="flex items-center h-5">
+                <input
+                  type="checkbox"
+                  id="position-guard"
+                  checked={positionGuardEnabled}
+                  onChange={(e) => setPositionGuardEnabled(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary focus:ring-offset-2 focus:ring-2 focus:ring-offset-background transition-all cursor-pointer"
+                />
+              </div>
+              <div className="flex-1">
+                <Label htmlFor="position-guard" className="text-base font-medium cursor-pointer leading-none">
+                  Position Guardian
+                </Label>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Watch every position opened by a filled BUY and create a SELL order when an exit rule triggers. SELL orders wait for your approval unless auto-execution is on.
+                </p>
+                {positionGuardEnabled && (
+                  <div className="mt-3 space-y-2">
+                    <div className="grid grid-cols-2 gap-3">
+                      {GUARD_RULE_FIELDS.map(({ key, label, unit, step }) => {
+                        const value = positionGuardDefaults[key];
+                        return (
+                          <div key={key} className="space-y-1">
+                            <Label htmlFor={`guard-${key}`} className="text-xs">{label} ({unit})</Label>
+                            <Input
+                              id={`guard-${key}`}
+                              type="number"
+                              min="0"
+                              step={step}
+                              placeholder="Risk Manager"
+                              value={value === undefined ? '' : value === null ? '0' : String(value)}
+                              onChange={(e) => updateGuardDefault(key, e.target.value)}
+                              className="h-8"
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Leave a rule blank to use the Risk Manager's proposal for that analysis, or enter 0 to turn it off. Stops trail the highest price since entry.
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Paper Trading Credentials */}
@@ -515,6 +699,12 @@ export default function TradingTab({
           </div>
         </div>
 
+        {/* Additional Broker Accounts (saved individually) */}
+        <BrokerAccountsSection
+          canUseLiveTrading={canUseLiveTrading}
+          canUseAutoTrading={canUseAutoTrading}
+        />
+
         {/* Save Button for Trading Tab */}
         <div className="flex justify-end pt-4">
           <Button
@@ -0,0 +1,275 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  GitBranch,
+  Save,
+  AlertCircle,
+  ArrowUp,
+  ArrowDown,
+  RotateCcw,
+  Plus,
+} from "lucide-react";
+import {
+  AGENT_CATALOG,
+  DEFAULT_WORKFLOW_DEFINITION,
+  PARALLEL_PHASES,
+  REQUIRED_PHASES,
+  WORKFLOW_PHASE_IDS,
+  getAgentDisplayName,
+  getAgentInstanceRefs,
+  validateWorkflowDefinition,
+  type WorkflowDefinition,
+  type WorkflowPhaseDefinition,
+  type WorkflowPhaseMode,
+} from "@/lib/workflowDefinition";
+import type { WorkflowTabProps } from "./types";
+
+// Phases that are chained through nextPhase (portfolio is routed after risk completes)
+const CHAINED_PHASES = ['analysis', 'research', 'trading', 'risk'];
+
+/**
+ * Re-link nextPhase pointers so enabled phases run in the standard order
+ */
+function relinkPhases(phases: WorkflowDefinition['phases']): WorkflowDefinition['phases'] {
+  const enabled = CHAINED_PHASES.filter(id => phases[id]);
+  const relinked: WorkflowDefinition['phases'] = {};
+
+  for (const phaseId of WORKFLOW_PHASE_IDS) {
+    const phase = phases[phaseId];
+    if (!phase) continue;
+
+    const chainIndex = enabled.indexOf(phaseId);
+    const nextPhase = chainIndex >= 0 ? enabled[chainIndex + 1] : undefined;
+    const { nextPhase: _previous, ...rest } = phase;
+    relinked[phaseId] = nextPhase ? { ...rest, nextPhase } : rest;
+  }
+
+  return relinked;
+}
+
+export default function WorkflowTab({
+  workflowDefinition,
+  setWorkflowDefinition,
+  handleSaveTab,
+}: WorkflowTabProps) {
+  const validationErrors = validateWorkflowDefinition(workflowDefinition);
+
+  const updatePhase = (phaseId: string, changes: Partial<WorkflowPhaseDefinition>) => {
+    setWorkflowDefinition({
+      phases: {
+        ...workflowDefinition.phases,
+        [phaseId]: { ...workflowDefinition.phases[phaseId], ...changes }
+      }
+    });
+  };
+
+  const togglePhase = (phaseId: string, enabled: boolean) => {
+    const phases = { ...workflowDefinition.phases };
+    if (enabled) {
+      phases[phaseId] = { ...DEFAULT_WORKFLOW_DEFINITION.phases[phaseId] };
+    } else {
+      delete phases[phaseId];
+    }
+    setWorkflowDefinition({ phases: relinkPhases(phases) });
+  };
+
+  const addAgent = (phaseId: string, agent: string) => {
+    updatePhase(phaseId, { agents: [...workflowDefinition.phases[phaseId].agents, agent] });
+  };
+
+  const removeAgent = (phaseId: string, index: number) => {
+    updatePhase(phaseId, { agents: workflowDefinition.phases[phaseId].agents.filter((_, i) => i !== index) });
+  };
+
+  const moveAgent = (phaseId: string, index: number, direction: -1 | 1) => {
+    const agents = [...workflowDefinition.phases[phaseId].agents];
+    const target = index + direction;
+    if (target < 0 || target >= agents.length) return;
+    [agents[index], agents[target]] = [agents[target], agents[index]];
+    updatePhase(phaseId, { agents });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Workflow
+        </CardTitle>
+        <CardDescription>
+          Choose which phases and agents run for each analysis and in what order. Sequential phases run their agents one at a time in the listed order; parallel phases (analysis and risk) start them all at once and wait for every one to finish. Traders and risk analysts can be added more than once; each extra instance runs on its own and the Risk Manager weighs all of them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Alert className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Changes apply to new analyses. Analyses already running keep the workflow they were started with.
+          </AlertDescription>
+        </Alert>
+
+        {WORKFLOW_PHASE_IDS.map((phaseId) => {
+          const phase = workflowDefinition.phases[phaseId];
+          const defaultPhase = DEFAULT_WORKFLOW_DEFINITION.phases[phaseId];
+          const isRequired = REQUIRED_PHASES.includes(phaseId);
+          const availableAgents = Object.keys(AGENT_CATALOG).filter(agent =>
+            AGENT_CATALOG[agent].phase === phaseId &&
+            agent !== defaultPhase.finalAgent &&
+            agent !== 'agent-research-manager'
+          );
+          const unusedAgents = availableAgents.filter(agent => !phase?.agents.includes(agent));
+          const repeatableAgents = availableAgents.filter(agent => AGENT_CATALOG[agent].repeatable && phase?.agents.includes(agent));
+          const agentRefs = getAgentInstanceRefs(phase?.agents || []);
+
+          return (
+            <div key={phaseId} className={`space-y-4 p-4 border rounded-lg bg-card ${!phase ? 'opacity-50' : ''}`}>
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">{defaultPhase.name}</h3>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`phase-${phaseId}`} className="text-sm text-muted-foreground">
+                    {isRequired ? 'Required' : 'Enabled'}
+                  </Label>
+                  <Switch
+                    id={`phase-${phaseId}`}
+                    checked={!!phase}
+                    disabled={isRequired}
+                    onCheckedChange={(checked) => togglePhase(phaseId, checked)}
+                  />
+                </div>
+              </div>
+
+              {phase && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Execution Mode</Label>
+                      <Select
+                        value={phase.mode || 'sequential'}
+                        onValueChange={(value) => updatePhase(phaseId, { mode: value as WorkflowPhaseMode })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="sequential">Sequential (one at a time, listed order)</SelectItem>
+                          {PARALLEL_PHASES.includes(phaseId) && (
+                            <SelectItem value="parallel">Parallel (all at once)</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {defaultPhase.finalAgent && (
+                      <div className="space-y-2">
+                        <Label>Final Agent</Label>
+                        <p className="text-sm text-muted-foreground py-2">
+                          {AGENT_CATALOG[defaultPhase.finalAgent].displayName} runs after all agents above complete
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Agents</Label>
+                    {agentRefs.map((agentRef, index) => (
+                      <div key={agentRef} className="flex items-center gap-3 p-2 rounded-md bg-muted/30">
+                        <Checkbox
+                          checked
+                          disabled={phaseId === 'research'}
+                          onCheckedChange={() => removeAgent(phaseId, index)}
+                        />
+                        <span className="flex-1 text-sm">
+                          {getAgentDisplayName(agentRef)}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === 0}
+                          onClick={() => moveAgent(phaseId, index, -1)}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={index === phase.agents.length - 1}
+                          onClick={() => moveAgent(phaseId, index, 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    {unusedAgents.map((agent) => (
+                      <div key={agent} className="flex items-center gap-3 p-2 rounded-md">
+                        <Checkbox
+                          checked={false}
+                          onCheckedChange={() => addAgent(phaseId, agent)}
+                        />
+                        <span className="flex-1 text-sm text-muted-foreground">
+                          {AGENT_CATALOG[agent].displayName}
+                        </span>
+                      </div>
+                    ))}
+                    {repeatableAgents.map((agent) => (
+                      <Button
+                        key={`${agent}-repeat`}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => addAgent(phaseId, agent)}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add another {AGENT_CATALOG[agent].displayName}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+
+        {validationErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {validationErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button
+            variant="outline"
+            size="lg"
+            onClick={() => setWorkflowDefinition(DEFAULT_WORKFLOW_DEFINITION)}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to Default
+          </Button>
+          <Button
+            onClick={() => handleSaveTab('workflow')}
+            size="lg"
+            disabled={validationErrors.length > 0}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Workflow
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
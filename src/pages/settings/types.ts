@@ -1,10 +1,17 @@
 // Shared types and interfaces for Settings components
 
+import type { WorkflowDefinition } from "@/lib/workflowDefinition";
+import type { ResearchSourceSettings } from "@/lib/researchSources";
+import type { ExitRules } from "@/lib/positionGuards";
+import type { RiskLimits } from "@/lib/riskLimits";
+
 export interface AiProvider {
   id: string;
   nickname: string;
   provider: string;
   apiKey: string;
+  baseUrl?: string; // Only for openai-compatible providers
+  models?: string; // Comma-separated model ids served by an openai-compatible provider
 }
 
 export interface ProviderInfo {
@@ -20,14 +27,14 @@ export interface ProvidersTabProps {
   errors: Record<string, string>;
   saved: boolean;
   activeTab: string;
-  updateAiProvider: (id: string, field: 'nickname' | 'provider' | 'apiKey', value: string) => void;
+  updateAiProvider: (id: string, field: 'nickname' | 'provider' | 'apiKey' | 'baseUrl' | 'models', value: string) => void;
   setDefaultAiModel: (model: string) => void;
   setDefaultCustomModel: (model: string) => void;
   toggleShowKey: (key: string) => void;
   addAiProvider: () => void;
   removeAiProvider: (id: string) => void;
   handleSaveTab: (tab: string) => void;
-  getModelOptions: (provider: string) => string[];
+  getModelOptions: (provider: string, models?: string) => string[];
   hasAdditionalProviderAccess?: boolean;
 }
 
@@ -51,6 +58,11 @@ export interface AgentsTabProps {
   portfolioManagerCustomModel: string;
   analysisOptimization: string;
   analysisHistoryDays: string;
+  marketAnalystIndicators: string[];
+  marketAnalystIntraday: boolean;
+  researchSources: ResearchSourceSettings;
+  researchRssFeeds: string[];
+  earningsWindowDays: number;
   analysisMaxTokens: number;
   researchMaxTokens: number;
   tradingMaxTokens: number;
@@ -78,13 +90,18 @@ export interface AgentsTabProps {
   setPortfolioManagerCustomModel: (model: string) => void;
   setAnalysisOptimization: (opt: string) => void;
   setAnalysisHistoryDays: (days: string) => void;
+  setMarketAnalystIndicators: (indicators: string[]) => void;
+  setMarketAnalystIntraday: (enabled: boolean) => void;
+  setResearchSources: (sources: ResearchSourceSettings) => void;
+  setResearchRssFeeds: (feeds: string[]) => void;
+  setEarningsWindowDays: (days: number) => void;
   setAnalysisMaxTokens: (tokens: number) => void;
   setResearchMaxTokens: (tokens: number) => void;
   setTradingMaxTokens: (tokens: number) => void;
   setRiskMaxTokens: (tokens: number) => void;
   setPortfolioManagerMaxTokens: (tokens: number) => void;
   handleSaveTab: (tab: string) => void;
-  getModelOptions: (provider: string) => string[];
+  getModelOptions: (provider: string, models?: string) => string[];
   getConfiguredProviders: () => { id: string; nickname: string; provider: string }[];
   getDefaultModelValue: () => string;
   hasAgentConfigAccess?: boolean;
@@ -98,6 +115,10 @@ export interface TradingTabProps {
   alpacaLiveSecretKey: string;
   alpacaPaperTrading: boolean;
   autoExecuteTrades: boolean;
+  shadowModeEnabled: boolean;
+  positionGuardEnabled: boolean;
+  positionGuardDefaults: Partial<ExitRules>;
+  riskLimits: Partial<RiskLimits>;
   userRiskLevel: string;
   defaultPositionSizeDollars: number;
   defaultMaxPositionSize: number;
@@ -114,6 +135,10 @@ export interface TradingTabProps {
   setAlpacaLiveSecretKey: (key: string) => void;
   setAlpacaPaperTrading: (enabled: boolean) => void;
   setAutoExecuteTrades: (enabled: boolean) => void;
+  setShadowModeEnabled: (enabled: boolean) => void;
+  setPositionGuardEnabled: (enabled: boolean) => void;
+  setPositionGuardDefaults: (defaults: Partial<ExitRules>) => void;
+  setRiskLimits: (limits: Partial<RiskLimits>) => void;
   setUserRiskLevel: (level: string) => void;
   setDefaultPositionSizeDollars: (amount: number) => void;
   setDefaultMaxPositionSize: (amount: number) => void;
@@ -124,4 +149,9 @@ export interface TradingTabProps {
   handleSaveTab: (tab: string) => void;
   canUseLiveTrading?: boolean;
   canUseAutoTrading?: boolean;
-}
\ No newline at end of file
+}
+export interface WorkflowTabProps {
+  workflowDefinition: WorkflowDefinition;
+  setWorkflowDefinition: (definition: WorkflowDefinition) => void;
+  handleSaveTab: (tab: string) => void;
+}
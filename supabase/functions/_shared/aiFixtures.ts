@@ -0,0 +1,106 @@
+/**
+ * Recorded AI responses for offline runs
+ * AI_RESPONDER selects who answers callAIProviderWithRetry, like BROKER_PROVIDER selects the broker:
+ * - 'provider' (default): the user's AI provider
+ * - 'fixtures': the fixture responder at AI_FIXTURES_URL (the fake services of supabase/functions/tests/e2e)
+ * - 'record': the user's provider, with each response sent to the responder to be saved as a new fixture
+ * Responses are keyed by agent and a hash of the system prompt and prompt. AI_FIXTURES_URL on its own
+ * changes nothing, so a leftover variable cannot replace model output in a deployed function.
+ */
+import type { StructuredOutputFormat } from './aiProviders.ts';
+
+export type AIResponder = 'provider' | 'fixtures' | 'record';
+
+export interface AIFixtureRequest {
+  agent: string;                // Slug of the usage context agent, e.g. 'risk-manager'
+  promptHash: string;
+  format: string | null;        // Structured output name, null for prose
+  systemPrompt: string;
+  prompt: string;
+}
+
+export function getAIResponder(): AIResponder {
+  const responder = Deno.env.get('AI_RESPONDER');
+  return responder === 'fixtures' || responder === 'record' ? responder : 'provider';
+}
+
+/**
+ * Base URL of the fixture responder; throws when a fixture responder is selected without one
+ */
+export function getAIFixturesUrl(): string {
+  const url = Deno.env.get('AI_FIXTURES_URL');
+  if (!url) {
+    throw new Error(`AI_RESPONDER=${getAIResponder()} needs AI_FIXTURES_URL`);
+  }
+  return url;
+}
+
+/**
+ * First 16 hex characters of the SHA-256 of the system prompt and prompt
+ */
+export async function hashPrompt(systemPrompt: string, prompt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${systemPrompt}\n\n${prompt}`));
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function buildAIFixtureRequest(
+  agent: string | undefined,
+  prompt: string,
+  systemPrompt?: string,
+  responseFormat?: StructuredOutputFormat
+): Promise<AIFixtureRequest> {
+  const slug = (agent || 'unknown').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  return {
+    agent: slug,
+    promptHash: await hashPrompt(systemPrompt || '', prompt),
+    format: responseFormat?.name || null,
+    systemPrompt: systemPrompt || '',
+    prompt
+  };
+}
+
+/**
+ * Response for a request from the fixture responder; throws when it has none
+ */
+export async function fetchAIFixture(baseUrl: string, request: AIFixtureRequest): Promise<string> {
+  const response = await fetch(baseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`AI fixture error for ${request.agent} (prompt ${request.promptHash}): ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  console.log(`🧪 AI fixture served for ${request.agent} (prompt ${request.promptHash})`);
+  return data.content;
+}
+
+/**
+ * Send a provider response to the fixture responder to be saved
+ * Never throws; a failed recording must not fail the agent.
+ */
+export async function recordAIFixture(baseUrl: string, request: AIFixtureRequest, content: string): Promise<void> {
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/record`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...request, content })
+    });
+
+    if (!response.ok) {
+      console.error(`❌ Failed to record AI fixture for ${request.agent}: ${response.status}`);
+      return;
+    }
+
+    console.log(`📼 Recorded AI fixture for ${request.agent} (prompt ${request.promptHash})`);
+  } catch (error) {
+    console.error(`❌ Failed to record AI fixture for ${request.agent}:`, error);
+  }
+}
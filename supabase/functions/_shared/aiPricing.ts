@@ -0,0 +1,111 @@
+/**
+ * AI model price table used to estimate the cost of each provider call
+ *
+ * Prices are USD per million tokens from the providers' public price lists.
+ * Keep entries in sync when providers change prices or new models are offered in Settings;
+ * models that are not listed are recorded with zero cost and `priced: false`.
+ */
+
+interface ModelPrice {
+  input: number;   // USD per 1M prompt tokens
+  output: number;  // USD per 1M completion tokens
+}
+
+// Keys are model name prefixes, so dated snapshots (e.g. claude-3-5-sonnet-20241022) match their family.
+// The longest matching prefix wins, which keeps gpt-4o-mini from being priced as gpt-4o.
+const MODEL_PRICES: Record<string, Record<string, ModelPrice>> = {
+  openai: {
+    'gpt-5': { input: 1.25, output: 10 },
+    'gpt-5-mini': { input: 0.25, output: 2 },
+    'gpt-5-nano': { input: 0.05, output: 0.4 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o3': { input: 2, output: 8 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'o4-mini': { input: 1.1, output: 4.4 }
+  },
+  anthropic: {
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-haiku-4': { input: 1, output: 5 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 }
+  },
+  google: {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 }
+  },
+  deepseek: {
+    'deepseek-chat': { input: 0.27, output: 1.1 },
+    'deepseek-reasoner': { input: 0.55, output: 2.19 }
+  }
+};
+
+export interface CostEstimate {
+  cost: number;
+  priced: boolean;
+}
+
+function findPrice(provider: string, model: string): ModelPrice | null {
+  const prices = MODEL_PRICES[provider];
+  if (!prices) {
+    return null;
+  }
+
+  const normalized = model.toLowerCase();
+  const match = Object.keys(prices)
+    .filter(prefix => normalized.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? prices[match] : null;
+}
+
+/**
+ * Estimate the USD cost of one call from its token counts
+ */
+export function estimateCost(
+  provider: string,
+  model: string | null | undefined,
+  promptTokens: number,
+  completionTokens: number
+): CostEstimate {
+  // Self-hosted servers have no per-token price
+  if (provider === 'openai-compatible') {
+    return { cost: 0, priced: true };
+  }
+  if (!model) {
+    return { cost: 0, priced: false };
+  }
+
+  let priceProvider = provider;
+  let priceModel = model;
+
+  // OpenRouter model ids carry the upstream vendor, e.g. anthropic/claude-3-opus
+  if (provider === 'openrouter' && model.includes('/')) {
+    const [vendor, ...rest] = model.split('/');
+    priceProvider = vendor;
+    priceModel = rest.join('/');
+  } else if (model.includes('/')) {
+    priceModel = model.split('/').pop() || model;
+  }
+
+  const price = findPrice(priceProvider, priceModel);
+  if (!price) {
+    return { cost: 0, priced: false };
+  }
+
+  const cost = (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  return { cost: Math.round(cost * 1_000_000) / 1_000_000, priced: true };
+}
@@ -2,6 +2,81 @@
  * Shared AI provider utilities for all agents
  */
 
+import { AIUsageContext, recordAIUsage } from './aiUsage.ts';
+import {
+  buildAIFixtureRequest,
+  fetchAIFixture,
+  getAIFixturesUrl,
+  getAIResponder,
+  recordAIFixture
+} from './aiFixtures.ts';
+import type { JsonSchema } from './structuredOutput.ts';
+
+/**
+ * Generic provider for self-hosted servers that speak the OpenAI chat completions API
+ * (Ollama, vLLM, LM Studio). Requests go to the configured base URL and the API key is optional.
+ */
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+
+/**
+ * Build an endpoint URL from an OpenAI-compatible base URL such as http://localhost:11434/v1
+ */
+export function getOpenAICompatibleUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.trim().replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Request provider-native structured output (JSON schema mode, forced tool use or JSON mime type)
+ * The schema is a plain JSON schema; see structuredOutput.ts for the agent contracts.
+ */
+export interface StructuredOutputFormat {
+  name: string;
+  schema: JsonSchema;
+}
+
+/**
+ * Provider, key and model of the api_settings row an agent calls the model with
+ */
+export interface AIProviderSettings {
+  ai_provider?: string | null;
+  ai_api_key?: string | null;
+  ai_model?: string | null;
+  ai_base_url?: string | null;
+}
+
+// OpenAI-style response_format shared by OpenAI, OpenRouter and OpenAI-compatible servers
+function toJsonSchemaResponseFormat(format: StructuredOutputFormat, strict: boolean) {
+  return {
+    type: 'json_schema',
+    json_schema: { name: format.name, schema: format.schema, strict }
+  };
+}
+
+/**
+ * Response text plus the token usage reported by the provider
+ */
+export interface AIProviderResponse {
+  content: string;
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// OpenAI-style usage block shared by OpenAI, OpenRouter, DeepSeek and OpenAI-compatible servers
+interface ChatCompletionUsage {
+  model?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+function fromChatCompletion(result: ChatCompletionUsage, content: string, fallbackModel: string): AIProviderResponse {
+  return {
+    content,
+    model: result.model || fallbackModel,
+    promptTokens: result.usage?.prompt_tokens || 0,
+    completionTokens: result.usage?.completion_tokens || 0
+  };
+}
+
 // Helper function to create an AbortController with timeout
 function createTimeoutController(timeoutMs: number = 100000) {
   const controller = new AbortController();
@@ -9,10 +84,30 @@ function createTimeoutController(timeoutMs: number = 100000) {
   return { controller, timeoutId };
 }
 
-export async function callAIProvider(apiSettings: any, prompt: string, systemPrompt?: string, maxTokens?: number): Promise<string> {
+export async function callAIProvider(
+  apiSettings: AIProviderSettings,
+  prompt: string,
+  systemPrompt?: string,
+  maxTokens?: number,
+  responseFormat?: StructuredOutputFormat
+): Promise<string> {
+  const response = await callAIProviderWithUsage(apiSettings, prompt, systemPrompt, maxTokens, responseFormat);
+  return response.content;
+}
+
+/**
+ * Same as callAIProvider but also returns the model and token counts reported by the provider
+ */
+export async function callAIProviderWithUsage(
+  apiSettings: AIProviderSettings,
+  prompt: string,
+  systemPrompt?: string,
+  maxTokens?: number,
+  responseFormat?: StructuredOutputFormat
+): Promise<AIProviderResponse> {
   try {
-    // Validate API key exists
-    if (!apiSettings.ai_api_key) {
+    // Validate API key exists (self-hosted OpenAI-compatible servers may not need one)
+    if (!apiSettings.ai_api_key && apiSettings.ai_provider !== OPENAI_COMPATIBLE_PROVIDER) {
       throw new Error(`No API key provided for ${apiSettings.ai_provider}`);
     }
 
@@ -21,15 +116,17 @@ export async function callAIProvider(apiSettings: any, prompt: string, systemPro
 
     switch (apiSettings.ai_provider) {
       case 'openai':
-        return await callOpenAI(prompt, apiSettings, systemPrompt, tokens);
+        return await callOpenAI(prompt, apiSettings, systemPrompt, tokens, responseFormat);
       case 'anthropic':
-        return await callAnthropic(prompt, apiSettings, systemPrompt, tokens);
+        return await callAnthropic(prompt, apiSettings, systemPrompt, tokens, responseFormat);
       case 'openrouter':
-        return await callOpenRouter(prompt, apiSettings, systemPrompt, tokens);
+        return await callOpenRouter(prompt, apiSettings, systemPrompt, tokens, responseFormat);
       case 'deepseek':
-        return await callDeepSeek(prompt, apiSettings, systemPrompt, tokens);
+        return await callDeepSeek(prompt, apiSettings, systemPrompt, tokens, responseFormat);
       case 'google':
-        return await callGoogle(prompt, apiSettings, systemPrompt, tokens);
+        return await callGoogle(prompt, apiSettings, systemPrompt, tokens, responseFormat);
+      case OPENAI_COMPATIBLE_PROVIDER:
+        return await callOpenAICompatible(prompt, apiSettings, systemPrompt, tokens, responseFormat);
       default:
         throw new Error(`Unsupported AI provider: ${apiSettings.ai_provider}`);
     }
@@ -47,6 +144,8 @@ export async function callAIProvider(apiSettings: any, prompt: string, systemPro
  * @param maxTokens - Maximum tokens for response
  * @param maxRetries - Maximum number of retry attempts (default 3)
  * @param agentSpecificProvider - Optional agent-specific provider field name (e.g., 'portfolio_manager_ai')
+ * @param responseFormat - Optional JSON schema for provider-native structured output
+ * @param usageContext - Optional user/analysis/agent the call's tokens and cost are recorded against
  * @returns The AI response
  */
 export async function callAIProviderWithRetry(
@@ -55,10 +154,22 @@ export async function callAIProviderWithRetry(
   systemPrompt?: string,
   maxTokens?: number,
   maxRetries: number = 3,
-  agentSpecificProvider?: string
+  agentSpecificProvider?: string,
+  responseFormat?: StructuredOutputFormat,
+  usageContext?: AIUsageContext
 ): Promise<string> {
   let lastError: any = null;
 
+  // Offline runs answer from recorded fixtures or record new ones (see aiFixtures.ts)
+  const responder = getAIResponder();
+  const fixturesUrl = responder === 'provider' ? null : getAIFixturesUrl();
+  const fixtureRequest = fixturesUrl
+    ? await buildAIFixtureRequest(usageContext?.agent, prompt, systemPrompt, responseFormat)
+    : null;
+  if (responder === 'fixtures' && fixturesUrl && fixtureRequest) {
+    return await fetchAIFixture(fixturesUrl, fixtureRequest);
+  }
+
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       console.log(`🔄 AI call attempt ${attempt}/${maxRetries}...`);
@@ -91,11 +202,27 @@ export async function callAIProviderWithRetry(
       }
 
       // Try the API call
-      const response = await callAIProvider(attemptApiSettings, prompt, systemPrompt, maxTokens);
+      const startedAt = Date.now();
+      const response = await callAIProviderWithUsage(attemptApiSettings, prompt, systemPrompt, maxTokens, responseFormat);
 
       // Success - return the response
       console.log(`✅ AI call succeeded on attempt ${attempt}`);
-      return response;
+
+      if (responder === 'record' && fixturesUrl && fixtureRequest) {
+        await recordAIFixture(fixturesUrl, fixtureRequest, response.content);
+      }
+
+      if (usageContext) {
+        await recordAIUsage(usageContext, {
+          provider: attemptApiSettings.ai_provider,
+          model: response.model || attemptApiSettings.ai_model || null,
+          promptTokens: response.promptTokens,
+          completionTokens: response.completionTokens,
+          latencyMs: Date.now() - startedAt
+        });
+      }
+
+      return response.content;
 
     } catch (error) {
       lastError = error;
@@ -114,7 +241,7 @@ export async function callAIProviderWithRetry(
   throw new Error(`AI call failed after ${maxRetries} attempts. Last error: ${lastError?.message || lastError}`);
 }
 
-async function callOpenAI(prompt: string, apiSettings: any, systemPrompt?: string, maxTokens: number = 1200) {
+async function callOpenAI(prompt: string, apiSettings: AIProviderSettings, systemPrompt?: string, maxTokens: number = 1200, responseFormat?: StructuredOutputFormat): Promise<AIProviderResponse> {
   try {
     // Normalize OpenAI model name - remove any prefixes like 'openai/'
     let modelName = apiSettings.ai_model || 'gpt-3.5-turbo';
@@ -139,7 +266,8 @@ async function callOpenAI(prompt: string, apiSettings: any, systemPrompt?: strin
           { role: 'user', content: prompt }
         ],
         temperature: 0.7,
-        max_tokens: maxTokens
+        max_tokens: maxTokens,
+        ...(responseFormat && { response_format: toJsonSchemaResponseFormat(responseFormat, true) })
       })
     });
 
@@ -161,13 +289,13 @@ async function callOpenAI(prompt: string, apiSettings: any, systemPrompt?: strin
       throw new Error('OpenAI returned no message content');
     }
 
-    return result.choices[0].message.content;
+    return fromChatCompletion(result, result.choices[0].message.content, modelName);
   } catch (error: any) {
     throw error;
   }
 }
 
-async function callAnthropic(prompt: string, apiSettings: any, systemPrompt?: string, maxTokens: number = 1200) {
+async function callAnthropic(prompt: string, apiSettings: AIProviderSettings, systemPrompt?: string, maxTokens: number = 1200, responseFormat?: StructuredOutputFormat): Promise<AIProviderResponse> {
   // Normalize Anthropic model name - remove any prefixes
   let modelName = apiSettings.ai_model || 'claude-3-haiku-20240307';
   if (modelName.includes('/')) {
@@ -180,14 +308,19 @@ async function callAnthropic(prompt: string, apiSettings: any, systemPrompt?: st
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': apiSettings.ai_api_key,
+        'x-api-key': apiSettings.ai_api_key ?? '',
         'anthropic-version': '2023-06-01'
       },
       body: JSON.stringify({
         model: modelName,
         messages: [{ role: 'user', content: prompt }],
         system: systemPrompt || 'You are a financial analysis assistant specializing in stock market analysis.',
-        max_tokens: maxTokens
+        max_tokens: maxTokens,
+        // Anthropic has no JSON mode; forcing a tool call makes the model fill the schema as tool input
+        ...(responseFormat && {
+          tools: [{ name: responseFormat.name, description: 'Record the structured result', input_schema: responseFormat.schema }],
+          tool_choice: { type: 'tool', name: responseFormat.name }
+        })
       })
     });
 
@@ -197,13 +330,25 @@ async function callAnthropic(prompt: string, apiSettings: any, systemPrompt?: st
     }
 
     const result = await response.json();
-    return result.content[0].text;
+    const usage = {
+      model: result.model || modelName,
+      promptTokens: result.usage?.input_tokens || 0,
+      completionTokens: result.usage?.output_tokens || 0
+    };
+
+    if (responseFormat) {
+      const toolUse = result.content?.find((block: { type: string }) => block.type === 'tool_use');
+      if (toolUse) {
+        return { content: JSON.stringify(toolUse.input), ...usage };
+      }
+    }
+    return { content: result.content[0].text, ...usage };
   } catch (error: any) {
     throw error;
   }
 }
 
-async function callOpenRouter(prompt: string, apiSettings: any, systemPrompt?: string, maxTokens: number = 1200) {
+async function callOpenRouter(prompt: string, apiSettings: AIProviderSettings, systemPrompt?: string, maxTokens: number = 1200, responseFormat?: StructuredOutputFormat): Promise<AIProviderResponse> {
   // Validate API key
   if (!apiSettings.ai_api_key) {
     throw new Error('OpenRouter API key is missing. Please configure your OpenRouter API key in Settings.');
@@ -234,7 +379,8 @@ async function callOpenRouter(prompt: string, apiSettings: any, systemPrompt?: s
           { role: 'user', content: prompt }
         ],
         temperature: 0.7,
-        max_tokens: maxTokens
+        max_tokens: maxTokens,
+        ...(responseFormat && { response_format: toJsonSchemaResponseFormat(responseFormat, true) })
       }),
       signal: controller.signal
     });
@@ -258,7 +404,7 @@ async function callOpenRouter(prompt: string, apiSettings: any, systemPrompt?: s
       responseText = await response.text();
     } catch (readError) {
       console.error('Failed to read OpenRouter response body:', readError);
-      throw new Error(`Failed to read OpenRouter response: ${readError.message}`);
+      throw new Error(`Failed to read OpenRouter response: ${readError instanceof Error ? readError.message : String(readError)}`);
     }
 
     if (!responseText || responseText.trim() === '') {
@@ -271,7 +417,7 @@ async function callOpenRouter(prompt: string, apiSettings: any, systemPrompt?: s
       result = JSON.parse(responseText);
     } catch (parseError) {
       console.error('Failed to parse OpenRouter response:', responseText.substring(0, 500));
-      throw new Error(`OpenRouter API returned invalid JSON: ${parseError.message}`);
+      throw new Error(`OpenRouter API returned invalid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
     }
 
     // Debug logging for OpenRouter response
@@ -300,13 +446,13 @@ async function callOpenRouter(prompt: string, apiSettings: any, systemPrompt?: s
       throw new Error('OpenRouter returned empty content and reasoning fields');
     }
 
-    return content;
+    return fromChatCompletion(result, content, apiSettings.ai_model || 'anthropic/claude-3-opus');
   } catch (error: any) {
     throw error;
   }
 }
 
-async function callDeepSeek(prompt: string, apiSettings: any, systemPrompt?: string, maxTokens: number = 1200) {
+async function callDeepSeek(prompt: string, apiSettings: AIProviderSettings, systemPrompt?: string, maxTokens: number = 1200, responseFormat?: StructuredOutputFormat): Promise<AIProviderResponse> {
   try {
     // Normalize DeepSeek model name - remove any prefixes like 'deepseek/'
     let modelName = apiSettings.ai_model || 'deepseek-chat';
@@ -333,7 +479,9 @@ async function callDeepSeek(prompt: string, apiSettings: any, systemPrompt?: str
           { role: 'user', content: prompt }
         ],
         temperature: 0.7,
-        max_tokens: maxTokens
+        max_tokens: maxTokens,
+        // DeepSeek only supports JSON object mode, the schema itself travels in the prompt
+        ...(responseFormat && { response_format: { type: 'json_object' } })
       })
     });
 
@@ -355,13 +503,85 @@ async function callDeepSeek(prompt: string, apiSettings: any, systemPrompt?: str
       throw new Error('DeepSeek returned no message content');
     }
 
-    return result.choices[0].message.content;
+    return fromChatCompletion(result, result.choices[0].message.content, modelName);
   } catch (error: any) {
     throw error;
   }
 }
 
-async function callGoogle(prompt: string, apiSettings: any, systemPrompt?: string, maxTokens: number = 1200) {
+async function callOpenAICompatible(prompt: string, apiSettings: AIProviderSettings, systemPrompt?: string, maxTokens: number = 1200, responseFormat?: StructuredOutputFormat): Promise<AIProviderResponse> {
+  if (!apiSettings.ai_base_url) {
+    throw new Error('OpenAI-compatible provider has no base URL. Please configure it in Settings.');
+  }
+
+  // Model names are passed through untouched - local servers often use ids like 'org/model'
+  const modelName = apiSettings.ai_model;
+  if (!modelName) {
+    throw new Error('OpenAI-compatible provider requires a model name');
+  }
+
+  const endpoint = getOpenAICompatibleUrl(apiSettings.ai_base_url, 'chat/completions');
+  console.log(`🔄 Calling OpenAI-compatible server at ${endpoint} with model: ${modelName}`);
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiSettings.ai_api_key) {
+    headers['Authorization'] = `Bearer ${apiSettings.ai_api_key}`;
+  }
+
+  // Self-hosted models are often slower than hosted APIs, so allow more time
+  const { controller, timeoutId } = createTimeoutController(180000);
+
+  try {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: modelName,
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt || 'You are a financial analysis assistant specializing in stock market analysis.'
+          },
+          { role: 'user', content: prompt }
+        ],
+        temperature: 0.7,
+        max_tokens: maxTokens,
+        // vLLM, Ollama and LM Studio accept json_schema; strict mode is not universally supported
+        ...(responseFormat && { response_format: toJsonSchemaResponseFormat(responseFormat, false) })
+      }),
+      signal: controller.signal
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${error}`);
+    }
+
+    const result = await response.json();
+
+    if (!result.choices || result.choices.length === 0) {
+      console.error('OpenAI-compatible response has no choices:', JSON.stringify(result));
+      throw new Error('OpenAI-compatible server returned no choices in response');
+    }
+
+    // Some reasoning models served locally put their answer in a reasoning field
+    const message = result.choices[0].message;
+    const content = message?.content || message?.reasoning || '';
+    if (!content || content.trim() === '') {
+      console.error('OpenAI-compatible response missing message content:', JSON.stringify(result.choices[0]));
+      throw new Error('OpenAI-compatible server returned no message content');
+    }
+
+    return fromChatCompletion(result, content, modelName);
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
+
+async function callGoogle(prompt: string, apiSettings: AIProviderSettings, systemPrompt?: string, maxTokens: number = 1200, responseFormat?: StructuredOutputFormat): Promise<AIProviderResponse> {
   try {
     // Normalize Google model name - remove any prefixes like 'google/'
     let modelName = apiSettings.ai_model || 'gemini-pro';
@@ -388,7 +608,9 @@ async function callGoogle(prompt: string, apiSettings: any, systemPrompt?: strin
         }],
         generationConfig: {
           temperature: 0.7,
-          maxOutputTokens: maxTokens
+          maxOutputTokens: maxTokens,
+          // Gemini's responseSchema is an OpenAPI subset, so only request JSON and keep the schema in the prompt
+          ...(responseFormat && { responseMimeType: 'application/json' })
         }
       })
     });
@@ -399,7 +621,12 @@ async function callGoogle(prompt: string, apiSettings: any, systemPrompt?: strin
     }
 
     const result = await response.json();
-    return result.candidates[0].content.parts[0].text;
+    return {
+      content: result.candidates[0].content.parts[0].text,
+      model: modelName,
+      promptTokens: result.usageMetadata?.promptTokenCount || 0,
+      completionTokens: result.usageMetadata?.candidatesTokenCount || 0
+    };
   } catch (error: any) {
     throw error;
   }
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { estimateCost } from './aiPricing.ts';
+import { getNYCurrentDate } from './timezoneUtils.ts';
+
+/**
+ * Token and cost accounting for AI provider calls
+ * Perplefina research calls report no token usage and are not counted.
+ */
+
+/**
+ * Who an AI call is billed to; passed to callAIProviderWithRetry by each agent
+ */
+export interface AIUsageContext {
+  supabase: SupabaseClient;
+  userId: string;
+  analysisId?: string | null;
+  agent: string;
+}
+
+export interface AIUsage {
+  provider: string;
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+}
+
+export interface AIBudgetStatus {
+  budget: number | null;
+  spent: number;
+  exceeded: boolean;
+}
+
+/**
+ * Record one successful AI call and add it to the user's daily totals
+ * Never throws; accounting must not fail an agent.
+ */
+export async function recordAIUsage(context: AIUsageContext, usage: AIUsage): Promise<void> {
+  const { cost, priced } = estimateCost(usage.provider, usage.model, usage.promptTokens, usage.completionTokens);
+
+  try {
+    const { error } = await context.supabase.rpc('record_ai_usage', {
+      p_user_id: context.userId,
+      p_analysis_id: context.analysisId || null,
+      p_agent: context.agent,
+      p_provider: usage.provider,
+      p_model: usage.model,
+      p_prompt_tokens: usage.promptTokens,
+      p_completion_tokens: usage.completionTokens,
+      p_latency_ms: usage.latencyMs,
+      p_estimated_cost: cost,
+      p_priced: priced
+    });
+
+    if (error) {
+      console.error(`❌ Failed to record AI usage for ${context.agent}:`, error);
+      return;
+    }
+
+    console.log(`💰 ${context.agent}: ${usage.promptTokens}+${usage.completionTokens} tokens, ~$${cost.toFixed(4)}${priced ? '' : ' (unpriced model)'}`);
+  } catch (error) {
+    console.error(`❌ Failed to record AI usage for ${context.agent}:`, error);
+  }
+}
+
+/**
+ * Compare the user's estimated AI spend this New York month with their monthly budget
+ */
+export async function getAIBudgetStatus(supabase: SupabaseClient, userId: string): Promise<AIBudgetStatus> {
+  const { data: settings } = await supabase
+    .from('api_settings')
+    .select('monthly_ai_budget')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const budget = settings?.monthly_ai_budget ?? null;
+  if (budget === null) {
+    return { budget: null, spent: 0, exceeded: false };
+  }
+
+  const monthStart = `${getNYCurrentDate().slice(0, 7)}-01`;
+  const { data: usage, error } = await supabase
+    .from('user_usage')
+    .select('ai_cost')
+    .eq('user_id', userId)
+    .gte('usage_date', monthStart);
+
+  if (error) {
+    // Fail open: a read error should not lock the user out of analyses
+    console.error(`❌ Failed to load AI spend for user ${userId}:`, error);
+    return { budget: Number(budget), spent: 0, exceeded: false };
+  }
+
+  const spent = (usage || []).reduce((sum: number, row: { ai_cost: number | string | null }) => sum + Number(row.ai_cost || 0), 0);
+  return { budget: Number(budget), spent, exceeded: spent >= Number(budget) };
+}
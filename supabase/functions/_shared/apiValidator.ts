@@ -2,6 +2,8 @@
  * Real API validation by making actual test calls to providers
  */
 
+import { OPENAI_COMPATIBLE_PROVIDER, getOpenAICompatibleUrl } from './aiProviders.ts';
+
 // Simple test prompt to validate API connectivity
 const TEST_PROMPT = "Hello";
 const TEST_SYSTEM_PROMPT = "You are a helpful assistant. Respond with just 'OK' to confirm the API is working.";
@@ -13,10 +15,24 @@ export interface ValidationResult {
   error?: string;
 }
 
-export async function validateApiKey(provider: string, apiKey: string, model?: string, secretKey?: string): Promise<ValidationResult> {
+export async function validateApiKey(provider: string, apiKey: string, model?: string, secretKey?: string, baseUrl?: string): Promise<ValidationResult> {
   const startTime = Date.now();
   
   try {
+    // Self-hosted servers have no key format to check - validate by reaching the server instead
+    if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+      if (!baseUrl) {
+        return { valid: false, message: 'OpenAI-compatible provider requires a base URL' };
+      }
+      const models = await testOpenAICompatibleServer(baseUrl, apiKey);
+      return {
+        valid: true,
+        message: `OpenAI-compatible server is reachable${models.length > 0 ? ` (${models.length} models available)` : ''}`,
+        responseTime: Date.now() - startTime
+      };
+    }
+
+
     // Validate basic format first
     const formatResult = validateApiKeyFormat(provider, apiKey);
     if (!formatResult.valid) {
@@ -260,6 +276,37 @@ async function testOpenAICompatible(apiSettings: any): Promise<string> {
   }
 }
 
+// List models on a self-hosted OpenAI-compatible server; this avoids loading a model just to validate
+async function testOpenAICompatibleServer(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+  try {
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(getOpenAICompatibleUrl(baseUrl, 'models'), {
+      method: 'GET',
+      headers,
+      signal: controller.signal
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${OPENAI_COMPATIBLE_PROVIDER} API error: ${response.status} - ${error}`);
+    }
+
+    const result = await response.json();
+    return Array.isArray(result?.data) ? result.data.map((model: { id?: string }) => model.id).filter(Boolean) : [];
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 async function testAnthropic(apiSettings: any): Promise<string> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 10000);
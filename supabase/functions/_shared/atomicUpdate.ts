@@ -1,5 +1,6 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { ANALYSIS_STATUS } from './statusTypes.ts';
+import { getAgentRefByDisplayName, parseAgentRef } from './workflowCatalog.ts';
 
 /**
  * Atomically append a message to the analysis history
@@ -120,6 +121,8 @@ export async function appendAnalysisMessage(
 
 /**
  * Atomically update agent insights
+ * Analysis agents finish concurrently, so the key is set in the database under a row lock
+ * instead of reading, merging and writing back the whole object
  */
 export async function updateAgentInsights(
   supabase: any,
@@ -128,33 +131,17 @@ export async function updateAgentInsights(
   insights: any
 ) {
   try {
-    // Get current insights
-    const { data: current, error: fetchError } = await supabase
-      .from('analysis_history')
-      .select('agent_insights')
-      .eq('id', analysisId)
-      .single();
+    const { data, error } = await supabase.rpc('update_agent_insight', {
+      p_analysis_id: analysisId,
+      p_agent_key: agentKey,
+      p_insight: insights
+    });
 
-    if (fetchError) {
-      throw new Error(`Failed to fetch insights: ${fetchError.message}`);
+    if (error) {
+      throw new Error(`Failed to update insights: ${error.message}`);
     }
-
-    // Update with new insights
-    const updatedInsights = {
-      ...current.agent_insights,
-      [agentKey]: insights
-    };
-
-    const { error: updateError } = await supabase
-      .from('analysis_history')
-      .update({
-        agent_insights: updatedInsights,
-        updated_at: new Date().toISOString() // Explicitly update updated_at
-      })
-      .eq('id', analysisId);
-
-    if (updateError) {
-      throw new Error(`Failed to update insights: ${updateError.message}`);
+    if (data !== true) {
+      throw new Error(`Analysis ${analysisId} not found`);
     }
 
     return { success: true };
@@ -307,6 +294,59 @@ export async function updateWorkflowStepStatus(
   }
 }
 
+/**
+ * Pass the join barrier of a phase whose agents run in parallel
+ * `claimed` is true for exactly one caller, once every listed agent has completed or failed
+ */
+export async function claimPhaseJoin(
+  supabase: SupabaseClient,
+  analysisId: string,
+  phaseId: string,
+  agentNames: string[]
+): Promise<{ success: boolean; claimed: boolean; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('claim_phase_join', {
+      p_analysis_id: analysisId,
+      p_phase_id: phaseId,
+      p_agent_names: agentNames
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim ${phaseId} phase join: ${error.message}`);
+    }
+
+    return { success: true, claimed: data === true };
+  } catch (error) {
+    console.error(`❌ Phase join check failed for ${phaseId}:`, error);
+    return { success: false, claimed: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Clear a claimed phase join so a retried agent can complete the phase again
+ */
+export async function resetPhaseJoin(
+  supabase: SupabaseClient,
+  analysisId: string,
+  phaseId: string
+) {
+  try {
+    const { error } = await supabase.rpc('reset_phase_join', {
+      p_analysis_id: analysisId,
+      p_phase_id: phaseId
+    });
+
+    if (error) {
+      throw new Error(`Failed to reset ${phaseId} phase join: ${error.message}`);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error(`❌ Failed to reset phase join for ${phaseId}:`, error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
 /**
  * Atomically update analysis phase and status
  * NOTE: This is for status updates only - use appendAnalysisMessage for actual content
@@ -761,8 +801,12 @@ export async function setAgentToError(
       
       try {
         // Convert agentName to function name format for coordinator
+        // Repeated agents report as "Trader 2", which the coordinator knows as "agent-trader#2"
         const agentFunctionName = agentName.toLowerCase().replace(/\s+/g, '-');
-        const fullAgentName = agentFunctionName.startsWith('agent-') ? agentFunctionName : `agent-${agentFunctionName}`;
+        const agentRef = getAgentRefByDisplayName(agentName);
+        const fullAgentName = agentRef && parseAgentRef(agentRef).instance > 1
+          ? agentRef
+          : agentFunctionName.startsWith('agent-') ? agentFunctionName : `agent-${agentFunctionName}`;
         
         // Notify coordinator with all required data for potential next agent invocation
         // NOTE: Do NOT send 'action' field - coordinator expects agent callbacks without action
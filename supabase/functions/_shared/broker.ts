@@ -0,0 +1,110 @@
+/**
+ * Broker access for agents, trade execution and the dashboard proxies
+ *
+ * Single import point for the broker interface and its adapters. Code that trades or reads the
+ * account asks createBroker for the user's broker instead of calling a brokerage API directly.
+ * BROKER_PROVIDER selects the adapter: 'alpaca' (default) or 'simulated'. Simulated brokers start with
+ * SIMULATED_BROKER_CASH and fill against the bars served at SIMULATED_BROKER_BARS_URL
+ * ({ [symbol]: BrokerBar[] }), or a synthetic history for symbols without recorded bars.
+ */
+import { AlpacaBroker, type AlpacaCredentials } from './broker/alpaca.ts';
+import { SimulatedBroker } from './broker/simulated.ts';
+import type { Broker, BrokerBar, BrokerProvider } from './broker/types.ts';
+
+export type {
+  BarsRequest,
+  Broker,
+  BrokerAccountSnapshot,
+  BrokerAsset,
+  BrokerAssetClass,
+  BrokerBar,
+  BrokerOrder,
+  BrokerOrderClass,
+  BrokerOrderRequest,
+  BrokerOrderStatus,
+  BrokerOrderType,
+  BrokerPosition,
+  BrokerProvider,
+  BrokerQuote,
+  BrokerRequestError,
+  BrokerSnapshot,
+  BrokerTimeInForce,
+  OrderSide,
+  OrdersQuery
+} from './broker/types.ts';
+export { brokerRequestError } from './broker/types.ts';
+export { AlpacaBroker, alpacaBaseUrl, createAlpacaHeaders } from './broker/alpaca.ts';
+export type { AlpacaCredentials } from './broker/alpaca.ts';
+export { SimulatedBroker, syntheticDailyBars } from './broker/simulated.ts';
+export type { SimulatedBrokerOptions } from './broker/simulated.ts';
+export { buildOrderRequest, orderExecutionFromRow, orderMetadata } from './broker/orders.ts';
+
+/**
+ * The api_settings columns a broker is created from; a broker account is applied on top (applyBrokerAccount)
+ */
+export interface BrokerSettings {
+  user_id?: string | null;
+  broker_account_id?: string | null;
+  alpaca_paper_trading?: boolean | null;
+  alpaca_paper_api_key?: string | null;
+  alpaca_paper_secret_key?: string | null;
+  alpaca_live_api_key?: string | null;
+  alpaca_live_secret_key?: string | null;
+}
+
+// Simulated accounts live for the lifetime of the function instance
+const simulatedBrokers = new Map<string, SimulatedBroker>();
+
+async function fetchRecordedBars(url: string): Promise<Record<string, BrokerBar[]>> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load recorded bars from ${url}: ${response.status}`);
+  }
+  return await response.json();
+}
+
+export function getBrokerProvider(): BrokerProvider {
+  return Deno.env.get('BROKER_PROVIDER') === 'simulated' ? 'simulated' : 'alpaca';
+}
+
+/**
+ * Alpaca keys of the trading mode selected in api_settings (or a broker account applied on top)
+ */
+export function resolveAlpacaCredentials(apiSettings: BrokerSettings): AlpacaCredentials {
+  const paper = apiSettings.alpaca_paper_trading ?? true;
+  const apiKey = paper ? apiSettings.alpaca_paper_api_key : apiSettings.alpaca_live_api_key;
+  const secretKey = paper ? apiSettings.alpaca_paper_secret_key : apiSettings.alpaca_live_secret_key;
+
+  if (!apiKey || !secretKey) {
+    throw new Error(`Alpaca ${paper ? 'paper' : 'live'} credentials not configured`);
+  }
+
+  return { apiKey, secretKey, paper };
+}
+
+/**
+ * Broker for an api_settings-shaped object
+ * Throws when the selected provider needs credentials that are not configured
+ */
+export function createBroker(apiSettings: BrokerSettings): Broker {
+  const paper = apiSettings.alpaca_paper_trading ?? true;
+
+  if (getBrokerProvider() === 'simulated') {
+    const key = [apiSettings.user_id || 'default', apiSettings.broker_account_id || 'primary', paper ? 'paper' : 'live'].join(':');
+    let broker = simulatedBrokers.get(key);
+    if (!broker) {
+      const cash = Number(Deno.env.get('SIMULATED_BROKER_CASH'));
+      const barsUrl = Deno.env.get('SIMULATED_BROKER_BARS_URL');
+      broker = new SimulatedBroker({
+        paper,
+        cash: cash > 0 ? cash : undefined,
+        loadBars: barsUrl ? () => fetchRecordedBars(barsUrl) : undefined
+      });
+      simulatedBrokers.set(key, broker);
+      console.log(`🧪 Simulated ${paper ? 'paper' : 'live'} broker created for ${key}`);
+    }
+    return broker;
+  }
+
+  return new AlpacaBroker(resolveAlpacaCredentials(apiSettings));
+}
@@ -0,0 +1,488 @@
+/**
+ * Alpaca adapter of the Broker interface
+ *
+ * The only place that knows Alpaca's REST paths and field names (qty, unrealized_plpc, ap/bp, ...);
+ * responses are mapped to the broker-neutral types before they leave this module.
+ */
+import {
+  BarsRequest,
+  Broker,
+  BrokerAccountSnapshot,
+  BrokerAsset,
+  BrokerBar,
+  BrokerOrder,
+  BrokerOrderClass,
+  BrokerOrderRequest,
+  BrokerOrderStatus,
+  BrokerOrderType,
+  BrokerPosition,
+  BrokerQuote,
+  BrokerSnapshot,
+  BrokerTimeInForce,
+  OrderSide,
+  OrdersQuery,
+  brokerRequestError
+} from './types.ts';
+
+export interface AlpacaCredentials {
+  apiKey: string;
+  secretKey: string;
+  paper: boolean;
+}
+
+const DATA_URL = 'https://data.alpaca.markets';
+const REQUEST_TIMEOUT_MS = 15000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Alpaca response payloads; numeric fields arrive as strings
+type AlpacaNumeric = string | number | null | undefined;
+
+interface AlpacaAccount {
+  account_number?: string;
+  currency?: string;
+  cash: AlpacaNumeric;
+  buying_power: AlpacaNumeric;
+  portfolio_value: AlpacaNumeric;
+  equity: AlpacaNumeric;
+  last_equity?: AlpacaNumeric;
+  long_market_value: AlpacaNumeric;
+  short_market_value: AlpacaNumeric;
+  daytrade_count?: AlpacaNumeric;
+  pattern_day_trader?: boolean;
+}
+
+interface AlpacaPosition {
+  symbol: string;
+  asset_class: string;
+  side: string;
+  qty: AlpacaNumeric;
+  qty_available?: AlpacaNumeric;
+  avg_entry_price: AlpacaNumeric;
+  current_price: AlpacaNumeric;
+  lastday_price: AlpacaNumeric;
+  market_value: AlpacaNumeric;
+  cost_basis: AlpacaNumeric;
+  unrealized_pl: AlpacaNumeric;
+  unrealized_plpc: AlpacaNumeric;
+  unrealized_intraday_pl: AlpacaNumeric;
+  unrealized_intraday_plpc: AlpacaNumeric;
+  change_today: AlpacaNumeric;
+}
+
+// Market data uses short keys; some endpoints still answer with the long ones
+interface AlpacaQuote {
+  ap?: AlpacaNumeric;
+  ask_price?: AlpacaNumeric;
+  as?: AlpacaNumeric;
+  ask_size?: AlpacaNumeric;
+  bp?: AlpacaNumeric;
+  bid_price?: AlpacaNumeric;
+  bs?: AlpacaNumeric;
+  bid_size?: AlpacaNumeric;
+  t?: string;
+}
+
+interface AlpacaBar {
+  t: string;
+  o: AlpacaNumeric;
+  h: AlpacaNumeric;
+  l: AlpacaNumeric;
+  c: AlpacaNumeric;
+  v: AlpacaNumeric;
+}
+
+interface AlpacaSnapshot {
+  latestQuote?: AlpacaQuote | null;
+  dailyBar?: AlpacaBar | null;
+  prevDailyBar?: AlpacaBar | null;
+}
+
+interface AlpacaOrder {
+  id: string;
+  client_order_id?: string | null;
+  symbol: string;
+  asset_class: string;
+  side: OrderSide;
+  order_type?: BrokerOrderType;
+  type: BrokerOrderType;
+  order_class?: BrokerOrderClass | '';
+  time_in_force: BrokerTimeInForce;
+  status: BrokerOrderStatus;
+  qty: AlpacaNumeric;
+  notional: AlpacaNumeric;
+  filled_qty: AlpacaNumeric;
+  filled_avg_price: AlpacaNumeric;
+  limit_price: AlpacaNumeric;
+  stop_price: AlpacaNumeric;
+  created_at: string;
+  submitted_at?: string | null;
+  filled_at?: string | null;
+}
+
+interface AlpacaOrderBody {
+  symbol: string;
+  side: OrderSide;
+  type: BrokerOrderType;
+  time_in_force: BrokerTimeInForce;
+  client_order_id?: string;
+  qty?: number | null;
+  notional?: number;
+  limit_price?: number;
+  stop_price?: number;
+  order_class?: 'bracket' | 'oto';
+  take_profit?: { limit_price: number };
+  stop_loss?: { stop_price: number };
+}
+
+interface AlpacaAsset {
+  symbol: string;
+  name?: string;
+  class: string;
+  exchange?: string;
+  status: string;
+  tradable?: boolean;
+  fractionable?: boolean;
+}
+
+const toNumber = (value: AlpacaNumeric): number => {
+  const parsed = parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toNumberOrNull = (value: AlpacaNumeric): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export function alpacaBaseUrl(paper: boolean): string {
+  return paper ? 'https://paper-api.alpaca.markets' : 'https://api.alpaca.markets';
+}
+
+export function createAlpacaHeaders(apiKey: string, secretKey: string): HeadersInit {
+  return {
+    'APCA-API-KEY-ID': apiKey,
+    'APCA-API-SECRET-KEY': secretKey,
+    'Content-Type': 'application/json'
+  };
+}
+
+function mapAccount(account: AlpacaAccount): BrokerAccountSnapshot {
+  return {
+    accountNumber: account.account_number || '',
+    currency: account.currency || 'USD',
+    cash: toNumber(account.cash),
+    buyingPower: toNumber(account.buying_power),
+    portfolioValue: toNumber(account.portfolio_value),
+    equity: toNumber(account.equity),
+    lastEquity: toNumber(account.last_equity || account.equity),
+    longMarketValue: toNumber(account.long_market_value),
+    shortMarketValue: toNumber(account.short_market_value),
+    dayTradeCount: Number(account.daytrade_count) || 0,
+    patternDayTrader: Boolean(account.pattern_day_trader)
+  };
+}
+
+function mapPosition(position: AlpacaPosition): BrokerPosition {
+  return {
+    symbol: position.symbol,
+    assetClass: position.asset_class === 'us_option' ? 'option' : 'equity',
+    side: position.side === 'short' ? 'short' : 'long',
+    quantity: toNumber(position.qty),
+    availableQuantity: toNumber(position.qty_available ?? position.qty),
+    avgEntryPrice: toNumber(position.avg_entry_price),
+    currentPrice: toNumber(position.current_price || position.lastday_price),
+    lastdayPrice: toNumber(position.lastday_price),
+    marketValue: toNumber(position.market_value),
+    costBasis: toNumber(position.cost_basis),
+    unrealizedPl: toNumber(position.unrealized_pl),
+    unrealizedPlPercent: toNumber(position.unrealized_plpc) * 100,
+    unrealizedIntradayPl: toNumber(position.unrealized_intraday_pl),
+    unrealizedIntradayPlPercent: toNumber(position.unrealized_intraday_plpc) * 100,
+    changeTodayPercent: toNumber(position.change_today) * 100
+  };
+}
+
+function mapQuote(symbol: string, quote: AlpacaQuote): BrokerQuote {
+  const askPrice = toNumber(quote.ap ?? quote.ask_price);
+  const bidPrice = toNumber(quote.bp ?? quote.bid_price);
+  return {
+    symbol,
+    askPrice,
+    askSize: toNumber(quote.as ?? quote.ask_size),
+    bidPrice,
+    bidSize: toNumber(quote.bs ?? quote.bid_size),
+    price: askPrice && bidPrice ? (askPrice + bidPrice) / 2 : askPrice || bidPrice,
+    timestamp: quote.t || null
+  };
+}
+
+function mapBar(bar: AlpacaBar): BrokerBar {
+  return {
+    timestamp: bar.t,
+    open: toNumber(bar.o),
+    high: toNumber(bar.h),
+    low: toNumber(bar.l),
+    close: toNumber(bar.c),
+    volume: toNumber(bar.v)
+  };
+}
+
+function mapOrder(order: AlpacaOrder): BrokerOrder {
+  return {
+    id: order.id,
+    clientOrderId: order.client_order_id || null,
+    symbol: order.symbol,
+    assetClass: order.asset_class === 'us_option' ? 'option' : 'equity',
+    side: order.side,
+    type: order.order_type || order.type,
+    orderClass: order.order_class || 'simple',
+    timeInForce: order.time_in_force,
+    status: order.status,
+    quantity: toNumberOrNull(order.qty),
+    notional: toNumberOrNull(order.notional),
+    filledQuantity: toNumber(order.filled_qty),
+    filledAvgPrice: toNumberOrNull(order.filled_avg_price),
+    limitPrice: toNumberOrNull(order.limit_price),
+    stopPrice: toNumberOrNull(order.stop_price),
+    createdAt: order.created_at,
+    submittedAt: order.submitted_at || null,
+    filledAt: order.filled_at || null
+  };
+}
+
+/**
+ * Alpaca /v2/orders request body
+ */
+function toAlpacaOrder(request: BrokerOrderRequest): AlpacaOrderBody {
+  const body: AlpacaOrderBody = {
+    symbol: request.symbol,
+    side: request.side,
+    type: request.type,
+    time_in_force: request.timeInForce
+  };
+
+  if (request.clientOrderId) {
+    body.client_order_id = request.clientOrderId;
+  }
+  if (request.notional) {
+    body.notional = request.notional;
+  } else {
+    body.qty = request.quantity;
+  }
+  if (request.limitPrice) {
+    body.limit_price = request.limitPrice;
+  }
+  if (request.stopPrice) {
+    body.stop_price = request.stopPrice;
+  }
+
+  if (request.takeProfitPrice || request.stopLossPrice) {
+    body.order_class = request.takeProfitPrice && request.stopLossPrice ? 'bracket' : 'oto';
+    if (request.takeProfitPrice) {
+      body.take_profit = { limit_price: request.takeProfitPrice };
+    }
+    if (request.stopLossPrice) {
+      body.stop_loss = { stop_price: request.stopLossPrice };
+    }
+  }
+
+  return body;
+}
+
+export class AlpacaBroker implements Broker {
+  readonly provider = 'alpaca' as const;
+  readonly paper: boolean;
+  private readonly baseUrl: string;
+  private readonly headers: HeadersInit;
+
+  constructor(credentials: AlpacaCredentials) {
+    this.paper = credentials.paper;
+    this.baseUrl = alpacaBaseUrl(credentials.paper);
+    this.headers = createAlpacaHeaders(credentials.apiKey, credentials.secretKey);
+  }
+
+  /**
+   * JSON response of an Alpaca endpoint; null for 404 when allowNotFound is set
+   */
+  private async request<T>(
+    url: string,
+    init: RequestInit = {},
+    allowNotFound = false
+  ): Promise<T | null> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers: this.headers, signal: controller.signal });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw brokerRequestError(`Alpaca request timed out after ${REQUEST_TIMEOUT_MS}ms`, 504);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (allowNotFound && response.status === 404) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw brokerRequestError(`Alpaca API error (${response.status}): ${errorText}`, response.status);
+    }
+
+    // Cancels answer 204 without a body
+    const text = await response.text();
+    return text ? JSON.parse(text) : null;
+  }
+
+  async getAccount(): Promise<BrokerAccountSnapshot> {
+    const account = await this.request<AlpacaAccount>(`${this.baseUrl}/v2/account`);
+    return mapAccount(account!);
+  }
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    const positions = await this.request<AlpacaPosition[]>(`${this.baseUrl}/v2/positions`);
+    return (positions || []).map(mapPosition);
+  }
+
+  async getPosition(symbol: string): Promise<BrokerPosition | null> {
+    const position = await this.request<AlpacaPosition>(`${this.baseUrl}/v2/positions/${encodeURIComponent(symbol)}`, {}, true);
+    return position ? mapPosition(position) : null;
+  }
+
+  async getQuote(symbol: string): Promise<BrokerQuote | null> {
+    try {
+      const data = await this.request<{ quote?: AlpacaQuote }>(`${DATA_URL}/v2/stocks/${encodeURIComponent(symbol)}/quotes/latest`);
+      return data?.quote ? mapQuote(symbol, data.quote) : null;
+    } catch (error) {
+      console.error(`Failed to fetch quote for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  async getQuotes(symbols: string[]): Promise<Record<string, BrokerQuote>> {
+    if (symbols.length === 0) return {};
+
+    const data = await this.request<{ quotes?: Record<string, AlpacaQuote> }>(`${DATA_URL}/v2/stocks/quotes/latest?symbols=${symbols.join(',')}`);
+    const quotes: Record<string, BrokerQuote> = {};
+    for (const [symbol, quote] of Object.entries(data?.quotes || {})) {
+      quotes[symbol] = mapQuote(symbol, quote);
+    }
+    return quotes;
+  }
+
+  async getBars(symbol: string, request: BarsRequest = {}): Promise<BrokerBar[]> {
+    const params = new URLSearchParams({
+      timeframe: request.timeframe || '1Day',
+      limit: String(request.limit || 10000),
+      adjustment: request.adjustment || 'raw',
+      feed: 'iex'
+    });
+    if (request.start) {
+      params.set('start', request.start);
+    } else if (request.lookbackDays) {
+      params.set('start', new Date(Date.now() - request.lookbackDays * DAY_MS).toISOString());
+    }
+    if (request.end) params.set('end', request.end);
+
+    const data = await this.request<{ bars?: AlpacaBar[] | null }>(`${DATA_URL}/v2/stocks/${encodeURIComponent(symbol)}/bars?${params}`);
+    return (data?.bars || []).map(mapBar);
+  }
+
+  /**
+   * Snapshot endpoint (its previous daily bar is available on the free tier), falling back to
+   * the last daily bars of the IEX feed
+   */
+  async getSnapshots(symbols: string[]): Promise<Record<string, BrokerSnapshot>> {
+    if (symbols.length === 0) return {};
+    const symbolsParam = symbols.join(',');
+    const snapshots: Record<string, BrokerSnapshot> = {};
+
+    try {
+      const data = await this.request<Record<string, AlpacaSnapshot>>(`${DATA_URL}/v2/stocks/snapshots?symbols=${symbolsParam}`);
+      for (const symbol of symbols) {
+        const snapshot = data?.[symbol];
+        if (!snapshot) continue;
+        snapshots[symbol] = {
+          symbol,
+          quote: snapshot.latestQuote ? mapQuote(symbol, snapshot.latestQuote) : null,
+          dailyBar: snapshot.dailyBar ? mapBar(snapshot.dailyBar) : null,
+          previousDailyBar: snapshot.prevDailyBar ? mapBar(snapshot.prevDailyBar) : null
+        };
+      }
+      return snapshots;
+    } catch (error) {
+      console.error('Snapshot request failed, falling back to IEX daily bars:', error);
+    }
+
+    const endDate = new Date();
+    endDate.setDate(endDate.getDate() - 1);
+    const startDate = new Date(endDate);
+    startDate.setDate(startDate.getDate() - 10);
+    const params = new URLSearchParams({
+      symbols: symbolsParam,
+      timeframe: '1Day',
+      start: startDate.toISOString().split('T')[0],
+      end: endDate.toISOString().split('T')[0],
+      limit: '5',
+      adjustment: 'raw',
+      feed: 'iex'
+    });
+    const data = await this.request<{ bars?: Record<string, AlpacaBar[]> }>(`${DATA_URL}/v2/stocks/bars?${params}`);
+    for (const symbol of symbols) {
+      const bars = data?.bars?.[symbol];
+      if (!bars?.length) continue;
+      snapshots[symbol] = {
+        symbol,
+        quote: null,
+        dailyBar: null,
+        previousDailyBar: mapBar(bars[bars.length - 1])
+      };
+    }
+    return snapshots;
+  }
+
+  async getAsset(symbol: string): Promise<BrokerAsset | null> {
+    const asset = await this.request<AlpacaAsset>(`${this.baseUrl}/v2/assets/${encodeURIComponent(symbol)}`, {}, true);
+    if (!asset) return null;
+
+    return {
+      symbol: asset.symbol,
+      name: asset.name || asset.symbol,
+      assetClass: asset.class === 'us_option' ? 'option' : 'equity',
+      exchange: asset.exchange || '',
+      status: asset.status === 'active' ? 'active' : 'inactive',
+      tradable: Boolean(asset.tradable),
+      fractionable: Boolean(asset.fractionable)
+    };
+  }
+
+  async submitOrder(request: BrokerOrderRequest): Promise<BrokerOrder> {
+    const order = await this.request<AlpacaOrder>(`${this.baseUrl}/v2/orders`, {
+      method: 'POST',
+      body: JSON.stringify(toAlpacaOrder(request))
+    });
+    return mapOrder(order!);
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    await this.request(`${this.baseUrl}/v2/orders/${encodeURIComponent(orderId)}`, { method: 'DELETE' });
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder> {
+    const order = await this.request<AlpacaOrder>(`${this.baseUrl}/v2/orders/${encodeURIComponent(orderId)}`);
+    return mapOrder(order!);
+  }
+
+  async getOrders(query: OrdersQuery = {}): Promise<BrokerOrder[]> {
+    const params = new URLSearchParams({ status: query.status || 'open' });
+    if (query.limit) params.set('limit', String(query.limit));
+
+    const orders = await this.request<AlpacaOrder[]>(`${this.baseUrl}/v2/orders?${params}`);
+    return (orders || []).map(mapOrder);
+  }
+}
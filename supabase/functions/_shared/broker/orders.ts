@@ -0,0 +1,125 @@
+/**
+ * Turning trading_actions rows into broker order requests
+ */
+import type { OrderExecutionParams, OrderType, TimeInForce } from '../tradeOrders.ts';
+import type { Broker, BrokerOrder, BrokerOrderRequest, OrderSide } from './types.ts';
+
+/**
+ * Order columns of a trading_actions row
+ */
+export interface TradeActionOrderRow {
+  ticker: string;
+  action: string;
+  shares?: number | string | null;
+  dollar_amount?: number | null;
+  asset_class?: string | null;
+  option_symbol?: string | null;
+  order_type?: OrderType | null;
+  time_in_force?: TimeInForce | null;
+  limit_price?: number | string | null;
+  stop_price?: number | string | null;
+  take_profit_price?: number | string | null;
+  stop_loss_price?: number | string | null;
+}
+
+/**
+ * Stored order parameters of a trading_actions row, with any user edits applied on top
+ */
+export function orderExecutionFromRow(tradeOrder: Partial<TradeActionOrderRow>, overrides?: Partial<OrderExecutionParams>): OrderExecutionParams {
+  const toPrice = (value: unknown) => value === undefined || value === null || value === '' ? null : Number(value);
+
+  return {
+    orderType: overrides?.orderType || tradeOrder.order_type || 'market',
+    timeInForce: overrides?.timeInForce || tradeOrder.time_in_force || 'day',
+    limitPrice: toPrice(overrides && 'limitPrice' in overrides ? overrides.limitPrice : tradeOrder.limit_price),
+    stopPrice: toPrice(overrides && 'stopPrice' in overrides ? overrides.stopPrice : tradeOrder.stop_price),
+    takeProfitPrice: toPrice(overrides && 'takeProfitPrice' in overrides ? overrides.takeProfitPrice : tradeOrder.take_profit_price),
+    stopLossPrice: toPrice(overrides && 'stopLossPrice' in overrides ? overrides.stopLossPrice : tradeOrder.stop_loss_price)
+  };
+}
+
+/**
+ * Build the order request for a trading_actions row
+ * Returns an error message instead when the row cannot be turned into a valid order
+ */
+export async function buildOrderRequest(
+  tradeOrder: TradeActionOrderRow,
+  execution: OrderExecutionParams,
+  clientOrderId: string,
+  broker: Broker
+): Promise<{ orderRequest?: BrokerOrderRequest; error?: string }> {
+  const isOptionOrder = tradeOrder.asset_class === 'option';
+
+  // Option orders trade the contract, ticker holds the underlying
+  const orderRequest: BrokerOrderRequest = {
+    symbol: isOptionOrder ? tradeOrder.option_symbol || '' : tradeOrder.ticker,
+    assetClass: isOptionOrder ? 'option' : 'equity',
+    side: tradeOrder.action.toLowerCase() as OrderSide,
+    type: execution.orderType,
+    timeInForce: execution.timeInForce,
+    limitPrice: execution.limitPrice,
+    stopPrice: execution.stopPrice,
+    takeProfitPrice: execution.takeProfitPrice,
+    stopLossPrice: execution.stopLossPrice,
+    clientOrderId
+  };
+  const hasLegs = Boolean(execution.takeProfitPrice || execution.stopLossPrice);
+
+  // Set quantity based on order type
+  if (isOptionOrder) {
+    // Contracts trade in whole units only
+    if (!Number.isInteger(Number(tradeOrder.shares)) || Number(tradeOrder.shares) < 1) {
+      return { error: `Invalid option order: ${tradeOrder.shares} contracts` };
+    }
+    orderRequest.quantity = Number(tradeOrder.shares);
+  } else if (tradeOrder.dollar_amount && tradeOrder.dollar_amount > 0) {
+    // Notional (fractional) orders are only accepted as simple day orders
+    if (!hasLegs && execution.timeInForce === 'day') {
+      orderRequest.notional = tradeOrder.dollar_amount;
+    } else {
+      let referencePrice = execution.limitPrice || execution.stopPrice;
+      if (!referencePrice) {
+        const quote = await broker.getQuote(tradeOrder.ticker);
+        referencePrice = quote?.price;
+      }
+      if (!referencePrice) {
+        return { error: `Unable to get a price for ${tradeOrder.ticker} to convert the dollar amount to shares` };
+      }
+
+      const wholeShares = Math.floor(tradeOrder.dollar_amount / referencePrice);
+      if (wholeShares < 1) {
+        return { error: `$${tradeOrder.dollar_amount} is less than one share of ${tradeOrder.ticker}; ${hasLegs ? 'bracket' : execution.timeInForce.toUpperCase()} orders need whole shares` };
+      }
+      orderRequest.quantity = wholeShares;
+      console.log(`📐 Converted $${tradeOrder.dollar_amount} to ${wholeShares} whole shares at $${referencePrice}`);
+    }
+  } else if (tradeOrder.shares && Number(tradeOrder.shares) > 0) {
+    orderRequest.quantity = Number(tradeOrder.shares);
+  } else {
+    return { error: 'Invalid order: no quantity or dollar amount specified' };
+  }
+
+  return { orderRequest };
+}
+
+/**
+ * Order details kept in trading_actions.metadata.alpaca_order
+ * The key predates other brokers and is read by the dashboard, so it stays for every provider
+ */
+export function orderMetadata(order: BrokerOrder) {
+  return {
+    id: order.id,
+    client_order_id: order.clientOrderId,
+    created_at: order.createdAt,
+    submitted_at: order.submittedAt,
+    status: order.status,
+    type: order.type,
+    order_class: order.orderClass,
+    time_in_force: order.timeInForce,
+    limit_price: order.limitPrice,
+    stop_price: order.stopPrice,
+    filled_qty: order.filledQuantity || null,
+    filled_avg_price: order.filledAvgPrice || null,
+    filled_at: order.filledAt
+  };
+}
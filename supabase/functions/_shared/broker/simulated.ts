@@ -0,0 +1,621 @@
+/**
+ * Deterministic in-memory broker for local development and tests
+ *
+ * Prices come from recorded bars per symbol (passed in, or fetched by loadBars on first use); symbols
+ * without recorded bars get a synthetic daily history seeded by the symbol, so the same inputs always
+ * produce the same quotes and fills.
+ * The clock only moves when advanceTo/step is called:
+ * - market orders fill at the current price when submitted;
+ * - limit and stop orders rest until a later bar trades through their price;
+ * - bracket/OTO legs become resting SELL orders once the parent fills, and a filled leg cancels its sibling;
+ * - day orders expire at the first bar of a later day.
+ */
+import {
+  BarsRequest,
+  Broker,
+  BrokerAccountSnapshot,
+  BrokerAsset,
+  BrokerBar,
+  BrokerOrder,
+  BrokerOrderRequest,
+  BrokerPosition,
+  BrokerQuote,
+  BrokerSnapshot,
+  OrdersQuery,
+  brokerRequestError
+} from './types.ts';
+
+export interface SimulatedBrokerOptions {
+  cash?: number;                          // Starting cash, 100,000 by default
+  bars?: Record<string, BrokerBar[]>;     // Recorded bars per symbol
+  loadBars?: () => Promise<Record<string, BrokerBar[]>>;  // More recorded bars, fetched on first use
+  prices?: Record<string, number>;        // Last close of the synthetic history of symbols without bars
+  now?: string;                           // Simulation clock; the latest recorded bar by default
+  paper?: boolean;
+}
+
+interface SimulatedPosition {
+  quantity: number;
+  avgEntryPrice: number;
+}
+
+interface SimulatedOrder extends BrokerOrder {
+  takeProfitPrice: number | null;
+  stopLossPrice: number | null;
+  parentId: string | null;
+  stopTriggered: boolean;
+}
+
+const DEFAULT_CASH = 100000;
+// Clock used when nothing is recorded: after the close of a regular session
+const DEFAULT_CLOCK = '2025-01-02T21:00:00.000Z';
+const SYNTHETIC_HISTORY_DAYS = 260;
+const OPEN_STATUSES = new Set(['new', 'accepted', 'pending_new', 'partially_filled']);
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const dateOf = (timestamp: string) => timestamp.slice(0, 10);
+
+// FNV-1a, used to seed the synthetic history of a symbol
+function hashSymbol(symbol: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < symbol.length; i++) {
+    hash ^= symbol.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Weekday daily bars ending on the clock's date, stamped at midnight New York time like Alpaca's
+ */
+export function syntheticDailyBars(symbol: string, endDate: string, lastClose?: number, days = SYNTHETIC_HISTORY_DAYS): BrokerBar[] {
+  const random = seededRandom(hashSymbol(symbol));
+  const dates: string[] = [];
+  const cursor = new Date(`${endDate.slice(0, 10)}T04:00:00.000Z`);
+  while (dates.length < days) {
+    const weekday = cursor.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) {
+      dates.unshift(cursor.toISOString());
+    }
+    cursor.setUTCDate(cursor.getUTCDate() - 1);
+  }
+
+  let close = 10 + random() * 500;
+  const bars: BrokerBar[] = dates.map(timestamp => {
+    const open = close * (1 + (random() - 0.5) * 0.01);
+    close = open * (1 + (random() - 0.5) * 0.04);
+    return {
+      timestamp,
+      open,
+      high: Math.max(open, close) * (1 + random() * 0.01),
+      low: Math.min(open, close) * (1 - random() * 0.01),
+      close,
+      volume: Math.round(1000000 + random() * 4000000)
+    };
+  });
+
+  const scale = lastClose ? lastClose / bars[bars.length - 1].close : 1;
+  return bars.map(bar => ({
+    ...bar,
+    open: round(bar.open * scale, 2),
+    high: round(bar.high * scale, 2),
+    low: round(bar.low * scale, 2),
+    close: round(bar.close * scale, 2)
+  }));
+}
+
+export class SimulatedBroker implements Broker {
+  readonly provider = 'simulated' as const;
+  readonly paper: boolean;
+  private clock: string;
+  private cash: number;
+  private readonly bars = new Map<string, BrokerBar[]>();
+  private readonly prices: Record<string, number>;
+  private readonly positions = new Map<string, SimulatedPosition>();
+  private readonly orders: SimulatedOrder[] = [];
+  private orderSequence = 0;
+  private readonly clockPinned: boolean;
+  private clockFromBars: boolean;
+  private readonly loadBars: (() => Promise<Record<string, BrokerBar[]>>) | null;
+  private loading: Promise<void> | null = null;
+
+  constructor(options: SimulatedBrokerOptions = {}) {
+    this.paper = options.paper ?? true;
+    this.cash = options.cash ?? DEFAULT_CASH;
+    this.prices = { ...(options.prices || {}) };
+    this.clockPinned = Boolean(options.now);
+    this.loadBars = options.loadBars || null;
+
+    const latest = this.addBars(options.bars || {});
+    this.clock = new Date(options.now || latest || DEFAULT_CLOCK).toISOString();
+    this.clockFromBars = !this.clockPinned && Boolean(latest);
+  }
+
+  /**
+   * Store recorded bars; returns the latest timestamp among them
+   */
+  private addBars(barsBySymbol: Record<string, BrokerBar[]>): string | null {
+    let latest: string | null = null;
+    for (const [symbol, bars] of Object.entries(barsBySymbol)) {
+      // Timestamps are compared as ISO strings, so they are normalized first
+      const sorted = bars
+        .map(bar => ({ ...bar, timestamp: new Date(bar.timestamp).toISOString() }))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+      this.bars.set(symbol.toUpperCase(), sorted);
+      const last = sorted[sorted.length - 1]?.timestamp;
+      if (last && (!latest || last > latest)) latest = last;
+    }
+    return latest;
+  }
+
+  /**
+   * Wait for the bars of loadBars; a failed load is retried by the next call
+   * Until then now/advanceTo/step only see the bars passed to the constructor.
+   */
+  private ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadBars
+        ? this.loadBars().then(bars => {
+          const latest = this.addBars(bars);
+          // Like the constructor, an unpinned clock starts at the latest recorded bar
+          if (!this.clockPinned && latest && (!this.clockFromBars || latest > this.clock)) {
+            this.clock = latest;
+            this.clockFromBars = true;
+          }
+        }, error => {
+          this.loading = null;
+          throw error;
+        })
+        : Promise.resolve();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Current simulation time (ISO)
+   */
+  now(): string {
+    return this.clock;
+  }
+
+  /**
+   * Move the clock forward, filling and expiring resting orders bar by bar
+   */
+  advanceTo(time: string): void {
+    const target = new Date(time).toISOString();
+    if (target <= this.clock) return;
+
+    const pending: Array<{ symbol: string; bar: BrokerBar }> = [];
+    for (const [symbol, bars] of this.bars) {
+      for (const bar of bars) {
+        if (bar.timestamp > this.clock && bar.timestamp <= target) {
+          pending.push({ symbol, bar });
+        }
+      }
+    }
+    pending.sort((a, b) => a.bar.timestamp.localeCompare(b.bar.timestamp) || a.symbol.localeCompare(b.symbol));
+
+    for (const { symbol, bar } of pending) {
+      this.clock = bar.timestamp;
+      this.processBar(symbol, bar);
+    }
+    this.clock = target;
+  }
+
+  /**
+   * Advance to the next recorded bar of any symbol; false when none is left
+   */
+  step(): boolean {
+    let next: string | null = null;
+    for (const bars of this.bars.values()) {
+      const bar = bars.find(candidate => candidate.timestamp > this.clock);
+      if (bar && (!next || bar.timestamp < next)) next = bar.timestamp;
+    }
+    if (!next) return false;
+    this.advanceTo(next);
+    return true;
+  }
+
+  private barsOf(symbol: string): BrokerBar[] {
+    const key = symbol.toUpperCase();
+    let bars = this.bars.get(key);
+    if (!bars) {
+      bars = syntheticDailyBars(key, this.clock, this.prices[key]);
+      this.bars.set(key, bars);
+    }
+    return bars;
+  }
+
+  private visibleBars(symbol: string): BrokerBar[] {
+    return this.barsOf(symbol).filter(bar => bar.timestamp <= this.clock);
+  }
+
+  private currentBar(symbol: string): BrokerBar | null {
+    const visible = this.visibleBars(symbol);
+    return visible[visible.length - 1] || null;
+  }
+
+  private previousDailyBar(symbol: string): BrokerBar | null {
+    const visible = this.visibleBars(symbol);
+    const current = visible[visible.length - 1];
+    if (!current) return null;
+    for (let i = visible.length - 2; i >= 0; i--) {
+      if (dateOf(visible[i].timestamp) < dateOf(current.timestamp)) return visible[i];
+    }
+    return null;
+  }
+
+  private priceOf(symbol: string): number {
+    const current = this.currentBar(symbol);
+    return current ? current.close : this.barsOf(symbol)[0]?.open || 0;
+  }
+
+  private lastdayPriceOf(symbol: string): number {
+    return this.previousDailyBar(symbol)?.close ?? this.priceOf(symbol);
+  }
+
+  private openOrders(): SimulatedOrder[] {
+    return this.orders.filter(order => OPEN_STATUSES.has(order.status));
+  }
+
+  // Cash held by open BUYs and shares held by open SELLs
+  private reservedCash(): number {
+    return this.openOrders()
+      .filter(order => order.side === 'buy')
+      .reduce((sum, order) => sum + (order.quantity || 0) * (order.limitPrice || order.stopPrice || this.priceOf(order.symbol)), 0);
+  }
+
+  private reservedShares(symbol: string): number {
+    return this.openOrders()
+      .filter(order => order.side === 'sell' && order.symbol === symbol && !order.parentId)
+      .reduce((sum, order) => sum + (order.quantity || 0), 0);
+  }
+
+  private toBrokerPosition(symbol: string, position: SimulatedPosition): BrokerPosition {
+    const currentPrice = this.priceOf(symbol);
+    const lastdayPrice = this.lastdayPriceOf(symbol);
+    const marketValue = position.quantity * currentPrice;
+    const costBasis = position.quantity * position.avgEntryPrice;
+    const intradayBase = position.quantity * lastdayPrice;
+
+    return {
+      symbol,
+      assetClass: 'equity',
+      side: 'long',
+      quantity: position.quantity,
+      availableQuantity: round(position.quantity - this.reservedShares(symbol), 6),
+      avgEntryPrice: position.avgEntryPrice,
+      currentPrice,
+      lastdayPrice,
+      marketValue: round(marketValue, 2),
+      costBasis: round(costBasis, 2),
+      unrealizedPl: round(marketValue - costBasis, 2),
+      unrealizedPlPercent: costBasis > 0 ? round(((marketValue - costBasis) / costBasis) * 100, 4) : 0,
+      unrealizedIntradayPl: round(marketValue - intradayBase, 2),
+      unrealizedIntradayPlPercent: intradayBase > 0 ? round(((marketValue - intradayBase) / intradayBase) * 100, 4) : 0,
+      changeTodayPercent: lastdayPrice > 0 ? round(((currentPrice - lastdayPrice) / lastdayPrice) * 100, 4) : 0
+    };
+  }
+
+  async getAccount(): Promise<BrokerAccountSnapshot> {
+    await this.ready();
+    let longMarketValue = 0;
+    let lastdayValue = 0;
+    for (const [symbol, position] of this.positions) {
+      longMarketValue += position.quantity * this.priceOf(symbol);
+      lastdayValue += position.quantity * this.lastdayPriceOf(symbol);
+    }
+    const equity = round(this.cash + longMarketValue, 2);
+
+    return {
+      accountNumber: 'SIMULATED',
+      currency: 'USD',
+      cash: round(this.cash, 2),
+      buyingPower: round(Math.max(0, this.cash - this.reservedCash()), 2),
+      portfolioValue: equity,
+      equity,
+      lastEquity: round(this.cash + lastdayValue, 2),
+      longMarketValue: round(longMarketValue, 2),
+      shortMarketValue: 0,
+      dayTradeCount: 0,
+      patternDayTrader: false
+    };
+  }
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    await this.ready();
+    return Array.from(this.positions.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([symbol, position]) => this.toBrokerPosition(symbol, position));
+  }
+
+  async getPosition(symbol: string): Promise<BrokerPosition | null> {
+    await this.ready();
+    const key = symbol.toUpperCase();
+    const position = this.positions.get(key);
+    return position ? this.toBrokerPosition(key, position) : null;
+  }
+
+  async getQuote(symbol: string): Promise<BrokerQuote | null> {
+    await this.ready();
+    const key = symbol.toUpperCase();
+    const price = this.priceOf(key);
+    if (!price) return null;
+    return { symbol: key, bidPrice: price, bidSize: 100, askPrice: price, askSize: 100, price, timestamp: this.clock };
+  }
+
+  async getQuotes(symbols: string[]): Promise<Record<string, BrokerQuote>> {
+    const quotes: Record<string, BrokerQuote> = {};
+    for (const symbol of symbols) {
+      const quote = await this.getQuote(symbol);
+      if (quote) quotes[symbol] = quote;
+    }
+    return quotes;
+  }
+
+  /**
+   * Bars up to the clock at their recorded resolution; the timeframe is not resampled
+   */
+  async getBars(symbol: string, request: BarsRequest = {}): Promise<BrokerBar[]> {
+    await this.ready();
+    // Recorded bars come at one resolution and adjustment; lookbacks count back from the simulation clock
+    const start = request.start
+      ? new Date(request.start).toISOString()
+      : request.lookbackDays
+        ? new Date(new Date(this.clock).getTime() - request.lookbackDays * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+    const end = request.end ? new Date(request.end).toISOString() : null;
+    const bars = this.visibleBars(symbol).filter(bar =>
+      (!start || bar.timestamp >= start) && (!end || bar.timestamp <= end)
+    );
+    return request.limit ? bars.slice(-request.limit) : bars;
+  }
+
+  async getSnapshots(symbols: string[]): Promise<Record<string, BrokerSnapshot>> {
+    await this.ready();
+    const snapshots: Record<string, BrokerSnapshot> = {};
+    for (const symbol of symbols) {
+      snapshots[symbol] = {
+        symbol,
+        quote: await this.getQuote(symbol),
+        dailyBar: this.currentBar(symbol),
+        previousDailyBar: this.previousDailyBar(symbol)
+      };
+    }
+    return snapshots;
+  }
+
+  async getAsset(symbol: string): Promise<BrokerAsset | null> {
+    return {
+      symbol: symbol.toUpperCase(),
+      name: symbol.toUpperCase(),
+      assetClass: 'equity',
+      exchange: 'SIMULATED',
+      status: 'active',
+      tradable: true,
+      fractionable: true
+    };
+  }
+
+  async submitOrder(request: BrokerOrderRequest): Promise<BrokerOrder> {
+    await this.ready();
+    if (request.assetClass === 'option') {
+      throw brokerRequestError('Simulated broker does not support option orders', 422);
+    }
+    if (request.clientOrderId && this.orders.some(order => order.clientOrderId === request.clientOrderId)) {
+      throw brokerRequestError(`client_order_id ${request.clientOrderId} must be unique`, 422);
+    }
+    if ((request.type === 'limit' || request.type === 'stop_limit') && !request.limitPrice) {
+      throw brokerRequestError(`${request.type} orders require a limit price`, 422);
+    }
+    if ((request.type === 'stop' || request.type === 'stop_limit') && !request.stopPrice) {
+      throw brokerRequestError(`${request.type} orders require a stop price`, 422);
+    }
+
+    const symbol = request.symbol.toUpperCase();
+    const price = this.priceOf(symbol);
+    const quantity = round(request.notional ? request.notional / price : request.quantity || 0, 6);
+    if (!(quantity > 0)) {
+      throw brokerRequestError('qty or notional must be greater than 0', 422);
+    }
+
+    if (request.side === 'sell') {
+      const held = this.positions.get(symbol)?.quantity || 0;
+      if (quantity > held - this.reservedShares(symbol) + 1e-9) {
+        throw brokerRequestError(`insufficient qty available for order (requested: ${quantity}, available: ${held - this.reservedShares(symbol)})`, 403);
+      }
+    } else {
+      const cost = quantity * (request.limitPrice || request.stopPrice || price);
+      if (cost > this.cash - this.reservedCash() + 1e-9) {
+        throw brokerRequestError('insufficient buying power', 403);
+      }
+    }
+
+    const order = this.createOrder({
+      ...request,
+      symbol,
+      quantity,
+      notional: request.notional || null
+    }, null);
+
+    this.tryFill(order, { open: price, high: price, low: price });
+    if (OPEN_STATUSES.has(order.status) && (order.timeInForce === 'ioc' || order.timeInForce === 'fok')) {
+      order.status = 'canceled';
+    }
+    return this.toBrokerOrder(order);
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    const order = this.findOrder(orderId);
+    if (!OPEN_STATUSES.has(order.status)) {
+      throw brokerRequestError(`order is not cancelable (status: ${order.status})`, 422);
+    }
+    order.status = 'canceled';
+    // Canceling a parent that has not filled yet drops its legs with it
+    for (const child of this.orders.filter(candidate => candidate.parentId === order.id && OPEN_STATUSES.has(candidate.status))) {
+      child.status = 'canceled';
+    }
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder> {
+    return this.toBrokerOrder(this.findOrder(orderId));
+  }
+
+  async getOrders(query: OrdersQuery = {}): Promise<BrokerOrder[]> {
+    const status = query.status || 'open';
+    const orders = this.orders
+      .filter(order => status === 'all' || (status === 'open') === OPEN_STATUSES.has(order.status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+    return (query.limit ? orders.slice(0, query.limit) : orders).map(order => this.toBrokerOrder(order));
+  }
+
+  private findOrder(orderId: string): SimulatedOrder {
+    const order = this.orders.find(candidate => candidate.id === orderId);
+    if (!order) {
+      throw brokerRequestError(`order not found: ${orderId}`, 404);
+    }
+    return order;
+  }
+
+  private createOrder(request: Omit<BrokerOrderRequest, 'notional'> & { notional: number | null }, parentId: string | null): SimulatedOrder {
+    this.orderSequence++;
+    const hasLegs = Boolean(request.takeProfitPrice || request.stopLossPrice);
+    const order: SimulatedOrder = {
+      id: `sim-${String(this.orderSequence).padStart(6, '0')}`,
+      clientOrderId: request.clientOrderId || null,
+      symbol: request.symbol,
+      assetClass: 'equity',
+      side: request.side,
+      type: request.type,
+      orderClass: hasLegs ? (request.takeProfitPrice && request.stopLossPrice ? 'bracket' : 'oto') : 'simple',
+      timeInForce: request.timeInForce,
+      status: 'new',
+      quantity: request.quantity ?? null,
+      notional: request.notional,
+      filledQuantity: 0,
+      filledAvgPrice: null,
+      limitPrice: request.limitPrice ?? null,
+      stopPrice: request.stopPrice ?? null,
+      createdAt: this.clock,
+      submittedAt: this.clock,
+      filledAt: null,
+      takeProfitPrice: request.takeProfitPrice ?? null,
+      stopLossPrice: request.stopLossPrice ?? null,
+      parentId,
+      stopTriggered: false
+    };
+    this.orders.push(order);
+    return order;
+  }
+
+  private processBar(symbol: string, bar: BrokerBar): void {
+    for (const order of this.openOrders().filter(candidate => candidate.symbol === symbol)) {
+      if (order.timeInForce === 'day' && dateOf(order.createdAt) < dateOf(bar.timestamp)) {
+        order.status = 'expired';
+        continue;
+      }
+      this.tryFill(order, bar);
+    }
+  }
+
+  /**
+   * Fill an open order when the price range trades through its limit or stop
+   */
+  private tryFill(order: SimulatedOrder, range: { open: number; high: number; low: number }): void {
+    if (!OPEN_STATUSES.has(order.status)) return;
+    const isBuy = order.side === 'buy';
+    let fillPrice: number | null = null;
+
+    if ((order.type === 'stop' || order.type === 'stop_limit') && !order.stopTriggered) {
+      const stop = order.stopPrice!;
+      order.stopTriggered = isBuy ? range.high >= stop : range.low <= stop;
+      if (!order.stopTriggered) return;
+      if (order.type === 'stop') {
+        fillPrice = isBuy ? Math.max(range.open, stop) : Math.min(range.open, stop);
+      }
+    }
+
+    if (order.type === 'market' || (order.type === 'stop' && order.stopTriggered && fillPrice === null)) {
+      fillPrice = range.open;
+    } else if (order.type === 'limit' || order.type === 'stop_limit') {
+      const limit = order.limitPrice!;
+      if (isBuy && range.low <= limit) {
+        fillPrice = Math.min(range.open, limit);
+      } else if (!isBuy && range.high >= limit) {
+        fillPrice = Math.max(range.open, limit);
+      }
+    }
+
+    if (fillPrice !== null) {
+      this.fill(order, round(fillPrice, 4));
+    }
+  }
+
+  private fill(order: SimulatedOrder, price: number): void {
+    const quantity = order.quantity || 0;
+    const position = this.positions.get(order.symbol);
+
+    if (order.side === 'buy') {
+      const held = position?.quantity || 0;
+      const newQuantity = round(held + quantity, 6);
+      this.positions.set(order.symbol, {
+        quantity: newQuantity,
+        avgEntryPrice: round(((position?.avgEntryPrice || 0) * held + price * quantity) / newQuantity, 4)
+      });
+      this.cash -= quantity * price;
+    } else {
+      const remaining = round((position?.quantity || 0) - quantity, 6);
+      if (remaining > 0 && position) {
+        this.positions.set(order.symbol, { ...position, quantity: remaining });
+      } else {
+        this.positions.delete(order.symbol);
+      }
+      this.cash += quantity * price;
+    }
+    this.cash = round(this.cash, 6);
+
+    order.status = 'filled';
+    order.filledQuantity = quantity;
+    order.filledAvgPrice = price;
+    order.filledAt = this.clock;
+    console.log(`🧪 Simulated ${order.side.toUpperCase()} ${quantity} ${order.symbol} filled at $${price}`);
+
+    // Legs of a filled parent start working; a filled leg cancels its sibling
+    if (order.takeProfitPrice || order.stopLossPrice) {
+      const legBase = { symbol: order.symbol, assetClass: 'equity' as const, side: 'sell' as const, timeInForce: 'gtc' as const, quantity, notional: null };
+      if (order.takeProfitPrice) {
+        this.createOrder({ ...legBase, type: 'limit', limitPrice: order.takeProfitPrice }, order.id);
+      }
+      if (order.stopLossPrice) {
+        this.createOrder({ ...legBase, type: 'stop', stopPrice: order.stopLossPrice }, order.id);
+      }
+    }
+    if (order.parentId) {
+      for (const sibling of this.orders) {
+        if (sibling.parentId === order.parentId && sibling.id !== order.id && OPEN_STATUSES.has(sibling.status)) {
+          sibling.status = 'canceled';
+        }
+      }
+    }
+  }
+
+  private toBrokerOrder(order: SimulatedOrder): BrokerOrder {
+    const { takeProfitPrice: _takeProfit, stopLossPrice: _stopLoss, parentId: _parent, stopTriggered: _triggered, ...brokerOrder } = order;
+    return { ...brokerOrder };
+  }
+}
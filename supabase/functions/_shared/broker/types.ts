@@ -0,0 +1,176 @@
+/**
+ * Broker-neutral types shared by every broker adapter
+ *
+ * Prices and amounts are numbers in account currency, quantities are shares (or contracts
+ * for options) and percentages are in percent (1.5 = 1.5%).
+ */
+import type { AlpacaOrderStatus } from '../status/tradeOrderStatus.ts';
+
+export type BrokerProvider = 'alpaca' | 'simulated';
+
+export type OrderSide = 'buy' | 'sell';
+export type BrokerOrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+export type BrokerTimeInForce = 'day' | 'gtc' | 'opg' | 'cls' | 'ioc' | 'fok';
+export type BrokerOrderClass = 'simple' | 'bracket' | 'oto';
+export type BrokerAssetClass = 'equity' | 'option';
+
+// Adapters map their native order states onto the status vocabulary stored in
+// trading_actions.metadata.alpaca_order, which predates other brokers
+export type BrokerOrderStatus = AlpacaOrderStatus;
+
+export interface BrokerAccountSnapshot {
+  accountNumber: string;
+  currency: string;
+  cash: number;
+  buyingPower: number;
+  portfolioValue: number;
+  equity: number;
+  lastEquity: number;           // Equity at the previous close
+  longMarketValue: number;
+  shortMarketValue: number;
+  dayTradeCount: number;
+  patternDayTrader: boolean;
+}
+
+export interface BrokerPosition {
+  symbol: string;
+  assetClass: BrokerAssetClass;
+  side: 'long' | 'short';
+  quantity: number;
+  availableQuantity: number;    // Not held for open orders
+  avgEntryPrice: number;
+  currentPrice: number;
+  lastdayPrice: number;
+  marketValue: number;
+  costBasis: number;
+  unrealizedPl: number;
+  unrealizedPlPercent: number;
+  unrealizedIntradayPl: number;
+  unrealizedIntradayPlPercent: number;
+  changeTodayPercent: number;
+}
+
+export interface BrokerQuote {
+  symbol: string;
+  bidPrice: number;
+  bidSize: number;
+  askPrice: number;
+  askSize: number;
+  price: number;                // Midpoint, or whichever side is quoted
+  timestamp: string | null;
+}
+
+export interface BrokerBar {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface BarsRequest {
+  timeframe?: string;           // 1Min, 5Min, 15Min, 1Hour, 1Day (default)
+  start?: string;
+  end?: string;
+  lookbackDays?: number;        // without start: begin this many calendar days before the broker's current time
+  limit?: number;
+  adjustment?: 'raw' | 'all';   // split and dividend adjustment (default raw)
+}
+
+/**
+ * Latest quote with today's and the previous session's daily bar, for daily change
+ */
+export interface BrokerSnapshot {
+  symbol: string;
+  quote: BrokerQuote | null;
+  dailyBar: BrokerBar | null;
+  previousDailyBar: BrokerBar | null;
+}
+
+export interface BrokerAsset {
+  symbol: string;
+  name: string;
+  assetClass: BrokerAssetClass;
+  exchange: string;
+  status: 'active' | 'inactive';
+  tradable: boolean;
+  fractionable: boolean;
+}
+
+export interface BrokerOrderRequest {
+  symbol: string;               // Contract symbol for options
+  assetClass: BrokerAssetClass;
+  side: OrderSide;
+  type: BrokerOrderType;
+  timeInForce: BrokerTimeInForce;
+  quantity?: number;
+  notional?: number;            // Dollar amount instead of a quantity; simple day orders only
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  // Either leg makes an OTO order, both a bracket
+  takeProfitPrice?: number | null;
+  stopLossPrice?: number | null;
+  clientOrderId?: string;
+}
+
+export interface BrokerOrder {
+  id: string;
+  clientOrderId: string | null;
+  symbol: string;
+  assetClass: BrokerAssetClass;
+  side: OrderSide;
+  type: BrokerOrderType;
+  orderClass: BrokerOrderClass;
+  timeInForce: BrokerTimeInForce;
+  status: BrokerOrderStatus;
+  quantity: number | null;
+  notional: number | null;
+  filledQuantity: number;
+  filledAvgPrice: number | null;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  createdAt: string;
+  submittedAt: string | null;
+  filledAt: string | null;
+}
+
+export interface OrdersQuery {
+  status?: 'open' | 'closed' | 'all';
+  limit?: number;
+}
+
+/**
+ * Everything the agents, trade execution and the dashboard need from a brokerage
+ *
+ * Reads of the account, positions and orders throw when the broker cannot be reached, so an
+ * outage is never mistaken for an empty book. Quotes resolve to null when none is available.
+ */
+export interface Broker {
+  readonly provider: BrokerProvider;
+  readonly paper: boolean;
+
+  getAccount(): Promise<BrokerAccountSnapshot>;
+  getPositions(): Promise<BrokerPosition[]>;
+  getPosition(symbol: string): Promise<BrokerPosition | null>;
+
+  getQuote(symbol: string): Promise<BrokerQuote | null>;
+  getQuotes(symbols: string[]): Promise<Record<string, BrokerQuote>>;
+  getBars(symbol: string, request?: BarsRequest): Promise<BrokerBar[]>;
+  getSnapshots(symbols: string[]): Promise<Record<string, BrokerSnapshot>>;
+  getAsset(symbol: string): Promise<BrokerAsset | null>;
+
+  submitOrder(request: BrokerOrderRequest): Promise<BrokerOrder>;
+  cancelOrder(orderId: string): Promise<void>;
+  getOrder(orderId: string): Promise<BrokerOrder>;
+  getOrders(query?: OrdersQuery): Promise<BrokerOrder[]>;
+}
+
+/**
+ * Error thrown by adapters when the broker answers with an error status
+ */
+export type BrokerRequestError = Error & { status?: number };
+
+export function brokerRequestError(message: string, status?: number): BrokerRequestError {
+  return Object.assign(new Error(message), { status });
+}
@@ -0,0 +1,118 @@
+/**
+ * Broker accounts - additional Alpaca accounts per user, each with its own keys and strategy settings
+ *
+ * The Alpaca keys and sizing settings in api_settings stay the primary account. Everything that
+ * trades reads an api_settings-shaped object, so an account is applied by overlaying its keys and
+ * settings on that object (applyBrokerAccount); code downstream does not need to know about accounts.
+ */
+import { CredentialAuditClient, decryptCredentialFields } from './credentialVault.ts';
+
+export interface BrokerAccount {
+  id: string;
+  user_id: string;
+  name: string;
+  is_paper: boolean;
+  api_key: string;
+  secret_key: string;
+  user_risk_level: 'conservative' | 'moderate' | 'aggressive';
+  default_position_size_dollars: number;
+  default_min_position_size: number;
+  default_max_position_size: number;
+  target_stock_allocation: number;
+  target_cash_allocation: number;
+  auto_execute_trades: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface BrokerAccountQuery {
+  eq(column: string, value: string): BrokerAccountQuery;
+  maybeSingle(): PromiseLike<{ data: BrokerAccount | null; error: { message: string } | null }>;
+}
+
+/**
+ * The part of a supabase-js client accounts are loaded with, so clients of any version fit
+ */
+export type BrokerAccountClient = {
+  from(table: string): { select(columns: string): BrokerAccountQuery };
+} & CredentialAuditClient;
+
+/**
+ * Strategy settings an account overrides, under their api_settings column names
+ */
+export const BROKER_ACCOUNT_SETTING_FIELDS = [
+  'user_risk_level',
+  'default_position_size_dollars',
+  'default_min_position_size',
+  'default_max_position_size',
+  'target_stock_allocation',
+  'target_cash_allocation',
+  'auto_execute_trades'
+] as const;
+
+/**
+ * Load one of the user's accounts with its keys decrypted, or null when it does not exist
+ */
+export async function loadBrokerAccount(
+  supabase: BrokerAccountClient,
+  userId: string,
+  accountId: string,
+  functionName: string
+): Promise<BrokerAccount | null> {
+  const { data, error } = await supabase
+    .from('broker_accounts')
+    .select('*')
+    .eq('id', accountId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load broker account: ${error.message}`);
+  }
+  if (!data) {
+    return null;
+  }
+
+  return await decryptCredentialFields(supabase, 'broker_accounts', data, userId, functionName);
+}
+
+/**
+ * Settings with the account's keys in the slot of its trading mode and its strategy settings
+ */
+export function applyBrokerAccount<T extends object>(apiSettings: T, account: BrokerAccount): T {
+  const mode = account.is_paper ? 'paper' : 'live';
+  const overlay: Record<string, unknown> = {
+    alpaca_paper_trading: account.is_paper,
+    [`alpaca_${mode}_api_key`]: account.api_key,
+    [`alpaca_${mode}_secret_key`]: account.secret_key,
+    broker_account_id: account.id,
+    broker_account_name: account.name
+  };
+  for (const field of BROKER_ACCOUNT_SETTING_FIELDS) {
+    overlay[field] = account[field];
+  }
+
+  return { ...apiSettings, ...overlay };
+}
+
+/**
+ * Apply an account to the settings when an id is given; the primary account's settings otherwise
+ * Throws when the account does not belong to the user, so an order never falls back to another account.
+ */
+export async function resolveBrokerAccountSettings<T extends object>(
+  supabase: BrokerAccountClient,
+  userId: string,
+  apiSettings: T,
+  accountId: string | null | undefined,
+  functionName: string
+): Promise<T> {
+  if (!accountId) {
+    return apiSettings;
+  }
+
+  const account = await loadBrokerAccount(supabase, userId, accountId, functionName);
+  if (!account) {
+    throw new Error(`Broker account ${accountId} not found`);
+  }
+  return applyBrokerAccount(apiSettings, account);
+}
@@ -0,0 +1,224 @@
+/**
+ * Corporate actions for Supabase Edge Functions
+ * Splits and dividends from Alpaca's corporate actions feed: recent ones invalidate cached
+ * bars (their adjustment is out of date), upcoming ones are listed in the market analyst prompt.
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getNYCurrentDate } from './timezoneUtils.ts';
+
+export type CorporateActionType = 'forward_split' | 'reverse_split' | 'cash_dividend' | 'stock_dividend' | 'earnings';
+
+export interface CorporateAction {
+  symbol: string;
+  type: CorporateActionType;
+  exDate: string;            // YYYY-MM-DD; the report date for earnings
+  payableDate: string | null;
+  ratio: number | null;      // Shares after per share before, for splits and stock dividends
+  cashAmount: number | null; // Per share, for cash dividends
+}
+
+interface AlpacaCredentials {
+  apiKey: string;
+  secretKey: string;
+}
+
+// Entry of one group (forward_splits, cash_dividends, ...) in Alpaca's corporate actions response
+interface AlpacaCorporateAction {
+  symbol: string;
+  ex_date?: string;
+  payable_date?: string | null;
+  new_rate?: number | string;
+  old_rate?: number | string;
+  rate?: number | string;
+}
+
+interface AlpacaCorporateActionsPage {
+  corporate_actions?: Record<string, AlpacaCorporateAction[]>;
+  next_page_token?: string | null;
+}
+
+// Response groups of Alpaca's feed. Earnings dates are not part of it; they come from an earnings calendar
+const ALPACA_ACTION_TYPES: Record<string, CorporateActionType> = {
+  forward_splits: 'forward_split',
+  reverse_splits: 'reverse_split',
+  cash_dividends: 'cash_dividend',
+  stock_dividends: 'stock_dividend'
+};
+
+// Actions that change historical prices, so adjusted bars fetched before them are stale
+const PRICE_ADJUSTING_TYPES: CorporateActionType[] = ['forward_split', 'reverse_split', 'cash_dividend', 'stock_dividend'];
+
+const MAX_PAGES = 5;
+
+export const CORPORATE_ACTION_LOOKBACK_DAYS = 30;
+export const CORPORATE_ACTION_LOOKAHEAD_DAYS = 90;
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+};
+
+function toCorporateAction(type: CorporateActionType, action: AlpacaCorporateAction): CorporateAction | null {
+  if (!action?.ex_date) {
+    return null;
+  }
+
+  const newRate = toNumber(action.new_rate);
+  const oldRate = toNumber(action.old_rate);
+
+  return {
+    symbol: action.symbol,
+    type,
+    exDate: action.ex_date,
+    payableDate: action.payable_date || null,
+    ratio: newRate && oldRate ? newRate / oldRate : type === 'stock_dividend' ? toNumber(action.rate) : null,
+    cashAmount: type === 'cash_dividend' ? toNumber(action.rate) : null
+  };
+}
+
+/**
+ * Splits and dividends for a symbol with an ex-date between `start` and `end` (YYYY-MM-DD)
+ * Never throws: corporate actions are context, so a failed request returns an empty list
+ */
+export async function fetchCorporateActions(
+  symbol: string,
+  credentials: AlpacaCredentials,
+  start: string,
+  end: string
+): Promise<CorporateAction[]> {
+  const ticker = symbol.toUpperCase();
+  const url = `https://data.alpaca.markets/v1beta1/corporate-actions?symbols=${ticker}` +
+    '&types=forward_split,reverse_split,cash_dividend,stock_dividend' +
+    `&start=${start}&end=${end}&limit=1000`;
+
+  const actions: CorporateAction[] = [];
+  let pageToken: string | null = null;
+
+  try {
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const pageUrl: string = pageToken ? `${url}&page_token=${encodeURIComponent(pageToken)}` : url;
+      const response = await fetch(pageUrl, {
+        headers: {
+          'APCA-API-KEY-ID': credentials.apiKey,
+          'APCA-API-SECRET-KEY': credentials.secretKey,
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Alpaca corporate actions request failed (${response.status}): ${await response.text()}`);
+      }
+
+      const data: AlpacaCorporateActionsPage = await response.json();
+      for (const [group, type] of Object.entries(ALPACA_ACTION_TYPES)) {
+        for (const action of data.corporate_actions?.[group] || []) {
+          const parsed = toCorporateAction(type, action);
+          if (parsed) actions.push(parsed);
+        }
+      }
+
+      pageToken = data.next_page_token || null;
+      if (!pageToken) break;
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch corporate actions for ${ticker}:`, error);
+    return [];
+  }
+
+  actions.sort((a, b) => a.exDate.localeCompare(b.exDate));
+  console.log(`🏢 Corporate actions for ${ticker} (${start} → ${end}): ${actions.length}`);
+  return actions;
+}
+
+/**
+ * Corporate actions from CORPORATE_ACTION_LOOKBACK_DAYS ago to CORPORATE_ACTION_LOOKAHEAD_DAYS ahead
+ */
+export async function fetchRecentAndUpcomingCorporateActions(
+  symbol: string,
+  credentials: AlpacaCredentials
+): Promise<CorporateAction[]> {
+  const today = getNYCurrentDate();
+  return await fetchCorporateActions(
+    symbol,
+    credentials,
+    shiftDate(today, -CORPORATE_ACTION_LOOKBACK_DAYS),
+    shiftDate(today, CORPORATE_ACTION_LOOKAHEAD_DAYS)
+  );
+}
+
+/**
+ * Delete cached bars for a symbol that were fetched before its latest split or dividend took effect
+ * Their adjusted prices no longer line up with bars fetched since. Returns the number of rows removed.
+ */
+export async function invalidateMarketDataCacheForCorporateActions(
+  supabase: SupabaseClient,
+  symbol: string,
+  actions: CorporateAction[]
+): Promise<number> {
+  const today = getNYCurrentDate();
+  const latestExDate = actions
+    .filter(action => PRICE_ADJUSTING_TYPES.includes(action.type) && action.exDate <= today)
+    .map(action => action.exDate)
+    .sort()
+    .pop();
+
+  if (!latestExDate) {
+    return 0;
+  }
+
+  const { data, error } = await supabase
+    .from('market_data_cache')
+    .delete()
+    .eq('ticker', symbol.toUpperCase())
+    .lt('fetched_date', latestExDate)
+    .select('timeframe');
+
+  if (error) {
+    console.error(`❌ Failed to invalidate cached bars for ${symbol}:`, error);
+    return 0;
+  }
+
+  const removed = data?.length || 0;
+  if (removed > 0) {
+    console.log(`🧹 Invalidated ${removed} cached bar set(s) for ${symbol} fetched before the ${latestExDate} corporate action`);
+  }
+  return removed;
+}
+
+function describeCorporateAction(action: CorporateAction): string {
+  switch (action.type) {
+    case 'forward_split':
+    case 'reverse_split':
+      return `${action.type === 'forward_split' ? 'Split' : 'Reverse split'} ${action.ratio ? `${Number(action.ratio.toFixed(4))}-for-1` : ''}`.trim();
+    case 'cash_dividend':
+      return `Cash dividend${action.cashAmount !== null ? ` $${action.cashAmount}/share` : ''}` +
+        (action.payableDate ? `, payable ${action.payableDate}` : '');
+    case 'stock_dividend':
+      return `Stock dividend${action.ratio !== null ? ` ${action.ratio} shares/share` : ''}`;
+    case 'earnings':
+      return 'Earnings report';
+  }
+}
+
+/**
+ * Recent and upcoming corporate actions as a prompt section
+ */
+export function formatCorporateActionsForAI(actions: CorporateAction[]): string {
+  const today = getNYCurrentDate();
+  const recent = actions.filter(action => action.exDate <= today);
+  const upcoming = actions.filter(action => action.exDate > today);
+
+  const list = (items: CorporateAction[]) => items.length > 0
+    ? items.map(action => `- ${action.exDate}: ${describeCorporateAction(action)}`).join('\n')
+    : '- None';
+
+  return `Upcoming (next ${CORPORATE_ACTION_LOOKAHEAD_DAYS} days; ex-dates for dividends and splits):
+${list(upcoming)}
+Recent (last ${CORPORATE_ACTION_LOOKBACK_DAYS} days):
+${list(recent)}`;
+}
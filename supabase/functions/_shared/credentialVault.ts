@@ -0,0 +1,356 @@
+/**
+ * Credential vault - envelope encryption for the API keys in api_settings, provider_configurations and broker_accounts
+ *
+ * Every value is encrypted with its own AES-256-GCM data key, and that data key is wrapped (AES-KW)
+ * with a master key that only exists in the edge function environment:
+ *   CREDENTIAL_ENCRYPTION_KEY        base64 of 32 random bytes (openssl rand -base64 32)
+ *   CREDENTIAL_ENCRYPTION_KEY_ID     id of that key, stored with each value (default 'k1')
+ *   CREDENTIAL_PREVIOUS_KEYS         comma-separated "id:base64" keys that are still readable while rotating
+ *
+ * Stored values look like `vault:v1:<keyId>:<wrappedKey>:<iv>:<ciphertext>`. Values without the
+ * prefix are plaintext from before the vault and are passed through until rotate-credentials encrypts them.
+ * Every decryption is written to credential_access_log with the function that asked for it.
+ */
+
+const VAULT_PREFIX = 'vault:v1:';
+const DEFAULT_KEY_ID = 'k1';
+
+/**
+ * Credential columns per table. settings-proxy's CREDENTIAL_FIELDS is the api_settings list.
+ */
+export const CREDENTIAL_COLUMNS = {
+  api_settings: [
+    'ai_api_key',
+    'openai_api_key',
+    'anthropic_api_key',
+    'google_api_key',
+    'deepseek_api_key',
+    'openrouter_api_key',
+    'alpaca_paper_api_key',
+    'alpaca_paper_secret_key',
+    'alpaca_live_api_key',
+    'alpaca_live_secret_key'
+  ],
+  provider_configurations: [
+    'api_key'
+  ],
+  broker_accounts: [
+    'api_key',
+    'secret_key'
+  ]
+};
+
+export type CredentialTable = keyof typeof CREDENTIAL_COLUMNS;
+
+export const ALPACA_CREDENTIAL_FIELDS = [
+  'alpaca_paper_api_key',
+  'alpaca_paper_secret_key',
+  'alpaca_live_api_key',
+  'alpaca_live_secret_key'
+];
+
+// Bytes backed by a plain ArrayBuffer, which Web Crypto requires of its inputs
+type Bytes = ReturnType<typeof fromBase64>;
+
+interface ParsedCredential {
+  keyId: string;
+  wrappedKey: Bytes;
+  iv: Bytes;
+  ciphertext: Bytes;
+}
+
+const masterKeyCache = new Map<string, CryptoKey>();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+/**
+ * Master keys by id from the environment; the current key is the one new values are wrapped with
+ */
+function loadMasterKeys(): { currentKeyId: string; keys: Map<string, string> } {
+  const keys = new Map<string, string>();
+
+  for (const entry of (Deno.env.get('CREDENTIAL_PREVIOUS_KEYS') || '').split(',')) {
+    const [keyId, key] = entry.trim().split(':');
+    if (keyId && key) {
+      keys.set(keyId, key);
+    }
+  }
+
+  const currentKeyId = Deno.env.get('CREDENTIAL_ENCRYPTION_KEY_ID') || DEFAULT_KEY_ID;
+  const currentKey = Deno.env.get('CREDENTIAL_ENCRYPTION_KEY');
+  if (currentKey) {
+    keys.set(currentKeyId, currentKey);
+  }
+
+  return { currentKeyId, keys };
+}
+
+async function getMasterKey(keyId: string): Promise<CryptoKey> {
+  const cached = masterKeyCache.get(keyId);
+  if (cached) {
+    return cached;
+  }
+
+  const encoded = loadMasterKeys().keys.get(keyId);
+  if (!encoded) {
+    throw new Error(`Credential encryption key "${keyId}" is not configured`);
+  }
+
+  const raw = fromBase64(encoded);
+  if (raw.length !== 32) {
+    throw new Error(`Credential encryption key "${keyId}" must be 32 bytes`);
+  }
+
+  const masterKey = await crypto.subtle.importKey('raw', raw, 'AES-KW', false, ['wrapKey', 'unwrapKey']);
+  masterKeyCache.set(keyId, masterKey);
+  return masterKey;
+}
+
+/**
+ * Ciphertext is bound to the user and column so a value cannot be copied into another row or field
+ */
+function additionalData(userId: string, table: CredentialTable, field: string) {
+  return new TextEncoder().encode(`${userId}:${table}.${field}`);
+}
+
+function parseCredential(value: string): ParsedCredential {
+  const [keyId, wrappedKey, iv, ciphertext] = value.slice(VAULT_PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !iv || !ciphertext) {
+    throw new Error('Malformed encrypted credential');
+  }
+  return {
+    keyId,
+    wrappedKey: fromBase64(wrappedKey),
+    iv: fromBase64(iv),
+    ciphertext: fromBase64(ciphertext)
+  };
+}
+
+function formatCredential(keyId: string, wrappedKey: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): string {
+  return `${VAULT_PREFIX}${keyId}:${toBase64(wrappedKey)}:${toBase64(iv)}:${toBase64(ciphertext)}`;
+}
+
+export function isEncryptedCredential(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(VAULT_PREFIX);
+}
+
+/**
+ * Encrypt one credential under the current master key
+ * Empty values and values that are already encrypted are returned unchanged
+ */
+export async function encryptCredential(
+  value: string | null | undefined,
+  userId: string,
+  table: CredentialTable,
+  field: string
+): Promise<string | null | undefined> {
+  if (!value || isEncryptedCredential(value)) {
+    return value;
+  }
+
+  const { currentKeyId } = loadMasterKeys();
+  const masterKey = await getMasterKey(currentKeyId);
+
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(userId, table, field) },
+    dataKey,
+    new TextEncoder().encode(value)
+  );
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, masterKey, 'AES-KW');
+
+  return formatCredential(currentKeyId, new Uint8Array(wrappedKey), iv, new Uint8Array(ciphertext));
+}
+
+async function decryptCredential(
+  value: string,
+  userId: string,
+  table: CredentialTable,
+  field: string
+): Promise<string> {
+  const parsed = parseCredential(value);
+  const masterKey = await getMasterKey(parsed.keyId);
+
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw',
+    parsed.wrappedKey,
+    masterKey,
+    'AES-KW',
+    { name: 'AES-GCM' },
+    false,
+    ['decrypt']
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: parsed.iv, additionalData: additionalData(userId, table, field) },
+    dataKey,
+    parsed.ciphertext
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Re-wrap an encrypted credential's data key with the current master key
+ * The ciphertext itself is untouched and never decrypted. Plaintext values are encrypted.
+ * Returns null when the value is already under the current key.
+ */
+export async function rewrapCredential(
+  value: string,
+  userId: string,
+  table: CredentialTable,
+  field: string
+): Promise<string | null> {
+  if (!isEncryptedCredential(value)) {
+    return await encryptCredential(value, userId, table, field) ?? null;
+  }
+
+  const { currentKeyId } = loadMasterKeys();
+  const parsed = parseCredential(value);
+  if (parsed.keyId === currentKeyId) {
+    return null;
+  }
+
+  const dataKey = await crypto.subtle.unwrapKey(
+    'raw',
+    parsed.wrappedKey,
+    await getMasterKey(parsed.keyId),
+    'AES-KW',
+    { name: 'AES-GCM' },
+    true,
+    ['encrypt', 'decrypt']
+  );
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, await getMasterKey(currentKeyId), 'AES-KW');
+
+  return formatCredential(currentKeyId, new Uint8Array(wrappedKey), parsed.iv, parsed.ciphertext);
+}
+
+/**
+ * Encrypt the credential columns of a row that is about to be written
+ */
+export async function encryptCredentialFields<T extends object>(
+  table: CredentialTable,
+  row: T,
+  userId: string
+): Promise<T> {
+  const encrypted = { ...row } as Record<string, unknown>;
+  for (const field of CREDENTIAL_COLUMNS[table]) {
+    if (field in encrypted) {
+      encrypted[field] = await encryptCredential(encrypted[field] as string | null | undefined, userId, table, field);
+    }
+  }
+  return encrypted as T;
+}
+
+/**
+ * The part of a supabase-js client the audit log writes with, so clients of any version fit
+ */
+export interface CredentialAuditClient {
+  from(table: string): {
+    insert(values: Record<string, unknown>): PromiseLike<{ error: { message: string } | null }>;
+  };
+}
+
+/**
+ * Record which function decrypted which credentials
+ * Never throws; a failed audit write is logged but does not block the caller.
+ */
+async function logCredentialAccess(
+  supabase: CredentialAuditClient,
+  userId: string,
+  functionName: string,
+  table: CredentialTable,
+  recordId: string | null,
+  fields: string[]
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('credential_access_log')
+      .insert({
+        user_id: userId,
+        function_name: functionName,
+        source_table: table,
+        record_id: recordId,
+        credential_fields: fields
+      });
+
+    if (error) {
+      console.error(`❌ Failed to record credential access by ${functionName}:`, error);
+    }
+  } catch (error) {
+    console.error(`❌ Failed to record credential access by ${functionName}:`, error);
+  }
+}
+
+/**
+ * Decrypt the credential columns of a row read from the database
+ * Only `fields` are decrypted (default: every credential column present in the row);
+ * other credential columns keep their encrypted value.
+ */
+export async function decryptCredentialFields<T extends object>(
+  supabase: CredentialAuditClient,
+  table: CredentialTable,
+  row: T,
+  userId: string,
+  functionName: string,
+  fields: string[] = CREDENTIAL_COLUMNS[table]
+): Promise<T> {
+  if (!row) {
+    return row;
+  }
+
+  const decrypted = { ...row } as Record<string, unknown>;
+  const decryptedFields: string[] = [];
+
+  for (const field of fields) {
+    const value = decrypted[field];
+    if (isEncryptedCredential(value)) {
+      decrypted[field] = await decryptCredential(value, userId, table, field);
+      decryptedFields.push(field);
+    }
+  }
+
+  if (decryptedFields.length > 0) {
+    const recordId = typeof decrypted.id === 'string' ? decrypted.id : null;
+    await logCredentialAccess(supabase, userId, functionName, table, recordId, decryptedFields);
+  }
+
+  return decrypted as T;
+}
+
+/**
+ * Decrypt an api_settings row for the named edge function
+ */
+export async function decryptApiSettings<T extends object>(
+  supabase: CredentialAuditClient,
+  settings: T,
+  userId: string,
+  functionName: string,
+  fields?: string[]
+): Promise<T> {
+  return await decryptCredentialFields(supabase, 'api_settings', settings, userId, functionName, fields);
+}
+
+/**
+ * Decrypt provider_configurations rows for the named edge function
+ */
+export async function decryptProviderConfigurations<T extends object>(
+  supabase: CredentialAuditClient,
+  configurations: T[],
+  userId: string,
+  functionName: string
+): Promise<T[]> {
+  return await Promise.all(configurations.map(configuration =>
+    decryptCredentialFields(supabase, 'provider_configurations', configuration, userId, functionName)
+  ));
+}
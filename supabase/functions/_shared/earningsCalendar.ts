@@ -0,0 +1,555 @@
+/**
+ * Earnings calendar for Supabase Edge Functions
+ * Past release dates come from SEC EDGAR (8-K item 2.02, "Results of Operations"), upcoming dates and
+ * consensus/actual figures from Finnhub's earnings calendar when FINNHUB_API_KEY is set.
+ * Reports are cached per ticker in earnings_calendar; an analysis snapshots its EarningsEvent at start.
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { HistoricalPrice } from './technicalIndicators.ts';
+import type { OptionsChain } from './optionsChain.ts';
+import { getNYCurrentDate } from './timezoneUtils.ts';
+import { fetchSec, lookupCik, type SecSubmissions } from './secFundamentals.ts';
+
+export type EarningsTiming = 'bmo' | 'amc' | 'dmh';   // Before open, after close, during market hours
+export type EarningsMode = 'pre_earnings' | 'post_earnings';
+
+export interface EarningsReport {
+  ticker: string;
+  reportDate: string;                 // YYYY-MM-DD
+  timing: EarningsTiming | null;
+  fiscalYear: number | null;
+  fiscalQuarter: number | null;
+  epsEstimate: number | null;
+  epsActual: number | null;
+  revenueEstimate: number | null;
+  revenueActual: number | null;
+}
+
+export interface EarningsEvent {
+  ticker: string;
+  mode: EarningsMode | null;          // null when no report is near the analysis date
+  windowDays: number;                 // Pre-earnings window the mode was chosen with
+  nextReport: EarningsReport | null;
+  lastReport: EarningsReport | null;
+  daysUntilNext: number | null;       // Calendar days
+  daysSinceLast: number | null;
+  history: EarningsReport[];          // Reported quarters, newest first
+}
+
+export interface EarningsReaction {
+  reportDate: string;
+  timing: EarningsTiming | null;
+  reactionPercent: number;            // Close before the report to the first close after it
+  driftPercent: number | null;        // That close to DRIFT_DAYS trading days later
+  epsSurprisePercent: number | null;
+}
+
+export interface ImpliedMove {
+  expiration: string;
+  strike: number;
+  straddle: number;                   // ATM call + put mid
+  movePercent: number;                // Straddle over the underlying price
+}
+
+export interface EarningsSetup {
+  event: EarningsEvent;
+  reactions: EarningsReaction[];      // Past reports, oldest first
+  impliedMove: ImpliedMove | null;    // Pre-earnings only
+}
+
+export const DEFAULT_EARNINGS_WINDOW_DAYS = 7;
+const POST_EARNINGS_DAYS = 5;
+const HISTORY_REPORTS = 8;
+const DRIFT_DAYS = 5;
+const CACHE_HOURS = 12;
+const SEC_HISTORY_DAYS = 730;
+const FINNHUB_LOOKBACK_DAYS = 60;
+const FINNHUB_LOOKAHEAD_DAYS = 120;
+
+const FINNHUB_API_KEY = Deno.env.get('FINNHUB_API_KEY');
+
+const EARNINGS_TIMINGS: EarningsTiming[] = ['bmo', 'amc', 'dmh'];
+
+// Entry of Finnhub's /calendar/earnings response
+interface FinnhubEarningsRow {
+  symbol?: string;
+  date?: string;
+  hour?: string;
+  year?: number;
+  quarter?: number;
+  epsEstimate?: number | null;
+  epsActual?: number | null;
+  revenueEstimate?: number | null;
+  revenueActual?: number | null;
+}
+
+/**
+ * Row of the earnings_calendar table
+ */
+interface EarningsCalendarRow {
+  ticker: string;
+  report_date: string;
+  timing: EarningsTiming | null;
+  fiscal_year: number | null;
+  fiscal_quarter: number | null;
+  eps_estimate: string | number | null;
+  eps_actual: string | number | null;
+  revenue_estimate: string | number | null;
+  revenue_actual: string | number | null;
+  fetched_at: string;
+}
+
+/**
+ * The part of a supabase-js client the earnings_calendar cache uses, so clients of any version fit
+ */
+export interface EarningsCacheClient {
+  from(table: string): {
+    select(columns: string): {
+      eq(column: string, value: string): {
+        order(column: string, options: { ascending: boolean }): PromiseLike<{ data: EarningsCalendarRow[] | null }>;
+      };
+    };
+    upsert(values: EarningsCalendarRow[], options: { onConflict: string }): PromiseLike<{ error: { message: string } | null }>;
+  };
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86400000);
+}
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// Numeric columns come back as strings
+const fromNumeric = (value: unknown): number | null =>
+  value === null || value === undefined ? null : toNumber(Number(value));
+
+/**
+ * Earnings reports from Finnhub's calendar between `from` and `to`, for one symbol or every symbol
+ * Returns null without FINNHUB_API_KEY
+ */
+export async function fetchFinnhubEarnings(from: string, to: string, symbol?: string): Promise<EarningsReport[] | null> {
+  if (!FINNHUB_API_KEY) {
+    return null;
+  }
+
+  const url = `https://finnhub.io/api/v1/calendar/earnings?from=${from}&to=${to}` +
+    (symbol ? `&symbol=${encodeURIComponent(symbol.toUpperCase())}` : '') +
+    `&token=${FINNHUB_API_KEY}`;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Finnhub earnings calendar request failed (${response.status}): ${await response.text()}`);
+  }
+
+  const data: { earningsCalendar?: FinnhubEarningsRow[] } = await response.json();
+  return (data.earningsCalendar || [])
+    .filter(row => row.symbol && row.date)
+    .map(row => ({
+      ticker: String(row.symbol).toUpperCase(),
+      reportDate: row.date!,
+      timing: EARNINGS_TIMINGS.find(timing => timing === row.hour) || null,
+      fiscalYear: toNumber(row.year),
+      fiscalQuarter: toNumber(row.quarter),
+      epsEstimate: toNumber(row.epsEstimate),
+      epsActual: toNumber(row.epsActual),
+      revenueEstimate: toNumber(row.revenueEstimate),
+      revenueActual: toNumber(row.revenueActual)
+    }));
+}
+
+/**
+ * Earnings release dates from 8-K filings with item 2.02 since `since`
+ * The acceptance time (Eastern, despite its Z suffix) tells releases before the open from those after the close.
+ */
+async function fetchSecReleaseDates(ticker: string, since: string): Promise<EarningsReport[]> {
+  const { cik } = await lookupCik(ticker);
+  const submissions = await fetchSec<SecSubmissions>(`https://data.sec.gov/submissions/CIK${cik}.json`);
+  const recent = submissions.filings?.recent || {};
+
+  const reports: EarningsReport[] = [];
+  (recent.form || []).forEach((form: string, index: number) => {
+    const filingDate = recent.filingDate?.[index];
+    const items: string = recent.items?.[index] || '';
+    if (form !== '8-K' || !filingDate || filingDate < since || !items.split(',').includes('2.02')) {
+      return;
+    }
+
+    const time = String(recent.acceptanceDateTime?.[index] || '').slice(11, 16);
+    reports.push({
+      ticker: ticker.toUpperCase(),
+      reportDate: filingDate,
+      timing: !time ? null : time < '09:30' ? 'bmo' : time >= '16:00' ? 'amc' : 'dmh',
+      fiscalYear: null,
+      fiscalQuarter: null,
+      epsEstimate: null,
+      epsActual: null,
+      revenueEstimate: null,
+      revenueActual: null
+    });
+  });
+  return reports;
+}
+
+/**
+ * Finnhub rows win over an SEC filing dated within a day of them (8-Ks are sometimes filed the day after)
+ */
+function mergeReports(secReports: EarningsReport[], finnhubReports: EarningsReport[]): EarningsReport[] {
+  const merged = [...finnhubReports];
+  for (const report of secReports) {
+    const match = merged.find(existing => Math.abs(daysBetween(existing.reportDate, report.reportDate)) <= 1);
+    if (!match) {
+      merged.push(report);
+    } else if (!match.timing) {
+      match.timing = report.timing;
+    }
+  }
+  return merged.sort((a, b) => a.reportDate.localeCompare(b.reportDate));
+}
+
+const toRow = (report: EarningsReport, fetchedAt: string): EarningsCalendarRow => ({
+  ticker: report.ticker,
+  report_date: report.reportDate,
+  timing: report.timing,
+  fiscal_year: report.fiscalYear,
+  fiscal_quarter: report.fiscalQuarter,
+  eps_estimate: report.epsEstimate,
+  eps_actual: report.epsActual,
+  revenue_estimate: report.revenueEstimate,
+  revenue_actual: report.revenueActual,
+  fetched_at: fetchedAt
+});
+
+const fromRow = (row: EarningsCalendarRow): EarningsReport => ({
+  ticker: row.ticker,
+  reportDate: row.report_date,
+  timing: row.timing,
+  fiscalYear: row.fiscal_year,
+  fiscalQuarter: row.fiscal_quarter,
+  epsEstimate: fromNumeric(row.eps_estimate),
+  epsActual: fromNumeric(row.eps_actual),
+  revenueEstimate: fromNumeric(row.revenue_estimate),
+  revenueActual: fromNumeric(row.revenue_actual)
+});
+
+/**
+ * Store reports in earnings_calendar; failures are logged, the reports are still usable
+ */
+export async function storeEarningsReports(supabase: EarningsCacheClient, reports: EarningsReport[]): Promise<void> {
+  if (reports.length === 0) return;
+
+  const fetchedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('earnings_calendar')
+    .upsert(reports.map(report => toRow(report, fetchedAt)), { onConflict: 'ticker,report_date' });
+  if (error) {
+    console.warn('⚠️ Failed to cache earnings reports:', error.message);
+  }
+}
+
+/**
+ * Past and upcoming earnings reports of a ticker, oldest first, refreshed every CACHE_HOURS
+ * Falls back to stale cached reports when both feeds fail
+ */
+export async function getEarningsReports(ticker: string, supabase: EarningsCacheClient): Promise<EarningsReport[]> {
+  const symbol = ticker.toUpperCase();
+  const { data: rows } = await supabase
+    .from('earnings_calendar')
+    .select('*')
+    .eq('ticker', symbol)
+    .order('report_date', { ascending: true });
+
+  const cachedRows = (rows || []) as EarningsCalendarRow[];
+  const cached = cachedRows.map(fromRow);
+  const lastFetched = Math.max(0, ...cachedRows.map(row => Date.parse(row.fetched_at)));
+  if (cached.length > 0 && Date.now() - lastFetched < CACHE_HOURS * 60 * 60 * 1000) {
+    console.log(`✅ Using cached earnings calendar for ${symbol} (${cached.length} reports)`);
+    return cached;
+  }
+
+  const today = getNYCurrentDate();
+  const [secResult, finnhubResult] = await Promise.allSettled([
+    fetchSecReleaseDates(symbol, shiftDate(today, -SEC_HISTORY_DAYS)),
+    fetchFinnhubEarnings(shiftDate(today, -FINNHUB_LOOKBACK_DAYS), shiftDate(today, FINNHUB_LOOKAHEAD_DAYS), symbol)
+  ]);
+  if (secResult.status === 'rejected') {
+    console.warn(`⚠️ SEC earnings release dates unavailable for ${symbol}:`, secResult.reason?.message || secResult.reason);
+  }
+  if (finnhubResult.status === 'rejected') {
+    console.warn(`⚠️ Finnhub earnings calendar unavailable for ${symbol}:`, finnhubResult.reason?.message || finnhubResult.reason);
+  }
+  if (secResult.status === 'rejected' && finnhubResult.status === 'rejected') {
+    return cached;
+  }
+
+  const reports = mergeReports(
+    secResult.status === 'fulfilled' ? secResult.value : [],
+    finnhubResult.status === 'fulfilled' ? finnhubResult.value || [] : []
+  );
+  console.log(`📅 Earnings calendar for ${symbol}: ${reports.length} reports${FINNHUB_API_KEY ? '' : ' (no FINNHUB_API_KEY, past releases only)'}`);
+  await storeEarningsReports(supabase, reports);
+
+  // Keep cached rows the feeds no longer cover (older history)
+  const dates = new Set(reports.map(report => report.reportDate));
+  return [...cached.filter((report: EarningsReport) => !dates.has(report.reportDate)), ...reports]
+    .sort((a, b) => a.reportDate.localeCompare(b.reportDate));
+}
+
+/**
+ * Next report of each ticker within `days`, for the watchlist
+ * One Finnhub request covers every ticker; without FINNHUB_API_KEY only cached reports are returned.
+ */
+export async function getUpcomingEarnings(
+  tickers: string[],
+  supabase: SupabaseClient,
+  days: number = DEFAULT_EARNINGS_WINDOW_DAYS
+): Promise<Record<string, EarningsReport>> {
+  const symbols = [...new Set(tickers.map(ticker => ticker.toUpperCase()))];
+  const today = getNYCurrentDate();
+  const end = shiftDate(today, days);
+
+  try {
+    const reports = await fetchFinnhubEarnings(today, end);
+    if (reports) {
+      await storeEarningsReports(supabase, reports.filter(report => symbols.includes(report.ticker)));
+    }
+  } catch (error) {
+    console.warn('⚠️ Finnhub earnings calendar unavailable, using cached reports:', error);
+  }
+
+  const { data: rows, error } = await supabase
+    .from('earnings_calendar')
+    .select('*')
+    .in('ticker', symbols)
+    .gte('report_date', today)
+    .lte('report_date', end)
+    .order('report_date', { ascending: true });
+  if (error) {
+    throw new Error(`Failed to read earnings calendar: ${error.message}`);
+  }
+
+  const upcoming: Record<string, EarningsReport> = {};
+  for (const report of ((rows || []) as EarningsCalendarRow[]).map(fromRow)) {
+    if (!upcoming[report.ticker] && !isReported(report, today)) {
+      upcoming[report.ticker] = report;
+    }
+  }
+  return upcoming;
+}
+
+/**
+ * A report counts as out once its date has passed, or on the day itself when released before the open
+ */
+function isReported(report: EarningsReport, today: string): boolean {
+  return report.reportDate < today || (report.reportDate === today && report.timing === 'bmo');
+}
+
+/**
+ * Earnings context of a ticker on today's date
+ * Pre-earnings when the next report is within `windowDays`, post-earnings for POST_EARNINGS_DAYS after one.
+ * Never throws: earnings are context, so a failure returns null.
+ */
+export async function getEarningsEvent(
+  ticker: string,
+  supabase: EarningsCacheClient,
+  windowDays: number = DEFAULT_EARNINGS_WINDOW_DAYS
+): Promise<EarningsEvent | null> {
+  try {
+    const reports = await getEarningsReports(ticker, supabase);
+    const today = getNYCurrentDate();
+    const reported = reports.filter(report => isReported(report, today));
+    const nextReport = reports.find(report => !isReported(report, today)) || null;
+    const lastReport = reported[reported.length - 1] || null;
+    const daysUntilNext = nextReport ? daysBetween(today, nextReport.reportDate) : null;
+    const daysSinceLast = lastReport ? daysBetween(lastReport.reportDate, today) : null;
+
+    let mode: EarningsMode | null = null;
+    if (daysSinceLast !== null && daysSinceLast <= POST_EARNINGS_DAYS) {
+      mode = 'post_earnings';
+    } else if (daysUntilNext !== null && daysUntilNext <= windowDays) {
+      mode = 'pre_earnings';
+    }
+
+    return {
+      ticker: ticker.toUpperCase(),
+      mode,
+      windowDays,
+      nextReport,
+      lastReport,
+      daysUntilNext,
+      daysSinceLast,
+      history: reported.slice(-HISTORY_REPORTS).reverse()
+    };
+  } catch (error) {
+    console.warn(`⚠️ Could not determine earnings context for ${ticker}:`, error);
+    return null;
+  }
+}
+
+const surprisePercent = (report: EarningsReport): number | null =>
+  report.epsActual !== null && report.epsEstimate !== null && report.epsEstimate !== 0
+    ? (report.epsActual - report.epsEstimate) / Math.abs(report.epsEstimate) * 100
+    : null;
+
+/**
+ * Price reaction and post-earnings drift of past reports, from daily bars
+ * Releases before the open react on the report day; the rest on the next session.
+ */
+export function calculateEarningsReactions(reports: EarningsReport[], bars: HistoricalPrice[]): EarningsReaction[] {
+  const reactions: EarningsReaction[] = [];
+
+  for (const report of reports) {
+    const reactsSameDay = report.timing === 'bmo' || report.timing === 'dmh';
+    const reactionIndex = bars.findIndex(bar => reactsSameDay ? bar.date >= report.reportDate : bar.date > report.reportDate);
+    if (reactionIndex < 1) continue;
+
+    const before = bars[reactionIndex - 1].close;
+    const reaction = bars[reactionIndex].close;
+    const drift = bars[reactionIndex + DRIFT_DAYS]?.close;
+
+    reactions.push({
+      reportDate: report.reportDate,
+      timing: report.timing,
+      reactionPercent: (reaction / before - 1) * 100,
+      driftPercent: drift !== undefined ? (drift / reaction - 1) * 100 : null,
+      epsSurprisePercent: surprisePercent(report)
+    });
+  }
+
+  return reactions;
+}
+
+/**
+ * Move priced by the ATM straddle of the first expiration after the report
+ * An expiration on the report day only counts for releases before the close.
+ */
+export function estimateImpliedMove(chain: OptionsChain, report: EarningsReport): ImpliedMove | null {
+  if (!chain.underlyingPrice) {
+    return null;
+  }
+
+  const mid = (contract: { bid: number | null; ask: number | null }) =>
+    (contract.bid || 0) > 0 && (contract.ask || 0) > 0 ? (contract.bid! + contract.ask!) / 2 : null;
+  const coversReport = (expiration: string) =>
+    report.timing === 'bmo' || report.timing === 'dmh' ? expiration >= report.reportDate : expiration > report.reportDate;
+
+  const expiration = chain.contracts
+    .map(contract => contract.expiration)
+    .filter(coversReport)
+    .sort()[0];
+  if (!expiration) {
+    return null;
+  }
+
+  const quoted = chain.contracts.filter(contract => contract.expiration === expiration && mid(contract) !== null);
+  const strikes = [...new Set(quoted.map(contract => contract.strike))]
+    .filter(strike => quoted.some(c => c.strike === strike && c.type === 'call') && quoted.some(c => c.strike === strike && c.type === 'put'))
+    .sort((a, b) => Math.abs(a - chain.underlyingPrice!) - Math.abs(b - chain.underlyingPrice!));
+  const strike = strikes[0];
+  if (strike === undefined) {
+    return null;
+  }
+
+  const call = quoted.find(contract => contract.strike === strike && contract.type === 'call')!;
+  const put = quoted.find(contract => contract.strike === strike && contract.type === 'put')!;
+  const straddle = mid(call)! + mid(put)!;
+
+  return {
+    expiration,
+    strike,
+    straddle,
+    movePercent: straddle / chain.underlyingPrice * 100
+  };
+}
+
+/**
+ * Upper bound of a holding period such as "6-12 months" or "2 weeks", in calendar days
+ */
+export function parseHoldingPeriodDays(timeHorizon: string | null | undefined): number | null {
+  const match = String(timeHorizon || '').toLowerCase().match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(day|week|month|year)/);
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseFloat(match[2] || match[1]);
+  const unitDays: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+  return Math.round(amount * unitDays[match[3]]);
+}
+
+const TIMING_LABELS: Record<EarningsTiming, string> = {
+  bmo: 'before the open',
+  amc: 'after the close',
+  dmh: 'during market hours'
+};
+
+/**
+ * Report date, timing and fiscal quarter, e.g. "2025-07-31 after the close (Q3 FY2025)"
+ */
+export function describeEarningsReport(report: EarningsReport): string {
+  return `${report.reportDate}${report.timing ? ` ${TIMING_LABELS[report.timing]}` : ''}` +
+    (report.fiscalQuarter && report.fiscalYear ? ` (Q${report.fiscalQuarter} FY${report.fiscalYear})` : '');
+}
+
+const formatValue = (value: number | null, decimals: number = 2) => value === null ? 'n/a' : value.toFixed(decimals);
+const formatRevenue = (value: number | null) => value === null ? 'n/a' : `$${(value / 1e9).toFixed(2)}B`;
+const formatSigned = (value: number | null) => value === null ? 'n/a' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+/**
+ * Earnings event as a prompt section, with reactions and implied move when the caller has them
+ */
+export function formatEarningsEventForAI(
+  event: EarningsEvent,
+  reactions: EarningsReaction[] = [],
+  impliedMove: ImpliedMove | null = null
+): string {
+  const lines: string[] = [];
+
+  if (event.mode === 'pre_earnings' && event.nextReport) {
+    const next = event.nextReport;
+    lines.push(`Next report: ${describeEarningsReport(next)}, ${event.daysUntilNext} day(s) away`);
+    lines.push(`Consensus: EPS ${formatValue(next.epsEstimate)}, revenue ${formatRevenue(next.revenueEstimate)}`);
+    if (impliedMove) {
+      lines.push(`Options-implied move: ±${impliedMove.movePercent.toFixed(1)}% (${impliedMove.expiration} ATM straddle at ${impliedMove.strike}, $${impliedMove.straddle.toFixed(2)})`);
+    }
+  } else if (event.mode === 'post_earnings' && event.lastReport) {
+    const last = event.lastReport;
+    lines.push(`Latest report: ${describeEarningsReport(last)}, ${event.daysSinceLast} day(s) ago`);
+    lines.push(`EPS: actual ${formatValue(last.epsActual)} vs consensus ${formatValue(last.epsEstimate)} (surprise ${formatSigned(surprisePercent(last))})`);
+    lines.push(`Revenue: actual ${formatRevenue(last.revenueActual)} vs consensus ${formatRevenue(last.revenueEstimate)}`);
+  } else if (event.nextReport) {
+    lines.push(`Next report: ${describeEarningsReport(event.nextReport)}, ${event.daysUntilNext} day(s) away`);
+  }
+
+  if (reactions.length > 0) {
+    const averageMove = reactions.reduce((sum, reaction) => sum + Math.abs(reaction.reactionPercent), 0) / reactions.length;
+    const drifts = reactions.filter(reaction => reaction.driftPercent !== null);
+    const continued = drifts.filter(reaction => Math.sign(reaction.driftPercent!) === Math.sign(reaction.reactionPercent)).length;
+
+    lines.push('');
+    lines.push(`Past reactions (average absolute move ${averageMove.toFixed(1)}%; drift continued the reaction ${continued} of ${drifts.length} times):`);
+    lines.push(`Report | Reaction | ${DRIFT_DAYS}-day drift | EPS surprise`);
+    for (const reaction of reactions) {
+      lines.push(`${reaction.reportDate} | ${formatSigned(reaction.reactionPercent)} | ${formatSigned(reaction.driftPercent)} | ${formatSigned(reaction.epsSurprisePercent)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Earnings event snapshotted on an analysis when it started (see analysis-coordinator)
+ */
+export async function getAnalysisEarningsEvent(supabase: SupabaseClient, analysisId: string): Promise<EarningsEvent | null> {
+  const { data } = await supabase
+    .from('analysis_history')
+    .select('full_analysis')
+    .eq('id', analysisId)
+    .maybeSingle();
+
+  return data?.full_analysis?.earnings || null;
+}
@@ -0,0 +1,878 @@
+/**
+ * Technical indicator registry
+ * Each indicator declares the price series it reads, how many bars it needs before it is
+ * calculated, the TechnicalIndicators keys it fills and how it is presented to the AI.
+ * The market data cache always holds every indicator; users pick which ones the market
+ * analyst is given (api_settings.market_analyst_indicators).
+ */
+import type { HistoricalPrice, TechnicalIndicators } from './technicalIndicators.ts';
+
+export type IndicatorInput = 'open' | 'high' | 'low' | 'close' | 'volume';
+export type IndicatorCategory = 'trend' | 'momentum' | 'volatility' | 'volume' | 'levels';
+export type IndicatorValues = Record<string, number[]>;
+
+export interface PriceSeries {
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+}
+
+export interface IndicatorColumn {
+  key: string;         // TechnicalIndicators key
+  label: string;       // Column header in the AI table
+  decimals: number;
+}
+
+export interface IndicatorDefinition {
+  id: string;
+  name: string;
+  category: IndicatorCategory;
+  inputs: IndicatorInput[];
+  minLookback: number;                                 // Bars required before the indicator is calculated
+  outputs: (keyof TechnicalIndicators)[];
+  calculate: (series: PriceSeries) => IndicatorValues;
+  columns?: IndicatorColumn[];                         // Per-bar values, one column each in the AI table
+  formatLevels?: (values: IndicatorValues) => string;  // Price levels, listed below the AI table
+}
+
+export const FIBONACCI_RATIOS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+// ---------------------------------------------------------------------------
+// Calculations
+// ---------------------------------------------------------------------------
+
+/**
+ * Calculate Simple Moving Average
+ */
+function calculateSMA(prices: number[], period: number): number[] {
+  const sma: number[] = [];
+
+  for (let i = 0; i < prices.length; i++) {
+    if (i < period - 1) {
+      sma.push(NaN);
+    } else {
+      const sum = prices.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
+      sma.push(sum / period);
+    }
+  }
+
+  return sma;
+}
+
+/**
+ * Calculate Exponential Moving Average
+ */
+function calculateEMA(prices: number[], period: number): number[] {
+  const ema: number[] = [];
+  const multiplier = 2 / (period + 1);
+
+  // First EMA is just the first price
+  ema[0] = prices[0];
+
+  for (let i = 1; i < prices.length; i++) {
+    ema[i] = (prices[i] * multiplier) + (ema[i - 1] * (1 - multiplier));
+  }
+
+  return ema;
+}
+
+/**
+ * Wilder's smoothing (a running average that keeps (period - 1) / period of the previous value)
+ * Values before the first full period are NaN
+ */
+function wilderSmooth(values: number[], period: number): number[] {
+  const smoothed: number[] = new Array(values.length).fill(NaN);
+  if (values.length < period) {
+    return smoothed;
+  }
+
+  smoothed[period - 1] = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  for (let i = period; i < values.length; i++) {
+    smoothed[i] = (smoothed[i - 1] * (period - 1) + values[i]) / period;
+  }
+  return smoothed;
+}
+
+function highestHigh(high: number[], end: number, period: number): number {
+  return Math.max(...high.slice(end - period + 1, end + 1));
+}
+
+function lowestLow(low: number[], end: number, period: number): number {
+  return Math.min(...low.slice(end - period + 1, end + 1));
+}
+
+function typicalPrices(series: PriceSeries): number[] {
+  return series.close.map((close, i) => (series.high[i] + series.low[i] + close) / 3);
+}
+
+/**
+ * Calculate RSI (Relative Strength Index)
+ */
+function calculateRSI(prices: number[], period: number = 14): number[] {
+  const rsi: number[] = [];
+  const gains: number[] = [];
+  const losses: number[] = [];
+
+  // Calculate gains and losses
+  for (let i = 1; i < prices.length; i++) {
+    const change = prices[i] - prices[i - 1];
+    gains.push(change > 0 ? change : 0);
+    losses.push(change < 0 ? Math.abs(change) : 0);
+  }
+
+  for (let i = 0; i < gains.length; i++) {
+    if (i < period - 1) {
+      rsi.push(NaN);
+    } else {
+      const avgGain = gains.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0) / period;
+      const avgLoss = losses.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0) / period;
+
+      if (avgLoss === 0) {
+        rsi.push(100);
+      } else {
+        const rs = avgGain / avgLoss;
+        rsi.push(100 - (100 / (1 + rs)));
+      }
+    }
+  }
+
+  // First price has no RSI
+  return [NaN, ...rsi];
+}
+
+/**
+ * Calculate MACD (Moving Average Convergence Divergence)
+ */
+function calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
+  const emaFast = calculateEMA(prices, fastPeriod);
+  const emaSlow = calculateEMA(prices, slowPeriod);
+
+  const macd = emaFast.map((fast, i) => fast - emaSlow[i]);
+  const signal = calculateEMA(macd.slice(slowPeriod - 1), signalPeriod);
+  const histogram = macd.slice(slowPeriod - 1).map((macdVal, i) => macdVal - (signal[i] || 0));
+
+  // Pad signal and histogram to match macd length
+  const paddedSignal = new Array(slowPeriod - 1).fill(NaN).concat(signal);
+  const paddedHistogram = new Array(slowPeriod - 1).fill(NaN).concat(histogram);
+
+  return {
+    macd,
+    signal: paddedSignal,
+    histogram: paddedHistogram
+  };
+}
+
+/**
+ * Calculate Bollinger Bands
+ */
+function calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2) {
+  const sma = calculateSMA(prices, period);
+  const upper: number[] = [];
+  const lower: number[] = [];
+
+  for (let i = 0; i < prices.length; i++) {
+    if (i < period - 1) {
+      upper.push(NaN);
+      lower.push(NaN);
+    } else {
+      const slice = prices.slice(i - period + 1, i + 1);
+      const mean = sma[i];
+      const variance = slice.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) / period;
+      const standardDeviation = Math.sqrt(variance);
+
+      upper.push(mean + (standardDeviation * stdDev));
+      lower.push(mean - (standardDeviation * stdDev));
+    }
+  }
+
+  return {
+    upper,
+    middle: sma,
+    lower
+  };
+}
+
+/**
+ * Calculate Average True Range (ATR)
+ */
+export function calculateATR(high: number[], low: number[], close: number[], period: number = 14): number[] {
+  const trueRanges: number[] = [];
+
+  for (let i = 1; i < high.length; i++) {
+    const hl = high[i] - low[i];
+    const hc = Math.abs(high[i] - close[i - 1]);
+    const lc = Math.abs(low[i] - close[i - 1]);
+
+    trueRanges.push(Math.max(hl, hc, lc));
+  }
+
+  const atr = [NaN]; // First value is NaN
+  atr.push(...calculateSMA(trueRanges, period));
+
+  return atr;
+}
+
+/**
+ * Calculate Stochastic Oscillator
+ */
+function calculateStochastic(high: number[], low: number[], close: number[], kPeriod: number = 14, dPeriod: number = 3) {
+  const k: number[] = [];
+
+  for (let i = 0; i < close.length; i++) {
+    if (i < kPeriod - 1) {
+      k.push(NaN);
+    } else {
+      const highest = highestHigh(high, i, kPeriod);
+      const lowest = lowestLow(low, i, kPeriod);
+
+      if (highest === lowest) {
+        k.push(50);
+      } else {
+        k.push(((close[i] - lowest) / (highest - lowest)) * 100);
+      }
+    }
+  }
+
+  const d = calculateSMA(k, dPeriod);
+
+  return { k, d };
+}
+
+/**
+ * Calculate On-Balance Volume (OBV)
+ */
+function calculateOBV(close: number[], volume: number[]): number[] {
+  const obv: number[] = [volume[0]];
+
+  for (let i = 1; i < close.length; i++) {
+    if (close[i] > close[i - 1]) {
+      obv.push(obv[i - 1] + volume[i]);
+    } else if (close[i] < close[i - 1]) {
+      obv.push(obv[i - 1] - volume[i]);
+    } else {
+      obv.push(obv[i - 1]);
+    }
+  }
+
+  return obv;
+}
+
+/**
+ * Identify support and resistance levels
+ */
+function findSupportResistance(high: number[], low: number[], close: number[]): { support: number[], resistance: number[] } {
+  const levels: number[] = [];
+  const window = 10; // Look at 10 periods on each side
+
+  // Find local highs and lows
+  for (let i = window; i < high.length - window; i++) {
+    const isLocalHigh = high.slice(i - window, i + window + 1).every((val, idx) =>
+      idx === window || val <= high[i]
+    );
+    const isLocalLow = low.slice(i - window, i + window + 1).every((val, idx) =>
+      idx === window || val >= low[i]
+    );
+
+    if (isLocalHigh) levels.push(high[i]);
+    if (isLocalLow) levels.push(low[i]);
+  }
+
+  // Sort and group similar levels
+  levels.sort((a, b) => a - b);
+  const groupedLevels: number[] = [];
+  let currentGroup = [levels[0]];
+
+  for (let i = 1; i < levels.length; i++) {
+    if (Math.abs(levels[i] - levels[i - 1]) / levels[i - 1] < 0.02) { // Within 2%
+      currentGroup.push(levels[i]);
+    } else {
+      groupedLevels.push(currentGroup.reduce((a, b) => a + b) / currentGroup.length);
+      currentGroup = [levels[i]];
+    }
+  }
+
+  if (currentGroup.length > 0) {
+    groupedLevels.push(currentGroup.reduce((a, b) => a + b) / currentGroup.length);
+  }
+
+  const currentPrice = close[close.length - 1];
+  const support = groupedLevels.filter(level => level < currentPrice).slice(-3); // Top 3 support
+  const resistance = groupedLevels.filter(level => level > currentPrice).slice(0, 3); // Top 3 resistance
+
+  return { support, resistance };
+}
+
+/**
+ * Volume-weighted average price of the typical price, anchored to the first bar of the range
+ */
+function calculateVWAP(series: PriceSeries): number[] {
+  const typical = typicalPrices(series);
+  let cumulativeValue = 0;
+  let cumulativeVolume = 0;
+
+  return typical.map((price, i) => {
+    cumulativeValue += price * series.volume[i];
+    cumulativeVolume += series.volume[i];
+    return cumulativeVolume > 0 ? cumulativeValue / cumulativeVolume : NaN;
+  });
+}
+
+/**
+ * Average Directional Index with the +DI / -DI lines (Wilder)
+ */
+function calculateADX(high: number[], low: number[], close: number[], period: number = 14) {
+  const trueRanges: number[] = [0];
+  const plusDM: number[] = [0];
+  const minusDM: number[] = [0];
+
+  for (let i = 1; i < close.length; i++) {
+    const upMove = high[i] - high[i - 1];
+    const downMove = low[i - 1] - low[i];
+    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+    trueRanges.push(Math.max(high[i] - low[i], Math.abs(high[i] - close[i - 1]), Math.abs(low[i] - close[i - 1])));
+  }
+
+  // Smooth from the second bar; the first has no previous close
+  const smoothedTR = [NaN, ...wilderSmooth(trueRanges.slice(1), period)];
+  const smoothedPlusDM = [NaN, ...wilderSmooth(plusDM.slice(1), period)];
+  const smoothedMinusDM = [NaN, ...wilderSmooth(minusDM.slice(1), period)];
+
+  const plusDI = smoothedTR.map((tr, i) => tr > 0 ? (smoothedPlusDM[i] / tr) * 100 : NaN);
+  const minusDI = smoothedTR.map((tr, i) => tr > 0 ? (smoothedMinusDM[i] / tr) * 100 : NaN);
+  const dx = plusDI.map((plus, i) => {
+    const sum = plus + minusDI[i];
+    return sum > 0 ? (Math.abs(plus - minusDI[i]) / sum) * 100 : NaN;
+  });
+
+  const firstDX = dx.findIndex(value => Number.isFinite(value));
+  const adx: number[] = new Array(close.length).fill(NaN);
+  if (firstDX >= 0) {
+    wilderSmooth(dx.slice(firstDX), period).forEach((value, i) => {
+      adx[firstDX + i] = value;
+    });
+  }
+
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * Ichimoku cloud lines (9 / 26 / 52)
+ * Leading spans are stored on the bar they are computed from; charts conventionally plot them 26 bars ahead
+ */
+function calculateIchimoku(high: number[], low: number[]) {
+  const midpoint = (period: number) => high.map((_, i) =>
+    i < period - 1 ? NaN : (highestHigh(high, i, period) + lowestLow(low, i, period)) / 2
+  );
+
+  const tenkan = midpoint(9);
+  const kijun = midpoint(26);
+  const senkouA = tenkan.map((value, i) => (value + kijun[i]) / 2);
+  const senkouB = midpoint(52);
+
+  return { tenkan, kijun, senkouA, senkouB };
+}
+
+/**
+ * Keltner channels: 20-period EMA with bands two 10-period ATRs away
+ */
+function calculateKeltnerChannels(high: number[], low: number[], close: number[], emaPeriod: number = 20, atrPeriod: number = 10, multiplier: number = 2) {
+  const middle = calculateEMA(close, emaPeriod).map((value, i) => i < emaPeriod - 1 ? NaN : value);
+  const atr = calculateATR(high, low, close, atrPeriod);
+
+  return {
+    upper: middle.map((value, i) => value + multiplier * atr[i]),
+    middle,
+    lower: middle.map((value, i) => value - multiplier * atr[i])
+  };
+}
+
+/**
+ * Commodity Channel Index
+ */
+function calculateCCI(series: PriceSeries, period: number = 20): number[] {
+  const typical = typicalPrices(series);
+  const sma = calculateSMA(typical, period);
+
+  return typical.map((price, i) => {
+    if (i < period - 1) return NaN;
+    const meanDeviation = typical.slice(i - period + 1, i + 1).reduce((sum, value) => sum + Math.abs(value - sma[i]), 0) / period;
+    return meanDeviation > 0 ? (price - sma[i]) / (0.015 * meanDeviation) : 0;
+  });
+}
+
+/**
+ * Money Flow Index (volume-weighted RSI of the typical price)
+ */
+function calculateMFI(series: PriceSeries, period: number = 14): number[] {
+  const typical = typicalPrices(series);
+  const mfi: number[] = [NaN];
+
+  for (let i = 1; i < typical.length; i++) {
+    if (i < period) {
+      mfi.push(NaN);
+      continue;
+    }
+
+    let positiveFlow = 0;
+    let negativeFlow = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const flow = typical[j] * series.volume[j];
+      if (typical[j] > typical[j - 1]) positiveFlow += flow;
+      else if (typical[j] < typical[j - 1]) negativeFlow += flow;
+    }
+
+    mfi.push(negativeFlow === 0 ? 100 : 100 - (100 / (1 + positiveFlow / negativeFlow)));
+  }
+
+  return mfi;
+}
+
+/**
+ * Williams %R (0 at the period high, -100 at the period low)
+ */
+function calculateWilliamsR(high: number[], low: number[], close: number[], period: number = 14): number[] {
+  return close.map((price, i) => {
+    if (i < period - 1) return NaN;
+    const highest = highestHigh(high, i, period);
+    const lowest = lowestLow(low, i, period);
+    return highest === lowest ? -50 : ((highest - price) / (highest - lowest)) * -100;
+  });
+}
+
+/**
+ * Parabolic SAR (step 0.02, maximum 0.2)
+ */
+function calculateParabolicSAR(high: number[], low: number[], step: number = 0.02, maxStep: number = 0.2): number[] {
+  const sar: number[] = [NaN];
+  if (high.length < 2) {
+    return sar;
+  }
+
+  let rising = high[1] >= high[0];
+  let acceleration = step;
+  let extremePoint = rising ? high[1] : low[1];
+  let current = rising ? low[0] : high[0];
+
+  for (let i = 1; i < high.length; i++) {
+    if (i > 1) {
+      current = current + acceleration * (extremePoint - current);
+      // SAR never moves inside the previous two bars' range
+      current = rising
+        ? Math.min(current, low[i - 1], low[i - 2])
+        : Math.max(current, high[i - 1], high[i - 2]);
+    }
+
+    if (rising && low[i] < current) {
+      rising = false;
+      current = extremePoint;
+      extremePoint = low[i];
+      acceleration = step;
+    } else if (!rising && high[i] > current) {
+      rising = true;
+      current = extremePoint;
+      extremePoint = high[i];
+      acceleration = step;
+    } else if (rising && high[i] > extremePoint) {
+      extremePoint = high[i];
+      acceleration = Math.min(acceleration + step, maxStep);
+    } else if (!rising && low[i] < extremePoint) {
+      extremePoint = low[i];
+      acceleration = Math.min(acceleration + step, maxStep);
+    }
+
+    sar.push(current);
+  }
+
+  return sar;
+}
+
+/**
+ * Fibonacci retracement prices of the range's main swing, ordered as FIBONACCI_RATIOS
+ * 0% is the end of the swing (the high after an advance, the low after a decline)
+ */
+function calculateFibonacciLevels(high: number[], low: number[]): number[] {
+  const highIndex = high.indexOf(Math.max(...high));
+  const lowIndex = low.indexOf(Math.min(...low));
+  const swingHigh = high[highIndex];
+  const swingLow = low[lowIndex];
+  const range = swingHigh - swingLow;
+  const advance = lowIndex < highIndex;
+
+  return FIBONACCI_RATIOS.map(ratio => advance ? swingHigh - range * ratio : swingLow + range * ratio);
+}
+
+const formatPrices = (levels: number[]) => levels.length > 0 ? levels.map(level => level.toFixed(2)).join(', ') : 'None identified';
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const movingAverage = (type: 'sma' | 'ema', period: number): IndicatorDefinition => {
+  const key = `${type}_${period}` as keyof TechnicalIndicators;
+  return {
+    id: key,
+    name: `${type.toUpperCase()} ${period}`,
+    category: 'trend',
+    inputs: ['close'],
+    minLookback: period,
+    outputs: [key],
+    calculate: ({ close }) => ({ [key]: type === 'sma' ? calculateSMA(close, period) : calculateEMA(close, period) }),
+    columns: [{ key, label: `${type.toUpperCase()}${period}`, decimals: 2 }]
+  };
+};
+
+export const INDICATOR_REGISTRY: IndicatorDefinition[] = [
+  movingAverage('sma', 10),
+  movingAverage('sma', 20),
+  movingAverage('sma', 50),
+  movingAverage('sma', 200),
+  movingAverage('ema', 12),
+  movingAverage('ema', 26),
+  movingAverage('ema', 50),
+  {
+    id: 'macd',
+    name: 'MACD (12, 26, 9)',
+    category: 'momentum',
+    inputs: ['close'],
+    minLookback: 35,
+    outputs: ['macd', 'macd_signal', 'macd_histogram'],
+    calculate: ({ close }) => {
+      const macd = calculateMACD(close);
+      return { macd: macd.macd, macd_signal: macd.signal, macd_histogram: macd.histogram };
+    },
+    columns: [
+      { key: 'macd', label: 'MACD', decimals: 4 },
+      { key: 'macd_signal', label: 'Signal', decimals: 4 }
+    ]
+  },
+  {
+    id: 'rsi',
+    name: 'RSI (14)',
+    category: 'momentum',
+    inputs: ['close'],
+    minLookback: 15,
+    outputs: ['rsi'],
+    calculate: ({ close }) => ({ rsi: calculateRSI(close) }),
+    columns: [{ key: 'rsi', label: 'RSI', decimals: 2 }]
+  },
+  {
+    id: 'stochastic',
+    name: 'Stochastic (14, 3)',
+    category: 'momentum',
+    inputs: ['high', 'low', 'close'],
+    minLookback: 16,
+    outputs: ['stochastic_k', 'stochastic_d'],
+    calculate: ({ high, low, close }) => {
+      const stochastic = calculateStochastic(high, low, close);
+      return { stochastic_k: stochastic.k, stochastic_d: stochastic.d };
+    },
+    columns: [
+      { key: 'stochastic_k', label: 'Stoch_K', decimals: 2 },
+      { key: 'stochastic_d', label: 'Stoch_D', decimals: 2 }
+    ]
+  },
+  {
+    id: 'bollinger',
+    name: 'Bollinger Bands (20, 2)',
+    category: 'volatility',
+    inputs: ['close'],
+    minLookback: 20,
+    outputs: ['bollinger_upper', 'bollinger_middle', 'bollinger_lower'],
+    calculate: ({ close }) => {
+      const bollinger = calculateBollingerBands(close);
+      return { bollinger_upper: bollinger.upper, bollinger_middle: bollinger.middle, bollinger_lower: bollinger.lower };
+    },
+    columns: [
+      { key: 'bollinger_upper', label: 'Bollinger_Upper', decimals: 2 },
+      { key: 'bollinger_lower', label: 'Bollinger_Lower', decimals: 2 }
+    ]
+  },
+  {
+    id: 'atr',
+    name: 'ATR (14)',
+    category: 'volatility',
+    inputs: ['high', 'low', 'close'],
+    minLookback: 15,
+    outputs: ['atr'],
+    calculate: ({ high, low, close }) => ({ atr: calculateATR(high, low, close) }),
+    columns: [{ key: 'atr', label: 'ATR', decimals: 3 }]
+  },
+  {
+    id: 'volume_sma',
+    name: 'Volume SMA (20)',
+    category: 'volume',
+    inputs: ['volume'],
+    minLookback: 10,
+    outputs: ['volume_sma'],
+    // Short ranges average over half the bars
+    calculate: ({ volume }) => ({ volume_sma: calculateSMA(volume, Math.min(20, Math.floor(volume.length / 2))) }),
+    columns: [{ key: 'volume_sma', label: 'Volume_SMA', decimals: 0 }]
+  },
+  {
+    id: 'obv',
+    name: 'On-Balance Volume',
+    category: 'volume',
+    inputs: ['close', 'volume'],
+    minLookback: 2,
+    outputs: ['obv'],
+    calculate: ({ close, volume }) => ({ obv: calculateOBV(close, volume) }),
+    columns: [{ key: 'obv', label: 'OBV', decimals: 0 }]
+  },
+  {
+    id: 'vwap',
+    name: 'VWAP (anchored to the start of the range)',
+    category: 'volume',
+    inputs: ['high', 'low', 'close', 'volume'],
+    minLookback: 1,
+    outputs: ['vwap'],
+    calculate: (series) => ({ vwap: calculateVWAP(series) }),
+    columns: [{ key: 'vwap', label: 'VWAP', decimals: 2 }]
+  },
+  {
+    id: 'adx',
+    name: 'ADX / DMI (14)',
+    category: 'trend',
+    inputs: ['high', 'low', 'close'],
+    minLookback: 28,
+    outputs: ['adx', 'plus_di', 'minus_di'],
+    calculate: ({ high, low, close }) => {
+      const { adx, plusDI, minusDI } = calculateADX(high, low, close);
+      return { adx, plus_di: plusDI, minus_di: minusDI };
+    },
+    columns: [
+      { key: 'adx', label: 'ADX', decimals: 2 },
+      { key: 'plus_di', label: '+DI', decimals: 2 },
+      { key: 'minus_di', label: '-DI', decimals: 2 }
+    ]
+  },
+  {
+    id: 'ichimoku',
+    name: 'Ichimoku Cloud (9, 26, 52)',
+    category: 'trend',
+    inputs: ['high', 'low'],
+    minLookback: 52,
+    outputs: ['ichimoku_tenkan', 'ichimoku_kijun', 'ichimoku_senkou_a', 'ichimoku_senkou_b'],
+    calculate: ({ high, low }) => {
+      const ichimoku = calculateIchimoku(high, low);
+      return {
+        ichimoku_tenkan: ichimoku.tenkan,
+        ichimoku_kijun: ichimoku.kijun,
+        ichimoku_senkou_a: ichimoku.senkouA,
+        ichimoku_senkou_b: ichimoku.senkouB
+      };
+    },
+    columns: [
+      { key: 'ichimoku_tenkan', label: 'Tenkan', decimals: 2 },
+      { key: 'ichimoku_kijun', label: 'Kijun', decimals: 2 },
+      { key: 'ichimoku_senkou_a', label: 'SenkouA_unshifted', decimals: 2 },
+      { key: 'ichimoku_senkou_b', label: 'SenkouB_unshifted', decimals: 2 }
+    ]
+  },
+  {
+    id: 'keltner',
+    name: 'Keltner Channels (20, 2 x ATR 10)',
+    category: 'volatility',
+    inputs: ['high', 'low', 'close'],
+    minLookback: 20,
+    outputs: ['keltner_upper', 'keltner_middle', 'keltner_lower'],
+    calculate: ({ high, low, close }) => {
+      const keltner = calculateKeltnerChannels(high, low, close);
+      return { keltner_upper: keltner.upper, keltner_middle: keltner.middle, keltner_lower: keltner.lower };
+    },
+    columns: [
+      { key: 'keltner_upper', label: 'Keltner_Upper', decimals: 2 },
+      { key: 'keltner_lower', label: 'Keltner_Lower', decimals: 2 }
+    ]
+  },
+  {
+    id: 'cci',
+    name: 'CCI (20)',
+    category: 'momentum',
+    inputs: ['high', 'low', 'close'],
+    minLookback: 20,
+    outputs: ['cci'],
+    calculate: (series) => ({ cci: calculateCCI(series) }),
+    columns: [{ key: 'cci', label: 'CCI', decimals: 1 }]
+  },
+  {
+    id: 'mfi',
+    name: 'Money Flow Index (14)',
+    category: 'volume',
+    inputs: ['high', 'low', 'close', 'volume'],
+    minLookback: 15,
+    outputs: ['mfi'],
+    calculate: (series) => ({ mfi: calculateMFI(series) }),
+    columns: [{ key: 'mfi', label: 'MFI', decimals: 2 }]
+  },
+  {
+    id: 'williams_r',
+    name: 'Williams %R (14)',
+    category: 'momentum',
+    inputs: ['high', 'low', 'close'],
+    minLookback: 14,
+    outputs: ['williams_r'],
+    calculate: ({ high, low, close }) => ({ williams_r: calculateWilliamsR(high, low, close) }),
+    columns: [{ key: 'williams_r', label: 'Williams_R', decimals: 2 }]
+  },
+  {
+    id: 'psar',
+    name: 'Parabolic SAR (0.02, 0.2)',
+    category: 'trend',
+    inputs: ['high', 'low'],
+    minLookback: 5,
+    outputs: ['psar'],
+    calculate: ({ high, low }) => ({ psar: calculateParabolicSAR(high, low) }),
+    columns: [{ key: 'psar', label: 'PSAR', decimals: 2 }]
+  },
+  {
+    id: 'support_resistance',
+    name: 'Support / Resistance',
+    category: 'levels',
+    inputs: ['high', 'low', 'close'],
+    minLookback: 60,
+    outputs: ['support_levels', 'resistance_levels'],
+    calculate: ({ high, low, close }) => {
+      const { support, resistance } = findSupportResistance(high, low, close);
+      return { support_levels: support, resistance_levels: resistance };
+    },
+    formatLevels: (values) =>
+      `Support: ${formatPrices(values.support_levels || [])}\nResistance: ${formatPrices(values.resistance_levels || [])}`
+  },
+  {
+    id: 'fibonacci',
+    name: 'Fibonacci Retracements',
+    category: 'levels',
+    inputs: ['high', 'low'],
+    minLookback: 20,
+    outputs: ['fibonacci_levels'],
+    calculate: ({ high, low }) => ({ fibonacci_levels: calculateFibonacciLevels(high, low) }),
+    formatLevels: ({ fibonacci_levels: levels = [] }) => {
+      if (levels.length !== FIBONACCI_RATIOS.length) return 'Fibonacci: not available';
+      const swing = levels[0] > levels[levels.length - 1] ? 'advance' : 'decline';
+      return `Fibonacci retracements of the range's ${swing} from ${levels[levels.length - 1].toFixed(2)} to ${levels[0].toFixed(2)}: ` +
+        FIBONACCI_RATIOS.map((ratio, i) => `${(ratio * 100).toFixed(1)}% ${levels[i].toFixed(2)}`).join(', ');
+    }
+  }
+];
+
+const REGISTRY_BY_ID = new Map(INDICATOR_REGISTRY.map(definition => [definition.id, definition]));
+
+// The indicators the market analyst received before they were configurable
+export const DEFAULT_INDICATOR_IDS = [
+  'sma_10', 'sma_20', 'sma_50', 'sma_200', 'ema_12', 'ema_26', 'ema_50',
+  'macd', 'rsi', 'stochastic', 'bollinger', 'atr', 'volume_sma', 'obv', 'support_resistance'
+];
+
+export function getIndicatorDefinition(id: string): IndicatorDefinition | undefined {
+  return REGISTRY_BY_ID.get(id);
+}
+
+/**
+ * The user's indicator choice with unknown ids dropped; no choice means the defaults
+ */
+export function resolveIndicatorSelection(selection?: string[] | null): string[] {
+  if (!Array.isArray(selection) || selection.length === 0) {
+    return DEFAULT_INDICATOR_IDS;
+  }
+
+  const known = selection.filter(id => REGISTRY_BY_ID.has(id));
+  if (known.length < selection.length) {
+    console.warn(`⚠️ Ignoring unknown indicators: ${selection.filter(id => !REGISTRY_BY_ID.has(id)).join(', ')}`);
+  }
+  return known.length > 0 ? known : DEFAULT_INDICATOR_IDS;
+}
+
+/**
+ * Whether a (cached) indicator set has every registry output, i.e. was calculated by the current registry
+ */
+export function hasAllIndicatorOutputs(indicators: Record<string, unknown> | null | undefined): boolean {
+  return !!indicators && INDICATOR_REGISTRY.every(definition =>
+    definition.outputs.every(key => Array.isArray(indicators[key]))
+  );
+}
+
+/**
+ * Run every registry indicator that the bars support
+ * Indicators lacking history or input data are left as empty arrays and reported as skipped.
+ */
+export function calculateRegistryIndicators(historicalData: HistoricalPrice[]): {
+  values: IndicatorValues;
+  calculated: string[];
+  skipped: { id: string; reason: string }[];
+} {
+  const series: PriceSeries = {
+    open: historicalData.map(d => d.open),
+    high: historicalData.map(d => d.high),
+    low: historicalData.map(d => d.low),
+    close: historicalData.map(d => d.close),
+    volume: historicalData.map(d => d.volume)
+  };
+  const hasVolume = series.volume.some(volume => volume > 0);
+
+  const values: IndicatorValues = {};
+  const calculated: string[] = [];
+  const skipped: { id: string; reason: string }[] = [];
+
+  for (const definition of INDICATOR_REGISTRY) {
+    definition.outputs.forEach(key => { values[key] = []; });
+
+    if (historicalData.length < definition.minLookback) {
+      skipped.push({ id: definition.id, reason: `needs ${definition.minLookback} bars` });
+      continue;
+    }
+    if (definition.inputs.includes('volume') && !hasVolume) {
+      skipped.push({ id: definition.id, reason: 'no volume data' });
+      continue;
+    }
+
+    try {
+      Object.assign(values, definition.calculate(series));
+      calculated.push(definition.id);
+    } catch (error) {
+      console.error(`❌ Failed to calculate ${definition.id}:`, error);
+      skipped.push({ id: definition.id, reason: 'calculation failed' });
+    }
+  }
+
+  return { values, calculated, skipped };
+}
+
+// Indicator outputs with the calculation metadata stored next to them
+type IndicatorSet = Partial<TechnicalIndicators> & {
+  metadata?: { indicatorsCalculated?: string[]; [key: string]: unknown };
+};
+
+/**
+ * Only the outputs of the selected indicators (plus calculation metadata, narrowed to the selection)
+ */
+export function selectIndicators(indicators: IndicatorSet, selection: string[]): IndicatorSet {
+  const selected: IndicatorSet = {};
+
+  for (const id of selection) {
+    for (const key of getIndicatorDefinition(id)?.outputs || []) {
+      if (indicators[key]) {
+        selected[key] = indicators[key];
+      }
+    }
+  }
+
+  if (indicators.metadata) {
+    selected.metadata = {
+      ...indicators.metadata,
+      indicatorsCalculated: (indicators.metadata.indicatorsCalculated || []).filter(id => selection.includes(id))
+    };
+  }
+  return selected;
+}
+
+/**
+ * Registry definitions whose outputs hold data in an indicator set, in registry order
+ */
+export function getPresentIndicators(indicators: Partial<TechnicalIndicators>): IndicatorDefinition[] {
+  return INDICATOR_REGISTRY.filter(definition =>
+    definition.outputs.some(key => (indicators[key]?.length || 0) > 0)
+  );
+}
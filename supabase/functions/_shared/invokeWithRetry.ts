@@ -1,5 +1,6 @@
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { ANALYSIS_STATUS } from './statusTypes.ts';
+import { getAgentDisplayName, getAgentInsightKey, parseAgentRef } from './workflowCatalog.ts';
 
 /**
  * Enhanced function invocation with retry logic for better reliability
@@ -19,7 +20,11 @@ export async function invokeWithRetry(
     try {
       console.log(`📡 Invoking ${functionName} (attempt ${attempt + 1}/${maxRetries + 1})`);
 
-      const result = await supabase.functions.invoke(functionName, { body });
+      // A repeated agent ("agent-trader#2") runs as its function, told which instance it is
+      const { functionName: targetFunction, instance } = parseAgentRef(functionName);
+      const result = await supabase.functions.invoke(targetFunction, {
+        body: instance > 1 ? { ...body, agentInstance: instance } : body
+      });
 
       // Check for invocation errors
       if (result.error) {
@@ -105,7 +110,7 @@ export async function invokeAgentWithRetry(
   const { getAgentSpecificSettings } = await import('../analysis-coordinator/utils/api-settings.ts');
 
   // Get agent-specific settings based on team configuration
-  const agentSpecificSettings = getAgentSpecificSettings(apiSettings, agentName);
+  const agentSpecificSettings = getAgentSpecificSettings(apiSettings, parseAgentRef(agentName).functionName);
 
   const body: any = {
     analysisId,
@@ -220,31 +225,6 @@ export async function invokeAgentWithRetry(
   return;
 }
 
-/**
- * Get display name for an agent function name
- */
-function getAgentDisplayName(agentFunctionName: string): string {
-  const nameMap: { [key: string]: string } = {
-    'agent-macro-analyst': 'Macro Analyst',
-    'agent-market-analyst': 'Market Analyst',
-    'agent-fundamentals-analyst': 'Fundamentals Analyst',
-    'agent-news-analyst': 'News Analyst',
-    'agent-social-media-analyst': 'Social Media Analyst',
-    'agent-research-manager': 'Research Manager',
-    'agent-bull-researcher': 'Bull Researcher',
-    'agent-bear-researcher': 'Bear Researcher',
-    'agent-risky-analyst': 'Risky Analyst',
-    'agent-safe-analyst': 'Safe Analyst',
-    'agent-neutral-analyst': 'Neutral Analyst',
-    'agent-risk-manager': 'Risk Manager',
-    'agent-trader': 'Trader',
-    'agent-portfolio-manager': 'Portfolio Manager',
-    'analysis-portfolio-manager': 'Portfolio Manager'
-  };
-
-  return nameMap[agentFunctionName] || agentFunctionName;
-}
-
 /**
  * Set up coordinator-level timeout monitoring for agent invocations
  * This creates a safety net in case agents fail to start or callback
@@ -305,7 +285,7 @@ function setupCoordinatorTimeoutMonitoring(
           console.warn(`   Current updated_at: ${currentUpdatedAt}`);
 
           // Check if this specific agent has provided any insights
-          const agentKey = agentName.replace('agent-', '').replace('-', '_');
+          const agentKey = getAgentInsightKey(agentName);
           const hasAgentInsight = analysis.agent_insights && analysis.agent_insights[agentKey];
 
           if (!hasAgentInsight) {
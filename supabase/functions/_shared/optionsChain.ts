@@ -0,0 +1,380 @@
+/**
+ * Options chain utilities for Supabase Edge Functions
+ * Fetches contracts and snapshots from Alpaca, summarizes the chain for the agents
+ * and picks concrete contracts for single-leg option orders.
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { AlpacaBroker } from './broker.ts';
+import { getNYCurrentDate } from './timezoneUtils.ts';
+
+export type OptionType = 'call' | 'put';
+
+export interface OptionContractSnapshot {
+  symbol: string;           // OCC symbol, e.g. AAPL250117C00200000
+  type: OptionType;
+  strike: number;
+  expiration: string;       // YYYY-MM-DD
+  dte: number;              // Calendar days to expiration from today in New York
+  bid: number | null;
+  ask: number | null;
+  impliedVolatility: number | null;
+  delta: number | null;
+  openInterest: number | null;
+}
+
+export interface OptionsChain {
+  underlying: string;
+  underlyingPrice: number | null;
+  asOf: string;
+  contracts: OptionContractSnapshot[];
+}
+
+export interface OptionsChainSummary {
+  underlying: string;
+  underlyingPrice: number | null;
+  contracts: number;
+  expirations: number;
+  referenceExpiration: string | null;  // Expiration closest to 30 DTE, used for IV and skew
+  referenceDte: number | null;
+  atmImpliedVolatility: number | null;
+  put25DeltaIv: number | null;
+  call25DeltaIv: number | null;
+  putCallSkew: number | null;          // 25-delta put IV minus 25-delta call IV, in volatility points
+  callOpenInterest: number;
+  putOpenInterest: number;
+  putCallOpenInterestRatio: number | null;
+  maxCallOpenInterestStrike: number | null;
+  maxPutOpenInterestStrike: number | null;
+}
+
+export interface OptionsChainRange {
+  minDte?: number;
+  maxDte?: number;
+}
+
+export interface ContractSelection {
+  type: OptionType;
+  targetDte: number;
+  targetDelta: number;      // Absolute delta, e.g. 0.3
+}
+
+export interface OccSymbolParts {
+  underlying: string;
+  expiration: string;
+  type: OptionType;
+  strike: number;
+}
+
+interface AlpacaCredentials {
+  apiKey: string;
+  secretKey: string;
+  paper: boolean;
+}
+
+// Contract from the trading API /v2/options/contracts endpoint
+interface AlpacaOptionContract {
+  symbol: string;
+  type?: OptionType;
+  expiration_date?: string;
+  strike_price?: string | number;
+  open_interest?: string | number | null;
+}
+
+// Snapshot from the data API /v1beta1/options/snapshots endpoint
+interface AlpacaOptionSnapshot {
+  latestQuote?: { bp?: number; ap?: number };
+  impliedVolatility?: number;
+  greeks?: { delta?: number };
+}
+
+// One page of either endpoint; each fills only its own list
+interface AlpacaOptionsPage {
+  option_contracts?: AlpacaOptionContract[];
+  snapshots?: Record<string, AlpacaOptionSnapshot>;
+  next_page_token?: string | null;
+}
+
+const REFERENCE_DTE = 30;
+const MAX_PAGES = 5;
+const OCC_SYMBOL_PATTERN = /^([A-Z.]{1,6})(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+/**
+ * Split an OCC option symbol into its parts, or null when the symbol is not an option
+ */
+export function parseOccSymbol(symbol: string): OccSymbolParts | null {
+  const match = OCC_SYMBOL_PATTERN.exec(symbol);
+  if (!match) {
+    return null;
+  }
+
+  const [, underlying, year, month, day, type, strike] = match;
+  return {
+    underlying,
+    expiration: `20${year}-${month}-${day}`,
+    type: type === 'C' ? 'call' : 'put',
+    strike: Number(strike) / 1000
+  };
+}
+
+function daysUntil(expiration: string, today: string): number {
+  return Math.round((Date.parse(`${expiration}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / 86400000);
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+};
+
+async function fetchAllPages(
+  url: string,
+  credentials: AlpacaCredentials,
+  collect: (page: AlpacaOptionsPage) => void
+): Promise<void> {
+  let pageToken: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const pageUrl: string = pageToken ? `${url}&page_token=${encodeURIComponent(pageToken)}` : url;
+    const response = await fetch(pageUrl, {
+      headers: {
+        'APCA-API-KEY-ID': credentials.apiKey,
+        'APCA-API-SECRET-KEY': credentials.secretKey,
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Alpaca options request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data: AlpacaOptionsPage = await response.json();
+    collect(data);
+
+    pageToken = data.next_page_token || null;
+    if (!pageToken) {
+      return;
+    }
+  }
+
+  console.warn(`⚠️ Options chain truncated after ${MAX_PAGES} pages: ${url}`);
+}
+
+/**
+ * Fetch the options chain of an underlying between minDte and maxDte days to expiration
+ * Contract terms and open interest come from the trading API, quotes and greeks from the data API.
+ */
+export async function fetchOptionsChain(
+  underlying: string,
+  credentials: AlpacaCredentials,
+  range: OptionsChainRange = {}
+): Promise<OptionsChain> {
+  const symbol = underlying.toUpperCase();
+  const today = getNYCurrentDate();
+  const minDte = Math.max(0, range.minDte ?? 7);
+  const maxDte = Math.max(minDte, range.maxDte ?? 60);
+  const dateRange = `expiration_date_gte=${shiftDate(today, minDte)}&expiration_date_lte=${shiftDate(today, maxDte)}`;
+
+  const tradingBaseUrl = credentials.paper
+    ? 'https://paper-api.alpaca.markets'
+    : 'https://api.alpaca.markets';
+
+  const contractTerms = new Map<string, AlpacaOptionContract>();
+  await fetchAllPages(
+    `${tradingBaseUrl}/v2/options/contracts?underlying_symbols=${symbol}&status=active&${dateRange}&limit=10000`,
+    credentials,
+    (page) => (page.option_contracts || []).forEach(contract => contractTerms.set(contract.symbol, contract))
+  );
+
+  const snapshots: Record<string, AlpacaOptionSnapshot> = {};
+  await fetchAllPages(
+    `https://data.alpaca.markets/v1beta1/options/snapshots/${symbol}?feed=indicative&${dateRange}&limit=1000`,
+    credentials,
+    (page) => Object.assign(snapshots, page.snapshots || {})
+  );
+
+  const quote = await new AlpacaBroker(credentials).getQuote(symbol);
+
+  const contracts: OptionContractSnapshot[] = [];
+  for (const [contractSymbol, terms] of contractTerms) {
+    const snapshot = snapshots[contractSymbol];
+    const parsed = parseOccSymbol(contractSymbol);
+    const expiration = terms.expiration_date || parsed?.expiration;
+    const type = terms.type || parsed?.type;
+    const strike = toNumber(terms.strike_price) ?? parsed?.strike;
+    if (!expiration || !type || !strike) continue;
+
+    contracts.push({
+      symbol: contractSymbol,
+      type,
+      strike,
+      expiration,
+      dte: daysUntil(expiration, today),
+      bid: toNumber(snapshot?.latestQuote?.bp),
+      ask: toNumber(snapshot?.latestQuote?.ap),
+      impliedVolatility: toNumber(snapshot?.impliedVolatility),
+      delta: toNumber(snapshot?.greeks?.delta),
+      openInterest: toNumber(terms.open_interest)
+    });
+  }
+
+  contracts.sort((a, b) => a.expiration.localeCompare(b.expiration) || a.strike - b.strike || a.type.localeCompare(b.type));
+  console.log(`📜 Options chain for ${symbol}: ${contracts.length} contracts, ${Object.keys(snapshots).length} snapshots (${minDte}-${maxDte} DTE)`);
+
+  return {
+    underlying: symbol,
+    underlyingPrice: quote?.price || null,
+    asOf: new Date().toISOString(),
+    contracts
+  };
+}
+
+function nearestBy<T>(items: T[], distance: (item: T) => number): T | null {
+  let best: T | null = null;
+  let bestDistance = Infinity;
+  for (const item of items) {
+    const itemDistance = distance(item);
+    if (itemDistance < bestDistance) {
+      best = item;
+      bestDistance = itemDistance;
+    }
+  }
+  return best;
+}
+
+function nearestExpiration(chain: OptionsChain, targetDte: number): string | null {
+  const expiration = nearestBy(chain.contracts, contract => Math.abs(contract.dte - targetDte));
+  return expiration?.expiration || null;
+}
+
+function maxOpenInterestStrike(contracts: OptionContractSnapshot[]): number | null {
+  const top = contracts.reduce<OptionContractSnapshot | null>(
+    (best, contract) => (contract.openInterest || 0) > (best?.openInterest || 0) ? contract : best,
+    null
+  );
+  return top?.strike ?? null;
+}
+
+const round = (value: number | null, decimals: number): number | null =>
+  value === null ? null : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Implied volatility, 25-delta put/call skew and open interest of a chain
+ * IV and skew are read from the expiration closest to 30 DTE; open interest covers the whole chain.
+ */
+export function summarizeOptionsChain(chain: OptionsChain): OptionsChainSummary {
+  const referenceExpiration = nearestExpiration(chain, REFERENCE_DTE);
+  const reference = chain.contracts.filter(contract =>
+    contract.expiration === referenceExpiration && contract.impliedVolatility !== null
+  );
+  const calls = reference.filter(contract => contract.type === 'call');
+  const puts = reference.filter(contract => contract.type === 'put');
+
+  let atmImpliedVolatility: number | null = null;
+  if (chain.underlyingPrice) {
+    const atmCall = nearestBy(calls, contract => Math.abs(contract.strike - chain.underlyingPrice!));
+    const atmPut = nearestBy(puts, contract => Math.abs(contract.strike - chain.underlyingPrice!));
+    const atmIvs = [atmCall?.impliedVolatility, atmPut?.impliedVolatility].filter((iv): iv is number => typeof iv === 'number');
+    atmImpliedVolatility = atmIvs.length > 0 ? atmIvs.reduce((sum, iv) => sum + iv, 0) / atmIvs.length : null;
+  }
+
+  const call25 = nearestBy(calls.filter(contract => contract.delta !== null), contract => Math.abs(contract.delta! - 0.25));
+  const put25 = nearestBy(puts.filter(contract => contract.delta !== null), contract => Math.abs(contract.delta! + 0.25));
+  const call25DeltaIv = call25?.impliedVolatility ?? null;
+  const put25DeltaIv = put25?.impliedVolatility ?? null;
+
+  const allCalls = chain.contracts.filter(contract => contract.type === 'call');
+  const allPuts = chain.contracts.filter(contract => contract.type === 'put');
+  const callOpenInterest = allCalls.reduce((sum, contract) => sum + (contract.openInterest || 0), 0);
+  const putOpenInterest = allPuts.reduce((sum, contract) => sum + (contract.openInterest || 0), 0);
+
+  return {
+    underlying: chain.underlying,
+    underlyingPrice: chain.underlyingPrice,
+    contracts: chain.contracts.length,
+    expirations: new Set(chain.contracts.map(contract => contract.expiration)).size,
+    referenceExpiration,
+    referenceDte: reference[0]?.dte ?? null,
+    atmImpliedVolatility: round(atmImpliedVolatility, 4),
+    put25DeltaIv: round(put25DeltaIv, 4),
+    call25DeltaIv: round(call25DeltaIv, 4),
+    putCallSkew: put25DeltaIv !== null && call25DeltaIv !== null ? round(put25DeltaIv - call25DeltaIv, 4) : null,
+    callOpenInterest,
+    putOpenInterest,
+    putCallOpenInterestRatio: callOpenInterest > 0 ? round(putOpenInterest / callOpenInterest, 2) : null,
+    maxCallOpenInterestStrike: maxOpenInterestStrike(allCalls),
+    maxPutOpenInterestStrike: maxOpenInterestStrike(allPuts)
+  };
+}
+
+const formatIv = (iv: number | null) => iv === null ? 'n/a' : `${(iv * 100).toFixed(1)}%`;
+
+/**
+ * Options chain summary as a prompt section
+ */
+export function formatOptionsSummaryForAI(summary: OptionsChainSummary): string {
+  const skew = summary.putCallSkew === null
+    ? 'n/a'
+    : `${summary.putCallSkew >= 0 ? '+' : ''}${(summary.putCallSkew * 100).toFixed(1)} vol pts (${summary.putCallSkew > 0 ? 'puts bid over calls' : 'calls bid over puts'})`;
+
+  return `- Chain: ${summary.contracts} contracts across ${summary.expirations} expirations
+- ATM implied volatility (${summary.referenceExpiration || 'n/a'}, ${summary.referenceDte ?? 'n/a'} DTE): ${formatIv(summary.atmImpliedVolatility)}
+- 25-delta IV: puts ${formatIv(summary.put25DeltaIv)}, calls ${formatIv(summary.call25DeltaIv)}; put/call skew ${skew}
+- Open interest: ${summary.callOpenInterest.toLocaleString()} calls, ${summary.putOpenInterest.toLocaleString()} puts (put/call ratio ${summary.putCallOpenInterestRatio ?? 'n/a'})
+- Largest open interest strikes: calls ${summary.maxCallOpenInterestStrike ?? 'n/a'}, puts ${summary.maxPutOpenInterestStrike ?? 'n/a'}`;
+}
+
+/**
+ * Contract of the requested type nearest to the target DTE and absolute delta, with a two-sided quote
+ */
+export function selectOptionContract(chain: OptionsChain, selection: ContractSelection): OptionContractSnapshot | null {
+  const candidates = chain.contracts.filter(contract =>
+    contract.type === selection.type &&
+    contract.delta !== null &&
+    (contract.bid || 0) > 0 &&
+    (contract.ask || 0) > 0
+  );
+  const expiration = nearestBy(candidates, contract => Math.abs(contract.dte - selection.targetDte))?.expiration;
+  if (!expiration) {
+    return null;
+  }
+
+  return nearestBy(
+    candidates.filter(contract => contract.expiration === expiration),
+    contract => Math.abs(Math.abs(contract.delta!) - selection.targetDelta)
+  );
+}
+
+/**
+ * Fetch a chain through the alpaca-proxy options-chain data path on behalf of a user
+ * Returns null when the account has no options data or the request fails; options context is optional.
+ */
+export async function invokeOptionsChain(
+  supabase: SupabaseClient,
+  userId: string,
+  underlying: string,
+  range: OptionsChainRange = {}
+): Promise<{ chain: OptionsChain; summary: OptionsChainSummary } | null> {
+  try {
+    const { data, error } = await supabase.functions.invoke('alpaca-proxy', {
+      body: { action: 'options-chain', userId, underlying, ...range }
+    });
+
+    if (error || !data?.chain) {
+      console.warn(`⚠️ Options chain unavailable for ${underlying}:`, error?.message || data?.error);
+      return null;
+    }
+    if (data.chain.contracts.length === 0) {
+      console.log(`ℹ️ No listed options for ${underlying}`);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.warn(`⚠️ Options chain unavailable for ${underlying}:`, error);
+    return null;
+  }
+}
@@ -2,8 +2,15 @@
  * Shared Perplefina API client for finance-focused analysis
  */
 
+import { OPENAI_COMPATIBLE_PROVIDER } from './aiProviders.ts';
+
 const PERPLEFINA_API_URL = Deno.env.get('PERPLEFINA_API_URL');
 
+// Perplefina names the generic OpenAI-compatible chat model provider differently
+const PERPLEFINA_PROVIDER_NAMES: Record<string, string> = {
+  [OPENAI_COMPATIBLE_PROVIDER]: 'custom_openai'
+};
+
 export interface PerplefinaRequest {
   focusMode: 'news' | 'social' | 'fundamentals' | 'macroEconomy';
   query: string;
@@ -35,9 +42,10 @@ export interface PerplefinaResponse {
  * Call Perplefina API for finance-focused analysis
  */
 export async function callPerplefina(request: PerplefinaRequest): Promise<PerplefinaResponse> {
-  // Normalize model name for non-OpenRouter providers
+  // Normalize model name for hosted providers (self-hosted model ids are used as-is)
   let normalizedModel = request.chatModel.model;
-  if (request.chatModel.provider !== 'openrouter' && normalizedModel.includes('/')) {
+  const keepModelId = ['openrouter', OPENAI_COMPATIBLE_PROVIDER].includes(request.chatModel.provider);
+  if (!keepModelId && normalizedModel.includes('/')) {
     // Strip prefix for non-OpenRouter providers (e.g., "openai/gpt-4o" -> "gpt-4o")
     normalizedModel = normalizedModel.split('/').pop() || normalizedModel;
   }
@@ -49,7 +57,7 @@ export async function callPerplefina(request: PerplefinaRequest): Promise<Perple
     maxSources: request.maxSources || 10,
     stream: false,
     chatModel: {
-      provider: request.chatModel.provider,
+      provider: PERPLEFINA_PROVIDER_NAMES[request.chatModel.provider] || request.chatModel.provider,
       model: normalizedModel,
       apiKey: request.chatModel.apiKey,
       ...(request.chatModel.baseUrl && { baseUrl: request.chatModel.baseUrl })
@@ -65,6 +73,10 @@ export async function callPerplefina(request: PerplefinaRequest): Promise<Perple
     })
   };
 
+  if (!PERPLEFINA_API_URL) {
+    throw new Error('PERPLEFINA_API_URL is not set');
+  }
+
   console.log(`🔍 Calling Perplefina with focus mode: ${request.focusMode}`);
 
   const response = await fetch(PERPLEFINA_API_URL, {
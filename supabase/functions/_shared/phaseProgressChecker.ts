@@ -1,5 +1,13 @@
-import { WORKFLOW_PHASES } from '../analysis-coordinator/config/workflow.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  WORKFLOW_PHASES,
+  getAgentDisplayName,
+  getAnalysisWorkflowPhases,
+  getAnalysisPhaseConfig
+} from '../analysis-coordinator/config/workflow.ts';
+import type { WorkflowPhases } from '../analysis-coordinator/types/index.ts';
 import { invokeWithRetry } from './invokeWithRetry.ts';
+import { claimPhaseJoin } from './atomicUpdate.ts';
 
 /**
  * Phase Progress Checker
@@ -18,7 +26,7 @@ export async function getNextAgentInSequence(
   phase: string,
   currentAgentName: string
 ): Promise<string | null> {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, phase);
   if (!phaseConfig || !phaseConfig.agents) {
     console.warn(`⚠️ No phase config found for phase: ${phase}`);
     return null;
@@ -66,33 +74,63 @@ export async function isLastAgentInPhase(
 /**
  * Get phase configuration for a given phase
  */
-export function getPhaseConfig(phase: string) {
-  return WORKFLOW_PHASES[phase] || null;
+export function getPhaseConfig(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES) {
+  return phases[phase] || null;
 }
 
 /**
  * Get all agents for a phase in order
  */
-export function getPhaseAgents(phase: string): string[] {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+export function getPhaseAgents(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES): string[] {
+  const phaseConfig = phases[phase];
   return phaseConfig ? phaseConfig.agents : [];
 }
 
 /**
  * Check if a phase exists
  */
-export function isValidPhase(phase: string): boolean {
-  return phase in WORKFLOW_PHASES;
+export function isValidPhase(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES): boolean {
+  return phase in phases;
 }
 
 /**
  * Get the final agent for a phase (if any)
  */
-export function getFinalAgentForPhase(phase: string): string | null {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+export function getFinalAgentForPhase(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES): string | null {
+  const phaseConfig = phases[phase];
   return phaseConfig?.finalAgent || null;
 }
 
+/**
+ * Check if a phase starts all of its agents at once instead of handing off between them
+ */
+export function isParallelPhase(phase: string, phases: WorkflowPhases = WORKFLOW_PHASES): boolean {
+  return phases[phase]?.mode === 'parallel';
+}
+
+/**
+ * Join barrier for a parallel phase
+ * `claimed` is true for the single caller that observes every agent finished or failed,
+ * which is then responsible for reporting the phase as complete
+ */
+export async function joinParallelPhase(
+  supabase: SupabaseClient,
+  analysisId: string,
+  phase: string,
+  phases: WorkflowPhases
+): Promise<{ success: boolean; claimed: boolean; error?: string }> {
+  const agentNames = getPhaseAgents(phase, phases).map(getAgentDisplayName);
+  const result = await claimPhaseJoin(supabase, analysisId, phase, agentNames);
+  
+  if (result.claimed) {
+    console.log(`🔗 All ${agentNames.length} agents in ${phase} phase have finished - join claimed`);
+  } else if (result.success) {
+    console.log(`⏳ Other agents in ${phase} phase are still running (or the join was already claimed)`);
+  }
+  
+  return result;
+}
+
 /**
  * Check if all regular agents in a phase are complete and it's time for the final agent
  */
@@ -102,7 +140,7 @@ export async function shouldStartFinalAgent(
   phase: string,
   completedAgent: string
 ): Promise<boolean> {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, phase);
   if (!phaseConfig || !phaseConfig.finalAgent) {
     return false;
   }
@@ -127,7 +165,8 @@ export async function shouldStartFinalAgent(
 async function getIncompleteAgentsInPhase(
   supabase: any,
   analysisId: string,
-  phase: string
+  phase: string,
+  phases: WorkflowPhases
 ): Promise<string[]> {
   try {
     // Fetch the current analysis workflow status
@@ -150,8 +189,8 @@ async function getIncompleteAgentsInPhase(
       return [];
     }
     
-    // Get all agents in this phase from config
-    const phaseConfig = WORKFLOW_PHASES[phase];
+    // Get all agents in this phase from the analysis's workflow definition
+    const phaseConfig = phases[phase];
     if (!phaseConfig || !phaseConfig.agents) {
       return [];
     }
@@ -181,7 +220,8 @@ async function getIncompleteAgentsInPhase(
 }
 
 /**
- * Direct invoke next agent with smart selection (random from incomplete/error agents)
+ * Direct invoke the next incomplete (or errored) agent in the phase's listed order
+ * In parallel phases nothing is invoked - the agent only checks the join barrier
  */
 export async function invokeNextAgentInSequence(
   supabase: any,
@@ -197,8 +237,24 @@ export async function invokeNextAgentInSequence(
   let intendedNextAgent: string | null = null;
   
   try {
+    // Load the workflow definition this analysis was started with
+    const phases = await getAnalysisWorkflowPhases(supabase, analysisId);
+    
+    // Parallel phases were fanned out by the coordinator, so there is nobody to hand off to;
+    // the agent that passes the join barrier reports the phase as complete
+    if (isParallelPhase(phase, phases)) {
+      const join = await joinParallelPhase(supabase, analysisId, phase, phases);
+      if (!join.success) {
+        throw new Error(join.error || `Failed to check ${phase} phase join`);
+      }
+      return { 
+        success: true, 
+        isLastInPhase: join.claimed 
+      };
+    }
+    
     // First, get all incomplete agents in this phase
-    let incompleteAgents = await getIncompleteAgentsInPhase(supabase, analysisId, phase);
+    let incompleteAgents = await getIncompleteAgentsInPhase(supabase, analysisId, phase, phases);
     
     // Filter out the current agent from the incomplete list (since it's currently running)
     const currentAgentFunction = currentAgentName.startsWith('agent-') 
@@ -210,7 +266,7 @@ export async function invokeNextAgentInSequence(
     
     // If no other incomplete agents, check if we should invoke final agent
     if (incompleteAgents.length === 0) {
-      const finalAgent = getFinalAgentForPhase(phase);
+      const finalAgent = getFinalAgentForPhase(phase, phases);
       if (finalAgent) {
         // Check if final agent is already complete
         const { data: analysis } = await supabase
@@ -222,7 +278,7 @@ export async function invokeNextAgentInSequence(
         const workflowSteps = analysis?.full_analysis?.workflowSteps || [];
         const phaseStep = workflowSteps.find((step: any) => step.id === phase);
         const finalAgentStatus = phaseStep?.agents?.find((a: any) => 
-          a.name === getFinalAgentDisplayName(finalAgent) || 
+          a.name === getAgentDisplayName(finalAgent) || 
           a.functionName === finalAgent
         );
         
@@ -230,7 +286,7 @@ export async function invokeNextAgentInSequence(
           console.log(`🎯 Invoking final agent for ${phase} phase: ${finalAgent}`);
           
           // Set final agent status to "running" before invoking to prevent duplicates
-          const agentDisplayName = getFinalAgentDisplayName(finalAgent);
+          const agentDisplayName = getAgentDisplayName(finalAgent);
           console.log(`📍 Setting ${agentDisplayName} status to "running" before invocation`);
           await supabase.rpc('update_workflow_step_status', {
             p_analysis_id: analysisId,
@@ -278,13 +334,11 @@ export async function invokeNextAgentInSequence(
       };
     }
     
-    // Randomly select one of the incomplete agents
-    const randomIndex = Math.floor(Math.random() * incompleteAgents.length);
-    const nextAgent = incompleteAgents[randomIndex];
+    // Sequential phases hand off in the defined order
+    const nextAgent = incompleteAgents[0];
+    console.log(`📋 Selected next agent in defined order: ${nextAgent}`);
     intendedNextAgent = nextAgent;
     
-    console.log(`🎲 Randomly selected incomplete agent: ${nextAgent} from ${incompleteAgents.length} options`);
-    
     // Set next agent status to "running" before invoking to prevent duplicates
     const nextAgentDisplayName = getAgentDisplayName(nextAgent);
     console.log(`📍 Setting ${nextAgentDisplayName} status to "running" before invocation`);
@@ -340,40 +394,3 @@ export async function invokeNextAgentInSequence(
     };
   }
 }
-
-/**
- * Get display name for an agent function name
- */
-function getAgentDisplayName(agentFunctionName: string): string {
-  const nameMap: { [key: string]: string } = {
-    'agent-macro-analyst': 'Macro Analyst',
-    'agent-market-analyst': 'Market Analyst',
-    'agent-fundamentals-analyst': 'Fundamentals Analyst', 
-    'agent-news-analyst': 'News Analyst',
-    'agent-social-media-analyst': 'Social Media Analyst',
-    'agent-research-manager': 'Research Manager',
-    'agent-bull-researcher': 'Bull Researcher',
-    'agent-bear-researcher': 'Bear Researcher',
-    'agent-risky-analyst': 'Risky Analyst',
-    'agent-safe-analyst': 'Safe Analyst',
-    'agent-neutral-analyst': 'Neutral Analyst',
-    'agent-risk-manager': 'Risk Manager',
-    'agent-trader': 'Trader',
-    'agent-portfolio-manager': 'Portfolio Manager'
-  };
-  
-  return nameMap[agentFunctionName] || agentFunctionName;
-}
-
-/**
- * Get display name for final agent function name
- */
-function getFinalAgentDisplayName(finalAgentName: string): string {
-  const nameMap: { [key: string]: string } = {
-    'agent-research-manager': 'Research Manager', 
-    'agent-risk-manager': 'Risk Manager',
-    'agent-portfolio-manager': 'Portfolio Manager'
-  };
-  
-  return nameMap[finalAgentName] || finalAgentName;
-}
\ No newline at end of file
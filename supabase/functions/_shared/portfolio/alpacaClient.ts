@@ -1,10 +1,10 @@
 /**
- * Shared Alpaca portfolio client for portfolio management functions
+ * Shared portfolio client for portfolio management functions
  * Extracted from duplicate code in analysis-portfolio-manager
  */
 
 import { AlpacaPortfolioData } from './types.ts';
-import { extractAlpacaCredentials, createAlpacaHeaders } from './config.ts';
+import { BrokerOrder, createBroker } from '../broker.ts';
 
 // Legacy portfolio data format for backward compatibility
 export interface LegacyPortfolioData {
@@ -40,60 +40,39 @@ export interface LegacyPortfolioData {
 }
 
 /**
- * Fetch complete portfolio data from Alpaca API
+ * Fetch complete portfolio data from the user's broker
  * Includes account information, positions, and open orders with reserved capital calculations
  */
 export async function fetchAlpacaPortfolio(apiSettings: any): Promise<AlpacaPortfolioData> {
-  const { apiKey, secretKey, baseUrl, isPaperTrading } = extractAlpacaCredentials(apiSettings);
-  const headers = createAlpacaHeaders(apiKey, secretKey);
+  const broker = createBroker(apiSettings);
 
   try {
-    console.log('📊 Fetching Alpaca account from:', baseUrl);
-    console.log('📊 Using paper trading:', isPaperTrading);
-    console.log('📊 API Key present:', !!apiKey);
-    console.log('📊 Secret Key present:', !!secretKey);
-    
-    // Fetch account data
-    const accountResponse = await fetch(`${baseUrl}/v2/account`, { headers });
-    if (!accountResponse.ok) {
-      const errorText = await accountResponse.text();
-      console.error('❌ Alpaca API error response:', {
-        status: accountResponse.status,
-        statusText: accountResponse.statusText,
-        body: errorText
-      });
-      throw new Error(`Alpaca account fetch failed: ${accountResponse.status} ${accountResponse.statusText}`);
-    }
-    const account = await accountResponse.json();
+    console.log(`📊 Fetching ${broker.provider} account (paper trading: ${broker.paper})`);
 
-    // Fetch positions
-    const positionsResponse = await fetch(`${baseUrl}/v2/positions`, { headers });
-    if (!positionsResponse.ok) {
-      throw new Error(`Alpaca positions fetch failed: ${positionsResponse.statusText}`);
-    }
-    const positions = await positionsResponse.json();
+    const [account, positions] = await Promise.all([broker.getAccount(), broker.getPositions()]);
 
     // Fetch open orders
-    const ordersResponse = await fetch(`${baseUrl}/v2/orders?status=open`, { headers });
-    if (!ordersResponse.ok) {
-      console.warn('⚠️ Failed to fetch open orders, continuing without them');
+    let openOrders: BrokerOrder[] = [];
+    try {
+      openOrders = await broker.getOrders({ status: 'open' });
+    } catch (error: any) {
+      console.warn('⚠️ Failed to fetch open orders, continuing without them:', error.message);
     }
-    const openOrders = ordersResponse.ok ? await ordersResponse.json() : [];
     
     // Calculate reserved capital from pending orders
     let reservedCapital = 0;
-    const pendingOrders = openOrders.map((order: any) => {
+    const pendingOrders = openOrders.map(order => {
       let orderReservedAmount = 0;
       
       if (order.side === 'buy') {
         if (order.notional) {
-          orderReservedAmount = parseFloat(order.notional);
-        } else if (order.qty && order.limit_price) {
-          orderReservedAmount = parseFloat(order.qty) * parseFloat(order.limit_price);
-        } else if (order.qty && order.type === 'market') {
-          const position = positions.find((p: any) => p.symbol === order.symbol);
-          const estimatedPrice = position?.current_price || position?.lastday_price || 0;
-          orderReservedAmount = parseFloat(order.qty) * estimatedPrice * 1.02; // 2% buffer
+          orderReservedAmount = order.notional;
+        } else if (order.quantity && order.limitPrice) {
+          orderReservedAmount = order.quantity * order.limitPrice;
+        } else if (order.quantity && order.type === 'market') {
+          const position = positions.find(p => p.symbol === order.symbol);
+          const estimatedPrice = position?.currentPrice || position?.lastdayPrice || 0;
+          orderReservedAmount = order.quantity * estimatedPrice * 1.02; // 2% buffer
         }
         reservedCapital += orderReservedAmount;
       }
@@ -101,17 +80,17 @@ export async function fetchAlpacaPortfolio(apiSettings: any): Promise<AlpacaPort
       return {
         symbol: order.symbol,
         side: order.side,
-        qty: parseFloat(order.qty || 0),
-        notional: parseFloat(order.notional || 0),
+        qty: order.quantity || 0,
+        notional: order.notional || 0,
         type: order.type,
         status: order.status,
-        submitted_at: order.submitted_at,
-        limit_price: order.limit_price ? parseFloat(order.limit_price) : null,
+        submitted_at: order.submittedAt || order.createdAt,
+        limit_price: order.limitPrice,
         reservedCapital: orderReservedAmount
       };
     });
     
-    const adjustedCash = Math.max(0, parseFloat(account.cash) - reservedCapital);
+    const adjustedCash = Math.max(0, account.cash - reservedCapital);
     
     console.log(`📊 Open orders found: ${openOrders.length}`);
     console.log(`💰 Reserved capital from pending orders: $${reservedCapital.toFixed(2)}`);
@@ -119,30 +98,32 @@ export async function fetchAlpacaPortfolio(apiSettings: any): Promise<AlpacaPort
 
     return {
       account: {
-        buying_power: parseFloat(account.buying_power),
-        original_buying_power: parseFloat(account.buying_power),
+        buying_power: account.buyingPower,
+        original_buying_power: account.buyingPower,
         cash: adjustedCash,
-        original_cash: parseFloat(account.cash),
-        portfolio_value: parseFloat(account.portfolio_value),
-        long_market_value: parseFloat(account.long_market_value),
-        equity: parseFloat(account.equity),
-        day_trade_count: account.daytrade_count,
-        pattern_day_trader: account.pattern_day_trader,
+        original_cash: account.cash,
+        portfolio_value: account.portfolioValue,
+        long_market_value: account.longMarketValue,
+        short_market_value: account.shortMarketValue,
+        equity: account.equity,
+        last_equity: account.lastEquity,
+        day_trade_count: account.dayTradeCount,
+        pattern_day_trader: account.patternDayTrader,
         reserved_capital: reservedCapital
       },
-      positions: positions.map((p: any) => ({
+      positions: positions.map(p => ({
         symbol: p.symbol,
-        qty: parseFloat(p.qty),
-        avg_entry_price: parseFloat(p.avg_entry_price),
-        current_price: parseFloat(p.current_price || p.lastday_price),
-        market_value: parseFloat(p.market_value),
-        unrealized_pl: parseFloat(p.unrealized_pl),
-        unrealized_plpc: parseFloat(p.unrealized_plpc)
+        qty: p.quantity,
+        avg_entry_price: p.avgEntryPrice,
+        current_price: p.currentPrice,
+        market_value: p.marketValue,
+        unrealized_pl: p.unrealizedPl,
+        unrealized_plpc: p.unrealizedPlPercent / 100
       })),
       openOrders: pendingOrders
     };
   } catch (error) {
-    console.error('❌ Failed to fetch Alpaca portfolio:', error);
+    console.error('❌ Failed to fetch broker portfolio:', error);
     throw error;
   }
 }
@@ -10,7 +10,9 @@ export interface AlpacaPortfolioData {
     original_cash: number;
     portfolio_value: number;
     long_market_value: number;
+    short_market_value: number;
     equity: number;
+    last_equity: number;
     day_trade_count: number;
     pattern_day_trader: boolean;
     reserved_capital: number;
@@ -48,6 +50,7 @@ export interface AlpacaApiSettings {
 export interface PortfolioApiSettings extends AlpacaApiSettings {
   ai_provider?: string;
   ai_api_key?: string;
+  ai_base_url?: string | null; // Only for openai-compatible providers
   ai_model?: string;
   user_risk_level?: 'conservative' | 'moderate' | 'aggressive';
   default_position_size_dollars?: number;
@@ -0,0 +1,437 @@
+/**
+ * Portfolio-level risk analytics - beta vs SPY, 1-day historical and parametric VaR/CVaR,
+ * pairwise return correlations and sector/industry concentration
+ * Computed from cached daily bars (fetchAlpacaHistoricalData) and the Alpaca positions;
+ * used as context by agent-risk-manager and analysis-portfolio-manager and shown by portfolio-risk
+ */
+import { AlpacaPortfolioData } from './portfolio/types.ts';
+import { CredentialedClient, fetchAlpacaHistoricalData, HistoricalPrice, MarketDataCredentials } from './technicalIndicators.ts';
+import { ClassificationCacheClient, getTickerClassifications, TickerClassification, UNCLASSIFIED_SECTOR } from './sectorClassification.ts';
+
+export const BENCHMARK_SYMBOL = 'SPY';
+
+// Thresholds for warnings and the risk manager's concentration factor
+export const SECTOR_CONCENTRATION_LIMIT = 0.30;
+export const POSITION_CONCENTRATION_LIMIT = 0.20;
+export const HIGH_CORRELATION = 0.7;
+
+const MIN_RETURNS = 30;
+const MAX_RETURNS = 252;
+
+// Standard normal quantile and density at 95% and 99% confidence
+const NORMAL = {
+  95: { z: 1.6449, density: 0.10314 },
+  99: { z: 2.3263, density: 0.02665 }
+};
+
+export interface VaRMeasure {
+  confidence: 95 | 99;
+  var: number;       // loss as a fraction of portfolio value (positive = loss)
+  cvar: number;
+  varAmount: number; // loss in dollars
+  cvarAmount: number;
+}
+
+export interface PositionRisk {
+  symbol: string;
+  marketValue: number;
+  weight: number;
+  beta: number | null;
+  volatility: number | null; // annualized
+  sector: string;
+  industry: string | null;
+}
+
+export interface ExposureBucket {
+  name: string;
+  weight: number;
+  symbols: string[];
+}
+
+export interface CorrelatedPair {
+  a: string;
+  b: string;
+  correlation: number;
+}
+
+export interface CandidateRisk {
+  symbol: string;
+  held: boolean;
+  beta: number | null;
+  sector: string;
+  industry: string | null;
+  sectorWeight: number;   // current weight of the candidate's sector
+  maxCorrelation: CorrelatedPair | null;
+  averageCorrelation: number | null;
+}
+
+export interface PortfolioRiskReport {
+  asOf: string;
+  portfolioValue: number;
+  investedValue: number;
+  cashWeight: number;
+  observations: number;  // daily returns used
+  beta: number | null;
+  volatility: number | null; // annualized
+  historicalVaR: VaRMeasure[];
+  parametricVaR: VaRMeasure[];
+  positions: PositionRisk[];
+  sectors: ExposureBucket[];
+  industries: ExposureBucket[];
+  herfindahl: number;    // sum of squared position weights (1 = single position)
+  correlation: {
+    symbols: string[];
+    matrix: (number | null)[][];
+  };
+  highlyCorrelated: CorrelatedPair[];
+  candidate: CandidateRisk | null;
+  warnings: string[];
+  missingHistory: string[];
+}
+
+export interface PortfolioRiskInput {
+  portfolioValue: number;
+  positions: { symbol: string; marketValue: number }[];
+  bars: Record<string, HistoricalPrice[]>;
+  classifications: Record<string, TickerClassification>;
+  candidateSymbol?: string;
+  asOf?: Date;
+}
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function dailyReturns(bars: HistoricalPrice[]): Map<string, number> {
+  const returns = new Map<string, number>();
+  const sorted = [...bars].sort((a, b) => a.date.localeCompare(b.date));
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1].close;
+    if (previous > 0 && sorted[i].close > 0) {
+      returns.set(sorted[i].date.slice(0, 10), sorted[i].close / previous - 1);
+    }
+  }
+  return returns;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (a.length - 1);
+}
+
+function correlation(a: number[], b: number[]): number | null {
+  const denominator = Math.sqrt(covariance(a, a) * covariance(b, b));
+  return denominator > 0 ? covariance(a, b) / denominator : null;
+}
+
+function beta(returns: number[], benchmark: number[]): number | null {
+  const benchmarkVariance = covariance(benchmark, benchmark);
+  return benchmarkVariance > 0 ? covariance(returns, benchmark) / benchmarkVariance : null;
+}
+
+/**
+ * Returns of the given series on the dates all of them share, most recent MAX_RETURNS
+ */
+function alignReturns(series: Map<string, number>[]): number[][] {
+  if (series.length === 0) {
+    return [];
+  }
+  const dates = [...series[0].keys()]
+    .filter(date => series.every(returns => returns.has(date)))
+    .sort()
+    .slice(-MAX_RETURNS);
+  return series.map(returns => dates.map(date => returns.get(date)!));
+}
+
+function historicalVaR(returns: number[], confidence: 95 | 99, portfolioValue: number): VaRMeasure {
+  const losses = returns.map(value => -value).sort((a, b) => b - a);
+  const tailCount = Math.max(1, Math.floor(losses.length * (1 - confidence / 100)));
+  const varValue = losses[tailCount - 1];
+  const cvarValue = mean(losses.slice(0, tailCount));
+  return toMeasure(confidence, varValue, cvarValue, portfolioValue);
+}
+
+function parametricVaR(returns: number[], confidence: 95 | 99, portfolioValue: number): VaRMeasure {
+  const mu = mean(returns);
+  const sigma = Math.sqrt(covariance(returns, returns));
+  const { z, density } = NORMAL[confidence];
+  const tail = 1 - confidence / 100;
+  return toMeasure(confidence, z * sigma - mu, sigma * density / tail - mu, portfolioValue);
+}
+
+function toMeasure(confidence: 95 | 99, varValue: number, cvarValue: number, portfolioValue: number): VaRMeasure {
+  return {
+    confidence,
+    var: round(varValue),
+    cvar: round(cvarValue),
+    varAmount: Math.round(varValue * portfolioValue * 100) / 100,
+    cvarAmount: Math.round(cvarValue * portfolioValue * 100) / 100
+  };
+}
+
+function exposureBuckets(positions: PositionRisk[], key: 'sector' | 'industry'): ExposureBucket[] {
+  const buckets = new Map<string, ExposureBucket>();
+  for (const position of positions) {
+    const name = position[key] || UNCLASSIFIED_SECTOR;
+    const bucket = buckets.get(name) || { name, weight: 0, symbols: [] };
+    bucket.weight += position.weight;
+    bucket.symbols.push(position.symbol);
+    buckets.set(name, bucket);
+  }
+  return [...buckets.values()]
+    .map(bucket => ({ ...bucket, weight: round(bucket.weight) }))
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Risk report of a portfolio from its positions, daily bars (incl. SPY) and classifications
+ * Positions without enough history are weighted in the exposures but left out of beta, VaR and correlations
+ */
+export function computePortfolioRisk(input: PortfolioRiskInput): PortfolioRiskReport {
+  const portfolioValue = input.portfolioValue;
+  const holdings = input.positions.filter(position => position.marketValue !== 0);
+  const investedValue = holdings.reduce((sum, position) => sum + position.marketValue, 0);
+  const classify = (symbol: string) =>
+    input.classifications[symbol] || { ticker: symbol, sector: UNCLASSIFIED_SECTOR, industry: null, sic: null };
+
+  const returnsBySymbol = new Map<string, Map<string, number>>();
+  for (const symbol of [BENCHMARK_SYMBOL, ...holdings.map(position => position.symbol), input.candidateSymbol].filter(Boolean) as string[]) {
+    const returns = dailyReturns(input.bars[symbol] || []);
+    if (returns.size >= MIN_RETURNS) {
+      returnsBySymbol.set(symbol, returns);
+    }
+  }
+
+  const benchmark = returnsBySymbol.get(BENCHMARK_SYMBOL);
+  const missingHistory = holdings.map(position => position.symbol).filter(symbol => !returnsBySymbol.has(symbol));
+  const modeled = holdings.filter(position => returnsBySymbol.has(position.symbol));
+
+  const betaOf = (symbol: string): number | null => {
+    const returns = returnsBySymbol.get(symbol);
+    if (!returns || !benchmark) {
+      return null;
+    }
+    const [own, market] = alignReturns([returns, benchmark]);
+    return own.length >= MIN_RETURNS ? beta(own, market) : null;
+  };
+
+  const positions: PositionRisk[] = holdings.map(position => {
+    const returns = returnsBySymbol.get(position.symbol);
+    const ownReturns = returns ? [...returns.values()].slice(-MAX_RETURNS) : [];
+    const classification = classify(position.symbol);
+    const positionBeta = betaOf(position.symbol);
+    return {
+      symbol: position.symbol,
+      marketValue: position.marketValue,
+      weight: portfolioValue > 0 ? round(position.marketValue / portfolioValue) : 0,
+      beta: positionBeta === null ? null : round(positionBeta, 2),
+      volatility: ownReturns.length >= MIN_RETURNS ? round(Math.sqrt(covariance(ownReturns, ownReturns) * 252)) : null,
+      sector: classification.sector,
+      industry: classification.industry
+    };
+  }).sort((a, b) => b.marketValue - a.marketValue);
+
+  // Portfolio daily returns on the dates every modeled holding traded (cash earns nothing)
+  const aligned = alignReturns(modeled.map(position => returnsBySymbol.get(position.symbol)!));
+  const observations = aligned[0]?.length || 0;
+  const portfolioReturns: number[] = [];
+  for (let day = 0; day < observations; day++) {
+    portfolioReturns.push(modeled.reduce(
+      (sum, position, index) => sum + (position.marketValue / portfolioValue) * aligned[index][day], 0
+    ));
+  }
+  const hasReturns = portfolioValue > 0 && observations >= MIN_RETURNS;
+
+  // Beta of the portfolio is the weighted beta of its holdings
+  const betaPositions = positions.filter(position => position.beta !== null);
+  const portfolioBeta = betaPositions.length > 0
+    ? round(betaPositions.reduce((sum, position) => sum + position.weight * position.beta!, 0), 2)
+    : null;
+
+  const symbols = modeled.map(position => position.symbol);
+  const matrix = symbols.map((_, row) => symbols.map((__, column) =>
+    row === column ? 1 : (() => {
+      const value = correlation(aligned[row], aligned[column]);
+      return value === null ? null : round(value, 2);
+    })()
+  ));
+  const highlyCorrelated: CorrelatedPair[] = [];
+  for (let row = 0; row < symbols.length; row++) {
+    for (let column = row + 1; column < symbols.length; column++) {
+      const value = matrix[row][column];
+      if (value !== null && value >= HIGH_CORRELATION) {
+        highlyCorrelated.push({ a: symbols[row], b: symbols[column], correlation: value });
+      }
+    }
+  }
+  highlyCorrelated.sort((a, b) => b.correlation - a.correlation);
+
+  const sectors = exposureBuckets(positions, 'sector');
+  const industries = exposureBuckets(positions, 'industry');
+
+  let candidate: CandidateRisk | null = null;
+  if (input.candidateSymbol) {
+    const symbol = input.candidateSymbol;
+    const classification = classify(symbol);
+    const candidateReturns = returnsBySymbol.get(symbol);
+    const correlations: CorrelatedPair[] = [];
+    if (candidateReturns) {
+      for (const holding of symbols.filter(holding => holding !== symbol)) {
+        const [own, other] = alignReturns([candidateReturns, returnsBySymbol.get(holding)!]);
+        const value = own.length >= MIN_RETURNS ? correlation(own, other) : null;
+        if (value !== null) {
+          correlations.push({ a: symbol, b: holding, correlation: round(value, 2) });
+        }
+      }
+    }
+    const candidateBeta = betaOf(symbol);
+    candidate = {
+      symbol,
+      held: holdings.some(position => position.symbol === symbol),
+      beta: candidateBeta === null ? null : round(candidateBeta, 2),
+      sector: classification.sector,
+      industry: classification.industry,
+      sectorWeight: sectors.find(bucket => bucket.name === classification.sector)?.weight || 0,
+      maxCorrelation: correlations.reduce<CorrelatedPair | null>(
+        (max, pair) => !max || pair.correlation > max.correlation ? pair : max, null
+      ),
+      averageCorrelation: correlations.length > 0 ? round(mean(correlations.map(pair => pair.correlation)), 2) : null
+    };
+  }
+
+  const warnings: string[] = [];
+  for (const sector of sectors.filter(bucket => bucket.name !== UNCLASSIFIED_SECTOR && bucket.weight > SECTOR_CONCENTRATION_LIMIT)) {
+    warnings.push(`${sector.name} is ${(sector.weight * 100).toFixed(1)}% of the portfolio (limit ${SECTOR_CONCENTRATION_LIMIT * 100}%)`);
+  }
+  for (const position of positions.filter(position => position.weight > POSITION_CONCENTRATION_LIMIT)) {
+    warnings.push(`${position.symbol} is ${(position.weight * 100).toFixed(1)}% of the portfolio (limit ${POSITION_CONCENTRATION_LIMIT * 100}%)`);
+  }
+  for (const pair of highlyCorrelated.filter(pair => pair.correlation >= 0.85)) {
+    warnings.push(`${pair.a} and ${pair.b} move almost together (correlation ${pair.correlation.toFixed(2)})`);
+  }
+  if (portfolioBeta !== null && portfolioBeta > 1.3) {
+    warnings.push(`Portfolio beta ${portfolioBeta.toFixed(2)} amplifies market moves`);
+  }
+  if (candidate && !candidate.held && candidate.sector !== UNCLASSIFIED_SECTOR && candidate.sectorWeight > SECTOR_CONCENTRATION_LIMIT) {
+    warnings.push(`Buying ${candidate.symbol} adds to ${candidate.sector}, already ${(candidate.sectorWeight * 100).toFixed(1)}% of the portfolio`);
+  }
+
+  return {
+    asOf: (input.asOf || new Date()).toISOString(),
+    portfolioValue,
+    investedValue,
+    cashWeight: portfolioValue > 0 ? round(1 - investedValue / portfolioValue) : 1,
+    observations,
+    beta: portfolioBeta,
+    volatility: hasReturns ? round(Math.sqrt(covariance(portfolioReturns, portfolioReturns) * 252)) : null,
+    historicalVaR: hasReturns ? [historicalVaR(portfolioReturns, 95, portfolioValue), historicalVaR(portfolioReturns, 99, portfolioValue)] : [],
+    parametricVaR: hasReturns ? [parametricVaR(portfolioReturns, 95, portfolioValue), parametricVaR(portfolioReturns, 99, portfolioValue)] : [],
+    positions,
+    sectors,
+    industries,
+    herfindahl: portfolioValue > 0 ? round(positions.reduce((sum, position) => sum + position.weight ** 2, 0)) : 0,
+    correlation: { symbols, matrix },
+    highlyCorrelated,
+    candidate,
+    warnings,
+    missingHistory
+  };
+}
+
+/**
+ * Fetch bars and classifications for the Alpaca positions (plus SPY and the candidate) and compute the report
+ * apiSettings must hold decrypted Alpaca keys; they are attached to the client for the shared bar fetcher
+ */
+export async function buildPortfolioRisk(
+  supabase: ClassificationCacheClient & CredentialedClient,
+  userId: string,
+  apiSettings: Omit<MarketDataCredentials, 'userId'>,
+  portfolioData: AlpacaPortfolioData,
+  candidateSymbol?: string
+): Promise<PortfolioRiskReport> {
+  supabase._userCredentials = {
+    userId,
+    alpaca_paper_api_key: apiSettings.alpaca_paper_api_key,
+    alpaca_paper_secret_key: apiSettings.alpaca_paper_secret_key,
+    alpaca_live_api_key: apiSettings.alpaca_live_api_key,
+    alpaca_live_secret_key: apiSettings.alpaca_live_secret_key,
+    alpaca_paper_trading: apiSettings.alpaca_paper_trading,
+    broker_account_id: apiSettings.broker_account_id
+  };
+
+  const positions = portfolioData.positions.map(position => ({
+    symbol: position.symbol.toUpperCase(),
+    marketValue: Number(position.market_value) || 0
+  }));
+  const candidate = candidateSymbol?.toUpperCase();
+  const symbols = Array.from(new Set([BENCHMARK_SYMBOL, ...positions.map(position => position.symbol), ...(candidate ? [candidate] : [])]));
+
+  const bars: Record<string, HistoricalPrice[]> = {};
+  for (const symbol of symbols) {
+    try {
+      bars[symbol] = await fetchAlpacaHistoricalData(symbol, '1Y', supabase);
+    } catch (error) {
+      console.warn(`⚠️ No daily bars for ${symbol}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const classifications = await getTickerClassifications(symbols.filter(symbol => symbol !== BENCHMARK_SYMBOL), supabase);
+
+  return computePortfolioRisk({
+    portfolioValue: Number(portfolioData.account.portfolio_value) || 0,
+    positions,
+    bars,
+    classifications,
+    candidateSymbol: candidate
+  });
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Text section for agent prompts
+ */
+export function formatPortfolioRiskForAI(report: PortfolioRiskReport): string {
+  const lines: string[] = [
+    `Portfolio value: $${report.portfolioValue.toLocaleString()} (cash ${pct(report.cashWeight)}, ${report.positions.length} positions)`,
+    `Portfolio beta vs ${BENCHMARK_SYMBOL}: ${report.beta?.toFixed(2) ?? 'N/A'}, annualized volatility: ${report.volatility !== null ? pct(report.volatility) : 'N/A'}`
+  ];
+
+  for (const historical of report.historicalVaR) {
+    const parametric = report.parametricVaR.find(measure => measure.confidence === historical.confidence);
+    lines.push(`1-day ${historical.confidence}% VaR: historical ${pct(historical.var)} ($${historical.varAmount.toLocaleString()}), CVaR ${pct(historical.cvar)}` +
+      (parametric ? `; parametric ${pct(parametric.var)}, CVaR ${pct(parametric.cvar)}` : ''));
+  }
+  if (report.historicalVaR.length === 0) {
+    lines.push('VaR: not enough price history');
+  }
+
+  if (report.sectors.length > 0) {
+    lines.push(`Sector exposure: ${report.sectors.map(bucket => `${bucket.name} ${pct(bucket.weight)}`).join(', ')}`);
+  }
+  if (report.positions.length > 0) {
+    lines.push(`Largest positions: ${report.positions.slice(0, 5).map(position => `${position.symbol} ${pct(position.weight)} (beta ${position.beta?.toFixed(2) ?? 'N/A'})`).join(', ')}`);
+  }
+  if (report.highlyCorrelated.length > 0) {
+    lines.push(`Highly correlated pairs: ${report.highlyCorrelated.slice(0, 5).map(pair => `${pair.a}/${pair.b} ${pair.correlation.toFixed(2)}`).join(', ')}`);
+  }
+
+  if (report.candidate) {
+    const candidate = report.candidate;
+    lines.push(`${candidate.symbol}: ${candidate.held ? 'held' : 'not held'}, sector ${candidate.sector}${candidate.industry ? ` (${candidate.industry})` : ''} at ${pct(candidate.sectorWeight)} of the portfolio, beta ${candidate.beta?.toFixed(2) ?? 'N/A'}` +
+      (candidate.maxCorrelation ? `, highest correlation ${candidate.maxCorrelation.b} ${candidate.maxCorrelation.correlation.toFixed(2)}, average ${candidate.averageCorrelation?.toFixed(2)}` : ''));
+  }
+
+  if (report.warnings.length > 0) {
+    lines.push(`Warnings:\n${report.warnings.map(warning => `- ${warning}`).join('\n')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,204 @@
+/**
+ * Position guards: exit rules of a position opened by a filled BUY, proposed by the
+ * risk manager and/or set in api_settings.position_guard_defaults, enforced by the
+ * position-guardian function
+ */
+import { parseHoldingPeriodDays } from './earningsCalendar.ts';
+
+export type GuardRule = 'trailing_stop' | 'atr_stop' | 'take_profit' | 'time_stop';
+export type GuardRuleSource = 'risk_manager' | 'settings' | 'mixed';
+export type GuardStatus = 'active' | 'triggered' | 'closed' | 'canceled';
+
+export interface ExitRules {
+  trailingStopPercent: number | null;  // Sell once the price falls this far below the high-water price
+  atrMultiplier: number | null;        // Sell once the price falls this many 14-day ATRs below the high-water price
+  takeProfitPercent: number | null;    // Sell once the price is this far above the entry
+  timeStopDays: number | null;         // Sell once the position is this many calendar days old
+}
+
+/**
+ * Row of the position_guards table
+ */
+export interface PositionGuard {
+  id: string;
+  user_id: string;
+  trading_action_id: string;
+  analysis_id: string | null;
+  ticker: string;
+  shares: number;
+  entry_price: number;
+  entry_at: string;
+  high_water_price: number;
+  trailing_stop_percent: number | null;
+  atr_multiplier: number | null;
+  atr: number | null;
+  take_profit_price: number | null;
+  time_stop_days: number | null;
+  rule_source: GuardRuleSource;
+  status: GuardStatus;
+  triggered_rule: GuardRule | null;
+  triggered_price: number | null;
+  triggered_at: string | null;
+  exit_action_id: string | null;
+  last_checked_at: string | null;
+  last_error: string | null;
+}
+
+export interface GuardTrigger {
+  rule: GuardRule;
+  price: number;
+  reason: string;
+}
+
+export const GUARD_RULE_LABELS: Record<GuardRule, string> = {
+  trailing_stop: 'Trailing stop',
+  atr_stop: 'ATR stop',
+  take_profit: 'Take-profit',
+  time_stop: 'Time stop'
+};
+
+export const EXIT_RULE_KEYS: (keyof ExitRules)[] = ['trailingStopPercent', 'atrMultiplier', 'takeProfitPercent', 'timeStopDays'];
+
+const EMPTY_EXIT_RULES: ExitRules = {
+  trailingStopPercent: null,
+  atrMultiplier: null,
+  takeProfitPercent: null,
+  timeStopDays: null
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toPrice = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[$,]/g, ''));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+// Price levels of the trader's plan, as strings ('$180') or numbers
+interface TradingPlanLevels {
+  entryPrice?: unknown;
+  stopLoss?: unknown;
+  targets?: unknown;
+  timeframe?: string | null;
+}
+
+const round = (value: number, decimals: number = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// Values outside the position_guards check constraints disable the rule
+const sanitizeRule = (key: keyof ExitRules, value: unknown): number | null => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+  if (key === 'trailingStopPercent' && value >= 100) return null;
+  if (key === 'atrMultiplier' && value > 10) return null;
+  return key === 'timeStopDays' ? Math.round(value) : value;
+};
+
+export function hasExitRules(rules: ExitRules): boolean {
+  return EXIT_RULE_KEYS.some(key => rules[key] !== null);
+}
+
+/**
+ * Exit rules implied by the trader's plan: the distance from entry to the stop becomes the
+ * trailing stop, the core target the take-profit and the research time horizon the time stop
+ */
+export function proposeExitRules(tradingPlan: TradingPlanLevels | null | undefined, timeHorizon?: string | null): ExitRules {
+  const entry = toPrice(tradingPlan?.entryPrice);
+  const stop = toPrice(tradingPlan?.stopLoss);
+  const targets: { price?: unknown; description?: string }[] = Array.isArray(tradingPlan?.targets) ? tradingPlan.targets : [];
+  const coreTarget = toPrice((targets.find(target => target?.description === 'Core target') || targets[0])?.price);
+
+  return {
+    trailingStopPercent: entry && stop && stop < entry ? round((entry - stop) / entry * 100, 1) : null,
+    atrMultiplier: null,
+    takeProfitPercent: entry && coreTarget && coreTarget > entry ? round((coreTarget - entry) / entry * 100, 1) : null,
+    timeStopDays: parseHoldingPeriodDays(timeHorizon) ?? parseHoldingPeriodDays(tradingPlan?.timeframe)
+  };
+}
+
+/**
+ * User defaults override the proposal rule by rule; a default of null disables the rule
+ */
+export function resolveExitRules(
+  proposal: Partial<ExitRules> | null | undefined,
+  defaults: Partial<ExitRules> | null | undefined
+): { rules: ExitRules; source: GuardRuleSource } {
+  const rules: ExitRules = { ...EMPTY_EXIT_RULES };
+  let fromProposal = false;
+  let fromSettings = false;
+
+  for (const key of EXIT_RULE_KEYS) {
+    if (defaults && key in defaults) {
+      rules[key] = sanitizeRule(key, defaults[key]);
+      fromSettings = fromSettings || rules[key] !== null;
+    } else {
+      rules[key] = sanitizeRule(key, proposal?.[key]);
+      fromProposal = fromProposal || rules[key] !== null;
+    }
+  }
+
+  return { rules, source: fromProposal && fromSettings ? 'mixed' : fromSettings ? 'settings' : 'risk_manager' };
+}
+
+/**
+ * Highest of the trailing and ATR stop levels, or null when neither rule is set
+ */
+export function getGuardStopPrice(guard: PositionGuard, highWaterPrice: number = Number(guard.high_water_price)): number | null {
+  const stops: number[] = [];
+  if (guard.trailing_stop_percent) {
+    stops.push(highWaterPrice * (1 - Number(guard.trailing_stop_percent) / 100));
+  }
+  if (guard.atr_multiplier && guard.atr) {
+    stops.push(highWaterPrice - Number(guard.atr_multiplier) * Number(guard.atr));
+  }
+  return stops.length > 0 ? round(Math.max(...stops), 4) : null;
+}
+
+/**
+ * First rule the price triggers; stops are checked before the take-profit and the time stop
+ */
+export function evaluateGuard(guard: PositionGuard, price: number, now: Date = new Date()): GuardTrigger | null {
+  const highWater = Math.max(Number(guard.high_water_price), price);
+
+  if (guard.trailing_stop_percent) {
+    const stop = highWater * (1 - Number(guard.trailing_stop_percent) / 100);
+    if (price <= stop) {
+      return {
+        rule: 'trailing_stop',
+        price,
+        reason: `${guard.ticker} at $${price.toFixed(2)} fell ${guard.trailing_stop_percent}% below its high of $${highWater.toFixed(2)} (stop $${stop.toFixed(2)})`
+      };
+    }
+  }
+
+  if (guard.atr_multiplier && guard.atr) {
+    const stop = highWater - Number(guard.atr_multiplier) * Number(guard.atr);
+    if (price <= stop) {
+      return {
+        rule: 'atr_stop',
+        price,
+        reason: `${guard.ticker} at $${price.toFixed(2)} fell ${guard.atr_multiplier} x ATR ($${Number(guard.atr).toFixed(2)}) below its high of $${highWater.toFixed(2)} (stop $${stop.toFixed(2)})`
+      };
+    }
+  }
+
+  if (guard.take_profit_price && price >= Number(guard.take_profit_price)) {
+    return {
+      rule: 'take_profit',
+      price,
+      reason: `${guard.ticker} at $${price.toFixed(2)} reached the take-profit of $${Number(guard.take_profit_price).toFixed(2)} (entry $${Number(guard.entry_price).toFixed(2)})`
+    };
+  }
+
+  if (guard.time_stop_days) {
+    const heldDays = Math.floor((now.getTime() - new Date(guard.entry_at).getTime()) / DAY_MS);
+    if (heldDays >= guard.time_stop_days) {
+      return {
+        rule: 'time_stop',
+        price,
+        reason: `${guard.ticker} has been held ${heldDays} days, past the ${guard.time_stop_days}-day time stop`
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,499 @@
+/**
+ * Research sources for the macro, news, social media and fundamentals analysts
+ * Each analyst tries its sources in the user's priority order (api_settings.research_sources),
+ * falling back to the next one when a source is not configured, fails or finds nothing.
+ * Every source returns documents in the `sources[]` shape shown by the frontend's SourcesSection;
+ * sources without their own write-up (everything but Perplefina) have the documents analyzed by
+ * the user's AI provider.
+ */
+import { callAIProviderWithRetry, type AIProviderSettings } from './aiProviders.ts';
+import type { AIUsageContext } from './aiUsage.ts';
+import { callPerplefina, type PerplefinaRequest } from './perplefinaClient.ts';
+
+export type ResearchFocus = PerplefinaRequest['focusMode'];
+export type ResearchSourceId = 'perplefina' | 'alpaca_news' | 'rss' | 'sec_edgar' | 'fixture';
+
+export interface ResearchDocument {
+  pageContent: string;
+  metadata: {
+    title: string;
+    url: string;
+    publishedAt?: string;     // ISO timestamp when the source provides one
+    source?: string;          // Publisher or feed name
+  };
+}
+
+export interface ResearchQuery {
+  ticker: string;
+  focusMode: ResearchFocus;
+  query: string;                // Question for the analysis
+  systemInstructions: string;   // Analyst instructions for the write-up
+  maxSources: number;
+  maxTokens: number;
+  optimizationMode: PerplefinaRequest['optimizationMode'];
+}
+
+export interface ResearchSourceResult {
+  message?: string;             // Only sources that write their own analysis
+  sources: ResearchDocument[];
+}
+
+/**
+ * The api_settings columns the sources read: the AI provider for write-ups, Alpaca keys for
+ * Alpaca News, the RSS feed list and the per-focus source preference
+ */
+export interface ResearchSettings extends AIProviderSettings {
+  ai_provider: string;
+  ai_api_key: string;
+  alpaca_paper_api_key?: string | null;
+  alpaca_paper_secret_key?: string | null;
+  alpaca_live_api_key?: string | null;
+  alpaca_live_secret_key?: string | null;
+  alpaca_paper_trading?: boolean | null;
+  research_rss_feeds?: string[] | null;
+  research_sources?: Partial<Record<ResearchFocus, Partial<ResearchSourcePreference>>> | null;
+}
+
+export interface ResearchSource {
+  id: ResearchSourceId;
+  name: string;
+  focusModes: ResearchFocus[];
+  /**
+   * Reason the source cannot be used with these settings, or null when it can
+   */
+  unavailableReason(apiSettings: ResearchSettings): string | null;
+  search(query: ResearchQuery, apiSettings: ResearchSettings): Promise<ResearchSourceResult>;
+}
+
+export interface ResearchSourcePreference {
+  priority: ResearchSourceId[];
+  fallback: boolean;            // Try the next source when one fails or finds nothing
+}
+
+export interface ResearchAttempt {
+  source: ResearchSourceId;
+  status: 'used' | 'skipped' | 'failed' | 'empty';
+  detail?: string;
+}
+
+export interface ResearchResult {
+  sourceId: ResearchSourceId;
+  sourceName: string;
+  message: string;
+  sources: ResearchDocument[];
+  attempts: ResearchAttempt[];
+}
+
+export const DEFAULT_RESEARCH_SOURCES: Record<ResearchFocus, ResearchSourcePreference> = {
+  news: { priority: ['perplefina', 'alpaca_news', 'rss', 'sec_edgar'], fallback: true },
+  social: { priority: ['perplefina', 'rss', 'alpaca_news'], fallback: true },
+  fundamentals: { priority: ['perplefina', 'sec_edgar', 'alpaca_news'], fallback: true },
+  macroEconomy: { priority: ['perplefina', 'rss', 'alpaca_news'], fallback: true }
+};
+
+// Used when api_settings.research_rss_feeds is empty; {ticker} is replaced with the symbol
+export const DEFAULT_RSS_FEEDS: Record<ResearchFocus, string[]> = {
+  news: ['https://feeds.finance.yahoo.com/rss/2.0/headline?s={ticker}&region=US&lang=en-US'],
+  social: ['https://www.reddit.com/r/stocks/search.rss?q={ticker}&restrict_sr=1&sort=new'],
+  fundamentals: ['https://feeds.finance.yahoo.com/rss/2.0/headline?s={ticker}&region=US&lang=en-US'],
+  macroEconomy: [
+    'https://www.federalreserve.gov/feeds/press_all.xml',
+    'https://www.bls.gov/feed/bls_latest.rss'
+  ]
+};
+
+const NEWS_LOOKBACK_DAYS = 14;
+const EDGAR_LOOKBACK_DAYS = 365;
+const MAX_DOCUMENT_CHARS = 1500;
+
+// SEC asks automated clients to identify themselves with a contact address
+export const SEC_USER_AGENT = Deno.env.get('SEC_USER_AGENT') || 'TradingGoose research admin@tradinggoose.ai';
+
+interface AlpacaNewsArticle {
+  id: number;
+  headline: string;
+  summary?: string;
+  url?: string;
+  created_at: string;
+  source?: string;
+}
+
+interface EdgarSearchHit {
+  _id?: string;
+  _source?: {
+    ciks?: string[];
+    display_names?: string[];
+    form?: string;
+    root_form?: string;
+    file_date?: string;
+    file_description?: string;
+    items?: string[];
+    period_ending?: string;
+  };
+}
+
+function daysAgo(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+}
+
+function stripHtml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function newestFirst(documents: ResearchDocument[]): ResearchDocument[] {
+  return [...documents].sort((a, b) =>
+    (b.metadata.publishedAt || '').localeCompare(a.metadata.publishedAt || ''));
+}
+
+const perplefinaSource: ResearchSource = {
+  id: 'perplefina',
+  name: 'Perplefina',
+  focusModes: ['news', 'social', 'fundamentals', 'macroEconomy'],
+  unavailableReason: () => Deno.env.get('PERPLEFINA_API_URL') ? null : 'PERPLEFINA_API_URL is not set',
+  async search(query, apiSettings) {
+    const data = await callPerplefina({
+      focusMode: query.focusMode,
+      query: query.query,
+      optimizationMode: query.optimizationMode,
+      maxSources: query.maxSources,
+      chatModel: {
+        provider: apiSettings.ai_provider,
+        model: apiSettings.ai_model || 'default',
+        apiKey: apiSettings.ai_api_key,
+        ...(apiSettings.ai_base_url && { baseUrl: apiSettings.ai_base_url })
+      },
+      maxTokens: query.maxTokens,
+      systemInstructions: query.systemInstructions
+    });
+
+    return {
+      message: data.message,
+      sources: (data.sources || []).map(source => ({
+        pageContent: source.pageContent,
+        metadata: { ...source.metadata, source: 'Perplefina' }
+      }))
+    };
+  }
+};
+
+const alpacaNewsSource: ResearchSource = {
+  id: 'alpaca_news',
+  name: 'Alpaca News',
+  focusModes: ['news', 'social', 'fundamentals', 'macroEconomy'],
+  unavailableReason: (apiSettings) => {
+    const isPaper = apiSettings.alpaca_paper_trading ?? true;
+    const hasKeys = isPaper
+      ? apiSettings.alpaca_paper_api_key && apiSettings.alpaca_paper_secret_key
+      : apiSettings.alpaca_live_api_key && apiSettings.alpaca_live_secret_key;
+    return hasKeys ? null : 'Alpaca credentials are not configured';
+  },
+  async search(query, apiSettings) {
+    const isPaper = apiSettings.alpaca_paper_trading ?? true;
+    const url = new URL('https://data.alpaca.markets/v1beta1/news');
+    // Macro analysis reads general market news rather than the symbol's
+    if (query.focusMode !== 'macroEconomy') {
+      url.searchParams.set('symbols', query.ticker.toUpperCase());
+    }
+    url.searchParams.set('start', daysAgo(NEWS_LOOKBACK_DAYS));
+    url.searchParams.set('limit', String(Math.min(query.maxSources, 50)));
+    url.searchParams.set('sort', 'desc');
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        'APCA-API-KEY-ID': (isPaper ? apiSettings.alpaca_paper_api_key : apiSettings.alpaca_live_api_key) ?? '',
+        'APCA-API-SECRET-KEY': (isPaper ? apiSettings.alpaca_paper_secret_key : apiSettings.alpaca_live_secret_key) ?? ''
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Alpaca news request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return {
+      sources: (data.news || []).map((article: AlpacaNewsArticle) => ({
+        pageContent: stripHtml(article.summary || article.headline || ''),
+        metadata: {
+          title: article.headline,
+          url: article.url || `https://app.alpaca.markets/news/${article.id}`,
+          publishedAt: article.created_at,
+          source: article.source || 'Alpaca News'
+        }
+      }))
+    };
+  }
+};
+
+function parseRssItems(xml: string, feedUrl: string): ResearchDocument[] {
+  const feedTitle = stripHtml(xml.match(/<title[^>]*>([\s\S]*?)<\/title>/)?.[1] || new URL(feedUrl).hostname);
+  const items = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/g) || [];
+
+  return items.map(item => {
+    const field = (...names: string[]) => {
+      for (const name of names) {
+        const match = item.match(new RegExp(`<${name}[^>]*>([\\s\\S]*?)</${name}>`));
+        if (match) return stripHtml(match[1]);
+      }
+      return '';
+    };
+    // Atom entries carry the link as an attribute
+    const link = field('link') || item.match(/<link[^>]*href="([^"]+)"/)?.[1] || feedUrl;
+    const published = field('pubDate', 'published', 'updated', 'dc:date');
+    const publishedAt = published && !isNaN(Date.parse(published)) ? new Date(published).toISOString() : undefined;
+
+    return {
+      pageContent: field('description', 'summary', 'content'),
+      metadata: { title: field('title'), url: link, publishedAt, source: feedTitle }
+    };
+  }).filter(document => document.metadata.title);
+}
+
+const rssSource: ResearchSource = {
+  id: 'rss',
+  name: 'RSS Feeds',
+  focusModes: ['news', 'social', 'fundamentals', 'macroEconomy'],
+  unavailableReason: () => null,
+  async search(query, apiSettings) {
+    const configured: string[] = apiSettings.research_rss_feeds || [];
+    const feeds = (configured.length > 0 ? configured : DEFAULT_RSS_FEEDS[query.focusMode])
+      .map(feed => feed.replace(/\{ticker\}/g, encodeURIComponent(query.ticker.toUpperCase())));
+
+    const results = await Promise.all(feeds.map(async feed => {
+      try {
+        const response = await fetch(feed, { headers: { 'User-Agent': SEC_USER_AGENT } });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return parseRssItems(await response.text(), feed);
+      } catch (error) {
+        console.warn(`⚠️ RSS feed ${feed} failed:`, error);
+        return [];
+      }
+    }));
+
+    return { sources: newestFirst(results.flat()).slice(0, query.maxSources) };
+  }
+};
+
+// Filing types searched per focus; news looks at current reports only
+const EDGAR_FORMS: Partial<Record<ResearchFocus, string>> = {
+  news: '8-K',
+  fundamentals: '10-K,10-Q,8-K'
+};
+
+const secEdgarSource: ResearchSource = {
+  id: 'sec_edgar',
+  name: 'SEC EDGAR Full-Text Search',
+  focusModes: ['news', 'fundamentals'],
+  unavailableReason: () => null,
+  async search(query) {
+    const url = new URL('https://efts.sec.gov/LATEST/search-index');
+    url.searchParams.set('q', `"${query.ticker.toUpperCase()}"`);
+    url.searchParams.set('dateRange', 'custom');
+    url.searchParams.set('startdt', daysAgo(EDGAR_LOOKBACK_DAYS));
+    url.searchParams.set('enddt', daysAgo(0));
+    url.searchParams.set('forms', EDGAR_FORMS[query.focusMode] || '8-K');
+
+    const response = await fetch(url.toString(), {
+      headers: { 'User-Agent': SEC_USER_AGENT, 'Accept': 'application/json' }
+    });
+
+    if (!response.ok) {
+      throw new Error(`SEC EDGAR search failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    const hits: EdgarSearchHit[] = data.hits?.hits || [];
+
+    const documents = hits.map(hit => {
+      const filing = hit._source || {};
+      const [accession, fileName] = String(hit._id || '').split(':');
+      const cik = String(filing.ciks?.[0] || '').replace(/^0+/, '');
+      const company = filing.display_names?.[0] || query.ticker.toUpperCase();
+      const form = filing.form || filing.root_form || 'Filing';
+
+      return {
+        pageContent: [
+          `${company} filed ${form} on ${filing.file_date}.`,
+          filing.file_description ? `Document: ${filing.file_description}.` : '',
+          filing.items?.length ? `Items: ${filing.items.join(', ')}.` : '',
+          filing.period_ending ? `Period ending ${filing.period_ending}.` : ''
+        ].filter(Boolean).join(' '),
+        metadata: {
+          title: `${company} ${form} (${filing.file_date})`,
+          url: cik && accession && fileName
+            ? `https://www.sec.gov/Archives/edgar/data/${cik}/${accession.replace(/-/g, '')}/${fileName}`
+            : `https://efts.sec.gov/LATEST/search-index?q=${encodeURIComponent(query.ticker)}`,
+          publishedAt: filing.file_date ? `${filing.file_date}T00:00:00.000Z` : undefined,
+          source: 'SEC EDGAR'
+        }
+      };
+    });
+
+    return { sources: newestFirst(documents).slice(0, query.maxSources) };
+  }
+};
+
+// Deterministic documents for offline runs; RESEARCH_FIXTURES_PATH can point to a JSON file
+// of the same shape ({ [focusMode]: ResearchDocument[] }) to replace them
+const BUILT_IN_FIXTURES: Record<ResearchFocus, ResearchDocument[]> = {
+  news: [
+    {
+      pageContent: '{ticker} reported quarterly revenue ahead of consensus and reaffirmed full-year guidance. Shares moved modestly higher in after-hours trading.',
+      metadata: { title: '{ticker} beats revenue estimates, reaffirms guidance', url: 'https://fixtures.local/news/1', publishedAt: '2024-01-02T13:00:00.000Z', source: 'Fixture Wire' }
+    },
+    {
+      pageContent: 'Analysts at a large broker trimmed their price target on {ticker}, citing slower unit growth, while keeping a neutral rating.',
+      metadata: { title: 'Broker trims {ticker} price target', url: 'https://fixtures.local/news/2', publishedAt: '2024-01-01T15:00:00.000Z', source: 'Fixture Wire' }
+    }
+  ],
+  social: [
+    {
+      pageContent: 'Retail discussion of {ticker} picked up after earnings; most posts are cautiously bullish with concerns about valuation.',
+      metadata: { title: '{ticker} earnings discussion thread', url: 'https://fixtures.local/social/1', publishedAt: '2024-01-02T18:00:00.000Z', source: 'Fixture Forum' }
+    }
+  ],
+  fundamentals: [
+    {
+      pageContent: '{ticker} 10-Q: revenue grew 8% year over year, operating margin was 21%, and free cash flow covered the dividend twice. Net debt declined.',
+      metadata: { title: '{ticker} quarterly report (10-Q)', url: 'https://fixtures.local/fundamentals/1', publishedAt: '2023-11-01T00:00:00.000Z', source: 'Fixture Filings' }
+    }
+  ],
+  macroEconomy: [
+    {
+      pageContent: 'The Federal Reserve held rates steady and signaled that inflation is moving toward its target. Payroll growth slowed but unemployment remained low.',
+      metadata: { title: 'Fed holds rates steady', url: 'https://fixtures.local/macro/1', publishedAt: '2023-12-13T19:00:00.000Z', source: 'Fixture Macro' }
+    }
+  ]
+};
+
+const fixtureSource: ResearchSource = {
+  id: 'fixture',
+  name: 'Local Fixtures',
+  focusModes: ['news', 'social', 'fundamentals', 'macroEconomy'],
+  unavailableReason: () => null,
+  async search(query) {
+    const path = Deno.env.get('RESEARCH_FIXTURES_PATH');
+    const fixtures: Record<string, ResearchDocument[]> = path
+      ? JSON.parse(await Deno.readTextFile(path))
+      : BUILT_IN_FIXTURES;
+    const ticker = query.ticker.toUpperCase();
+
+    return {
+      sources: (fixtures[query.focusMode] || []).slice(0, query.maxSources).map(document => ({
+        pageContent: document.pageContent.replace(/\{ticker\}/g, ticker),
+        metadata: { ...document.metadata, title: document.metadata.title.replace(/\{ticker\}/g, ticker) }
+      }))
+    };
+  }
+};
+
+export const RESEARCH_SOURCES: Record<ResearchSourceId, ResearchSource> = {
+  perplefina: perplefinaSource,
+  alpaca_news: alpacaNewsSource,
+  rss: rssSource,
+  sec_edgar: secEdgarSource,
+  fixture: fixtureSource
+};
+
+/**
+ * The user's source preference for a focus, falling back to the defaults
+ * Unknown ids and sources that do not cover the focus are dropped
+ */
+export function getResearchSourcePreference(apiSettings: Pick<ResearchSettings, 'research_sources'> | null | undefined, focusMode: ResearchFocus): ResearchSourcePreference {
+  const configured = apiSettings?.research_sources?.[focusMode];
+  const priority = (Array.isArray(configured?.priority) ? configured.priority : DEFAULT_RESEARCH_SOURCES[focusMode].priority)
+    .filter((id: string): id is ResearchSourceId =>
+      id in RESEARCH_SOURCES && RESEARCH_SOURCES[id as ResearchSourceId].focusModes.includes(focusMode));
+
+  return {
+    priority: priority.length > 0 ? priority : DEFAULT_RESEARCH_SOURCES[focusMode].priority,
+    fallback: configured?.fallback ?? DEFAULT_RESEARCH_SOURCES[focusMode].fallback
+  };
+}
+
+function formatDocumentsForAI(documents: ResearchDocument[]): string {
+  return documents.map((document, index) => {
+    const { title, url, publishedAt, source } = document.metadata;
+    const details = [source, publishedAt?.slice(0, 10)].filter(Boolean).join(', ');
+    return `[${index + 1}] ${title}${details ? ` (${details})` : ''}\n${url}\n${document.pageContent.slice(0, MAX_DOCUMENT_CHARS)}`;
+  }).join('\n\n');
+}
+
+/**
+ * Analysis of documents from a source without its own write-up, by the user's AI provider
+ */
+async function analyzeDocuments(
+  query: ResearchQuery,
+  sourceName: string,
+  documents: ResearchDocument[],
+  apiSettings: ResearchSettings,
+  usageContext?: AIUsageContext
+): Promise<string> {
+  const prompt = `${query.query}
+
+Base the analysis only on the ${documents.length} documents below (from ${sourceName}) and cite them by number, e.g. [2].
+Today is ${new Date().toISOString().slice(0, 10)}.
+
+${formatDocumentsForAI(documents)}`;
+
+  return await callAIProviderWithRetry(apiSettings, prompt, query.systemInstructions, query.maxTokens, 3, undefined, undefined, usageContext);
+}
+
+/**
+ * Research a question with the user's sources for the focus, in priority order
+ * Throws when no source produced an analysis, listing what happened with each
+ */
+export async function runResearch(
+  query: ResearchQuery,
+  apiSettings: ResearchSettings,
+  usageContext?: AIUsageContext
+): Promise<ResearchResult> {
+  const preference = getResearchSourcePreference(apiSettings, query.focusMode);
+  const attempts: ResearchAttempt[] = [];
+
+  for (const sourceId of preference.priority) {
+    const source = RESEARCH_SOURCES[sourceId];
+    const unavailable = source.unavailableReason(apiSettings);
+    if (unavailable) {
+      attempts.push({ source: sourceId, status: 'skipped', detail: unavailable });
+      continue;
+    }
+
+    try {
+      console.log(`🔎 Researching ${query.ticker} (${query.focusMode}) with ${source.name}`);
+      const result = await source.search(query, apiSettings);
+
+      if (!result.message && result.sources.length === 0) {
+        attempts.push({ source: sourceId, status: 'empty', detail: 'no documents found' });
+      } else {
+        const message = result.message || await analyzeDocuments(query, source.name, result.sources, apiSettings, usageContext);
+        attempts.push({ source: sourceId, status: 'used' });
+        console.log(`✅ ${source.name} research completed, sources: ${result.sources.length}`);
+        return { sourceId, sourceName: source.name, message, sources: result.sources, attempts };
+      }
+    } catch (error) {
+      console.warn(`⚠️ ${source.name} research failed:`, error);
+      attempts.push({ source: sourceId, status: 'failed', detail: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (!preference.fallback) {
+      break;
+    }
+  }
+
+  const summary = attempts.map(attempt => `${attempt.source} ${attempt.status}${attempt.detail ? ` (${attempt.detail})` : ''}`).join('; ');
+  throw new Error(`No research source returned results for ${query.focusMode}: ${summary || 'no sources configured'}`);
+}
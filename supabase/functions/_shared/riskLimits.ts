@@ -0,0 +1,387 @@
+/**
+ * Pre-trade risk limits - user-defined hard rules checked before an order is created
+ * (analysis-portfolio-manager) and again before it is sent to Alpaca (execute-trade)
+ *
+ * Exposure rules (weights, daily loss, blacklist, earnings) only block BUY orders, so
+ * exits are never trapped; the daily order count applies to every order.
+ * The limits are set once per user (api_settings.risk_limits) and apply to each broker account
+ * on its own: weights and daily loss are measured on the account's positions, and the order
+ * count covers the orders of that account only.
+ * Options count against their underlying, in the order and in the positions.
+ * Blocked orders are stored as rejected trading_actions with their risk_violations.
+ * A check that cannot run (broker or database down) is not a violation: BUYs wait and
+ * are retried, SELLs go ahead.
+ */
+import { AlpacaPortfolioData } from './portfolio/types.ts';
+import { fetchAlpacaPortfolio } from './portfolio/alpacaClient.ts';
+import { ClassificationCacheClient, getTickerClassifications, UNCLASSIFIED_SECTOR } from './sectorClassification.ts';
+import { EarningsCacheClient, getEarningsEvent } from './earningsCalendar.ts';
+import { parseOccSymbol } from './optionsChain.ts';
+import type { MarketDataCredentials } from './technicalIndicators.ts';
+import { TRADE_ORDER_STATUS } from './statusTypes.ts';
+import { getNYCurrentDate, nyLocalTimeToUtc } from './timezoneUtils.ts';
+
+export type RiskLimitRule =
+  | 'max_position_weight'
+  | 'max_sector_weight'
+  | 'max_daily_loss'
+  | 'max_orders_per_day'
+  | 'max_gross_exposure'
+  | 'blacklist'
+  | 'earnings_blackout'
+  | 'risk_check_unavailable';
+
+/**
+ * Stored in api_settings.risk_limits; null (or a missing key) turns a rule off
+ */
+export interface RiskLimits {
+  maxPositionPercent: number | null;
+  maxSectorPercent: number | null;
+  maxDailyLossPercent: number | null;
+  maxOrdersPerDay: number | null;
+  maxGrossExposurePercent: number | null;
+  blacklist: string[];
+  earningsBlackoutDays: number | null;
+}
+
+export interface RiskViolation {
+  rule: RiskLimitRule;
+  message: string;
+  limit: number | string | null;
+  actual: number | string | null;
+}
+
+export interface PreTradeOrder {
+  ticker: string;       // the underlying for option orders (see getUnderlyingSymbol)
+  action: 'BUY' | 'SELL';
+  orderValue: number;   // estimated dollars; 0 when unknown (e.g. option market orders)
+}
+
+export interface PreTradeContext {
+  equity: number;
+  lastEquity: number;
+  longMarketValue: number;
+  shortMarketValue: number;
+  positions: { symbol: string; marketValue: number }[];
+  sectors: Record<string, string>;
+  ordersToday: number;
+  daysUntilEarnings: number | null;
+}
+
+/**
+ * Decrypted Alpaca keys of the account the order is for; broker_account_id is set for a
+ * broker account (see applyBrokerAccount) and unset for the primary account
+ */
+export type RiskCheckSettings = Omit<MarketDataCredentials, 'userId'>;
+
+interface RiskLimitsQuery extends PromiseLike<{ count: number | null; error: { message: string } | null }> {
+  eq(column: string, value: string): RiskLimitsQuery;
+  neq(column: string, value: string): RiskLimitsQuery;
+  in(column: string, values: string[]): RiskLimitsQuery;
+  gte(column: string, value: string): RiskLimitsQuery;
+  is(column: string, value: null): RiskLimitsQuery;
+  maybeSingle(): PromiseLike<{ data: { risk_limits?: unknown } | null; error: { message: string } | null }>;
+}
+
+/**
+ * The part of a supabase-js client the checks read with, so clients of any version fit
+ */
+export type RiskLimitsClient = {
+  from(table: string): {
+    select(columns: string, options?: { count: 'exact'; head: boolean }): RiskLimitsQuery;
+  };
+} & ClassificationCacheClient & EarningsCacheClient;
+
+export const RISK_LIMIT_RULE_LABELS: Record<RiskLimitRule, string> = {
+  max_position_weight: 'Max single-name weight',
+  max_sector_weight: 'Max sector weight',
+  max_daily_loss: 'Max daily loss',
+  max_orders_per_day: 'Max orders per day',
+  max_gross_exposure: 'Max gross exposure',
+  blacklist: 'Blacklisted ticker',
+  earnings_blackout: 'Earnings blackout',
+  risk_check_unavailable: 'Risk check unavailable'
+};
+
+const positiveOrNull = (value: unknown): number | null => {
+  const parsed = Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+/**
+ * Symbol the limits apply to: an OCC option symbol maps to its underlying
+ */
+export function getUnderlyingSymbol(symbol: string): string {
+  return (parseOccSymbol(symbol)?.underlying || symbol).toUpperCase();
+}
+
+/**
+ * Sanitized limits from the stored JSON, or null when no rule is set
+ */
+export function normalizeRiskLimits(stored: unknown): RiskLimits | null {
+  if (!stored || typeof stored !== 'object') {
+    return null;
+  }
+  const raw = stored as Record<string, unknown>;
+
+  const limits: RiskLimits = {
+    maxPositionPercent: positiveOrNull(raw.maxPositionPercent),
+    maxSectorPercent: positiveOrNull(raw.maxSectorPercent),
+    maxDailyLossPercent: positiveOrNull(raw.maxDailyLossPercent),
+    maxOrdersPerDay: positiveOrNull(raw.maxOrdersPerDay),
+    maxGrossExposurePercent: positiveOrNull(raw.maxGrossExposurePercent),
+    blacklist: Array.isArray(raw.blacklist)
+      ? Array.from(new Set(raw.blacklist.map(ticker => String(ticker).trim().toUpperCase()).filter(Boolean)))
+      : [],
+    earningsBlackoutDays: positiveOrNull(raw.earningsBlackoutDays)
+  };
+
+  const hasRule = limits.blacklist.length > 0 ||
+    Object.entries(limits).some(([key, value]) => key !== 'blacklist' && value !== null);
+  return hasRule ? limits : null;
+}
+
+const pct = (value: number) => `${value.toFixed(1)}%`;
+
+/**
+ * Every rule the order would break, empty when it may proceed
+ */
+export function checkRiskLimits(order: PreTradeOrder, limits: RiskLimits, context: PreTradeContext): RiskViolation[] {
+  const violations: RiskViolation[] = [];
+  const ticker = order.ticker.toUpperCase();
+
+  if (limits.maxOrdersPerDay !== null && context.ordersToday + 1 > limits.maxOrdersPerDay) {
+    violations.push({
+      rule: 'max_orders_per_day',
+      message: `${context.ordersToday} order(s) already placed today; the limit is ${limits.maxOrdersPerDay}`,
+      limit: limits.maxOrdersPerDay,
+      actual: context.ordersToday + 1
+    });
+  }
+
+  if (order.action !== 'BUY') {
+    return violations;
+  }
+
+  if (limits.blacklist.includes(ticker)) {
+    violations.push({
+      rule: 'blacklist',
+      message: `${ticker} is on your blacklist`,
+      limit: null,
+      actual: ticker
+    });
+  }
+
+  if (limits.maxDailyLossPercent !== null && context.lastEquity > 0) {
+    const lossPercent = (context.lastEquity - context.equity) / context.lastEquity * 100;
+    if (lossPercent >= limits.maxDailyLossPercent) {
+      violations.push({
+        rule: 'max_daily_loss',
+        message: `Portfolio is down ${pct(lossPercent)} today; new BUY orders stop at a ${pct(limits.maxDailyLossPercent)} loss`,
+        limit: limits.maxDailyLossPercent,
+        actual: Math.round(lossPercent * 100) / 100
+      });
+    }
+  }
+
+  const equity = context.equity;
+  const currentValue = context.positions
+    .filter(position => position.symbol.toUpperCase() === ticker)
+    .reduce((sum, position) => sum + position.marketValue, 0);
+
+  if (limits.maxPositionPercent !== null && equity > 0) {
+    const weight = (currentValue + order.orderValue) / equity * 100;
+    if (weight > limits.maxPositionPercent) {
+      violations.push({
+        rule: 'max_position_weight',
+        message: `${ticker} would be ${pct(weight)} of the portfolio (limit ${pct(limits.maxPositionPercent)})`,
+        limit: limits.maxPositionPercent,
+        actual: Math.round(weight * 100) / 100
+      });
+    }
+  }
+
+  const sector = context.sectors[ticker];
+  if (limits.maxSectorPercent !== null && equity > 0 && sector && sector !== UNCLASSIFIED_SECTOR) {
+    const sectorValue = context.positions
+      .filter(position => context.sectors[position.symbol.toUpperCase()] === sector)
+      .reduce((sum, position) => sum + position.marketValue, 0);
+    const weight = (sectorValue + order.orderValue) / equity * 100;
+    if (weight > limits.maxSectorPercent) {
+      violations.push({
+        rule: 'max_sector_weight',
+        message: `${sector} would be ${pct(weight)} of the portfolio (limit ${pct(limits.maxSectorPercent)})`,
+        limit: limits.maxSectorPercent,
+        actual: Math.round(weight * 100) / 100
+      });
+    }
+  }
+
+  if (limits.maxGrossExposurePercent !== null && equity > 0) {
+    const gross = (context.longMarketValue + Math.abs(context.shortMarketValue) + order.orderValue) / equity * 100;
+    if (gross > limits.maxGrossExposurePercent) {
+      violations.push({
+        rule: 'max_gross_exposure',
+        message: `Gross exposure would be ${pct(gross)} of equity (limit ${pct(limits.maxGrossExposurePercent)})`,
+        limit: limits.maxGrossExposurePercent,
+        actual: Math.round(gross * 100) / 100
+      });
+    }
+  }
+
+  // BUILD = opening a new position
+  if (limits.earningsBlackoutDays !== null && currentValue === 0 &&
+      context.daysUntilEarnings !== null && context.daysUntilEarnings <= limits.earningsBlackoutDays) {
+    violations.push({
+      rule: 'earnings_blackout',
+      message: `${ticker} reports earnings in ${context.daysUntilEarnings} day(s); no new positions within ${limits.earningsBlackoutDays} days of earnings`,
+      limit: limits.earningsBlackoutDays,
+      actual: context.daysUntilEarnings
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * True when the limits could not be checked; the order should stay pending and be retried, not rejected
+ */
+export function isRiskCheckUnavailable(violations: RiskViolation[]): boolean {
+  return violations.some(violation => violation.rule === 'risk_check_unavailable');
+}
+
+/**
+ * One line per violation, for analysis messages and API errors
+ */
+export function describeRiskViolations(violations: RiskViolation[]): string {
+  return violations.map(violation => `${RISK_LIMIT_RULE_LABELS[violation.rule]}: ${violation.message}`).join('; ');
+}
+
+/**
+ * The user's limits; the same limits apply to every broker account
+ */
+export async function loadRiskLimits(supabase: RiskLimitsClient, userId: string): Promise<RiskLimits | null> {
+  const { data, error } = await supabase
+    .from('api_settings')
+    .select('risk_limits')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load risk limits: ${error.message}`);
+  }
+  return normalizeRiskLimits(data?.risk_limits);
+}
+
+/**
+ * Pending and approved orders created today on the account (null for the primary account)
+ */
+async function countOrdersToday(
+  supabase: RiskLimitsClient,
+  userId: string,
+  brokerAccountId: string | null,
+  excludeTradeActionId?: string
+): Promise<number> {
+  let query = supabase
+    .from('trading_actions')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', [TRADE_ORDER_STATUS.PENDING, TRADE_ORDER_STATUS.APPROVED])
+    .gte('created_at', nyLocalTimeToUtc(getNYCurrentDate(), '00:00').toISOString());
+  query = brokerAccountId ? query.eq('broker_account_id', brokerAccountId) : query.is('broker_account_id', null);
+  if (excludeTradeActionId) {
+    query = query.neq('id', excludeTradeActionId);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to count today's orders: ${error.message}`);
+  }
+  return count || 0;
+}
+
+/**
+ * Account state the rules need; sectors and earnings are only looked up when their rule is set
+ */
+async function loadPreTradeContext(
+  supabase: RiskLimitsClient,
+  userId: string,
+  brokerAccountId: string | null,
+  portfolioData: AlpacaPortfolioData,
+  order: PreTradeOrder,
+  limits: RiskLimits,
+  excludeTradeActionId?: string
+): Promise<PreTradeContext> {
+  const positions = portfolioData.positions.map(position => ({
+    symbol: getUnderlyingSymbol(position.symbol),
+    marketValue: Number(position.market_value) || 0
+  }));
+  const isBuild = order.action === 'BUY' && !positions.some(position => position.symbol === order.ticker.toUpperCase());
+
+  let sectors: Record<string, string> = {};
+  if (limits.maxSectorPercent !== null && order.action === 'BUY') {
+    const classifications = await getTickerClassifications([order.ticker, ...positions.map(position => position.symbol)], supabase);
+    sectors = Object.fromEntries(Object.values(classifications).map(classification => [classification.ticker, classification.sector]));
+  }
+
+  const earnings = limits.earningsBlackoutDays !== null && isBuild
+    ? await getEarningsEvent(order.ticker, supabase, limits.earningsBlackoutDays)
+    : null;
+
+  return {
+    equity: Number(portfolioData.account.equity) || Number(portfolioData.account.portfolio_value) || 0,
+    lastEquity: Number(portfolioData.account.last_equity) || 0,
+    longMarketValue: Number(portfolioData.account.long_market_value) || 0,
+    shortMarketValue: Number(portfolioData.account.short_market_value) || 0,
+    positions,
+    sectors,
+    ordersToday: limits.maxOrdersPerDay !== null ? await countOrdersToday(supabase, userId, brokerAccountId, excludeTradeActionId) : 0,
+    daysUntilEarnings: earnings?.daysUntilNext ?? null
+  };
+}
+
+/**
+ * Check an order against the user's limits
+ * apiSettings are the settings of the order's account; portfolioData is fetched when not given.
+ * Fails closed for BUYs: when the check cannot run, a BUY gets a single risk_check_unavailable
+ * violation (see isRiskCheckUnavailable). A SELL proceeds unchecked.
+ */
+export async function evaluatePreTradeRisk(
+  supabase: RiskLimitsClient,
+  userId: string,
+  apiSettings: RiskCheckSettings,
+  order: PreTradeOrder,
+  options: { portfolioData?: AlpacaPortfolioData; excludeTradeActionId?: string } = {}
+): Promise<RiskViolation[]> {
+  try {
+    const limits = await loadRiskLimits(supabase, userId);
+    if (!limits) {
+      return [];
+    }
+
+    const portfolioData = options.portfolioData || await fetchAlpacaPortfolio(apiSettings);
+    const context = await loadPreTradeContext(
+      supabase, userId, apiSettings.broker_account_id ?? null, portfolioData, order, limits, options.excludeTradeActionId
+    );
+    const violations = checkRiskLimits(order, limits, context);
+
+    if (violations.length > 0) {
+      console.warn(`🚫 ${order.action} ${order.ticker} blocked by risk limits: ${describeRiskViolations(violations)}`);
+    } else {
+      console.log(`✅ ${order.action} ${order.ticker} passed risk limits`);
+    }
+    return violations;
+  } catch (error) {
+    console.error(`❌ Risk limit check failed for ${order.action} ${order.ticker}:`, error);
+    if (order.action !== 'BUY') {
+      console.warn(`⚠️ ${order.action} ${order.ticker} proceeds without a risk check so the exit is not trapped`);
+      return [];
+    }
+    return [{
+      rule: 'risk_check_unavailable',
+      message: `Could not verify risk limits: ${error instanceof Error ? error.message : String(error)}`,
+      limit: null,
+      actual: null
+    }];
+  }
+}
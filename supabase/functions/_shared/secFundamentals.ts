@@ -0,0 +1,621 @@
+/**
+ * SEC EDGAR fundamentals for the fundamentals analyst
+ * Quarterly figures are read from the company's XBRL facts (10-K / 10-Q), normalized over the last
+ * eight quarters and cached per ticker; ratios (P/E, EV/EBITDA, ROIC, Piotroski F-score) are then
+ * computed here rather than by the AI, against the latest traded price.
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SEC_USER_AGENT } from './researchSources.ts';
+
+export interface FundamentalsQuarter {
+  periodEnd: string;                    // YYYY-MM-DD
+  revenue: number | null;
+  grossProfit: number | null;
+  operatingIncome: number | null;
+  netIncome: number | null;
+  epsDiluted: number | null;
+  operatingCashFlow: number | null;
+  capitalExpenditure: number | null;
+  freeCashFlow: number | null;
+  depreciation: number | null;
+  pretaxIncome: number | null;
+  incomeTax: number | null;
+  grossMargin: number | null;           // Fractions, e.g. 0.42
+  operatingMargin: number | null;
+  netMargin: number | null;
+  totalDebt: number | null;
+  cash: number | null;
+  totalAssets: number | null;
+  currentAssets: number | null;
+  currentLiabilities: number | null;
+  equity: number | null;
+  dilutedShares: number | null;         // Weighted average for the quarter
+}
+
+export interface PiotroskiScore {
+  score: number;
+  available: number;                    // Signals with enough data, out of 9
+  signals: Record<string, boolean | null>;
+}
+
+export interface FundamentalRatios {
+  price: number | null;
+  sharesOutstanding: number | null;
+  marketCap: number | null;
+  enterpriseValue: number | null;
+  ttmRevenue: number | null;
+  ttmNetIncome: number | null;
+  ttmEps: number | null;
+  ttmEbitda: number | null;
+  ttmFreeCashFlow: number | null;
+  peRatio: number | null;
+  evToEbitda: number | null;
+  roic: number | null;
+  fcfYield: number | null;
+  debtToEquity: number | null;
+  revenueGrowthYoY: number | null;      // TTM vs the prior TTM
+  piotroski: PiotroskiScore | null;
+}
+
+export interface SecFundamentals {
+  ticker: string;
+  cik: string;
+  companyName: string;
+  quarters: FundamentalsQuarter[];      // Oldest first, up to eight
+  ratios: FundamentalRatios;
+  fetchedAt: string;
+}
+
+interface XbrlFact {
+  start?: string;
+  end: string;
+  val: number;
+  form: string;
+  filed: string;
+}
+
+// data.sec.gov/api/xbrl/companyfacts: facts by taxonomy ('us-gaap', 'dei'), tag and unit
+interface CompanyFacts {
+  entityName?: string;
+  facts?: Record<string, Record<string, { units?: Record<string, XbrlFact[]> }>>;
+}
+
+// data.sec.gov/submissions: the registrant's SIC code and its recent filings as parallel arrays
+export interface SecSubmissions {
+  sic?: string;
+  sicDescription?: string;
+  filings?: {
+    recent?: {
+      form?: string[];
+      filingDate?: string[];
+      items?: string[];
+      acceptanceDateTime?: string[];
+    };
+  };
+}
+
+// An entry of sec.gov/files/company_tickers.json
+interface SecTickerEntry {
+  cik_str: number;
+  ticker: string;
+  title: string;
+}
+
+interface AlpacaCredentials {
+  apiKey: string;
+  secretKey: string;
+}
+
+const QUARTERS = 8;
+const CACHE_HOURS = 24;
+const DEFAULT_TAX_RATE = 0.21;
+const FILING_FORMS = ['10-K', '10-Q', '10-K/A', '10-Q/A'];
+
+// XBRL tags per figure, most preferred first; companies switch tags over the years
+const TAGS = {
+  revenue: ['RevenueFromContractWithCustomerExcludingAssessedTax', 'Revenues', 'SalesRevenueNet', 'RevenueFromContractWithCustomerIncludingAssessedTax'],
+  grossProfit: ['GrossProfit'],
+  operatingIncome: ['OperatingIncomeLoss'],
+  netIncome: ['NetIncomeLoss', 'ProfitLoss'],
+  epsDiluted: ['EarningsPerShareDiluted'],
+  operatingCashFlow: ['NetCashProvidedByUsedInOperatingActivities'],
+  capitalExpenditure: ['PaymentsToAcquirePropertyPlantAndEquipment'],
+  depreciation: ['DepreciationDepletionAndAmortization', 'DepreciationAndAmortization', 'DepreciationAmortizationAndAccretionNet'],
+  pretaxIncome: ['IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest', 'IncomeLossFromContinuingOperationsBeforeIncomeTaxesMinorityInterestAndIncomeLossFromEquityMethodInvestments'],
+  incomeTax: ['IncomeTaxExpenseBenefit'],
+  dilutedShares: ['WeightedAverageNumberOfDilutedSharesOutstanding'],
+  longTermDebt: ['LongTermDebt'],
+  longTermDebtNoncurrent: ['LongTermDebtNoncurrent'],
+  longTermDebtCurrent: ['LongTermDebtCurrent', 'DebtCurrent'],
+  shortTermDebt: ['ShortTermBorrowings', 'CommercialPaper'],
+  cash: ['CashAndCashEquivalentsAtCarryingValue', 'CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents'],
+  totalAssets: ['Assets'],
+  currentAssets: ['AssetsCurrent'],
+  currentLiabilities: ['LiabilitiesCurrent'],
+  equity: ['StockholdersEquity', 'StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest']
+};
+
+let tickerCiks: Map<string, { cik: string; name: string }> | null = null;
+
+/**
+ * JSON from an SEC endpoint, sent with the User-Agent SEC requires
+ */
+export async function fetchSec<T>(url: string): Promise<T> {
+  const response = await fetch(url, { headers: { 'User-Agent': SEC_USER_AGENT, 'Accept': 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`SEC EDGAR request failed (${response.status}) for ${url}`);
+  }
+  return await response.json();
+}
+
+/**
+ * CIK (10 digits) and registrant name of a ticker, from SEC's ticker list
+ */
+export async function lookupCik(ticker: string): Promise<{ cik: string; name: string }> {
+  if (!tickerCiks) {
+    const data = await fetchSec<Record<string, SecTickerEntry>>('https://www.sec.gov/files/company_tickers.json');
+    tickerCiks = new Map(Object.values(data).map(company => [
+      String(company.ticker).toUpperCase(),
+      { cik: String(company.cik_str).padStart(10, '0'), name: company.title }
+    ]));
+  }
+
+  const company = tickerCiks.get(ticker.toUpperCase().replace('.', '-'));
+  if (!company) {
+    throw new Error(`${ticker} is not in SEC EDGAR's company list (non-US issuer or ETF?)`);
+  }
+  return company;
+}
+
+function daysBetween(start: string, end: string): number {
+  return (Date.parse(end) - Date.parse(start)) / 86400000;
+}
+
+const isQuarterLength = (days: number) => days >= 80 && days <= 100;
+
+/**
+ * Facts of the first tags that report them, one per period (the latest filing wins, so restatements apply)
+ */
+function getFacts(companyFacts: CompanyFacts, tags: string[], unit: string): XbrlFact[] {
+  const byPeriod = new Map<string, XbrlFact>();
+
+  for (const tag of tags) {
+    const facts: XbrlFact[] = companyFacts.facts?.['us-gaap']?.[tag]?.units?.[unit] || [];
+    const tagPeriods = new Map<string, XbrlFact>();
+    for (const fact of facts) {
+      if (!FILING_FORMS.includes(fact.form) || typeof fact.val !== 'number') continue;
+      const key = `${fact.start || ''}|${fact.end}`;
+      const existing = tagPeriods.get(key);
+      if (!existing || fact.filed > existing.filed) tagPeriods.set(key, fact);
+    }
+    // Earlier tags take precedence for periods both report
+    for (const [key, fact] of tagPeriods) {
+      if (!byPeriod.has(key)) byPeriod.set(key, fact);
+    }
+  }
+
+  return [...byPeriod.values()];
+}
+
+/**
+ * Three-month values by period end for an income or cash flow statement figure
+ * - 'flow': quarters reported only year-to-date (cash flows, fourth quarters) are the year-to-date
+ *   value less the previous one with the same start, or the year less its first three quarters
+ * - 'perShare': EPS is not additive across year-to-date periods, but the fourth quarter is
+ *   conventionally the year less the first three quarters
+ * - 'average': share counts; a missing fourth quarter takes the year's average
+ */
+function quarterlyValues(facts: XbrlFact[], kind: 'flow' | 'perShare' | 'average' = 'flow'): Map<string, number> {
+  const values = new Map<string, number>();
+  const durations = facts.filter(fact => fact.start);
+
+  for (const fact of durations) {
+    if (isQuarterLength(daysBetween(fact.start!, fact.end))) {
+      values.set(fact.end, fact.val);
+    }
+  }
+
+  if (kind === 'flow') {
+    const byStart = new Map<string, XbrlFact[]>();
+    for (const fact of durations) {
+      byStart.set(fact.start!, [...(byStart.get(fact.start!) || []), fact]);
+    }
+    for (const group of byStart.values()) {
+      group.sort((a, b) => a.end.localeCompare(b.end));
+      for (let i = 1; i < group.length; i++) {
+        const previous = group[i - 1];
+        const current = group[i];
+        if (!values.has(current.end) && isQuarterLength(daysBetween(previous.end, current.end))) {
+          values.set(current.end, current.val - previous.val);
+        }
+      }
+    }
+  }
+
+  const years = durations.filter(fact => !values.has(fact.end) && Math.abs(daysBetween(fact.start!, fact.end) - 365) <= 10);
+  for (const year of years) {
+    if (kind === 'average') {
+      values.set(year.end, year.val);
+      continue;
+    }
+    const inYear = [...values.entries()].filter(([end]) => end > year.start! && end < year.end);
+    if (inYear.length === 3) {
+      values.set(year.end, year.val - inYear.reduce((sum, [, value]) => sum + value, 0));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Balance sheet values by date
+ */
+function instantValues(facts: XbrlFact[]): Map<string, number> {
+  return new Map(facts.filter(fact => !fact.start).map(fact => [fact.end, fact.val]));
+}
+
+/**
+ * Value at a period end, allowing a few days' difference between statement dates
+ */
+function valueAt(values: Map<string, number>, periodEnd: string): number | null {
+  if (values.has(periodEnd)) return values.get(periodEnd)!;
+  for (const [date, value] of values) {
+    if (Math.abs(daysBetween(date, periodEnd)) <= 7) return value;
+  }
+  return null;
+}
+
+const ratio = (numerator: number | null, denominator: number | null): number | null =>
+  numerator !== null && denominator !== null && denominator !== 0 ? numerator / denominator : null;
+
+const sumOrNull = (...values: (number | null)[]): number | null =>
+  values.every(value => value === null) ? null : values.reduce<number>((sum, value) => sum + (value || 0), 0);
+
+/**
+ * The last eight quarters of normalized figures from a company facts document
+ */
+export function normalizeCompanyFacts(companyFacts: CompanyFacts): FundamentalsQuarter[] {
+  const flow = (tags: string[], unit: string = 'USD', kind: 'flow' | 'perShare' | 'average' = 'flow') =>
+    quarterlyValues(getFacts(companyFacts, tags, unit), kind);
+  const instant = (tags: string[]) => instantValues(getFacts(companyFacts, tags, 'USD'));
+
+  const revenue = flow(TAGS.revenue);
+  const netIncome = flow(TAGS.netIncome);
+  const series = {
+    grossProfit: flow(TAGS.grossProfit),
+    operatingIncome: flow(TAGS.operatingIncome),
+    epsDiluted: flow(TAGS.epsDiluted, 'USD/shares', 'perShare'),
+    operatingCashFlow: flow(TAGS.operatingCashFlow),
+    capitalExpenditure: flow(TAGS.capitalExpenditure),
+    depreciation: flow(TAGS.depreciation),
+    pretaxIncome: flow(TAGS.pretaxIncome),
+    incomeTax: flow(TAGS.incomeTax),
+    dilutedShares: flow(TAGS.dilutedShares, 'shares', 'average'),
+    longTermDebt: instant(TAGS.longTermDebt),
+    longTermDebtNoncurrent: instant(TAGS.longTermDebtNoncurrent),
+    longTermDebtCurrent: instant(TAGS.longTermDebtCurrent),
+    shortTermDebt: instant(TAGS.shortTermDebt),
+    cash: instant(TAGS.cash),
+    totalAssets: instant(TAGS.totalAssets),
+    currentAssets: instant(TAGS.currentAssets),
+    currentLiabilities: instant(TAGS.currentLiabilities),
+    equity: instant(TAGS.equity)
+  };
+
+  // Banks and insurers may not tag revenue, so net income also defines the quarters
+  const periodEnds = [...new Set([...(revenue.size > 0 ? revenue : netIncome).keys()])].sort().slice(-QUARTERS);
+
+  return periodEnds.map(periodEnd => {
+    const at = (values: Map<string, number>) => valueAt(values, periodEnd);
+    const quarterRevenue = at(revenue);
+    const quarterNetIncome = at(netIncome);
+    const grossProfit = at(series.grossProfit);
+    const operatingIncome = at(series.operatingIncome);
+    const operatingCashFlow = at(series.operatingCashFlow);
+    const capitalExpenditure = at(series.capitalExpenditure);
+    const dilutedShares = at(series.dilutedShares);
+    const longTermDebt = at(series.longTermDebt) ?? sumOrNull(at(series.longTermDebtNoncurrent), at(series.longTermDebtCurrent));
+
+    return {
+      periodEnd,
+      revenue: quarterRevenue,
+      grossProfit,
+      operatingIncome,
+      netIncome: quarterNetIncome,
+      epsDiluted: at(series.epsDiluted) ?? ratio(quarterNetIncome, dilutedShares),
+      operatingCashFlow,
+      capitalExpenditure,
+      freeCashFlow: operatingCashFlow !== null ? operatingCashFlow - (capitalExpenditure || 0) : null,
+      depreciation: at(series.depreciation),
+      pretaxIncome: at(series.pretaxIncome),
+      incomeTax: at(series.incomeTax),
+      grossMargin: ratio(grossProfit, quarterRevenue),
+      operatingMargin: ratio(operatingIncome, quarterRevenue),
+      netMargin: ratio(quarterNetIncome, quarterRevenue),
+      totalDebt: sumOrNull(longTermDebt, at(series.shortTermDebt)),
+      cash: at(series.cash),
+      totalAssets: at(series.totalAssets),
+      currentAssets: at(series.currentAssets),
+      currentLiabilities: at(series.currentLiabilities),
+      equity: at(series.equity),
+      dilutedShares
+    };
+  });
+}
+
+/**
+ * Sum of a figure over the last four quarters, or null when any quarter lacks it or they are not consecutive
+ */
+function trailingSum(quarters: FundamentalsQuarter[], key: keyof FundamentalsQuarter): number | null {
+  if (quarters.length < 4) return null;
+  const lastFour = quarters.slice(-4);
+  if (daysBetween(lastFour[0].periodEnd, lastFour[3].periodEnd) > 300) return null;
+  const values = lastFour.map(quarter => quarter[key] as number | null);
+  return values.some(value => value === null) ? null : values.reduce<number>((sum, value) => sum + value!, 0);
+}
+
+/**
+ * Piotroski F-score from the latest four quarters against the four before them
+ * Signals without data count as unavailable rather than failed.
+ */
+export function calculatePiotroskiScore(quarters: FundamentalsQuarter[]): PiotroskiScore | null {
+  if (quarters.length < QUARTERS) {
+    return null;
+  }
+
+  const current = quarters.slice(-4);
+  const prior = quarters.slice(-QUARTERS, -4);
+  const latest = current[current.length - 1];
+  const yearAgo = prior[prior.length - 1];
+
+  const netIncome = trailingSum(current, 'netIncome');
+  const priorNetIncome = trailingSum(prior, 'netIncome');
+  const cashFlow = trailingSum(current, 'operatingCashFlow');
+  const revenue = trailingSum(current, 'revenue');
+  const priorRevenue = trailingSum(prior, 'revenue');
+  const grossProfit = trailingSum(current, 'grossProfit');
+  const priorGrossProfit = trailingSum(prior, 'grossProfit');
+
+  const roa = ratio(netIncome, latest.totalAssets);
+  const priorRoa = ratio(priorNetIncome, yearAgo.totalAssets);
+  const leverage = ratio(latest.totalDebt, latest.totalAssets);
+  const priorLeverage = ratio(yearAgo.totalDebt, yearAgo.totalAssets);
+  const currentRatio = ratio(latest.currentAssets, latest.currentLiabilities);
+  const priorCurrentRatio = ratio(yearAgo.currentAssets, yearAgo.currentLiabilities);
+  const grossMargin = ratio(grossProfit, revenue);
+  const priorGrossMargin = ratio(priorGrossProfit, priorRevenue);
+  const turnover = ratio(revenue, latest.totalAssets);
+  const priorTurnover = ratio(priorRevenue, yearAgo.totalAssets);
+
+  const compare = (a: number | null, b: number | null, test: (a: number, b: number) => boolean) =>
+    a !== null && b !== null ? test(a, b) : null;
+
+  const signals: Record<string, boolean | null> = {
+    positiveReturnOnAssets: roa !== null ? roa > 0 : null,
+    positiveOperatingCashFlow: cashFlow !== null ? cashFlow > 0 : null,
+    improvingReturnOnAssets: compare(roa, priorRoa, (a, b) => a > b),
+    cashFlowAboveNetIncome: compare(cashFlow, netIncome, (a, b) => a > b),
+    lowerLeverage: compare(leverage, priorLeverage, (a, b) => a <= b),
+    higherCurrentRatio: compare(currentRatio, priorCurrentRatio, (a, b) => a > b),
+    noDilution: compare(latest.dilutedShares, yearAgo.dilutedShares, (a, b) => a <= b),
+    higherGrossMargin: compare(grossMargin, priorGrossMargin, (a, b) => a > b),
+    higherAssetTurnover: compare(turnover, priorTurnover, (a, b) => a > b)
+  };
+
+  const results = Object.values(signals);
+  return {
+    score: results.filter(result => result === true).length,
+    available: results.filter(result => result !== null).length,
+    signals
+  };
+}
+
+/**
+ * Valuation, return and quality ratios; price-based ones are null without a price
+ */
+export function calculateFundamentalRatios(
+  quarters: FundamentalsQuarter[],
+  price: number | null,
+  sharesOutstanding: number | null
+): FundamentalRatios {
+  const latest = quarters[quarters.length - 1] || null;
+  const shares = sharesOutstanding ?? latest?.dilutedShares ?? null;
+
+  const ttmRevenue = trailingSum(quarters, 'revenue');
+  const ttmNetIncome = trailingSum(quarters, 'netIncome');
+  const ttmEps = trailingSum(quarters, 'epsDiluted');
+  const ttmOperatingIncome = trailingSum(quarters, 'operatingIncome');
+  const ttmDepreciation = trailingSum(quarters, 'depreciation');
+  const ttmFreeCashFlow = trailingSum(quarters, 'freeCashFlow');
+  const ttmPretax = trailingSum(quarters, 'pretaxIncome');
+  const ttmTax = trailingSum(quarters, 'incomeTax');
+  const priorRevenue = quarters.length >= QUARTERS ? trailingSum(quarters.slice(0, -4), 'revenue') : null;
+
+  const ttmEbitda = ttmOperatingIncome !== null && ttmDepreciation !== null ? ttmOperatingIncome + ttmDepreciation : null;
+  const marketCap = price !== null && shares !== null ? price * shares : null;
+  const enterpriseValue = marketCap !== null ? marketCap + (latest?.totalDebt || 0) - (latest?.cash || 0) : null;
+
+  // Return on invested capital: after-tax operating income over debt plus equity less cash
+  const effectiveTax = ratio(ttmTax, ttmPretax);
+  const taxRate = effectiveTax !== null && effectiveTax >= 0 && effectiveTax <= 0.5 ? effectiveTax : DEFAULT_TAX_RATE;
+  const investedCapital = latest?.equity !== null && latest?.equity !== undefined
+    ? latest.equity + (latest.totalDebt || 0) - (latest.cash || 0)
+    : null;
+
+  return {
+    price,
+    sharesOutstanding: shares,
+    marketCap,
+    enterpriseValue,
+    ttmRevenue,
+    ttmNetIncome,
+    ttmEps,
+    ttmEbitda,
+    ttmFreeCashFlow,
+    peRatio: ttmEps !== null && ttmEps > 0 ? ratio(price, ttmEps) : null,
+    evToEbitda: ttmEbitda !== null && ttmEbitda > 0 ? ratio(enterpriseValue, ttmEbitda) : null,
+    roic: investedCapital !== null && investedCapital > 0 && ttmOperatingIncome !== null
+      ? ttmOperatingIncome * (1 - taxRate) / investedCapital
+      : null,
+    fcfYield: ratio(ttmFreeCashFlow, marketCap),
+    debtToEquity: latest?.equity && latest.equity > 0 ? ratio(latest.totalDebt ?? 0, latest.equity) : null,
+    revenueGrowthYoY: ttmRevenue !== null && priorRevenue ? ttmRevenue / priorRevenue - 1 : null,
+    piotroski: calculatePiotroskiScore(quarters)
+  };
+}
+
+/**
+ * Latest trade price from Alpaca, or null when it cannot be fetched
+ */
+async function fetchLatestPrice(ticker: string, credentials: AlpacaCredentials | null): Promise<number | null> {
+  if (!credentials?.apiKey || !credentials.secretKey) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`https://data.alpaca.markets/v2/stocks/${ticker}/trades/latest?feed=iex`, {
+      headers: {
+        'APCA-API-KEY-ID': credentials.apiKey,
+        'APCA-API-SECRET-KEY': credentials.secretKey
+      }
+    });
+    if (!response.ok) {
+      throw new Error(`Alpaca latest trade request failed (${response.status})`);
+    }
+    const data = await response.json();
+    return typeof data.trade?.p === 'number' ? data.trade.p : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch the latest price for ${ticker}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Normalized quarters for a ticker, from sec_fundamentals_cache when fetched within CACHE_HOURS
+ */
+async function getQuarters(ticker: string, supabase: SupabaseClient): Promise<{
+  cik: string;
+  companyName: string;
+  quarters: FundamentalsQuarter[];
+  sharesOutstanding: number | null;
+  fetchedAt: string;
+}> {
+  const { data: cached, error } = await supabase
+    .from('sec_fundamentals_cache')
+    .select('cik, company_name, quarters, shares_outstanding, fetched_at')
+    .eq('ticker', ticker)
+    .maybeSingle();
+
+  if (!error && cached && Date.now() - Date.parse(cached.fetched_at) < CACHE_HOURS * 3600 * 1000) {
+    console.log(`💾 Using cached SEC fundamentals for ${ticker} (fetched ${cached.fetched_at})`);
+    return {
+      cik: cached.cik,
+      companyName: cached.company_name,
+      quarters: cached.quarters,
+      sharesOutstanding: cached.shares_outstanding,
+      fetchedAt: cached.fetched_at
+    };
+  }
+
+  const { cik, name } = await lookupCik(ticker);
+  const companyFacts = await fetchSec<CompanyFacts>(`https://data.sec.gov/api/xbrl/companyfacts/CIK${cik}.json`);
+  const quarters = normalizeCompanyFacts(companyFacts);
+  if (quarters.length === 0) {
+    throw new Error(`No quarterly XBRL financials found for ${ticker} (CIK ${cik})`);
+  }
+
+  // Cover-page share count of the latest filing
+  const coverShares: XbrlFact[] = companyFacts.facts?.dei?.EntityCommonStockSharesOutstanding?.units?.shares || [];
+  const latestCover = [...coverShares].sort((a, b) => a.end.localeCompare(b.end)).pop();
+  const fetchedAt = new Date().toISOString();
+
+  const { error: cacheError } = await supabase
+    .from('sec_fundamentals_cache')
+    .upsert({
+      ticker,
+      cik,
+      company_name: companyFacts.entityName || name,
+      quarters,
+      shares_outstanding: latestCover?.val ?? null,
+      fetched_at: fetchedAt
+    }, { onConflict: 'ticker' });
+
+  if (cacheError) {
+    console.warn(`Failed to cache SEC fundamentals for ${ticker}:`, cacheError);
+  }
+
+  console.log(`🏛️ Fetched ${quarters.length} quarters of SEC fundamentals for ${ticker} (CIK ${cik})`);
+  return {
+    cik,
+    companyName: companyFacts.entityName || name,
+    quarters,
+    sharesOutstanding: latestCover?.val ?? null,
+    fetchedAt
+  };
+}
+
+/**
+ * Eight quarters of EDGAR fundamentals and ratios at the latest price
+ */
+export async function getSecFundamentals(
+  ticker: string,
+  supabase: SupabaseClient,
+  credentials: AlpacaCredentials | null
+): Promise<SecFundamentals> {
+  const symbol = ticker.toUpperCase();
+  const [filings, price] = await Promise.all([
+    getQuarters(symbol, supabase),
+    fetchLatestPrice(symbol, credentials)
+  ]);
+
+  return {
+    ticker: symbol,
+    cik: filings.cik,
+    companyName: filings.companyName,
+    quarters: filings.quarters,
+    ratios: calculateFundamentalRatios(filings.quarters, price, filings.sharesOutstanding),
+    fetchedAt: filings.fetchedAt
+  };
+}
+
+function formatAmount(value: number | null): string {
+  if (value === null) return 'n/a';
+  const abs = Math.abs(value);
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(2)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  return value.toFixed(0);
+}
+
+const formatPercent = (value: number | null) => value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`;
+const formatNumber = (value: number | null, decimals: number = 2) => value === null ? 'n/a' : value.toFixed(decimals);
+
+/**
+ * Fundamentals as a prompt section: quarterly trend table, then ratios
+ */
+export function formatFundamentalsForAI(fundamentals: SecFundamentals): string {
+  const rows = fundamentals.quarters.map(quarter => [
+    quarter.periodEnd,
+    formatAmount(quarter.revenue),
+    formatPercent(quarter.grossMargin),
+    formatPercent(quarter.operatingMargin),
+    formatPercent(quarter.netMargin),
+    formatNumber(quarter.epsDiluted),
+    formatAmount(quarter.freeCashFlow),
+    formatAmount(quarter.totalDebt),
+    formatAmount(quarter.dilutedShares)
+  ].join(' | '));
+
+  const { ratios } = fundamentals;
+  const piotroski = ratios.piotroski
+    ? `${ratios.piotroski.score}/9 (${ratios.piotroski.available} of 9 signals available)`
+    : 'n/a (needs eight quarters)';
+
+  return `${fundamentals.companyName} (CIK ${fundamentals.cik}), quarterly figures from 10-K/10-Q XBRL filings:
+
+Quarter End | Revenue | Gross Margin | Operating Margin | Net Margin | Diluted EPS | Free Cash Flow | Total Debt | Diluted Shares
+${rows.join('\n')}
+
+Trailing twelve months: Revenue ${formatAmount(ratios.ttmRevenue)} (${formatPercent(ratios.revenueGrowthYoY)} YoY), Net income ${formatAmount(ratios.ttmNetIncome)}, EPS ${formatNumber(ratios.ttmEps)}, EBITDA ${formatAmount(ratios.ttmEbitda)}, Free cash flow ${formatAmount(ratios.ttmFreeCashFlow)}
+Valuation at ${ratios.price !== null ? `$${ratios.price.toFixed(2)}` : 'an unavailable price'}: Market cap ${formatAmount(ratios.marketCap)}, EV ${formatAmount(ratios.enterpriseValue)}, P/E ${formatNumber(ratios.peRatio, 1)}, EV/EBITDA ${formatNumber(ratios.evToEbitda, 1)}, FCF yield ${formatPercent(ratios.fcfYield)}
+Returns and quality: ROIC ${formatPercent(ratios.roic)}, Debt/Equity ${formatNumber(ratios.debtToEquity)}, Piotroski F-score ${piotroski}`;
+}
@@ -0,0 +1,162 @@
+/**
+ * Sector and industry of a ticker from the SIC code on its SEC EDGAR registration
+ * SIC codes are mapped to GICS-style sectors; the industry is SEC's SIC description.
+ * Results are cached in ticker_classifications and refreshed every CACHE_DAYS days.
+ */
+import { fetchSec, lookupCik, type SecSubmissions } from './secFundamentals.ts';
+
+export interface TickerClassification {
+  ticker: string;
+  sector: string;
+  industry: string | null;
+  sic: number | null;
+}
+
+// A ticker_classifications row
+type ClassificationRow = TickerClassification & { fetched_at: string };
+
+/**
+ * The part of a supabase-js client the ticker_classifications cache uses, so clients of any version fit
+ */
+export interface ClassificationCacheClient {
+  from(table: string): {
+    select(columns: string): {
+      in(column: string, values: string[]): PromiseLike<{ data: ClassificationRow[] | null }>;
+    };
+    upsert(values: ClassificationRow[], options: { onConflict: string }): PromiseLike<{ error: { message: string } | null }>;
+  };
+}
+
+export const UNCLASSIFIED_SECTOR = 'Unclassified';
+
+const CACHE_DAYS = 90;
+
+// Inclusive SIC ranges, most specific first
+const SIC_SECTORS: [number, number, string][] = [
+  [1300, 1389, 'Energy'],
+  [2900, 2999, 'Energy'],
+  [4610, 4619, 'Energy'],
+  [2833, 2836, 'Health Care'],
+  [3826, 3827, 'Health Care'],
+  [3841, 3851, 'Health Care'],
+  [5047, 5047, 'Health Care'],
+  [5122, 5122, 'Health Care'],
+  [8000, 8099, 'Health Care'],
+  [8731, 8734, 'Health Care'],
+  [3570, 3579, 'Information Technology'],
+  [3661, 3679, 'Information Technology'],
+  [3820, 3825, 'Information Technology'],
+  [3829, 3829, 'Information Technology'],
+  [5045, 5045, 'Information Technology'],
+  [7370, 7379, 'Information Technology'],
+  [4800, 4899, 'Communication Services'],
+  [2710, 2741, 'Communication Services'],
+  [7810, 7829, 'Communication Services'],
+  [4900, 4991, 'Utilities'],
+  [6500, 6553, 'Real Estate'],
+  [6798, 6798, 'Real Estate'],
+  [6000, 6799, 'Financials'],
+  [2000, 2199, 'Consumer Staples'],
+  [2840, 2844, 'Consumer Staples'],
+  [5140, 5199, 'Consumer Staples'],
+  [5400, 5499, 'Consumer Staples'],
+  [5912, 5912, 'Consumer Staples'],
+  [1000, 1499, 'Materials'],
+  [2400, 2499, 'Materials'],
+  [2600, 2699, 'Materials'],
+  [2800, 2899, 'Materials'],
+  [3200, 3399, 'Materials'],
+  [2200, 2399, 'Consumer Discretionary'],
+  [2500, 2599, 'Consumer Discretionary'],
+  [3100, 3199, 'Consumer Discretionary'],
+  [3630, 3659, 'Consumer Discretionary'],
+  [3710, 3716, 'Consumer Discretionary'],
+  [3751, 3751, 'Consumer Discretionary'],
+  [3940, 3949, 'Consumer Discretionary'],
+  [5200, 5999, 'Consumer Discretionary'],
+  [7000, 7299, 'Consumer Discretionary'],
+  [7900, 7999, 'Consumer Discretionary'],
+  [8200, 8299, 'Consumer Discretionary'],
+  [1500, 1799, 'Industrials'],
+  [3400, 3569, 'Industrials'],
+  [3580, 3629, 'Industrials'],
+  [3690, 3799, 'Industrials'],
+  [3800, 3899, 'Industrials'],
+  [4000, 4799, 'Industrials'],
+  [5000, 5099, 'Industrials'],
+  [7300, 7399, 'Industrials'],
+  [8700, 8799, 'Industrials']
+];
+
+/**
+ * GICS-style sector of a SIC code
+ */
+export function sicToSector(sic: number | null): string {
+  if (!sic) {
+    return UNCLASSIFIED_SECTOR;
+  }
+  return SIC_SECTORS.find(([from, to]) => sic >= from && sic <= to)?.[2] || UNCLASSIFIED_SECTOR;
+}
+
+const toTitleCase = (value: string) => value.toLowerCase().replace(/\b([a-z])/g, letter => letter.toUpperCase());
+
+async function fetchClassification(ticker: string): Promise<TickerClassification> {
+  const { cik } = await lookupCik(ticker);
+  const submissions = await fetchSec<SecSubmissions>(`https://data.sec.gov/submissions/CIK${cik}.json`);
+  const sic = submissions.sic ? parseInt(submissions.sic, 10) : null;
+
+  return {
+    ticker,
+    sector: sicToSector(sic),
+    industry: submissions.sicDescription ? toTitleCase(submissions.sicDescription) : null,
+    sic: Number.isFinite(sic) ? sic : null
+  };
+}
+
+/**
+ * Classification of each ticker; tickers SEC does not list (ETFs, foreign issuers) are Unclassified
+ * Never throws, a failed lookup falls back to the cached or Unclassified entry
+ */
+export async function getTickerClassifications(tickers: string[], supabase: ClassificationCacheClient): Promise<Record<string, TickerClassification>> {
+  const symbols = Array.from(new Set(tickers.map(ticker => ticker.toUpperCase())));
+  const classifications: Record<string, TickerClassification> = {};
+  if (symbols.length === 0) {
+    return classifications;
+  }
+
+  const { data: rows } = await supabase
+    .from('ticker_classifications')
+    .select('*')
+    .in('ticker', symbols);
+
+  const staleBefore = Date.now() - CACHE_DAYS * 24 * 60 * 60 * 1000;
+  const fresh = new Set<string>();
+  for (const row of rows || []) {
+    classifications[row.ticker] = { ticker: row.ticker, sector: row.sector, industry: row.industry, sic: row.sic };
+    if (Date.parse(row.fetched_at) >= staleBefore) {
+      fresh.add(row.ticker);
+    }
+  }
+
+  const updates: ClassificationRow[] = [];
+  for (const symbol of symbols.filter(symbol => !fresh.has(symbol))) {
+    try {
+      classifications[symbol] = await fetchClassification(symbol);
+    } catch (error) {
+      console.warn(`⚠️ No SEC classification for ${symbol}: ${error instanceof Error ? error.message : String(error)}`);
+      classifications[symbol] = classifications[symbol] || { ticker: symbol, sector: UNCLASSIFIED_SECTOR, industry: null, sic: null };
+    }
+    updates.push({ ...classifications[symbol], fetched_at: new Date().toISOString() });
+  }
+
+  if (updates.length > 0) {
+    const { error } = await supabase
+      .from('ticker_classifications')
+      .upsert(updates, { onConflict: 'ticker' });
+    if (error) {
+      console.error('❌ Failed to cache ticker classifications:', error);
+    }
+  }
+
+  return classifications;
+}
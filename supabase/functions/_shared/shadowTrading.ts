@@ -0,0 +1,204 @@
+/**
+ * Shadow mode: with live trading selected, every trade order is also submitted to the
+ * paper account right away while the live order waits for approval, so the AI's
+ * unfiltered record can be compared with what was actually approved
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { Broker, BrokerOrder, BrokerOrderStatus, buildOrderRequest, createBroker, orderExecutionFromRow } from './broker.ts';
+import { decryptApiSettings } from './credentialVault.ts';
+import { isAlpacaOrderTerminal } from './statusTypes.ts';
+
+export const SHADOW_SETTINGS_COLUMNS =
+  'shadow_mode_enabled, alpaca_paper_trading, alpaca_paper_api_key, alpaca_paper_secret_key';
+
+/**
+ * The api_settings columns in SHADOW_SETTINGS_COLUMNS
+ */
+export interface ShadowSettings {
+  shadow_mode_enabled: boolean | null;
+  alpaca_paper_trading: boolean | null;
+  alpaca_paper_api_key: string | null;
+  alpaca_paper_secret_key: string | null;
+}
+
+/**
+ * A trading_actions row to mirror; the order columns are read by buildOrderRequest
+ */
+export interface MirroredTradeAction {
+  id: string;
+  ticker: string;
+  action: string;
+  asset_class?: string | null;
+  [column: string]: unknown;
+}
+
+/**
+ * Paper order columns of a shadow_trades row
+ */
+export interface PaperOrderColumns {
+  paper_order_id: string | null;
+  paper_order_status: BrokerOrderStatus | null;
+  paper_filled_qty?: number | string | null;
+  paper_filled_price?: number | string | null;
+}
+
+interface ShadowTradeInsert extends Partial<PaperOrderColumns> {
+  user_id: string;
+  trading_action_id: string;
+  ticker: string;
+  action: string;
+  decision_price?: number | null;
+  error?: string;
+}
+
+/**
+ * Shadow mode needs live trading (in paper mode orders already go to paper) and paper credentials
+ */
+export function isShadowModeActive(apiSettings: ShadowSettings | null | undefined): apiSettings is ShadowSettings {
+  return Boolean(
+    apiSettings?.shadow_mode_enabled &&
+    apiSettings.alpaca_paper_trading === false &&
+    apiSettings.alpaca_paper_api_key &&
+    apiSettings.alpaca_paper_secret_key
+  );
+}
+
+/**
+ * Broker of the paper account, whatever trading mode is selected
+ */
+export function createPaperBroker(userId: string, apiSettings: ShadowSettings): Broker {
+  return createBroker({ ...apiSettings, user_id: userId, alpaca_paper_trading: true });
+}
+
+function paperOrderColumns(order: BrokerOrder): PaperOrderColumns {
+  return {
+    paper_order_id: order.id,
+    paper_order_status: order.status,
+    paper_filled_qty: order.filledQuantity || null,
+    paper_filled_price: order.filledAvgPrice || null
+  };
+}
+
+/**
+ * Submit a paper twin of each new trading_actions row and record it in shadow_trades
+ * Never throws: a failed mirror is stored with its error and the live order is unaffected
+ */
+export async function mirrorOrdersToPaper(supabase: SupabaseClient, userId: string, tradeActions: MirroredTradeAction[]): Promise<number> {
+  if (tradeActions.length === 0) {
+    return 0;
+  }
+
+  const { data: apiSettings } = await supabase
+    .from('api_settings')
+    .select(SHADOW_SETTINGS_COLUMNS)
+    .eq('user_id', userId)
+    .returns<ShadowSettings[]>()
+    .maybeSingle();
+
+  if (!isShadowModeActive(apiSettings)) {
+    return 0;
+  }
+
+  // Live rows are already stored, so a paper account that cannot be reached only skips the mirror
+  let broker: Broker;
+  try {
+    broker = createPaperBroker(userId, await decryptApiSettings(
+      supabase,
+      apiSettings,
+      userId,
+      'shadow-trading',
+      ['alpaca_paper_api_key', 'alpaca_paper_secret_key']
+    ));
+  } catch (error) {
+    console.error(`❌ Shadow mode skipped for user ${userId}, paper broker unavailable:`, error);
+    return 0;
+  }
+  let mirrored = 0;
+
+  for (const tradeAction of tradeActions) {
+    const shadowTrade: ShadowTradeInsert = {
+      user_id: userId,
+      trading_action_id: tradeAction.id,
+      ticker: tradeAction.ticker,
+      action: tradeAction.action
+    };
+
+    try {
+      // Option premiums are not comparable with the underlying's quote
+      if (tradeAction.asset_class !== 'option') {
+        const quote = await broker.getQuote(tradeAction.ticker);
+        shadowTrade.decision_price = quote?.price ?? null;
+      }
+
+      const { orderRequest, error } = await buildOrderRequest(
+        tradeAction,
+        orderExecutionFromRow(tradeAction),
+        `shadow_${tradeAction.id}`,
+        broker
+      );
+      if (error || !orderRequest) {
+        throw new Error(error || 'Failed to build the paper order');
+      }
+
+      const order = await broker.submitOrder(orderRequest);
+      Object.assign(shadowTrade, paperOrderColumns(order));
+      mirrored++;
+      console.log(`👥 Shadow ${tradeAction.action} ${orderRequest.symbol} submitted to paper (${order.status})`);
+    } catch (error) {
+      shadowTrade.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Shadow order for ${tradeAction.ticker} failed:`, shadowTrade.error);
+    }
+
+    const { error: insertError } = await supabase
+      .from('shadow_trades')
+      .insert(shadowTrade);
+
+    if (insertError) {
+      console.error(`❌ Failed to record shadow trade for ${tradeAction.ticker}:`, insertError);
+    }
+  }
+
+  return mirrored;
+}
+
+/**
+ * Fetch the latest status of paper orders that were still open and store it
+ * Returns the rows with the updates applied; rows that cannot be refreshed are returned as-is
+ */
+export async function refreshPaperFills<T extends PaperOrderColumns & { id: string }>(
+  supabase: SupabaseClient,
+  userId: string,
+  apiSettings: ShadowSettings | null,
+  shadowTrades: T[]
+): Promise<T[]> {
+  if (!apiSettings) {
+    return shadowTrades;
+  }
+
+  let broker: Broker;
+  try {
+    broker = createPaperBroker(userId, apiSettings);
+  } catch (_error) {
+    return shadowTrades;
+  }
+
+  return await Promise.all(shadowTrades.map(async (shadowTrade) => {
+    const status = shadowTrade.paper_order_status;
+    if (!shadowTrade.paper_order_id || (status && isAlpacaOrderTerminal(status))) {
+      return shadowTrade;
+    }
+
+    try {
+      const columns = paperOrderColumns(await broker.getOrder(shadowTrade.paper_order_id));
+      await supabase
+        .from('shadow_trades')
+        .update(columns)
+        .eq('id', shadowTrade.id);
+
+      return { ...shadowTrade, ...columns };
+    } catch (error) {
+      console.error(`Error refreshing paper order ${shadowTrade.paper_order_id}:`, error);
+      return shadowTrade;
+    }
+  }));
+}
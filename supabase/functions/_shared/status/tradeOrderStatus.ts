@@ -95,13 +95,14 @@ export function isTradeOrderRejected(status: TradeOrderStatus): boolean {
  * Check if Alpaca order is in a terminal state
  */
 export function isAlpacaOrderTerminal(status: AlpacaOrderStatus): boolean {
-  return [
+  const terminalStatuses: AlpacaOrderStatus[] = [
     ALPACA_ORDER_STATUS.FILLED,
     ALPACA_ORDER_STATUS.CANCELED,
     ALPACA_ORDER_STATUS.EXPIRED,
     ALPACA_ORDER_STATUS.REJECTED,
     ALPACA_ORDER_STATUS.DONE_FOR_DAY
-  ].includes(status);
+  ];
+  return terminalStatuses.includes(status);
 }
 
 /**
@@ -0,0 +1,278 @@
+import { AIProviderSettings, callAIProviderWithRetry, StructuredOutputFormat } from './aiProviders.ts';
+import { AIUsageContext } from './aiUsage.ts';
+
+/**
+ * Structured JSON output contracts for agents
+ * Agents ask the model for a schema-validated JSON block instead of scraping prose with regexes.
+ * Provider-native structured output is used where aiProviders.ts supports it, and a repair
+ * re-prompt is sent when the returned JSON does not validate.
+ */
+
+// Bump when a contract changes shape so stored agent_insights can be told apart
+export const AGENT_OUTPUT_SCHEMA_VERSION = 1;
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+export type AgentDecision = 'BUY' | 'SELL' | 'HOLD';
+
+export interface AgentDecisionContract {
+  decision: AgentDecision;
+  confidence: number;
+  priceTargets: {
+    entry: number | null;
+    target: number | null;
+    stopLoss: number | null;
+  };
+  keyRisks: string[];
+  rationale: string;
+}
+
+// Every property is required and nullable values use type arrays so the schema also passes OpenAI strict mode
+export const AGENT_DECISION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    decision: { type: 'string', enum: ['BUY', 'SELL', 'HOLD'], description: 'Directional call for the stock' },
+    confidence: { type: 'number', minimum: 0, maximum: 100, description: 'Confidence in the decision, 0-100' },
+    priceTargets: {
+      type: 'object',
+      properties: {
+        entry: { type: ['number', 'null'], description: 'Suggested entry price in USD' },
+        target: { type: ['number', 'null'], description: 'Price target in USD' },
+        stopLoss: { type: ['number', 'null'], description: 'Stop loss price in USD' }
+      },
+      required: ['entry', 'target', 'stopLoss'],
+      additionalProperties: false
+    },
+    keyRisks: { type: 'array', items: { type: 'string' }, description: 'Most important risks, at most five' },
+    rationale: { type: 'string', description: 'One or two sentence justification' }
+  },
+  required: ['decision', 'confidence', 'priceTargets', 'keyRisks', 'rationale'],
+  additionalProperties: false
+};
+
+/**
+ * Add agent-specific fields to a contract schema
+ */
+export function extendSchema(base: JsonSchema, properties: Record<string, JsonSchema>): JsonSchema {
+  return {
+    ...base,
+    properties: { ...base.properties, ...properties },
+    required: [...(base.required || []), ...Object.keys(properties)]
+  };
+}
+
+/**
+ * Structured output as stored under agent_insights.<agent>.structuredOutput
+ */
+export interface StructuredInsight<T = AgentDecisionContract> {
+  schema: string;
+  schemaVersion: number;
+  valid: boolean;
+  repaired: boolean;
+  data: T | null;
+  errors?: string[];
+  generatedAt: string;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Validate a value against the JSON schema subset used by the agent contracts
+ * Returns a list of errors, empty when the value is valid
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path} must be ${types.join(' or ')}`];
+    }
+  }
+
+  if (value === null) {
+    return [];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)));
+  }
+
+  if (schema.properties && matchesType(value, 'object')) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in record)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties[key];
+      if (propertySchema) {
+        errors.push(...validateAgainstSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the JSON object in a model response, tolerating code fences and surrounding prose
+ */
+export function parseJsonBlock(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+function checkResponse(text: string, schema: JsonSchema): { data: unknown; errors: string[] } {
+  try {
+    const data = parseJsonBlock(text);
+    return { data, errors: validateAgainstSchema(data, schema) };
+  } catch (error) {
+    return { data: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+}
+
+export interface StructuredOutputRequest {
+  name: string;
+  schema: JsonSchema;
+  prompt: string;
+  systemPrompt?: string;
+  maxTokens?: number;
+  maxRepairAttempts?: number;
+  usageContext?: AIUsageContext;
+}
+
+/**
+ * Request a JSON object matching `schema`, re-prompting with the validation errors when it does not
+ * Never throws; failures are reported through `valid: false` and `errors`
+ */
+export async function requestStructuredOutput<T = AgentDecisionContract>(
+  apiSettings: AIProviderSettings,
+  request: StructuredOutputRequest
+): Promise<StructuredInsight<T>> {
+  const { name, schema, maxTokens = 800, maxRepairAttempts = 1 } = request;
+  const format: StructuredOutputFormat = { name, schema };
+  const systemPrompt = request.systemPrompt ||
+    'You convert financial analysis into structured data. Respond with a single JSON object and nothing else.';
+  // The schema also goes in the prompt for providers that only offer a plain JSON mode
+  const basePrompt = `${request.prompt}
+
+Respond with ONLY a JSON object matching this JSON schema:
+${JSON.stringify(schema)}`;
+
+  let prompt = basePrompt;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    let response: string;
+    try {
+      response = await callAIProviderWithRetry(apiSettings, prompt, systemPrompt, maxTokens, 2, undefined, format, request.usageContext);
+    } catch (error) {
+      errors = [`Provider error: ${error instanceof Error ? error.message : String(error)}`];
+      break;
+    }
+
+    const result = checkResponse(response, schema);
+    if (result.errors.length === 0) {
+      return {
+        schema: name,
+        schemaVersion: AGENT_OUTPUT_SCHEMA_VERSION,
+        valid: true,
+        repaired: attempt > 0,
+        data: result.data as T,
+        generatedAt: new Date().toISOString()
+      };
+    }
+
+    errors = result.errors;
+    console.warn(`⚠️ ${name} output failed validation (attempt ${attempt + 1}): ${errors.join('; ')}`);
+
+    prompt = `${basePrompt}
+
+Your previous response did not satisfy the schema.
+Errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${response.substring(0, 4000)}
+
+Return the corrected JSON object only.`;
+  }
+
+  return {
+    schema: name,
+    schemaVersion: AGENT_OUTPUT_SCHEMA_VERSION,
+    valid: false,
+    repaired: false,
+    data: null,
+    errors,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Extract the common decision contract from an agent's prose analysis
+ * Used by agents whose main output is a narrative report
+ */
+export function extractAgentDecision(
+  apiSettings: AIProviderSettings,
+  agentName: string,
+  ticker: string,
+  analysis: string,
+  usageContext?: AIUsageContext
+): Promise<StructuredInsight<AgentDecisionContract>> {
+  return requestStructuredOutput<AgentDecisionContract>(apiSettings, {
+    name: 'agent_decision',
+    schema: AGENT_DECISION_SCHEMA,
+    prompt: `Summarize the ${agentName} analysis of ${ticker} below as structured data.
+Use HOLD when the analysis does not take a clear directional stance, and null for any price it does not state.
+Keep hedged or conditional language as lower confidence rather than a stronger call.
+
+ANALYSIS:
+${analysis.substring(0, 12000)}`,
+    maxTokens: 600,
+    usageContext
+  });
+}
@@ -1,8 +1,20 @@
 // Technical indicators calculation using Yahoo Finance data with daily caching
 // Provides comprehensive technical analysis for market analyst agent
 
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { getNYCurrentDate, getNYCurrentTimestamp, shouldInvalidateCache, isMarketHours, getMarketSession, formatNYTimestamp } from './timezoneUtils.ts';
+import {
+  CorporateAction,
+  fetchRecentAndUpcomingCorporateActions,
+  invalidateMarketDataCacheForCorporateActions
+} from './corporateActions.ts';
+import {
+  calculateRegistryIndicators,
+  getIndicatorDefinition,
+  getPresentIndicators,
+  hasAllIndicatorOutputs
+} from './indicatorRegistry.ts';
+import { Broker, createBroker } from './broker.ts';
 
 export interface HistoricalPrice {
   date: string;
@@ -42,524 +54,263 @@ export interface TechnicalIndicators {
   // Volume Indicators
   volume_sma: number[];
   obv: number[];
+  vwap: number[];
+  mfi: number[];
+  
+  // Trend Strength
+  adx: number[];
+  plus_di: number[];
+  minus_di: number[];
+  psar: number[];
+  
+  // Ichimoku Cloud (leading spans unshifted)
+  ichimoku_tenkan: number[];
+  ichimoku_kijun: number[];
+  ichimoku_senkou_a: number[];
+  ichimoku_senkou_b: number[];
+  
+  // Channels and Oscillators
+  keltner_upper: number[];
+  keltner_middle: number[];
+  keltner_lower: number[];
+  cci: number[];
+  williams_r: number[];
   
   // Support/Resistance Levels
   support_levels: number[];
   resistance_levels: number[];
+  fibonacci_levels: number[];  // Prices at FIBONACCI_RATIOS of the range's main swing
 }
 
-/**
- * Fetches historical stock data from Alpaca with daily caching
- * @param symbol Stock ticker symbol
- * @param period Time period ('1M', '3M', '6M', '1Y')
- * @param supabase Supabase client for caching
- */
-export async function fetchAlpacaHistoricalData(
-  symbol: string, 
-  period: string = '1Y',
-  supabase?: any
-): Promise<HistoricalPrice[]> {
-  try {
-    // Check cache first if supabase client provided
-    if (supabase) {
-      const cacheResult = await checkMarketDataCache(supabase, symbol, period);
-      if (cacheResult.isValid) {
-        console.log(`✅ Using cached data for ${symbol} (${period}) from ${cacheResult.fetchedDate}`);
-        return cacheResult.data!.historical;
-      }
-    }
-    
-    console.log(`🌐 Cache miss for ${symbol} (${period}), fetching from Alpaca`);
-    
-    // Map period to timeframes and date ranges for Alpaca API
-    const now = new Date();
-    const periodConfig = {
-      '1M': { days: 30, timeframe: '1Hour' },    // 1 month: hourly data
-      '3M': { days: 90, timeframe: '4Hour' },    // 3 months: 4-hour data  
-      '6M': { days: 180, timeframe: '1Day' },    // 6 months: daily data
-      '1Y': { days: 365, timeframe: '1Day' }     // 1 year: daily data
-    };
-    
-    const config = periodConfig[period as keyof typeof periodConfig] || { days: 365, timeframe: '1Day' };
-    const startDate = new Date(now);
-    startDate.setDate(startDate.getDate() - config.days);
-    
-    console.log(`📊 Fetching ${period} data for ${symbol} (${config.days} days, ${config.timeframe} timeframe from ${startDate.toISOString().split('T')[0]})`);
-    
-    // Check if we have user credentials attached to supabase client
-    const userCredentials = supabase._userCredentials;
-    if (!userCredentials) {
-      throw new Error('User credentials not available for Alpaca API access');
-    }
-    
-    // Validate credentials
-    const isPaper = userCredentials.alpaca_paper_trading ?? true;
-    const hasCredentials = isPaper 
-      ? !!(userCredentials.alpaca_paper_api_key && userCredentials.alpaca_paper_secret_key)
-      : !!(userCredentials.alpaca_live_api_key && userCredentials.alpaca_live_secret_key);
-    
-    if (!hasCredentials) {
-      throw new Error(`Missing ${isPaper ? 'paper' : 'live'} Alpaca credentials. Please configure in Settings.`);
-    }
-    
-    console.log(`🔑 Using ${isPaper ? 'paper' : 'live'} Alpaca credentials for ${symbol}`);
-    
-    // Call Alpaca API directly instead of via proxy to avoid authentication issues
-    const baseUrl = 'https://data.alpaca.markets';
-    const apiKey = isPaper ? userCredentials.alpaca_paper_api_key : userCredentials.alpaca_live_api_key;
-    const secretKey = isPaper ? userCredentials.alpaca_paper_secret_key : userCredentials.alpaca_live_secret_key;
-    
-    const url = new URL(`${baseUrl}/v2/stocks/${symbol}/bars`);
-    url.searchParams.set('timeframe', config.timeframe);
-    url.searchParams.set('start', startDate.toISOString().split('T')[0]);
-    url.searchParams.set('end', now.toISOString().split('T')[0]);
-    url.searchParams.set('adjustment', 'raw');
-    url.searchParams.set('feed', 'iex');
-    url.searchParams.set('limit', '10000');
-    
-    const alpacaResponse = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'APCA-API-KEY-ID': apiKey,
-        'APCA-API-SECRET-KEY': secretKey,
-        'Content-Type': 'application/json'
-      }
-    });
-    
-    if (!alpacaResponse.ok) {
-      const errorText = await alpacaResponse.text();
-      throw new Error(`Alpaca API error (${alpacaResponse.status}): ${errorText}`);
-    }
-    
-    const data = await alpacaResponse.json();
-    if (!data || !data.bars || data.bars.length === 0) {
-      throw new Error(`No historical data returned from Alpaca for ${symbol}`);
-    }
+export interface PriceHistory {
+  adjusted: HistoricalPrice[];  // Split- and dividend-adjusted, used for indicator math
+  raw: HistoricalPrice[];       // As traded, used for price display
+}
 
-    // Convert Alpaca bars to our HistoricalPrice format
-    const historicalData: HistoricalPrice[] = data.bars.map((bar: any) => ({
-      date: bar.t.split('T')[0], // Convert timestamp to date string
-      open: parseFloat(bar.o),
-      high: parseFloat(bar.h),
-      low: parseFloat(bar.l),
-      close: parseFloat(bar.c),
-      volume: parseInt(bar.v)
-    }));
-
-    // Sort by date to ensure chronological order
-    historicalData.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    console.log(`✅ Fetched ${historicalData.length} data points for ${symbol} from Alpaca`);
-    
-    // Store in cache if supabase client provided
-    if (supabase && historicalData.length > 0) {
-      try {
-        await storeInMarketDataCache(supabase, symbol, period, historicalData);
-        console.log(`💾 Cached ${historicalData.length} data points for ${symbol}`);
-      } catch (cacheError) {
-        console.warn('Failed to cache data:', cacheError);
-        // Don't throw - caching failure shouldn't break the analysis
-      }
-    }
-    
-    return historicalData;
-    
-  } catch (error) {
-    console.error('Error fetching Alpaca historical data:', error);
-    throw error;
-  }
+type BarAdjustment = 'raw' | 'all';
+
+interface AlpacaDataCredentials {
+  apiKey: string;
+  secretKey: string;
+  isPaper: boolean;
 }
 
+// Map period to timeframes and date ranges for Alpaca API
+const PERIOD_CONFIG: Record<string, { days: number; timeframe: string }> = {
+  '1M': { days: 30, timeframe: '1Hour' },    // 1 month: hourly data
+  '3M': { days: 90, timeframe: '4Hour' },    // 3 months: 4-hour data
+  '6M': { days: 180, timeframe: '1Day' },    // 6 months: daily data
+  '1Y': { days: 365, timeframe: '1Day' }     // 1 year: daily data
+};
+
 /**
- * Calculate Simple Moving Average
+ * Alpaca settings a calling agent attaches to its supabase client as _userCredentials
  */
-function calculateSMA(prices: number[], period: number): number[] {
-  const sma: number[] = [];
-  
-  for (let i = 0; i < prices.length; i++) {
-    if (i < period - 1) {
-      sma.push(NaN);
-    } else {
-      const sum = prices.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0);
-      sma.push(sum / period);
-    }
-  }
-  
-  return sma;
+export interface MarketDataCredentials {
+  userId?: string;
+  alpaca_paper_api_key?: string | null;
+  alpaca_paper_secret_key?: string | null;
+  alpaca_live_api_key?: string | null;
+  alpaca_live_secret_key?: string | null;
+  alpaca_paper_trading?: boolean | null;
+  broker_account_id?: string | null;
 }
 
 /**
- * Calculate Exponential Moving Average
+ * Supabase client of any supabase-js version, carrying the calling agent's Alpaca settings
  */
-function calculateEMA(prices: number[], period: number): number[] {
-  const ema: number[] = [];
-  const multiplier = 2 / (period + 1);
-  
-  // First EMA is just the first price
-  ema[0] = prices[0];
-  
-  for (let i = 1; i < prices.length; i++) {
-    ema[i] = (prices[i] * multiplier) + (ema[i - 1] * (1 - multiplier));
-  }
-  
-  return ema;
+export interface CredentialedClient {
+  from(relation: string): unknown;
+  _userCredentials?: MarketDataCredentials;
 }
 
 /**
- * Calculate RSI (Relative Strength Index)
+ * Alpaca credentials attached to the supabase client by the calling agent (supabase._userCredentials)
  */
-function calculateRSI(prices: number[], period: number = 14): number[] {
-  const rsi: number[] = [];
-  const gains: number[] = [];
-  const losses: number[] = [];
-  
-  // Calculate gains and losses
-  for (let i = 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? Math.abs(change) : 0);
+export function getAlpacaDataCredentials(supabase: CredentialedClient): AlpacaDataCredentials {
+  // Check if we have user credentials attached to supabase client
+  const userCredentials = supabase._userCredentials;
+  if (!userCredentials) {
+    throw new Error('User credentials not available for Alpaca API access');
   }
-  
-  for (let i = 0; i < gains.length; i++) {
-    if (i < period - 1) {
-      rsi.push(NaN);
-    } else {
-      const avgGain = gains.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0) / period;
-      const avgLoss = losses.slice(i - period + 1, i + 1).reduce((a, b) => a + b, 0) / period;
-      
-      if (avgLoss === 0) {
-        rsi.push(100);
-      } else {
-        const rs = avgGain / avgLoss;
-        rsi.push(100 - (100 / (1 + rs)));
-      }
-    }
+
+  // Validate credentials
+  const isPaper = userCredentials.alpaca_paper_trading ?? true;
+  const hasCredentials = isPaper
+    ? !!(userCredentials.alpaca_paper_api_key && userCredentials.alpaca_paper_secret_key)
+    : !!(userCredentials.alpaca_live_api_key && userCredentials.alpaca_live_secret_key);
+
+  if (!hasCredentials) {
+    throw new Error(`Missing ${isPaper ? 'paper' : 'live'} Alpaca credentials. Please configure in Settings.`);
   }
-  
-  // First price has no RSI
-  return [NaN, ...rsi];
-}
 
-/**
- * Calculate MACD (Moving Average Convergence Divergence)
- */
-function calculateMACD(prices: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) {
-  const emaFast = calculateEMA(prices, fastPeriod);
-  const emaSlow = calculateEMA(prices, slowPeriod);
-  
-  const macd = emaFast.map((fast, i) => fast - emaSlow[i]);
-  const signal = calculateEMA(macd.slice(slowPeriod - 1), signalPeriod);
-  const histogram = macd.slice(slowPeriod - 1).map((macdVal, i) => macdVal - (signal[i] || 0));
-  
-  // Pad signal and histogram to match macd length
-  const paddedSignal = new Array(slowPeriod - 1).fill(NaN).concat(signal);
-  const paddedHistogram = new Array(slowPeriod - 1).fill(NaN).concat(histogram);
-  
   return {
-    macd,
-    signal: paddedSignal,
-    histogram: paddedHistogram
+    apiKey: (isPaper ? userCredentials.alpaca_paper_api_key : userCredentials.alpaca_live_api_key) || '',
+    secretKey: (isPaper ? userCredentials.alpaca_paper_secret_key : userCredentials.alpaca_live_secret_key) || '',
+    isPaper
   };
 }
 
 /**
- * Calculate Bollinger Bands
+ * Broker for bar data, built from the settings attached to the supabase client by the calling agent
  */
-function calculateBollingerBands(prices: number[], period: number = 20, stdDev: number = 2) {
-  const sma = calculateSMA(prices, period);
-  const upper: number[] = [];
-  const lower: number[] = [];
-  
-  for (let i = 0; i < prices.length; i++) {
-    if (i < period - 1) {
-      upper.push(NaN);
-      lower.push(NaN);
-    } else {
-      const slice = prices.slice(i - period + 1, i + 1);
-      const mean = sma[i];
-      const variance = slice.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) / period;
-      const standardDeviation = Math.sqrt(variance);
-      
-      upper.push(mean + (standardDeviation * stdDev));
-      lower.push(mean - (standardDeviation * stdDev));
-    }
+export function getMarketDataBroker(supabase: CredentialedClient | undefined): Broker {
+  const userCredentials = supabase?._userCredentials;
+  if (!userCredentials) {
+    throw new Error('User credentials not available for market data access');
   }
-  
-  return {
-    upper,
-    middle: sma,
-    lower
-  };
+  // The user and broker account pick the account, which matters to the simulated broker
+  return createBroker({ ...userCredentials, user_id: userCredentials.userId });
 }
 
+// Intraday bars for the multi-timeframe mode: lookback in calendar days and how long a cached set stays fresh
+export const INTRADAY_TIMEFRAMES: Record<string, { days: number; ttlMinutes: number }> = {
+  '5Min': { days: 3, ttlMinutes: 5 },
+  '15Min': { days: 7, ttlMinutes: 15 },
+  '1Hour': { days: 30, ttlMinutes: 30 }
+};
+
 /**
- * Calculate Average True Range (ATR)
+ * Bar timeframe used for an analysis period (e.g. '1Day' for 1Y)
  */
-function calculateATR(high: number[], low: number[], close: number[], period: number = 14): number[] {
-  const trueRanges: number[] = [];
-  
-  for (let i = 1; i < high.length; i++) {
-    const hl = high[i] - low[i];
-    const hc = Math.abs(high[i] - close[i - 1]);
-    const lc = Math.abs(low[i] - close[i - 1]);
-    
-    trueRanges.push(Math.max(hl, hc, lc));
-  }
-  
-  const atr = [NaN]; // First value is NaN
-  atr.push(...calculateSMA(trueRanges, period).slice(period - 1));
-  
-  return atr;
+export function getPeriodTimeframe(period: string): string {
+  return (PERIOD_CONFIG[period] || { timeframe: '1Day' }).timeframe;
 }
 
-/**
- * Calculate Stochastic Oscillator
- */
-function calculateStochastic(high: number[], low: number[], close: number[], kPeriod: number = 14, dPeriod: number = 3) {
-  const k: number[] = [];
-  
-  for (let i = 0; i < close.length; i++) {
-    if (i < kPeriod - 1) {
-      k.push(NaN);
-    } else {
-      const highestHigh = Math.max(...high.slice(i - kPeriod + 1, i + 1));
-      const lowestLow = Math.min(...low.slice(i - kPeriod + 1, i + 1));
-      
-      if (highestHigh === lowestLow) {
-        k.push(50);
-      } else {
-        k.push(((close[i] - lowestLow) / (highestHigh - lowestLow)) * 100);
-      }
-    }
+async function fetchBrokerBars(
+  symbol: string,
+  period: string,
+  broker: Broker,
+  adjustment: BarAdjustment,
+  intradayTimeframe?: string
+): Promise<HistoricalPrice[]> {
+  const config = intradayTimeframe
+    ? { days: INTRADAY_TIMEFRAMES[intradayTimeframe].days, timeframe: intradayTimeframe }
+    : PERIOD_CONFIG[period] || { days: 365, timeframe: '1Day' };
+
+  const bars = await broker.getBars(symbol, {
+    timeframe: config.timeframe,
+    lookbackDays: config.days,
+    // Intraday requests run up to now so today's session is included
+    end: intradayTimeframe ? undefined : new Date().toISOString().split('T')[0],
+    limit: 10000,
+    adjustment
+  });
+  if (bars.length === 0) {
+    throw new Error(`No historical data returned from ${broker.provider} for ${symbol}`);
   }
-  
-  const d = calculateSMA(k, dPeriod);
-  
-  return { k, d };
+
+  // Convert broker bars to our HistoricalPrice format
+  const historicalData: HistoricalPrice[] = bars.map(bar => ({
+    date: intradayTimeframe ? bar.timestamp : bar.timestamp.split('T')[0], // Intraday bars keep their timestamp
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume
+  }));
+
+  // Sort by date to ensure chronological order
+  historicalData.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  return historicalData;
 }
 
 /**
- * Calculate On-Balance Volume (OBV)
+ * Fetches adjusted and raw historical stock data from Alpaca with daily caching
+ * @param symbol Stock ticker symbol
+ * @param period Time period ('1M', '3M', '6M', '1Y')
+ * @param supabase Supabase client for caching
  */
-function calculateOBV(close: number[], volume: number[]): number[] {
-  const obv: number[] = [volume[0]];
-  
-  for (let i = 1; i < close.length; i++) {
-    if (close[i] > close[i - 1]) {
-      obv.push(obv[i - 1] + volume[i]);
-    } else if (close[i] < close[i - 1]) {
-      obv.push(obv[i - 1] - volume[i]);
-    } else {
-      obv.push(obv[i - 1]);
+export async function fetchAlpacaPriceHistory(
+  symbol: string,
+  period: string = '1Y',
+  supabase?: CredentialedClient
+): Promise<PriceHistory> {
+  try {
+    // Check cache first if supabase client provided
+    if (supabase) {
+      const cacheResult = await checkMarketDataCache(supabase, symbol, period);
+      if (cacheResult.isValid) {
+        console.log(`✅ Using cached data for ${symbol} (${period}) from ${cacheResult.fetchedDate}`);
+        return cacheResult.data!.history;
+      }
     }
-  }
-  
-  return obv;
-}
 
-/**
- * Identify support and resistance levels
- */
-function findSupportResistance(high: number[], low: number[], close: number[]): { support: number[], resistance: number[] } {
-  const levels: number[] = [];
-  const window = 10; // Look at 10 periods on each side
-  
-  // Find local highs and lows
-  for (let i = window; i < high.length - window; i++) {
-    const isLocalHigh = high.slice(i - window, i + window + 1).every((val, idx) => 
-      idx === window || val <= high[i]
-    );
-    const isLocalLow = low.slice(i - window, i + window + 1).every((val, idx) => 
-      idx === window || val >= low[i]
-    );
-    
-    if (isLocalHigh) levels.push(high[i]);
-    if (isLocalLow) levels.push(low[i]);
-  }
-  
-  // Sort and group similar levels
-  levels.sort((a, b) => a - b);
-  const groupedLevels: number[] = [];
-  let currentGroup = [levels[0]];
-  
-  for (let i = 1; i < levels.length; i++) {
-    if (Math.abs(levels[i] - levels[i - 1]) / levels[i - 1] < 0.02) { // Within 2%
-      currentGroup.push(levels[i]);
-    } else {
-      groupedLevels.push(currentGroup.reduce((a, b) => a + b) / currentGroup.length);
-      currentGroup = [levels[i]];
+    console.log(`🌐 Cache miss for ${symbol} (${period}), fetching from Alpaca`);
+
+    const config = PERIOD_CONFIG[period] || { days: 365, timeframe: '1Day' };
+    console.log(`📊 Fetching ${period} data for ${symbol} (${config.days} days, ${config.timeframe} timeframe)`);
+
+    const broker = getMarketDataBroker(supabase);
+    console.log(`🔑 Using ${broker.paper ? 'paper' : 'live'} ${broker.provider} account for ${symbol}`);
+
+    // Adjusted bars keep indicators continuous across splits and dividends; raw bars show actual prices
+    const [adjusted, raw] = await Promise.all([
+      fetchBrokerBars(symbol, period, broker, 'all'),
+      fetchBrokerBars(symbol, period, broker, 'raw')
+    ]);
+    const history: PriceHistory = { adjusted, raw };
+
+    console.log(`✅ Fetched ${adjusted.length} data points for ${symbol} from Alpaca`);
+
+    // Store in cache if supabase client provided
+    if (supabase && adjusted.length > 0) {
+      try {
+        await storeInMarketDataCache(supabase, symbol, period, history);
+        console.log(`💾 Cached ${adjusted.length} data points for ${symbol}`);
+      } catch (cacheError) {
+        console.warn('Failed to cache data:', cacheError);
+        // Don't throw - caching failure shouldn't break the analysis
+      }
     }
+
+    return history;
+
+  } catch (error) {
+    console.error('Error fetching Alpaca historical data:', error);
+    throw error;
   }
-  
-  if (currentGroup.length > 0) {
-    groupedLevels.push(currentGroup.reduce((a, b) => a + b) / currentGroup.length);
-  }
-  
-  const currentPrice = close[close.length - 1];
-  const support = groupedLevels.filter(level => level < currentPrice).slice(-3); // Top 3 support
-  const resistance = groupedLevels.filter(level => level > currentPrice).slice(0, 3); // Top 3 resistance
-  
-  return { support, resistance };
 }
 
 /**
- * Determine which indicators can be calculated based on available data points
+ * Fetches split- and dividend-adjusted historical stock data from Alpaca with daily caching
+ * @param symbol Stock ticker symbol
+ * @param period Time period ('1M', '3M', '6M', '1Y')
+ * @param supabase Supabase client for caching
  */
-function getValidIndicators(dataPoints: number): {
-  indicators: string[];
-  minDataRequired: number;
-  timeframeNote: string;
-} {
-  if (dataPoints < 10) {
-    return {
-      indicators: ['basic_trend'],
-      minDataRequired: 10,
-      timeframeNote: 'Insufficient data for technical indicators'
-    };
-  } else if (dataPoints < 30) { // ~1M data
-    return {
-      indicators: ['sma_10', 'sma_20', 'ema_12', 'rsi', 'simple_bollinger', 'atr', 'volume_basic'],
-      minDataRequired: 26,
-      timeframeNote: '1M timeframe - basic indicators only'
-    };
-  } else if (dataPoints < 60) { // ~3M data  
-    return {
-      indicators: ['sma_10', 'sma_20', 'sma_50', 'ema_12', 'ema_26', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv'],
-      minDataRequired: 50,
-      timeframeNote: '3M timeframe - intermediate indicators'
-    };
-  } else if (dataPoints < 200) { // ~6M data
-    return {
-      indicators: ['sma_10', 'sma_20', 'sma_50', 'ema_12', 'ema_26', 'ema_50', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv', 'support_resistance'],
-      minDataRequired: 50,
-      timeframeNote: '6M timeframe - advanced indicators (no SMA200)'
-    };
-  } else { // 1Y+ data
-    return {
-      indicators: ['sma_10', 'sma_20', 'sma_50', 'sma_200', 'ema_12', 'ema_26', 'ema_50', 'macd', 'rsi', 'bollinger', 'atr', 'stochastic', 'volume_sma', 'obv', 'support_resistance'],
-      minDataRequired: 200,
-      timeframeNote: '1Y timeframe - all indicators available'
-    };
-  }
+export async function fetchAlpacaHistoricalData(
+  symbol: string,
+  period: string = '1Y',
+  supabase?: CredentialedClient
+): Promise<HistoricalPrice[]> {
+  const history = await fetchAlpacaPriceHistory(symbol, period, supabase);
+  return history.adjusted;
 }
 
 /**
- * Calculate technical indicators appropriate for the given timeframe
+ * Calculate every registry indicator the bars support (see indicatorRegistry.ts)
  */
 export function calculateTimeframeIndicators(historicalData: HistoricalPrice[], period: string): TechnicalIndicators & { metadata: any } {
   if (!historicalData || historicalData.length < 10) {
     throw new Error(`Insufficient data for technical analysis. Got ${historicalData?.length || 0} data points, need at least 10.`);
   }
   
-  const validIndicators = getValidIndicators(historicalData.length);
-  
-  const closes = historicalData.map(d => d.close);
-  const highs = historicalData.map(d => d.high);
-  const lows = historicalData.map(d => d.low);
-  const volumes = historicalData.map(d => d.volume);
+  const { values, calculated, skipped } = calculateRegistryIndicators(historicalData);
+  const timeframeNote = skipped.length > 0
+    ? `${period} timeframe (${historicalData.length} bars) - not calculated: ${skipped.map(s => `${s.id} (${s.reason})`).join(', ')}`
+    : `${period} timeframe (${historicalData.length} bars) - all indicators available`;
   
-  console.log(`🔧 Calculating indicators for ${period}: ${validIndicators.indicators.join(', ')}`);
-  console.log(`📊 ${validIndicators.timeframeNote}`);
-  
-  // Initialize indicators object with empty arrays
-  const indicators: TechnicalIndicators = {
-    sma_10: [],
-    sma_20: [],
-    sma_50: [],
-    sma_200: [],
-    ema_12: [],
-    ema_26: [],
-    ema_50: [],
-    macd: [],
-    macd_signal: [],
-    macd_histogram: [],
-    rsi: [],
-    stochastic_k: [],
-    stochastic_d: [],
-    bollinger_upper: [],
-    bollinger_middle: [],
-    bollinger_lower: [],
-    atr: [],
-    volume_sma: [],
-    obv: [],
-    support_levels: [],
-    resistance_levels: []
-  };
-  
-  // Calculate only the indicators appropriate for this timeframe
-  if (validIndicators.indicators.includes('sma_10')) {
-    indicators.sma_10 = calculateSMA(closes, 10);
-  }
-  if (validIndicators.indicators.includes('sma_20')) {
-    indicators.sma_20 = calculateSMA(closes, 20);
-  }
-  if (validIndicators.indicators.includes('sma_50')) {
-    indicators.sma_50 = calculateSMA(closes, 50);
-  }
-  if (validIndicators.indicators.includes('sma_200')) {
-    indicators.sma_200 = calculateSMA(closes, 200);
-  }
-  
-  if (validIndicators.indicators.includes('ema_12')) {
-    indicators.ema_12 = calculateEMA(closes, 12);
-  }
-  if (validIndicators.indicators.includes('ema_26')) {
-    indicators.ema_26 = calculateEMA(closes, 26);
-  }
-  if (validIndicators.indicators.includes('ema_50')) {
-    indicators.ema_50 = calculateEMA(closes, 50);
-  }
-  
-  if (validIndicators.indicators.includes('macd')) {
-    const macd = calculateMACD(closes);
-    indicators.macd = macd.macd;
-    indicators.macd_signal = macd.signal;
-    indicators.macd_histogram = macd.histogram;
-  }
-  
-  if (validIndicators.indicators.includes('rsi')) {
-    indicators.rsi = calculateRSI(closes);
-  }
-  
-  if (validIndicators.indicators.includes('stochastic')) {
-    const stochastic = calculateStochastic(highs, lows, closes);
-    indicators.stochastic_k = stochastic.k;
-    indicators.stochastic_d = stochastic.d;
-  }
-  
-  if (validIndicators.indicators.includes('bollinger') || validIndicators.indicators.includes('simple_bollinger')) {
-    const bollinger = calculateBollingerBands(closes);
-    indicators.bollinger_upper = bollinger.upper;
-    indicators.bollinger_middle = bollinger.middle;
-    indicators.bollinger_lower = bollinger.lower;
-  }
-  
-  if (validIndicators.indicators.includes('atr')) {
-    indicators.atr = calculateATR(highs, lows, closes);
-  }
-  
-  if (validIndicators.indicators.includes('volume_sma') || validIndicators.indicators.includes('volume_basic')) {
-    indicators.volume_sma = calculateSMA(volumes, Math.min(20, Math.floor(historicalData.length / 2)));
-  }
-  
-  if (validIndicators.indicators.includes('obv')) {
-    indicators.obv = calculateOBV(closes, volumes);
-  }
-  
-  if (validIndicators.indicators.includes('support_resistance')) {
-    const supportResistance = findSupportResistance(highs, lows, closes);
-    indicators.support_levels = supportResistance.support;
-    indicators.resistance_levels = supportResistance.resistance;
-  }
+  console.log(`🔧 Calculating indicators for ${period}: ${calculated.join(', ')}`);
+  console.log(`📊 ${timeframeNote}`);
   
   return {
-    ...indicators,
+    ...(values as unknown as TechnicalIndicators),
     metadata: {
       period,
       dataPoints: historicalData.length,
-      indicatorsCalculated: validIndicators.indicators,
-      timeframeNote: validIndicators.timeframeNote,
-      minDataRequired: validIndicators.minDataRequired
+      indicatorsCalculated: calculated,
+      timeframeNote,
+      minDataRequired: Math.max(...calculated.map(id => getIndicatorDefinition(id)?.minLookback || 0))
     }
   };
 }
@@ -576,67 +327,60 @@ export function calculateAllIndicators(historicalData: HistoricalPrice[]): Techn
 
 /**
  * Format indicators for AI analysis (downsampled to specified points)
+ * Columns and key levels come from the registry definitions of the indicators present
  */
 export function formatIndicatorsForAI(
-  indicators: TechnicalIndicators, 
+  indicators: Partial<TechnicalIndicators>, 
   historicalData: HistoricalPrice[],
   targetPoints: number = 70
 ): string {
-  if (historicalData.length <= targetPoints) {
-    return formatFullIndicators(indicators, historicalData);
-  }
+  const definitions = getPresentIndicators(indicators);
+  const columns = definitions.flatMap(definition => definition.columns || []);
   
   // Downsample data and indicators to target points
-  const step = Math.floor(historicalData.length / targetPoints);
-  const downsampledIndices: number[] = [];
-  
-  for (let i = 0; i < targetPoints; i++) {
-    downsampledIndices.push(Math.min(i * step, historicalData.length - 1));
+  const indices: number[] = [];
+  if (historicalData.length <= targetPoints) {
+    historicalData.forEach((_, i) => indices.push(i));
+  } else {
+    const step = Math.floor(historicalData.length / targetPoints);
+    for (let i = 0; i < targetPoints; i++) {
+      indices.push(Math.min(i * step, historicalData.length - 1));
+    }
   }
   
-  let formattedData = `Technical Analysis Data (${targetPoints} downsampled points from ${historicalData.length} total):\n\n`;
+  let formattedData = historicalData.length <= targetPoints
+    ? `Technical Analysis Data (${historicalData.length} data points):\n\n`
+    : `Technical Analysis Data (${targetPoints} downsampled points from ${historicalData.length} total; blank = not enough history yet):\n\n`;
   
-  formattedData += `Date,Close,SMA20,SMA50,EMA12,EMA26,RSI,MACD,Signal,Bollinger_Upper,Bollinger_Lower,ATR,Volume,OBV\n`;
+  formattedData += ['Date', 'Close', ...columns.map(column => column.label), 'Volume'].join(',') + '\n';
   
-  for (const idx of downsampledIndices) {
+  for (const idx of indices) {
     const data = historicalData[idx];
-    formattedData += `${data.date},${data.close.toFixed(2)},`;
-    formattedData += `${(indicators.sma_20[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.sma_50[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.ema_12[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.ema_26[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.rsi[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.macd[idx] || 0).toFixed(4)},`;
-    formattedData += `${(indicators.macd_signal[idx] || 0).toFixed(4)},`;
-    formattedData += `${(indicators.bollinger_upper[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.bollinger_lower[idx] || 0).toFixed(2)},`;
-    formattedData += `${(indicators.atr[idx] || 0).toFixed(3)},`;
-    formattedData += `${(data.volume / 1000000).toFixed(2)}M,`;
-    formattedData += `${(indicators.obv[idx] || 0).toFixed(0)}\n`;
+    const cells = columns.map(column => {
+      const value = (indicators as Record<string, number[]>)[column.key]?.[idx];
+      return typeof value === 'number' && Number.isFinite(value) ? value.toFixed(column.decimals) : '';
+    });
+    formattedData += [data.date, data.close.toFixed(2), ...cells, `${(data.volume / 1000000).toFixed(2)}M`].join(',') + '\n';
   }
   
-  // Add support/resistance levels
-  formattedData += `\nKey Levels:\n`;
-  formattedData += `Support: ${indicators.support_levels.map(s => s.toFixed(2)).join(', ')}\n`;
-  formattedData += `Resistance: ${indicators.resistance_levels.map(r => r.toFixed(2)).join(', ')}\n`;
+  // Add key price levels (support/resistance, Fibonacci)
+  const levels = definitions
+    .filter(definition => definition.formatLevels)
+    .map(definition => definition.formatLevels!(indicators as Record<string, number[]>));
+  if (levels.length > 0) {
+    formattedData += `\nKey Levels:\n${levels.join('\n')}\n`;
+  }
   
   return formattedData;
 }
 
-function formatFullIndicators(indicators: TechnicalIndicators, historicalData: HistoricalPrice[]): string {
-  // Implementation for full data formatting (similar but without downsampling)
-  let formattedData = `Technical Analysis Data (${historicalData.length} data points):\n\n`;
-  // ... similar formatting logic
-  return formattedData;
-}
-
 /**
  * Check if we have valid cached market data for today
  */
 async function checkMarketDataCache(supabase: any, symbol: string, period: string): Promise<{
   isValid: boolean;
   fetchedDate?: string;
-  data?: { historical: HistoricalPrice[]; indicators: TechnicalIndicators };
+  data?: { history: PriceHistory; indicators: TechnicalIndicators };
 }> {
   try {
     const today = getNYCurrentDate(); // Use NY timezone
@@ -661,14 +405,21 @@ async function checkMarketDataCache(supabase: any, symbol: string, period: strin
       return { isValid: false };
     }
     
-    const historical = data.historical_data as HistoricalPrice[];
+    // Entries cached before adjusted bars were stored hold raw bars only
+    if (!data.raw_historical_data) {
+      console.log(`🔄 Cache for ${symbol} predates adjusted bars, refetching`);
+      return { isValid: false };
+    }
     
     console.log(`💾 Valid cache found for ${symbol} - ${formatNYTimestamp()} (${getMarketSession()})`);
     return {
       isValid: true,
       fetchedDate: data.fetched_date,
       data: {
-        historical,
+        history: {
+          adjusted: data.historical_data as HistoricalPrice[],
+          raw: data.raw_historical_data as HistoricalPrice[]
+        },
         indicators: data.technical_indicators as TechnicalIndicators
       }
     };
@@ -686,11 +437,11 @@ async function storeInMarketDataCache(
   supabase: any, 
   symbol: string, 
   period: string, 
-  historical: HistoricalPrice[]
+  history: PriceHistory
 ): Promise<void> {
   try {
     // Calculate indicators for the full dataset
-    const indicators = calculateTimeframeIndicators(historical, period);
+    const indicators = calculateTimeframeIndicators(history.adjusted, period);
     const { metadata, ...indicatorsData } = indicators;
     
     const nyDate = getNYCurrentDate();
@@ -699,9 +450,10 @@ async function storeInMarketDataCache(
     const cacheData = {
       ticker: symbol.toUpperCase(),
       timeframe: period,
-      historical_data: historical,
+      historical_data: history.adjusted,
+      raw_historical_data: history.raw,
       technical_indicators: indicatorsData,
-      data_points: historical.length,
+      data_points: history.adjusted.length,
       analysis_range: period,
       fetched_date: nyDate,  // Use NY date
       created_at: nyTimestamp.toISOString(),  // Store NY timestamp
@@ -737,14 +489,21 @@ export async function getCachedMarketDataWithIndicators(
   period: string,
   supabase: any
 ): Promise<{
-  historical: HistoricalPrice[];
+  historical: HistoricalPrice[];       // Adjusted bars the indicators were calculated from
+  rawHistorical: HistoricalPrice[];    // Unadjusted bars for price display
   indicators: TechnicalIndicators & { metadata?: any };
   fromCache: boolean;
+  corporateActions: CorporateAction[];
 }> {
   try {
+    // A split or dividend since the cache was filled changes every adjusted price, so drop those entries first
+    const corporateActions = await fetchRecentAndUpcomingCorporateActions(symbol, getAlpacaDataCredentials(supabase));
+    await invalidateMarketDataCacheForCorporateActions(supabase, symbol, corporateActions);
+
     // ALWAYS fetch fresh historical data from Alpaca (never use cached historical data)
     console.log(`🌐 Fetching fresh historical data from Alpaca for ${symbol}`);
-    const historical = await fetchAlpacaHistoricalData(symbol, period, supabase);
+    const history = await fetchAlpacaPriceHistory(symbol, period, supabase);
+    const historical = history.adjusted;
     
     // Check if we have cached indicators for today (NY time)
     const today = getNYCurrentDate();
@@ -762,19 +521,23 @@ export async function getCachedMarketDataWithIndicators(
     if (!error && cachedData?.technical_indicators) {
       // Check if cache should be invalidated based on market hours
       const shouldInvalidate = shouldInvalidateCache(today, cachedData.created_at);
+      // Indicators cached before an indicator was added to the registry are recalculated
+      const isComplete = hasAllIndicatorOutputs(cachedData.technical_indicators);
       
-      if (!shouldInvalidate) {
+      if (!shouldInvalidate && isComplete) {
         // Use cached indicators
         console.log(`💾 Using cached indicators for ${symbol} - ${formatNYTimestamp()} (${getMarketSession()})`);
         indicators = cachedData.technical_indicators;
         fromCache = true;
       } else {
-        console.log(`🕒 Cache invalidated for ${symbol} - ${getMarketSession()} session, recalculating indicators`);
+        console.log(isComplete
+          ? `🕒 Cache invalidated for ${symbol} - ${getMarketSession()} session, recalculating indicators`
+          : `🔄 Cached indicators for ${symbol} predate the current indicator registry, recalculating`);
         // Calculate fresh indicators
         indicators = calculateTimeframeIndicators(historical, period);
         
         // Store in cache for future use
-        await storeInMarketDataCache(supabase, symbol, period, historical);
+        await storeInMarketDataCache(supabase, symbol, period, history);
       }
     } else {
       // No cached indicators - calculate them from the fresh historical data
@@ -825,12 +588,101 @@ export async function getCachedMarketDataWithIndicators(
     
     return {
       historical,
+      rawHistorical: history.raw,
       indicators,
-      fromCache
+      fromCache,
+      corporateActions
     };
     
   } catch (error) {
     console.error('Error getting market data with indicators:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+export interface TimeframeMarketData {
+  timeframe: string;
+  historical: HistoricalPrice[];    // Adjusted bars, dated with their timestamp
+  indicators: TechnicalIndicators & { metadata?: Record<string, unknown> };
+  fromCache: boolean;
+}
+
+/**
+ * Intraday bars and indicators for one INTRADAY_TIMEFRAMES entry
+ * Cached in market_data_cache under the timeframe for its TTL (expires_at), since intraday bars go stale within minutes
+ */
+async function getIntradayTimeframeData(
+  symbol: string,
+  timeframe: string,
+  broker: Broker,
+  supabase: SupabaseClient & CredentialedClient
+): Promise<TimeframeMarketData> {
+  const ticker = symbol.toUpperCase();
+  const today = getNYCurrentDate();
+
+  const { data: cached, error } = await supabase
+    .from('market_data_cache')
+    .select('historical_data, technical_indicators, expires_at')
+    .eq('ticker', ticker)
+    .eq('timeframe', timeframe)
+    .eq('fetched_date', today)
+    .single();
+
+  if (!error && cached?.expires_at && new Date(cached.expires_at).getTime() > Date.now() &&
+      hasAllIndicatorOutputs(cached.technical_indicators)) {
+    console.log(`💾 Using cached ${timeframe} bars for ${ticker} (expires ${cached.expires_at})`);
+    return {
+      timeframe,
+      historical: cached.historical_data as HistoricalPrice[],
+      indicators: cached.technical_indicators,
+      fromCache: true
+    };
+  }
+
+  const bars = await fetchBrokerBars(ticker, timeframe, broker, 'all', timeframe);
+  const indicators = calculateTimeframeIndicators(bars, timeframe);
+  const { metadata, ...indicatorsData } = indicators;
+  const nyTimestamp = getNYCurrentTimestamp();
+
+  const { error: cacheError } = await supabase
+    .from('market_data_cache')
+    .upsert({
+      ticker,
+      timeframe,
+      historical_data: bars,
+      technical_indicators: indicatorsData,
+      data_points: bars.length,
+      analysis_range: timeframe,
+      fetched_date: today,
+      created_at: nyTimestamp.toISOString(),
+      updated_at: nyTimestamp.toISOString(),
+      expires_at: new Date(Date.now() + INTRADAY_TIMEFRAMES[timeframe].ttlMinutes * 60 * 1000).toISOString()
+    }, {
+      onConflict: 'ticker,timeframe,fetched_date'
+    });
+
+  if (cacheError) {
+    console.warn(`Failed to cache ${timeframe} bars for ${ticker}:`, cacheError);
+  }
+
+  console.log(`🌐 Fetched ${bars.length} ${timeframe} bars for ${ticker}`);
+  return { timeframe, historical: bars, indicators, fromCache: false };
+}
+
+/**
+ * Intraday bars and indicators for every INTRADAY_TIMEFRAMES entry (5Min, 15Min, 1Hour)
+ * Intraday data is supplementary context, so timeframes that cannot be loaded are left out
+ */
+export async function getIntradayMarketData(symbol: string, supabase: SupabaseClient & CredentialedClient): Promise<TimeframeMarketData[]> {
+  const broker = getMarketDataBroker(supabase);
+
+  const results = await Promise.all(Object.keys(INTRADAY_TIMEFRAMES).map(async timeframe => {
+    try {
+      return await getIntradayTimeframeData(symbol, timeframe, broker, supabase);
+    } catch (error) {
+      console.warn(`⚠️ Could not load ${timeframe} bars for ${symbol}:`, error);
+      return null;
+    }
+  }));
+
+  return results.filter((result): result is TimeframeMarketData => result !== null);
+}
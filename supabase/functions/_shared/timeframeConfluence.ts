@@ -0,0 +1,217 @@
+/**
+ * Multi-timeframe confluence for the market analyst's intraday mode
+ * Reduces each timeframe's indicators to a trend/momentum read and lists where they agree
+ * (e.g. "daily trend up, hourly overbought"), plus today's regular session from 5-minute bars.
+ */
+import type { HistoricalPrice, TechnicalIndicators } from './technicalIndicators.ts';
+import { getNYDate, getNYCurrentDate } from './timezoneUtils.ts';
+import { getTradingHours } from './tradingCalendar.ts';
+
+export type TrendDirection = 'up' | 'down' | 'sideways';
+export type MomentumState = 'overbought' | 'oversold' | 'neutral';
+
+export interface TimeframeSignal {
+  timeframe: string;            // Bar timeframe, e.g. '1Day', '1Hour', '5Min'
+  label: string;                // Shown to the AI, e.g. '1Day (1Y)'
+  close: number;
+  trend: TrendDirection;        // Close vs EMA 12 / EMA 26
+  adx: number | null;           // Trend strength
+  rsi: number | null;
+  momentum: MomentumState;      // RSI above 70 / below 30
+  macd: 'bullish' | 'bearish' | null;   // MACD histogram sign
+  vwap: 'above' | 'below' | null;       // Close vs VWAP
+}
+
+export interface SessionSummary {
+  date: string;                 // NY date of the session
+  open: number;
+  high: number;
+  low: number;
+  last: number;
+  previousClose: number | null;
+  volume: number;
+  vwap: number | null;
+  bars: number;
+}
+
+export interface TimeframeConfluence {
+  signals: TimeframeSignal[];
+  summary: string;              // One-line read, e.g. "daily trend up, hourly overbought"
+  alignment: string;
+  session: SessionSummary | null;
+}
+
+const RSI_OVERBOUGHT = 70;
+const RSI_OVERSOLD = 30;
+const ADX_TRENDING = 25;
+
+const TIMEFRAME_NAMES: Record<string, string> = {
+  '5Min': '5-minute',
+  '15Min': '15-minute',
+  '1Hour': 'hourly',
+  '4Hour': '4-hour',
+  '1Day': 'daily'
+};
+
+function latest(values: unknown): number | null {
+  if (!Array.isArray(values)) return null;
+  for (let i = values.length - 1; i >= 0; i--) {
+    const value = values[i];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+function nyTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString('en-GB', {
+    timeZone: 'America/New_York',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+}
+
+/**
+ * Trend and momentum read of one timeframe's latest bar, or null without bars
+ */
+export function summarizeTimeframe(
+  timeframe: string,
+  label: string,
+  bars: HistoricalPrice[],
+  indicators: Partial<TechnicalIndicators>
+): TimeframeSignal | null {
+  if (!bars || bars.length === 0) {
+    return null;
+  }
+
+  const close = bars[bars.length - 1].close;
+  const ema12 = latest(indicators.ema_12);
+  const ema26 = latest(indicators.ema_26);
+  const rsi = latest(indicators.rsi);
+  const histogram = latest(indicators.macd_histogram);
+  const vwap = latest(indicators.vwap);
+
+  let trend: TrendDirection = 'sideways';
+  if (ema12 !== null && ema26 !== null) {
+    if (ema12 > ema26 && close > ema26) trend = 'up';
+    else if (ema12 < ema26 && close < ema26) trend = 'down';
+  }
+
+  return {
+    timeframe,
+    label,
+    close,
+    trend,
+    adx: latest(indicators.adx),
+    rsi,
+    momentum: rsi === null ? 'neutral' : rsi > RSI_OVERBOUGHT ? 'overbought' : rsi < RSI_OVERSOLD ? 'oversold' : 'neutral',
+    macd: histogram === null ? null : histogram >= 0 ? 'bullish' : 'bearish',
+    vwap: vwap === null ? null : close >= vwap ? 'above' : 'below'
+  };
+}
+
+/**
+ * Today's regular session from 5-minute bars; the latest session in the bars when today has none
+ */
+export function summarizeSession(bars: HistoricalPrice[]): SessionSummary | null {
+  const regular = (bars || []).filter(bar => {
+    const hours = getTradingHours(getNYDate(new Date(bar.date)));
+    const time = nyTime(bar.date);
+    return hours !== null && time >= hours.open && time < hours.close;
+  });
+  if (regular.length === 0) {
+    return null;
+  }
+
+  const sessionDates = [...new Set(regular.map(bar => getNYDate(new Date(bar.date))))].sort();
+  const today = getNYCurrentDate();
+  const date = sessionDates.includes(today) ? today : sessionDates[sessionDates.length - 1];
+  const session = regular.filter(bar => getNYDate(new Date(bar.date)) === date);
+  const previous = regular.filter(bar => getNYDate(new Date(bar.date)) < date);
+
+  const volume = session.reduce((sum, bar) => sum + bar.volume, 0);
+  const dollarVolume = session.reduce((sum, bar) => sum + bar.volume * (bar.high + bar.low + bar.close) / 3, 0);
+
+  return {
+    date,
+    open: session[0].open,
+    high: Math.max(...session.map(bar => bar.high)),
+    low: Math.min(...session.map(bar => bar.low)),
+    last: session[session.length - 1].close,
+    previousClose: previous.length > 0 ? previous[previous.length - 1].close : null,
+    volume,
+    vwap: volume > 0 ? dollarVolume / volume : null,
+    bars: session.length
+  };
+}
+
+function describeSignal(signal: TimeframeSignal): string {
+  const name = TIMEFRAME_NAMES[signal.timeframe] || signal.timeframe;
+  const trend = signal.trend === 'sideways' ? 'range-bound' : `trend ${signal.trend}`;
+  return signal.momentum === 'neutral' ? `${name} ${trend}` : `${name} ${trend}, ${signal.momentum}`;
+}
+
+/**
+ * Confluence of timeframe signals, ordered from the longest timeframe to the shortest by the caller
+ */
+export function buildTimeframeConfluence(signals: TimeframeSignal[], session: SessionSummary | null): TimeframeConfluence {
+  const count = (predicate: (signal: TimeframeSignal) => boolean) => signals.filter(predicate).length;
+  const up = count(signal => signal.trend === 'up');
+  const down = count(signal => signal.trend === 'down');
+  const stretched = signals.filter(signal => signal.momentum !== 'neutral');
+
+  let alignment: string;
+  if (signals.length === 0) {
+    alignment = 'No timeframe data';
+  } else if (up === signals.length || down === signals.length) {
+    alignment = `All ${signals.length} timeframes trend ${up > 0 ? 'up' : 'down'}`;
+  } else {
+    alignment = `Mixed: ${up} up, ${down} down, ${signals.length - up - down} range-bound of ${signals.length} timeframes`;
+  }
+  if (stretched.length > 0) {
+    alignment += `; ${stretched.map(signal => `${signal.momentum} on ${signal.timeframe}`).join(', ')}`;
+  }
+
+  return {
+    signals,
+    summary: signals.map(describeSignal).join('; '),
+    alignment,
+    session
+  };
+}
+
+/**
+ * Confluence as a prompt section
+ */
+export function formatConfluenceForAI(confluence: TimeframeConfluence): string {
+  const format = (value: number | null, decimals: number = 2) => value === null ? 'n/a' : value.toFixed(decimals);
+
+  const rows = confluence.signals.map(signal => [
+    signal.label,
+    format(signal.close),
+    signal.trend,
+    signal.adx === null ? 'n/a' : `${format(signal.adx, 1)}${signal.adx >= ADX_TRENDING ? ' (trending)' : ''}`,
+    signal.rsi === null ? 'n/a' : `${format(signal.rsi, 1)} (${signal.momentum})`,
+    signal.macd || 'n/a',
+    signal.vwap || 'n/a'
+  ].join(' | '));
+
+  let section = `Summary: ${confluence.summary || 'n/a'}
+Alignment: ${confluence.alignment}
+
+Timeframe | Close | Trend | ADX | RSI | MACD Histogram | vs VWAP
+${rows.join('\n')}`;
+
+  const session = confluence.session;
+  if (session) {
+    const change = session.previousClose
+      ? ` (${((session.last / session.previousClose - 1) * 100).toFixed(2)}% vs prior close ${format(session.previousClose)})`
+      : '';
+    section += `
+
+Session ${session.date} (${session.bars} 5-minute bars): Open ${format(session.open)}, High ${format(session.high)}, Low ${format(session.low)}, Last ${format(session.last)}${change}
+Session VWAP ${format(session.vwap)}, Volume ${session.volume.toLocaleString()}`;
+  }
+
+  return section;
+}
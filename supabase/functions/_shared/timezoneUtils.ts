@@ -2,13 +2,20 @@
  * Timezone utilities for US stock market operations
  * All market-related timestamps should use New York timezone (America/New_York)
  */
+import {
+  getTradingHours,
+  isTradingDay,
+  nextTradingDay,
+  PRE_MARKET_OPEN,
+  REGULAR_OPEN,
+  TradingHours
+} from './tradingCalendar.ts';
 
 /**
  * Get current date in New York timezone (YYYY-MM-DD format)
  * Handles EST/EDT automatically
  */
-export function getNYCurrentDate(): string {
-  const now = new Date();
+export function getNYCurrentDate(now: Date = new Date()): string {
   const nyDate = new Date(now.toLocaleString("en-US", { timeZone: "America/New_York" }));
   return nyDate.toISOString().split('T')[0];
 }
@@ -16,98 +23,118 @@ export function getNYCurrentDate(): string {
 /**
  * Get current timestamp in New York timezone
  */
-export function getNYCurrentTimestamp(): Date {
-  const now = new Date();
+export function getNYCurrentTimestamp(now: Date = new Date()): Date {
   return new Date(now.toLocaleString("en-US", { timeZone: "America/New_York" }));
 }
 
+/**
+ * Get the New York calendar date (YYYY-MM-DD) of any instant
+ */
+export function getNYDate(date: Date): string {
+  return date.toLocaleDateString("en-CA", { timeZone: "America/New_York" });
+}
+
+/**
+ * Convert a New York wall-clock date and time to the UTC instant it represents
+ * Handles EST/EDT automatically
+ * @param date - YYYY-MM-DD in New York
+ * @param time - HH:MM (24h) in New York
+ */
+export function nyLocalTimeToUtc(date: string, time: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Offset between UTC and New York wall clocks at that moment
+  const nyWallClock = new Date(new Date(asUtc).toLocaleString("en-US", { timeZone: "America/New_York" }));
+  const utcWallClock = new Date(new Date(asUtc).toLocaleString("en-US", { timeZone: "UTC" }));
+
+  return new Date(asUtc + (utcWallClock.getTime() - nyWallClock.getTime()));
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Trading hours of the New York day of an instant and its NY time in minutes since midnight
+ */
+function getTodaysSession(now: Date): { hours: TradingHours | null; nowMinutes: number } {
+  const nyNow = getNYCurrentTimestamp(now);
+  return {
+    hours: getTradingHours(getNYCurrentDate(now)),
+    nowMinutes: nyNow.getHours() * 60 + nyNow.getMinutes()
+  };
+}
+
 /**
  * Check if current NY time is during market hours
- * Market hours: 9:30 AM - 4:00 PM ET, Monday-Friday
+ * Market hours: 9:30 AM - 4:00 PM ET (1:00 PM on early-close days) on NYSE trading days
  */
-export function isMarketHours(): boolean {
-  const nyNow = getNYCurrentTimestamp();
-  const dayOfWeek = nyNow.getDay(); // 0 = Sunday, 6 = Saturday
-  
-  // Weekend check
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
+export function isMarketHours(now: Date = new Date()): boolean {
+  const { hours, nowMinutes } = getTodaysSession(now);
+  if (!hours) {
     return false;
   }
   
-  const hours = nyNow.getHours();
-  const minutes = nyNow.getMinutes();
-  const timeInMinutes = hours * 60 + minutes;
-  
-  // Market hours: 9:30 AM - 4:00 PM ET
-  const marketOpen = 9 * 60 + 30;  // 9:30 AM
-  const marketClose = 16 * 60;     // 4:00 PM
-  
-  return timeInMinutes >= marketOpen && timeInMinutes < marketClose;
+  return nowMinutes >= toMinutes(hours.open) && nowMinutes < toMinutes(hours.close);
 }
 
 /**
  * Check if current NY time is pre-market hours
- * Pre-market: 4:00 AM - 9:30 AM ET, Monday-Friday
+ * Pre-market: 4:00 AM - 9:30 AM ET on NYSE trading days
  */
-export function isPreMarketHours(): boolean {
-  const nyNow = getNYCurrentTimestamp();
-  const dayOfWeek = nyNow.getDay();
-  
-  // Weekend check
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
+export function isPreMarketHours(now: Date = new Date()): boolean {
+  const { hours, nowMinutes } = getTodaysSession(now);
+  if (!hours) {
     return false;
   }
   
-  const hours = nyNow.getHours();
-  const minutes = nyNow.getMinutes();
-  const timeInMinutes = hours * 60 + minutes;
-  
-  // Pre-market hours: 4:00 AM - 9:30 AM ET
-  const preMarketOpen = 4 * 60;      // 4:00 AM
-  const marketOpen = 9 * 60 + 30;    // 9:30 AM
-  
-  return timeInMinutes >= preMarketOpen && timeInMinutes < marketOpen;
+  return nowMinutes >= toMinutes(PRE_MARKET_OPEN) && nowMinutes < toMinutes(hours.open);
 }
 
 /**
  * Check if current NY time is after-hours
- * After-hours: 4:00 PM - 8:00 PM ET, Monday-Friday
+ * After-hours: 4:00 PM - 8:00 PM ET (1:00 PM - 5:00 PM on early-close days) on NYSE trading days
  */
-export function isAfterHours(): boolean {
-  const nyNow = getNYCurrentTimestamp();
-  const dayOfWeek = nyNow.getDay();
-  
-  // Weekend check
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
+export function isAfterHours(now: Date = new Date()): boolean {
+  const { hours, nowMinutes } = getTodaysSession(now);
+  if (!hours) {
     return false;
   }
   
-  const hours = nyNow.getHours();
-  const minutes = nyNow.getMinutes();
-  const timeInMinutes = hours * 60 + minutes;
-  
-  // After-hours: 4:00 PM - 8:00 PM ET
-  const marketClose = 16 * 60;      // 4:00 PM
-  const afterHoursClose = 20 * 60;  // 8:00 PM
-  
-  return timeInMinutes >= marketClose && timeInMinutes < afterHoursClose;
+  return nowMinutes >= toMinutes(hours.close) && nowMinutes < toMinutes(hours.extendedClose);
 }
 
 /**
- * Get market session description
+ * Get market session description, at the current time unless an instant is given
  */
-export function getMarketSession(): 'pre-market' | 'market-hours' | 'after-hours' | 'closed' {
-  if (isPreMarketHours()) return 'pre-market';
-  if (isMarketHours()) return 'market-hours';
-  if (isAfterHours()) return 'after-hours';
+export function getMarketSession(now: Date = new Date()): 'pre-market' | 'market-hours' | 'after-hours' | 'closed' {
+  if (isPreMarketHours(now)) return 'pre-market';
+  if (isMarketHours(now)) return 'market-hours';
+  if (isAfterHours(now)) return 'after-hours';
   return 'closed';
 }
 
+/**
+ * Next regular-session open strictly after the given instant, skipping weekends and holidays
+ */
+export function nextMarketOpen(after: Date = new Date()): Date {
+  const today = getNYDate(after);
+  const todaysOpen = isTradingDay(today) ? nyLocalTimeToUtc(today, REGULAR_OPEN) : null;
+  if (todaysOpen && todaysOpen.getTime() > after.getTime()) {
+    return todaysOpen;
+  }
+  return nyLocalTimeToUtc(nextTradingDay(today), REGULAR_OPEN);
+}
+
 /**
  * Check if cache should be invalidated based on market hours
  * Cache is considered stale if:
  * - It's from a previous NY date
  * - It's from today but during market hours and cache is older than 1 hour
+ * - It's from today's session and the market has closed since (1:00 PM on early-close days)
  */
 export function shouldInvalidateCache(cachedDate: string, cachedTimestamp?: string): boolean {
   const currentNYDate = getNYCurrentDate();
@@ -127,6 +154,16 @@ export function shouldInvalidateCache(cachedDate: string, cachedTimestamp?: stri
     return hoursSinceCache > 1;
   }
   
+  // The day's last bar is only final after the close. Cache timestamps hold NY wall-clock
+  // time (see getNYCurrentTimestamp), so compare against the close on the same clock.
+  const hours = getTradingHours(currentNYDate);
+  if (hours && cachedTimestamp) {
+    const closeWallClock = Date.parse(`${currentNYDate}T${hours.close}:00Z`);
+    if (getNYCurrentTimestamp().getTime() >= closeWallClock && new Date(cachedTimestamp).getTime() < closeWallClock) {
+      return true;
+    }
+  }
+  
   // Cache is valid
   return false;
 }
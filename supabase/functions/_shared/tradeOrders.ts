@@ -2,6 +2,114 @@
  * Shared trade order submission utilities
  */
 import { TRADE_ORDER_STATUS } from './statusTypes.ts';
+import { mirrorOrdersToPaper, type MirroredTradeAction } from './shadowTrading.ts';
+import type { RiskViolation } from './riskLimits.ts';
+
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+export type TimeInForce = 'day' | 'gtc' | 'opg' | 'cls' | 'ioc' | 'fok';
+
+export const ORDER_TYPES: OrderType[] = ['market', 'limit', 'stop', 'stop_limit'];
+export const TIME_IN_FORCE_VALUES: TimeInForce[] = ['day', 'gtc', 'opg', 'cls', 'ioc', 'fok'];
+
+/**
+ * How an order is submitted to Alpaca once approved
+ * Take-profit and stop-loss legs turn the order into a bracket (both) or OTO (one)
+ */
+export interface OrderExecutionParams {
+  orderType: OrderType;
+  timeInForce: TimeInForce;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  takeProfitPrice?: number | null;
+  stopLossPrice?: number | null;
+}
+
+export const DEFAULT_ORDER_EXECUTION: OrderExecutionParams = {
+  orderType: 'market',
+  timeInForce: 'day'
+};
+
+const isPositivePrice = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Validate order execution parameters, returning an error message or null
+ * referencePrice is the expected entry (limit, stop or last price) used to sanity check the legs
+ */
+export function validateOrderExecution(
+  action: 'BUY' | 'SELL' | 'HOLD',
+  params: OrderExecutionParams,
+  referencePrice?: number | null
+): string | null {
+  if (!ORDER_TYPES.includes(params.orderType)) {
+    return `Unsupported order type: ${params.orderType}`;
+  }
+  if (!TIME_IN_FORCE_VALUES.includes(params.timeInForce)) {
+    return `Unsupported time in force: ${params.timeInForce}`;
+  }
+  if ((params.orderType === 'limit' || params.orderType === 'stop_limit') && !isPositivePrice(params.limitPrice)) {
+    return `${params.orderType} orders require a limit price`;
+  }
+  if ((params.orderType === 'stop' || params.orderType === 'stop_limit') && !isPositivePrice(params.stopPrice)) {
+    return `${params.orderType} orders require a stop price`;
+  }
+
+  const hasTakeProfit = isPositivePrice(params.takeProfitPrice);
+  const hasStopLoss = isPositivePrice(params.stopLossPrice);
+  if (!hasTakeProfit && !hasStopLoss) {
+    return null;
+  }
+
+  // Legs on a SELL entry would open a short position, which this app never does
+  if (action !== 'BUY') {
+    return 'Take-profit and stop-loss legs are only supported on BUY orders';
+  }
+  if (params.timeInForce !== 'day' && params.timeInForce !== 'gtc') {
+    return 'Orders with take-profit or stop-loss legs must use day or gtc time in force';
+  }
+  if (hasTakeProfit && hasStopLoss && params.takeProfitPrice! <= params.stopLossPrice!) {
+    return 'Take-profit price must be above the stop-loss price';
+  }
+
+  const entryPrice = params.limitPrice || params.stopPrice || referencePrice;
+  if (isPositivePrice(entryPrice)) {
+    if (hasTakeProfit && params.takeProfitPrice! <= entryPrice) {
+      return `Take-profit price must be above the entry price ($${entryPrice.toFixed(2)})`;
+    }
+    if (hasStopLoss && params.stopLossPrice! >= entryPrice) {
+      return `Stop-loss price must be below the entry price ($${entryPrice.toFixed(2)})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Option orders are single-leg day orders at market or a limit price
+ */
+export function validateOptionExecution(params: OrderExecutionParams): string | null {
+  if (params.orderType !== 'market' && params.orderType !== 'limit') {
+    return 'Option orders must be market or limit orders';
+  }
+  if (params.timeInForce !== 'day') {
+    return 'Option orders must use day time in force';
+  }
+  if (isPositivePrice(params.takeProfitPrice) || isPositivePrice(params.stopLossPrice)) {
+    return 'Take-profit and stop-loss legs are not supported on option orders';
+  }
+  return null;
+}
+
+/**
+ * Contract of a single-leg option order; the order's ticker stays the underlying
+ */
+export interface OptionOrderDetails {
+  symbol: string;          // OCC contract symbol submitted to Alpaca
+  type: 'call' | 'put';
+  strike: number;
+  expiration: string;      // YYYY-MM-DD
+  strategy?: 'covered_call' | 'protective_put';
+}
 
 export interface TradeOrderData {
   ticker: string;
@@ -37,6 +145,15 @@ export interface TradeOrderData {
   // Rebalance-specific fields (legacy compatibility)
   targetAllocation?: number;
   targetValue?: number;
+
+  // Order type, time in force and optional bracket legs (defaults to a market day order)
+  execution?: OrderExecutionParams;
+
+  // Pre-trade risk limits the order breaks; such orders are stored as rejected
+  riskViolations?: RiskViolation[];
+
+  // Set for option orders, in which case shares is the number of contracts
+  option?: OptionOrderDetails;
 }
 
 export interface TradeOrderContext {
@@ -44,6 +161,7 @@ export interface TradeOrderContext {
   sourceType: 'individual_analysis' | 'rebalance' | 'manual';
   rebalanceRequestId?: string;
   agent?: string;
+  brokerAccountId?: string | null;  // Account the orders execute on; the primary account when unset
 }
 
 /**
@@ -54,7 +172,7 @@ export async function submitTradeOrders(
   supabase: any,
   orders: TradeOrderData | TradeOrderData[],
   context: TradeOrderContext
-): Promise<{ success: boolean; ordersCreated: number; error?: string }> {
+): Promise<{ success: boolean; ordersCreated: number; ordersBlocked?: number; error?: string }> {
   console.log(`📝 Submitting trade order(s) - Type: ${context.sourceType}`);
   
   // Normalize to array for consistent handling
@@ -116,7 +234,7 @@ export async function submitTradeOrders(
         console.error('⚠️ Error checking for existing orders:', checkError);
       } else if (existingOrders && existingOrders.length > 0) {
         console.log(`⚠️ Found ${existingOrders.length} existing order(s) for analysis ${analysisId}:`);
-        existingOrders.forEach(order => {
+        existingOrders.forEach((order: { ticker: string; action: string; shares: number | null; dollar_amount: number | null; status: string }) => {
           console.log(`  - ${order.ticker}: ${order.action} ${order.shares || order.dollar_amount} (status: ${order.status})`);
         });
         console.log('🛑 Skipping duplicate order creation');
@@ -134,8 +252,10 @@ export async function submitTradeOrders(
   // Prepare trade orders for database insertion
   const tradeOrders = validOrders.map(order => {
     // Determine which type of order this is
-    const hasValidShares = order.shares !== undefined && order.shares !== null && order.shares > 0;
-    const hasValidDollarAmount = order.dollarAmount !== undefined && order.dollarAmount !== null && order.dollarAmount > 0;
+    const shares = order.shares ?? 0;
+    const dollarAmount = order.dollarAmount ?? 0;
+    const hasValidShares = shares > 0;
+    const hasValidDollarAmount = dollarAmount > 0;
     
     // Ensure we use only one method
     let finalShares = 0;
@@ -143,16 +263,16 @@ export async function submitTradeOrders(
     
     if (hasValidDollarAmount && !hasValidShares) {
       // Dollar-based order
-      finalDollarAmount = order.dollarAmount;
+      finalDollarAmount = dollarAmount;
       finalShares = 0;
     } else if (hasValidShares && !hasValidDollarAmount) {
       // Share-based order
-      finalShares = order.shares;
+      finalShares = shares;
       finalDollarAmount = 0;
     } else if (hasValidShares && hasValidDollarAmount) {
       // Both provided - prefer dollar amount for fractional share support
       console.warn(`🔄 Both shares and dollar amount provided for ${order.ticker}, using dollar amount`);
-      finalDollarAmount = order.dollarAmount;
+      finalDollarAmount = dollarAmount;
       finalShares = 0;
     } else {
       // Fallback to shareChange if available
@@ -160,6 +280,8 @@ export async function submitTradeOrders(
       finalDollarAmount = 0;
     }
     
+    const execution = order.execution || DEFAULT_ORDER_EXECUTION;
+
     return {
       user_id: context.userId,
       ticker: order.ticker,
@@ -167,14 +289,27 @@ export async function submitTradeOrders(
       shares: finalShares,
       dollar_amount: finalDollarAmount,
       price: 0, // Will be filled with market price at execution
-      status: TRADE_ORDER_STATUS.PENDING,
+      status: order.riskViolations?.length ? TRADE_ORDER_STATUS.REJECTED : TRADE_ORDER_STATUS.PENDING,
+      risk_violations: order.riskViolations?.length ? order.riskViolations : null,
       agent: context.agent || (context.sourceType === 'rebalance' ? 'portfolio-manager' : 'agent-coordinator'),
       reasoning: order.reasoning,
       source_type: context.sourceType,
       rebalance_request_id: order.rebalanceRequestId || context.rebalanceRequestId || null,
+      broker_account_id: context.brokerAccountId || null,
       position_percentage: order.afterAllocation || order.targetAllocation || null,
       target_value: order.afterValue || order.targetValue || order.dollarAmount || null,
       analysis_id: order.analysisId || null,
+      order_type: execution.orderType,
+      time_in_force: execution.timeInForce,
+      limit_price: execution.limitPrice ?? null,
+      stop_price: execution.stopPrice ?? null,
+      take_profit_price: execution.takeProfitPrice ?? null,
+      stop_loss_price: execution.stopLossPrice ?? null,
+      asset_class: order.option ? 'option' : 'equity',
+      option_symbol: order.option?.symbol ?? null,
+      option_type: order.option?.type ?? null,
+      option_strike: order.option?.strike ?? null,
+      option_expiration: order.option?.expiration ?? null,
     // Store before/after details in metadata (JSONB field)
     // IMPORTANT: Preserve existing metadata (like useCloseEndpoint, shouldClosePosition)
     metadata: {
@@ -211,9 +346,10 @@ export async function submitTradeOrders(
   
   try {
     // Insert trade orders
-    const { error } = await supabase
+    const { data: insertedOrders, error } = await supabase
       .from('trading_actions')
-      .insert(tradeOrders);
+      .insert(tradeOrders)
+      .select('*');
     
     if (error) {
       console.error('❌ Failed to create trade orders:', error);
@@ -226,6 +362,16 @@ export async function submitTradeOrders(
     }
     
     console.log(`✅ Successfully created ${tradeOrders.length} trade order(s)`);
+
+    // Shadow mode executes a paper twin of every order right away; live orders stay pending
+    // (orders blocked by risk limits and orders of other broker accounts are not mirrored)
+    if (!context.brokerAccountId) {
+      await mirrorOrdersToPaper(
+        supabase,
+        context.userId,
+        (insertedOrders || []).filter((order: MirroredTradeAction) => order.status === TRADE_ORDER_STATUS.PENDING)
+      );
+    }
     
     // Verify what was actually created by querying back
     if (context.sourceType === 'individual_analysis' && validOrders[0]?.analysisId) {
@@ -243,7 +389,9 @@ export async function submitTradeOrders(
     // Log details for each order
     tradeOrders.forEach(order => {
       const originalOrder = validOrders.find(o => o.ticker === order.ticker);
-      if (order.dollar_amount > 0) {
+      if (order.option_symbol) {
+        console.log(`  - ${order.ticker}: ${order.action} ${order.shares} x ${order.option_symbol} (confidence: ${originalOrder?.confidence}%)`);
+      } else if (order.dollar_amount > 0) {
         console.log(`  - ${order.ticker}: ${order.action} $${order.dollar_amount.toFixed(2)} (confidence: ${originalOrder?.confidence}%)`);
       } else if (order.shares > 0) {
         console.log(`  - ${order.ticker}: ${order.action} ${order.shares} shares (confidence: ${originalOrder?.confidence}%)`);
@@ -254,7 +402,8 @@ export async function submitTradeOrders(
     
     return { 
       success: true, 
-      ordersCreated: tradeOrders.length 
+      ordersCreated: tradeOrders.length,
+      ordersBlocked: tradeOrders.filter(order => order.risk_violations).length
     };
     
   } catch (error) {
@@ -294,24 +443,53 @@ export function createTradeOrderFromDecision(
   };
 }
 
+/**
+ * Trade of a rebalance-coordinator plan (PlannedTrade in rebalance-coordinator/types.ts)
+ */
+export interface RebalancePlanTrade {
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  dollarAmount: number;
+  shares?: number;
+  closePosition: boolean;
+  confidence?: number;
+  currentWeight: number;
+  targetWeight: number;
+  beforeValue: number;
+  afterValue: number;
+  beforeShares: number;
+  reasoning: string;
+}
+
 /**
  * Helper function to create trade orders from rebalance plan
- * Used by portfolio-manager for rebalancing
+ * Used by rebalance-coordinator; every order carries the rebalance request ID so the batch is linked
  */
 export function createTradeOrdersFromRebalancePlan(
-  rebalancePlan: any
+  rebalancePlan: { trades?: RebalancePlanTrade[] } | null,
+  rebalanceRequestId: string
 ): TradeOrderData[] {
-  if (!rebalancePlan?.actions) {
+  if (!rebalancePlan?.trades) {
     return [];
   }
-  
-  return rebalancePlan.actions.map((action: any) => ({
-    ticker: action.ticker,
-    action: action.action,
-    confidence: action.confidence || 70, // Default confidence for rebalance
-    reasoning: action.reasoning,
-    shareChange: action.shareChange,
-    targetAllocation: action.targetAllocation,
-    targetValue: action.targetValue
+
+  return rebalancePlan.trades.map(trade => ({
+    ticker: trade.ticker,
+    action: trade.action,
+    // Full exits sell the whole position by share count, everything else is dollar-based
+    ...(trade.closePosition ? { shares: trade.shares } : { dollarAmount: trade.dollarAmount }),
+    confidence: trade.confidence || 100, // Rebalance trades follow the user's targets, not a model's conviction
+    reasoning: trade.reasoning,
+    rebalanceRequestId,
+    metadata: trade.closePosition ? { shouldClosePosition: true } : undefined,
+    beforeShares: trade.beforeShares,
+    beforeValue: trade.beforeValue,
+    beforeAllocation: trade.currentWeight,
+    afterValue: trade.afterValue,
+    afterAllocation: trade.targetWeight,
+    valueChange: trade.afterValue - trade.beforeValue,
+    allocationChange: trade.targetWeight - trade.currentWeight,
+    targetAllocation: trade.targetWeight,
+    targetValue: trade.afterValue
   }));
-}
\ No newline at end of file
+}
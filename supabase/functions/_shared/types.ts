@@ -5,6 +5,7 @@ export interface AgentRequest {
   apiSettings: {
     ai_provider: string;
     ai_api_key: string;
+    ai_base_url?: string | null; // Only for openai-compatible providers
     ai_model?: string;
     analysis_depth?: string;
     analysis_history_days?: number;
@@ -29,6 +30,7 @@ export interface AgentRequest {
     originalStartTime: string; // ISO timestamp of first invocation
     functionName: string;      // Agent function name for self-invocation
   };
+  agentInstance?: number;      // Set for the second and later listings of a repeated agent in its phase
 }
 
 
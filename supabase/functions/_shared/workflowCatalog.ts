@@ -0,0 +1,331 @@
+/**
+ * Workflow definition schema, agent catalog and validation
+ *
+ * The single source for both the coordinator and the settings editor: the frontend imports
+ * this file directly, so it must stay free of imports and Deno APIs.
+ */
+
+export type WorkflowPhaseMode = 'sequential' | 'parallel';
+
+export interface WorkflowPhase {
+  agents: string[];
+  nextPhase?: string;
+  finalAgent?: string | null;
+  // 'sequential' (the default) runs agents one after another in the listed order,
+  // 'parallel' starts them all at once and joins before the final agent or the next phase
+  mode?: WorkflowPhaseMode;
+  name?: string;
+}
+
+export interface WorkflowPhases {
+  [phaseId: string]: WorkflowPhase;
+}
+
+export interface WorkflowDefinition {
+  phases: WorkflowPhases;
+}
+
+export interface AgentCatalogEntry {
+  displayName: string;
+  phase: string;
+  insightKey: string; // Key of the agent's output in analysis_history.agent_insights
+  repeatable?: boolean; // May be listed more than once in its phase
+}
+
+export const WORKFLOW_PHASE_IDS = ['analysis', 'research', 'trading', 'risk', 'portfolio'] as const;
+
+/**
+ * Every workflow starts with analysis and must reach risk, whose completion routes to portfolio
+ */
+const START_PHASE = 'analysis';
+export const REQUIRED_PHASES = ['analysis', 'risk', 'portfolio'];
+
+/**
+ * Phases whose agents may all start at once: the analysts and the risk analysts only read
+ * earlier phases, while the researchers debate each other and the trader and portfolio
+ * manager rewrite shared fields of full_analysis
+ */
+export const PARALLEL_PHASES = ['analysis', 'risk'];
+
+/**
+ * Agent functions that can be placed in a workflow definition.
+ * Each agent reports its progress against a fixed phase, so it may only be used in that phase.
+ * Repeatable agents may be listed more than once; each listing runs as its own instance
+ * (see getAgentRef). The others share state across the phase, such as the research debate
+ * rounds, so they run at most once.
+ */
+export const AGENT_CATALOG: { [functionName: string]: AgentCatalogEntry } = {
+  'agent-macro-analyst': { displayName: 'Macro Analyst', phase: 'analysis', insightKey: 'macroAnalyst' },
+  'agent-market-analyst': { displayName: 'Market Analyst', phase: 'analysis', insightKey: 'marketAnalyst' },
+  'agent-news-analyst': { displayName: 'News Analyst', phase: 'analysis', insightKey: 'newsAnalyst' },
+  'agent-social-media-analyst': { displayName: 'Social Media Analyst', phase: 'analysis', insightKey: 'socialMediaAnalyst' },
+  'agent-fundamentals-analyst': { displayName: 'Fundamentals Analyst', phase: 'analysis', insightKey: 'fundamentalsAnalyst' },
+  'agent-bull-researcher': { displayName: 'Bull Researcher', phase: 'research', insightKey: 'bullResearcher' },
+  'agent-bear-researcher': { displayName: 'Bear Researcher', phase: 'research', insightKey: 'bearResearcher' },
+  'agent-research-manager': { displayName: 'Research Manager', phase: 'research', insightKey: 'researchManager' },
+  'agent-trader': { displayName: 'Trader', phase: 'trading', insightKey: 'trader', repeatable: true },
+  'agent-risky-analyst': { displayName: 'Risky Analyst', phase: 'risk', insightKey: 'riskyAnalyst', repeatable: true },
+  'agent-safe-analyst': { displayName: 'Safe Analyst', phase: 'risk', insightKey: 'safeAnalyst', repeatable: true },
+  'agent-neutral-analyst': { displayName: 'Neutral Analyst', phase: 'risk', insightKey: 'neutralAnalyst', repeatable: true },
+  'agent-risk-manager': { displayName: 'Risk Manager', phase: 'risk', insightKey: 'riskManager' },
+  'analysis-portfolio-manager': { displayName: 'Portfolio Manager', phase: 'portfolio', insightKey: 'portfolioManager' }
+};
+
+/**
+ * Workflow phases used when a user has not saved their own workflow definition
+ */
+export const WORKFLOW_PHASES: WorkflowPhases = {
+  analysis: {
+    name: 'Market Analysis',
+    mode: 'parallel',
+    agents: [
+      'agent-macro-analyst',
+      'agent-market-analyst',
+      'agent-news-analyst',
+      'agent-social-media-analyst',
+      'agent-fundamentals-analyst'
+    ],
+    nextPhase: 'research'
+  },
+  research: {
+    name: 'Research Team',
+    mode: 'sequential',
+    agents: [
+      'agent-bull-researcher',
+      'agent-bear-researcher'
+    ],
+    nextPhase: 'trading'
+  },
+  trading: {
+    name: 'Trading Decision',
+    mode: 'sequential',
+    agents: [
+      'agent-trader'
+    ],
+    nextPhase: 'risk'
+  },
+  risk: {
+    name: 'Risk Management',
+    mode: 'parallel',
+    agents: [
+      'agent-risky-analyst',
+      'agent-safe-analyst',
+      'agent-neutral-analyst'
+    ],
+    finalAgent: 'agent-risk-manager'
+  },
+  portfolio: {
+    name: 'Portfolio Management',
+    mode: 'sequential',
+    agents: [
+      'analysis-portfolio-manager'
+    ],
+    finalAgent: null
+  }
+};
+
+export const DEFAULT_WORKFLOW_DEFINITION: WorkflowDefinition = {
+  phases: WORKFLOW_PHASES
+};
+
+/**
+ * Validate a workflow definition
+ * Returns a list of problems - an empty list means the definition is usable
+ */
+export function validateWorkflowDefinition(definition: WorkflowDefinition | null | undefined): string[] {
+  const errors: string[] = [];
+
+  if (!definition || typeof definition !== 'object') {
+    return ['Workflow definition must be an object'];
+  }
+
+  const phases = definition.phases;
+  if (!phases || typeof phases !== 'object' || Object.keys(phases).length === 0) {
+    return ['Workflow definition must contain at least one phase'];
+  }
+
+  for (const requiredPhase of REQUIRED_PHASES) {
+    if (!(requiredPhase in phases)) {
+      errors.push(`Required phase "${requiredPhase}" is missing`);
+    }
+  }
+
+  for (const [phaseId, phase] of Object.entries(phases)) {
+    if (!(WORKFLOW_PHASE_IDS as readonly string[]).includes(phaseId)) {
+      errors.push(`Unknown phase "${phaseId}"`);
+      continue;
+    }
+
+    if (!Array.isArray(phase?.agents) || phase.agents.length === 0) {
+      errors.push(`Phase "${phaseId}" must have at least one agent`);
+      continue;
+    }
+
+    if (phase.mode !== undefined && phase.mode !== 'parallel' && phase.mode !== 'sequential') {
+      errors.push(`Phase "${phaseId}" has invalid mode "${phase.mode}"`);
+    } else if (phase.mode === 'parallel' && !PARALLEL_PHASES.includes(phaseId)) {
+      errors.push(`Phase "${phaseId}" cannot run its agents in parallel`);
+    }
+
+    const seen = new Set<string>();
+    for (const agent of phase.agents) {
+      if (!AGENT_CATALOG[agent]) {
+        errors.push(`Unknown agent function "${agent}" in phase "${phaseId}"`);
+      } else if (AGENT_CATALOG[agent].phase !== phaseId) {
+        errors.push(`Agent "${agent}" belongs to the ${AGENT_CATALOG[agent].phase} phase, not "${phaseId}"`);
+      }
+      if (seen.has(agent) && !AGENT_CATALOG[agent]?.repeatable) {
+        errors.push(`Agent "${agent}" is listed more than once in phase "${phaseId}" but can only run once per analysis`);
+      }
+      seen.add(agent);
+    }
+
+    if (phase.finalAgent) {
+      if (!AGENT_CATALOG[phase.finalAgent]) {
+        errors.push(`Unknown final agent "${phase.finalAgent}" in phase "${phaseId}"`);
+      } else if (AGENT_CATALOG[phase.finalAgent].phase !== phaseId) {
+        errors.push(`Final agent "${phase.finalAgent}" does not belong to phase "${phaseId}"`);
+      }
+      if (seen.has(phase.finalAgent)) {
+        errors.push(`Final agent "${phase.finalAgent}" is also listed as a regular agent in phase "${phaseId}"`);
+      }
+    }
+
+    // Risk completion is what routes the analysis to the portfolio manager
+    if (phaseId === 'risk' && phase.finalAgent !== 'agent-risk-manager') {
+      errors.push('Risk phase must finish with the risk manager');
+    }
+
+    if (phaseId === 'research' &&
+        (!seen.has('agent-bull-researcher') || !seen.has('agent-bear-researcher'))) {
+      errors.push('Research phase needs both the bull and bear researchers for its debate');
+    }
+
+    if (phase.nextPhase && !(phase.nextPhase in phases)) {
+      errors.push(`Phase "${phaseId}" points to undefined next phase "${phase.nextPhase}"`);
+    }
+  }
+
+  // Follow the nextPhase chain from every phase to detect cycles
+  for (const phaseId of Object.keys(phases)) {
+    const visited = new Set<string>();
+    let current: string | undefined = phaseId;
+    while (current && phases[current] && !visited.has(current)) {
+      visited.add(current);
+      current = phases[current].nextPhase;
+    }
+    if (current && visited.has(current)) {
+      errors.push(`Workflow contains a cycle through phase "${current}"`);
+      return errors;
+    }
+  }
+
+  if (START_PHASE in phases && 'risk' in phases && !getOrderedPhaseIds(definition).includes('risk')) {
+    errors.push('The phase chain starting at analysis never reaches the risk phase');
+  }
+
+  return errors;
+}
+
+/**
+ * Phase ids in execution order: the nextPhase chain from analysis, then portfolio
+ */
+export function getOrderedPhaseIds(definition: WorkflowDefinition): string[] {
+  const ordered: string[] = [];
+  let current: string | undefined = START_PHASE;
+  while (current && definition.phases[current] && !ordered.includes(current)) {
+    ordered.push(current);
+    current = definition.phases[current].nextPhase;
+  }
+  if (definition.phases.portfolio && !ordered.includes('portfolio')) {
+    ordered.push('portfolio');
+  }
+  return ordered;
+}
+
+/**
+ * Reference to one agent instance in a phase
+ * The first listing of a function keeps the plain function name, so definitions without repeated
+ * agents behave exactly as before; the nth listing of a repeatable agent is "<function>#<n>".
+ */
+export function getAgentRef(functionName: string, instance = 1): string {
+  return instance > 1 ? `${functionName}#${instance}` : functionName;
+}
+
+/**
+ * Split an agent reference into its function name and 1-based instance number
+ */
+export function parseAgentRef(agentRef: string): { functionName: string; instance: number } {
+  const [functionName, instance] = agentRef.split('#');
+  return { functionName, instance: Number(instance) || 1 };
+}
+
+/**
+ * Agent references for a list of agent functions, numbering repeated listings
+ * ['agent-trader', 'agent-trader'] -> ['agent-trader', 'agent-trader#2']
+ */
+export function getAgentInstanceRefs(agents: string[]): string[] {
+  const counts: { [functionName: string]: number } = {};
+  return agents.map(functionName => {
+    counts[functionName] = (counts[functionName] || 0) + 1;
+    return getAgentRef(functionName, counts[functionName]);
+  });
+}
+
+/**
+ * All agent references a phase runs, including its final agent
+ * The research manager always closes the research debate, so it is included there
+ */
+export function getPhaseAgentRefs(phaseId: string, phase: WorkflowPhase): string[] {
+  const agentRefs = getAgentInstanceRefs(phase.agents);
+  if (phase.finalAgent) {
+    agentRefs.push(phase.finalAgent);
+  }
+  if (phaseId === 'research' && !agentRefs.includes('agent-research-manager')) {
+    agentRefs.push('agent-research-manager');
+  }
+  return agentRefs;
+}
+
+/**
+ * Display name for an agent reference, used to match workflowSteps entries ("Trader", "Trader 2")
+ */
+export function getAgentDisplayName(agentRef: string): string {
+  const { functionName, instance } = parseAgentRef(agentRef);
+  const displayName = AGENT_CATALOG[functionName]?.displayName || functionName;
+  return instance > 1 ? `${displayName} ${instance}` : displayName;
+}
+
+/**
+ * agent_insights key an agent instance writes its output to ("trader", "trader2")
+ */
+export function getAgentInsightKey(agentRef: string): string {
+  const { functionName, instance } = parseAgentRef(agentRef);
+  const insightKey = AGENT_CATALOG[functionName]?.insightKey || functionName;
+  return instance > 1 ? `${insightKey}${instance}` : insightKey;
+}
+
+/**
+ * Agent reference for a workflowSteps display name ("Trader 2" -> "agent-trader#2")
+ * Returns null for names that are not in the catalog
+ */
+export function getAgentRefByDisplayName(displayName: string): string | null {
+  const [, baseName, instance] = displayName.match(/^(.*?)(?: (\d+))?$/) || [];
+  const functionName = Object.keys(AGENT_CATALOG).find(name => AGENT_CATALOG[name].displayName === baseName);
+  return functionName ? getAgentRef(functionName, Number(instance) || 1) : null;
+}
+
+/**
+ * Insights of the repeated instances of an agent (instance 2 and up), in instance order
+ */
+export function getRepeatedInstanceInsights<T>(
+  agentInsights: { [key: string]: T } | null | undefined,
+  functionName: string
+): { agentRef: string; insight: T }[] {
+  const instances: { agentRef: string; insight: T }[] = [];
+  for (let instance = 2; agentInsights?.[getAgentInsightKey(getAgentRef(functionName, instance))]; instance++) {
+    const agentRef = getAgentRef(functionName, instance);
+    instances.push({ agentRef, insight: agentInsights[getAgentInsightKey(agentRef)] });
+  }
+  return instances;
+}
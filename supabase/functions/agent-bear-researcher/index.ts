@@ -6,6 +6,7 @@ import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest, getHistoryDays } from '../_shared/types.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
 
 serve(async (req) => {
   let timeoutId: number | null = null;
@@ -39,6 +40,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Bear Researcher' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`🐻 Bear Researcher starting for ${ticker} (${retryStatus})`);
@@ -182,7 +184,7 @@ serve(async (req) => {
     try {
       const maxTokens = apiSettings.research_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for bear research analysis`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.bearResearcher, maxTokens, 3);
+      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.bearResearcher, maxTokens, 3, undefined, undefined, usageContext);
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -215,10 +217,14 @@ Please retry the analysis or check your AI provider settings.`;
       'Execution risks on growth plan'
     ];
 
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'Bear Researcher', ticker, aiResponse, usageContext);
+
     // Save agent output (even if there was an error)
     const agentOutput = {
       agent: 'Bear Researcher',
       timestamp: new Date().toISOString(),
+      structuredOutput,
       round: currentRound,
       analysis: aiResponse,
       error: agentError,
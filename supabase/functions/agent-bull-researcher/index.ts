@@ -5,6 +5,7 @@ import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
 import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest, getHistoryDays } from '../_shared/types.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
 import { invokeWithRetryAsync } from '../_shared/invokeWithRetry.ts'
 
 serve(async (req) => {
@@ -39,6 +40,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Bull Researcher' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`🐂 Bull Researcher starting for ${ticker} (${retryStatus})`);
@@ -180,7 +182,7 @@ serve(async (req) => {
     try {
       const maxTokens = apiSettings.research_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for bull research analysis`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.bullResearcher, maxTokens, 3);
+      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.bullResearcher, maxTokens, 3, undefined, undefined, usageContext);
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -213,10 +215,14 @@ Please retry the analysis or check your AI provider settings.`;
       'Attractive valuation for growth'
     ];
 
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'Bull Researcher', ticker, aiResponse, usageContext);
+
     // Save agent output (even if there was an error)
     const agentOutput = {
       agent: 'Bull Researcher',
       timestamp: new Date().toISOString(),
+      structuredOutput,
       round: currentRound,
       analysis: aiResponse,
       error: agentError,
@@ -6,7 +6,11 @@ import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
+import { runResearch } from '../_shared/researchSources.ts'
+import { describeEarningsReport, formatEarningsEventForAI, getAnalysisEarningsEvent } from '../_shared/earningsCalendar.ts'
+import { formatFundamentalsForAI, getSecFundamentals, type SecFundamentals } from '../_shared/secFundamentals.ts'
+import { callAIProviderWithRetry } from '../_shared/aiProviders.ts'
 import {
   createMethodNotAllowedResponse,
   createMissingParametersResponse,
@@ -21,9 +25,16 @@ interface FundamentalsAnalystRequest extends AgentRequest {
   apiSettings: AgentRequest['apiSettings'] & {
     ai_provider: string;
     ai_api_key: string;
+    ai_base_url?: string | null; // Only for openai-compatible providers
     ai_model?: string;
     analysis_optimization?: string;
     analysis_max_tokens?: number;
+    // Alpaca credentials for the latest price used in valuation ratios
+    alpaca_paper_api_key?: string;
+    alpaca_paper_secret_key?: string;
+    alpaca_live_api_key?: string;
+    alpaca_live_secret_key?: string;
+    alpaca_paper_trading?: boolean;
   };
 }
 
@@ -51,6 +62,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Fundamentals Analyst' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`📊 Fundamentals Analyst starting for ${ticker} (${retryStatus})`);
@@ -99,7 +111,7 @@ serve(async (req) => {
     // Update analysis status
     await updateAnalysisPhase(supabase, analysisId, 'Fundamentals Analyst evaluating financials', {
       agent: 'Fundamentals Analyst',
-      message: 'Analyzing financial statements and metrics using Perplefina',
+      message: 'Analyzing financial statements and metrics from the configured research sources',
       timestamp: new Date().toISOString(),
       type: 'info'
     });
@@ -110,47 +122,109 @@ serve(async (req) => {
 
     console.log(`📊 Using optimization: ${optimizationMode} with ${maxSources} sources`);
 
-    // Call Perplefina API for fundamental analysis
+    // Reported financials and ratios from SEC EDGAR, so figures do not depend on web search
+    let fundamentals: SecFundamentals | null = null;
+    try {
+      const isPaper = apiSettings.alpaca_paper_trading ?? true;
+      fundamentals = await getSecFundamentals(ticker, supabase, {
+        apiKey: (isPaper ? apiSettings.alpaca_paper_api_key : apiSettings.alpaca_live_api_key) || '',
+        secretKey: (isPaper ? apiSettings.alpaca_paper_secret_key : apiSettings.alpaca_live_secret_key) || ''
+      });
+      console.log(`🏛️ SEC fundamentals: ${fundamentals.quarters.length} quarters, P/E ${fundamentals.ratios.peRatio?.toFixed(1) ?? 'n/a'}, F-score ${fundamentals.ratios.piotroski?.score ?? 'n/a'}`);
+    } catch (error) {
+      console.warn(`⚠️ SEC fundamentals unavailable for ${ticker}:`, error);
+    }
+
+    const reportedFinancials = fundamentals ? `
+
+Use these reported figures from SEC filings for all numbers, ratios and trends; do not substitute figures from other sources:
+${formatFundamentalsForAI(fundamentals)}` : '';
+
+    // Earnings mode: consensus ahead of a report, or the reported quarter against it
+    const earnings = await getAnalysisEarningsEvent(supabase, analysisId);
+    let earningsContext = '';
+    if (earnings?.mode === 'pre_earnings' && earnings.nextReport) {
+      earningsContext = `
+
+${ticker} reports earnings ${describeEarningsReport(earnings.nextReport)}. Weigh the consensus against the reported trend and state what a beat or a miss would take:
+${formatEarningsEventForAI(earnings)}`;
+    } else if (earnings?.mode === 'post_earnings' && earnings.lastReport) {
+      earningsContext = `
+
+${ticker} reported earnings ${describeEarningsReport(earnings.lastReport)}. Compare the actual results with consensus and explain what drove any beat or miss:
+${formatEarningsEventForAI(earnings)}`;
+    }
+
+    // Fundamental research from the user's sources, in priority order
     let aiResponse = '';
     let agentError = null;
-    let perplefinaData = null;
+    let researchData = null;
+    let researchSource = null;
 
     try {
-      const data = await callPerplefina({
+      const data = await runResearch({
+        ticker,
         focusMode: 'fundamentals',
         query: `Comprehensive fundamental analysis for ${ticker} stock including financial statements, valuation, growth prospects, and investment recommendation`,
         optimizationMode: optimizationMode,
         maxSources: maxSources,
-        chatModel: {
-          provider: apiSettings.ai_provider,
-          model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
-        },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
-        systemInstructions: `You are a fundamental analyst for ${ticker}. Provide comprehensive analysis including: 1) Valuation assessment (P/E, PEG, EV/EBITDA), 2) Financial health evaluation, 3) Growth prospects analysis, 4) Cash flow assessment, 5) Key strengths/weaknesses, 6) Sector comparison, 7) Investment recommendation. Based on your fundamental analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Append a Markdown table organizing: Valuation Status, Financial Health Grade, Growth Outlook, Fundamental Recommendation (BUY/SELL/HOLD), Key Risk Factors.`
-      });
+        systemInstructions: `You are a fundamental analyst for ${ticker}. Provide comprehensive analysis including: 1) Valuation assessment (P/E, PEG, EV/EBITDA), 2) Financial health evaluation, 3) Growth prospects analysis, 4) Cash flow assessment, 5) Key strengths/weaknesses, 6) Sector comparison, 7) Investment recommendation. Based on your fundamental analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Append a Markdown table organizing: Valuation Status, Financial Health Grade, Growth Outlook, Fundamental Recommendation (BUY/SELL/HOLD), Key Risk Factors.${reportedFinancials}${earningsContext}`
+      }, apiSettings, usageContext);
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
-      perplefinaData = data.sources || [];
+      aiResponse = data.message || `No analysis content received from ${data.sourceName}`;
+      researchData = data.sources;
+      researchSource = { id: data.sourceId, name: data.sourceName, attempts: data.attempts };
 
     } catch (aiError) {
-      console.error('❌ Perplefina call failed:', aiError);
-      agentError = aiError.message || 'Failed to get Perplefina response';
-      aiResponse = `Error: Unable to complete fundamental analysis due to Perplefina error.
+      console.error('❌ Research failed:', aiError);
+
+      // The filings alone still support an analysis when no research source is available
+      if (fundamentals) {
+        try {
+          aiResponse = await callAIProviderWithRetry(
+            apiSettings,
+            `Fundamental analysis for ${ticker} from its SEC filings (no news or commentary sources were available).${reportedFinancials}${earningsContext}`,
+            `You are a fundamental analyst for ${ticker}. Assess valuation, financial health, growth and cash flow from the reported figures. Provide a clear BUY/SELL/HOLD recommendation with supporting rationale and append a Markdown table organizing: Valuation Status, Financial Health Grade, Growth Outlook, Fundamental Recommendation (BUY/SELL/HOLD), Key Risk Factors.`,
+            apiSettings.analysis_max_tokens || 1200,
+            3,
+            undefined,
+            undefined,
+            usageContext
+          );
+          researchSource = { id: 'sec_xbrl', name: 'SEC EDGAR filings', attempts: [] };
+        } catch (filingsError) {
+          console.error('❌ Filings-only analysis failed:', filingsError);
+        }
+      }
+
+      if (!aiResponse) {
+        agentError = aiError.message || 'Failed to get a research source response';
+        aiResponse = `Error: Unable to complete fundamental analysis due to a research source error.
 
 Error details: ${agentError}
 
-Please retry the analysis or check your Perplefina configuration.`;
+Please retry the analysis or check the research sources in your settings.`;
+      }
     }
 
-    // Calculate fundamental score based on available data
-    const fundamentalScore = 50; // Default score when using Perplexica
+    // Piotroski F-score scaled to 0-100 when the filings support it
+    const piotroski = fundamentals?.ratios.piotroski;
+    const fundamentalScore = piotroski && piotroski.available > 0
+      ? Math.round(piotroski.score / piotroski.available * 100)
+      : 50;
+
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'Fundamentals Analyst', ticker, aiResponse, usageContext);
 
     // Save agent output (even if there was an error)
     const agentOutput = {
       agent: 'Fundamentals Analyst',
       timestamp: new Date().toISOString(),
-      sources: perplefinaData,
+      structuredOutput,
+      sources: researchData,
+      researchSource,
+      data: fundamentals, // Reported quarters and computed ratios, rendered as trend tables
       analysis: aiResponse,
       error: agentError,
       fundamentalScore: agentError ? 0 : fundamentalScore
@@ -171,7 +245,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         agentError,
         agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         ticker,
         userId,
@@ -254,7 +328,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         error: agentError,
         errorType: agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         completionType: 'error',
         analysisContext: request.analysisContext
@@ -308,8 +382,10 @@ Please retry the analysis or check your Perplefina configuration.`;
             completionType: 'last_in_phase',
             analysisContext: request.analysisContext
           }, 'Fundamentals Analyst');
-        } else {
+        } else if (nextAgentResult.nextAgent) {
           console.log(`✅ Fundamentals Analyst successfully handed off to: ${nextAgentResult.nextAgent}`);
+        } else {
+          console.log(`⏳ Fundamentals Analyst finished - waiting for the other analysts running in parallel`);
         }
       } else {
         // Failed to invoke next agent - fallback to coordinator
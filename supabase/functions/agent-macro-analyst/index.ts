@@ -6,7 +6,8 @@ import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
+import { runResearch } from '../_shared/researchSources.ts'
 import {
   createMethodNotAllowedResponse,
   createMissingParametersResponse,
@@ -40,6 +41,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Macro Analyst' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`🌍 Macro Analyst starting for ${ticker} (${retryStatus})`);
@@ -79,7 +81,7 @@ serve(async (req) => {
     // Update analysis status
     const updateResult = await updateAnalysisPhase(supabase, analysisId, 'Macro Analyst analyzing economic indicators', {
       agent: 'Macro Analyst',
-      message: 'Analyzing macroeconomic conditions and their impact using Perplefina',
+      message: 'Analyzing macroeconomic conditions and their impact from the configured research sources',
       timestamp: new Date().toISOString(),
       type: 'info'
     });
@@ -99,10 +101,11 @@ serve(async (req) => {
 
     console.log(`📊 Using optimization: ${optimizationMode} with ${maxSources} sources`);
 
-    // Call Perplefina API for macroeconomic analysis
+    // Macroeconomic research from the user's sources, in priority order
     let aiResponse = '';
     let agentError = null;
-    let perplefinaData = null;
+    let researchData = null;
+    let researchSource = null;
 
     try {
       // Get current date for more precise news queries
@@ -112,43 +115,45 @@ serve(async (req) => {
         day: 'numeric'
       });
 
-      const data = await callPerplefina({
+      const data = await runResearch({
+        ticker,
         focusMode: 'macroEconomy',
         query: `What's the trading recommendation for ${ticker} at current global macro economic situation based on analysis of Fed policy, inflation data, growth outlook, interest rates, short term stock investment recommendations, and key risks as of the day ${currentDate}`,
         optimizationMode: optimizationMode,
         maxSources: maxSources,
-        chatModel: {
-          provider: apiSettings.ai_provider,
-          model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
-        },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
         systemInstructions: `You are a macroeconomic analyst tasked with analyzing how current economic conditions impact ${ticker}. Provide detailed analysis of macroeconomic factors including interest rates, inflation trends, GDP growth, employment data, monetary policy, fiscal policy, and global economic conditions. Explain how these factors specifically affect ${ticker} and its sector. Based on your macroeconomic analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Make sure to append a Markdown table at the end organizing key points: Economic Outlook, Key Positive Factors, Key Risk Factors, Sector Impact, Macro-Based Recommendation (BUY/SELL/HOLD), Confidence Level.`
-      });
+      }, apiSettings, usageContext);
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
-      perplefinaData = data.sources || [];
+      aiResponse = data.message || `No analysis content received from ${data.sourceName}`;
+      researchData = data.sources;
+      researchSource = { id: data.sourceId, name: data.sourceName, attempts: data.attempts };
 
       // Log the full raw response for debugging
-      console.log('📦 Raw Perplefina Response for Macro Analyst:');
+      console.log(`📦 Raw ${data.sourceName} response for Macro Analyst:`);
       console.log(JSON.stringify(data, null, 2));
-      console.log(`📊 Response summary: ${perplefinaData.length} sources, ${aiResponse.length} chars message`);
+      console.log(`📊 Response summary: ${researchData.length} sources, ${aiResponse.length} chars message`);
 
     } catch (aiError) {
-      console.error('❌ Perplefina call failed:', aiError);
-      agentError = aiError.message || 'Failed to get Perplefina response';
-      aiResponse = `Error: Unable to complete macroeconomic analysis due to Perplefina error.
+      console.error('❌ Research failed:', aiError);
+      agentError = aiError.message || 'Failed to get a research source response';
+      aiResponse = `Error: Unable to complete macroeconomic analysis due to a research source error.
 
 Error details: ${agentError}
 
-Please retry the analysis or check your Perplefina configuration.`;
+Please retry the analysis or check the research sources in your settings.`;
     }
 
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'Macro Analyst', ticker, aiResponse, usageContext);
+
     // Save agent output (even if there was an error)
     const agentOutput = {
       agent: 'Macro Analyst',
       timestamp: new Date().toISOString(),
-      sources: perplefinaData,
+      structuredOutput,
+      sources: researchData,
+      researchSource,
       analysis: aiResponse,
       error: agentError
     };
@@ -167,7 +172,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         agentError,
         agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         ticker,
         userId,
@@ -229,7 +234,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         error: agentError,
         errorType: agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         completionType: 'error',
         analysisContext: request.analysisContext
@@ -263,8 +268,10 @@ Please retry the analysis or check your Perplefina configuration.`;
             completionType: 'last_in_phase',
             analysisContext: request.analysisContext
           }, 'Macro Analyst');
-        } else {
+        } else if (nextAgentResult.nextAgent) {
           console.log(`✅ Macro Analyst successfully handed off to: ${nextAgentResult.nextAgent}`);
+        } else {
+          console.log(`⏳ Macro Analyst finished - waiting for the other analysts running in parallel`);
         }
       } else {
         // Failed to invoke next agent - fallback to coordinator
@@ -2,11 +2,13 @@ import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { appendAnalysisMessage, updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts'
 import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { AIUsageContext } from '../_shared/aiUsage.ts'
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
 import {
   createMethodNotAllowedResponse,
   createMissingParametersResponse,
@@ -18,11 +20,32 @@ import {
 } from '../_shared/responseHelpers.ts'
 import {
   getCachedMarketDataWithIndicators,
+  getIntradayMarketData,
+  getPeriodTimeframe,
+  fetchAlpacaHistoricalData,
   formatIndicatorsForAI,
   type HistoricalPrice,
   type TechnicalIndicators
 } from '../_shared/technicalIndicators.ts'
+import { getPresentIndicators, resolveIndicatorSelection, selectIndicators } from '../_shared/indicatorRegistry.ts'
 import { formatNYTimestamp, getMarketSession } from '../_shared/timezoneUtils.ts'
+import { formatOptionsSummaryForAI, invokeOptionsChain, type OptionsChainSummary } from '../_shared/optionsChain.ts'
+import { formatCorporateActionsForAI, type CorporateAction } from '../_shared/corporateActions.ts'
+import {
+  calculateEarningsReactions,
+  estimateImpliedMove,
+  formatEarningsEventForAI,
+  getAnalysisEarningsEvent,
+  type EarningsSetup
+} from '../_shared/earningsCalendar.ts'
+import {
+  buildTimeframeConfluence,
+  formatConfluenceForAI,
+  summarizeSession,
+  summarizeTimeframe,
+  type TimeframeConfluence,
+  type TimeframeSignal
+} from '../_shared/timeframeConfluence.ts'
 
 // Extended interface for Market Analyst specific settings
 interface MarketAnalystRequest extends AgentRequest {
@@ -33,6 +56,10 @@ interface MarketAnalystRequest extends AgentRequest {
     alpaca_live_api_key?: string;
     alpaca_live_secret_key?: string;
     alpaca_paper_trading?: boolean;
+    // Indicator registry ids to analyze (defaults when empty)
+    market_analyst_indicators?: string[] | null;
+    // Add 5Min/15Min/1Hour bars and a multi-timeframe confluence summary
+    market_analyst_intraday?: boolean;
   };
   context?: {
     messages: any[];
@@ -48,10 +75,15 @@ interface MarketAnalysisData {
   dayChangePercent: number;
   volume: number;
   marketCap: number | null;
-  historicalData: HistoricalPrice[];
-  technicalIndicators: TechnicalIndicators;
+  historicalData: HistoricalPrice[];      // Split- and dividend-adjusted, aligned with technicalIndicators
+  rawHistoricalData: HistoricalPrice[];   // As traded, for price display
+  technicalIndicators: Partial<TechnicalIndicators>;   // Only the indicators the user selected
   analysisRange: string;
   dataPoints: number;
+  optionsSummary: OptionsChainSummary | null;
+  corporateActions: CorporateAction[];
+  timeframeConfluence: TimeframeConfluence | null;   // Intraday mode only
+  earnings: EarningsSetup | null;         // Pre- and post-earnings analyses only
 }
 
 serve(async (req) => {
@@ -78,6 +110,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Market Analyst' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`📈 Market Analyst starting for: ${ticker} (${retryStatus})`);
@@ -127,12 +160,14 @@ serve(async (req) => {
 
     // Get analysis configuration
     const marketRange = apiSettings.analysis_history_days || '1Y';
+    const indicatorSelection = resolveIndicatorSelection(apiSettings.market_analyst_indicators);
 
     console.log(`📅 Analyzing ${marketRange} of historical data with comprehensive technical analysis`);
 
     // Fetch cached market data with indicators (daily caching)
     let marketData: MarketAnalysisData;
     let agentError = null;
+    let baseTimeframeSignal: TimeframeSignal | null = null;
 
     try {
       console.log(`💾 Checking cache for ${ticker} (${marketRange})...`);
@@ -145,12 +180,14 @@ serve(async (req) => {
         alpaca_paper_secret_key: apiSettings.alpaca_paper_secret_key,
         alpaca_live_api_key: apiSettings.alpaca_live_api_key,
         alpaca_live_secret_key: apiSettings.alpaca_live_secret_key,
-        alpaca_paper_trading: apiSettings.alpaca_paper_trading
+        alpaca_paper_trading: apiSettings.alpaca_paper_trading,
+      broker_account_id: apiSettings.broker_account_id
       };
 
       const cachedResult = await getCachedMarketDataWithIndicators(ticker, marketRange, supabase);
 
-      const { historical: historicalData, indicators: technicalIndicators, fromCache } = cachedResult;
+      const { historical: historicalData, rawHistorical, indicators: allIndicators, fromCache, corporateActions } = cachedResult;
+      const technicalIndicators = selectIndicators(allIndicators, indicatorSelection);
 
       if (!historicalData || historicalData.length < 20) {
         throw new Error(`Insufficient historical data for ${ticker}. Got ${historicalData?.length || 0} data points, need at least 20.`);
@@ -163,9 +200,10 @@ serve(async (req) => {
         console.log(`🌐 Cache miss - fetched fresh data from Yahoo Finance`);
       }
 
-      // Get current market data (latest data point)
-      const latestData = historicalData[historicalData.length - 1];
-      const previousData = historicalData[historicalData.length - 2];
+      // Get current market data (latest data point) from the bars as traded
+      const priceBars = rawHistorical.length >= 2 ? rawHistorical : historicalData;
+      const latestData = priceBars[priceBars.length - 1];
+      const previousData = priceBars[priceBars.length - 2];
 
       marketData = {
         ticker: ticker.toUpperCase(),
@@ -176,12 +214,25 @@ serve(async (req) => {
         volume: latestData.volume,
         marketCap: null, // Not available from this Yahoo Finance endpoint
         historicalData,
+        rawHistoricalData: rawHistorical,
         technicalIndicators,
         analysisRange: marketRange,
-        dataPoints: historicalData.length
+        dataPoints: historicalData.length,
+        optionsSummary: null,
+        corporateActions,
+        timeframeConfluence: null,
+        earnings: null
       };
 
-      console.log(`✅ Technical indicators ready (${fromCache ? 'cached' : 'calculated'})`);
+      // Read from every calculated indicator, so the confluence does not depend on the selection
+      baseTimeframeSignal = summarizeTimeframe(
+        getPeriodTimeframe(marketRange),
+        `${getPeriodTimeframe(marketRange)} (${marketRange})`,
+        historicalData,
+        allIndicators
+      );
+
+      console.log(`✅ Technical indicators ready (${fromCache ? 'cached' : 'calculated'}): ${indicatorSelection.join(', ')}`);
       console.log(`💰 Current Price: $${marketData.currentPrice.toFixed(2)} (${marketData.dayChangePercent >= 0 ? '+' : ''}${marketData.dayChangePercent.toFixed(2)}%)`);
 
     } catch (error) {
@@ -198,18 +249,71 @@ serve(async (req) => {
         volume: 0,
         marketCap: null,
         historicalData: [],
-        technicalIndicators: {} as TechnicalIndicators,
+        rawHistoricalData: [],
+        technicalIndicators: {},
         analysisRange: marketRange,
-        dataPoints: 0
+        dataPoints: 0,
+        optionsSummary: null,
+        corporateActions: [],
+        timeframeConfluence: null,
+        earnings: null
       };
     }
 
+    // Options positioning is optional context; equities without listed options or data access skip it
+    if (!agentError) {
+      const options = await invokeOptionsChain(supabase, userId, ticker);
+      marketData.optionsSummary = options?.summary || null;
+      if (marketData.optionsSummary) {
+        console.log(`📜 Options: ATM IV ${marketData.optionsSummary.atmImpliedVolatility ?? 'n/a'}, skew ${marketData.optionsSummary.putCallSkew ?? 'n/a'}, put/call OI ${marketData.optionsSummary.putCallOpenInterestRatio ?? 'n/a'}`);
+      }
+    }
+
+    // Intraday mode: shorter timeframes read against the analysis range's own bars
+    if (!agentError && apiSettings.market_analyst_intraday) {
+      const intraday = await getIntradayMarketData(ticker, supabase);
+      const signals = [
+        baseTimeframeSignal,
+        ...[...intraday].reverse().map(data => summarizeTimeframe(data.timeframe, data.timeframe, data.historical, data.indicators))
+      ].filter((signal): signal is TimeframeSignal => signal !== null);
+      const fiveMinute = intraday.find(data => data.timeframe === '5Min');
+
+      marketData.timeframeConfluence = buildTimeframeConfluence(signals, fiveMinute ? summarizeSession(fiveMinute.historical) : null);
+      console.log(`⏱️ Timeframe confluence (${intraday.map(data => data.timeframe).join(', ') || 'no intraday data'}): ${marketData.timeframeConfluence.summary}`);
+    }
+
+    // Earnings mode: how the stock reacted to past reports and, before a report, the move options price in
+    if (!agentError) {
+      const earnings = await getAnalysisEarningsEvent(supabase, analysisId);
+      if (earnings?.mode) {
+        let reactions: EarningsSetup['reactions'] = [];
+        try {
+          const dailyBars = await fetchAlpacaHistoricalData(ticker, '1Y', supabase);
+          reactions = calculateEarningsReactions([...earnings.history].reverse(), dailyBars);
+        } catch (error) {
+          console.warn(`⚠️ Could not calculate earnings reactions for ${ticker}:`, error);
+        }
+
+        let impliedMove = null;
+        if (earnings.mode === 'pre_earnings' && earnings.nextReport && earnings.daysUntilNext !== null) {
+          const options = await invokeOptionsChain(supabase, userId, ticker, {
+            minDte: earnings.daysUntilNext,
+            maxDte: earnings.daysUntilNext + 14
+          });
+          impliedMove = options ? estimateImpliedMove(options.chain, earnings.nextReport) : null;
+        }
+
+        marketData.earnings = { event: earnings, reactions, impliedMove };
+        console.log(`📅 Earnings ${earnings.mode}: ${reactions.length} past reactions, implied move ${impliedMove ? `±${impliedMove.movePercent.toFixed(1)}%` : 'n/a'}`);
+      }
+    }
+
     // Build and call AI analysis
     let analysisText = '';
 
     try {
       if (!agentError) {
-        analysisText = await analyzeWithAI(marketData, apiSettings);
+        analysisText = await analyzeWithAI(marketData, apiSettings, usageContext);
 
         // Validate that we got a response
         if (!analysisText || analysisText.trim() === '') {
@@ -228,10 +332,14 @@ serve(async (req) => {
       console.log('📝 Using fallback analysis due to error');
     }
 
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'Market Analyst', ticker, analysisText, usageContext);
+
     // Create structured insight object with full market data and indicators
     const agentOutput = {
       agent: 'Market Analyst',
       timestamp: new Date().toISOString(),
+      structuredOutput,
       data: {
         ticker: marketData.ticker,
         currentPrice: marketData.currentPrice,
@@ -239,10 +347,15 @@ serve(async (req) => {
         dayChangePercent: marketData.dayChangePercent,
         volume: marketData.volume,
         analysisRange: marketData.analysisRange,
-        dataPoints: marketData.dataPoints
+        dataPoints: marketData.dataPoints,
+        options: marketData.optionsSummary
       },
-      market_historical: marketData.historicalData, // Store full 1Y historical data
-      technical_indicators: marketData.technicalIndicators, // Store all calculated indicators
+      timeframe_confluence: marketData.timeframeConfluence,
+      earnings: marketData.earnings,
+      market_historical: marketData.historicalData, // Store full 1Y adjusted historical data (aligned with the indicators)
+      market_historical_raw: marketData.rawHistoricalData, // Unadjusted prices as traded
+      technical_indicators: marketData.technicalIndicators, // Store the selected indicators
+      corporate_actions: marketData.corporateActions,
       analysis: analysisText, // The AI analysis text
       error: agentError,
       summary: {
@@ -369,8 +482,10 @@ serve(async (req) => {
             completionType: 'last_in_phase',
             analysisContext: context?.analysisContext
           }, 'Market Analyst');
-        } else {
+        } else if (nextAgentResult.nextAgent) {
           console.log(`✅ Market Analyst successfully handed off to: ${nextAgentResult.nextAgent}`);
+        } else {
+          console.log(`⏳ Market Analyst finished - waiting for the other analysts running in parallel`);
         }
       } else {
         // Failed to invoke next agent - fallback to coordinator
@@ -427,10 +542,11 @@ serve(async (req) => {
   }
 });
 
-async function analyzeWithAI(marketData: MarketAnalysisData, apiSettings: any): Promise<string> {
+async function analyzeWithAI(marketData: MarketAnalysisData, apiSettings: any, usageContext: AIUsageContext): Promise<string> {
   // Comprehensive technical analysis instructions
   const promptInstructions = 'Write a detailed and comprehensive technical analysis with actionable insights for traders.';
-  const indicatorFocus = 'Analyze all moving averages, MACD (line, signal, histogram), RSI, Bollinger Bands, ATR, volume patterns, and identify key support/resistance levels.';
+  const indicatorNames = getPresentIndicators(marketData.technicalIndicators).map(definition => definition.name);
+  const indicatorFocus = `Analyze each of the provided indicators (${indicatorNames.join(', ')}) together with price and volume patterns.`;
 
   // Format technical indicators for AI analysis (downsampled to 70 points)
   const formattedIndicators = formatIndicatorsForAI(marketData.technicalIndicators, marketData.historicalData, 70);
@@ -456,24 +572,43 @@ ${indicatorFocus}
 **Current Market Summary:**
 ${JSON.stringify(marketSummary, null, 2)}
 
-**Technical Analysis Data:**
+**Technical Analysis Data (split- and dividend-adjusted; the current price above is as traded):**
 ${formattedIndicators}
 
+**Corporate Actions:**
+${formatCorporateActionsForAI(marketData.corporateActions)}
+${marketData.optionsSummary ? `
+**Options Market (implied volatility, skew, open interest):**
+${formatOptionsSummaryForAI(marketData.optionsSummary)}
+` : ''}${marketData.timeframeConfluence ? `
+**Multi-Timeframe Confluence (intraday bars as of now, adjusted):**
+${formatConfluenceForAI(marketData.timeframeConfluence)}
+` : ''}${marketData.earnings ? `
+**Earnings Event (${marketData.earnings.event.mode === 'pre_earnings' ? 'pre-earnings' : 'post-earnings'} analysis):**
+${formatEarningsEventForAI(marketData.earnings.event, marketData.earnings.reactions, marketData.earnings.impliedMove)}
+` : ''}
 **Analysis Instructions:**
 - Use the comprehensive technical indicator data provided above
 - The data includes ${marketData.dataPoints} data points downsampled to 70 for analysis
-- All major technical indicators are calculated: Moving Averages, MACD, RSI, Bollinger Bands, ATR, Volume indicators
-- Support and resistance levels are identified from price action
+- Indicators provided: ${indicatorNames.join(', ')}
+- Key levels listed below the table (support/resistance, Fibonacci) are computed from the full range
+- Historical prices are adjusted for splits and dividends, so they can differ from prices quoted at the time
+- Account for upcoming ex-dividend dates, splits and earnings dates in the outlook (e.g. the price drop on an ex-dividend date)
 - Focus on recent trends and current market conditions
 - Provide specific price levels and actionable insights
-
+${marketData.optionsSummary ? `- Interpret implied volatility, put/call skew and open interest concentrations as sentiment and expected-move context
+` : ''}${marketData.timeframeConfluence ? `- Weigh where the timeframes agree or conflict (e.g. daily trend up while hourly is overbought) for entry timing
+` : ''}${marketData.earnings?.event.mode === 'pre_earnings' ? `- The stock reports earnings shortly: compare the options-implied move with past reactions and drift, give levels for a beat and a miss, and say whether holding through the report is justified
+` : ''}${marketData.earnings?.event.mode === 'post_earnings' ? `- The stock just reported: judge whether the post-earnings move is extending or fading against the historical drift, and whether the reaction gap is holding
+` : ''}
 **Response Format:**
 1. **Executive Summary** - Key findings and current market state
 2. **Trend Analysis** - Short, medium, and long-term trends from moving averages
-3. **Momentum Analysis** - RSI, MACD, and stochastic insights
-4. **Volatility & Support/Resistance** - Bollinger Bands, ATR, key levels
-5. **Volume Analysis** - Volume trends and confirmation signals
-6. **Trading Outlook** - Potential scenarios and key levels to watch
+3. **Momentum Analysis** - Insights from the momentum oscillators provided
+4. **Volatility & Key Levels** - Volatility bands and channels, support/resistance and retracement levels
+5. **Volume Analysis** - Volume trends and confirmation signals${marketData.optionsSummary ? ' plus options positioning (IV, skew, open interest)' : ''}
+${marketData.timeframeConfluence ? `6. **Timeframe Confluence** - Alignment across the daily and intraday timeframes and today's session
+7` : '6'}. **Trading Outlook** - Potential scenarios and key levels to watch
 
 **Requirements:**
 - Provide specific price levels where possible
@@ -491,7 +626,7 @@ Analyze the comprehensive technical data and provide professional insights that
     console.log(`🔑 API Key present: ${!!apiSettings.ai_api_key}`);
     console.log(`📊 Prompt length: ${prompt.length} chars`);
 
-    const result = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.marketAnalyst, maxTokens, 3);
+    const result = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.marketAnalyst, maxTokens, 3, undefined, undefined, usageContext);
 
     console.log(`✅ AI response received - Length: ${result?.length || 0} chars`);
     if (!result || result.trim() === '') {
@@ -2,12 +2,15 @@ import { serve } from 'https://deno.land/std@0.210.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { appendAnalysisMessage, updateAgentInsights, updateWorkflowStepStatus, updateAnalysisPhase, setAgentToError } from '../_shared/atomicUpdate.ts'
 import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.ts'
+import { AIUsageContext } from '../_shared/aiUsage.ts'
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
 import { formatNYTimestamp, getMarketSession } from '../_shared/timezoneUtils.ts'
+import { getAgentDisplayName, getAgentInsightKey, getAgentRef } from '../_shared/workflowCatalog.ts'
 
 serve(async (req) => {
     let timeoutId: number | null = null;
@@ -36,13 +39,19 @@ serve(async (req) => {
             });
         }
 
+        // Repeated listings of this analyst in the risk phase run as their own instance ("Neutral Analyst 2")
+        const agentRef = getAgentRef('agent-neutral-analyst', request.agentInstance);
+        const agentName = getAgentDisplayName(agentRef);
+        const agentKey = agentRef.replace('agent-', '');
+
         // Initialize Supabase client
         const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
         const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
         const supabase = createClient(supabaseUrl, supabaseServiceKey);
+        const usageContext = { supabase, userId, analysisId, agent: agentName };
 
         const retryStatus = getRetryStatus(request);
-        console.log(`⚖️ Neutral Analyst starting for: ${ticker} (${retryStatus})`);
+        console.log(`⚖️ ${agentName} starting for: ${ticker} (${retryStatus})`);
         console.log(`🕒 Analysis time: ${formatNYTimestamp()} - Market session: ${getMarketSession()}`);
         console.log(`🤖 Using AI: ${apiSettings.ai_provider || 'openai'} | Model: ${apiSettings.ai_model || 'default'}`);
 
@@ -56,16 +65,16 @@ serve(async (req) => {
                 timeoutMs: 180000, // 3 minutes
                 retryDelay: 3000   // 3 second delay between retries
             },
-            'Neutral Analyst'
+            agentName
         );
 
         // Check if analysis has been canceled before starting work
         const cancellationCheck = await checkAnalysisCancellation(supabase, analysisId);
         if (!cancellationCheck.shouldContinue) {
-            console.log(`🛑 Neutral Analyst stopped: ${cancellationCheck.reason}`);
+            console.log(`🛑 ${agentName} stopped: ${cancellationCheck.reason}`);
             return new Response(JSON.stringify({
                 success: false,
-                message: `Neutral Analyst stopped: ${cancellationCheck.reason}`,
+                message: `${agentName} stopped: ${cancellationCheck.reason}`,
                 canceled: cancellationCheck.isCanceled
             }), {
                 headers: { 'Content-Type': 'application/json' },
@@ -74,8 +83,8 @@ serve(async (req) => {
         }
 
         // Check if analysis still exists by trying to update it (deletion check)
-        const updateResult = await updateAnalysisPhase(supabase, analysisId, 'Neutral Analyst analyzing', {
-            agent: 'Neutral Analyst',
+        const updateResult = await updateAnalysisPhase(supabase, analysisId, `${agentName} analyzing`, {
+            agent: agentName,
             message: 'Starting balanced risk analysis',
             timestamp: new Date().toISOString(),
             type: 'info'
@@ -83,10 +92,10 @@ serve(async (req) => {
 
         // If analysis phase update fails, it likely means analysis was deleted
         if (!updateResult.success) {
-            console.log(`🛑 Neutral Analyst stopped: ${updateResult.error}`);
+            console.log(`🛑 ${agentName} stopped: ${updateResult.error}`);
             return new Response(JSON.stringify({
                 success: false,
-                message: `Neutral Analyst stopped: ${updateResult.error}`,
+                message: `${agentName} stopped: ${updateResult.error}`,
                 canceled: true
             }), {
                 headers: { 'Content-Type': 'application/json' },
@@ -116,11 +125,11 @@ serve(async (req) => {
         let agentError = null;
 
         try {
-            analysisText = await analyzeWithAI(ticker, insights, apiSettings);
+            analysisText = await analyzeWithAI(ticker, insights, apiSettings, usageContext);
 
             // Validate that we got a response
             if (!analysisText || analysisText.trim() === '') {
-                console.error('⚠️ Neutral Analyst received empty analysis text from AI');
+                console.error(`⚠️ ${agentName} received empty analysis text from AI`);
                 throw new Error('AI provider returned empty response');
             }
         } catch (aiError) {
@@ -132,10 +141,14 @@ serve(async (req) => {
             console.log('📝 Using fallback analysis due to error');
         }
 
+        // Schema-validated decision contract stored alongside the prose report
+        const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, agentName, ticker, analysisText, usageContext);
+
         // Create structured insight object
         const agentOutput = {
-            agent: 'Neutral Analyst',
+            agent: agentName,
             timestamp: new Date().toISOString(),
+            structuredOutput,
             analysis: analysisText,
             error: agentError,
             summary: {
@@ -145,7 +158,7 @@ serve(async (req) => {
             }
         };
 
-        console.log(`⚖️ Neutral Analyst insight created - Analysis length: ${analysisText.length} chars`);
+        console.log(`⚖️ ${agentName} insight created - Analysis length: ${analysisText.length} chars`);
 
         // Update analysis atomically to prevent race conditions
         console.log('💾 Updating analysis results atomically...');
@@ -157,7 +170,7 @@ serve(async (req) => {
                 supabase,
                 analysisId,
                 'risk',
-                'Neutral Analyst',
+                agentName,
                 agentError,
                 agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
                     agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
@@ -171,7 +184,7 @@ serve(async (req) => {
             }
         } else {
             // Update agent insights for successful completion
-            const insightsResult = await updateAgentInsights(supabase, analysisId, 'neutralAnalyst', agentOutput);
+            const insightsResult = await updateAgentInsights(supabase, analysisId, getAgentInsightKey(agentRef), agentOutput);
             if (!insightsResult.success) {
                 console.error('Failed to update insights:', insightsResult.error);
             }
@@ -180,7 +193,7 @@ serve(async (req) => {
             const messageResult = await appendAnalysisMessage(
                 supabase,
                 analysisId,
-                'Neutral Analyst',
+                agentName,
                 analysisText,
                 'risk'
             );
@@ -193,7 +206,7 @@ serve(async (req) => {
                 supabase,
                 analysisId,
                 'risk',
-                'Neutral Analyst',
+                agentName,
                 'completed'
             );
             if (!statusResult.success) {
@@ -203,22 +216,22 @@ serve(async (req) => {
 
         // Clear timeout on successful completion
         if (timeoutId !== null) {
-            clearAgentTimeout(timeoutId, 'Neutral Analyst', 'completed successfully');
+            clearAgentTimeout(timeoutId, agentName, 'completed successfully');
         }
 
-        console.log(`✅ Neutral Analyst data saved successfully`);
-        console.log(`✅ Neutral Analyst completed for: ${ticker} (${retryStatus})`);
+        console.log(`✅ ${agentName} data saved successfully`);
+        console.log(`✅ ${agentName} completed for: ${ticker} (${retryStatus})`);
 
         // Only invoke next agent if this agent completed successfully
         if (agentError) {
             // Notify coordinator about the error - do NOT invoke next agent
-            console.log(`⚠️ Neutral Analyst completed with errors - notifying coordinator, NOT invoking next agent`);
+            console.log(`⚠️ ${agentName} completed with errors - notifying coordinator, NOT invoking next agent`);
             notifyCoordinatorAsync(supabase, {
                 analysisId,
                 ticker,
                 userId,
                 phase: 'risk',
-                agent: 'neutral-analyst',
+                agent: agentKey,
                 apiSettings,
                 error: agentError,
                 errorType: agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
@@ -226,16 +239,16 @@ serve(async (req) => {
                         agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
                 completionType: 'error',
                 analysisContext: context?.analysisContext
-            }, 'Neutral Analyst');
+            }, agentName);
         } else {
             // Success case - invoke next agent
-            console.log(`🔄 Neutral Analyst attempting to invoke next agent in risk phase...`);
+            console.log(`🔄 ${agentName} attempting to invoke next agent in risk phase...`);
 
             const nextAgentResult = await invokeNextAgentInSequence(
                 supabase,
                 analysisId,
                 'risk',
-                'neutral-analyst',
+                agentKey,
                 ticker,
                 request.userId,
                 request.apiSettings,
@@ -244,19 +257,19 @@ serve(async (req) => {
 
             if (nextAgentResult.success) {
                 if (nextAgentResult.isLastInPhase) {
-                    console.log(`📋 Neutral Analyst is last in risk phase - notifying coordinator for phase transition`);
+                    console.log(`📋 ${agentName} is last in risk phase - notifying coordinator for phase transition`);
                     notifyCoordinatorAsync(supabase, {
                         analysisId,
                         ticker,
                         userId,
                         phase: 'risk',
-                        agent: 'neutral-analyst',
+                        agent: agentKey,
                         apiSettings,
                         completionType: 'last_in_phase',
                         analysisContext: context?.analysisContext
-                    }, 'Neutral Analyst');
+                    }, agentName);
                 } else {
-                    console.log(`✅ Neutral Analyst successfully handed off to: ${nextAgentResult.nextAgent}`);
+                    console.log(`✅ ${agentName} successfully handed off to: ${nextAgentResult.nextAgent}`);
                 }
             } else {
                 console.log(`⚠️ Failed to invoke next agent, falling back to coordinator: ${nextAgentResult.error}`);
@@ -265,18 +278,18 @@ serve(async (req) => {
                     ticker,
                     userId,
                     phase: 'risk',
-                    agent: 'neutral-analyst',
+                    agent: agentKey,
                     apiSettings,
                     completionType: 'fallback_invocation_failed',
                     failedToInvoke: nextAgentResult.intendedAgent,
                     analysisContext: context?.analysisContext
-                }, 'Neutral Analyst');
+                }, agentName);
             }
         }
 
         return new Response(JSON.stringify({
             success: true,
-            agent: 'Neutral Analyst',
+            agent: agentName,
             analysis: analysisText,
             retryInfo: retryStatus
         }), {
@@ -301,7 +314,7 @@ serve(async (req) => {
     }
 });
 
-async function analyzeWithAI(ticker: string, insights: any, apiSettings: any): Promise<string> {
+async function analyzeWithAI(ticker: string, insights: any, apiSettings: any, usageContext: AIUsageContext): Promise<string> {
     const prompt = `You are a balanced risk analyst focused on moderate risk-reward strategies for ${ticker}.
 
 **Your Role:**
@@ -328,7 +341,7 @@ Provide a balanced, moderate-risk analysis that seeks reasonable returns with ma
         const maxTokens = apiSettings.analysis_max_tokens || 1800;
         console.log(`📝 Using ${maxTokens} max tokens for neutral analysis`);
 
-        const result = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.neutralAnalyst, maxTokens, 3);
+        const result = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.neutralAnalyst, maxTokens, 3, undefined, undefined, usageContext);
 
         if (!result || result.trim() === '') {
             throw new Error('AI provider returned empty response. Please check your API configuration.');
@@ -6,7 +6,9 @@ import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
+import { runResearch } from '../_shared/researchSources.ts'
+import { describeEarningsReport, formatEarningsEventForAI, getAnalysisEarningsEvent } from '../_shared/earningsCalendar.ts'
 import {
   createMethodNotAllowedResponse,
   createMissingParametersResponse,
@@ -40,6 +42,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'News Analyst' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`📰 News Analyst starting for ${ticker} (${retryStatus})`);
@@ -79,7 +82,7 @@ serve(async (req) => {
     // Update analysis status
     const updateResult = await updateAnalysisPhase(supabase, analysisId, 'News Analyst analyzing recent news', {
       agent: 'News Analyst',
-      message: 'Analyzing recent news and press releases using Perplefina',
+      message: 'Analyzing recent news and press releases from the configured research sources',
       timestamp: new Date().toISOString(),
       type: 'info'
     });
@@ -99,10 +102,11 @@ serve(async (req) => {
 
     console.log(`📊 Using optimization: ${optimizationMode} with ${maxSources} sources`);
 
-    // Call Perplefina API for news analysis
+    // News research from the user's sources, in priority order
     let aiResponse = '';
     let agentError = null;
-    let perplefinaData = null;
+    let researchData = null;
+    let researchSource = null;
 
     try {
       // Get current date for more precise news queries
@@ -112,38 +116,57 @@ serve(async (req) => {
         day: 'numeric'
       });
 
-      const data = await callPerplefina({
+      let query = `What's the trading recommendation based on news analysis and sentiment for ${ticker} stock as of ${currentDate}? Focus on recent developments and their impact on trading decisions.`;
+      let earningsFocus = '';
+
+      // Earnings mode: expectations ahead of a report, the results and the call after one
+      const earnings = await getAnalysisEarningsEvent(supabase, analysisId);
+      if (earnings?.mode === 'pre_earnings' && earnings.nextReport) {
+        query = `What do analysts and the company expect from ${ticker}'s earnings report on ${earnings.nextReport.reportDate}? Focus on guidance, consensus estimates, recent estimate revisions and what could move the stock.`;
+        earningsFocus = ` ${ticker} reports earnings ${describeEarningsReport(earnings.nextReport)}: cover the guidance the company gave last quarter, consensus and whisper expectations, recent estimate revisions and the metrics the market will watch.
+
+${formatEarningsEventForAI(earnings)}`;
+      } else if (earnings?.mode === 'post_earnings' && earnings.lastReport) {
+        query = `How did ${ticker}'s earnings report on ${earnings.lastReport.reportDate} compare with expectations, and what did management say on the earnings call?`;
+        earningsFocus = ` ${ticker} reported earnings ${describeEarningsReport(earnings.lastReport)}: summarize the earnings call transcript (guidance changes, management tone, key analyst questions), compare the results with consensus and describe how analysts reacted.
+
+${formatEarningsEventForAI(earnings)}`;
+      }
+
+      const data = await runResearch({
+        ticker,
         focusMode: 'news',
-        query: `What's the trading recommendation based on news analysis and sentiment for ${ticker} stock as of ${currentDate}? Focus on recent developments and their impact on trading decisions.`,
+        query,
         optimizationMode: optimizationMode,
         maxSources: maxSources,
-        chatModel: {
-          provider: apiSettings.ai_provider,
-          model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
-        },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
-        systemInstructions: `You are a news researcher tasked with analyzing recent news for ${ticker}. Provide detailed and finegrained analysis and insights that may help traders make decisions. Include sentiment analysis, key developments, and trading implications. Based on your news analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Make sure to append a Markdown table at the end organizing key points: Overall Sentiment, Key Positive Developments, Risk Factors, Trading Implications, News-Based Recommendation (BUY/SELL/HOLD), Confidence Level.`
-      });
+        systemInstructions: `You are a news researcher tasked with analyzing recent news for ${ticker}. Provide detailed and finegrained analysis and insights that may help traders make decisions. Include sentiment analysis, key developments, and trading implications. Based on your news analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Make sure to append a Markdown table at the end organizing key points: Overall Sentiment, Key Positive Developments, Risk Factors, Trading Implications, News-Based Recommendation (BUY/SELL/HOLD), Confidence Level.${earningsFocus}`
+      }, apiSettings, usageContext);
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
-      perplefinaData = data.sources || [];
+      aiResponse = data.message || `No analysis content received from ${data.sourceName}`;
+      researchData = data.sources;
+      researchSource = { id: data.sourceId, name: data.sourceName, attempts: data.attempts };
 
     } catch (aiError) {
-      console.error('❌ Perplefina call failed:', aiError);
-      agentError = aiError.message || 'Failed to get Perplefina response';
-      aiResponse = `Error: Unable to complete news analysis due to Perplefina error.
+      console.error('❌ Research failed:', aiError);
+      agentError = aiError.message || 'Failed to get a research source response';
+      aiResponse = `Error: Unable to complete news analysis due to a research source error.
 
 Error details: ${agentError}
 
-Please retry the analysis or check your Perplefina configuration.`;
+Please retry the analysis or check the research sources in your settings.`;
     }
 
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'News Analyst', ticker, aiResponse, usageContext);
+
     // Save agent output (even if there was an error)
     const agentOutput = {
       agent: 'News Analyst',
       timestamp: new Date().toISOString(),
-      sources: perplefinaData,
+      structuredOutput,
+      sources: researchData,
+      researchSource,
       analysis: aiResponse,
       error: agentError
     };
@@ -162,7 +185,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         agentError,
         agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         ticker,
         userId,
@@ -224,7 +247,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         error: agentError,
         errorType: agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         completionType: 'error',
         analysisContext: request.analysisContext
@@ -258,8 +281,10 @@ Please retry the analysis or check your Perplefina configuration.`;
             completionType: 'last_in_phase',
             analysisContext: request.analysisContext
           }, 'News Analyst');
-        } else {
+        } else if (nextAgentResult.nextAgent) {
           console.log(`✅ News Analyst successfully handed off to: ${nextAgentResult.nextAgent}`);
+        } else {
+          console.log(`⏳ News Analyst finished - waiting for the other analysts running in parallel`);
         }
       } else {
         // Failed to invoke next agent - fallback to coordinator
@@ -6,6 +6,7 @@ import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
 import { updateAgentInsights, appendAnalysisMessage, updateWorkflowStepStatus, updateAnalysisPhase, updateResearchConclusion, setAgentToError } from '../_shared/atomicUpdate.ts'
+import { AGENT_DECISION_SCHEMA, AgentDecisionContract, extendSchema, requestStructuredOutput, StructuredInsight } from '../_shared/structuredOutput.ts'
 
 serve(async (req) => {
   let timeoutId: number | null = null;
@@ -39,6 +40,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Research Manager' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`👔 Research Manager starting for ${ticker} (${retryStatus})`);
@@ -166,7 +168,7 @@ serve(async (req) => {
     try {
       const maxTokens = apiSettings.research_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for research synthesis`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.researchManager, maxTokens, 3);
+      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.researchManager, maxTokens, 3, undefined, undefined, usageContext);
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -192,8 +194,23 @@ Error details: ${agentError}
 Please retry the analysis or check your AI provider settings.`;
     }
 
-    // Extract recommendation from AI response (not from hardcoded scoring!)
-    const recommendation = extractRecommendationFromAI(aiResponse, bullResearch, bearResearch, fundamentals);
+    // Ask for the recommendation as schema-validated JSON instead of scraping the prose
+    let structuredOutput: StructuredInsight<ResearchConclusionContract> | null = null;
+    if (!agentError) {
+      structuredOutput = await requestStructuredOutput<ResearchConclusionContract>(apiSettings, {
+        name: 'research_conclusion',
+        schema: RESEARCH_CONCLUSION_SCHEMA,
+        prompt: `Convert the Research Manager conclusion for ${ticker} below into structured data.
+Keep hedged or conditional language as a weaker rating and lower confidence; do not round up to a stronger call.
+Use null for any price the conclusion does not state.
+
+CONCLUSION:
+${aiResponse}`,
+        maxTokens: 800,
+        usageContext
+      });
+    }
+    const recommendation = buildRecommendation(structuredOutput, marketData.currentPrice);
 
     // Save agent output (even if there was an error)
     const agentOutput = {
@@ -206,21 +223,13 @@ Please retry the analysis or check your AI provider settings.`;
         conviction: agentError ? 'error' : recommendation.conviction,
         fairValue: agentError ? 'N/A' : recommendation.fairValue,
         upside: agentError ? 'N/A' : recommendation.upside,
-        keyFactors: agentError ? ['Error during analysis'] : [
-          'Strong fundamental metrics',
-          'Positive market momentum',
-          'Manageable risk profile',
-          'Favorable risk/reward ratio'
-        ],
-        risks: agentError ? ['Analysis failed'] : [
-          'Valuation concerns',
-          'Competitive pressures',
-          'Market volatility'
-        ],
-        timeHorizon: agentError ? 'N/A' : '6-12 months',
-        positionSize: agentError ? 'N/A' : 'Medium (3-5% of portfolio)',
+        keyFactors: agentError ? ['Error during analysis'] : recommendation.keyFactors,
+        risks: agentError ? ['Analysis failed'] : recommendation.risks,
+        timeHorizon: agentError ? 'N/A' : recommendation.timeHorizon,
+        positionSize: agentError ? 'N/A' : recommendation.positionSize,
         hasError: !!agentError
-      }
+      },
+      structuredOutput
     };
 
     // Update agent insights atomically
@@ -398,232 +407,73 @@ Please retry the analysis or check your AI provider settings.`;
   }
 });
 
-/**
- * Extract recommendation from AI response following TradingGoose approach
- * Let the AI make the decision, don't override with hardcoded scoring
- */
-function extractRecommendationFromAI(aiResponse: string, bullResearch: any, bearResearch: any, fundamentals: any) {
-  let rating = 'Hold'; // Default only if extraction fails
-  let conviction = 5;
-  let fairValue = '$150';
-  let upside = '0%';
-
-  try {
-    // Extract recommendation from AI response
-    // Look for common patterns the AI uses
-    const recommendationPatterns = [
-      /recommendation[:\s]+(?:is\s+)?(?:a\s+)?(\w+\s+\w+|\w+)/i,
-      /(?:Overall|Final)\s+(?:investment\s+)?recommendation[:\s]+(\w+\s+\w+|\w+)/i,
-      /(?:I|We)\s+recommend\s+(?:a\s+)?(\w+\s+\w+|\w+)/i,
-      /Rating[:\s]+(\w+\s+\w+|\w+)/i,
-      /Decision[:\s]+(\w+\s+\w+|\w+)/i,
-      /\*\*(\w+\s+\w+|\w+)\*\*/i, // Bold text
-      /###\s+(\w+\s+\w+|\w+)/i, // Headers
-    ];
-
-    for (const pattern of recommendationPatterns) {
-      const match = aiResponse.match(pattern);
-      if (match) {
-        const extracted = match[1].trim();
-        // Map to standard ratings
-        if (extracted.match(/strong\s*buy/i)) {
-          rating = 'Strong Buy';
-        } else if (extracted.match(/buy/i) && !extracted.match(/sell/i)) {
-          rating = 'Buy';
-        } else if (extracted.match(/strong\s*sell/i)) {
-          rating = 'Strong Sell';
-        } else if (extracted.match(/sell/i) && !extracted.match(/buy/i)) {
-          rating = 'Sell';
-        } else if (extracted.match(/hold/i)) {
-          rating = 'Hold';
-        }
-        break;
-      }
-    }
+type ResearchRating = 'Strong Buy' | 'Buy' | 'Hold' | 'Sell' | 'Strong Sell';
 
-    // Extract conviction level from AI response
-    const convictionPatterns = [
-      /conviction[:\s]+(?:level\s+)?(?:is\s+)?(\d+)/i,
-      /conviction[:\s]+(?:level\s+)?(?:is\s+)?(\w+)/i,
-      /confidence[:\s]+(?:level\s+)?(?:is\s+)?(\d+)/i,
-      /confidence[:\s]+(?:level\s+)?(?:is\s+)?(\w+)/i,
-      /(\d+)(?:\/|\s*out\s*of\s*)10/i,
-    ];
-
-    for (const pattern of convictionPatterns) {
-      const match = aiResponse.match(pattern);
-      if (match) {
-        const extracted = match[1];
-        if (!isNaN(Number(extracted))) {
-          conviction = Math.min(10, Math.max(1, parseInt(extracted)));
-        } else {
-          // Map text to numbers
-          if (extracted.match(/very\s*high|strong/i)) conviction = 8;
-          else if (extracted.match(/high/i)) conviction = 7;
-          else if (extracted.match(/moderate|medium/i)) conviction = 5;
-          else if (extracted.match(/low/i)) conviction = 3;
-        }
-        break;
-      }
-    }
-
-    // Extract fair value from AI response
-    const pricePatterns = [
-      /fair\s+value[:\s]+\$?([\d.]+)/i,
-      /target\s+price[:\s]+\$?([\d.]+)/i,
-      /price\s+target[:\s]+\$?([\d.]+)/i,
-      /valued?\s+at[:\s]+\$?([\d.]+)/i,
-      /estimate[:\s]+\$?([\d.]+)/i,
-    ];
-
-    for (const pattern of pricePatterns) {
-      const match = aiResponse.match(pattern);
-      if (match) {
-        fairValue = `$${match[1]}`;
-        break;
-      }
-    }
-
-    // If AI didn't provide fair value, try to get from bull/bear research
-    if (fairValue === '$150') {
-      const bullTarget = extractPriceTarget(bullResearch.summary?.priceTarget || bullResearch.analysis);
-      const bearTarget = extractPriceTarget(bearResearch.summary?.priceTarget || bearResearch.analysis);
-      if (bullTarget > 0 || bearTarget > 0) {
-        const avgTarget = bullTarget > 0 && bearTarget > 0 ?
-          Math.round((bullTarget + bearTarget) / 2) :
-          (bullTarget > 0 ? bullTarget : bearTarget);
-        fairValue = `$${avgTarget}`;
-      }
-    }
+interface ResearchConclusionContract extends AgentDecisionContract {
+  rating: ResearchRating;
+  keyFactors: string[];
+  timeHorizon: string;
+  positionSize: string;
+}
 
-    // Extract upside/downside from AI response
-    const upsidePatterns = [
-      /upside[:\s]+([+-]?[\d.]+)%/i,
-      /downside[:\s]+([+-]?[\d.]+)%/i,
-      /potential[:\s]+([+-]?[\d.]+)%/i,
-      /return[:\s]+([+-]?[\d.]+)%/i,
-      /([+-]?[\d.]+)%\s+(?:upside|downside|potential)/i,
-    ];
-
-    for (const pattern of upsidePatterns) {
-      const match = aiResponse.match(pattern);
-      if (match) {
-        upside = `${match[1]}%`;
-        break;
-      }
-    }
+const RESEARCH_CONCLUSION_SCHEMA = extendSchema(AGENT_DECISION_SCHEMA, {
+  rating: { type: 'string', enum: ['Strong Buy', 'Buy', 'Hold', 'Sell', 'Strong Sell'], description: 'Overall investment recommendation' },
+  keyFactors: { type: 'array', items: { type: 'string' }, description: 'Factors supporting the recommendation' },
+  timeHorizon: { type: 'string', description: 'Recommended holding period, e.g. "6-12 months"' },
+  positionSize: { type: 'string', description: 'Recommended position sizing, e.g. "Medium (3-5% of portfolio)"' }
+});
 
-    // Calculate upside if not extracted but we have fair value
-    if (upside === '0%' && fairValue !== '$150') {
-      const currentPrice = extractCurrentPrice(bullResearch, bearResearch) || 150;
-      const targetPrice = parseFloat(fairValue.replace('$', ''));
-      const calculatedUpside = Math.round(((targetPrice - currentPrice) / currentPrice) * 100);
-      upside = `${calculatedUpside}%`;
-    }
+// Ratings that contradict the decision field are treated as invalid rather than guessed at
+const RATING_DECISIONS: Record<ResearchRating, string> = {
+  'Strong Buy': 'BUY',
+  'Buy': 'BUY',
+  'Hold': 'HOLD',
+  'Sell': 'SELL',
+  'Strong Sell': 'SELL'
+};
 
-    // Adjust conviction based on the strength of the recommendation
-    if (rating === 'Strong Buy' || rating === 'Strong Sell') {
-      conviction = Math.max(conviction, 8); // Strong ratings should have high conviction
-    } else if (rating === 'Hold' && conviction > 6) {
-      conviction = 5; // Hold rarely has high conviction
+/**
+ * Build the research conclusion summary from the validated structured output
+ * Falls back to a low-conviction Hold when the model never produced a valid contract
+ */
+function buildRecommendation(
+  structuredOutput: StructuredInsight<ResearchConclusionContract> | null,
+  currentPrice?: number
+) {
+  const contract = structuredOutput?.data;
+
+  if (!contract || RATING_DECISIONS[contract.rating] !== contract.decision) {
+    if (structuredOutput) {
+      console.warn(`⚠️ No valid structured research conclusion, defaulting to Hold: ${structuredOutput.errors?.join('; ') || 'rating contradicts decision'}`);
     }
+    return {
+      rating: 'Hold' as ResearchRating,
+      conviction: 3,
+      fairValue: 'N/A',
+      upside: 'N/A',
+      keyFactors: ['Recommendation could not be structured from the synthesis'],
+      risks: ['Review the full synthesis before trading'],
+      timeHorizon: 'N/A',
+      positionSize: 'N/A'
+    };
+  }
 
-    console.log(`📊 Extracted from AI: Rating="${rating}", Conviction=${conviction}, FairValue=${fairValue}, Upside=${upside}`);
+  const target = contract.priceTargets.target;
+  const upside = target && currentPrice
+    ? `${Math.round(((target - currentPrice) / currentPrice) * 100)}%`
+    : 'N/A';
 
-  } catch (error) {
-    console.error('Error extracting recommendation from AI response:', error);
-    // If extraction fails completely, make a more intelligent fallback
-    // based on the bull vs bear arguments rather than defaulting to Hold
-    const bullPoints = countBullishSignals(aiResponse);
-    const bearPoints = countBearishSignals(aiResponse);
-
-    if (bullPoints > bearPoints * 1.5) {
-      rating = 'Buy';
-      conviction = 6;
-    } else if (bearPoints > bullPoints * 1.5) {
-      rating = 'Sell';
-      conviction = 6;
-    } else {
-      rating = 'Hold';
-      conviction = 4;
-    }
-
-    console.log(`⚠️ Fallback decision based on signal count: Bull=${bullPoints}, Bear=${bearPoints}, Decision=${rating}`);
-  }
+  console.log(`📊 Structured research conclusion: Rating="${contract.rating}", Confidence=${contract.confidence}, Target=${target ?? 'N/A'}${structuredOutput!.repaired ? ' (repaired)' : ''}`);
 
   return {
-    rating,
-    conviction,
-    fairValue,
+    rating: contract.rating,
+    // Conviction stays on the 1-10 scale downstream agents already read
+    conviction: Math.min(10, Math.max(1, Math.round(contract.confidence / 10))),
+    fairValue: target ? `$${target}` : 'N/A',
     upside,
-    score: 0 // No longer using score-based system
+    keyFactors: contract.keyFactors,
+    risks: contract.keyRisks,
+    timeHorizon: contract.timeHorizon,
+    positionSize: contract.positionSize
   };
 }
-
-/**
- * Count bullish signals in text as a fallback
- */
-function countBullishSignals(text: string): number {
-  const bullishTerms = [
-    /buy/gi, /bullish/gi, /upside/gi, /growth/gi, /strong/gi,
-    /positive/gi, /opportunity/gi, /undervalued/gi, /momentum/gi,
-    /breakout/gi, /rally/gi, /surge/gi, /gain/gi
-  ];
-  let count = 0;
-  bullishTerms.forEach(term => {
-    const matches = text.match(term);
-    if (matches) count += matches.length;
-  });
-  return count;
-}
-
-/**
- * Count bearish signals in text as a fallback
- */
-function countBearishSignals(text: string): number {
-  const bearishTerms = [
-    /sell/gi, /bearish/gi, /downside/gi, /risk/gi, /weak/gi,
-    /negative/gi, /concern/gi, /overvalued/gi, /decline/gi,
-    /fall/gi, /drop/gi, /crash/gi, /loss/gi
-  ];
-  let count = 0;
-  bearishTerms.forEach(term => {
-    const matches = text.match(term);
-    if (matches) count += matches.length;
-  });
-  return count;
-}
-
-// Helper functions for better extraction
-function extractConviction(data: any): number {
-  if (typeof data === 'string') {
-    if (data.match(/very high|extremely|strong/i)) return 9;
-    if (data.match(/high/i)) return 7;
-    if (data.match(/moderate|medium/i)) return 5;
-    if (data.match(/low/i)) return 3;
-  }
-  return 5; // default
-}
-
-function extractPriceTarget(data: any): number {
-  if (typeof data === 'string') {
-    const match = data.match(/\$(\d+(?:\.\d+)?)/);
-    if (match) return parseFloat(match[1]);
-  }
-  return 150; // default
-}
-
-function extractCurrentPrice(bullResearch: any, bearResearch: any): number {
-  // Try to extract from research data
-  const bullPrice = extractPriceFromText(bullResearch.analysis);
-  const bearPrice = extractPriceFromText(bearResearch.analysis);
-  return bullPrice || bearPrice || 150;
-}
-
-function extractPriceFromText(text: string): number | null {
-  if (!text) return null;
-  const match = text.match(/current(?:ly)?.*?\$(\d+(?:\.\d+)?)|trading.*?\$(\d+(?:\.\d+)?)/i);
-  if (match) return parseFloat(match[1] || match[2]);
-  return null;
-}
-
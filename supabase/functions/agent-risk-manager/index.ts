@@ -4,9 +4,17 @@ import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.
 import { checkAnalysisCancellation } from '../_shared/cancellationCheck.ts'
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { AgentRequest } from '../_shared/types.ts'
+import { AIUsageContext } from '../_shared/aiUsage.ts'
+import { extractAgentDecision, JsonSchema, requestStructuredOutput, StructuredInsight } from '../_shared/structuredOutput.ts'
+import { formatOptionsSummaryForAI, OptionsChainSummary } from '../_shared/optionsChain.ts'
+import { describeEarningsReport, parseHoldingPeriodDays, EarningsEvent, EarningsReport, ImpliedMove } from '../_shared/earningsCalendar.ts'
+import { proposeExitRules } from '../_shared/positionGuards.ts'
+import { getAgentDisplayName, getRepeatedInstanceInsights } from '../_shared/workflowCatalog.ts'
 import { updateAgentInsights, appendAnalysisMessage, updateWorkflowStepStatus, updateAnalysisPhase, updateFinalAnalysisResults, setAgentToError } from '../_shared/atomicUpdate.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { calculateAllowedCash } from '../_shared/portfolio/cash-constraints.ts'
+import { fetchAlpacaPortfolio } from '../_shared/portfolio/alpacaClient.ts'
+import { buildPortfolioRisk, formatPortfolioRiskForAI, HIGH_CORRELATION, PortfolioRiskReport, SECTOR_CONCENTRATION_LIMIT } from '../_shared/portfolioRisk.ts'
 
 type RiskIntent = 'BUILD' | 'ADD' | 'TRIM' | 'EXIT' | 'HOLD'
 
@@ -27,11 +35,40 @@ type AgentInsightsSummary = {
   [key: string]: unknown
 }
 
+// Insight saved by the second and later instance of a trader or risk analyst
+type InstanceInsight = {
+  error?: string | null
+  tradingPlan?: { action?: string; positionSize?: string; entryPrice?: number; stopLoss?: number }
+  structuredOutput?: StructuredInsight
+}
+
 type ResearchConclusionSummary = {
   recommendation?: string | null
   [key: string]: unknown
 }
 
+// Single-leg option overlay on shares the user holds; the Portfolio Manager picks the contract
+type OptionProposal = {
+  strategy: 'covered_call' | 'protective_put' | 'none'
+  contracts: number
+  targetDte: number
+  targetDelta: number
+  rationale: string
+}
+
+const OPTION_PROPOSAL_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    strategy: { type: 'string', enum: ['covered_call', 'protective_put', 'none'], description: 'Option overlay to place on the existing shares, or none' },
+    contracts: { type: 'integer', minimum: 0, maximum: 100, description: 'Number of contracts; each covers 100 shares. 0 when strategy is none' },
+    targetDte: { type: 'integer', minimum: 0, maximum: 365, description: 'Target days to expiration, e.g. 30' },
+    targetDelta: { type: 'number', minimum: 0, maximum: 1, description: 'Target absolute delta, e.g. 0.3 for a covered call' },
+    rationale: { type: 'string', description: 'One or two sentence justification referencing IV, skew or open interest' }
+  },
+  required: ['strategy', 'contracts', 'targetDte', 'targetDelta', 'rationale'],
+  additionalProperties: false
+}
+
 serve(async (req) => {
   let timeoutId: number | null = null;
   let request: AgentRequest | null = null;
@@ -64,6 +101,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Risk Manager' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`🎯 Risk Manager starting final assessment for ${ticker} (${retryStatus})`);
@@ -141,12 +179,48 @@ serve(async (req) => {
     const safeAnalyst = analysis.agent_insights?.safeAnalyst?.strategies || {};
     const neutralAnalyst = analysis.agent_insights?.neutralAnalyst?.strategies || {};
     const tradingPlan = analysis.full_analysis?.tradingPlan || {};
+    // Traders and risk analysts listed more than once in their phase save under "trader2", "safeAnalyst2"...
+    const additionalTradingPlans = getRepeatedInstanceInsights<InstanceInsight>(analysis.agent_insights, 'agent-trader')
+      .filter(({ insight }) => !insight.error && insight.tradingPlan)
+      .map(({ agentRef, insight }) => {
+        const plan = insight.tradingPlan!;
+        return `- ${getAgentDisplayName(agentRef)}: ${plan.action} with ${plan.positionSize} position, Entry: ${plan.entryPrice}, Stop: ${plan.stopLoss}`;
+      });
+    const additionalRiskPerspectives = ['agent-risky-analyst', 'agent-safe-analyst', 'agent-neutral-analyst']
+      .flatMap(functionName => getRepeatedInstanceInsights<InstanceInsight>(analysis.agent_insights, functionName))
+      .filter(({ insight }) => !insight.error && insight.structuredOutput?.data)
+      .map(({ agentRef, insight }) => {
+        const decision = insight.structuredOutput!.data!;
+        return `- ${getAgentDisplayName(agentRef)}: ${decision.decision} (confidence ${decision.confidence}%) - ${decision.rationale}`;
+      });
     const researchConclusion = analysis.full_analysis?.researchConclusion || {};
+    const optionsSummary: OptionsChainSummary | null = analysis.agent_insights?.marketAnalyst?.data?.options || null;
+
+    // An earnings report inside the holding period can gap the price through the stop
+    const earnings: EarningsEvent | null = analysis.full_analysis?.earnings || null;
+    const impliedMove: ImpliedMove | null = analysis.agent_insights?.marketAnalyst?.earnings?.impliedMove || null;
+    const holdingDays = parseHoldingPeriodDays(researchConclusion.timeHorizon) ?? earnings?.windowDays ?? null;
+    const earningsInHoldingWindow: EarningsReport | null =
+      earnings?.nextReport && earnings.daysUntilNext !== null && holdingDays !== null && earnings.daysUntilNext <= holdingDays
+        ? earnings.nextReport
+        : null;
+    if (earningsInHoldingWindow) {
+      console.log(`📅 Earnings on ${earningsInHoldingWindow.reportDate} fall inside the ${holdingDays}-day holding window`);
+    }
 
     // Extract position context from analysisContext
     const positionData = analysisContext?.position;
     const portfolioData = analysisContext?.portfolioData;
 
+    // Beta, VaR, correlation and sector exposure of the live portfolio, with this ticker as the candidate
+    let portfolioRisk: PortfolioRiskReport | null = null;
+    try {
+      portfolioRisk = await buildPortfolioRisk(supabase, userId, apiSettings, await fetchAlpacaPortfolio(apiSettings), ticker);
+      console.log(`📐 Portfolio risk: beta ${portfolioRisk.beta ?? 'N/A'}, ${portfolioRisk.warnings.length} warning(s)`);
+    } catch (error) {
+      console.warn('⚠️ Portfolio risk analytics unavailable:', error.message);
+    }
+
     // Determine review thresholds (fallback to sensible defaults if trading plan lacks guidance)
     const gainReviewPercent = parsePercent(
       tradingPlan?.targetGainPercent ?? tradingPlan?.takeProfitPercent ?? tradingPlan?.takeProfit,
@@ -311,6 +385,9 @@ serve(async (req) => {
     - Recommendation: ${researchConclusion.recommendation}
     - Base Strategy: ${tradingPlan.action} with ${tradingPlan.positionSize} position
     - Entry: ${tradingPlan.entryPrice}, Stop: ${tradingPlan.stopLoss}
+    ${additionalTradingPlans.length > 0 ? `
+    Additional Trading Plans:
+    ${additionalTradingPlans.join('\n    ')}` : ''}
 
     Risk Analyst Perspectives:
     
@@ -328,6 +405,9 @@ serve(async (req) => {
     - Position Size: ${neutralAnalyst.balancedPosition?.size}
     - Expected Return: ${neutralAnalyst.expectedReturn}
     - Warning Level: ${neutralAnalyst.warningLevel}
+    ${additionalRiskPerspectives.length > 0 ? `
+    Additional Risk Analyst Perspectives:
+    ${additionalRiskPerspectives.join('\n    ')}` : ''}
 
     ${!hasCashAvailable ? `
     ⚠️ CRITICAL: NO DEPLOYABLE CASH - BUILD/ADD actions are prohibited until cash policy buffer is restored` : ''}
@@ -341,6 +421,13 @@ serve(async (req) => {
     ⚠️ POSITION AT/BELOW MINIMUM ${apiSettings?.rebalance_min_position_size || 5}% - Must exit or add to viable size` :
       sizeStatus === 'NEAR_MIN_SIZE' ? `
     ⚠️ POSITION NEAR MINIMUM - Consider sizing up or preparing to exit` : ''}
+    ${earningsInHoldingWindow ? `
+    ⚠️ EARNINGS EVENT INSIDE HOLDING WINDOW - ${ticker} reports ${describeEarningsReport(earningsInHoldingWindow)}, ${earnings!.daysUntilNext} day(s) away, within the ${researchConclusion.timeHorizon || `${holdingDays}-day`} holding period${impliedMove ? `; options price a ±${impliedMove.movePercent.toFixed(1)}% move` : ''}
+    - Size for an overnight gap through the stop, or say whether to wait for the report or hedge into it` : ''}
+    ${portfolioRisk ? `
+    Portfolio Risk (beta vs SPY, 1-day VaR, correlations, sector exposure):
+    ${formatPortfolioRiskForAI(portfolioRisk).split('\n').join('\n    ')}
+    - Size ${ticker} for its effect on portfolio beta, sector concentration and correlation with existing holdings` : ''}
     
     Provide comprehensive risk management guidance including:
     1. Final position size recommendation for different investor types
@@ -399,6 +486,14 @@ return '- Maintain disciplined sizing aligned with conviction, cash posture, and
       ${positionData?.stock_in_holdings
         ? '- PRIORITIZE INTENTS: Favor TRIM or ADD to keep the position actively managed; escalate to EXIT for deliberate profit-taking or decisive risk management; reserve HOLD only for conviction <60% or when cash/constraints block action.'
         : '- BUILD and HOLD carry equal priority for new positions—select based on conviction level and cash availability.'}
+    ${optionsSummary ? `
+    Options Market:
+    ${formatOptionsSummaryForAI(optionsSummary).split('\n').join('\n    ')}
+
+    9. Options overlay on held shares (single-leg only)
+       - Consider selling a covered call (e.g. "sell 1 covered call 30 DTE ~0.3 delta") when IV is rich and upside looks capped
+       - Consider buying a protective put when downside risk is elevated but the position should be kept
+       - Each contract covers 100 shares; say "no options overlay" when neither is warranted` : ''}
     `;
 
     // Call AI provider
@@ -409,7 +504,7 @@ return '- Maintain disciplined sizing aligned with conviction, cash posture, and
     try {
       const maxTokens = apiSettings.risk_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for final risk assessment`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.riskManager, maxTokens, 3);
+      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.riskManager, maxTokens, 3, undefined, undefined, usageContext);
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -436,7 +531,7 @@ Please retry the analysis or check your AI provider settings.`;
     }
 
     // Calculate comprehensive risk score
-    const riskScore = calculateRiskScore(analysis.agent_insights);
+    const riskScore = calculateRiskScore(analysis.agent_insights, portfolioRisk);
 
     // Determine final recommendation based on investor profile and position status
     let finalRecommendations;
@@ -553,10 +648,17 @@ Please retry the analysis or check your AI provider settings.`;
       };
     }
 
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'Risk Manager', ticker, aiResponse, usageContext);
+    const optionProposal = agentError || !optionsSummary
+      ? null
+      : await requestOptionProposal(apiSettings, ticker, aiResponse, optionsSummary, usageContext);
+
     // Save agent output
     const agentOutput = {
       agent: 'Risk Manager',
       timestamp: new Date().toISOString(),
+      structuredOutput,
       analysis: aiResponse,
       finalAssessment: {
         overallRiskScore: riskScore,
@@ -564,6 +666,11 @@ Please retry the analysis or check your AI provider settings.`;
         executionRisk: 'Low',
         liquidityRisk: 'Low',
         recommendations: finalRecommendations,
+        optionProposal,
+        earningsInHoldingWindow,
+        // Armed by position-guardian once a BUY from this analysis fills
+        exitRules: proposeExitRules(tradingPlan, researchConclusion.timeHorizon),
+        portfolioRisk,
         decision: '', // Will be filled from AI extraction
         intent: 'HOLD', // Placeholder until extraction completes
         executionPlan: {
@@ -853,6 +960,42 @@ Please retry the analysis or check your AI provider settings.`;
   }
 });
 
+/**
+ * Turn the options overlay part of the assessment into a proposal the Portfolio Manager can size
+ * Returns null when no overlay is proposed or the output does not validate
+ */
+async function requestOptionProposal(
+  apiSettings: any,
+  ticker: string,
+  aiResponse: string,
+  optionsSummary: OptionsChainSummary,
+  usageContext: AIUsageContext
+): Promise<OptionProposal | null> {
+  const result: StructuredInsight<OptionProposal> = await requestStructuredOutput<OptionProposal>(apiSettings, {
+    name: 'option_proposal',
+    schema: OPTION_PROPOSAL_SCHEMA,
+    prompt: `Extract the options overlay recommended in the Risk Manager assessment of ${ticker} below.
+Only covered calls and protective puts on existing shares are allowed. Use strategy "none" with 0 contracts
+when the assessment does not clearly recommend one.
+
+OPTIONS MARKET:
+${formatOptionsSummaryForAI(optionsSummary)}
+
+ASSESSMENT:
+${aiResponse.substring(0, 12000)}`,
+    maxTokens: 400,
+    usageContext
+  });
+
+  const proposal = result.data;
+  if (!proposal || proposal.strategy === 'none' || proposal.contracts < 1) {
+    return null;
+  }
+
+  console.log(`📜 Option proposal: ${proposal.strategy} x${proposal.contracts}, ${proposal.targetDte} DTE ~${proposal.targetDelta} delta`);
+  return proposal;
+}
+
 function parsePercent(input: unknown, fallback: number): number {
   if (typeof input === 'number') {
     return Number.isFinite(input) ? Math.max(-100, Math.min(100, input)) : fallback;
@@ -877,7 +1020,7 @@ function formatPercentage(value: number): string {
   return Number.isInteger(rounded) ? `${rounded}` : rounded.toFixed(1);
 }
 
-function calculateRiskScore(agentInsights: AgentInsightsSummary): number {
+function calculateRiskScore(agentInsights: AgentInsightsSummary, portfolioRisk: PortfolioRiskReport | null): number {
   let totalScore = 0;
   let factors = 0;
 
@@ -905,6 +1048,17 @@ function calculateRiskScore(agentInsights: AgentInsightsSummary): number {
   totalScore += (10 - conviction);
   factors++;
 
+  // Portfolio concentration risk of adding the ticker
+  const candidate = portfolioRisk?.candidate;
+  if (candidate) {
+    let concentrationScore = 3;
+    if (candidate.sectorWeight > SECTOR_CONCENTRATION_LIMIT) concentrationScore += 3;
+    if ((candidate.maxCorrelation?.correlation ?? 0) >= HIGH_CORRELATION) concentrationScore += 2;
+    if ((candidate.beta ?? 1) > 1.3) concentrationScore += 2;
+    totalScore += concentrationScore;
+    factors++;
+  }
+
   return Math.round(totalScore / factors);
 }
 
@@ -6,13 +6,15 @@ import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
-import { callPerplefina } from '../_shared/perplefinaClient.ts'
+import { extractAgentDecision } from '../_shared/structuredOutput.ts'
+import { runResearch } from '../_shared/researchSources.ts'
 
 // Extended interface for Social Media Analyst specific settings
 interface SocialMediaAnalystRequest extends AgentRequest {
   apiSettings: AgentRequest['apiSettings'] & {
     ai_provider: string;
     ai_api_key: string;
+    ai_base_url?: string | null; // Only for openai-compatible providers
     ai_model?: string;
     analysis_optimization?: string;
     analysis_max_tokens?: number;
@@ -50,6 +52,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: 'Social Media Analyst' };
 
     const retryStatus = getRetryStatus(request);
     console.log(`📱 Social Media Analyst starting for ${ticker} (${retryStatus})`);
@@ -106,7 +109,7 @@ serve(async (req) => {
     // Update analysis status
     await updateAnalysisPhase(supabase, analysisId, 'Social Media Analyst analyzing sentiment', {
       agent: 'Social Media Analyst',
-      message: 'Analyzing social media sentiment and discussions using Perplefina',
+      message: 'Analyzing social media sentiment and discussions from the configured research sources',
       timestamp: new Date().toISOString(),
       type: 'info'
     });
@@ -117,44 +120,47 @@ serve(async (req) => {
 
     console.log(`📊 Using optimization: ${optimizationMode} with ${maxSources} sources`);
 
-    // Call Perplefina API for social media analysis
+    // Social media research from the user's sources, in priority order
     let aiResponse = '';
     let agentError = null;
-    let perplefinaData = null;
+    let researchData = null;
+    let researchSource = null;
 
     try {
-      const data = await callPerplefina({
+      const data = await runResearch({
+        ticker,
         focusMode: 'social',
         query: `Social media sentiment analysis for ${ticker} stock including Reddit, Twitter, and trading communities discussion`,
         optimizationMode: optimizationMode,
         maxSources: maxSources,
-        chatModel: {
-          provider: apiSettings.ai_provider,
-          model: apiSettings.ai_model || 'default',
-          apiKey: apiSettings.ai_api_key
-        },
         maxTokens: apiSettings.analysis_max_tokens || 1200,
         systemInstructions: `You are a social media analyst for ${ticker}. Analyze sentiment across platforms (Reddit, Twitter, StockTwits). Include: 1) Overall sentiment momentum, 2) Key themes in discussions, 3) Retail investor sentiment, 4) Concerns/red flags, 5) Social media volume trends. Based on social media sentiment analysis, provide a clear BUY/SELL/HOLD recommendation with supporting rationale. Append Markdown table: Overall Sentiment Score, Platform Consensus, Key Bullish Factors, Key Bearish Factors, Social Media Recommendation (BUY/SELL/HOLD), Social Risk Level.`
-      });
+      }, apiSettings, usageContext);
 
-      aiResponse = data.message || 'No analysis content received from Perplefina';
-      perplefinaData = data.sources || [];
+      aiResponse = data.message || `No analysis content received from ${data.sourceName}`;
+      researchData = data.sources;
+      researchSource = { id: data.sourceId, name: data.sourceName, attempts: data.attempts };
 
     } catch (aiError) {
-      console.error('❌ Perplefina call failed:', aiError);
-      agentError = aiError.message || 'Failed to get Perplefina response';
-      aiResponse = `Error: Unable to complete social media analysis due to Perplefina error.
+      console.error('❌ Research failed:', aiError);
+      agentError = aiError.message || 'Failed to get a research source response';
+      aiResponse = `Error: Unable to complete social media analysis due to a research source error.
 
 Error details: ${agentError}
 
-Please retry the analysis or check your Perplefina configuration.`;
+Please retry the analysis or check the research sources in your settings.`;
     }
 
+    // Schema-validated decision contract stored alongside the prose report
+    const structuredOutput = agentError ? null : await extractAgentDecision(apiSettings, 'Social Media Analyst', ticker, aiResponse, usageContext);
+
     // Save agent output (even if there was an error)
     const agentOutput = {
       agent: 'Social Media Analyst',
       timestamp: new Date().toISOString(),
-      sources: perplefinaData,
+      structuredOutput,
+      sources: researchData,
+      researchSource,
       analysis: aiResponse,
       error: agentError
     };
@@ -173,7 +179,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         agentError,
         agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         ticker,
         userId,
@@ -235,7 +241,7 @@ Please retry the analysis or check your Perplefina configuration.`;
         error: agentError,
         errorType: agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
-            agentError.includes('Perplefina') || agentError.includes('perplefina') ? 'data_fetch' :
+            agentError.includes('Perplefina') || agentError.includes('perplefina') || agentError.includes('research source') ? 'data_fetch' :
               agentError.includes('AI provider') || agentError.includes('No API key provided') ? 'ai_error' : 'other',
         completionType: 'error',
         analysisContext: request.analysisContext
@@ -269,8 +275,10 @@ Please retry the analysis or check your Perplefina configuration.`;
             completionType: 'last_in_phase',
             analysisContext: request.analysisContext
           }, 'Social Media Analyst');
-        } else {
+        } else if (nextAgentResult.nextAgent) {
           console.log(`✅ Social Media Analyst successfully handed off to: ${nextAgentResult.nextAgent}`);
+        } else {
+          console.log(`⏳ Social Media Analyst finished - waiting for the other analysts running in parallel`);
         }
       } else {
         // Failed to invoke next agent - fallback to coordinator
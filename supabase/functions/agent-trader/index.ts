@@ -6,12 +6,16 @@ import { callAIProviderWithRetry, SYSTEM_PROMPTS } from '../_shared/aiProviders.
 import { notifyCoordinatorAsync } from '../_shared/coordinatorNotification.ts'
 import { setupAgentTimeout, clearAgentTimeout, getRetryStatus } from '../_shared/agentSelfInvoke.ts'
 import { AgentRequest } from '../_shared/types.ts'
+import { AgentDecisionContract, extractAgentDecision, StructuredInsight } from '../_shared/structuredOutput.ts'
+import { invokeNextAgentInSequence } from '../_shared/phaseProgressChecker.ts'
+import { getAgentDisplayName, getAgentInsightKey, getAgentRef, parseAgentRef } from '../_shared/workflowCatalog.ts'
 
 // Extended interface for Trader specific settings
 interface TraderRequest extends AgentRequest {
   apiSettings: AgentRequest['apiSettings'] & {
     ai_provider: string;
     ai_api_key: string;
+    ai_base_url?: string | null; // Only for openai-compatible providers
     ai_model?: string;
   };
 }
@@ -43,13 +47,19 @@ serve(async (req) => {
       });
     }
 
+    // Repeated listings of the trader run as their own instance ("Trader 2") with their own plan
+    const agentRef = getAgentRef('agent-trader', request.agentInstance);
+    const agentName = getAgentDisplayName(agentRef);
+    const agentKey = agentRef.replace('agent-', '');
+
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const usageContext = { supabase, userId, analysisId, agent: agentName };
 
     const retryStatus = getRetryStatus(request);
-    console.log(`📈 Trader starting for ${ticker} (${retryStatus})`);
+    console.log(`📈 ${agentName} starting for ${ticker} (${retryStatus})`);
     console.log(`🤖 Using AI: ${apiSettings.ai_provider || 'openai'} | Model: ${apiSettings.ai_model || 'default'}`);
 
     // Setup timeout with self-retry mechanism
@@ -62,16 +72,16 @@ serve(async (req) => {
         timeoutMs: 180000,
         retryDelay: 3000   // 3 second delay between retries
       },
-      'Trader'
+      agentName
     );
 
     // Check if analysis has been canceled before starting work
     const cancellationCheck = await checkAnalysisCancellation(supabase, analysisId);
     if (!cancellationCheck.shouldContinue) {
-      console.log(`🛑 Trader stopped: ${cancellationCheck.reason}`);
+      console.log(`🛑 ${agentName} stopped: ${cancellationCheck.reason}`);
       return new Response(JSON.stringify({
         success: false,
-        message: `Trader stopped: ${cancellationCheck.reason}`,
+        message: `${agentName} stopped: ${cancellationCheck.reason}`,
         canceled: cancellationCheck.isCanceled
       }), {
         headers: { 'Content-Type': 'application/json' },
@@ -80,8 +90,8 @@ serve(async (req) => {
     }
 
     // Check if analysis still exists by trying to update it (deletion check)
-    const updateResult = await updateAnalysisPhase(supabase, analysisId, 'Trader analyzing', {
-      agent: 'Trader',
+    const updateResult = await updateAnalysisPhase(supabase, analysisId, `${agentName} analyzing`, {
+      agent: agentName,
       message: 'Starting trading strategy development',
       timestamp: new Date().toISOString(),
       type: 'info'
@@ -89,10 +99,10 @@ serve(async (req) => {
 
     // If analysis phase update fails, it likely means analysis was deleted
     if (!updateResult.success) {
-      console.log(`🛑 Trader stopped: ${updateResult.error}`);
+      console.log(`🛑 ${agentName} stopped: ${updateResult.error}`);
       return new Response(JSON.stringify({
         success: false,
-        message: `Trader stopped: ${updateResult.error}`,
+        message: `${agentName} stopped: ${updateResult.error}`,
         canceled: true
       }), {
         headers: { 'Content-Type': 'application/json' },
@@ -112,8 +122,8 @@ serve(async (req) => {
     }
 
     // Update analysis status
-    await updateAnalysisPhase(supabase, analysisId, 'Trader formulating trading strategy', {
-      agent: 'Trader',
+    await updateAnalysisPhase(supabase, analysisId, `${agentName} formulating trading strategy`, {
+      agent: agentName,
       message: 'Developing trading strategy and execution plan',
       timestamp: new Date().toISOString(),
       type: 'info'
@@ -163,7 +173,7 @@ serve(async (req) => {
       // Note: Default set to 1200 tokens (standardized across all agents)
       const maxTokens = apiSettings.trading_max_tokens || 1200;
       console.log(`📝 Using ${maxTokens} max tokens for trading analysis`);
-      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.trader, maxTokens, 3);
+      aiResponse = await callAIProviderWithRetry(apiSettings, prompt, SYSTEM_PROMPTS.trader, maxTokens, 3, undefined, undefined, usageContext);
     } catch (aiError) {
       console.error('❌ AI provider call failed:', aiError);
       agentError = aiError.message || 'Failed to get AI response';
@@ -177,12 +187,15 @@ Error details: ${agentError}
 Please retry the analysis or check your AI provider settings.`;
     }
 
-    // Calculate trading parameters
-    const tradingParams = calculateTradingParameters(currentPrice, researchConclusion, technicalIndicators);
+    // Read the trade call from the plan as schema-validated JSON, then derive the trading parameters
+    const structuredOutput = agentError
+      ? null
+      : await extractAgentDecision(apiSettings, agentName, ticker, aiResponse, usageContext);
+    const tradingParams = calculateTradingParameters(currentPrice, structuredOutput);
 
     // Save agent output (even if there was an error)
     const agentOutput = {
-      agent: 'Trader',
+      agent: agentName,
       timestamp: new Date().toISOString(),
       analysis: aiResponse,
       error: agentError,
@@ -204,7 +217,8 @@ Please retry the analysis or check your AI provider settings.`;
           'Sector rotation signals'
         ],
         hasError: !!agentError
-      }
+      },
+      structuredOutput
     };
 
     // Update analysis atomically to prevent race conditions
@@ -217,7 +231,7 @@ Please retry the analysis or check your AI provider settings.`;
         supabase,
         analysisId,
         'trading',
-        'Trader',
+        agentName,
         agentError,
         agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
           agentError.includes('API key') || agentError.includes('invalid key') || agentError.includes('api_key') ? 'api_key' :
@@ -231,7 +245,7 @@ Please retry the analysis or check your AI provider settings.`;
       }
     } else {
       // Update agent insights for successful completion
-      const insightsResult = await updateAgentInsights(supabase, analysisId, 'trader', agentOutput);
+      const insightsResult = await updateAgentInsights(supabase, analysisId, getAgentInsightKey(agentRef), agentOutput);
       if (!insightsResult.success) {
         console.error('Failed to update insights:', insightsResult.error);
       }
@@ -240,7 +254,7 @@ Please retry the analysis or check your AI provider settings.`;
       const messageResult = await appendAnalysisMessage(
         supabase,
         analysisId,
-        'Trader',
+        agentName,
         aiResponse,
         'trading'
       );
@@ -250,22 +264,25 @@ Please retry the analysis or check your AI provider settings.`;
     }
 
     // Update trading plan in full_analysis
-    const { data: current } = await supabase
-      .from('analysis_history')
-      .select('full_analysis')
-      .eq('id', analysisId)
-      .single();
-
-    await supabase
-      .from('analysis_history')
-      .update({
-        full_analysis: {
-          ...current.full_analysis,
-          tradingPlan: agentOutput.tradingPlan,
-          lastUpdated: new Date().toISOString()
-        }
-      })
-      .eq('id', analysisId);
+    // Only the first trader sets the base plan; the risk manager weighs the other instances' plans
+    if (parseAgentRef(agentRef).instance === 1) {
+      const { data: current } = await supabase
+        .from('analysis_history')
+        .select('full_analysis')
+        .eq('id', analysisId)
+        .single();
+
+      await supabase
+        .from('analysis_history')
+        .update({
+          full_analysis: {
+            ...current.full_analysis,
+            tradingPlan: agentOutput.tradingPlan,
+            lastUpdated: new Date().toISOString()
+          }
+        })
+        .eq('id', analysisId);
+    }
 
     // Update workflow step status atomically (only for successful completion)
     if (!agentError) {
@@ -273,7 +290,7 @@ Please retry the analysis or check your AI provider settings.`;
         supabase,
         analysisId,
         'trading',
-        'Trader',
+        agentName,
         'completed'
       );
       if (!statusResult.success) {
@@ -283,30 +300,60 @@ Please retry the analysis or check your AI provider settings.`;
 
     // Clear timeout on successful completion
     if (timeoutId !== null) {
-      clearAgentTimeout(timeoutId, 'Trader', 'completed successfully');
+      clearAgentTimeout(timeoutId, agentName, 'completed successfully');
     }
 
-    console.log('✅ Trader data saved successfully');
+    console.log(`✅ ${agentName} data saved successfully`);
 
-    // Notify coordinator that trading phase is complete (include error if any)
-    notifyCoordinatorAsync(supabase, {
-      analysisId,
-      ticker,
-      userId,
-      phase: 'trading',
-      agent: 'trader',
-      apiSettings,
-      error: agentError,
-      errorType: agentError ? (agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
-        agentError.includes('API key') || agentError.includes('invalid key') ? 'api_key' :
-          agentError.includes('AI provider') ? 'ai_error' : 'other') : undefined
-    }, 'Trader');
+    if (agentError) {
+      // Notify coordinator about the error - it decides whether to continue with the next trader
+      notifyCoordinatorAsync(supabase, {
+        analysisId,
+        ticker,
+        userId,
+        phase: 'trading',
+        agent: agentKey,
+        apiSettings,
+        error: agentError,
+        errorType: agentError.includes('rate limit') || agentError.includes('quota') ? 'rate_limit' :
+          agentError.includes('API key') || agentError.includes('invalid key') ? 'api_key' :
+            agentError.includes('AI provider') ? 'ai_error' : 'other'
+      }, agentName);
+    } else {
+      // Hand off to the next trader when the trading phase lists more than one
+      const nextAgentResult = await invokeNextAgentInSequence(
+        supabase,
+        analysisId,
+        'trading',
+        agentKey,
+        ticker,
+        userId,
+        apiSettings,
+        request.analysisContext
+      );
 
-    console.log(`✅ Trader completed for ${ticker} (${retryStatus})`);
+      if (nextAgentResult.success && !nextAgentResult.isLastInPhase) {
+        console.log(`✅ ${agentName} successfully handed off to: ${nextAgentResult.nextAgent}`);
+      } else {
+        // Notify coordinator that trading phase is complete, or that it has to start the next trader
+        notifyCoordinatorAsync(supabase, {
+          analysisId,
+          ticker,
+          userId,
+          phase: 'trading',
+          agent: agentKey,
+          apiSettings,
+          completionType: nextAgentResult.success ? 'last_in_phase' : 'fallback_invocation_failed',
+          failedToInvoke: nextAgentResult.intendedAgent
+        }, agentName);
+      }
+    }
+
+    console.log(`✅ ${agentName} completed for ${ticker} (${retryStatus})`);
 
     return new Response(JSON.stringify({
       success: true,
-      agent: 'Trader',
+      agent: agentName,
       tradingPlan: agentOutput.tradingPlan,
       retryInfo: retryStatus
     }), {
@@ -331,80 +378,80 @@ Please retry the analysis or check your AI provider settings.`;
   }
 });
 
-function calculateTradingParameters(currentPrice: number, researchConclusion: any, indicators: any) {
-  // Get recommendation from Research Manager - no defaulting to Hold!
-  const recommendation = researchConclusion.recommendation || researchConclusion.rating || '';
-  const conviction = researchConclusion.conviction || 5;
+const roundPrice = (price: number) => Math.round(price * 100) / 100;
+
+function calculateTradingParameters(
+  currentPrice: number,
+  structuredOutput: StructuredInsight<AgentDecisionContract> | null
+) {
+  const contract = structuredOutput?.data;
+
+  // Without a valid contract there is no trustworthy call, so hold rather than guess
+  if (!contract) {
+    if (structuredOutput) {
+      console.warn(`⚠️ Trader: no valid structured decision, holding: ${structuredOutput.errors?.join('; ')}`);
+    }
+  } else {
+    console.log(`📊 Trader structured decision: ${contract.decision} (confidence ${contract.confidence})${structuredOutput!.repaired ? ' (repaired)' : ''}`);
+  }
+
+  const action = contract?.decision || 'HOLD';
+  const confidenceScore = contract?.confidence ?? 0;
+  const confidence = confidenceScore >= 70 ? 'high' : confidenceScore >= 40 ? 'medium' : 'low';
 
-  // Base parameters - start with the actual recommendation
-  let action = 'HOLD';
   let positionSize = '0%';
-  let confidence = 'medium';
-
-  // Determine action based on recommendation
-  // Check for Strong Buy/Sell first
-  if (recommendation.match(/strong\s*buy/i)) {
-    action = 'BUY';
-    positionSize = '7-10%'; // Larger position for strong conviction
-    confidence = 'high';
-  } else if (recommendation.match(/strong\s*sell/i)) {
-    action = 'SELL';
-    positionSize = '100%'; // Exit full position
-    confidence = 'high';
-  } else if (recommendation.match(/buy/i) && !recommendation.match(/sell/i)) {
-    action = 'BUY';
-    positionSize = conviction > 7 ? '5%' : '3%';
-    confidence = conviction > 7 ? 'high' : 'medium';
-  } else if (recommendation.match(/sell/i) && !recommendation.match(/buy/i)) {
-    action = 'SELL';
+  if (action === 'BUY') {
+    positionSize = confidenceScore >= 80 ? '7-10%' : confidenceScore >= 70 ? '5%' : '3%';
+  } else if (action === 'SELL') {
     positionSize = '100%'; // of existing position
-    confidence = conviction > 7 ? 'high' : 'medium';
-  } else if (recommendation.match(/hold/i) || recommendation === '') {
-    // Only HOLD if explicitly recommended or if no recommendation
-    action = 'HOLD';
-    positionSize = '0%';
-    confidence = 'low';
-    console.log('⚠️ Trader: Recommendation is HOLD or unclear, maintaining current position');
+  } else {
+    console.log('⚠️ Trader: Decision is HOLD, maintaining current position');
   }
 
-  // Calculate entry range
-  const entryPrice = currentPrice;
+  // Use the plan's own levels when they are consistent with a long entry, otherwise derive them from the price
+  const levels = contract?.priceTargets;
+  const entryPrice = levels?.entry || currentPrice;
+  const levelsConsistent = !!levels?.stopLoss && !!levels?.target &&
+    levels.stopLoss < entryPrice && levels.target > entryPrice;
+
   const entryRange = {
-    min: Math.round(currentPrice * 0.98 * 100) / 100,
-    max: Math.round(currentPrice * 1.01 * 100) / 100
+    min: roundPrice(entryPrice * 0.98),
+    max: roundPrice(entryPrice * 1.01)
   };
 
-  // Calculate stop loss (2-3% for high conviction, 3-5% for medium)
-  const stopLossPercent = confidence === 'high' ? 0.03 : 0.05;
-  const stopLoss = Math.round(currentPrice * (1 - stopLossPercent) * 100) / 100;
+  // Default stop loss: 3% for high confidence, 5% otherwise
+  const stopLoss = levelsConsistent
+    ? roundPrice(levels!.stopLoss!)
+    : roundPrice(entryPrice * (1 - (confidence === 'high' ? 0.03 : 0.05)));
+  const coreTarget = levelsConsistent ? roundPrice(levels!.target!) : roundPrice(entryPrice * 1.10);
+  const targetMove = coreTarget - entryPrice;
 
-  // Calculate targets
   const targets = [
     {
-      price: Math.round(currentPrice * 1.05 * 100) / 100,
+      price: roundPrice(entryPrice + targetMove * 0.5),
       allocation: '25%',
       description: 'Initial profit taking'
     },
     {
-      price: Math.round(currentPrice * 1.10 * 100) / 100,
+      price: coreTarget,
       allocation: '50%',
       description: 'Core target'
     },
     {
-      price: Math.round(currentPrice * 1.15 * 100) / 100,
+      price: roundPrice(entryPrice + targetMove * 1.5),
       allocation: '25%',
       description: 'Extended target'
     }
   ];
 
   // Calculate risk/reward
-  const risk = currentPrice - stopLoss;
-  const reward = targets[1].price - currentPrice;
+  const risk = entryPrice - stopLoss;
+  const reward = coreTarget - entryPrice;
   const riskRewardRatio = Math.round((reward / risk) * 10) / 10;
 
   return {
     action,
-    entryPrice: `$${entryPrice}`,
+    entryPrice: `$${roundPrice(entryPrice)}`,
     entryRange: `$${entryRange.min} - $${entryRange.max}`,
     positionSize,
     stopLoss: `$${stopLoss}`,
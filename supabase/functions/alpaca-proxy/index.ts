@@ -1,19 +1,73 @@
 import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { corsHeaders } from '../_shared/cors.ts';
+import { ALPACA_CREDENTIAL_FIELDS, decryptApiSettings } from '../_shared/credentialVault.ts';
 import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { resolveBrokerAccountSettings } from '../_shared/brokerAccounts.ts';
+import { fetchOptionsChain, summarizeOptionsChain } from '../_shared/optionsChain.ts';
+import { Broker, BrokerRequestError, OrdersQuery, brokerRequestError, createBroker, resolveAlpacaCredentials } from '../_shared/broker.ts';
 
-interface AlpacaConfig {
-  apiKey: string;
-  secretKey: string;
-  paper: boolean;
-}
+type BrokerAction = 'quote' | 'bars' | 'asset' | 'orders' | 'order' | 'cancel-order';
+
+const BROKER_ACTIONS: BrokerAction[] = ['quote', 'bars', 'asset', 'orders', 'order', 'cancel-order'];
 
 interface AlpacaRequest {
   method: string;
   endpoint: string;
   params?: Record<string, any>;
   body?: any;
+  // Data paths computed by the proxy instead of forwarded to a single Alpaca endpoint;
+  // broker actions work with every broker and answer in the shapes of _shared/broker/types.ts
+  action?: 'options-chain' | BrokerAction;
+  underlying?: string;
+  minDte?: number;
+  maxDte?: number;
+  symbol?: string;
+  timeframe?: string;
+  start?: string;
+  end?: string;
+  limit?: number;
+  status?: OrdersQuery['status'];
+  orderId?: string;
+  // Required when called by another edge function with the service role key
+  userId?: string;
+  // Broker account to use; the primary account when unset
+  accountId?: string | null;
+}
+
+async function runBrokerAction(broker: Broker, request: AlpacaRequest): Promise<Record<string, unknown>> {
+  const requireField = (field: 'symbol' | 'orderId') => {
+    const value = request[field];
+    if (!value) {
+      throw brokerRequestError(`${field} is required for ${request.action}`, 400);
+    }
+    return value;
+  };
+
+  switch (request.action) {
+    case 'quote':
+      return { quote: await broker.getQuote(requireField('symbol')) };
+    case 'bars':
+      return {
+        bars: await broker.getBars(requireField('symbol'), {
+          timeframe: request.timeframe,
+          start: request.start,
+          end: request.end,
+          limit: request.limit
+        })
+      };
+    case 'asset':
+      return { asset: await broker.getAsset(requireField('symbol')) };
+    case 'orders':
+      return { orders: await broker.getOrders({ status: request.status, limit: request.limit }) };
+    case 'order':
+      return { order: await broker.getOrder(requireField('orderId')) };
+    case 'cancel-order':
+      await broker.cancelOrder(requireField('orderId'));
+      return { success: true };
+    default:
+      throw brokerRequestError(`Unknown action: ${request.action}`, 400);
+  }
 }
 
 serve(async (req) => {
@@ -23,9 +77,17 @@ serve(async (req) => {
   }
 
   try {
-    // Verify JWT and extract user ID
+    // Parse request body
+    const request: AlpacaRequest = await req.json();
+    const { method, endpoint, params, body } = request;
+
+    // Verify JWT and extract user ID; agents call with the service role key on behalf of a user
     const authHeader = req.headers.get('Authorization');
-    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const isServiceRole = Boolean(serviceRoleKey) && authHeader === `Bearer ${serviceRoleKey}`;
+    const { userId, error: authError } = isServiceRole
+      ? { userId: request.userId || null, error: request.userId ? null : 'userId is required for service role requests' }
+      : await verifyAndExtractUser(authHeader);
 
     if (authError || !userId) {
       console.error('Authentication failed:', authError);
@@ -38,17 +100,17 @@ serve(async (req) => {
     // Use service role to access database
     const supabaseAdmin = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      serviceRoleKey,
     );
 
     // Get user's API settings
-    const { data: apiSettings, error: settingsError } = await supabaseAdmin
+    const { data: storedSettings, error: settingsError } = await supabaseAdmin
       .from('api_settings')
       .select('*')
       .eq('user_id', userId)
       .single();
 
-    if (settingsError || !apiSettings) {
+    if (settingsError || !storedSettings) {
       console.error('Settings error for user', userId, ':', settingsError);
       return new Response(
         JSON.stringify({ error: 'API settings not found. Please configure in Settings.' }),
@@ -56,22 +118,19 @@ serve(async (req) => {
       );
     }
 
-    // Parse request body
-    const { method, endpoint, params, body }: AlpacaRequest = await req.json();
-
-    // Determine which credentials to use
-    const isPaper = apiSettings.alpaca_paper_trading ?? true;
-    const config: AlpacaConfig = isPaper ? {
-      apiKey: apiSettings.alpaca_paper_api_key,
-      secretKey: apiSettings.alpaca_paper_secret_key,
-      paper: true
-    } : {
-      apiKey: apiSettings.alpaca_live_api_key,
-      secretKey: apiSettings.alpaca_live_secret_key,
-      paper: false
-    };
-
-    if (!config.apiKey || !config.secretKey) {
+    const apiSettings = await resolveBrokerAccountSettings(
+      supabaseAdmin,
+      userId,
+      await decryptApiSettings(supabaseAdmin, storedSettings, userId, 'alpaca-proxy', ALPACA_CREDENTIAL_FIELDS),
+      request.accountId,
+      'alpaca-proxy'
+    );
+
+    // The broker uses the credentials of the selected trading mode
+    let broker: Broker;
+    try {
+      broker = createBroker({ ...apiSettings, user_id: userId });
+    } catch (_error) {
       console.log('Missing Alpaca credentials for user', userId);
       return new Response(
         JSON.stringify({ error: 'Alpaca credentials not configured. Please add them in Settings.' }),
@@ -79,9 +138,57 @@ serve(async (req) => {
       );
     }
 
-    // Determine base URL based on endpoint type
+    if (request.action && BROKER_ACTIONS.includes(request.action as BrokerAction)) {
+      try {
+        const data = await runBrokerAction(broker, request);
+        return new Response(
+          JSON.stringify(data),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+        );
+      } catch (caught) {
+        const error = caught as BrokerRequestError;
+        console.error(`Broker ${request.action} error:`, error.message);
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: error.status || 500 }
+        );
+      }
+    }
+
+    // Options chains and raw endpoints (portfolio history, asset search) exist at Alpaca only.
+    // The raw passthrough below forwards an Alpaca path with the user's keys for those dashboard views,
+    // which have no broker-neutral equivalent; agents and trade execution go through the Broker interface.
+    if (broker.provider !== 'alpaca') {
+      return new Response(
+        JSON.stringify({ error: `${request.action || endpoint} is only available with the Alpaca broker` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 501 }
+      );
+    }
+    const config = resolveAlpacaCredentials(apiSettings);
+
+    if (request.action === 'options-chain') {
+      if (!request.underlying) {
+        return new Response(
+          JSON.stringify({ error: 'underlying is required for options-chain' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        );
+      }
+
+      console.log(`Fetching options chain for user ${userId}: ${request.underlying}`);
+      const chain = await fetchOptionsChain(request.underlying, config, {
+        minDte: request.minDte,
+        maxDte: request.maxDte
+      });
+
+      return new Response(
+        JSON.stringify({ chain, summary: summarizeOptionsChain(chain) }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      );
+    }
+
+    // Raw Alpaca passthrough: determine base URL based on endpoint type
     let baseUrl: string;
-    if (endpoint.includes('/v2/stocks/') || endpoint.includes('/v2/bars') || endpoint.includes('/v2/quotes')) {
+    if (endpoint.includes('/v2/stocks/') || endpoint.includes('/v2/bars') || endpoint.includes('/v2/quotes') || endpoint.startsWith('/v1beta1/options/')) {
       // Market data endpoints
       baseUrl = 'https://data.alpaca.markets';
     } else {
@@ -1,44 +1,107 @@
-import { WorkflowPhases } from '../types/index.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { WorkflowDefinition, WorkflowPhase, WorkflowPhases } from '../types/index.ts';
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  WORKFLOW_PHASES,
+  getAgentInstanceRefs,
+  validateWorkflowDefinition
+} from '../../_shared/workflowCatalog.ts';
+
+// The schema, agent catalog and validation are shared with the settings editor
+export {
+  AGENT_CATALOG,
+  DEFAULT_WORKFLOW_DEFINITION,
+  WORKFLOW_PHASES,
+  getAgentDisplayName,
+  getAgentInsightKey,
+  getAgentRef,
+  getPhaseAgentRefs,
+  parseAgentRef,
+  validateWorkflowDefinition
+} from '../../_shared/workflowCatalog.ts';
 
 /**
- * Workflow phases configuration for the stock analysis pipeline
+ * Resolve the workflow phases for an analysis from its full_analysis snapshot
+ * Falls back to the default phases for analyses created before definitions existed.
+ * Phase agents are returned as agent references, so a repeated agent ("agent-trader#2") is
+ * tracked, invoked and joined on separately from its first listing.
  */
-export const WORKFLOW_PHASES: WorkflowPhases = {
-  analysis: {
-    agents: [
-      'agent-macro-analyst',
-      'agent-market-analyst',
-      'agent-news-analyst',
-      'agent-social-media-analyst',
-      'agent-fundamentals-analyst'
-    ],
-    nextPhase: 'research'
-  },
-  research: {
-    agents: [
-      'agent-bull-researcher',
-      'agent-bear-researcher'
-    ],
-    nextPhase: 'trading'
-  },
-  trading: {
-    agents: [
-      'agent-trader'
-    ],
-    nextPhase: 'risk'
-  },
-  risk: {
-    agents: [
-      'agent-risky-analyst',
-      'agent-safe-analyst',
-      'agent-neutral-analyst'
-    ],
-    finalAgent: 'agent-risk-manager'
-  },
-  portfolio: {
-    agents: [
-      'analysis-portfolio-manager'
-    ],
-    finalAgent: null
+export function resolveWorkflowPhases(
+  fullAnalysis: { workflowDefinition?: WorkflowDefinition } | null | undefined
+): WorkflowPhases {
+  const definition = fullAnalysis?.workflowDefinition;
+  if (!definition || validateWorkflowDefinition(definition).length > 0) {
+    return WORKFLOW_PHASES;
+  }
+  
+  const phases: WorkflowPhases = {};
+  for (const [phaseId, phase] of Object.entries(definition.phases)) {
+    phases[phaseId] = { ...phase, agents: getAgentInstanceRefs(phase.agents) };
   }
-};
\ No newline at end of file
+  return phases;
+}
+
+/**
+ * Get the phase configuration used by a specific analysis
+ */
+export async function getAnalysisPhaseConfig(
+  supabase: SupabaseClient,
+  analysisId: string,
+  phase: string
+): Promise<WorkflowPhase | null> {
+  const phases = await getAnalysisWorkflowPhases(supabase, analysisId);
+  return phases[phase] || null;
+}
+
+/**
+ * Load the workflow phases snapshotted on an analysis record
+ */
+export async function getAnalysisWorkflowPhases(
+  supabase: SupabaseClient,
+  analysisId: string
+): Promise<WorkflowPhases> {
+  const { data: analysis, error } = await supabase
+    .from('analysis_history')
+    .select('full_analysis')
+    .eq('id', analysisId)
+    .single();
+
+  if (error || !analysis) {
+    console.warn(`⚠️ Could not load workflow definition for analysis ${analysisId}, using defaults`);
+    return WORKFLOW_PHASES;
+  }
+
+  return resolveWorkflowPhases(analysis.full_analysis);
+}
+
+/**
+ * Load a user's saved workflow definition
+ * Invalid or missing definitions fall back to the default workflow
+ */
+export async function loadUserWorkflowDefinition(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<WorkflowDefinition> {
+  const { data, error } = await supabase
+    .from('workflow_definitions')
+    .select('definition')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('⚠️ Failed to load workflow definition, using defaults:', error.message);
+    return DEFAULT_WORKFLOW_DEFINITION;
+  }
+
+  if (!data?.definition) {
+    return DEFAULT_WORKFLOW_DEFINITION;
+  }
+
+  const errors = validateWorkflowDefinition(data.definition);
+  if (errors.length > 0) {
+    console.warn(`⚠️ Saved workflow definition for user ${userId} is invalid, using defaults:`, errors);
+    return DEFAULT_WORKFLOW_DEFINITION;
+  }
+
+  return data.definition;
+}
@@ -10,6 +10,8 @@ import {
   checkPhaseHealth 
 } from '../utils/phase-health-checker.ts';
 import { markAnalysisAsError } from '../utils/analysis-error-handler.ts';
+import { getAgentDisplayName, getAnalysisWorkflowPhases } from '../config/workflow.ts';
+import { isParallelPhase, joinParallelPhase } from '../../_shared/phaseProgressChecker.ts';
 
 /**
  * Handle agent completion and workflow coordination for individual stock analysis
@@ -73,7 +75,8 @@ export async function handleAgentCompletion(
       await supabase.rpc('update_workflow_step_status', {
         p_analysis_id: analysisId,
         p_phase_id: phase,
-        p_agent_name: agent.split('-').map((s: string) => s.charAt(0).toUpperCase() + s.slice(1)).join(' '),
+        // Agents report as "safe-analyst", "agent-trader#2" or "analysis-portfolio-manager"
+        p_agent_name: getAgentDisplayName(/^(agent|analysis)-/.test(agent) ? agent : `agent-${agent}`),
         p_status: 'error'
       });
     } catch (err: any) {
@@ -226,7 +229,24 @@ export async function handleAgentCompletion(
     const { getNextAgentInPhase } = await import('../utils/phase-manager.ts');
     const { invokeAgentWithRetry } = await import('../../_shared/invokeWithRetry.ts');
     
-    const nextAgent = getNextAgentInPhase(phase, agent);
+    const phases = await getAnalysisWorkflowPhases(supabase, analysisId);
+    
+    // Parallel phases have no next agent - the failed agent only counts towards the join barrier
+    const parallel = isParallelPhase(phase, phases);
+    if (parallel) {
+      const join = await joinParallelPhase(supabase, analysisId, phase, phases);
+      if (!join.success) {
+        return createErrorResponse(`Failed to check ${phase} phase join after ${agent} error: ${join.error}`);
+      }
+      if (!join.claimed) {
+        return createSuccessResponse({
+          message: `${agent} error recorded - waiting for the other ${phase} agents`,
+          continuedAfterError: true
+        });
+      }
+    }
+    
+    const nextAgent = parallel ? null : getNextAgentInPhase(phase, agent, phases);
     
     if (nextAgent) {
       console.log(`🔄 Agent ${agent} had error - coordinator will invoke next agent: ${nextAgent}`);
@@ -274,6 +294,24 @@ export async function handleAgentCompletion(
     }
   }
   
+  // An agent in a parallel phase has no next agent to fail on - it could not check the join barrier,
+  // so the coordinator checks it instead
+  if (completionType === 'fallback_invocation_failed' && !failedToInvoke) {
+    const phases = await getAnalysisWorkflowPhases(supabase, analysisId);
+    if (isParallelPhase(phase, phases)) {
+      const join = await joinParallelPhase(supabase, analysisId, phase, phases);
+      if (!join.success) {
+        return createErrorResponse(`Failed to check ${phase} phase join for ${agent}: ${join.error}`);
+      }
+      if (!join.claimed) {
+        return createSuccessResponse({
+          message: `${agent} completed - waiting for the other ${phase} agents`
+        });
+      }
+      completionType = 'last_in_phase';
+    }
+  }
+  
   // Route based on completion type - this is the critical fix
   console.log(`🔀 Routing agent completion: type=${completionType || 'default'}, agent=${agent}, phase=${phase}`);
   
@@ -1,7 +1,15 @@
-import { ApiSettings, AnalysisContext } from '../types/index.ts';
+import { ApiSettings, AnalysisContext, WorkflowDefinition } from '../types/index.ts';
 import { createErrorResponse, createSuccessResponse } from '../utils/response-helpers.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
 import { markAnalysisAsError } from '../utils/analysis-error-handler.ts';
+import { getAIBudgetStatus } from '../../_shared/aiUsage.ts';
+import { DEFAULT_EARNINGS_WINDOW_DAYS, getEarningsEvent, type EarningsEvent } from '../../_shared/earningsCalendar.ts';
+import {
+  WORKFLOW_PHASES,
+  getAgentDisplayName,
+  getPhaseAgentRefs,
+  loadUserWorkflowDefinition
+} from '../config/workflow.ts';
 
 /**
  * Start a single stock analysis with optional context
@@ -61,6 +69,24 @@ export async function startSingleAnalysis(
       }
     }
   } else {
+    const budgetStatus = await getAIBudgetStatus(supabase, userId);
+    if (budgetStatus.exceeded) {
+      console.log(`💸 Monthly AI budget reached for user ${userId}: $${budgetStatus.spent.toFixed(2)} of $${budgetStatus.budget}`);
+      return createErrorResponse(
+        `Monthly AI budget of $${budgetStatus.budget!.toFixed(2)} reached ($${budgetStatus.spent.toFixed(2)} spent this month). ` +
+        'Raise the budget in Settings or wait until next month to start new analyses.'
+      );
+    }
+
+    // Resolve the user's workflow definition before creating the record
+    const workflowDefinition = await loadUserWorkflowDefinition(supabase, userId);
+
+    // Snapshot the earnings context so every agent works from the same report dates
+    const earnings = await getEarningsEvent(ticker, supabase, apiSettings.earnings_window_days || DEFAULT_EARNINGS_WINDOW_DAYS);
+    if (earnings?.mode) {
+      console.log(`📅 ${ticker} runs in ${earnings.mode} mode (next report ${earnings.nextReport?.reportDate || 'n/a'}, last ${earnings.lastReport?.reportDate || 'n/a'})`);
+    }
+    
     // Create new analysis record
     const insertData: any = {
       user_id: userId,
@@ -70,7 +96,8 @@ export async function startSingleAnalysis(
       confidence: 0,
       agent_insights: {},
       analysis_status: ANALYSIS_STATUS.PENDING,
-      full_analysis: createInitialWorkflowSteps()
+      full_analysis: createInitialWorkflowSteps(workflowDefinition, earnings),
+      broker_account_id: apiSettings.broker_account_id ?? null
     };
     
     
@@ -140,60 +167,35 @@ export async function startSingleAnalysis(
 
 /**
  * Create initial workflow steps structure for new analysis
+ * The user's workflow definition is snapshotted so later phases follow the same graph;
+ * the earnings event switches the agents to their pre- or post-earnings templates
  */
-function createInitialWorkflowSteps() {
+function createInitialWorkflowSteps(definition: WorkflowDefinition, earnings: EarningsEvent | null) {
   const pendingAgent = { status: 'pending', progress: 0 };
   
+  const workflowSteps = Object.entries(definition.phases).map(([phaseId, phase]) => {
+    // The research manager is driven by the debate handler rather than the phase config
+    const agentRefs = getPhaseAgentRefs(phaseId, phase);
+    
+    return {
+      id: phaseId,
+      name: phase.name || WORKFLOW_PHASES[phaseId]?.name || phaseId,
+      status: 'pending',
+      // Repeated agents get one step each, named by instance ("Trader 2") and keyed by their reference
+      agents: agentRefs.map(agentRef => ({
+        name: getAgentDisplayName(agentRef),
+        functionName: agentRef,
+        ...pendingAgent
+      }))
+    };
+  });
+  
   return {
     // Remove status from full_analysis - use analysis_status field instead
     startedAt: new Date().toISOString(),
     messages: [],
-    workflowSteps: [
-      {
-        id: 'analysis',
-        name: 'Market Analysis',
-        status: 'pending',
-        agents: [
-          { name: 'Macro Analyst', functionName: 'agent-macro-analyst', ...pendingAgent },
-          { name: 'Market Analyst', functionName: 'agent-market-analyst', ...pendingAgent },
-          { name: 'News Analyst', functionName: 'agent-news-analyst', ...pendingAgent },
-          { name: 'Social Media Analyst', functionName: 'agent-social-media-analyst', ...pendingAgent },
-          { name: 'Fundamentals Analyst', functionName: 'agent-fundamentals-analyst', ...pendingAgent }
-        ]
-      },
-      {
-        id: 'research',
-        name: 'Research Team',
-        status: 'pending',
-        agents: [
-          { name: 'Bull Researcher', functionName: 'agent-bull-researcher', ...pendingAgent },
-          { name: 'Bear Researcher', functionName: 'agent-bear-researcher', ...pendingAgent },
-          { name: 'Research Manager', functionName: 'agent-research-manager', ...pendingAgent }
-        ]
-      },
-      {
-        id: 'trading',
-        name: 'Trading Decision',
-        status: 'pending',
-        agents: [{ name: 'Trader', functionName: 'agent-trader', ...pendingAgent }]
-      },
-      {
-        id: 'risk',
-        name: 'Risk Management',
-        status: 'pending',
-        agents: [
-          { name: 'Risky Analyst', functionName: 'agent-risky-analyst', ...pendingAgent },
-          { name: 'Safe Analyst', functionName: 'agent-safe-analyst', ...pendingAgent },
-          { name: 'Neutral Analyst', functionName: 'agent-neutral-analyst', ...pendingAgent },
-          { name: 'Risk Manager', functionName: 'agent-risk-manager', ...pendingAgent }
-        ]
-      },
-      {
-        id: 'portfolio',
-        name: 'Portfolio Management',
-        status: 'pending',
-        agents: [{ name: 'Portfolio Manager', functionName: 'analysis-portfolio-manager', ...pendingAgent }]
-      }
-    ]
+    workflowDefinition: definition,
+    earnings,
+    workflowSteps
   };
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 import { ApiSettings, AnalysisContext } from '../types/index.ts';
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 import { moveToNextPhase, handleFailedInvocationFallback } from '../utils/phase-manager.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { getAnalysisPhaseConfig } from '../config/workflow.ts';
 import { invokeAgentWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { checkPhaseHealth } from '../utils/phase-health-checker.ts';
 import { markAnalysisAsError } from '../utils/analysis-error-handler.ts';
@@ -102,7 +102,7 @@ export async function handlePhaseCompletion(
   
   console.log(`✅ Phase ${phase} health verified - proceeding with transition`);
   
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, phase);
   if (!phaseConfig) {
     console.warn(`⚠️ Unknown phase: ${phase}`);
     return createSuccessResponse({
@@ -1,9 +1,10 @@
-import { ApiSettings, AnalysisContext } from '../types/index.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ApiSettings, AnalysisContext, WorkflowPhase } from '../types/index.ts';
 import { createSuccessResponse } from '../utils/response-helpers.ts';
 import { runResearchDebateRound } from '../utils/phase-manager.ts';
 import { invokeAgentWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { getAnalysisPhaseConfig } from '../config/workflow.ts';
 
 /**
  * Initialize workflow phases by launching their first agents
@@ -52,12 +53,20 @@ async function initializeAnalysisPhase(
     .eq('id', analysisId)
     .eq('analysis_status', ANALYSIS_STATUS.PENDING);
   
-  // Randomly select an analysis agent from workflow configuration
-  const analysisAgents = WORKFLOW_PHASES.analysis.agents;
-  const randomIndex = Math.floor(Math.random() * analysisAgents.length);
-  const selectedAgent = analysisAgents[randomIndex];
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, 'analysis');
+  
+  if (phaseConfig?.mode === 'parallel') {
+    return await startParallelPhase(supabase, 'analysis', phaseConfig, analysisId, ticker, userId, apiSettings);
+  }
+  
+  // Select the first analysis agent from the analysis's workflow definition
+  const selectedAgent = selectStartingAgent(phaseConfig);
+  if (!selectedAgent) {
+    return createSuccessResponse({
+      message: 'Analysis phase has no agents configured'
+    });
+  }
   
-  console.log(`🎲 Randomly selected analysis agent: ${selectedAgent} from ${analysisAgents.length} options`);
   console.log(`🚀 Starting analysis phase with ${selectedAgent}...`);
   
   invokeAgentWithRetry(
@@ -127,11 +136,19 @@ async function initializeTradingPhase(
   apiSettings: ApiSettings
 ): Promise<Response> {
   
-  // Start trader agent
-  console.log('🚀 Starting trader agent...');
+  // Start the first trading agent from the workflow definition
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, 'trading');
+  const selectedAgent = selectStartingAgent(phaseConfig);
+  if (!selectedAgent) {
+    return createSuccessResponse({
+      message: 'Trading phase has no agents configured'
+    });
+  }
+  
+  console.log(`🚀 Starting trading phase with ${selectedAgent}...`);
   invokeAgentWithRetry(
     supabase,
-    'agent-trader',
+    selectedAgent,
     analysisId,
     ticker,
     userId,
@@ -154,12 +171,19 @@ async function initializeRiskPhase(
   apiSettings: ApiSettings
 ): Promise<Response> {
   
-  // Randomly select a risk analyst from workflow configuration
-  const riskAgents = WORKFLOW_PHASES.risk.agents;
-  const randomIndex = Math.floor(Math.random() * riskAgents.length);
-  const selectedAgent = riskAgents[randomIndex];
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, 'risk');
+  if (phaseConfig?.mode === 'parallel') {
+    return await startParallelPhase(supabase, 'risk', phaseConfig, analysisId, ticker, userId, apiSettings);
+  }
+  
+  // Select the first risk analyst from the analysis's workflow definition
+  const selectedAgent = selectStartingAgent(phaseConfig);
+  if (!selectedAgent) {
+    return createSuccessResponse({
+      message: 'Risk phase has no agents configured'
+    });
+  }
   
-  console.log(`🎲 Randomly selected risk agent: ${selectedAgent} from ${riskAgents.length} options`);
   console.log(`🚀 Starting risk phase with ${selectedAgent}...`);
   
   invokeAgentWithRetry(
@@ -177,4 +201,48 @@ async function initializeRiskPhase(
   return createSuccessResponse({
     message: 'Risk phase initiated'
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Start every agent of a parallel phase at once
+ * The last agent to finish passes the join barrier and reports the phase as complete
+ */
+async function startParallelPhase(
+  supabase: SupabaseClient,
+  phase: string,
+  phaseConfig: WorkflowPhase,
+  analysisId: string,
+  ticker: string,
+  userId: string,
+  apiSettings: ApiSettings
+): Promise<Response> {
+  console.log(`🚀 Starting ${phase} phase with ${phaseConfig.agents.length} agents in parallel...`);
+  
+  // invokeAgentWithRetry only waits for the "running" status update before firing the request
+  await Promise.all(phaseConfig.agents.map((agent) => invokeAgentWithRetry(
+    supabase,
+    agent,
+    analysisId,
+    ticker,
+    userId,
+    apiSettings,
+    2, // maxRetries
+    phase
+  )));
+  
+  return createSuccessResponse({
+    message: `${phase.charAt(0).toUpperCase()}${phase.slice(1)} phase initiated`,
+    parallelAgents: phaseConfig.agents
+  });
+}
+
+/**
+ * Pick the agent that opens a sequential phase: the first listed one
+ */
+function selectStartingAgent(phaseConfig: WorkflowPhase | null): string | null {
+  if (!phaseConfig || phaseConfig.agents.length === 0) {
+    return null;
+  }
+  
+  return phaseConfig.agents[0];
+}
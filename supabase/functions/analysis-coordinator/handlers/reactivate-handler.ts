@@ -1,9 +1,8 @@
 import { ApiSettings } from '../types/index.ts';
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 import { invokeAgentWithRetry } from '../../_shared/invokeWithRetry.ts';
-import { updateWorkflowStepStatus } from '../../_shared/atomicUpdate.ts';
+import { resetPhaseJoin, updateWorkflowStepStatus } from '../../_shared/atomicUpdate.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
 
 /**
  * Reactivate a stale running analysis by finding the last completed agent and resuming from the next one
@@ -115,6 +114,9 @@ export async function reactivateStaleAnalysis(
       console.log(`✅ Reset ${agentName} status to pending`);
     }
     
+    // Let the resumed agent pass the join barrier again if its phase runs in parallel
+    await resetPhaseJoin(supabase, analysisId, phase);
+    
     // Update analysis updated_at to show activity
     await supabase
       .from('analysis_history')
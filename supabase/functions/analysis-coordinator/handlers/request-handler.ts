@@ -1,3 +1,4 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { RequestBody, ApiSettings, AnalysisContext } from '../types/index.ts';
 import { fetchApiSettings } from '../utils/api-settings.ts';
 import { checkAndHandleCancellation } from '../utils/cancellation-handler.ts';
@@ -13,6 +14,20 @@ import {
   createOptionsResponse, createMethodNotAllowedResponse,
   createErrorResponse, createSuccessResponse,
 } from '../utils/response-helpers.ts';
+
+/**
+ * Broker account an existing analysis was started for (null for the primary account)
+ */
+async function getAnalysisBrokerAccountId(supabase: SupabaseClient, analysisId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('analysis_history')
+    .select('broker_account_id')
+    .eq('id', analysisId)
+    .maybeSingle();
+
+  return data?.broker_account_id ?? null;
+}
+
 /**
  * Main request handler for the analysis-coordinator function
  * Handles individual stock analysis workflow requests
@@ -46,13 +61,18 @@ export async function handleAnalysisRequest(
       errorType,
       completionType,
       failedToInvoke,
-      riskManagerDecision
+      riskManagerDecision,
+      brokerAccountId
     } = body;
     
     // Fetch API settings if userId is provided
     let apiSettings: ApiSettings | null = null;
     if (userId) {
-      const { settings, error } = await fetchApiSettings(supabase, userId);
+      // A running analysis keeps the broker account it was started for
+      const accountId = action === 'start-analysis' || !analysisId
+        ? brokerAccountId
+        : await getAnalysisBrokerAccountId(supabase, analysisId);
+      const { settings, error } = await fetchApiSettings(supabase, userId, accountId);
       if (error) return error;
       apiSettings = settings;
     }
@@ -1,7 +1,7 @@
 import { ApiSettings } from '../types/index.ts';
 import { createSuccessResponse, createErrorResponse } from '../utils/response-helpers.ts';
 import { invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
-import { updateWorkflowStepStatus } from '../../_shared/atomicUpdate.ts';
+import { resetPhaseJoin, updateWorkflowStepStatus } from '../../_shared/atomicUpdate.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
 import { attemptPhaseRecovery, findLastSuccessfulPhase, resumeFromPhase } from '../utils/error-recovery.ts';
 import { checkPhaseHealth } from '../utils/phase-health-checker.ts';
@@ -129,6 +129,9 @@ export async function retryFailedAnalysis(
       console.log(`✅ Reset ${retryAgentName} status to pending`);
     }
     
+    // A parallel phase may already have passed its join barrier with this agent failed
+    await resetPhaseJoin(supabase, analysisId, retryPhase);
+    
     // Directly invoke the failed agent exactly as it would be invoked normally
     console.log(`🚀 Retrying ${retryAgentName} by directly invoking ${retryAgent}`);
     
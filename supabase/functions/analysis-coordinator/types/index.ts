@@ -9,6 +9,7 @@ export interface CorsHeaders {
 export interface ApiSettings {
   ai_provider: string;
   ai_api_key: string;
+  ai_base_url?: string | null; // Only for openai-compatible providers
   ai_model: string;
   // Alpaca credentials
   alpaca_paper_api_key?: string;
@@ -16,11 +17,18 @@ export interface ApiSettings {
   alpaca_live_api_key?: string;
   alpaca_live_secret_key?: string;
   alpaca_paper_trading?: boolean;
+  broker_account_id?: string; // Set when the analysis runs for a broker account instead of the primary one
+  broker_account_name?: string;
   // User preferences
   user_risk_level?: string;
   default_position_size_dollars?: number;
   analysis_depth?: string;
   analysis_history_days?: number;
+  market_analyst_indicators?: string[] | null; // Indicator registry ids for the market analyst
+  market_analyst_intraday?: boolean; // Multi-timeframe intraday mode for the market analyst
+  research_sources?: Record<string, { priority: string[]; fallback: boolean }> | null; // Per-analyst research source priority
+  research_rss_feeds?: string[] | null;
+  earnings_window_days?: number; // Pre-earnings mode starts this many days before a report
   research_debate_rounds?: number;
   // Max tokens settings
   analysis_max_tokens?: number;
@@ -80,15 +88,13 @@ export interface CancellationCheckResult {
   reason?: string;
 }
 
-export interface WorkflowPhase {
-  agents: string[];
-  nextPhase?: string;
-  finalAgent?: string | null;
-}
-
-export interface WorkflowPhases {
-  [key: string]: WorkflowPhase;
-}
+// The workflow definition schema is shared with the settings editor
+export type {
+  WorkflowDefinition,
+  WorkflowPhase,
+  WorkflowPhaseMode,
+  WorkflowPhases
+} from '../../_shared/workflowCatalog.ts';
 
 export interface RequestBody {
   action?: string;
@@ -104,4 +110,5 @@ export interface RequestBody {
   completionType?: 'normal' | 'last_in_phase' | 'fallback_invocation_failed';
   failedToInvoke?: string;
   riskManagerDecision?: any;
+  brokerAccountId?: string | null; // start-analysis only; later requests read it from the analysis
 }
\ No newline at end of file
@@ -1,23 +1,30 @@
 import { ApiSettings } from '../types/index.ts';
 import { createErrorResponse } from './response-helpers.ts';
+import { OPENAI_COMPATIBLE_PROVIDER } from '../../_shared/aiProviders.ts';
+import { decryptApiSettings, decryptProviderConfigurations } from '../../_shared/credentialVault.ts';
+import { resolveBrokerAccountSettings } from '../../_shared/brokerAccounts.ts';
 
 /**
  * Fetch API settings for a user
+ * With a broker account id, that account's Alpaca keys and strategy settings replace the primary ones.
  */
 export async function fetchApiSettings(
   supabase: any,
-  userId: string
+  userId: string,
+  brokerAccountId?: string | null
 ): Promise<{ settings: ApiSettings | null; error: Response | null }> {
 
   // Removed verbose logging
 
   // Fetch main settings from api_settings table
-  const { data: rawSettings, error: settingsError } = await supabase
+  const { data: storedSettings, error: settingsError } = await supabase
     .from('api_settings')
     .select(`
       ai_provider,
       ai_api_key,
       ai_model,
+      ai_base_url,
+      ai_models,
       alpaca_paper_api_key,
       alpaca_paper_secret_key,
       alpaca_live_api_key,
@@ -29,6 +36,11 @@ export async function fetchApiSettings(
       default_min_position_size,
       analysis_history_days,
       analysis_optimization,
+      market_analyst_indicators,
+      market_analyst_intraday,
+      research_sources,
+      research_rss_feeds,
+      earnings_window_days,
       research_debate_rounds,
       analysis_max_tokens,
       research_max_tokens,
@@ -65,7 +77,7 @@ export async function fetchApiSettings(
     };
   }
 
-  if (!rawSettings) {
+  if (!storedSettings) {
     console.error('❌ No settings found for user');
     return {
       settings: null,
@@ -76,10 +88,41 @@ export async function fetchApiSettings(
     };
   }
 
+  // The coordinator hands the keys to the agents, so it decrypts them for the whole analysis
+  let rawSettings: typeof storedSettings;
+  try {
+    rawSettings = await decryptApiSettings(supabase, storedSettings, userId, 'analysis-coordinator');
+  } catch (error) {
+    console.error('❌ Failed to decrypt user credentials:', error);
+    return {
+      settings: null,
+      error: createErrorResponse(
+        'Failed to decrypt stored credentials',
+        500,
+        error instanceof Error ? error.message : String(error)
+      )
+    };
+  }
+
+  try {
+    rawSettings = await resolveBrokerAccountSettings(supabase, userId, rawSettings, brokerAccountId, 'analysis-coordinator');
+  } catch (error) {
+    console.error('❌ Failed to load broker account:', error);
+    return {
+      settings: null,
+      error: createErrorResponse(
+        'Failed to load broker account',
+        500,
+        error instanceof Error ? error.message : String(error)
+      )
+    };
+  }
+
   // Build provider map starting with the default provider from api_settings
   interface ProviderConfig {
     provider: string;
     api_key: string;
+    base_url?: string | null;
     nickname?: string;
     is_default?: boolean;
     id?: string;
@@ -103,11 +146,15 @@ export async function fetchApiSettings(
     console.log(`   defaultApiKey type: ${typeof defaultApiKey}`);
     console.log(`   defaultApiKey truthiness: ${!!defaultApiKey}`);
 
-    if (defaultApiKey) {
+    // Self-hosted OpenAI-compatible servers are usable without a key once a base URL is set
+    const isKeylessProvider = rawSettings.ai_provider === OPENAI_COMPATIBLE_PROVIDER && !!rawSettings.ai_base_url;
+
+    if (defaultApiKey || isKeylessProvider) {
       console.log(`✅ Found default provider: ${rawSettings.ai_provider}`);
       const defaultProviderConfig = {
         provider: rawSettings.ai_provider,
-        api_key: defaultApiKey,
+        api_key: defaultApiKey || '',
+        base_url: rawSettings.ai_provider === OPENAI_COMPATIBLE_PROVIDER ? rawSettings.ai_base_url : null,
         nickname: 'Default AI', // Frontend doesn't save nickname for default provider
         is_default: true,
         id: 'default' // Special ID for the default provider
@@ -128,11 +175,14 @@ export async function fetchApiSettings(
   }
 
   // Fetch additional provider configurations from provider_configurations table
-  const { data: providerConfigs, error: configError } = await supabase
+  const { data: storedProviderConfigs, error: configError } = await supabase
     .from('provider_configurations')
     .select('*')
     .eq('user_id', userId)
     .order('created_at', { ascending: true });
+  const providerConfigs = storedProviderConfigs
+    ? await decryptProviderConfigurations(supabase, storedProviderConfigs, userId, 'analysis-coordinator')
+    : storedProviderConfigs;
 
   console.log(`🔍 DEBUG: Fetching provider_configurations`);
   console.log(`   configError: ${configError ? configError.message : 'none'}`);
@@ -208,18 +258,21 @@ export async function fetchApiSettings(
   // Extract the API key from the selected provider config
   const ai_api_key = selectedProviderConfig.api_key;
   const actualProvider = selectedProviderConfig.provider;
+  const isOpenAICompatible = actualProvider === OPENAI_COMPATIBLE_PROVIDER;
 
   // Create the properly formatted settings object
   const settings: any = {
     ...rawSettings,
     ai_provider: actualProvider, // Use the actual provider from config
-    ai_api_key
+    ai_api_key,
+    ai_base_url: selectedProviderConfig.base_url || null
     // Do NOT include provider-specific API key fields
     // The provider map is stored separately for agent-specific lookups
   };
 
   // Validate required settings
-  if (!settings.ai_provider || !ai_api_key || !settings.ai_model) {
+  const hasCredentials = isOpenAICompatible ? !!settings.ai_base_url : !!ai_api_key;
+  if (!settings.ai_provider || !hasCredentials || !settings.ai_model) {
     console.error('❌ Missing required AI settings');
     console.error(`   Provider: ${settings.ai_provider}`);
     console.error(`   API Key present: ${!!ai_api_key}`);
@@ -305,6 +358,7 @@ export function getAgentSpecificSettings(
     interface ProviderConfigInternal {
       provider: string;
       api_key: string;
+      base_url?: string | null;
       nickname?: string;
       is_default?: boolean;
       id?: string;
@@ -335,6 +389,7 @@ export function getAgentSpecificSettings(
       // Use the actual provider name and API key from the config
       agentSettings.ai_provider = teamProviderConfig.provider;
       agentSettings.ai_api_key = teamProviderConfig.api_key;
+      agentSettings.ai_base_url = teamProviderConfig.base_url || null;
       console.log(`   ✅ Using provider: ${teamProviderConfig.provider} (${teamProviderConfig.nickname || 'provider config'})`);
       console.log(`   ✅ API key configured: ${!!teamProviderConfig.api_key}`);
     } else {
@@ -1,6 +1,7 @@
 import { ApiSettings, AnalysisContext } from '../types/index.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
+import { getAgentDisplayName, getAnalysisPhaseConfig } from '../config/workflow.ts';
 import { invokeAgentWithRetry, invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
+import { resetPhaseJoin } from '../../_shared/atomicUpdate.ts';
 import { checkPhaseHealth, categorizeAgentError } from './phase-health-checker.ts';
 
 export interface RecoveryStrategy {
@@ -135,7 +136,7 @@ export async function attemptPhaseRecovery(
   }
   
   // Check what failed
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, phase);
   if (!phaseConfig) {
     return {
       success: false,
@@ -172,11 +173,7 @@ export async function attemptPhaseRecovery(
   let successfulRecoveries = 0;
   
   for (const step of steps) {
-    const agentFunc = phaseConfig.agents.find(a => {
-      const displayName = a.split('-').slice(1)
-        .map(s => s.charAt(0).toUpperCase() + s.slice(1)).join(' ');
-      return displayName === step.name;
-    });
+    const agentFunc = phaseConfig.agents.find(a => getAgentDisplayName(a) === step.name);
     
     if (!agentFunc) continue;
     
@@ -294,7 +291,7 @@ export async function resumeFromPhase(
 ): Promise<{ success: boolean; message: string }> {
   console.log(`\ud83d\udd04 Resuming workflow from phase ${phase}`);
   
-  const phaseConfig = WORKFLOW_PHASES[phase];
+  const phaseConfig = await getAnalysisPhaseConfig(supabase, analysisId, phase);
   if (!phaseConfig) {
     return {
       success: false,
@@ -321,6 +318,34 @@ export async function resumeFromPhase(
   const phaseStep = workflowSteps.find((s: any) => s.id === phase);
   const allAgents = phaseStep?.agents || [];
   
+  // Parallel phases restart every unfinished agent together behind a fresh join barrier
+  if (phaseConfig.mode === 'parallel') {
+    const unfinishedAgents = phaseConfig.agents.filter(a =>
+      allAgents.find((agent: { name: string; status?: string }) => agent.name === getAgentDisplayName(a))?.status !== 'completed'
+    );
+    
+    if (unfinishedAgents.length > 0) {
+      await resetPhaseJoin(supabase, analysisId, phase);
+      console.log(`\ud83c\udfaf Resuming ${unfinishedAgents.length} agents in parallel: ${unfinishedAgents.join(', ')}`);
+      
+      await Promise.all(unfinishedAgents.map((agent) => invokeAgentWithRetry(
+        supabase,
+        agent,
+        analysisId,
+        ticker,
+        userId,
+        apiSettings,
+        2,
+        phase
+      )));
+      
+      return {
+        success: true,
+        message: `Successfully initiated phase ${phase} resumption with ${unfinishedAgents.length} parallel agents`
+      };
+    }
+  }
+  
   // Find first incomplete agent
   const steps = allAgents
     .filter((agent: any) => agent.status === 'pending' || agent.status === 'error')
@@ -330,11 +355,7 @@ export async function resumeFromPhase(
   
   if (steps && steps.length > 0) {
     // Find the corresponding agent function
-    targetAgent = phaseConfig.agents.find(a => {
-      const displayName = a.split('-').slice(1)
-        .map(s => s.charAt(0).toUpperCase() + s.slice(1)).join(' ');
-      return displayName === steps[0].name;
-    }) || null;
+    targetAgent = phaseConfig.agents.find(a => getAgentDisplayName(a) === steps[0].name) || null;
   }
   
   // If no incomplete agent found, start with the first agent of the phase
@@ -1,6 +1,6 @@
-import { ApiSettings, AnalysisContext } from '../types/index.ts';
-import { WORKFLOW_PHASES } from '../config/workflow.ts';
-import { initializeDebateRound } from '../../_shared/atomicUpdate.ts';
+import { ApiSettings, AnalysisContext, WorkflowPhases } from '../types/index.ts';
+import { WORKFLOW_PHASES, getAgentDisplayName, getAnalysisWorkflowPhases } from '../config/workflow.ts';
+import { initializeDebateRound, resetPhaseJoin } from '../../_shared/atomicUpdate.ts';
 import { invokeAgentWithRetry, invokeWithRetryAsync, invokeWithRetry } from '../../_shared/invokeWithRetry.ts';
 import { createSuccessResponse, createErrorResponse } from './response-helpers.ts';
 import { checkPhaseHealth } from './phase-health-checker.ts';
@@ -9,8 +9,12 @@ import { checkPhaseHealth } from './phase-health-checker.ts';
  * Get the next agent in the current phase based on the completed agent
  * Returns null if this is the last agent in the phase
  */
-export function getNextAgentInPhase(phase: string, completedAgent: string): string | null {
-  const phaseConfig = WORKFLOW_PHASES[phase];
+export function getNextAgentInPhase(
+  phase: string,
+  completedAgent: string,
+  phases: WorkflowPhases = WORKFLOW_PHASES
+): string | null {
+  const phaseConfig = phases[phase];
   if (!phaseConfig || !phaseConfig.agents) {
     return null;
   }
@@ -53,7 +57,9 @@ export async function moveToNextPhase(
     throw new Error(`Phase ${currentPhase} is not ready for transition: ${currentPhaseHealth.reason}`);
   }
   
-  const phaseConfig = WORKFLOW_PHASES[currentPhase];
+  // Follow the workflow definition snapshotted on this analysis
+  const phases = await getAnalysisWorkflowPhases(supabase, analysisId);
+  const phaseConfig = phases[currentPhase];
   const nextPhase = phaseConfig?.nextPhase;
   
   if (!nextPhase) {
@@ -102,7 +108,7 @@ export async function moveToNextPhase(
   }
   
   // Find the first incomplete agent in the next phase (for non-research phases)
-  const nextPhaseConfig = WORKFLOW_PHASES[nextPhase];
+  const nextPhaseConfig = phases[nextPhase];
   if (nextPhaseConfig && nextPhaseConfig.agents && nextPhaseConfig.agents.length > 0) {
     // Get workflow steps to check agent status
     const { data: analysis } = await supabase
@@ -114,38 +120,44 @@ export async function moveToNextPhase(
     const workflowSteps = analysis?.full_analysis?.workflowSteps || [];
     const phaseStep = workflowSteps.find((step: any) => step.id === nextPhase);
     
-    // Find first agent that isn't completed
-    let agentToStart = null;
+    // Find the agents that aren't completed, in the listed order
+    const agentsToStart: string[] = [];
     for (const agentFunc of nextPhaseConfig.agents) {
-      const agentDisplayName = agentFunc.split('-').slice(1)
-        .map((s: string) => s.charAt(0).toUpperCase() + s.slice(1)).join(' ');
+      const agentDisplayName = getAgentDisplayName(agentFunc);
       
       const agentStatus = phaseStep?.agents?.find((a: any) => 
         a.name === agentDisplayName || a.functionName === agentFunc
       );
       
       if (!agentStatus || agentStatus.status !== 'completed') {
-        agentToStart = agentFunc;
+        agentsToStart.push(agentFunc);
         console.log(`🎯 Found incomplete agent to start: ${agentFunc} (status: ${agentStatus?.status || 'not started'})`);
-        break;
       }
     }
     
-    if (agentToStart) {
-      console.log(`🚀 Starting incomplete agent of ${nextPhase} phase: ${agentToStart}`);
+    if (agentsToStart.length > 0) {
+      // Parallel phases start every incomplete agent at once, sequential phases only the first
+      const parallel = nextPhaseConfig.mode === 'parallel';
+      if (parallel) {
+        await resetPhaseJoin(supabase, analysisId, nextPhase);
+      }
       
-      // Fire-and-forget invocation of the next phase's first agent
-      invokeAgentWithRetry(
-        supabase,
-        agentToStart,
-        analysisId,
-        ticker,
-        userId,
-        apiSettings,
-        // analysisContext removed - not needed for agents
-        2, // maxRetries
-        nextPhase // phase parameter
-      );
+      for (const agentToStart of parallel ? agentsToStart : agentsToStart.slice(0, 1)) {
+        console.log(`🚀 Starting incomplete agent of ${nextPhase} phase: ${agentToStart}`);
+        
+        // Fire-and-forget invocation of the next phase's agent
+        invokeAgentWithRetry(
+          supabase,
+          agentToStart,
+          analysisId,
+          ticker,
+          userId,
+          apiSettings,
+          // analysisContext removed - not needed for agents
+          2, // maxRetries
+          nextPhase // phase parameter
+        );
+      }
     } else {
       console.log(`✅ All agents in ${nextPhase} are complete`);
       // If all agents are complete but phase can proceed, move to next phase
@@ -212,7 +224,8 @@ export async function handleFailedInvocationFallback(
   console.log(`🔄 FALLBACK: ${completedAgent} failed to invoke ${failedToInvoke}, coordinator taking over`);
   
   // Validate that the failed agent is actually the next agent in sequence
-  const nextAgent = getNextAgentInPhase(phase, completedAgent);
+  const phases = await getAnalysisWorkflowPhases(supabase, analysisId);
+  const nextAgent = getNextAgentInPhase(phase, completedAgent, phases);
   
   if (!nextAgent) {
     console.warn(`⚠️ No next agent found for ${completedAgent} in phase ${phase}`);
@@ -277,7 +290,7 @@ export async function handleFailedInvocationFallback(
     }
     
     // Try to continue with the next agent after the failed one
-    const nextAfterFailed = getNextAgentInPhase(phase, targetAgent.replace('agent-', ''));
+    const nextAfterFailed = getNextAgentInPhase(phase, targetAgent.replace('agent-', ''), phases);
     if (nextAfterFailed) {
       console.log(`🔄 Attempting to skip failed agent and continue with: ${nextAfterFailed}`);
       
@@ -352,8 +365,7 @@ export async function handleFailedInvocationFallback(
     
     // Mark the failed agent in workflow for retry targeting
     try {
-      const agentDisplayName = targetAgent.replace('agent-', '').split('-')
-        .map((s: string) => s.charAt(0).toUpperCase() + s.slice(1)).join(' ');
+      const agentDisplayName = getAgentDisplayName(targetAgent);
       
       const workflowResult = await updateWorkflowStepStatus(
         supabase,
@@ -385,27 +397,3 @@ export async function handleFailedInvocationFallback(
     );
   }
 }
-
-/**
- * Get display name for an agent function name
- */
-function getAgentDisplayName(agentFunctionName: string): string {
-  const nameMap: { [key: string]: string } = {
-    'agent-macro-analyst': 'Macro Analyst',
-    'agent-market-analyst': 'Market Analyst',
-    'agent-fundamentals-analyst': 'Fundamentals Analyst', 
-    'agent-news-analyst': 'News Analyst',
-    'agent-social-media-analyst': 'Social Media Analyst',
-    'agent-research-manager': 'Research Manager',
-    'agent-bull-researcher': 'Bull Researcher',
-    'agent-bear-researcher': 'Bear Researcher',
-    'agent-risky-analyst': 'Risky Analyst',
-    'agent-safe-analyst': 'Safe Analyst',
-    'agent-neutral-analyst': 'Neutral Analyst',
-    'agent-risk-manager': 'Risk Manager',
-    'agent-trader': 'Trader',
-    'agent-portfolio-manager': 'Portfolio Manager'
-  };
-  
-  return nameMap[agentFunctionName] || agentFunctionName;
-}
\ No newline at end of file
@@ -1,6 +1,20 @@
+import { formatPortfolioRiskForAI, SECTOR_CONCENTRATION_LIMIT } from '../../_shared/portfolioRisk.ts';
+
 type PortfolioIntent = 'BUILD' | 'ADD' | 'TRIM' | 'EXIT' | 'HOLD';
 type TradeDirection = 'BUY' | 'SELL' | 'HOLD';
 
+/**
+ * Levels of the Trader's plan stored in full_analysis.tradingPlan
+ */
+export interface TraderPlanLevels {
+  hasError?: boolean;
+  entryPrice?: string | number;
+  entryRange?: string | { min: number; max: number };
+  stopLoss?: string | number;
+  targets?: { price: number; allocation?: string; description?: string }[];
+  riskRewardRatio?: string;
+}
+
 export function generateIndividualAnalysisPrompt(
   ticker: string,
   totalValue: number,
@@ -23,7 +37,8 @@ export function generateIndividualAnalysisPrompt(
   hasPendingBuy: boolean,
   defaultPositionSize: number = 1000,
   allowedCash: number = availableCash,
-  targetCashAllocationPercent: number = 20
+  targetCashAllocationPercent: number = 20,
+  tradingPlan: TraderPlanLevels | null = null
 ): string {
   const safePendingOrders = Array.isArray(pendingOrdersForTicker) ? pendingOrdersForTicker : [];
   const safePendingOrdersInfo = typeof pendingOrdersInfo === 'string' ? pendingOrdersInfo : '';
@@ -119,6 +134,28 @@ export function generateIndividualAnalysisPrompt(
     }
   })();
 
+  // Entry/exit levels from the Trader's plan (already reviewed by the Risk Manager)
+  const planTargets = Array.isArray(tradingPlan?.targets)
+    ? tradingPlan.targets.map(target => `$${target.price} (${target.description || target.allocation || 'target'})`).join(', ')
+    : '';
+  const executionLevels = tradingPlan && !tradingPlan.hasError
+    ? `
+  EXECUTION LEVELS (Trader plan reviewed by Risk Manager):
+  - Entry: ${tradingPlan.entryPrice || 'N/A'}${tradingPlan.entryRange ? ` (range ${tradingPlan.entryRange})` : ''}
+  - Stop Loss: ${tradingPlan.stopLoss || 'N/A'}
+  - Targets: ${planTargets || 'N/A'}
+  - Risk/Reward: ${tradingPlan.riskRewardRatio || 'N/A'}
+  ${riskAssessment?.executionPlan?.note ? `- Risk Manager note: ${riskAssessment.executionPlan.note}` : ''}`
+    : '';
+
+  // Beta, VaR, correlation and sector exposure computed by the Risk Manager
+  const portfolioRiskSection = riskAssessment?.portfolioRisk
+    ? `
+  PORTFOLIO RISK (beta vs SPY, 1-day VaR, correlations, sector exposure):
+  ${formatPortfolioRiskForAI(riskAssessment.portfolioRisk).split('\n').join('\n  ')}
+  - Scale BUY/ADD amounts down when they deepen a sector above ${SECTOR_CONCENTRATION_LIMIT * 100}%, raise beta or add a highly correlated holding`
+    : '';
+
   return `
   PORTFOLIO MANAGER - Individual Stock Decision for ${ticker}${safePendingOrdersInfo}
 
@@ -141,6 +178,8 @@ export function generateIndividualAnalysisPrompt(
   
   OPERATING DIRECTIVE FOR THIS DECISION:
   ${intentDirective}
+${executionLevels}
+${portfolioRiskSection}
 
   POSITION SIZING GUIDE FOR ${userRiskLevel.toUpperCase()} USER:
   ${(() => {
@@ -198,14 +237,24 @@ export function generateIndividualAnalysisPrompt(
     : ''}
   
   OUTPUT FORMAT (one line only):
-  [ACTION] $[amount] worth ${ticker}
-  
-  Examples: BUY $3000 worth ${ticker} | SELL $2000 worth ${ticker} | HOLD ${ticker}
+  [ACTION] $[amount] worth ${ticker} [; ORDER TYPE] [; TIME IN FORCE] [; TP $price] [; SL $price]
+
+  ORDER INSTRUCTIONS (optional, omit for a market day order):
+  - Order type: MARKET, LIMIT $price, STOP $price or STOP_LIMIT $stop $limit
+  - Time in force: DAY or GTC
+  - TP/SL attach take-profit and stop-loss legs to BUY orders only; derive them from the execution levels above
+  - Use a LIMIT near the entry range when the Risk Manager prefers staged or patient entries
+
+  Examples:
+  BUY $3000 worth ${ticker}
+  BUY $3000 worth ${ticker}; LIMIT $${(currentPrice * 0.99).toFixed(2)}; GTC; TP $${(currentPrice * 1.10).toFixed(2)}; SL $${(currentPrice * 0.95).toFixed(2)}
+  SELL $2000 worth ${ticker}
+  HOLD ${ticker}
   `;
 }
 
 export function generateIndividualSystemPrompt(): string {
-  return `You make quick portfolio decisions for individual stock analysis. Output format: [ACTION] $[amount] worth [TICKER]
+  return `You make quick portfolio decisions for individual stock analysis. Output format: [ACTION] $[amount] worth [TICKER], optionally followed by order instructions (order type, time in force, TP/SL legs)
 
 DECISION HIERARCHY:
 1. If pending orders exist → always HOLD
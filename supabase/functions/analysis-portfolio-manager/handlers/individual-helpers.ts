@@ -1,10 +1,59 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { updateAnalysisPhase, updateAgentInsights, appendAnalysisMessage, updateWorkflowStepStatus } from '../../_shared/atomicUpdate.ts';
-import { submitTradeOrders } from '../../_shared/tradeOrders.ts';
+import { submitTradeOrders, TradeOrderData } from '../../_shared/tradeOrders.ts';
 import { createTradeOrder, PortfolioIntent } from './individual-logic.ts';
 import { IndividualAnalysisResponse } from './individual-types.ts';
 import { ANALYSIS_STATUS } from '../../_shared/statusTypes.ts';
 import { notifyCoordinatorAsync } from '../../_shared/coordinatorNotification.ts';
 import { validateSellOrder, adjustTradeOrderForValidation } from '../../_shared/positionManagement.ts';
+import { summarizeOptionOrder } from './option-orders.ts';
+import { describeRiskViolations, evaluatePreTradeRisk, isRiskCheckUnavailable, RiskCheckSettings } from '../../_shared/riskLimits.ts';
+
+/**
+ * Check an order against the user's hard risk limits; a blocked order keeps its violations
+ * and is stored as rejected by submitTradeOrders. When the check cannot run the order stays
+ * pending, since execute-trade checks again before sending it.
+ */
+async function applyRiskLimits(
+  supabase: SupabaseClient,
+  analysisId: string,
+  userId: string,
+  apiSettings: RiskCheckSettings,
+  order: TradeOrderData
+): Promise<void> {
+  if (order.action === 'HOLD') {
+    return;
+  }
+
+  // Option contracts cover 100 shares; a market option order has no price to size it by
+  const orderValue = order.option
+    ? (order.shares || 0) * 100 * (order.execution?.limitPrice || 0)
+    : order.dollarAmount || Math.abs(order.valueChange || 0);
+  const violations = await evaluatePreTradeRisk(supabase, userId, apiSettings, {
+    ticker: order.ticker,
+    action: order.action,
+    orderValue
+  });
+  if (violations.length === 0) {
+    return;
+  }
+  if (isRiskCheckUnavailable(violations)) {
+    // Not a violation: the order stays pending and execute-trade checks the limits again
+    await appendAnalysisMessage(
+      supabase, analysisId, 'Analysis Portfolio Manager',
+      `Risk limits for the ${order.action} order for ${order.ticker} could not be checked now - ${describeRiskViolations(violations)}. They are checked again when the order is executed.`,
+      'warning'
+    );
+    return;
+  }
+
+  order.riskViolations = violations;
+  await appendAnalysisMessage(
+    supabase, analysisId, 'Analysis Portfolio Manager',
+    `${order.action} order for ${order.ticker} blocked by risk limits - ${describeRiskViolations(violations)}`,
+    'warning'
+  );
+}
 
 export async function executeTradeOrder(
   supabase: any,
@@ -23,7 +72,8 @@ export async function executeTradeOrder(
   userSettings: any,
   userId: string,
   apiSettings: any,
-  analysisContext?: any
+  analysisContext?: unknown,
+  optionOrder?: TradeOrderData | null
 ): Promise<Response> {
   // Create trade order
   let tradeOrder = createTradeOrder(
@@ -44,7 +94,7 @@ export async function executeTradeOrder(
     return buildHoldResponse(
       supabase, analysisId, ticker, 'HOLD', 'HOLD', riskIntent, originalDecision,
       availableCash, currentPosition, totalValue, userSettings.userRiskLevel,
-      userId, apiSettings, analysisContext
+      userId, apiSettings, analysisContext, optionOrder
     );
   }
 
@@ -69,7 +119,7 @@ export async function executeTradeOrder(
       return buildHoldResponse(
         supabase, analysisId, ticker, 'HOLD', 'HOLD', riskIntent, originalDecision,
         availableCash, currentPosition, totalValue, userSettings.userRiskLevel,
-        userId, apiSettings, analysisContext
+        userId, apiSettings, analysisContext, optionOrder
       );
     }
     
@@ -95,18 +145,29 @@ export async function executeTradeOrder(
     console.log(`💰 Order type: Dollar-based ($${tradeOrder.dollarAmount?.toFixed(2)})`);
   }
 
-  // Submit trade order
-  const result = await submitTradeOrders(supabase, tradeOrder, {
+  // Carry the Portfolio Manager's order type, time in force and TP/SL legs
+  if (positionSizing.execution) {
+    tradeOrder.execution = positionSizing.execution;
+  }
+
+  await applyRiskLimits(supabase, analysisId, userId, apiSettings, tradeOrder);
+  if (optionOrder) {
+    await applyRiskLimits(supabase, analysisId, userId, apiSettings, optionOrder);
+  }
+
+  // Submit trade order, together with the option order so the per-analysis duplicate check sees one batch
+  const result = await submitTradeOrders(supabase, optionOrder ? [tradeOrder, optionOrder] : tradeOrder, {
     userId,
     sourceType: 'individual_analysis',
-    agent: 'analysis-portfolio-manager'
+    agent: 'analysis-portfolio-manager',
+    brokerAccountId: apiSettings.broker_account_id
   });
 
   // Update agent insights
   await updatePortfolioManagerInsights(
     supabase, analysisId, effectiveIntent, tradeDirection, originalDecision,
     positionSizing, tradeOrder, totalValue, availableCash,
-    currentPosition, userSettings.userRiskLevel, result
+    currentPosition, userSettings.userRiskLevel, result, optionOrder
   );
 
   console.log(`✅ Analysis Portfolio Manager completed: ${effectiveIntent} (${tradeDirection}) ${ticker}`);
@@ -185,6 +246,33 @@ export async function executeTradeOrder(
   });
 }
 
+/**
+ * Rebalance request still waiting on this analysis, if the analysis was started by one
+ */
+export async function findAnalyzingRebalance(supabase: SupabaseClient, analysisId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('rebalance_requests')
+    .select('id')
+    .eq('status', 'analyzing')
+    .contains('analysis_ids', [analysisId])
+    .limit(1);
+
+  return data?.[0]?.id || null;
+}
+
+/**
+ * Let rebalance-coordinator build the batch once all of its analyses are done
+ */
+export async function notifyRebalanceCoordinator(supabase: SupabaseClient, analysisId: string) {
+  const { error } = await supabase.functions.invoke('rebalance-coordinator', {
+    body: { action: 'analysis-completed', analysisId }
+  });
+
+  if (error) {
+    console.error(`❌ Failed to notify rebalance-coordinator for analysis ${analysisId}:`, error);
+  }
+}
+
 export async function buildHoldResponse(
   supabase: any,
   analysisId: string,
@@ -199,8 +287,24 @@ export async function buildHoldResponse(
   userRiskLevel: string,
   userId: string,
   apiSettings: any,
-  analysisContext?: any
+  analysisContext?: unknown,
+  optionOrder?: TradeOrderData | null
 ): Promise<Response> {
+  // No share order, but an option overlay on the existing shares may still be placed
+  let optionResult: { success: boolean; ordersCreated: number; error?: string } | null = null;
+  if (optionOrder) {
+    await applyRiskLimits(supabase, analysisId, userId, apiSettings, optionOrder);
+    optionResult = await submitTradeOrders(supabase, optionOrder, {
+      userId,
+      sourceType: 'individual_analysis',
+      agent: 'analysis-portfolio-manager',
+      brokerAccountId: apiSettings.broker_account_id
+    });
+    if (optionResult.ordersCreated > 0 && !optionOrder.riskViolations) {
+      await appendAnalysisMessage(supabase, analysisId, 'Analysis Portfolio Manager', optionOrder.reasoning, 'decision');
+    }
+  }
+
   // Update workflow status
   await updateWorkflowStepStatus(supabase, analysisId, 'portfolio', 'Analysis Portfolio Manager', 'completed');
   
@@ -239,7 +343,8 @@ export async function buildHoldResponse(
       availableCash,
       currentPosition,
       userRiskLevel
-    }
+    },
+    optionOrder: optionResult?.ordersCreated ? summarizeOptionOrder(optionOrder) : null
   });
 
   // Notify coordinator of completion - coordinator will mark as complete after auto-trade check
@@ -299,7 +404,8 @@ async function updatePortfolioManagerInsights(
   availableCash: number,
   currentPosition: any,
   userRiskLevel: string,
-  result: any
+  result: { success: boolean; ordersCreated: number },
+  optionOrder?: TradeOrderData | null
 ) {
   const { data: currentInsights } = await supabase
     .from('analysis_history')
@@ -322,6 +428,8 @@ async function updatePortfolioManagerInsights(
       stopLoss: positionSizing.stopLoss,
       takeProfit: positionSizing.takeProfit,
       riskRewardRatio: positionSizing.riskRewardRatio,
+      execution: tradeOrder.execution,
+      riskViolations: tradeOrder.riskViolations || null,
       reasoning: positionSizing.reasoning,
       beforePosition: {
         shares: tradeOrder.beforeShares,
@@ -345,6 +453,7 @@ async function updatePortfolioManagerInsights(
       currentPosition,
       userRiskLevel
     },
+    optionOrder: result.ordersCreated > 0 ? summarizeOptionOrder(optionOrder) : null,
     orderSubmitted: result.success,
     ordersCreated: result.ordersCreated
   });
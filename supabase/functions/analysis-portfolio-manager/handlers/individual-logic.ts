@@ -49,11 +49,21 @@ export async function prepareUserSettings(
   let maxPositionSizeDollars: number;
   
   // Note: constraints are never passed from coordinator, always use database settings
-  const { data: userSettings } = await supabase
-    .from('api_settings')
-    .select('user_risk_level, rebalance_min_position_size, rebalance_max_position_size, target_cash_allocation')
-    .eq('user_id', userId)
-    .single();
+  // (a broker account brings its own, already applied to apiSettings by the coordinator)
+  const { data: userSettings } = apiSettings.broker_account_id
+    ? {
+      data: {
+        user_risk_level: apiSettings.user_risk_level,
+        rebalance_min_position_size: apiSettings.default_min_position_size,
+        rebalance_max_position_size: apiSettings.default_max_position_size,
+        target_cash_allocation: apiSettings.target_cash_allocation
+      }
+    }
+    : await supabase
+      .from('api_settings')
+      .select('user_risk_level, rebalance_min_position_size, rebalance_max_position_size, target_cash_allocation')
+      .eq('user_id', userId)
+      .single();
   
   userRiskLevel = userSettings?.user_risk_level || apiSettings.user_risk_level || 'moderate';
   
@@ -1,7 +1,8 @@
 import { updateAnalysisPhase, updateAgentInsights, appendAnalysisMessage, setAgentToError } from '../../_shared/atomicUpdate.ts';
 import { callAIProviderWithRetry } from '../../_shared/aiProviders.ts';
+import { AIUsageContext } from '../../_shared/aiUsage.ts';
 import { extractPositionSizing } from '../parsers/position-parser.ts';
-import { generateIndividualAnalysisPrompt, generateIndividualSystemPrompt, generateIndividualReasoningPrompt, generateReasoningSystemPrompt } from '../ai/prompts.ts';
+import { generateIndividualAnalysisPrompt, generateIndividualSystemPrompt, generateIndividualReasoningPrompt, generateReasoningSystemPrompt, TraderPlanLevels } from '../ai/prompts.ts';
 import { 
   prepareUserSettings, 
   adjustConfidenceForRiskLevel, 
@@ -10,6 +11,8 @@ import {
   normaliseIntent
 } from './individual-logic.ts';
 import { calculateAllowedCash } from '../../_shared/portfolio/cash-constraints.ts';
+import { OrderExecutionParams } from '../../_shared/tradeOrders.ts';
+import { buildOptionTradeOrder } from './option-orders.ts';
 
 /**
  * Rounds a dollar amount to the nearest default position size increment.
@@ -40,17 +43,34 @@ function roundToDefaultPositionSize(amount: number, defaultPositionSize: number
   return rounded;
 }
 
+/**
+ * Formats non-default order instructions in the same "; " separated form the AI is asked to use
+ */
+function formatOrderInstructions(execution?: OrderExecutionParams): string {
+  if (!execution) return '';
+
+  const parts: string[] = [];
+  if (execution.orderType === 'limit') parts.push(`LIMIT $${execution.limitPrice}`);
+  if (execution.orderType === 'stop') parts.push(`STOP $${execution.stopPrice}`);
+  if (execution.orderType === 'stop_limit') parts.push(`STOP_LIMIT $${execution.stopPrice} $${execution.limitPrice}`);
+  if (execution.timeInForce !== 'day') parts.push(execution.timeInForce.toUpperCase());
+  if (execution.takeProfitPrice) parts.push(`TP $${execution.takeProfitPrice}`);
+  if (execution.stopLossPrice) parts.push(`SL $${execution.stopLossPrice}`);
+
+  return parts.map(part => `; ${part}`).join('');
+}
+
 /**
  * Reconstructs the decision message based on the final action after all modifications
  * This ensures the displayed decision matches what's actually executed
  */
-function reconstructDecisionMessage(action: string, dollarAmount: number, ticker: string): string {
+function reconstructDecisionMessage(action: string, dollarAmount: number, ticker: string, execution?: OrderExecutionParams): string {
   if (action === 'HOLD') {
     return `HOLD ${ticker}`;
   } else if (action === 'BUY') {
-    return `BUY $${Math.round(dollarAmount)} worth ${ticker}`;
+    return `BUY $${Math.round(dollarAmount)} worth ${ticker}${formatOrderInstructions(execution)}`;
   } else if (action === 'SELL') {
-    return `SELL $${Math.round(dollarAmount)} worth ${ticker}`;
+    return `SELL $${Math.round(dollarAmount)} worth ${ticker}${formatOrderInstructions(execution)}`;
   }
   return `HOLD ${ticker}`; // Default fallback
 }
@@ -64,6 +84,7 @@ export async function processAnalysisData(
   apiSettings: any,
   portfolioData: any
 ): Promise<{ success: boolean; data?: any; error?: string; status?: number }> {
+  const usageContext: AIUsageContext = { supabase, userId, analysisId, agent: 'Portfolio Manager' };
   
   await updateAnalysisPhase(supabase, analysisId, 'portfolio', {
     agent: 'Analysis Portfolio Manager',
@@ -76,6 +97,7 @@ export async function processAnalysisData(
   const decision = analysis.decision;
   let confidence = analysis.confidence;
   const riskAssessment = analysis.agent_insights?.riskManager?.finalAssessment;
+  const tradingPlan = analysis.full_analysis?.tradingPlan || null;
 
   const analysisContext =
     analysis.full_analysis?.analysisContext ??
@@ -172,7 +194,8 @@ export async function processAnalysisData(
     ticker, totalValue, availableCash, currentPosition, userSettings,
     decision, effectiveIntent, tradeDirection, confidence, originalConfidence, riskAssessment,
     currentPrice, pendingOrdersInfo, pendingOrdersForTicker, intentWarning,
-    pendingOrderOverride, hasPendingBuy, apiSettings, allowedCash, targetCashAllocationPercent
+    pendingOrderOverride, hasPendingBuy, apiSettings, allowedCash, targetCashAllocationPercent,
+    tradingPlan, usageContext
   );
   
   if (!aiAnalysisResult.success) {
@@ -316,7 +339,7 @@ export async function processAnalysisData(
   console.log(`🎯 Analysis Portfolio Manager's final decision: ${portfolioManagerDecision} (Risk Manager said: ${decision})`);
 
   // Now reconstruct the decision message based on the FINAL action (after cash constraints)
-  const updatedDecision = reconstructDecisionMessage(portfolioManagerDecision, finalDollarAmount, ticker);
+  const updatedDecision = reconstructDecisionMessage(portfolioManagerDecision, finalDollarAmount, ticker, positionSizing.execution);
   console.log(`📝 Updated decision to reflect final action: "${updatedDecision}"`);
   
   // Generate NEW reasoning based on the UPDATED decision
@@ -333,7 +356,7 @@ export async function processAnalysisData(
       const reasoningMaxTokens = apiSettings.portfolio_manager_max_tokens || 1200;
       
       console.log(`📝 Generating updated reasoning based on final decision with ${reasoningMaxTokens} max tokens`);
-      updatedReasoning = await callAIProviderWithRetry(aiAnalysisResult.pmApiSettings || apiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens, 3);
+      updatedReasoning = await callAIProviderWithRetry(aiAnalysisResult.pmApiSettings || apiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens, 3, undefined, undefined, usageContext);
     } catch (reasoningError) {
       console.error('❌ Failed to generate updated reasoning:', reasoningError);
       updatedReasoning = positionSizing.reasoning || `Portfolio decision: ${updatedDecision}`;
@@ -374,7 +397,8 @@ ${updatedReasoning}`
       combinedResponse, // Include the updated response
       allowedCash,
       targetCashAllocationPercent,
-      analysisContext
+      analysisContext,
+      riskAssessment
     }
   };
 }
@@ -385,7 +409,8 @@ async function generateAIAnalysis(
   confidence: number, originalConfidence: number, riskAssessment: any, currentPrice: number,
   pendingOrdersInfo: string, pendingOrdersForTicker: any[], intentWarning: string,
   pendingOrderOverride: string, hasPendingBuy: boolean, apiSettings: any,
-  allowedCash: number, targetCashAllocationPercent: number
+  allowedCash: number, targetCashAllocationPercent: number, tradingPlan: TraderPlanLevels | null,
+  usageContext: AIUsageContext
 ): Promise<{ success: boolean; aiResponse?: string; combinedResponse?: string; agentError?: string; pmApiSettings?: any }> {
   
   // Prepare AI prompt
@@ -399,7 +424,7 @@ async function generateAIAnalysis(
     currentPrice, maxPositionSizeDollars, minPositionSizeDollars,
     pendingOrdersInfo, pendingOrdersForTicker,
     intentWarning, pendingOrderOverride, hasPendingBuy, defaultPositionSizeDollars,
-    allowedCash, targetCashAllocationPercent
+    allowedCash, targetCashAllocationPercent, tradingPlan
   );
 
   const systemPrompt = generateIndividualSystemPrompt();
@@ -416,7 +441,7 @@ async function generateAIAnalysis(
     const baseTokens = apiSettings.portfolio_manager_max_tokens || 1200;
     const decisionTokens = Math.floor(baseTokens / 2);
     console.log(`📝 Using ${decisionTokens} max tokens for portfolio analysis (1/2 of ${baseTokens})`);
-    aiResponse = await callAIProviderWithRetry(pmApiSettings, prompt, systemPrompt, decisionTokens, 3);
+    aiResponse = await callAIProviderWithRetry(pmApiSettings, prompt, systemPrompt, decisionTokens, 3, undefined, undefined, usageContext);
   } catch (aiError) {
     console.error('❌ AI provider call failed:', aiError);
     agentError = aiError.message || 'Failed to get AI response';
@@ -436,7 +461,7 @@ async function generateAIAnalysis(
       const reasoningMaxTokens = apiSettings.portfolio_manager_max_tokens || 1200;
       
       console.log(`📝 Generating detailed reasoning with ${reasoningMaxTokens} max tokens`);
-      detailedReasoning = await callAIProviderWithRetry(pmApiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens, 3);
+      detailedReasoning = await callAIProviderWithRetry(pmApiSettings, reasoningPrompt, reasoningSystemPrompt, reasoningMaxTokens, 3, undefined, undefined, usageContext);
     } catch (reasoningError) {
       console.error('❌ Failed to generate detailed reasoning:', reasoningError);
       detailedReasoning = `Unable to generate detailed reasoning: ${reasoningError.message}`;
@@ -483,7 +508,8 @@ export async function executeAnalysisDecision(
     availableCash,
     userSettings,
     pendingOrdersForTicker,
-    analysisContext
+    analysisContext,
+    riskAssessment
   } = analysisData;
 
   const preTradeHasPosition = Boolean(currentPosition && currentPosition.qty > 0 && currentPosition.market_value > 0);
@@ -495,6 +521,29 @@ export async function executeAnalysisDecision(
       : 'HOLD';
   const riskIntent = normaliseIntent(originalDecision, preTradeHasPosition);
 
+  // Analyses started by a rebalance only inform the batch; rebalance-coordinator creates the orders
+  const { findAnalyzingRebalance, notifyRebalanceCoordinator } = await import('./individual-helpers.ts');
+  const rebalanceRequestId = await findAnalyzingRebalance(supabase, analysisId);
+  if (rebalanceRequestId) {
+    console.log(`⚖️ ${ticker} analysis belongs to rebalance ${rebalanceRequestId} - deferring order creation`);
+
+    await appendAnalysisMessage(
+      supabase, analysisId, 'Analysis Portfolio Manager',
+      `Part of a portfolio rebalance: no individual order created. The ${originalDecision} decision is applied to the rebalance batch.`,
+      'info'
+    );
+
+    const { buildHoldResponse } = await import('./individual-helpers.ts');
+    const response = await buildHoldResponse(
+      supabase, analysisId, ticker, 'HOLD', 'HOLD',
+      riskIntent, originalDecision,
+      availableCash, currentPosition, totalValue, userSettings.userRiskLevel,
+      userId, apiSettings, analysisContext
+    );
+    await notifyRebalanceCoordinator(supabase, analysisId);
+    return response;
+  }
+
   // Safety check for pending orders - only block if there REALLY are pending orders
   if (pendingOrdersForTicker && pendingOrdersForTicker.length > 0) {
     console.log(`🚨 SAFETY CHECK: ${ticker} has ${pendingOrdersForTicker.length} pending order(s) - blocking order creation`);
@@ -520,6 +569,12 @@ export async function executeAnalysisDecision(
     console.log(`✅ No pending orders blocking ${ticker} - proceeding with order creation`);
   }
 
+  // Covered call or protective put proposed by the Risk Manager, submitted with any share order
+  const optionOrder = await buildOptionTradeOrder(
+    supabase, userId, analysisId, ticker, riskAssessment, portfolioData,
+    currentPosition, tradeDirection, confidence
+  );
+
   // Execute trade if needed
   const shouldExecuteTrade = 
     (tradeDirection === 'BUY' && positionSizing.dollarAmount > 0) ||
@@ -532,7 +587,7 @@ export async function executeAnalysisDecision(
       riskIntent, originalDecision,
       positionSizing, confidence, currentPosition, currentPrice,
       totalValue, availableCash, userSettings, userId, apiSettings,
-      analysisContext
+      analysisContext, optionOrder
     );
   }
 
@@ -542,6 +597,6 @@ export async function executeAnalysisDecision(
     supabase, analysisId, ticker, effectiveIntent, tradeDirection,
     riskIntent, originalDecision,
     availableCash, currentPosition, totalValue, userSettings.userRiskLevel,
-    userId, apiSettings, analysisContext
+    userId, apiSettings, analysisContext, optionOrder
   );
 }
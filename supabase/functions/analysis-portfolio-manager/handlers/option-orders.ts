@@ -0,0 +1,163 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { TradeOrderData } from '../../_shared/tradeOrders.ts';
+import { invokeOptionsChain, parseOccSymbol, selectOptionContract, OptionType } from '../../_shared/optionsChain.ts';
+
+const CONTRACT_MULTIPLIER = 100;
+const DTE_WINDOW = 14;
+
+// Option overlay proposed by the Risk Manager (OptionProposal in agent-risk-manager)
+interface OptionProposal {
+  strategy: 'covered_call' | 'protective_put' | 'none';
+  contracts: number;
+  targetDte?: number;
+  targetDelta?: number;
+  rationale?: string;
+}
+
+// Alpaca position fields read when counting the contracts already open and valuing the shares
+interface HeldPosition {
+  symbol?: string;
+  qty?: number | string;
+  side?: string;
+  market_value?: number;
+}
+
+/**
+ * Options tick size: $0.05 at or above $3, $0.01 below
+ */
+function roundOptionPrice(price: number): number {
+  const tick = price >= 3 ? 0.05 : 0.01;
+  return Math.max(tick, Math.round(price / tick) * tick);
+}
+
+/**
+ * Contracts of one type already held on the underlying: short calls already cover shares,
+ * long puts already protect them
+ */
+function countExistingContracts(positions: HeldPosition[] | undefined, ticker: string, type: OptionType): number {
+  return (positions || []).reduce((total, position) => {
+    const contract = parseOccSymbol(position.symbol || '');
+    if (!contract || contract.underlying !== ticker || contract.type !== type) {
+      return total;
+    }
+
+    const qty = Number(position.qty) || 0;
+    const isShort = position.side === 'short' || qty < 0;
+    if ((type === 'call' && isShort) || (type === 'put' && !isShort)) {
+      return total + Math.abs(qty);
+    }
+    return total;
+  }, 0);
+}
+
+/**
+ * Resolve the Risk Manager's option proposal to a concrete single-leg order
+ * Covered calls and protective puts are limited to the round lots held and not yet covered,
+ * and are skipped when the equity decision sells shares. Returns null when no order fits.
+ */
+export async function buildOptionTradeOrder(
+  supabase: SupabaseClient,
+  userId: string,
+  analysisId: string,
+  ticker: string,
+  riskAssessment: { optionProposal?: OptionProposal | null } | null,
+  portfolioData: { positions?: HeldPosition[] } | null,
+  currentPosition: HeldPosition | null,
+  tradeDirection: 'BUY' | 'SELL' | 'HOLD',
+  confidence: number
+): Promise<TradeOrderData | null> {
+  const proposal = riskAssessment?.optionProposal;
+  if (!proposal || proposal.strategy === 'none') {
+    return null;
+  }
+
+  if (tradeDirection === 'SELL') {
+    console.log(`📜 Skipping ${proposal.strategy} on ${ticker}: shares are being sold`);
+    return null;
+  }
+
+  const optionType: OptionType = proposal.strategy === 'covered_call' ? 'call' : 'put';
+  const sharesHeld = Number(currentPosition?.qty) || 0;
+  const existingContracts = countExistingContracts(portfolioData?.positions, ticker, optionType);
+  const availableContracts = Math.floor(sharesHeld / CONTRACT_MULTIPLIER) - existingContracts;
+  const contracts = Math.min(Math.floor(proposal.contracts), availableContracts);
+
+  if (contracts < 1) {
+    console.log(`📜 Skipping ${proposal.strategy} on ${ticker}: ${sharesHeld} shares held, ${existingContracts} contract(s) already open`);
+    return null;
+  }
+
+  const targetDte = Number(proposal.targetDte) || 30;
+  const targetDelta = Number(proposal.targetDelta) || (optionType === 'call' ? 0.3 : 0.25);
+  const options = await invokeOptionsChain(supabase, userId, ticker, {
+    minDte: Math.max(1, targetDte - DTE_WINDOW),
+    maxDte: targetDte + DTE_WINDOW
+  });
+  const contract = options ? selectOptionContract(options.chain, { type: optionType, targetDte, targetDelta }) : null;
+
+  if (!contract) {
+    console.log(`📜 Skipping ${proposal.strategy} on ${ticker}: no quoted ${optionType} near ${targetDte} DTE`);
+    return null;
+  }
+
+  const limitPrice = roundOptionPrice((contract.bid! + contract.ask!) / 2);
+  const action = proposal.strategy === 'covered_call' ? 'SELL' : 'BUY';
+  const premium = limitPrice * CONTRACT_MULTIPLIER * contracts;
+  const label = proposal.strategy === 'covered_call' ? 'covered call' : 'protective put';
+
+  console.log(`📜 ${action} ${contracts} x ${contract.symbol} (${label}, ${contract.dte} DTE, delta ${contract.delta}) @ $${limitPrice}`);
+
+  return {
+    ticker,
+    action,
+    shares: contracts,
+    confidence,
+    reasoning: `${action === 'SELL' ? 'Sell' : 'Buy'} ${contracts} ${label}${contracts > 1 ? 's' : ''} ${contract.expiration} $${contract.strike} ` +
+      `(${contract.dte} DTE, ~${Math.abs(contract.delta!).toFixed(2)} delta) for ~$${premium.toFixed(0)} premium. ${proposal.rationale || ''}`.trim(),
+    analysisId,
+    option: {
+      symbol: contract.symbol,
+      type: optionType,
+      strike: contract.strike,
+      expiration: contract.expiration,
+      strategy: proposal.strategy
+    },
+    execution: {
+      orderType: 'limit',
+      timeInForce: 'day',
+      limitPrice
+    },
+    metadata: {
+      option: {
+        strategy: proposal.strategy,
+        dte: contract.dte,
+        delta: contract.delta,
+        impliedVolatility: contract.impliedVolatility,
+        bid: contract.bid,
+        ask: contract.ask,
+        premium
+      }
+    },
+    beforeShares: sharesHeld,
+    beforeValue: currentPosition?.market_value || 0,
+    afterShares: sharesHeld,
+    afterValue: currentPosition?.market_value || 0
+  };
+}
+
+/**
+ * Option order as stored in the Portfolio Manager insight
+ */
+export function summarizeOptionOrder(order: TradeOrderData | null | undefined) {
+  if (!order?.option) {
+    return null;
+  }
+
+  return {
+    ...order.option,
+    action: order.action,
+    contracts: order.shares,
+    limitPrice: order.execution?.limitPrice ?? null,
+    reasoning: order.reasoning
+  };
+}
@@ -1,4 +1,73 @@
 import { PositionSizingResult } from '../types/interfaces.ts';
+import {
+  DEFAULT_ORDER_EXECUTION,
+  OrderExecutionParams,
+  validateOrderExecution
+} from '../../_shared/tradeOrders.ts';
+
+const PRICE = '\\$?([0-9,]+(?:\\.[0-9]+)?)';
+
+function toPrice(value: string | undefined): number | null {
+  if (!value) return null;
+  const price = parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/**
+ * Parse optional order instructions following the decision, e.g.
+ * "BUY $3000 worth AAPL; LIMIT $182.50; GTC; TP $200; SL $170"
+ * Invalid combinations fall back to a market day order.
+ */
+export function parseOrderInstructions(
+  decisionLine: string,
+  action: 'BUY' | 'SELL' | 'HOLD',
+  currentPrice: number
+): OrderExecutionParams {
+  if (action === 'HOLD') {
+    return { ...DEFAULT_ORDER_EXECUTION };
+  }
+
+  const execution: OrderExecutionParams = { ...DEFAULT_ORDER_EXECUTION };
+
+  const stopLimitMatch = decisionLine.match(new RegExp(`\\bSTOP[_ -]LIMIT\\s+${PRICE}\\s+${PRICE}`, 'i'));
+  const limitMatch = decisionLine.match(new RegExp(`\\bLIMIT\\s+${PRICE}`, 'i'));
+  const stopMatch = decisionLine.match(new RegExp(`\\bSTOP\\s+${PRICE}`, 'i'));
+
+  if (stopLimitMatch) {
+    execution.orderType = 'stop_limit';
+    execution.stopPrice = toPrice(stopLimitMatch[1]);
+    execution.limitPrice = toPrice(stopLimitMatch[2]);
+  } else if (limitMatch) {
+    execution.orderType = 'limit';
+    execution.limitPrice = toPrice(limitMatch[1]);
+  } else if (stopMatch) {
+    execution.orderType = 'stop';
+    execution.stopPrice = toPrice(stopMatch[1]);
+  }
+
+  if (/\bGTC\b/i.test(decisionLine)) {
+    execution.timeInForce = 'gtc';
+  }
+
+  const takeProfitMatch = decisionLine.match(new RegExp(`\\bTP\\s+${PRICE}`, 'i'));
+  const stopLossMatch = decisionLine.match(new RegExp(`\\bSL\\s+${PRICE}`, 'i'));
+  execution.takeProfitPrice = toPrice(takeProfitMatch?.[1]);
+  execution.stopLossPrice = toPrice(stopLossMatch?.[1]);
+
+  const validationError = validateOrderExecution(action, execution, currentPrice);
+  if (validationError) {
+    console.log(`⚠️ Ignoring order instructions "${decisionLine.trim()}": ${validationError} - using market day order`);
+    return { ...DEFAULT_ORDER_EXECUTION };
+  }
+
+  if (execution.orderType !== 'market' || execution.takeProfitPrice || execution.stopLossPrice) {
+    console.log(`📝 Order instructions: ${execution.orderType.toUpperCase()} ${execution.timeInForce.toUpperCase()}` +
+      `${execution.limitPrice ? ` limit $${execution.limitPrice}` : ''}${execution.stopPrice ? ` stop $${execution.stopPrice}` : ''}` +
+      `${execution.takeProfitPrice ? ` TP $${execution.takeProfitPrice}` : ''}${execution.stopLossPrice ? ` SL $${execution.stopLossPrice}` : ''}`);
+  }
+
+  return execution;
+}
 
 export function parsePositionSizing(aiResponse: string, context: any): PositionSizingResult {
   // NO REGEX PARSING - rely on extraction agent for accurate values
@@ -129,6 +198,7 @@ export async function extractPositionSizing(aiResponse: string, context: any, ap
   let action = 'HOLD';
   let dollarAmount = 0;
   let ticker = context.ticker;
+  let decisionLine = '';
   
   // Try to match trade pattern first (BUY/SELL with amount)
   const tradeMatch = aiResponse.match(tradePattern);
@@ -136,6 +206,7 @@ export async function extractPositionSizing(aiResponse: string, context: any, ap
     action = tradeMatch[1].toUpperCase();
     dollarAmount = parseInt(tradeMatch[2].replace(/,/g, ''));
     ticker = tradeMatch[3].toUpperCase();
+    decisionLine = aiResponse.slice(tradeMatch.index || 0).split('\n')[0];
     console.log(`📝 Extracted from Analysis Portfolio Manager: ${action} $${dollarAmount} worth ${ticker}`);
   } else {
     // Try to match HOLD pattern
@@ -207,17 +278,21 @@ export async function extractPositionSizing(aiResponse: string, context: any, ap
     }
   }
   
+  // Order instructions only apply to the line that carried the trade
+  const execution = parseOrderInstructions(decisionLine, action as 'BUY' | 'SELL' | 'HOLD', context.currentPrice);
+
   // Return the parsed and validated position sizing
   return {
     action: action as 'BUY' | 'SELL' | 'HOLD',
     dollarAmount,
     shares: 0,
     percentOfPortfolio: (dollarAmount / context.totalValue) * 100,
-    entryPrice: context.currentPrice,
-    stopLoss: context.currentPrice * 0.95,
-    takeProfit: context.currentPrice * 1.10,
+    entryPrice: execution.limitPrice || execution.stopPrice || context.currentPrice,
+    stopLoss: execution.stopLossPrice || context.currentPrice * 0.95,
+    takeProfit: execution.takeProfitPrice || context.currentPrice * 1.10,
     riskRewardRatio: 2.0,
     reasoning: '', // Will be generated by reasoning step
-    adjustment: 'none'
+    adjustment: 'none',
+    execution
   };
 }
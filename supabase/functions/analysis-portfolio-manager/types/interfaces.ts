@@ -5,12 +5,14 @@ export interface AnalysisPortfolioManagerRequest {
   apiSettings: {
     ai_provider: string;
     ai_api_key: string;
+    ai_base_url?: string | null; // Only for openai-compatible providers
     ai_model?: string;
     alpaca_paper_api_key?: string;
     alpaca_paper_secret_key?: string;
     alpaca_live_api_key?: string;
     alpaca_live_secret_key?: string;
     alpaca_paper_trading?: boolean;
+    broker_account_id?: string;  // Analysis runs for this broker account instead of the primary one
     user_risk_level?: 'conservative' | 'moderate' | 'aggressive';
     default_position_size_dollars?: number;
     max_position_size?: number;
@@ -28,6 +30,8 @@ export interface AnalysisPortfolioManagerRequest {
 // Import shared portfolio types
 export type { AlpacaPortfolioData } from '../../_shared/portfolio/types.ts';
 
+import type { OrderExecutionParams } from '../../_shared/tradeOrders.ts';
+
 export interface PositionSizingResult {
   shares: number;
   dollarAmount: number;
@@ -39,4 +43,5 @@ export interface PositionSizingResult {
   reasoning: string;
   adjustment?: string;
   action?: 'BUY' | 'SELL' | 'HOLD';  // Added to track Analysis Portfolio Manager's actual decision
+  execution?: OrderExecutionParams;  // Order type, time in force and TP/SL legs from the decision line
 }
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { computeNextRunAt, validateScheduleConfig } from './schedule.ts';
+import { runDueSchedules } from './runner.ts';
+import { DeleteScheduleRequest, SaveScheduleRequest, SchedulerRequest } from './types.ts';
+
+/**
+ * Analysis Scheduler - recurring analyses for watchlist tickers
+ *
+ * Actions:
+ * - save-schedule / delete-schedule: called by the user from the watchlist
+ * - run-due: called every 5 minutes by the analysis-scheduler-run-due pg_cron job
+ *   (schema.sql) with the service role key, starts due runs via analysis-coordinator
+ */
+
+async function handleSaveSchedule(supabase: SupabaseClient, userId: string, body: SaveScheduleRequest): Promise<Response> {
+  const ticker = (body.ticker || '').trim().toUpperCase();
+  if (!/^[A-Z0-9.-]+$/.test(ticker)) {
+    return createErrorResponse('Invalid ticker symbol format', 400);
+  }
+
+  const validationError = validateScheduleConfig(body.frequency, body.runTime, body.dayOfWeek);
+  if (validationError) {
+    return createErrorResponse(validationError, 400);
+  }
+
+  const { data: watchlistItem } = await supabase
+    .from('watchlist')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('ticker', ticker)
+    .maybeSingle();
+
+  if (!watchlistItem) {
+    return createErrorResponse(`${ticker} must be in your watchlist to schedule analyses`, 400);
+  }
+
+  const enabled = body.enabled !== false;
+  const config = {
+    frequency: body.frequency,
+    day_of_week: body.frequency === 'weekly' ? body.dayOfWeek! : null,
+    run_time: body.runTime
+  };
+
+  const { data: schedule, error } = await supabase
+    .from('analysis_schedules')
+    .upsert({
+      user_id: userId,
+      ticker,
+      ...config,
+      enabled,
+      next_run_at: enabled ? computeNextRunAt(config).toISOString() : null
+    }, { onConflict: 'user_id,ticker' })
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`❌ Failed to save schedule for ${ticker}:`, error);
+    return createErrorResponse('Failed to save schedule', 500);
+  }
+
+  console.log(`🗓️ Saved ${config.frequency} schedule for ${ticker} (user ${userId}), next run ${schedule.next_run_at}`);
+  return createSuccessResponse({ schedule });
+}
+
+async function handleDeleteSchedule(supabase: SupabaseClient, userId: string, body: DeleteScheduleRequest): Promise<Response> {
+  const ticker = (body.ticker || '').trim().toUpperCase();
+
+  const { error } = await supabase
+    .from('analysis_schedules')
+    .delete()
+    .eq('user_id', userId)
+    .eq('ticker', ticker);
+
+  if (error) {
+    console.error(`❌ Failed to delete schedule for ${ticker}:`, error);
+    return createErrorResponse('Failed to delete schedule', 500);
+  }
+
+  return createSuccessResponse({ ticker });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const authHeader = req.headers.get('Authorization');
+    const body: SchedulerRequest = await req.json();
+
+    if (body.action === 'run-due') {
+      // Only the cron job may trigger runs for every user
+      if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+        return createErrorResponse('run-due requires the service role key', 401);
+      }
+
+      const outcomes = await runDueSchedules(supabase);
+      return createSuccessResponse({
+        processed: outcomes.length,
+        started: outcomes.filter(outcome => outcome.status === 'started').length,
+        outcomes
+      });
+    }
+
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+    if (authError || !userId) {
+      console.error('Authentication failed:', authError);
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    switch (body.action) {
+      case 'save-schedule':
+        return await handleSaveSchedule(supabase, userId, body);
+      case 'delete-schedule':
+        return await handleDeleteSchedule(supabase, userId, body);
+      default:
+        return createErrorResponse(`Unknown action: ${(body as { action?: string }).action}`, 400);
+    }
+
+  } catch (error) {
+    console.error('❌ Analysis scheduler error:', error);
+    return createErrorResponse((error instanceof Error && error.message) || 'Scheduler request failed', 500);
+  }
+});
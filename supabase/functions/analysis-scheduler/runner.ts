@@ -0,0 +1,188 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getMarketSession, getNYDate } from '../_shared/timezoneUtils.ts';
+import { getMarketHoliday } from '../_shared/tradingCalendar.ts';
+import { ANALYSIS_STATUS } from '../_shared/statusTypes.ts';
+import { computeNextRunAt } from './schedule.ts';
+import { AnalysisSchedule, ScheduleRunOutcome } from './types.ts';
+
+// Scheduled runs allowed per user per New York day (manual analyses are not counted)
+const MAX_SCHEDULED_RUNS_PER_DAY = Number(Deno.env.get('MAX_SCHEDULED_ANALYSES_PER_DAY') || 10);
+
+// Upper bound of schedules handled by one invocation so a backlog cannot time out the function
+const MAX_SCHEDULES_PER_RUN = 50;
+
+async function recordOutcome(supabase: SupabaseClient, schedule: AnalysisSchedule, outcome: ScheduleRunOutcome) {
+  const { error } = await supabase
+    .from('analysis_schedules')
+    .update({
+      last_status: outcome.status,
+      last_error: outcome.reason || null,
+      last_analysis_id: outcome.analysisId || schedule.last_analysis_id
+    })
+    .eq('id', schedule.id);
+
+  if (error) {
+    console.error(`❌ Failed to record schedule outcome for ${schedule.ticker}:`, error);
+  }
+}
+
+/**
+ * Claim a due schedule by moving next_run_at forward
+ * The update only matches while next_run_at is unchanged, so overlapping
+ * scheduler invocations cannot start the same run twice.
+ */
+async function claimSchedule(supabase: SupabaseClient, schedule: AnalysisSchedule, now: Date): Promise<boolean> {
+  const nextRunAt = computeNextRunAt(schedule, now);
+
+  const { data, error } = await supabase
+    .from('analysis_schedules')
+    .update({
+      next_run_at: nextRunAt.toISOString(),
+      last_run_at: now.toISOString()
+    })
+    .eq('id', schedule.id)
+    .eq('next_run_at', schedule.next_run_at)
+    .select('id');
+
+  if (error) {
+    console.error(`❌ Failed to claim schedule ${schedule.id}:`, error);
+    return false;
+  }
+
+  return Array.isArray(data) && data.length > 0;
+}
+
+async function getScheduledUsage(supabase: SupabaseClient, userId: string, usageDate: string): Promise<number> {
+  const { data } = await supabase
+    .from('user_usage')
+    .select('scheduled_analysis_count')
+    .eq('user_id', userId)
+    .eq('usage_date', usageDate)
+    .maybeSingle();
+
+  return data?.scheduled_analysis_count || 0;
+}
+
+/**
+ * Count a started run; the database increments the row so overlapping scheduler runs cannot lose counts
+ * Returns the new count, or null when the update failed
+ */
+async function incrementScheduledUsage(supabase: SupabaseClient, userId: string, usageDate: string): Promise<number | null> {
+  const { data, error } = await supabase.rpc('increment_scheduled_usage', {
+    p_user_id: userId,
+    p_usage_date: usageDate
+  });
+
+  if (error) {
+    console.error(`❌ Failed to update scheduled usage for user ${userId}:`, error);
+    return null;
+  }
+
+  return data;
+}
+
+async function hasActiveAnalysis(supabase: SupabaseClient, userId: string, ticker: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('analysis_history')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('ticker', ticker)
+    .eq('is_canceled', false)
+    .in('analysis_status', [ANALYSIS_STATUS.PENDING, ANALYSIS_STATUS.RUNNING])
+    .limit(1);
+
+  return Array.isArray(data) && data.length > 0;
+}
+
+async function runSchedule(
+  supabase: SupabaseClient,
+  schedule: AnalysisSchedule,
+  marketSession: string,
+  usageDate: string,
+  usageByUser: Map<string, number>
+): Promise<ScheduleRunOutcome> {
+  const base = { scheduleId: schedule.id, ticker: schedule.ticker };
+
+  // Run times are limited to the extended session, so 'closed' means a weekend, a holiday
+  // or the evening of an early-close day (after-hours ends at 5:00 PM)
+  if (marketSession === 'closed') {
+    const holiday = getMarketHoliday(usageDate);
+    return { ...base, status: 'skipped', reason: holiday ? `Market closed (${holiday})` : 'Market closed' };
+  }
+
+  if (!usageByUser.has(schedule.user_id)) {
+    usageByUser.set(schedule.user_id, await getScheduledUsage(supabase, schedule.user_id, usageDate));
+  }
+  const usage = usageByUser.get(schedule.user_id)!;
+  if (usage >= MAX_SCHEDULED_RUNS_PER_DAY) {
+    return { ...base, status: 'skipped', reason: `Daily limit of ${MAX_SCHEDULED_RUNS_PER_DAY} scheduled analyses reached` };
+  }
+
+  if (await hasActiveAnalysis(supabase, schedule.user_id, schedule.ticker)) {
+    return { ...base, status: 'skipped', reason: 'Analysis already running' };
+  }
+
+  const { data, error } = await supabase.functions.invoke('analysis-coordinator', {
+    body: {
+      action: 'start-analysis',
+      ticker: schedule.ticker,
+      userId: schedule.user_id
+    }
+  });
+
+  if (error || !data?.success) {
+    return { ...base, status: 'failed', reason: data?.error || error?.message || 'Failed to start analysis' };
+  }
+
+  const updatedUsage = await incrementScheduledUsage(supabase, schedule.user_id, usageDate);
+  usageByUser.set(schedule.user_id, updatedUsage ?? usage + 1);
+
+  return { ...base, status: 'started', analysisId: data.analysisId };
+}
+
+/**
+ * Start every enabled schedule whose next run is due
+ */
+export async function runDueSchedules(supabase: SupabaseClient, now: Date = new Date()): Promise<ScheduleRunOutcome[]> {
+  const { data: dueSchedules, error } = await supabase
+    .from('analysis_schedules')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_SCHEDULES_PER_RUN);
+
+  if (error) {
+    throw new Error(`Failed to load due schedules: ${error.message}`);
+  }
+
+  const marketSession = getMarketSession(now);
+  const usageDate = getNYDate(now);
+  const usageByUser = new Map<string, number>();
+  const outcomes: ScheduleRunOutcome[] = [];
+
+  console.log(`⏰ ${dueSchedules?.length || 0} schedule(s) due (market session: ${marketSession})`);
+
+  for (const schedule of (dueSchedules || []) as AnalysisSchedule[]) {
+    if (!await claimSchedule(supabase, schedule, now)) {
+      console.log(`⏭️ Schedule for ${schedule.ticker} already claimed by another run`);
+      continue;
+    }
+
+    let outcome: ScheduleRunOutcome;
+    try {
+      outcome = await runSchedule(supabase, schedule, marketSession, usageDate, usageByUser);
+    } catch (runError) {
+      const reason = runError instanceof Error ? runError.message : String(runError);
+      outcome = { scheduleId: schedule.id, ticker: schedule.ticker, status: 'failed', reason };
+    }
+
+    const icon = outcome.status === 'started' ? '✅' : outcome.status === 'skipped' ? '⏭️' : '❌';
+    console.log(`${icon} Scheduled analysis for ${schedule.ticker}: ${outcome.status}${outcome.reason ? ` (${outcome.reason})` : ''}`);
+
+    await recordOutcome(supabase, schedule, outcome);
+    outcomes.push(outcome);
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,66 @@
+import { getNYDate, nyLocalTimeToUtc } from '../_shared/timezoneUtils.ts';
+import { isTradingDay } from '../_shared/tradingCalendar.ts';
+import { AnalysisSchedule, ScheduleFrequency } from './types.ts';
+
+// Runs must fall inside the extended session (4:00 AM - 8:00 PM ET) so that a
+// 'closed' market session at run time only means a non-trading day or an early close
+export const EARLIEST_RUN_TIME = '04:00';
+export const LATEST_RUN_TIME = '19:59';
+
+const RUN_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Validate user-supplied schedule fields, returning an error message or null
+ */
+export function validateScheduleConfig(
+  frequency: ScheduleFrequency,
+  runTime: string,
+  dayOfWeek?: number | null
+): string | null {
+  if (frequency !== 'daily' && frequency !== 'weekly') {
+    return 'frequency must be daily or weekly';
+  }
+  if (!RUN_TIME_PATTERN.test(runTime || '')) {
+    return 'runTime must be HH:MM (24h, New York time)';
+  }
+  if (runTime < EARLIEST_RUN_TIME || runTime > LATEST_RUN_TIME) {
+    return `runTime must be between ${EARLIEST_RUN_TIME} and ${LATEST_RUN_TIME} ET`;
+  }
+  if (frequency === 'weekly' && (!Number.isInteger(dayOfWeek) || dayOfWeek! < 1 || dayOfWeek! > 5)) {
+    return 'Weekly schedules need a dayOfWeek between 1 (Monday) and 5 (Friday)';
+  }
+  return null;
+}
+
+/**
+ * Next trading-day occurrence of a schedule strictly after the given instant
+ * Weekly schedules whose weekday is a market holiday wait for the following week.
+ */
+export function computeNextRunAt(
+  schedule: Pick<AnalysisSchedule, 'frequency' | 'day_of_week' | 'run_time'>,
+  after: Date = new Date()
+): Date {
+  const runTime = schedule.run_time.slice(0, 5);
+  const startDate = getNYDate(after);
+
+  // Two weeks always contains the next trading day and the next matching weekly slot
+  for (let offset = 0; offset <= 14; offset++) {
+    const candidateDate = addDays(startDate, offset);
+    const dayOfWeek = new Date(`${candidateDate}T12:00:00Z`).getUTCDay();
+
+    if (!isTradingDay(candidateDate)) continue;
+    if (schedule.frequency === 'weekly' && dayOfWeek !== schedule.day_of_week) continue;
+
+    const runAt = nyLocalTimeToUtc(candidateDate, runTime);
+    if (runAt.getTime() > after.getTime()) {
+      return runAt;
+    }
+  }
+
+  throw new Error(`Unable to compute next run for ${schedule.frequency} schedule at ${runTime}`);
+}
@@ -0,0 +1,49 @@
+export type ScheduleFrequency = 'daily' | 'weekly';
+
+export type ScheduleRunStatus = 'started' | 'skipped' | 'failed';
+
+/**
+ * Row of the analysis_schedules table
+ */
+export interface AnalysisSchedule {
+  id: string;
+  user_id: string;
+  ticker: string;
+  frequency: ScheduleFrequency;
+  day_of_week: number | null;     // 1 (Monday) - 5 (Friday), weekly schedules only
+  run_time: string;               // HH:MM[:SS] New York time
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_status: ScheduleRunStatus | null;
+  last_error: string | null;
+  last_analysis_id: string | null;
+}
+
+export interface SaveScheduleRequest {
+  action: 'save-schedule';
+  ticker: string;
+  frequency: ScheduleFrequency;
+  dayOfWeek?: number;
+  runTime: string;                // HH:MM New York time
+  enabled?: boolean;
+}
+
+export interface DeleteScheduleRequest {
+  action: 'delete-schedule';
+  ticker: string;
+}
+
+export interface RunDueRequest {
+  action: 'run-due';
+}
+
+export type SchedulerRequest = SaveScheduleRequest | DeleteScheduleRequest | RunDueRequest;
+
+export interface ScheduleRunOutcome {
+  scheduleId: string;
+  ticker: string;
+  status: ScheduleRunStatus;
+  analysisId?: string;
+  reason?: string;
+}
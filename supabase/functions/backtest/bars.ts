@@ -0,0 +1,88 @@
+import { Broker } from '../_shared/broker.ts';
+import { getMarketDataBroker, HistoricalPrice } from '../_shared/technicalIndicators.ts';
+import { BacktestClient } from './types.ts';
+
+// Only these cache timeframes hold one bar per trading day
+const DAILY_TIMEFRAMES = ['6M', '1Y'];
+
+/**
+ * Merge every cached daily snapshot for a ticker into one price series
+ * Snapshots overlap, so newer fetches win for the same date
+ */
+export async function loadCachedDailyBars(supabase: BacktestClient, ticker: string): Promise<HistoricalPrice[]> {
+  const { data, error } = await supabase
+    .from('market_data_cache')
+    .select('historical_data, fetched_date')
+    .eq('ticker', ticker.toUpperCase())
+    .in('timeframe', DAILY_TIMEFRAMES)
+    .order('fetched_date', { ascending: true });
+
+  if (error) {
+    console.error(`❌ Failed to read cached bars for ${ticker}:`, error);
+    return [];
+  }
+
+  const barsByDate = new Map<string, HistoricalPrice>();
+  for (const row of data || []) {
+    for (const bar of (row.historical_data || []) as HistoricalPrice[]) {
+      if (bar?.date && Number.isFinite(bar.close)) {
+        barsByDate.set(bar.date, bar);
+      }
+    }
+  }
+
+  return Array.from(barsByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Fetch adjusted daily bars from the user's broker for the backtest window
+ * Runs to today rather than endDate so decisions near the end can still be scored
+ */
+async function fetchBrokerDailyBars(broker: Broker, ticker: string, startDate: string): Promise<HistoricalPrice[]> {
+  const bars = await broker.getBars(ticker, {
+    timeframe: '1Day',
+    start: startDate,
+    limit: 10000,
+    adjustment: 'all'
+  });
+  return bars.map(bar => ({
+    date: bar.timestamp.split('T')[0],
+    open: bar.open,
+    high: bar.high,
+    low: bar.low,
+    close: bar.close,
+    volume: bar.volume
+  }));
+}
+
+/**
+ * Load daily bars for a ticker covering the backtest range
+ * Uses cached bars first; when not offline, fetches the whole range from the broker
+ */
+export async function loadBacktestBars(
+  supabase: BacktestClient,
+  ticker: string,
+  startDate: string,
+  endDate: string,
+  offline: boolean
+): Promise<HistoricalPrice[]> {
+  let bars = await loadCachedDailyBars(supabase, ticker);
+
+  const coversRange = bars.length > 0 && bars[0].date <= startDate && bars[bars.length - 1].date >= endDate;
+  if (!coversRange && !offline) {
+    try {
+      console.log(`🌐 Cached bars for ${ticker} do not cover ${startDate} → ${endDate}, fetching from the broker`);
+      const fetched = await fetchBrokerDailyBars(getMarketDataBroker(supabase), ticker, startDate);
+      const barsByDate = new Map(bars.map(bar => [bar.date, bar]));
+      for (const bar of fetched) {
+        barsByDate.set(bar.date, bar);
+      }
+      bars = Array.from(barsByDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+      console.warn(`⚠️ Could not fetch bars for ${ticker}, using cached bars only:`, error);
+    }
+  }
+
+  console.log(`📈 ${ticker}: ${bars.length} daily bars available${offline ? ' (offline)' : ''}`);
+  return bars;
+}
@@ -0,0 +1,366 @@
+import { HistoricalPrice } from '../_shared/technicalIndicators.ts';
+import {
+  AgentAttribution,
+  BacktestDecision,
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSettings,
+  BacktestTrade,
+  BarsByTicker,
+  DecisionOutcome,
+  EquityPoint
+} from './types.ts';
+
+const TRADING_DAYS_PER_YEAR = 252;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A weekend plus a market holiday
+const MAX_FILL_DELAY_DAYS = 3;
+
+interface Position {
+  shares: number;
+  costBasis: number;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Index of the first bar on or after a date, or -1 when the series ends before it
+ */
+function findBarIndexOnOrAfter(bars: HistoricalPrice[], date: string): number {
+  let low = 0;
+  let high = bars.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (bars[mid].date >= date) {
+      found = mid;
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Score a decision against the price path that followed it
+ */
+function evaluateDecision(
+  decision: BacktestDecision,
+  bars: HistoricalPrice[] | undefined,
+  settings: BacktestSettings,
+  endDate: string
+): DecisionOutcome {
+  const outcome: DecisionOutcome = {
+    analysisId: decision.analysisId,
+    ticker: decision.ticker,
+    date: decision.date,
+    decision: decision.decision,
+    confidence: decision.confidence,
+    entryPrice: null,
+    exitPrice: null,
+    forwardReturn: null,
+    hit: null,
+    traded: false
+  };
+
+  if (!bars || bars.length === 0) {
+    outcome.skipReason = 'No price data';
+    return outcome;
+  }
+
+  const entryIndex = findBarIndexOnOrAfter(bars, decision.date);
+  if (entryIndex === -1 || bars[entryIndex].date > endDate) {
+    outcome.skipReason = 'No bar on or after analysis date';
+    return outcome;
+  }
+
+  // Without history before the decision the first bar may be weeks late; filling there would misprice it
+  const fillDelayDays = (Date.parse(bars[entryIndex].date) - Date.parse(decision.date)) / DAY_MS;
+  if (entryIndex === 0 && fillDelayDays > MAX_FILL_DELAY_DAYS) {
+    outcome.skipReason = `Price data starts on ${bars[0].date}, after the analysis date`;
+    return outcome;
+  }
+
+  outcome.entryPrice = bars[entryIndex].close;
+
+  // Scoring may look past the end of the range; the simulation itself does not
+  const exitIndex = entryIndex + settings.holdingPeriodDays;
+  if (exitIndex < bars.length) {
+    outcome.exitPrice = bars[exitIndex].close;
+    outcome.forwardReturn = round(((outcome.exitPrice - outcome.entryPrice) / outcome.entryPrice) * 100, 4);
+    if (decision.decision === 'BUY') {
+      outcome.hit = outcome.forwardReturn > 0;
+    } else if (decision.decision === 'SELL') {
+      outcome.hit = outcome.forwardReturn < 0;
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Dollar amount for a BUY, mirroring the live sizing rules:
+ * start from the default position size, keep the position between the min and max
+ * percent of equity, and never spend more cash than is available
+ */
+function sizeBuy(
+  settings: BacktestSettings,
+  equity: number,
+  cash: number,
+  existingValue: number
+): { amount: number; reason?: string } {
+  const minDollars = (settings.minPositionPercent / 100) * equity;
+  const maxDollars = (settings.maxPositionPercent / 100) * equity;
+
+  const roomUnderMax = maxDollars - existingValue;
+  if (roomUnderMax <= 0) {
+    return { amount: 0, reason: `Position already at ${settings.maxPositionPercent}% maximum` };
+  }
+
+  let amount = Math.max(settings.positionSizeDollars, existingValue > 0 ? 0 : minDollars);
+  amount = Math.min(amount, roomUnderMax, cash);
+
+  // A brand new position must reach the minimum size to be worth opening
+  if (existingValue === 0 && amount < minDollars) {
+    return { amount: 0, reason: `Insufficient cash for ${settings.minPositionPercent}% minimum position` };
+  }
+  if (amount <= 0) {
+    return { amount: 0, reason: 'Insufficient cash' };
+  }
+
+  return { amount };
+}
+
+function calculateMetrics(
+  settings: BacktestSettings,
+  equityCurve: EquityPoint[],
+  outcomes: DecisionOutcome[],
+  trades: BacktestTrade[]
+): BacktestMetrics {
+  const initial = settings.initialCapital;
+  const final = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initial;
+
+  let cagr: number | null = null;
+  if (equityCurve.length > 1) {
+    const days = (new Date(equityCurve[equityCurve.length - 1].date).getTime() -
+      new Date(equityCurve[0].date).getTime()) / (1000 * 60 * 60 * 24);
+    if (days > 0 && final > 0) {
+      cagr = round((Math.pow(final / initial, 365 / days) - 1) * 100);
+    }
+  }
+
+  let peak = initial;
+  let maxDrawdown = 0;
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+  }
+
+  const dailyReturns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    dailyReturns.push(equityCurve[i].equity / equityCurve[i - 1].equity - 1);
+  }
+  let sharpeRatio: number | null = null;
+  if (dailyReturns.length > 1) {
+    const mean = dailyReturns.reduce((sum, r) => sum + r, 0) / dailyReturns.length;
+    const variance = dailyReturns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (dailyReturns.length - 1);
+    const stdDev = Math.sqrt(variance);
+    if (stdDev > 0) {
+      sharpeRatio = round((mean / stdDev) * Math.sqrt(TRADING_DAYS_PER_YEAR));
+    }
+  }
+
+  const scored = outcomes.filter(o => o.hit !== null);
+  const hits = scored.filter(o => o.hit).length;
+
+  return {
+    initialCapital: initial,
+    finalEquity: round(final),
+    totalReturn: round(((final - initial) / initial) * 100),
+    cagr,
+    maxDrawdown: round(maxDrawdown * 100),
+    sharpeRatio,
+    hitRate: scored.length > 0 ? round((hits / scored.length) * 100) : null,
+    decisionsEvaluated: scored.length,
+    tradesExecuted: trades.length
+  };
+}
+
+/**
+ * Credit each agent with the outcome of the direction it argued for
+ */
+function calculateAgentAttribution(
+  decisions: BacktestDecision[],
+  outcomes: DecisionOutcome[]
+): AgentAttribution[] {
+  const stats = new Map<string, { signals: number; hits: number; agreements: number; signedReturn: number }>();
+
+  decisions.forEach((decision, index) => {
+    const forwardReturn = outcomes[index].forwardReturn;
+    if (forwardReturn === null) return;
+
+    for (const [agent, signal] of Object.entries(decision.agentSignals)) {
+      if (signal === 'HOLD') continue;
+
+      const entry = stats.get(agent) || { signals: 0, hits: 0, agreements: 0, signedReturn: 0 };
+      entry.signals++;
+      if ((signal === 'BUY' && forwardReturn > 0) || (signal === 'SELL' && forwardReturn < 0)) {
+        entry.hits++;
+      }
+      if (signal === decision.decision) {
+        entry.agreements++;
+      }
+      entry.signedReturn += signal === 'BUY' ? forwardReturn : -forwardReturn;
+      stats.set(agent, entry);
+    }
+  });
+
+  return Array.from(stats.entries())
+    .map(([agent, entry]) => ({
+      agent,
+      signals: entry.signals,
+      hits: entry.hits,
+      hitRate: entry.signals > 0 ? round((entry.hits / entry.signals) * 100) : null,
+      agreementWithDecision: entry.signals > 0 ? round((entry.agreements / entry.signals) * 100) : null,
+      averageSignedReturn: entry.signals > 0 ? round(entry.signedReturn / entry.signals, 4) : null
+    }))
+    .sort((a, b) => (b.hitRate ?? -1) - (a.hitRate ?? -1));
+}
+
+/**
+ * Replay decisions against daily bars
+ * The simulated account is long-only: BUY opens or adds to a position at the close of
+ * the analysis day, SELL closes the whole position, HOLD does nothing.
+ */
+export function runBacktest(
+  decisions: BacktestDecision[],
+  barsByTicker: BarsByTicker,
+  settings: BacktestSettings,
+  startDate: string,
+  endDate: string
+): BacktestResult {
+  const ordered = [...decisions].sort((a, b) => a.date.localeCompare(b.date));
+  const outcomes = ordered.map(decision =>
+    evaluateDecision(decision, barsByTicker[decision.ticker], settings, endDate)
+  );
+
+  // Group executable decisions by the bar date they fill on
+  const fillsByDate = new Map<string, number[]>();
+  outcomes.forEach((outcome, index) => {
+    if (outcome.entryPrice === null) return;
+    const bars = barsByTicker[outcome.ticker];
+    const fillDate = bars[findBarIndexOnOrAfter(bars, outcome.date)].date;
+    if (fillDate < startDate || fillDate > endDate) {
+      console.warn(`⚠️ ${outcome.ticker} decision ${outcome.analysisId} fills on ${fillDate}, outside ${startDate} → ${endDate}; not traded`);
+      outcome.skipReason = 'Fill date outside the backtest range';
+      return;
+    }
+    fillsByDate.set(fillDate, [...(fillsByDate.get(fillDate) || []), index]);
+  });
+
+  // Trading calendar: every date any ticker has a bar inside the range
+  const calendar = Array.from(new Set(
+    Object.values(barsByTicker).flatMap(bars => bars.map(bar => bar.date))
+  )).filter(date => date >= startDate && date <= endDate).sort();
+
+  const closes = new Map<string, Map<string, number>>();
+  for (const [ticker, bars] of Object.entries(barsByTicker)) {
+    closes.set(ticker, new Map(bars.map(bar => [bar.date, bar.close])));
+  }
+
+  let cash = settings.initialCapital;
+  const positions = new Map<string, Position>();
+  const lastPrices = new Map<string, number>();
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  const marketValue = () => {
+    let value = 0;
+    for (const [ticker, position] of positions) {
+      value += position.shares * (lastPrices.get(ticker) ?? position.costBasis);
+    }
+    return value;
+  };
+
+  for (const date of calendar) {
+    for (const [ticker, tickerCloses] of closes) {
+      const close = tickerCloses.get(date);
+      if (close !== undefined) lastPrices.set(ticker, close);
+    }
+
+    for (const index of fillsByDate.get(date) || []) {
+      const decision = ordered[index];
+      const outcome = outcomes[index];
+      const price = outcome.entryPrice!;
+      const position = positions.get(decision.ticker);
+
+      if (decision.decision === 'BUY') {
+        const equity = cash + marketValue();
+        const existingValue = position ? position.shares * price : 0;
+        const { amount, reason } = sizeBuy(settings, equity, cash, existingValue);
+        if (amount <= 0) {
+          outcome.skipReason = reason;
+          continue;
+        }
+
+        const shares = amount / price;
+        cash -= amount;
+        positions.set(decision.ticker, position
+          ? {
+            shares: position.shares + shares,
+            costBasis: (position.costBasis * position.shares + amount) / (position.shares + shares)
+          }
+          : { shares, costBasis: price });
+        trades.push({
+          analysisId: decision.analysisId,
+          ticker: decision.ticker,
+          date,
+          action: 'BUY',
+          shares: round(shares, 6),
+          price,
+          dollarAmount: round(amount)
+        });
+        outcome.traded = true;
+      } else if (decision.decision === 'SELL') {
+        if (!position) {
+          outcome.skipReason = 'No position to sell';
+          continue;
+        }
+
+        const proceeds = position.shares * price;
+        cash += proceeds;
+        positions.delete(decision.ticker);
+        trades.push({
+          analysisId: decision.analysisId,
+          ticker: decision.ticker,
+          date,
+          action: 'SELL',
+          shares: round(position.shares, 6),
+          price,
+          dollarAmount: round(proceeds),
+          realizedPnl: round(proceeds - position.shares * position.costBasis)
+        });
+        outcome.traded = true;
+      }
+    }
+
+    const holdingsValue = marketValue();
+    equityCurve.push({ date, equity: round(cash + holdingsValue), cash: round(cash) });
+  }
+
+  return {
+    settings,
+    metrics: calculateMetrics(settings, equityCurve, outcomes, trades),
+    equityCurve,
+    trades,
+    outcomes,
+    agentAttribution: calculateAgentAttribution(ordered, outcomes),
+    missingData: Object.entries(barsByTicker)
+      .filter(([, bars]) => bars.length === 0)
+      .map(([ticker]) => ticker)
+  };
+}
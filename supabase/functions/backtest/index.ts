@@ -0,0 +1,136 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { ANALYSIS_STATUS } from '../_shared/statusTypes.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { ALPACA_CREDENTIAL_FIELDS, decryptApiSettings } from '../_shared/credentialVault.ts';
+import { loadBacktestBars } from './bars.ts';
+import { runBacktest } from './engine.ts';
+import { extractAgentSignals } from './signals.ts';
+import { BacktestClient, BacktestDecision, BacktestRequest, BacktestSettings, BarsByTicker, StoredAnalysis, TradeDirection } from './types.ts';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TICKERS = 50;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+
+    if (authError || !userId) {
+      console.error('Authentication failed:', authError);
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    const {
+      startDate,
+      endDate,
+      tickers = [],
+      initialCapital = 100000,
+      holdingPeriodDays = 20,
+      offline = true
+    }: BacktestRequest = await req.json();
+
+    if (!DATE_PATTERN.test(startDate || '') || !DATE_PATTERN.test(endDate || '') || startDate > endDate) {
+      return createErrorResponse('startDate and endDate must be YYYY-MM-DD with startDate on or before endDate', 400);
+    }
+    if (tickers.length > MAX_TICKERS) {
+      return createErrorResponse(`Too many tickers. Maximum ${MAX_TICKERS} allowed.`, 400);
+    }
+    if (!(initialCapital > 0) || !Number.isInteger(holdingPeriodDays) || holdingPeriodDays < 1) {
+      return createErrorResponse('initialCapital must be positive and holdingPeriodDays a positive integer', 400);
+    }
+
+    // Use service role to access database
+    const supabase: BacktestClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data: storedSettings, error: settingsError } = await supabase
+      .from('api_settings')
+      .select('default_position_size_dollars, default_min_position_size, default_max_position_size, alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading')
+      .eq('user_id', userId)
+      .single();
+
+    if (settingsError || !storedSettings) {
+      return createErrorResponse('API settings not found. Please configure in Settings.', 404);
+    }
+
+    const apiSettings = await decryptApiSettings(supabase, storedSettings, userId, 'backtest', ALPACA_CREDENTIAL_FIELDS);
+
+    const settings: BacktestSettings = {
+      initialCapital,
+      holdingPeriodDays,
+      positionSizeDollars: apiSettings.default_position_size_dollars || 1000,
+      minPositionPercent: apiSettings.default_min_position_size ?? 2,
+      maxPositionPercent: apiSettings.default_max_position_size ?? 25
+    };
+
+    let query = supabase
+      .from('analysis_history')
+      .select('id, ticker, analysis_date, decision, confidence, agent_insights')
+      .eq('user_id', userId)
+      .eq('analysis_status', ANALYSIS_STATUS.COMPLETED)
+      .eq('is_canceled', false)
+      .gte('analysis_date', startDate)
+      .lte('analysis_date', endDate)
+      .order('created_at', { ascending: true });
+
+    const requestedTickers = tickers.map(ticker => ticker.trim().toUpperCase()).filter(Boolean);
+    if (requestedTickers.length > 0) {
+      query = query.in('ticker', requestedTickers);
+    }
+
+    const { data: analyses, error: analysesError } = await query;
+    if (analysesError) {
+      console.error('❌ Failed to load analyses for backtest:', analysesError);
+      return createErrorResponse('Failed to load analysis history', 500);
+    }
+
+    const decisions: BacktestDecision[] = ((analyses || []) as StoredAnalysis[])
+      .filter(analysis => ['BUY', 'SELL', 'HOLD'].includes(analysis.decision ?? ''))
+      .map(analysis => ({
+        analysisId: analysis.id,
+        ticker: analysis.ticker.toUpperCase(),
+        date: analysis.analysis_date,
+        decision: analysis.decision as TradeDirection,
+        confidence: Number(analysis.confidence) || 0,
+        agentSignals: extractAgentSignals(analysis.agent_insights)
+      }));
+
+    console.log(`🔁 Backtesting ${decisions.length} decisions for user ${userId} (${startDate} → ${endDate}, offline: ${offline})`);
+
+    // Credentials are only needed when cached bars do not cover the range
+    supabase._userCredentials = {
+      userId,
+      alpaca_paper_api_key: apiSettings.alpaca_paper_api_key,
+      alpaca_paper_secret_key: apiSettings.alpaca_paper_secret_key,
+      alpaca_live_api_key: apiSettings.alpaca_live_api_key,
+      alpaca_live_secret_key: apiSettings.alpaca_live_secret_key,
+      alpaca_paper_trading: apiSettings.alpaca_paper_trading
+    };
+
+    const barsByTicker: BarsByTicker = {};
+    const tickersToLoad = Array.from(new Set([...requestedTickers, ...decisions.map(d => d.ticker)]));
+    for (const ticker of tickersToLoad) {
+      barsByTicker[ticker] = await loadBacktestBars(supabase, ticker, startDate, endDate, offline);
+    }
+
+    const result = runBacktest(decisions, barsByTicker, settings, startDate, endDate);
+
+    console.log(`✅ Backtest complete: ${result.metrics.tradesExecuted} trades, return ${result.metrics.totalReturn}%`);
+
+    return createSuccessResponse({ startDate, endDate, offline, ...result });
+
+  } catch (error) {
+    console.error('❌ Backtest error:', error);
+    return createErrorResponse((error instanceof Error && error.message) || 'Backtest failed', 500);
+  }
+});
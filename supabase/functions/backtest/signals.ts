@@ -0,0 +1,66 @@
+import type { StructuredInsight } from '../_shared/structuredOutput.ts';
+import { TradeDirection } from './types.ts';
+
+// Insight keys written by the portfolio stage restate the final decision rather than an opinion
+const NON_SIGNAL_INSIGHTS = ['portfolio', 'portfolioManager'];
+
+// Insight fields that can carry the direction an agent argued for
+interface StoredInsight {
+  error?: unknown;
+  structuredOutput?: StructuredInsight | null;
+  tradingPlan?: { action?: unknown };
+  finalAssessment?: { decision?: unknown };
+  summary?: { recommendation?: unknown };
+}
+
+const BULLISH_TERMS = ['BUY', 'ADD', 'BUILD', 'BULLISH', 'LONG', 'ACCUMULATE', 'OVERWEIGHT'];
+const BEARISH_TERMS = ['SELL', 'TRIM', 'EXIT', 'BEARISH', 'SHORT', 'REDUCE', 'UNDERWEIGHT'];
+
+/**
+ * Normalize an agent's recommendation label to a trade direction
+ */
+export function normalizeDirection(value: unknown): TradeDirection | null {
+  const label = String(value ?? '').trim().toUpperCase();
+  if (!label) return null;
+  if (BULLISH_TERMS.some(term => label.startsWith(term))) return 'BUY';
+  if (BEARISH_TERMS.some(term => label.startsWith(term))) return 'SELL';
+  if (label.startsWith('HOLD') || label.startsWith('NEUTRAL')) return 'HOLD';
+  return null;
+}
+
+/**
+ * Extract the direction an agent argued for from its stored insight
+ * The schema-validated decision is preferred; analyses saved before agents stored structured
+ * output fall back to their structured summary fields. Prose alone gives no signal.
+ */
+export function extractAgentSignal(agentKey: string, value: unknown): TradeDirection | null {
+  if (!value || typeof value !== 'object' || NON_SIGNAL_INSIGHTS.includes(agentKey)) return null;
+  const insight = value as StoredInsight;
+  if (insight.error) return null;
+
+  const structuredOutput = insight.structuredOutput;
+  if (structuredOutput?.valid && structuredOutput.data) {
+    return normalizeDirection(structuredOutput.data.decision);
+  }
+
+  return normalizeDirection(insight.tradingPlan?.action) ??
+    normalizeDirection(insight.finalAssessment?.decision) ??
+    normalizeDirection(insight.summary?.recommendation);
+}
+
+/**
+ * Collect the signal of every agent that contributed to an analysis
+ */
+export function extractAgentSignals(agentInsights: unknown): { [agentKey: string]: TradeDirection } {
+  const signals: { [agentKey: string]: TradeDirection } = {};
+  if (!agentInsights || typeof agentInsights !== 'object') return signals;
+
+  for (const [agentKey, insight] of Object.entries(agentInsights)) {
+    const signal = extractAgentSignal(agentKey, insight);
+    if (signal) {
+      signals[agentKey] = signal;
+    }
+  }
+
+  return signals;
+}
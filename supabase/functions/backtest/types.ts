@@ -0,0 +1,114 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { CredentialedClient, HistoricalPrice } from '../_shared/technicalIndicators.ts';
+
+/**
+ * Service-role client; the shared bar fetcher reads the account's keys from _userCredentials
+ */
+export type BacktestClient = SupabaseClient & CredentialedClient;
+
+export type TradeDirection = 'BUY' | 'SELL' | 'HOLD';
+
+/**
+ * analysis_history columns the backtest selects
+ */
+export interface StoredAnalysis {
+  id: string;
+  ticker: string;
+  analysis_date: string;
+  decision: string | null;
+  confidence: number | null;
+  agent_insights: unknown;
+}
+
+export interface BacktestRequest {
+  startDate: string;            // YYYY-MM-DD, inclusive
+  endDate: string;              // YYYY-MM-DD, inclusive
+  tickers?: string[];           // Empty or missing means every ticker analyzed in the range
+  initialCapital?: number;      // Starting cash for the simulated account
+  holdingPeriodDays?: number;   // Trading days used to score a decision as a hit or miss
+  offline?: boolean;            // Only use bars already in market_data_cache
+}
+
+export interface BacktestSettings {
+  initialCapital: number;
+  holdingPeriodDays: number;
+  positionSizeDollars: number;
+  minPositionPercent: number;
+  maxPositionPercent: number;
+}
+
+/**
+ * A completed analysis replayed by the backtest
+ */
+export interface BacktestDecision {
+  analysisId: string;
+  ticker: string;
+  date: string;
+  decision: TradeDirection;
+  confidence: number;
+  agentSignals: { [agentKey: string]: TradeDirection };
+}
+
+export interface BacktestTrade {
+  analysisId: string;
+  ticker: string;
+  date: string;
+  action: 'BUY' | 'SELL';
+  shares: number;
+  price: number;
+  dollarAmount: number;
+  realizedPnl?: number;
+}
+
+export interface DecisionOutcome {
+  analysisId: string;
+  ticker: string;
+  date: string;
+  decision: TradeDirection;
+  confidence: number;
+  entryPrice: number | null;
+  exitPrice: number | null;
+  forwardReturn: number | null;   // Percent return over the holding period
+  hit: boolean | null;            // null for HOLD or when there are not enough bars
+  traded: boolean;
+  skipReason?: string;
+}
+
+export interface AgentAttribution {
+  agent: string;
+  signals: number;                // Directional (BUY/SELL) calls with a scored outcome
+  hits: number;
+  hitRate: number | null;
+  agreementWithDecision: number | null;  // Percent of signals matching the final decision
+  averageSignedReturn: number | null;    // Mean return earned by following the agent's call
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  cash: number;
+}
+
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number;
+  cagr: number | null;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  hitRate: number | null;
+  decisionsEvaluated: number;
+  tradesExecuted: number;
+}
+
+export interface BacktestResult {
+  settings: BacktestSettings;
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  outcomes: DecisionOutcome[];
+  agentAttribution: AgentAttribution[];
+  missingData: string[];          // Tickers skipped because no bars cover the range
+}
+
+export type BarsByTicker = { [ticker: string]: HistoricalPrice[] };
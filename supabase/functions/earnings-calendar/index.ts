@@ -0,0 +1,70 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { DEFAULT_EARNINGS_WINDOW_DAYS, getUpcomingEarnings } from '../_shared/earningsCalendar.ts';
+
+/**
+ * Earnings Calendar - next earnings report of each watchlist ticker within the
+ * user's earnings window (api_settings.earnings_window_days, or `days` in the request)
+ */
+
+const MAX_TICKERS = 200;
+const MAX_DAYS = 30;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+
+    if (authError || !userId) {
+      console.error('Authentication failed:', authError);
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    const { tickers, days }: { tickers?: string[]; days?: number } = await req.json().catch(() => ({}));
+    if (!Array.isArray(tickers) || tickers.some(ticker => typeof ticker !== 'string')) {
+      return createErrorResponse('tickers must be an array of symbols', 400);
+    }
+    if (tickers.length > MAX_TICKERS) {
+      return createErrorResponse(`At most ${MAX_TICKERS} tickers per request`, 400);
+    }
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > MAX_DAYS)) {
+      return createErrorResponse(`days must be an integer between 1 and ${MAX_DAYS}`, 400);
+    }
+
+    // Use service role to access database
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    let windowDays = days;
+    if (windowDays === undefined) {
+      const { data: settings } = await supabase
+        .from('api_settings')
+        .select('earnings_window_days')
+        .eq('user_id', userId)
+        .maybeSingle();
+      windowDays = settings?.earnings_window_days || DEFAULT_EARNINGS_WINDOW_DAYS;
+    }
+
+    if (tickers.length === 0) {
+      return createSuccessResponse({ days: windowDays, earnings: {} });
+    }
+
+    const earnings = await getUpcomingEarnings(tickers, supabase, windowDays);
+    console.log(`📅 ${Object.keys(earnings).length} of ${tickers.length} tickers report within ${windowDays} days`);
+
+    return createSuccessResponse({ days: windowDays, earnings });
+  } catch (error) {
+    console.error('Earnings calendar error:', error);
+    return createErrorResponse((error instanceof Error && error.message) || 'Failed to load the earnings calendar');
+  }
+});
@@ -1,8 +1,14 @@
 import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { corsHeaders } from '../_shared/cors.ts';
+import { ALPACA_CREDENTIAL_FIELDS, decryptApiSettings } from '../_shared/credentialVault.ts';
 import { verifyAndExtractUser } from '../_shared/auth.ts';
 import { TRADE_ORDER_STATUS, isAlpacaOrderTerminal } from '../_shared/statusTypes.ts';
+import { OrderExecutionParams, validateOptionExecution, validateOrderExecution } from '../_shared/tradeOrders.ts';
+import { Broker, BrokerRequestError, buildOrderRequest, createBroker, orderExecutionFromRow, orderMetadata } from '../_shared/broker.ts';
+import { describeRiskViolations, evaluatePreTradeRisk, getUnderlyingSymbol, isRiskCheckUnavailable } from '../_shared/riskLimits.ts';
+import { resolveBrokerAccountSettings } from '../_shared/brokerAccounts.ts';
+import { isMarketHours, nextMarketOpen } from '../_shared/timezoneUtils.ts';
 import { 
   createOptionsResponse,
   createMissingParametersResponse,
@@ -14,6 +20,44 @@ import {
 interface ExecuteTradeRequest {
   tradeActionId: string;   // Direct ID of trading_actions record (primary method)
   action: 'approve' | 'reject';
+  execution?: Partial<OrderExecutionParams>;  // User edits to order type/prices made before approval
+}
+
+/**
+ * Orders of a rebalance batch are decided together through rebalance-coordinator
+ * Returns an error message when this order cannot be approved or rejected on its own
+ */
+async function getRebalanceBatchError(
+  supabaseAdmin: SupabaseClient,
+  tradeActionId: string,
+  userId: string,
+  action: 'approve' | 'reject'
+): Promise<string | null> {
+  const { data: tradeOrder } = await supabaseAdmin
+    .from('trading_actions')
+    .select('rebalance_request_id')
+    .eq('id', tradeActionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!tradeOrder?.rebalance_request_id) {
+    return null;
+  }
+
+  const { data: rebalanceRequest } = await supabaseAdmin
+    .from('rebalance_requests')
+    .select('status')
+    .eq('id', tradeOrder.rebalance_request_id)
+    .maybeSingle();
+
+  // Approval happens per order once the batch is approved; rejecting one order would split a pending batch
+  if (action === 'approve' && rebalanceRequest?.status !== 'approved') {
+    return 'This order is part of a rebalance batch. Approve the rebalance to execute it.';
+  }
+  if (action === 'reject' && rebalanceRequest?.status === 'pending_approval') {
+    return 'This order is part of a rebalance batch. Reject the rebalance to cancel it.';
+  }
+  return null;
 }
 
 serve(async (req) => {
@@ -41,7 +85,7 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
     );
 
-    const { tradeActionId, action } = await req.json() as ExecuteTradeRequest;
+    const { tradeActionId, action, execution: executionOverrides } = await req.json() as ExecuteTradeRequest;
     
     // Validate that we have tradeActionId
     if (!tradeActionId) {
@@ -51,6 +95,14 @@ serve(async (req) => {
       );
     }
 
+    const batchError = await getRebalanceBatchError(supabaseAdmin, tradeActionId, userId, action);
+    if (batchError) {
+      return new Response(
+        JSON.stringify({ error: batchError }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      );
+    }
+
     if (action === 'reject') {
       // Handle rejection - just update status
       const { error: updateError } = await supabaseAdmin
@@ -73,7 +125,7 @@ serve(async (req) => {
       );
     }
 
-    // Handle approval - execute on Alpaca
+    // Handle approval - execute with the user's broker
     
     // First get the trade order details
     const { data: tradeOrder, error: fetchError } = await supabaseAdmin
@@ -91,7 +143,7 @@ serve(async (req) => {
       );
     }
 
-    // Check if already approved or has Alpaca order
+    // Check if already approved or has a broker order
     if (tradeOrder.status === TRADE_ORDER_STATUS.APPROVED && tradeOrder.metadata?.alpaca_order?.id) {
       return new Response(
         JSON.stringify({ 
@@ -103,14 +155,43 @@ serve(async (req) => {
       );
     }
 
+    // Apply and validate the order parameters before touching the broker
+    const execution = orderExecutionFromRow(tradeOrder, executionOverrides);
+    const isOptionOrder = tradeOrder.asset_class === 'option';
+    const executionError = validateOrderExecution(tradeOrder.action, execution) ||
+      (isOptionOrder ? validateOptionExecution(execution) : null);
+    if (executionError) {
+      return new Response(
+        JSON.stringify({ error: executionError }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    if (executionOverrides) {
+      const { error: executionUpdateError } = await supabaseAdmin
+        .from('trading_actions')
+        .update({
+          order_type: execution.orderType,
+          time_in_force: execution.timeInForce,
+          limit_price: execution.limitPrice,
+          stop_price: execution.stopPrice,
+          take_profit_price: execution.takeProfitPrice,
+          stop_loss_price: execution.stopLossPrice
+        })
+        .eq('id', tradeOrder.id)
+        .eq('user_id', userId);
+
+      if (executionUpdateError) throw executionUpdateError;
+    }
+
     // Get user's Alpaca credentials
-    const { data: settings, error: settingsError } = await supabaseAdmin
+    const { data: storedSettings, error: settingsError } = await supabaseAdmin
       .from('api_settings')
-      .select('alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading')
+      .select('user_id, alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading')
       .eq('user_id', userId)
       .single();
 
-    if (settingsError || !settings) {
+    if (settingsError || !storedSettings) {
       console.error('Settings error for user', userId, ':', settingsError);
       return new Response(
         JSON.stringify({ error: 'API settings not found. Please configure in Settings.' }),
@@ -118,12 +199,20 @@ serve(async (req) => {
       );
     }
 
-    // Determine which credentials to use based on paper trading setting
-    const isPaper = settings?.alpaca_paper_trading ?? true;
-    const alpacaApiKey = isPaper ? settings?.alpaca_paper_api_key : settings?.alpaca_live_api_key;
-    const alpacaApiSecret = isPaper ? settings?.alpaca_paper_secret_key : settings?.alpaca_live_secret_key;
+    // Orders of a broker account execute with that account's keys
+    const settings = await resolveBrokerAccountSettings(
+      supabaseAdmin,
+      userId,
+      await decryptApiSettings(supabaseAdmin, storedSettings, userId, 'execute-trade', ALPACA_CREDENTIAL_FIELDS),
+      tradeOrder.broker_account_id,
+      'execute-trade'
+    );
 
-    if (!alpacaApiKey || !alpacaApiSecret) {
+    // The broker uses the credentials of the selected trading mode
+    let broker: Broker;
+    try {
+      broker = createBroker(settings);
+    } catch (_error) {
       console.log('Missing Alpaca credentials for user', userId);
       return new Response(
         JSON.stringify({ error: 'Alpaca credentials not configured. Please add them in Settings.' }),
@@ -131,55 +220,85 @@ serve(async (req) => {
       );
     }
 
-    // Alpaca API base URL
-    const alpacaBaseUrl = isPaper 
-      ? 'https://paper-api.alpaca.markets'
-      : 'https://api.alpaca.markets';
-
-    // Prepare order request
-    const orderRequest: any = {
-      symbol: tradeOrder.ticker,
-      side: tradeOrder.action.toLowerCase(),
-      type: 'market',
-      time_in_force: 'day',
-      client_order_id: `ai_${tradeActionId}_${Date.now()}`
-    };
-
-    // Set quantity based on order type
-    if (tradeOrder.dollar_amount && tradeOrder.dollar_amount > 0) {
-      orderRequest.notional = tradeOrder.dollar_amount;
-    } else if (tradeOrder.shares && tradeOrder.shares > 0) {
-      orderRequest.qty = tradeOrder.shares;
-    } else {
-      throw new Error('Invalid order: no quantity or dollar amount specified');
+    // Re-check the user's hard risk limits against the account as it is now; options count against their underlying
+    const riskTicker = isOptionOrder ? getUnderlyingSymbol(tradeOrder.option_symbol || tradeOrder.ticker) : tradeOrder.ticker;
+    let orderValue = Number(tradeOrder.dollar_amount) || 0;
+    if (isOptionOrder) {
+      orderValue = (Number(tradeOrder.shares) || 0) * 100 * (execution.limitPrice || 0);
+    } else if (!orderValue && tradeOrder.shares > 0) {
+      const referencePrice = execution.limitPrice || execution.stopPrice ||
+        (await broker.getQuote(tradeOrder.ticker))?.price || 0;
+      orderValue = Number(tradeOrder.shares) * referencePrice;
     }
+    const riskViolations = await evaluatePreTradeRisk(
+      supabaseAdmin,
+      userId,
+      settings,
+      { ticker: riskTicker, action: tradeOrder.action, orderValue },
+      { excludeTradeActionId: tradeOrder.id }
+    );
+    if (isRiskCheckUnavailable(riskViolations)) {
+      // Temporary failure: the order stays pending so the user can approve it again
+      const message = `Order not sent - ${describeRiskViolations(riskViolations)}. Please try again shortly.`;
+      return new Response(
+        JSON.stringify({ success: false, message, error: message, retryable: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 503 }
+      );
+    }
+    if (riskViolations.length > 0) {
+      const { error: blockError } = await supabaseAdmin
+        .from('trading_actions')
+        .update({
+          status: TRADE_ORDER_STATUS.REJECTED,
+          risk_violations: riskViolations
+        })
+        .eq('id', tradeOrder.id)
+        .eq('user_id', userId);
 
-    console.log('Submitting Alpaca order:', orderRequest);
-
-    // Submit order to Alpaca
-    const alpacaResponse = await fetch(`${alpacaBaseUrl}/v2/orders`, {
-      method: 'POST',
-      headers: {
-        'APCA-API-KEY-ID': alpacaApiKey,
-        'APCA-API-SECRET-KEY': alpacaApiSecret,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(orderRequest),
-    });
-
-    if (!alpacaResponse.ok) {
-      const errorText = await alpacaResponse.text();
-      console.error('Alpaca API error:', errorText);
+      if (blockError) throw blockError;
+
+      const message = `Order blocked by risk limits - ${describeRiskViolations(riskViolations)}`;
       return new Response(
-        JSON.stringify({ error: `Alpaca API error: ${errorText}` }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: alpacaResponse.status }
+        JSON.stringify({
+          success: false,
+          message,
+          error: message,
+          status: TRADE_ORDER_STATUS.REJECTED,
+          riskViolations
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { orderRequest, error: orderRequestError } = await buildOrderRequest(
+      tradeOrder,
+      execution,
+      `ai_${tradeActionId}_${Date.now()}`,
+      broker
+    );
+    if (orderRequestError || !orderRequest) {
+      return new Response(
+        JSON.stringify({ error: orderRequestError }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
       );
     }
 
-    const alpacaOrder = await alpacaResponse.json();
-    console.log('Alpaca order created:', alpacaOrder);
+    console.log(`Submitting ${broker.provider} order:`, orderRequest);
 
-    // Update database with Alpaca order info - only update status to approved and add Alpaca metadata
+    let brokerOrder;
+    try {
+      brokerOrder = await broker.submitOrder(orderRequest);
+    } catch (error) {
+      const submitError = error as BrokerRequestError;
+      console.error('Broker order error:', submitError.message);
+      return new Response(
+        JSON.stringify({ error: submitError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: submitError.status || 500 }
+      );
+    }
+    console.log('Broker order created:', brokerOrder);
+
+    // Update database with the broker order info - only update status to approved and add order metadata
     const { error: updateError } = await supabaseAdmin
       .from('trading_actions')
       .update({
@@ -187,19 +306,7 @@ serve(async (req) => {
         executed_at: new Date().toISOString(),
         metadata: {
           ...tradeOrder.metadata,
-          alpaca_order: {
-            id: alpacaOrder.id,
-            client_order_id: alpacaOrder.client_order_id,
-            created_at: alpacaOrder.created_at,
-            submitted_at: alpacaOrder.submitted_at,
-            status: alpacaOrder.status,
-            type: alpacaOrder.order_type,
-            time_in_force: alpacaOrder.time_in_force,
-            limit_price: alpacaOrder.limit_price,
-            stop_price: alpacaOrder.stop_price,
-            filled_qty: alpacaOrder.filled_qty || null,
-            filled_avg_price: alpacaOrder.filled_avg_price || null
-          }
+          alpaca_order: orderMetadata(brokerOrder)
         }
       })
       .eq('id', tradeOrder.id)
@@ -210,36 +317,44 @@ serve(async (req) => {
       // Don't throw here - order was successfully placed
     }
 
-    // Start a background task to poll order status
-    setTimeout(async () => {
-      try {
-        await pollOrderStatus(
-          alpacaOrder.id,
-          tradeOrder.id,
-          userId,
-          alpacaApiKey,
-          alpacaApiSecret,
-          alpacaBaseUrl,
-          supabaseAdmin
-        );
-      } catch (err) {
-        console.error('Error polling order status:', err);
-      }
-    }, 5000);
+    // Outside regular hours (weekends, holidays, after an early close) the broker holds the order
+    // until the next open, so a one-minute poll would never see a fill
+    const queuedUntil = isMarketHours() ? null : nextMarketOpen().toISOString();
+    if (queuedUntil) {
+      console.log(`🕒 Market closed - order ${brokerOrder.id} queued until ${queuedUntil}`);
+    } else {
+      // Start a background task to poll order status
+      setTimeout(async () => {
+        try {
+          await pollOrderStatus(
+            brokerOrder.id,
+            tradeOrder.id,
+            userId,
+            broker,
+            supabaseAdmin
+          );
+        } catch (err) {
+          console.error('Error polling order status:', err);
+        }
+      }, 5000);
+    }
 
     return new Response(
       JSON.stringify({
         success: true,
-        message: 'Trade order executed successfully',
-        alpacaOrderId: alpacaOrder.id,
-        alpacaStatus: alpacaOrder.status,
+        message: queuedUntil
+          ? 'Trade order submitted; it will execute when the market opens'
+          : 'Trade order executed successfully',
+        alpacaOrderId: brokerOrder.id,
+        alpacaStatus: brokerOrder.status,
+        queuedUntil,
         order: {
-          symbol: alpacaOrder.symbol,
-          side: alpacaOrder.side,
-          qty: alpacaOrder.qty,
-          notional: alpacaOrder.notional,
-          type: alpacaOrder.order_type,
-          status: alpacaOrder.status
+          symbol: brokerOrder.symbol,
+          side: brokerOrder.side,
+          qty: brokerOrder.quantity,
+          notional: brokerOrder.notional,
+          type: brokerOrder.type,
+          status: brokerOrder.status
         }
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -261,12 +376,10 @@ serve(async (req) => {
 
 // Helper function to poll order status
 async function pollOrderStatus(
-  alpacaOrderId: string,
+  brokerOrderId: string,
   tradeActionId: string,
   userId: string,
-  apiKey: string,
-  apiSecret: string,
-  baseUrl: string,
+  broker: Broker,
   supabase: any
 ) {
   const maxAttempts = 12; // Poll for up to 1 minute
@@ -276,20 +389,8 @@ async function pollOrderStatus(
     attempts++;
     
     try {
-      // Get order status from Alpaca
-      const response = await fetch(`${baseUrl}/v2/orders/${alpacaOrderId}`, {
-        headers: {
-          'APCA-API-KEY-ID': apiKey,
-          'APCA-API-SECRET-KEY': apiSecret,
-        },
-      });
-
-      if (!response.ok) {
-        console.error('Failed to fetch order status');
-        return;
-      }
-
-      const order = await response.json();
+      // Get order status from the broker
+      const order = await broker.getOrder(brokerOrderId);
       
       // Get current metadata
       const { data: currentAction } = await supabase
@@ -299,7 +400,7 @@ async function pollOrderStatus(
         .eq('user_id', userId)
         .single();
 
-      // Update database with latest Alpaca status (metadata only - do NOT change main status)
+      // Update database with latest broker status (metadata only - do NOT change main status)
       await supabase
         .from('trading_actions')
         .update({
@@ -308,8 +409,9 @@ async function pollOrderStatus(
             alpaca_order: {
               ...currentAction?.metadata?.alpaca_order,
               status: order.status,
-              filled_qty: order.filled_qty || null,
-              filled_avg_price: order.filled_avg_price || null,
+              filled_qty: order.filledQuantity || null,
+              filled_avg_price: order.filledAvgPrice || null,
+              filled_at: order.filledAt,
               updated_at: new Date().toISOString()
             }
           }
@@ -319,7 +421,7 @@ async function pollOrderStatus(
 
       // Stop polling if order is in terminal state
       if (isAlpacaOrderTerminal(order.status)) {
-        console.log(`Order ${alpacaOrderId} reached terminal state: ${order.status}`);
+        console.log(`Order ${brokerOrderId} reached terminal state: ${order.status}`);
         return;
       }
 
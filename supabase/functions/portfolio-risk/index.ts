@@ -0,0 +1,58 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { ALPACA_CREDENTIAL_FIELDS, decryptApiSettings } from '../_shared/credentialVault.ts';
+import { fetchAlpacaPortfolio } from '../_shared/portfolio/alpacaClient.ts';
+import { buildPortfolioRisk } from '../_shared/portfolioRisk.ts';
+
+/**
+ * Portfolio Risk - beta vs SPY, 1-day historical and parametric VaR/CVaR, pairwise
+ * correlations and sector/industry exposure of the user's Alpaca positions
+ * Backs the risk panel on the dashboard
+ */
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+
+    if (authError || !userId) {
+      console.error('Authentication failed:', authError);
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    // Use service role to access database
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data: storedSettings } = await supabase
+      .from('api_settings')
+      .select('alpaca_paper_trading, alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!storedSettings) {
+      return createErrorResponse('Alpaca credentials not configured', 400);
+    }
+    const apiSettings = await decryptApiSettings(supabase, storedSettings, userId, 'portfolio-risk', ALPACA_CREDENTIAL_FIELDS);
+
+    const portfolioData = await fetchAlpacaPortfolio(apiSettings);
+    const report = await buildPortfolioRisk(supabase, userId, apiSettings, portfolioData);
+
+    console.log(`📐 Portfolio risk for user ${userId}: ${report.positions.length} positions, beta ${report.beta ?? 'N/A'}`);
+
+    return createSuccessResponse({ report });
+
+  } catch (error) {
+    console.error('❌ Portfolio risk error:', error);
+    return createErrorResponse((error instanceof Error && error.message) || 'Portfolio risk calculation failed', 500);
+  }
+});
@@ -0,0 +1,434 @@
+import { ALPACA_CREDENTIAL_FIELDS, decryptApiSettings } from '../_shared/credentialVault.ts';
+import { BrokerPosition, buildOrderRequest, createBroker, orderExecutionFromRow, orderMetadata } from '../_shared/broker.ts';
+import { fetchAlpacaHistoricalData } from '../_shared/technicalIndicators.ts';
+import { calculateATR } from '../_shared/indicatorRegistry.ts';
+import { TRADE_ORDER_STATUS, isAlpacaOrderTerminal } from '../_shared/statusTypes.ts';
+import { isMarketHours } from '../_shared/timezoneUtils.ts';
+import {
+  ExitRules,
+  GUARD_RULE_LABELS,
+  GuardTrigger,
+  PositionGuard,
+  evaluateGuard,
+  getGuardStopPrice,
+  hasExitRules,
+  resolveExitRules
+} from '../_shared/positionGuards.ts';
+import { GuardRunOutcome, GuardedTradeAction, GuardianAccount, GuardianClient, GuardianSettings } from './types.ts';
+
+// Filled BUYs older than this are not armed retroactively
+const ARM_LOOKBACK_DAYS = 30;
+
+// Upper bound of guards checked per user and invocation so a large book cannot time out the function
+const MAX_GUARDS_PER_USER = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GUARDIAN_SETTINGS_COLUMNS =
+  'user_id, position_guard_defaults, auto_execute_trades, alpaca_paper_trading, ' +
+  'alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key';
+
+async function loadGuardianAccounts(supabase: GuardianClient): Promise<GuardianAccount[]> {
+  const { data: settingsRows, error } = await supabase
+    .from('api_settings')
+    .select(GUARDIAN_SETTINGS_COLUMNS)
+    .eq('position_guard_enabled', true)
+    .returns<GuardianSettings[]>();
+
+  if (error) {
+    throw new Error(`Failed to load position guard settings: ${error.message}`);
+  }
+
+  const accounts: GuardianAccount[] = [];
+  for (const storedSettings of settingsRows || []) {
+    try {
+      const settings = await decryptApiSettings(supabase, storedSettings, storedSettings.user_id, 'position-guardian', ALPACA_CREDENTIAL_FIELDS);
+      accounts.push({
+        userId: storedSettings.user_id,
+        defaults: storedSettings.position_guard_defaults || null,
+        autoExecute: Boolean(storedSettings.auto_execute_trades),
+        broker: createBroker(settings),
+        settings
+      });
+    } catch (error) {
+      console.error(`❌ Skipping position guards of user ${storedSettings.user_id}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return accounts;
+}
+
+async function getProposedExitRules(supabase: GuardianClient, analysisId: string): Promise<Partial<ExitRules> | null> {
+  const { data } = await supabase
+    .from('analysis_history')
+    .select('agent_insights')
+    .eq('id', analysisId)
+    .maybeSingle();
+
+  return data?.agent_insights?.riskManager?.finalAssessment?.exitRules || null;
+}
+
+/**
+ * Filled quantity and average price of a BUY, asking the broker when the stored status is stale
+ * Returns null while the order can still fill
+ */
+async function getBuyFill(
+  account: GuardianAccount,
+  tradeAction: GuardedTradeAction
+): Promise<{ qty: number; price: number; filledAt: string } | null> {
+  let order = tradeAction.metadata?.alpaca_order;
+  if (!order?.id) {
+    return null;
+  }
+
+  if (order.status !== 'filled') {
+    try {
+      order = orderMetadata(await account.broker.getOrder(order.id));
+    } catch (error) {
+      console.error(`Failed to fetch order ${order.id}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  // A canceled or expired order keeps whatever part of it filled
+  const qty = Number(order.filled_qty);
+  const price = Number(order.filled_avg_price);
+  const filledAt = order.filled_at || tradeAction.executed_at;
+  if (!order.status || !isAlpacaOrderTerminal(order.status) || !(qty > 0) || !(price > 0) || !filledAt) {
+    return null;
+  }
+
+  return { qty, price, filledAt };
+}
+
+async function getLatestATR(supabase: GuardianClient, account: GuardianAccount, ticker: string): Promise<number | null> {
+  try {
+    // The shared bar fetcher reads the account's keys from the supabase client on a cache miss
+    supabase._userCredentials = {
+      userId: account.userId,
+      alpaca_paper_api_key: account.settings.alpaca_paper_api_key,
+      alpaca_paper_secret_key: account.settings.alpaca_paper_secret_key,
+      alpaca_live_api_key: account.settings.alpaca_live_api_key,
+      alpaca_live_secret_key: account.settings.alpaca_live_secret_key,
+      alpaca_paper_trading: account.settings.alpaca_paper_trading ?? true
+    };
+    const bars = await fetchAlpacaHistoricalData(ticker, '3M', supabase);
+    const atr = calculateATR(bars.map(bar => bar.high), bars.map(bar => bar.low), bars.map(bar => bar.close))
+      .filter(value => Number.isFinite(value));
+    return atr.length > 0 ? Math.round(atr[atr.length - 1] * 10000) / 10000 : null;
+  } catch (error) {
+    console.error(`❌ Failed to calculate ATR for ${ticker}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Create a guard for each recently filled BUY that has none yet
+ */
+async function armFilledBuys(supabase: GuardianClient, account: GuardianAccount, now: Date): Promise<GuardRunOutcome[]> {
+  const { data, error } = await supabase
+    .from('trading_actions')
+    .select('*')
+    .eq('user_id', account.userId)
+    .is('broker_account_id', null)  // Guards run on the primary account's keys
+    .eq('action', 'BUY')
+    .eq('asset_class', 'equity')
+    .eq('status', TRADE_ORDER_STATUS.APPROVED)
+    .gte('executed_at', new Date(now.getTime() - ARM_LOOKBACK_DAYS * DAY_MS).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load filled BUY orders: ${error.message}`);
+  }
+  const buys = (data || []) as GuardedTradeAction[];
+  if (buys.length === 0) {
+    return [];
+  }
+
+  const { data: existingGuards } = await supabase
+    .from('position_guards')
+    .select('trading_action_id')
+    .in('trading_action_id', buys.map(buy => buy.id));
+  const guarded = new Set(((existingGuards || []) as Pick<PositionGuard, 'trading_action_id'>[]).map(guard => guard.trading_action_id));
+
+  const outcomes: GuardRunOutcome[] = [];
+  for (const buy of buys.filter(buy => !guarded.has(buy.id))) {
+    const proposal = buy.analysis_id ? await getProposedExitRules(supabase, buy.analysis_id) : null;
+    const { rules, source } = resolveExitRules(proposal, account.defaults);
+    if (!hasExitRules(rules)) {
+      continue;
+    }
+
+    const fill = await getBuyFill(account, buy);
+    if (!fill) {
+      continue;
+    }
+
+    const atr = rules.atrMultiplier ? await getLatestATR(supabase, account, buy.ticker) : null;
+    const { data: guard, error: insertError } = await supabase
+      .from('position_guards')
+      .insert({
+        user_id: account.userId,
+        trading_action_id: buy.id,
+        analysis_id: buy.analysis_id,
+        ticker: buy.ticker,
+        shares: fill.qty,
+        entry_price: fill.price,
+        entry_at: fill.filledAt,
+        high_water_price: fill.price,
+        trailing_stop_percent: rules.trailingStopPercent,
+        atr_multiplier: rules.atrMultiplier,
+        atr,
+        take_profit_price: rules.takeProfitPercent
+          ? Math.round(fill.price * (1 + rules.takeProfitPercent / 100) * 100) / 100
+          : null,
+        time_stop_days: rules.timeStopDays,
+        rule_source: source
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      outcomes.push({ ticker: buy.ticker, status: 'failed', reason: `Failed to arm guard: ${insertError.message}` });
+      continue;
+    }
+
+    outcomes.push({ guardId: guard.id, ticker: buy.ticker, status: 'armed', reason: `${fill.qty} shares @ $${fill.price} (${source})` });
+  }
+
+  return outcomes;
+}
+
+/**
+ * Current broker positions by symbol; the broker throws instead of returning an empty book so
+ * an API failure cannot be mistaken for closed positions
+ */
+async function fetchPositionsBySymbol(account: GuardianAccount): Promise<Map<string, BrokerPosition>> {
+  const positions = await account.broker.getPositions();
+  return new Map(positions.map(position => [position.symbol, position]));
+}
+
+/**
+ * Submit a guard's SELL to the broker right away; returns an error message on failure
+ */
+async function submitExitOrder(supabase: GuardianClient, account: GuardianAccount, exitAction: GuardedTradeAction): Promise<string | null> {
+  const { orderRequest, error } = await buildOrderRequest(
+    exitAction,
+    orderExecutionFromRow(exitAction),
+    `guard_${exitAction.id}`,
+    account.broker
+  );
+  if (error || !orderRequest) {
+    return error || 'Failed to build the exit order';
+  }
+
+  let order;
+  try {
+    order = await account.broker.submitOrder(orderRequest);
+  } catch (submitError) {
+    return submitError instanceof Error ? submitError.message : String(submitError);
+  }
+
+  const { error: updateError } = await supabase
+    .from('trading_actions')
+    .update({
+      status: TRADE_ORDER_STATUS.APPROVED,
+      auto_executed: true,
+      executed_at: new Date().toISOString(),
+      metadata: {
+        ...exitAction.metadata,
+        alpaca_order: orderMetadata(order)
+      }
+    })
+    .eq('id', exitAction.id);
+
+  if (updateError) {
+    // The order is live at the broker either way
+    console.error(`❌ Failed to record auto-executed exit ${exitAction.id}:`, updateError);
+  }
+  return null;
+}
+
+async function triggerGuard(
+  supabase: GuardianClient,
+  account: GuardianAccount,
+  guard: PositionGuard,
+  trigger: GuardTrigger,
+  heldShares: number,
+  now: Date
+): Promise<GuardRunOutcome | null> {
+  const base = { guardId: guard.id, ticker: guard.ticker };
+  const highWater = Math.max(Number(guard.high_water_price), trigger.price);
+
+  // Claim the guard first so overlapping invocations cannot create two SELL orders
+  const { data: claimed, error: claimError } = await supabase
+    .from('position_guards')
+    .update({
+      status: 'triggered',
+      triggered_rule: trigger.rule,
+      triggered_price: trigger.price,
+      triggered_at: now.toISOString(),
+      high_water_price: highWater,
+      last_checked_at: now.toISOString()
+    })
+    .eq('id', guard.id)
+    .eq('status', 'active')
+    .select('id');
+
+  if (claimError) {
+    return { ...base, status: 'failed', reason: `Failed to claim guard: ${claimError.message}` };
+  }
+  if (!Array.isArray(claimed) || claimed.length === 0) {
+    return null;
+  }
+
+  // Sell what this guard bought, or less if part of the position was sold since
+  const shares = Math.min(Number(guard.shares), heldShares);
+  const { data: exitAction, error: insertError } = await supabase
+    .from('trading_actions')
+    .insert({
+      user_id: guard.user_id,
+      ticker: guard.ticker,
+      action: 'SELL',
+      shares,
+      dollar_amount: 0,
+      price: 0,
+      status: TRADE_ORDER_STATUS.PENDING,
+      agent: 'position-guardian',
+      reasoning: `${GUARD_RULE_LABELS[trigger.rule]} triggered: ${trigger.reason}`,
+      source_type: 'individual_analysis',
+      analysis_id: guard.analysis_id,
+      order_type: 'market',
+      time_in_force: 'day',
+      asset_class: 'equity',
+      metadata: {
+        shouldClosePosition: shares >= heldShares,
+        guard: {
+          id: guard.id,
+          rule: trigger.rule,
+          triggerPrice: trigger.price,
+          stopPrice: getGuardStopPrice(guard, highWater),
+          entryPrice: Number(guard.entry_price),
+          highWaterPrice: highWater
+        },
+        beforePosition: { shares: heldShares, value: heldShares * trigger.price },
+        afterPosition: { shares: heldShares - shares, value: (heldShares - shares) * trigger.price },
+        changes: { shares: -shares, value: -shares * trigger.price }
+      }
+    })
+    .select('*')
+    .single();
+
+  if (insertError) {
+    // Hand the guard back so the next run retries
+    await supabase
+      .from('position_guards')
+      .update({ status: 'active', triggered_rule: null, triggered_price: null, triggered_at: null, last_error: insertError.message })
+      .eq('id', guard.id);
+    return { ...base, status: 'failed', reason: `Failed to create SELL order: ${insertError.message}` };
+  }
+
+  let executionError: string | null = null;
+  if (account.autoExecute) {
+    executionError = await submitExitOrder(supabase, account, exitAction);
+  }
+
+  await supabase
+    .from('position_guards')
+    .update({ exit_action_id: exitAction.id, last_error: executionError })
+    .eq('id', guard.id);
+
+  return {
+    ...base,
+    status: 'triggered',
+    exitActionId: exitAction.id,
+    reason: executionError
+      ? `${trigger.reason}; auto-execution failed, SELL left pending: ${executionError}`
+      : `${trigger.reason}${account.autoExecute ? ' (auto-executed)' : ''}`
+  };
+}
+
+/**
+ * Evaluate each active guard against the current price of its position
+ */
+async function checkActiveGuards(supabase: GuardianClient, account: GuardianAccount, now: Date): Promise<GuardRunOutcome[]> {
+  const { data: guards, error } = await supabase
+    .from('position_guards')
+    .select('*')
+    .eq('user_id', account.userId)
+    .eq('status', 'active')
+    .order('last_checked_at', { ascending: true, nullsFirst: true })
+    .limit(MAX_GUARDS_PER_USER);
+
+  if (error) {
+    throw new Error(`Failed to load active guards: ${error.message}`);
+  }
+  if (!guards?.length) {
+    return [];
+  }
+
+  const positions = await fetchPositionsBySymbol(account);
+  const outcomes: GuardRunOutcome[] = [];
+
+  for (const guard of guards as PositionGuard[]) {
+    const position = positions.get(guard.ticker);
+    const heldShares = position?.quantity || 0;
+
+    if (!position || heldShares <= 0) {
+      await supabase
+        .from('position_guards')
+        .update({ status: 'closed', last_checked_at: now.toISOString() })
+        .eq('id', guard.id)
+        .eq('status', 'active');
+      outcomes.push({ guardId: guard.id, ticker: guard.ticker, status: 'closed', reason: 'Position no longer held' });
+      continue;
+    }
+
+    const price = position.currentPrice;
+    const trigger = evaluateGuard(guard, price, now);
+    if (!trigger) {
+      await supabase
+        .from('position_guards')
+        .update({ high_water_price: Math.max(Number(guard.high_water_price), price), last_checked_at: now.toISOString() })
+        .eq('id', guard.id)
+        .eq('status', 'active');
+      continue;
+    }
+
+    const outcome = await triggerGuard(supabase, account, guard, trigger, heldShares, now);
+    if (outcome) {
+      outcomes.push(outcome);
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Arm guards for new fills and, during regular hours, enforce the active ones
+ */
+export async function runPositionGuards(supabase: GuardianClient, now: Date = new Date()): Promise<GuardRunOutcome[]> {
+  const accounts = await loadGuardianAccounts(supabase);
+  const marketOpen = isMarketHours();
+  const outcomes: GuardRunOutcome[] = [];
+
+  console.log(`🛡️ Position guardian: ${accounts.length} account(s), market ${marketOpen ? 'open' : 'closed'}`);
+
+  for (const account of accounts) {
+    try {
+      outcomes.push(...await armFilledBuys(supabase, account, now));
+      // Quotes outside regular hours are too thin to act on
+      if (marketOpen) {
+        outcomes.push(...await checkActiveGuards(supabase, account, now));
+      }
+    } catch (error) {
+      console.error(`❌ Position guardian failed for user ${account.userId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  for (const outcome of outcomes) {
+    const icon = outcome.status === 'armed' ? '🛡️' : outcome.status === 'triggered' ? '🚨' : outcome.status === 'closed' ? '⏹️' : '❌';
+    console.log(`${icon} ${outcome.ticker}: ${outcome.status}${outcome.reason ? ` (${outcome.reason})` : ''}`);
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { runPositionGuards } from './guardian.ts';
+import { CancelGuardRequest, GuardianClient, GuardianRequest } from './types.ts';
+
+/**
+ * Position Guardian - trailing stop, ATR stop, take-profit and time stop for positions
+ * opened by filled BUY orders
+ *
+ * Actions:
+ * - run-due: called every 5 minutes by the position-guardian-run-due pg_cron job (schema.sql)
+ *   with the service role key; arms guards for new fills and creates a SELL order
+ *   (auto-executed when auto_execute_trades is on) when a rule triggers
+ * - cancel-guard: called by the user from the holdings list
+ */
+
+async function handleCancelGuard(supabase: SupabaseClient, userId: string, body: CancelGuardRequest): Promise<Response> {
+  if (!body.guardId) {
+    return createErrorResponse('guardId is required', 400);
+  }
+
+  const { data, error } = await supabase
+    .from('position_guards')
+    .update({ status: 'canceled' })
+    .eq('id', body.guardId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .select('id, ticker');
+
+  if (error) {
+    console.error(`❌ Failed to cancel guard ${body.guardId}:`, error);
+    return createErrorResponse('Failed to cancel guard', 500);
+  }
+  if (!Array.isArray(data) || data.length === 0) {
+    return createErrorResponse('Active guard not found', 404);
+  }
+
+  console.log(`🛡️ Canceled guard for ${data[0].ticker} (user ${userId})`);
+  return createSuccessResponse({ guardId: body.guardId });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase: GuardianClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const authHeader = req.headers.get('Authorization');
+    const body: GuardianRequest = await req.json();
+
+    if (body.action === 'run-due') {
+      // Only the cron job may act on every user's positions
+      if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+        return createErrorResponse('run-due requires the service role key', 401);
+      }
+
+      const outcomes = await runPositionGuards(supabase);
+      return createSuccessResponse({
+        armed: outcomes.filter(outcome => outcome.status === 'armed').length,
+        triggered: outcomes.filter(outcome => outcome.status === 'triggered').length,
+        outcomes
+      });
+    }
+
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+    if (authError || !userId) {
+      console.error('Authentication failed:', authError);
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    switch (body.action) {
+      case 'cancel-guard':
+        return await handleCancelGuard(supabase, userId, body);
+      default:
+        return createErrorResponse(`Unknown action: ${(body as { action: string }).action}`, 400);
+    }
+
+  } catch (error) {
+    console.error('❌ Position guardian error:', error);
+    return createErrorResponse((error instanceof Error && error.message) || 'Position guardian request failed', 500);
+  }
+});
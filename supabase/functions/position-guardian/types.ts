@@ -0,0 +1,72 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { Broker, orderMetadata } from '../_shared/broker.ts';
+import type { ExitRules } from '../_shared/positionGuards.ts';
+import type { CredentialedClient } from '../_shared/technicalIndicators.ts';
+
+/**
+ * Service-role client; the shared bar fetcher reads the account's keys from _userCredentials
+ */
+export type GuardianClient = SupabaseClient & CredentialedClient;
+
+/**
+ * Decrypted api_settings columns the guardian selects
+ */
+export interface GuardianSettings {
+  user_id: string;
+  position_guard_defaults: Partial<ExitRules> | null;
+  auto_execute_trades: boolean | null;
+  alpaca_paper_trading: boolean | null;
+  alpaca_paper_api_key: string | null;
+  alpaca_paper_secret_key: string | null;
+  alpaca_live_api_key: string | null;
+  alpaca_live_secret_key: string | null;
+}
+
+/**
+ * Columns of a trading_actions row the guardian reads: the filled BUY a guard protects
+ * and the SELL it creates
+ */
+export interface GuardedTradeAction {
+  id: string;
+  ticker: string;
+  action: string;
+  shares: number | null;
+  analysis_id: string | null;
+  executed_at: string | null;
+  metadata: {
+    alpaca_order?: Partial<ReturnType<typeof orderMetadata>>;
+    [key: string]: unknown;
+  } | null;
+}
+
+export type GuardRunStatus = 'armed' | 'triggered' | 'closed' | 'failed';
+
+/**
+ * User with position guards enabled and a broker for the selected trading mode
+ */
+export interface GuardianAccount {
+  userId: string;
+  defaults: Partial<ExitRules> | null;
+  autoExecute: boolean;
+  broker: Broker;
+  settings: GuardianSettings;   // For market data fetched with the user's keys
+}
+
+export interface RunDueRequest {
+  action: 'run-due';
+}
+
+export interface CancelGuardRequest {
+  action: 'cancel-guard';
+  guardId: string;
+}
+
+export type GuardianRequest = RunDueRequest | CancelGuardRequest;
+
+export interface GuardRunOutcome {
+  guardId?: string;
+  ticker: string;
+  status: GuardRunStatus;
+  exitActionId?: string;
+  reason?: string;
+}
@@ -0,0 +1,261 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { TRADE_ORDER_STATUS } from '../_shared/statusTypes.ts';
+import { computeDrift } from './plan.ts';
+import {
+  buildAndSubmitPlan,
+  buildPlanWhenAnalysesSettled,
+  executeBatch,
+  loadPortfolioSnapshot,
+  loadRebalanceContext,
+  startDriftAnalyses,
+  transitionRequest
+} from './rebalance.ts';
+import {
+  AnalysisCompletedRequest,
+  BatchDecisionRequest,
+  GetRebalanceRequest,
+  RebalanceCoordinatorRequest,
+  RebalanceRequestRow,
+  StartRebalanceRequest
+} from './types.ts';
+
+/**
+ * Rebalance Coordinator - moves the portfolio back to target_allocations
+ *
+ * Actions:
+ * - start-rebalance: compare Alpaca positions with the targets, optionally analyze drifted
+ *   tickers first, then create one batch of linked trading_actions
+ * - get-rebalance: latest (or given) request with its orders; finishes planning once analyses settle
+ * - approve-batch / reject-batch: decide the whole batch at once
+ * - analysis-completed: called by analysis-portfolio-manager (service role) when a linked analysis finishes
+ */
+
+const ACTIVE_STATUSES = ['analyzing', 'planning', 'pending_approval'];
+const DEFAULT_DRIFT_THRESHOLD = 2;
+
+async function getRequestWithOrders(supabase: SupabaseClient, requestId: string) {
+  const { data: request } = await supabase
+    .from('rebalance_requests')
+    .select('*')
+    .eq('id', requestId)
+    .single();
+
+  const { data: orders } = await supabase
+    .from('trading_actions')
+    .select('*')
+    .eq('rebalance_request_id', requestId)
+    .order('action', { ascending: false }); // SELL before BUY
+
+  return { request, orders: orders || [] };
+}
+
+async function handleStartRebalance(supabase: SupabaseClient, userId: string, body: StartRebalanceRequest): Promise<Response> {
+  const driftThreshold = body.driftThreshold ?? DEFAULT_DRIFT_THRESHOLD;
+  if (!(driftThreshold >= 0 && driftThreshold <= 100)) {
+    return createErrorResponse('driftThreshold must be between 0 and 100', 400);
+  }
+
+  const { data: activeRequests } = await supabase
+    .from('rebalance_requests')
+    .select('id, status')
+    .eq('user_id', userId)
+    .in('status', ACTIVE_STATUSES)
+    .limit(1);
+
+  if (activeRequests && activeRequests.length > 0) {
+    return createErrorResponse('A rebalance is already in progress. Approve or reject it before starting another.', 409);
+  }
+
+  const context = await loadRebalanceContext(supabase, userId, driftThreshold);
+  if (context.targets.length === 0) {
+    return createErrorResponse('No target allocations configured', 400);
+  }
+
+  const snapshot = await loadPortfolioSnapshot(context.apiSettings);
+  if (snapshot.totalValue <= 0) {
+    return createErrorResponse('Portfolio value is zero, nothing to rebalance', 400);
+  }
+
+  const { drifts } = computeDrift(snapshot, context.targets, context.settings);
+  const driftedTickers = drifts.filter(drift => drift.drifted).map(drift => drift.ticker);
+  const runAnalysis = body.runAnalysis === true && driftedTickers.length > 0;
+
+  const { data: request, error } = await supabase
+    .from('rebalance_requests')
+    .insert({
+      user_id: userId,
+      status: runAnalysis ? 'analyzing' : 'planning',
+      drift_threshold: driftThreshold,
+      run_analysis: body.runAnalysis === true,
+      portfolio_snapshot: snapshot
+    })
+    .select()
+    .single();
+
+  if (error || !request) {
+    console.error('❌ Failed to create rebalance request:', error);
+    return createErrorResponse('Failed to create rebalance request', 500);
+  }
+
+  console.log(`⚖️ Rebalance ${request.id} for user ${userId}: ${driftedTickers.length} drifted ticker(s)`);
+
+  if (runAnalysis) {
+    const analysisIds = await startDriftAnalyses(supabase, userId, driftedTickers);
+    if (analysisIds.length === 0) {
+      await transitionRequest(supabase, request.id, ['analyzing'], 'failed', {
+        error_message: 'Failed to start analyses for drifted tickers'
+      });
+      return createErrorResponse('Failed to start analyses for drifted tickers', 500);
+    }
+
+    await supabase
+      .from('rebalance_requests')
+      .update({ analysis_ids: analysisIds })
+      .eq('id', request.id);
+
+    return createSuccessResponse(await getRequestWithOrders(supabase, request.id));
+  }
+
+  await buildAndSubmitPlan(supabase, request as RebalanceRequestRow, context, snapshot);
+  return createSuccessResponse(await getRequestWithOrders(supabase, request.id));
+}
+
+async function handleGetRebalance(supabase: SupabaseClient, userId: string, body: GetRebalanceRequest): Promise<Response> {
+  let query = supabase
+    .from('rebalance_requests')
+    .select('*')
+    .eq('user_id', userId);
+
+  query = body.rebalanceRequestId
+    ? query.eq('id', body.rebalanceRequestId)
+    : query.order('created_at', { ascending: false }).limit(1);
+
+  const { data: requests } = await query;
+  const request = requests?.[0];
+  if (!request) {
+    return createSuccessResponse({ request: null, orders: [] });
+  }
+
+  // Analyses that errored or were canceled never reach the portfolio manager, so check here too
+  if (request.status === 'analyzing') {
+    await buildPlanWhenAnalysesSettled(supabase, request);
+  }
+
+  return createSuccessResponse(await getRequestWithOrders(supabase, request.id));
+}
+
+async function handleBatchDecision(
+  supabase: SupabaseClient,
+  userId: string,
+  authHeader: string,
+  body: BatchDecisionRequest
+): Promise<Response> {
+  const { data: request } = await supabase
+    .from('rebalance_requests')
+    .select('id, status')
+    .eq('id', body.rebalanceRequestId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!request) {
+    return createErrorResponse('Rebalance request not found', 404);
+  }
+
+  const decision = body.action === 'approve-batch' ? 'approved' : 'rejected';
+  if (!await transitionRequest(supabase, request.id, ['pending_approval'], decision, { decided_at: new Date().toISOString() })) {
+    return createErrorResponse(`Rebalance is ${request.status}, only pending batches can be ${decision}`, 409);
+  }
+
+  if (decision === 'rejected') {
+    const { error } = await supabase
+      .from('trading_actions')
+      .update({ status: TRADE_ORDER_STATUS.REJECTED })
+      .eq('rebalance_request_id', request.id)
+      .eq('status', TRADE_ORDER_STATUS.PENDING);
+
+    if (error) {
+      console.error(`❌ Failed to reject rebalance orders for ${request.id}:`, error);
+      return createErrorResponse('Failed to reject rebalance orders', 500);
+    }
+
+    return createSuccessResponse(await getRequestWithOrders(supabase, request.id));
+  }
+
+  const results = await executeBatch(supabase, request.id, authHeader);
+  const failures = results.filter(result => !result.success);
+
+  if (failures.length > 0) {
+    await supabase
+      .from('rebalance_requests')
+      .update({ error_message: failures.map(f => `${f.action} ${f.ticker}: ${f.error}`).join('; ') })
+      .eq('id', request.id);
+  }
+
+  console.log(`✅ Rebalance ${request.id} approved: ${results.length - failures.length}/${results.length} order(s) submitted`);
+  return createSuccessResponse({ ...(await getRequestWithOrders(supabase, request.id)), results });
+}
+
+async function handleAnalysisCompleted(supabase: SupabaseClient, body: AnalysisCompletedRequest): Promise<Response> {
+  const { data: requests } = await supabase
+    .from('rebalance_requests')
+    .select('*')
+    .eq('status', 'analyzing')
+    .contains('analysis_ids', [body.analysisId]);
+
+  const request = requests?.[0];
+  if (!request) {
+    return createSuccessResponse({ request: null });
+  }
+
+  const status = await buildPlanWhenAnalysesSettled(supabase, request);
+  return createSuccessResponse({ rebalanceRequestId: request.id, status });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase: SupabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const authHeader = req.headers.get('Authorization');
+    const body: RebalanceCoordinatorRequest = await req.json();
+
+    if (body.action === 'analysis-completed') {
+      // Only other edge functions report analysis completion
+      if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+        return createErrorResponse('analysis-completed requires the service role key', 401);
+      }
+      return await handleAnalysisCompleted(supabase, body);
+    }
+
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+    if (authError || !userId) {
+      console.error('Authentication failed:', authError);
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    switch (body.action) {
+      case 'start-rebalance':
+        return await handleStartRebalance(supabase, userId, body);
+      case 'get-rebalance':
+        return await handleGetRebalance(supabase, userId, body);
+      case 'approve-batch':
+      case 'reject-batch':
+        return await handleBatchDecision(supabase, userId, authHeader!, body);
+      default:
+        return createErrorResponse(`Unknown action: ${(body as { action: string }).action}`, 400);
+    }
+
+  } catch (error) {
+    console.error('❌ Rebalance coordinator error:', error);
+    return createErrorResponse(error.message || 'Rebalance request failed', 500);
+  }
+});
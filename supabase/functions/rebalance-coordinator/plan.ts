@@ -0,0 +1,173 @@
+import { calculateAllowedCash } from '../_shared/portfolio/cash-constraints.ts';
+import {
+  AnalysisDecision,
+  PlannedTrade,
+  PortfolioSnapshot,
+  RebalancePlan,
+  RebalanceSettings,
+  SkippedTrade,
+  TargetAllocation,
+  TickerDrift
+} from './types.ts';
+
+// Trades below this amount are left as drift rather than placed as tiny orders
+const MIN_TRADE_DOLLARS = 10;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Compare current position weights with the target allocations
+ * Target percentages are weights within the stock portion of the portfolio, so a 25% target
+ * with an 80% stock allocation means 20% of total portfolio value.
+ */
+export function computeDrift(
+  snapshot: PortfolioSnapshot,
+  targets: TargetAllocation[],
+  settings: RebalanceSettings
+): { drifts: TickerDrift[]; untracked: string[] } {
+  const totalValue = snapshot.totalValue;
+  const stockShare = settings.targetStockAllocation / 100;
+  const positionsByTicker = new Map(snapshot.positions.map(position => [position.ticker, position]));
+
+  const drifts = targets.map(target => {
+    const ticker = target.ticker.toUpperCase();
+    const currentValue = positionsByTicker.get(ticker)?.marketValue || 0;
+    const currentWeight = totalValue > 0 ? (currentValue / totalValue) * 100 : 0;
+    const targetWeight = Math.min(Number(target.target_percentage) * stockShare, settings.maxPositionPercent);
+    const drift = currentWeight - targetWeight;
+
+    return {
+      ticker,
+      currentValue: round2(currentValue),
+      currentWeight: round2(currentWeight),
+      targetWeight: round2(targetWeight),
+      drift: round2(drift),
+      drifted: Math.abs(drift) >= settings.driftThreshold
+    };
+  });
+
+  const targetTickers = new Set(drifts.map(drift => drift.ticker));
+  const untracked = snapshot.positions
+    .map(position => position.ticker)
+    .filter(ticker => !targetTickers.has(ticker));
+
+  return { drifts, untracked };
+}
+
+/**
+ * Build the batch of trades that moves drifted tickers back to their targets
+ *
+ * Sells are planned first; buys are funded by sell proceeds plus the cash allowed by
+ * calculateAllowedCash and scaled down together when they exceed that budget.
+ * A completed analysis of a ticker vetoes trades against its decision.
+ */
+export function buildRebalancePlan(
+  snapshot: PortfolioSnapshot,
+  targets: TargetAllocation[],
+  settings: RebalanceSettings,
+  analysisDecisions: Record<string, AnalysisDecision> = {}
+): RebalancePlan {
+  const { drifts, untracked } = computeDrift(snapshot, targets, settings);
+  const positionsByTicker = new Map(snapshot.positions.map(position => [position.ticker, position]));
+  const trades: PlannedTrade[] = [];
+  const skipped: SkippedTrade[] = [];
+  const buys: PlannedTrade[] = [];
+
+  for (const drift of drifts.filter(d => d.drifted)) {
+    const position = positionsByTicker.get(drift.ticker);
+    const targetValue = (drift.targetWeight / 100) * snapshot.totalValue;
+    const delta = targetValue - drift.currentValue;
+    const action = delta > 0 ? 'BUY' : 'SELL';
+    const decision = analysisDecisions[drift.ticker];
+
+    if (decision && decision !== 'HOLD' && decision !== action) {
+      skipped.push({ ticker: drift.ticker, action, reason: `Latest analysis recommends ${decision}` });
+      continue;
+    }
+
+    const base = {
+      ticker: drift.ticker,
+      currentWeight: drift.currentWeight,
+      targetWeight: drift.targetWeight,
+      beforeValue: drift.currentValue,
+      beforeShares: position?.qty || 0
+    };
+
+    if (action === 'SELL') {
+      const closePosition = drift.targetWeight === 0;
+      if (!closePosition && Math.abs(delta) < MIN_TRADE_DOLLARS) {
+        skipped.push({ ticker: drift.ticker, action, reason: `Trade below $${MIN_TRADE_DOLLARS}` });
+        continue;
+      }
+      trades.push({
+        ...base,
+        action,
+        dollarAmount: round2(Math.abs(delta)),
+        ...(closePosition && { shares: position?.qty || 0 }),
+        closePosition,
+        afterValue: round2(targetValue),
+        reasoning: closePosition
+          ? `Rebalance: exit ${drift.ticker}, target allocation is 0%`
+          : `Rebalance: trim ${drift.ticker} from ${drift.currentWeight}% to ${drift.targetWeight}% of portfolio`
+      });
+      continue;
+    }
+
+    if (drift.currentValue === 0 && drift.targetWeight < settings.minPositionPercent) {
+      skipped.push({
+        ticker: drift.ticker,
+        action,
+        reason: `Target ${drift.targetWeight}% is below the minimum position size of ${settings.minPositionPercent}%`
+      });
+      continue;
+    }
+
+    buys.push({
+      ...base,
+      action,
+      dollarAmount: round2(delta),
+      closePosition: false,
+      afterValue: round2(targetValue),
+      reasoning: `Rebalance: raise ${drift.ticker} from ${drift.currentWeight}% to ${drift.targetWeight}% of portfolio`
+    });
+  }
+
+  const sellProceeds = trades.reduce((sum, trade) => sum + trade.dollarAmount, 0);
+  const allowedCash = calculateAllowedCash(snapshot.cash, snapshot.totalValue, settings.targetCashAllocation);
+  const requestedBuys = buys.reduce((sum, trade) => sum + trade.dollarAmount, 0);
+  const budget = allowedCash + sellProceeds;
+  const buyScale = requestedBuys > budget && requestedBuys > 0 ? budget / requestedBuys : 1;
+
+  for (const buy of buys) {
+    const dollarAmount = round2(buy.dollarAmount * buyScale);
+    if (dollarAmount < MIN_TRADE_DOLLARS) {
+      skipped.push({
+        ticker: buy.ticker,
+        action: 'BUY',
+        reason: buyScale < 1 ? 'Not enough deployable cash for this purchase' : `Trade below $${MIN_TRADE_DOLLARS}`
+      });
+      continue;
+    }
+    trades.push({
+      ...buy,
+      dollarAmount,
+      afterValue: round2(buy.beforeValue + dollarAmount),
+      reasoning: buyScale < 1
+        ? `${buy.reasoning} (scaled to ${Math.round(buyScale * 100)}% to fit available cash)`
+        : buy.reasoning
+    });
+  }
+
+  return {
+    drifts,
+    untracked,
+    trades,
+    skipped,
+    budget: {
+      allowedCash: round2(allowedCash),
+      sellProceeds: round2(sellProceeds),
+      requestedBuys: round2(requestedBuys),
+      buyScale: round2(buyScale)
+    }
+  };
+}
@@ -0,0 +1,302 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createBroker } from '../_shared/broker.ts';
+import { ALPACA_CREDENTIAL_FIELDS, decryptApiSettings } from '../_shared/credentialVault.ts';
+import { ANALYSIS_STATUS, TRADE_ORDER_STATUS } from '../_shared/statusTypes.ts';
+import { createTradeOrdersFromRebalancePlan, submitTradeOrders, TradeOrderData } from '../_shared/tradeOrders.ts';
+import { describeRiskViolations, evaluatePreTradeRisk, isRiskCheckUnavailable } from '../_shared/riskLimits.ts';
+import { buildRebalancePlan } from './plan.ts';
+import {
+  AnalysisDecision,
+  PortfolioSnapshot,
+  RebalanceApiSettings,
+  RebalanceRequestRow,
+  RebalanceSettings,
+  RebalanceStatus,
+  TargetAllocation
+} from './types.ts';
+
+const SETTINGS_COLUMNS = 'user_id, target_stock_allocation, target_cash_allocation, default_min_position_size, default_max_position_size, ' +
+  'alpaca_paper_api_key, alpaca_paper_secret_key, alpaca_live_api_key, alpaca_live_secret_key, alpaca_paper_trading';
+
+const SETTLED_ANALYSIS_STATUSES: string[] = [ANALYSIS_STATUS.COMPLETED, ANALYSIS_STATUS.ERROR, ANALYSIS_STATUS.CANCELLED];
+
+export interface RebalanceContext {
+  apiSettings: RebalanceApiSettings;
+  settings: RebalanceSettings;
+  targets: TargetAllocation[];
+}
+
+/**
+ * Load the user's rebalance settings and target allocations
+ */
+export async function loadRebalanceContext(
+  supabase: SupabaseClient,
+  userId: string,
+  driftThreshold: number
+): Promise<RebalanceContext> {
+  const { data: storedSettings, error: settingsError } = await supabase
+    .from('api_settings')
+    .select(SETTINGS_COLUMNS)
+    .eq('user_id', userId)
+    .returns<RebalanceApiSettings[]>()
+    .single();
+
+  if (settingsError || !storedSettings) {
+    throw new Error('API settings not found. Please configure in Settings.');
+  }
+
+  const apiSettings = await decryptApiSettings(supabase, storedSettings, userId, 'rebalance-coordinator', ALPACA_CREDENTIAL_FIELDS);
+
+  const { data: targets, error: targetsError } = await supabase
+    .from('target_allocations')
+    .select('ticker, target_percentage')
+    .eq('user_id', userId);
+
+  if (targetsError) {
+    throw new Error(`Failed to load target allocations: ${targetsError.message}`);
+  }
+
+  return {
+    apiSettings,
+    targets: (targets || []) as TargetAllocation[],
+    settings: {
+      driftThreshold,
+      targetStockAllocation: apiSettings.target_stock_allocation ?? 80,
+      targetCashAllocation: apiSettings.target_cash_allocation ?? 20,
+      minPositionPercent: apiSettings.default_min_position_size ?? 2,
+      maxPositionPercent: apiSettings.default_max_position_size ?? 25
+    }
+  };
+}
+
+/**
+ * Current account value, cash and positions from the user's broker
+ */
+export async function loadPortfolioSnapshot(apiSettings: RebalanceApiSettings): Promise<PortfolioSnapshot> {
+  const broker = createBroker(apiSettings);
+  const [account, positions] = await Promise.all([broker.getAccount(), broker.getPositions()]);
+
+  return {
+    totalValue: account.portfolioValue,
+    cash: account.cash,
+    positions: positions
+      .filter(position => position.side !== 'short')
+      .map(position => ({
+        ticker: position.symbol.toUpperCase(),
+        qty: position.quantity,
+        marketValue: position.marketValue,
+        price: position.currentPrice
+      })),
+    takenAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Move a request between statuses only if it is still in the expected one
+ * Returns false when another invocation got there first.
+ */
+export async function transitionRequest(
+  supabase: SupabaseClient,
+  requestId: string,
+  from: RebalanceStatus[],
+  to: RebalanceStatus,
+  changes: Record<string, unknown> = {}
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('rebalance_requests')
+    .update({ status: to, ...changes })
+    .eq('id', requestId)
+    .in('status', from)
+    .select('id');
+
+  if (error) {
+    console.error(`❌ Failed to move rebalance ${requestId} to ${to}:`, error);
+    return false;
+  }
+
+  return Array.isArray(data) && data.length > 0;
+}
+
+/**
+ * Start individual analyses for the drifted tickers
+ * Their orders are held back by the portfolio manager and their decisions feed the plan instead.
+ */
+export async function startDriftAnalyses(
+  supabase: SupabaseClient,
+  userId: string,
+  tickers: string[]
+): Promise<string[]> {
+  const analysisIds: string[] = [];
+
+  for (const ticker of tickers) {
+    const { data, error } = await supabase.functions.invoke('analysis-coordinator', {
+      body: { action: 'start-analysis', ticker, userId }
+    });
+
+    if (error || !data?.success || !data.analysisId) {
+      console.error(`❌ Failed to start rebalance analysis for ${ticker}:`, data?.error || error?.message);
+      continue;
+    }
+    analysisIds.push(data.analysisId);
+  }
+
+  return analysisIds;
+}
+
+async function loadAnalysisDecisions(supabase: SupabaseClient, analysisIds: string[]): Promise<Record<string, AnalysisDecision>> {
+  if (analysisIds.length === 0) {
+    return {};
+  }
+
+  const { data } = await supabase
+    .from('analysis_history')
+    .select('ticker, decision')
+    .in('id', analysisIds)
+    .eq('analysis_status', ANALYSIS_STATUS.COMPLETED);
+
+  const decisions: Record<string, AnalysisDecision> = {};
+  for (const analysis of (data || []) as { ticker: string; decision: string }[]) {
+    if (['BUY', 'SELL', 'HOLD'].includes(analysis.decision)) {
+      decisions[analysis.ticker.toUpperCase()] = analysis.decision as AnalysisDecision;
+    }
+  }
+  return decisions;
+}
+
+/**
+ * Check every planned trade against the user's hard risk limits before the batch is created
+ * Blocked orders are stored as rejected, so only allowed orders reach the approval screen.
+ * Orders whose check cannot run stay pending; execute-trade checks them again.
+ */
+async function applyRiskLimits(supabase: SupabaseClient, userId: string, context: RebalanceContext, orders: TradeOrderData[]): Promise<void> {
+  for (const order of orders) {
+    if (order.action !== 'BUY' && order.action !== 'SELL') {
+      continue;
+    }
+
+    const violations = await evaluatePreTradeRisk(supabase, userId, context.apiSettings, {
+      ticker: order.ticker,
+      action: order.action,
+      orderValue: order.dollarAmount || Math.abs(order.valueChange || 0)
+    });
+    if (violations.length > 0 && !isRiskCheckUnavailable(violations)) {
+      console.warn(`🚫 Rebalance ${order.action} ${order.ticker} blocked: ${describeRiskViolations(violations)}`);
+      order.riskViolations = violations;
+    }
+  }
+}
+
+/**
+ * Compute the plan for a request in 'planning' and create its linked trade orders
+ */
+export async function buildAndSubmitPlan(
+  supabase: SupabaseClient,
+  request: RebalanceRequestRow,
+  context: RebalanceContext,
+  snapshot?: PortfolioSnapshot
+): Promise<RebalanceStatus> {
+  try {
+    // Positions may have moved while analyses ran, so re-read them unless we just did
+    const portfolio = snapshot || await loadPortfolioSnapshot(context.apiSettings);
+    const decisions = await loadAnalysisDecisions(supabase, request.analysis_ids || []);
+    const plan = buildRebalancePlan(portfolio, context.targets, context.settings, decisions);
+
+    console.log(`⚖️ Rebalance ${request.id}: ${plan.trades.length} trade(s), ${plan.skipped.length} skipped, buy scale ${plan.budget.buyScale}`);
+
+    if (plan.trades.length === 0) {
+      await transitionRequest(supabase, request.id, ['planning'], 'no_action', { plan, portfolio_snapshot: portfolio });
+      return 'no_action';
+    }
+
+    const orders = createTradeOrdersFromRebalancePlan(plan, request.id);
+    await applyRiskLimits(supabase, request.user_id, context, orders);
+    const result = await submitTradeOrders(supabase, orders, {
+      userId: request.user_id,
+      sourceType: 'rebalance',
+      rebalanceRequestId: request.id,
+      agent: 'rebalance-coordinator'
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to create rebalance orders');
+    }
+
+    await transitionRequest(supabase, request.id, ['planning'], 'pending_approval', { plan, portfolio_snapshot: portfolio });
+    return 'pending_approval';
+  } catch (error) {
+    console.error(`❌ Rebalance ${request.id} planning failed:`, error);
+    await transitionRequest(supabase, request.id, ['planning'], 'failed', {
+      error_message: error instanceof Error ? error.message : String(error)
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * Build the plan of an 'analyzing' request once every linked analysis has settled
+ * Safe to call repeatedly; only the caller that claims the request builds the plan.
+ */
+export async function buildPlanWhenAnalysesSettled(supabase: SupabaseClient, request: RebalanceRequestRow): Promise<RebalanceStatus> {
+  if (request.status !== 'analyzing') {
+    return request.status;
+  }
+
+  const { data: analyses } = await supabase
+    .from('analysis_history')
+    .select('id, analysis_status')
+    .in('id', request.analysis_ids || []);
+
+  const unsettled = ((analyses || []) as { id: string; analysis_status: string }[]).filter(analysis => !SETTLED_ANALYSIS_STATUSES.includes(analysis.analysis_status));
+  if (unsettled.length > 0) {
+    console.log(`⏳ Rebalance ${request.id} waiting for ${unsettled.length} analysis(es)`);
+    return 'analyzing';
+  }
+
+  if (!await transitionRequest(supabase, request.id, ['analyzing'], 'planning')) {
+    return request.status;
+  }
+
+  const context = await loadRebalanceContext(supabase, request.user_id, Number(request.drift_threshold));
+  return buildAndSubmitPlan(supabase, { ...request, status: 'planning' }, context);
+}
+
+/**
+ * Execute every pending order of an approved batch through execute-trade, sells before buys
+ */
+export async function executeBatch(
+  supabase: SupabaseClient,
+  requestId: string,
+  authHeader: string
+): Promise<{ ticker: string; action: string; success: boolean; error?: string }[]> {
+  const { data: orders, error } = await supabase
+    .from('trading_actions')
+    .select('id, ticker, action')
+    .eq('rebalance_request_id', requestId)
+    .eq('status', TRADE_ORDER_STATUS.PENDING);
+
+  if (error) {
+    throw new Error(`Failed to load rebalance orders: ${error.message}`);
+  }
+
+  // Sells first so their proceeds are available to the buys
+  const rows = (orders || []) as { id: string; ticker: string; action: string }[];
+  const ordered = [...rows].sort((a, b) => (a.action === b.action ? 0 : a.action === 'SELL' ? -1 : 1));
+  const results = [];
+
+  for (const order of ordered) {
+    const { data, error: invokeError } = await supabase.functions.invoke('execute-trade', {
+      body: { tradeActionId: order.id, action: 'approve' },
+      headers: { Authorization: authHeader }
+    });
+
+    const success = !invokeError && data?.success !== false;
+    results.push({
+      ticker: order.ticker,
+      action: order.action,
+      success,
+      ...(!success && { error: data?.error || data?.message || invokeError?.message || 'Execution failed' })
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,139 @@
+export type RebalanceStatus =
+  | 'analyzing'
+  | 'planning'
+  | 'pending_approval'
+  | 'approved'
+  | 'rejected'
+  | 'no_action'
+  | 'failed';
+
+export type AnalysisDecision = 'BUY' | 'SELL' | 'HOLD';
+
+/**
+ * Decrypted api_settings columns the coordinator selects
+ */
+export interface RebalanceApiSettings {
+  user_id: string;
+  target_stock_allocation: number | null;
+  target_cash_allocation: number | null;
+  default_min_position_size: number | null;
+  default_max_position_size: number | null;
+  alpaca_paper_api_key: string | null;
+  alpaca_paper_secret_key: string | null;
+  alpaca_live_api_key: string | null;
+  alpaca_live_secret_key: string | null;
+  alpaca_paper_trading: boolean | null;
+}
+
+/**
+ * Row of the rebalance_requests table
+ */
+export interface RebalanceRequestRow {
+  id: string;
+  user_id: string;
+  status: RebalanceStatus;
+  drift_threshold: number;
+  run_analysis: boolean;
+  analysis_ids: string[];
+  portfolio_snapshot: PortfolioSnapshot | Record<string, never>;
+  plan: RebalancePlan | Record<string, never>;
+  error_message: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+export interface SnapshotPosition {
+  ticker: string;
+  qty: number;
+  marketValue: number;
+  price: number;
+}
+
+export interface PortfolioSnapshot {
+  totalValue: number;
+  cash: number;
+  positions: SnapshotPosition[];
+  takenAt: string;
+}
+
+export interface TargetAllocation {
+  ticker: string;
+  target_percentage: number;  // Weight within the stock portion of the portfolio
+}
+
+export interface RebalanceSettings {
+  driftThreshold: number;         // Percentage points of portfolio value
+  targetStockAllocation: number;  // 0-100
+  targetCashAllocation: number;   // 0-100
+  minPositionPercent: number;
+  maxPositionPercent: number;
+}
+
+export interface TickerDrift {
+  ticker: string;
+  currentValue: number;
+  currentWeight: number;  // % of portfolio value
+  targetWeight: number;   // % of portfolio value, capped at the max position size
+  drift: number;          // currentWeight - targetWeight
+  drifted: boolean;
+}
+
+export interface PlannedTrade {
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  dollarAmount: number;
+  shares?: number;           // Only set for full exits, which sell the whole position
+  closePosition: boolean;
+  currentWeight: number;
+  targetWeight: number;
+  beforeValue: number;
+  afterValue: number;
+  beforeShares: number;
+  reasoning: string;
+}
+
+export interface SkippedTrade {
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  reason: string;
+}
+
+export interface RebalancePlan {
+  drifts: TickerDrift[];
+  untracked: string[];        // Held tickers without a target allocation, left untouched
+  trades: PlannedTrade[];
+  skipped: SkippedTrade[];
+  budget: {
+    allowedCash: number;
+    sellProceeds: number;
+    requestedBuys: number;
+    buyScale: number;         // < 1 when buys were scaled down to fit the budget
+  };
+}
+
+export interface StartRebalanceRequest {
+  action: 'start-rebalance';
+  driftThreshold?: number;
+  runAnalysis?: boolean;
+}
+
+export interface GetRebalanceRequest {
+  action: 'get-rebalance';
+  rebalanceRequestId?: string;  // Defaults to the latest request
+}
+
+export interface BatchDecisionRequest {
+  action: 'approve-batch' | 'reject-batch';
+  rebalanceRequestId: string;
+}
+
+export interface AnalysisCompletedRequest {
+  action: 'analysis-completed';
+  analysisId: string;
+}
+
+export type RebalanceCoordinatorRequest =
+  | StartRebalanceRequest
+  | GetRebalanceRequest
+  | BatchDecisionRequest
+  | AnalysisCompletedRequest;
@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { CREDENTIAL_COLUMNS, CredentialTable, rewrapCredential } from '../_shared/credentialVault.ts';
+
+/**
+ * Rotate Credentials - re-wraps every stored credential with the current vault key
+ *
+ * Called by an operator with the service role key after changing CREDENTIAL_ENCRYPTION_KEY
+ * (the old key must stay in CREDENTIAL_PREVIOUS_KEYS until this has run). Plaintext values
+ * written before the vault existed are encrypted on the same pass. Credentials are never
+ * decrypted, only their data keys are re-wrapped, so nothing is written to credential_access_log.
+ *
+ * Body: { dryRun?: boolean } - dryRun counts what would change without writing
+ */
+
+const PAGE_SIZE = 200;
+
+// Credential columns hold ciphertext, or plaintext written before the vault existed
+type CredentialRow = { id: string; user_id: string } & Record<string, string | null>;
+
+interface TableRotationResult {
+  rows: number;
+  updatedRows: number;
+  updatedCredentials: number;
+  failedRows: number;
+}
+
+async function rotateTable(supabase: SupabaseClient, table: CredentialTable, dryRun: boolean): Promise<TableRotationResult> {
+  const columns = CREDENTIAL_COLUMNS[table];
+  const result: TableRotationResult = { rows: 0, updatedRows: 0, updatedCredentials: 0, failedRows: 0 };
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: rows, error } = await supabase
+      .from(table)
+      .select(['id', 'user_id', ...columns].join(', '))
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+      .returns<CredentialRow[]>();
+
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`);
+    }
+
+    for (const row of rows || []) {
+      result.rows++;
+
+      try {
+        const updates: Record<string, string> = {};
+        for (const column of columns) {
+          const value = row[column];
+          if (!value) {
+            continue;
+          }
+          const rewrapped = await rewrapCredential(value, row.user_id, table, column);
+          if (rewrapped !== null) {
+            updates[column] = rewrapped;
+          }
+        }
+
+        const changed = Object.keys(updates).length;
+        if (changed === 0) {
+          continue;
+        }
+
+        if (!dryRun) {
+          const { error: updateError } = await supabase
+            .from(table)
+            .update(updates)
+            .eq('id', row.id);
+
+          if (updateError) {
+            throw updateError;
+          }
+        }
+
+        result.updatedRows++;
+        result.updatedCredentials += changed;
+      } catch (rowError) {
+        console.error(`❌ Failed to rotate ${table} row ${row.id}:`, rowError);
+        result.failedRows++;
+      }
+    }
+
+    if (!rows || rows.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return result;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const authHeader = req.headers.get('Authorization');
+
+    // Rotation touches every user's credentials, so only the service role may run it
+    if (!serviceRoleKey || authHeader !== `Bearer ${serviceRoleKey}`) {
+      return createErrorResponse('rotate-credentials requires the service role key', 401);
+    }
+
+    const { dryRun = false }: { dryRun?: boolean } = await req.json().catch(() => ({}));
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const tables: Record<string, TableRotationResult> = {};
+    for (const table of Object.keys(CREDENTIAL_COLUMNS) as CredentialTable[]) {
+      tables[table] = await rotateTable(supabase, table, dryRun);
+      console.log(`🔑 ${dryRun ? 'Dry run: ' : ''}${table} - ${tables[table].updatedCredentials} credential(s) in ${tables[table].updatedRows} of ${tables[table].rows} row(s) re-wrapped, ${tables[table].failedRows} failed`);
+    }
+
+    return createSuccessResponse({ dryRun, tables });
+
+  } catch (error) {
+    console.error('❌ Credential rotation error:', error);
+    return createErrorResponse(error.message || 'Credential rotation failed', 500);
+  }
+});
@@ -0,0 +1,166 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseHelpers.ts';
+import { maskCredential, isMaskedValue } from '../utils/credentialHelpers.ts';
+import {
+  deleteUserBrokerAccount,
+  getUserBrokerAccount,
+  getUserBrokerAccounts,
+  saveUserBrokerAccount
+} from '../utils/dbHelpers.ts';
+import { validateApiKey } from '../../_shared/apiValidator.ts';
+
+const RISK_LEVELS = ['conservative', 'moderate', 'aggressive'];
+
+/**
+ * An account as sent by the settings page; the keys may be masked when unchanged
+ */
+interface BrokerAccountInput {
+  id?: string;
+  name?: string;
+  is_paper?: boolean;
+  api_key?: string;
+  secret_key?: string;
+  user_risk_level?: string;
+  default_position_size_dollars?: number | string;
+  default_min_position_size?: number | string;
+  default_max_position_size?: number | string;
+  target_stock_allocation?: number | string;
+  auto_execute_trades?: boolean;
+}
+
+function maskAccount<T extends { api_key: string | null; secret_key: string | null }>(account: T): T {
+  return {
+    ...account,
+    api_key: maskCredential(account.api_key),
+    secret_key: maskCredential(account.secret_key)
+  };
+}
+
+/**
+ * Plaintext value of a key field: a new key, or the stored one when the field is unchanged or blank
+ */
+function resolveKey(value: string | undefined, currentValue: string | null | undefined, label: string): { key?: string; isNew?: boolean; error?: string } {
+  if (isMaskedValue(value)) {
+    if (currentValue && value === maskCredential(currentValue)) {
+      return { key: currentValue, isNew: false };
+    }
+    return { error: `Invalid masked ${label}. Please enter the actual key or leave it unchanged.` };
+  }
+  if (value) {
+    return { key: value, isNew: true };
+  }
+  if (currentValue) {
+    return { key: currentValue, isNew: false };
+  }
+  return { error: `${label} is required` };
+}
+
+export async function handleGetBrokerAccounts(supabase: SupabaseClient, userId: string): Promise<Response> {
+  const { accounts, error } = await getUserBrokerAccounts(supabase, userId);
+
+  if (error) {
+    console.error('Error fetching broker accounts:', error);
+    return createSuccessResponse({ accounts: [] });
+  }
+
+  return createSuccessResponse({ accounts: accounts.map(maskAccount) });
+}
+
+export async function handleSaveBrokerAccount(supabase: SupabaseClient, userId: string, body: { account?: BrokerAccountInput }): Promise<Response> {
+  const { account } = body;
+
+  if (!account?.name?.trim()) {
+    return createErrorResponse('Account name is required');
+  }
+
+  const isPaper = account.is_paper !== false;
+  const riskLevel = account.user_risk_level || 'moderate';
+  const minPositionSize = Number(account.default_min_position_size ?? 2);
+  const maxPositionSize = Number(account.default_max_position_size ?? 25);
+  const stockAllocation = Number(account.target_stock_allocation ?? 80);
+
+  if (!RISK_LEVELS.includes(riskLevel)) {
+    return createErrorResponse(`Invalid risk level: ${riskLevel}`);
+  }
+  if (!(minPositionSize >= 0 && maxPositionSize <= 100 && minPositionSize <= maxPositionSize)) {
+    return createErrorResponse('Position size limits must be between 0% and 100%, with the minimum not above the maximum');
+  }
+  if (!(stockAllocation >= 0 && stockAllocation <= 100)) {
+    return createErrorResponse('Stock allocation must be between 0% and 100%');
+  }
+
+  // Get current account if updating
+  let currentAccount = null;
+  if (account.id) {
+    const { account: existing } = await getUserBrokerAccount(supabase, userId, account.id);
+    if (!existing) {
+      return createErrorResponse('Broker account not found', 404);
+    }
+    currentAccount = existing;
+  }
+
+  const apiKey = resolveKey(account.api_key, currentAccount?.api_key, 'API key');
+  if (apiKey.error) {
+    return createErrorResponse(apiKey.error);
+  }
+  const secretKey = resolveKey(account.secret_key, currentAccount?.secret_key, 'Secret key');
+  if (secretKey.error) {
+    return createErrorResponse(secretKey.error);
+  }
+
+  // Validate new keys, and existing keys against the other endpoint when the trading mode changes
+  if (apiKey.isNew || secretKey.isNew || currentAccount?.is_paper !== isPaper) {
+    try {
+      const validation = await validateApiKey(isPaper ? 'alpaca_paper' : 'alpaca_live', apiKey.key!, undefined, secretKey.key);
+      if (!validation.valid) {
+        return createErrorResponse(`Alpaca key validation failed: ${validation.message}`);
+      }
+    } catch (error) {
+      console.error('Alpaca validation error:', error);
+      return createErrorResponse(`Alpaca key validation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const accountData = {
+    user_id: userId,
+    name: account.name.trim(),
+    is_paper: isPaper,
+    api_key: apiKey.key,
+    secret_key: secretKey.key,
+    user_risk_level: riskLevel,
+    default_position_size_dollars: Number(account.default_position_size_dollars ?? 1000),
+    default_min_position_size: minPositionSize,
+    default_max_position_size: maxPositionSize,
+    target_stock_allocation: stockAllocation,
+    target_cash_allocation: 100 - stockAllocation,
+    auto_execute_trades: Boolean(account.auto_execute_trades)
+  };
+
+  // Update existing or insert new (the keys are encrypted on write)
+  const result = await saveUserBrokerAccount(supabase, userId, accountData, currentAccount ? account.id : undefined);
+
+  if (result.error) {
+    console.error('Error saving broker account:', result.error);
+    return createErrorResponse(result.error.message);
+  }
+
+  return createSuccessResponse({
+    success: true,
+    account: maskAccount({ ...result.data, api_key: apiKey.key, secret_key: secretKey.key })
+  });
+}
+
+export async function handleDeleteBrokerAccount(supabase: SupabaseClient, userId: string, body: { accountId?: string }): Promise<Response> {
+  if (!body.accountId) {
+    return createErrorResponse('accountId is required');
+  }
+
+  // Pending orders of the account are rejected; past analyses and orders keep their history
+  const { error } = await deleteUserBrokerAccount(supabase, userId, body.accountId);
+  if (error) {
+    console.error('Error deleting broker account:', error);
+    return createErrorResponse(error.message);
+  }
+
+  return createSuccessResponse({ success: true });
+}
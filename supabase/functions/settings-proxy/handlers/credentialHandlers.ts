@@ -2,12 +2,13 @@ import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { createSuccessResponse, createErrorResponse } from '../utils/responseHelpers.ts';
 import { maskCredential, isMaskedValue } from '../utils/credentialHelpers.ts';
 import { getUserSettings } from '../utils/dbHelpers.ts';
+import { ALPACA_CREDENTIAL_FIELDS } from '../../_shared/credentialVault.ts';
 
 export async function handleCheckCredentialsChanged(supabase: SupabaseClient, userId: string, body: any): Promise<Response> {
   const { alpacaPaperApiKey, alpacaPaperSecretKey, alpacaLiveApiKey, alpacaLiveSecretKey } = body;
   
-  // Get current settings
-  const { settings, error } = await getUserSettings(supabase, userId);
+  // Get current settings (only the Alpaca keys are compared)
+  const { settings, error } = await getUserSettings(supabase, userId, ALPACA_CREDENTIAL_FIELDS);
   
   if (error || !settings) {
     return createSuccessResponse({ 
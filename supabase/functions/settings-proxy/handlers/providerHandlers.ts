@@ -1,8 +1,9 @@
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
 import { createSuccessResponse, createErrorResponse } from '../utils/responseHelpers.ts';
 import { maskCredential, isMaskedValue } from '../utils/credentialHelpers.ts';
-import { getUserProviderConfigurations } from '../utils/dbHelpers.ts';
+import { getUserProviderConfiguration, getUserProviderConfigurations, saveUserProviderConfiguration } from '../utils/dbHelpers.ts';
 import { validateApiKey } from '../../_shared/apiValidator.ts';
+import { OPENAI_COMPATIBLE_PROVIDER } from '../../_shared/aiProviders.ts';
 
 export async function handleGetProviderConfigurations(supabase: SupabaseClient, userId: string): Promise<Response> {
   const { configurations, error } = await getUserProviderConfigurations(supabase, userId);
@@ -28,16 +29,16 @@ export async function handleSaveProviderConfiguration(supabase: SupabaseClient,
     return createErrorResponse('Provider configuration required');
   }
 
+  const isOpenAICompatible = provider.provider === OPENAI_COMPATIBLE_PROVIDER;
+  if (isOpenAICompatible && !provider.base_url) {
+    return createErrorResponse('Base URL is required for OpenAI-compatible providers');
+  }
+
   // Get current configuration if updating
   let currentConfig = null;
   if (provider.id) {
-    const { data } = await supabase
-      .from('provider_configurations')
-      .select('*')
-      .eq('id', provider.id)
-      .eq('user_id', userId)
-      .single();
-    currentConfig = data;
+    const { configuration } = await getUserProviderConfiguration(supabase, userId, provider.id);
+    currentConfig = configuration;
   }
 
   // Check if API key is masked and matches current
@@ -66,15 +67,19 @@ export async function handleSaveProviderConfiguration(supabase: SupabaseClient,
   } else if (!provider.api_key && currentConfig) {
     // No API key provided but config exists - keep current
     finalApiKey = currentConfig.api_key;
+  } else if (isOpenAICompatible) {
+    // Self-hosted servers may run without a key
+    finalApiKey = '';
   } else {
     // No API key and no current config
     return createErrorResponse('API key is required');
   }
 
-  // Validate new API keys before saving
-  if (isNewApiKey && finalApiKey) {
+  // Validate new API keys before saving (and self-hosted servers whenever their URL changes)
+  const isNewBaseUrl = isOpenAICompatible && provider.base_url !== currentConfig?.base_url;
+  if ((isNewApiKey && finalApiKey) || isNewBaseUrl) {
     try {
-      const validation = await validateApiKey(provider.provider, finalApiKey);
+      const validation = await validateApiKey(provider.provider, finalApiKey, undefined, undefined, provider.base_url);
       if (!validation.valid) {
         return createErrorResponse(`API key validation failed: ${validation.message}`);
       }
@@ -90,30 +95,19 @@ export async function handleSaveProviderConfiguration(supabase: SupabaseClient,
     nickname: provider.nickname,
     provider: provider.provider,
     api_key: finalApiKey,
+    base_url: isOpenAICompatible ? provider.base_url : null,
+    models: isOpenAICompatible && Array.isArray(provider.models) ? provider.models : null,
     is_default: provider.is_default || false,
     updated_at: new Date().toISOString()
   };
 
-  let result;
-  if (provider.id && currentConfig) {
-    // Update existing
-    const { data, error } = await supabase
-      .from('provider_configurations')
-      .update(configData)
-      .eq('id', provider.id)
-      .eq('user_id', userId)
-      .select()
-      .single();
-    result = { data, error };
-  } else {
-    // Insert new
-    const { data, error } = await supabase
-      .from('provider_configurations')
-      .insert(configData)
-      .select()
-      .single();
-    result = { data, error };
-  }
+  // Update existing or insert new (the API key is encrypted on write)
+  const result = await saveUserProviderConfiguration(
+    supabase,
+    userId,
+    configData,
+    provider.id && currentConfig ? provider.id : undefined
+  );
 
   if (result.error) {
     console.error('Error saving provider configuration:', result.error);
@@ -123,7 +117,7 @@ export async function handleSaveProviderConfiguration(supabase: SupabaseClient,
   // Return with masked API key
   const savedConfig = {
     ...result.data,
-    api_key: maskCredential(result.data.api_key)
+    api_key: maskCredential(finalApiKey)
   };
 
   return createSuccessResponse({ success: true, configuration: savedConfig });
@@ -3,9 +3,11 @@ import { createSuccessResponse, createErrorResponse } from '../utils/responseHel
 import { maskAllCredentials, processSettingsUpdate, isMaskedValue } from '../utils/credentialHelpers.ts';
 import { getUserSettings, upsertUserSettings } from '../utils/dbHelpers.ts';
 import { validateApiKey } from '../../_shared/apiValidator.ts';
+import { OPENAI_COMPATIBLE_PROVIDER } from '../../_shared/aiProviders.ts';
 
 export async function handleCheckConfigured(supabase: SupabaseClient, userId: string): Promise<Response> {
-  const { settings, error } = await getUserSettings(supabase, userId);
+  // Only presence matters here, so nothing is decrypted
+  const { settings, error } = await getUserSettings(supabase, userId, []);
 
   if (error || !settings) {
     return createSuccessResponse({ configured: {} });
@@ -91,6 +93,28 @@ export async function handleUpdateSettings(supabase: SupabaseClient, userId: str
     return createSuccessResponse({ success: true, settings: maskedCurrentSettings });
   }
 
+  // Self-hosted OpenAI-compatible servers may run without a key; never forward the
+  // previous provider's key to a user-supplied URL
+  const aiProvider = cleanedSettings.ai_provider || currentSettings?.ai_provider;
+  if (aiProvider === OPENAI_COMPATIBLE_PROVIDER) {
+    if (currentSettings?.ai_provider !== OPENAI_COMPATIBLE_PROVIDER && !('ai_api_key' in cleanedSettings)) {
+      cleanedSettings.ai_api_key = null;
+    }
+
+    const baseUrl = cleanedSettings.ai_base_url || currentSettings?.ai_base_url;
+    if (!baseUrl) {
+      return createErrorResponse('OpenAI-compatible provider requires a base URL');
+    }
+
+    if ('ai_base_url' in cleanedSettings || 'ai_api_key' in cleanedSettings) {
+      const apiKey = 'ai_api_key' in cleanedSettings ? cleanedSettings.ai_api_key : currentSettings?.ai_api_key;
+      const validation = await validateApiKey(OPENAI_COMPATIBLE_PROVIDER, apiKey || '', undefined, undefined, baseUrl);
+      if (!validation.valid) {
+        return createErrorResponse(`${OPENAI_COMPATIBLE_PROVIDER} validation failed: ${validation.message}`);
+      }
+    }
+  }
+
   // Validate new API keys before saving
   for (const [key, value] of Object.entries(cleanedSettings)) {
     // Check if this is an API key field and it's a new value (not masked)
@@ -113,8 +137,8 @@ export async function handleUpdateSettings(supabase: SupabaseClient, userId: str
         provider = 'openrouter';
       }
 
-      // Validate the API key if we identified the provider
-      if (provider && !provider.includes('alpaca')) {
+      // Validate the API key if we identified the provider (OpenAI-compatible servers were checked above)
+      if (provider && !provider.includes('alpaca') && provider !== OPENAI_COMPATIBLE_PROVIDER) {
         try {
           const validation = await validateApiKey(provider, value);
           if (!validation.valid) {
@@ -1,10 +1,12 @@
 import { validateApiKey } from '../../_shared/apiValidator.ts';
+import { OPENAI_COMPATIBLE_PROVIDER } from '../../_shared/aiProviders.ts';
 import { createSuccessResponse, createJsonResponse } from '../utils/responseHelpers.ts';
 
 export async function handleValidation(body: any): Promise<Response> {
-  const { provider, apiKey, model, secretKey } = body;
+  const { provider, apiKey, model, secretKey, baseUrl } = body;
   
-  if (!provider || !apiKey) {
+  // Self-hosted OpenAI-compatible servers may run without a key
+  if (!provider || (!apiKey && provider !== OPENAI_COMPATIBLE_PROVIDER)) {
     return createJsonResponse({ 
       valid: false, 
       message: 'Missing provider or API key' 
@@ -12,8 +14,8 @@ export async function handleValidation(body: any): Promise<Response> {
   }
 
   try {
-    // Use real API validation (pass secretKey for Alpaca providers)
-    const result = await validateApiKey(provider, apiKey, model, secretKey);
+    // Use real API validation (pass secretKey for Alpaca providers, baseUrl for self-hosted servers)
+    const result = await validateApiKey(provider, apiKey || '', model, secretKey, baseUrl);
     return createSuccessResponse(result);
   } catch (error: any) {
     console.error('Validation error:', error);
@@ -7,6 +7,7 @@ import { handleValidation } from './handlers/validationHandler.ts';
 import { handleCheckConfigured, handleGetSettings, handleUpdateSettings } from './handlers/settingsHandlers.ts';
 import { handleGetProviderConfigurations, handleSaveProviderConfiguration } from './handlers/providerHandlers.ts';
 import { handleCheckCredentialsChanged } from './handlers/credentialHandlers.ts';
+import { handleDeleteBrokerAccount, handleGetBrokerAccounts, handleSaveBrokerAccount } from './handlers/brokerAccountHandlers.ts';
 
 // Import utilities
 import { createErrorResponse } from './utils/responseHelpers.ts';
@@ -58,6 +59,15 @@ Deno.serve(async (req) => {
 
       case 'check_credentials_changed':
         return await handleCheckCredentialsChanged(supabase, userId, body);
+
+      case 'get_broker_accounts':
+        return await handleGetBrokerAccounts(supabase, userId);
+
+      case 'save_broker_account':
+        return await handleSaveBrokerAccount(supabase, userId, body);
+
+      case 'delete_broker_account':
+        return await handleDeleteBrokerAccount(supabase, userId, body);
       
       default:
         return createErrorResponse('Invalid action');
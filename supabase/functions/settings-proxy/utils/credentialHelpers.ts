@@ -1,3 +1,5 @@
+import { CREDENTIAL_COLUMNS } from '../../_shared/credentialVault.ts';
+
 // Helper function to mask credentials (show first 6 and last 6 characters)
 export const maskCredential = (credential: string | null): string | null => {
   if (!credential || credential.length <= 8) {
@@ -16,19 +18,8 @@ export const isMaskedValue = (value: any): boolean => {
   return value.includes('•') && value.length >= 8;
 };
 
-// Credential field names for batch operations
-export const CREDENTIAL_FIELDS = [
-  'ai_api_key',
-  'openai_api_key',
-  'anthropic_api_key',
-  'google_api_key',
-  'deepseek_api_key',
-  'openrouter_api_key',
-  'alpaca_paper_api_key',
-  'alpaca_paper_secret_key',
-  'alpaca_live_api_key',
-  'alpaca_live_secret_key'
-];
+// Credential field names for batch operations (the columns the credential vault encrypts)
+export const CREDENTIAL_FIELDS = CREDENTIAL_COLUMNS.api_settings;
 
 // Mask all credentials in settings object
 export function maskAllCredentials(settings: any): any {
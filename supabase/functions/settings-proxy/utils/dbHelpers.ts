@@ -1,30 +1,58 @@
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  decryptApiSettings,
+  decryptCredentialFields,
+  decryptProviderConfigurations,
+  encryptCredentialFields
+} from '../../_shared/credentialVault.ts';
+import { TRADE_ORDER_STATUS } from '../../_shared/statusTypes.ts';
 
-export async function getUserSettings(supabase: SupabaseClient, userId: string) {
-  const { data: settings, error } = await supabase
+// Credentials are encrypted at rest; these helpers hand plaintext to the handlers and encrypt on write
+
+const FUNCTION_NAME = 'settings-proxy';
+
+// credentialFields limits which credentials are decrypted (all of them by default)
+export async function getUserSettings(supabase: SupabaseClient, userId: string, credentialFields?: string[]) {
+  const { data, error } = await supabase
     .from('api_settings')
     .select('*')
     .eq('user_id', userId)
     .single();
-    
+
+  const settings = data ? await decryptApiSettings(supabase, data, userId, FUNCTION_NAME, credentialFields) : data;
   return { settings, error };
 }
 
 export async function getUserProviderConfigurations(supabase: SupabaseClient, userId: string) {
-  const { data: configurations, error } = await supabase
+  const { data, error } = await supabase
     .from('provider_configurations')
     .select('*')
     .eq('user_id', userId)
     .order('created_at', { ascending: true });
-    
-  return { configurations: configurations || [], error };
+
+  const configurations = await decryptProviderConfigurations(supabase, data || [], userId, FUNCTION_NAME);
+  return { configurations, error };
 }
 
-export async function upsertUserSettings(supabase: SupabaseClient, userId: string, settings: Record<string, any>) {
+export async function getUserProviderConfiguration(supabase: SupabaseClient, userId: string, id: string) {
   const { data, error } = await supabase
+    .from('provider_configurations')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  const [configuration] = data ? await decryptProviderConfigurations(supabase, [data], userId, FUNCTION_NAME) : [data];
+  return { configuration, error };
+}
+
+export async function upsertUserSettings(supabase: SupabaseClient, userId: string, settings: Record<string, unknown>) {
+  const encryptedSettings = await encryptCredentialFields('api_settings', settings, userId);
+
+  const { data: saved, error } = await supabase
     .from('api_settings')
     .upsert({
-      ...settings,
+      ...encryptedSettings,
       user_id: userId,
       updated_at: new Date().toISOString()
     }, {
@@ -32,6 +60,98 @@ export async function upsertUserSettings(supabase: SupabaseClient, userId: strin
     })
     .select()
     .single();
-    
+
+  const data = saved ? await decryptApiSettings(supabase, saved, userId, FUNCTION_NAME) : saved;
+  return { data, error };
+}
+
+export async function saveUserProviderConfiguration(
+  supabase: SupabaseClient,
+  userId: string,
+  configData: Record<string, unknown>,
+  id?: string
+) {
+  const encryptedConfig = await encryptCredentialFields('provider_configurations', configData, userId);
+
+  const query = id
+    ? supabase
+      .from('provider_configurations')
+      .update(encryptedConfig)
+      .eq('id', id)
+      .eq('user_id', userId)
+    : supabase
+      .from('provider_configurations')
+      .insert(encryptedConfig);
+
+  const { data, error } = await query.select().single();
+  return { data, error };
+}
+
+export async function getUserBrokerAccounts(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from('broker_accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  const accounts = await Promise.all((data || []).map(account =>
+    decryptCredentialFields(supabase, 'broker_accounts', account, userId, FUNCTION_NAME)
+  ));
+  return { accounts, error };
+}
+
+export async function getUserBrokerAccount(supabase: SupabaseClient, userId: string, id: string) {
+  const { data, error } = await supabase
+    .from('broker_accounts')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .single();
+
+  const account = data ? await decryptCredentialFields(supabase, 'broker_accounts', data, userId, FUNCTION_NAME) : data;
+  return { account, error };
+}
+
+export async function saveUserBrokerAccount(
+  supabase: SupabaseClient,
+  userId: string,
+  accountData: Record<string, unknown>,
+  id?: string
+) {
+  const encryptedAccount = await encryptCredentialFields('broker_accounts', accountData, userId);
+
+  const query = id
+    ? supabase
+      .from('broker_accounts')
+      .update(encryptedAccount)
+      .eq('id', id)
+      .eq('user_id', userId)
+    : supabase
+      .from('broker_accounts')
+      .insert(encryptedAccount);
+
+  const { data, error } = await query.select().single();
   return { data, error };
-}
\ No newline at end of file
+}
+
+export async function deleteUserBrokerAccount(supabase: SupabaseClient, userId: string, id: string) {
+  // Pending orders would otherwise lose their account and execute on the primary one
+  const { error: rejectError } = await supabase
+    .from('trading_actions')
+    .update({ status: TRADE_ORDER_STATUS.REJECTED })
+    .eq('user_id', userId)
+    .eq('broker_account_id', id)
+    .eq('status', TRADE_ORDER_STATUS.PENDING);
+
+  if (rejectError) {
+    return { error: rejectError };
+  }
+
+  const { error } = await supabase
+    .from('broker_accounts')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId);
+
+  return { error };
+}
@@ -0,0 +1,159 @@
+/**
+ * Mark-to-market comparison of the paper shadow fills ("followed the AI") with the
+ * live fills the user approved, per trade and in total
+ */
+import type { BrokerOrderStatus } from '../_shared/broker.ts';
+
+/**
+ * Row of the shadow_trade_divergence view; numeric columns arrive as strings
+ */
+export interface ShadowDivergenceRow {
+  id: string;
+  user_id: string;
+  trading_action_id: string;
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  asset_class: string | null;
+  option_symbol: string | null;
+  created_at: string;
+  decision_price: number | string | null;
+  paper_order_id: string | null;
+  paper_order_status: BrokerOrderStatus | null;
+  paper_filled_qty: number | string | null;
+  paper_filled_price: number | string | null;
+  paper_error: string | null;
+  live_status: string;
+  live_order_status: string | null;
+  live_filled_qty: number | string | null;
+  live_filled_price: number | string | null;
+  divergence: string;
+  fill_price_difference: number | string | null;
+}
+
+export interface SideResult {
+  status: string | null;
+  filledQty: number | null;
+  filledPrice: number | null;
+  pnl: number | null;
+}
+
+export interface ShadowTradeComparison {
+  id: string;
+  tradingActionId: string;
+  ticker: string;
+  action: 'BUY' | 'SELL';
+  assetClass: string;
+  optionSymbol: string | null;
+  createdAt: string;
+  divergence: string;
+  decisionPrice: number | null;
+  currentPrice: number | null;
+  fillPriceDifference: number | null;
+  paper: SideResult & { error: string | null };
+  live: SideResult & { orderStatus: string | null };
+}
+
+export interface SideSummary {
+  trades: number;
+  filled: number;
+  pnl: number;
+}
+
+export interface ShadowComparisonSummary {
+  followedAi: SideSummary;
+  approved: SideSummary;
+  pnlDifference: number;
+  unpricedTrades: number;
+}
+
+const toNumber = (value: unknown): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * P&L of a fill marked at the current price; a SELL gains when the price fell afterwards
+ */
+function markToMarket(action: string, qty: number | null, fillPrice: number | null, currentPrice: number | null): number | null {
+  if (!qty || !fillPrice || !currentPrice) {
+    return null;
+  }
+  const direction = action === 'BUY' ? 1 : -1;
+  return round(direction * (currentPrice - fillPrice) * qty);
+}
+
+/**
+ * Build per-trade comparisons from shadow_trade_divergence rows and current prices by ticker
+ * Option trades are listed but not marked, since the underlying's price says little about the premium
+ */
+export function compareShadowTrades(
+  rows: ShadowDivergenceRow[],
+  currentPrices: Record<string, number>
+): { trades: ShadowTradeComparison[]; summary: ShadowComparisonSummary } {
+  const summary: ShadowComparisonSummary = {
+    followedAi: { trades: 0, filled: 0, pnl: 0 },
+    approved: { trades: 0, filled: 0, pnl: 0 },
+    pnlDifference: 0,
+    unpricedTrades: 0
+  };
+
+  const trades = rows.map((row): ShadowTradeComparison => {
+    const isOption = row.asset_class === 'option';
+    const currentPrice = isOption ? null : currentPrices[row.ticker] ?? null;
+
+    const paperQty = toNumber(row.paper_filled_qty);
+    const paperPrice = toNumber(row.paper_filled_price);
+    const liveApproved = row.live_status === 'approved';
+    const liveQty = liveApproved ? toNumber(row.live_filled_qty) : null;
+    const livePrice = liveApproved ? toNumber(row.live_filled_price) : null;
+
+    const paperPnl = markToMarket(row.action, paperQty, paperPrice, currentPrice);
+    const livePnl = markToMarket(row.action, liveQty, livePrice, currentPrice);
+
+    if (row.paper_order_id) summary.followedAi.trades++;
+    if (paperQty && paperPrice) summary.followedAi.filled++;
+    if (paperPnl !== null) summary.followedAi.pnl += paperPnl;
+
+    if (liveApproved) summary.approved.trades++;
+    if (liveQty && livePrice) summary.approved.filled++;
+    if (livePnl !== null) summary.approved.pnl += livePnl;
+
+    if (((paperQty && paperPrice) || (liveQty && livePrice)) && currentPrice === null) {
+      summary.unpricedTrades++;
+    }
+
+    return {
+      id: row.id,
+      tradingActionId: row.trading_action_id,
+      ticker: row.ticker,
+      action: row.action,
+      assetClass: row.asset_class || 'equity',
+      optionSymbol: row.option_symbol || null,
+      createdAt: row.created_at,
+      divergence: row.divergence,
+      decisionPrice: toNumber(row.decision_price),
+      currentPrice,
+      fillPriceDifference: toNumber(row.fill_price_difference),
+      paper: {
+        status: row.paper_order_status,
+        filledQty: paperQty,
+        filledPrice: paperPrice,
+        pnl: paperPnl,
+        error: row.paper_error
+      },
+      live: {
+        status: row.live_status,
+        orderStatus: row.live_order_status,
+        filledQty: liveQty,
+        filledPrice: livePrice,
+        pnl: livePnl
+      }
+    };
+  });
+
+  summary.followedAi.pnl = round(summary.followedAi.pnl);
+  summary.approved.pnl = round(summary.approved.pnl);
+  summary.pnlDifference = round(summary.followedAi.pnl - summary.approved.pnl);
+
+  return { trades, summary };
+}
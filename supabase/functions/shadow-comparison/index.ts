@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.210.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { corsHeaders } from '../_shared/cors.ts';
+import { verifyAndExtractUser } from '../_shared/auth.ts';
+import { createErrorResponse, createSuccessResponse } from '../_shared/responseHelpers.ts';
+import { Broker, createBroker } from '../_shared/broker.ts';
+import { ALPACA_CREDENTIAL_FIELDS, decryptApiSettings } from '../_shared/credentialVault.ts';
+import { isShadowModeActive, refreshPaperFills, SHADOW_SETTINGS_COLUMNS, ShadowSettings } from '../_shared/shadowTrading.ts';
+import { compareShadowTrades, ShadowDivergenceRow } from './comparison.ts';
+
+/**
+ * Shadow Comparison - P&L of "followed the AI" (paper shadow fills) versus
+ * "what I actually approved" (live fills) over the last `days` days
+ * Open paper orders are refreshed from the broker first so fills are current
+ */
+
+// Quotes fall back to the live keys when no paper keys are set
+type ComparisonSettings = ShadowSettings & { alpaca_live_api_key: string | null; alpaca_live_secret_key: string | null };
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+/**
+ * Any configured key pair can read market data; null when none is configured
+ */
+function createQuoteBroker(userId: string, apiSettings: ComparisonSettings | null): Broker | null {
+  if (!apiSettings) {
+    return null;
+  }
+  try {
+    const hasPaperKeys = Boolean(apiSettings.alpaca_paper_api_key && apiSettings.alpaca_paper_secret_key);
+    return createBroker({ ...apiSettings, user_id: userId, alpaca_paper_trading: hasPaperKeys });
+  } catch (_error) {
+    return null;
+  }
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    const { userId, error: authError } = await verifyAndExtractUser(authHeader);
+
+    if (authError || !userId) {
+      console.error('Authentication failed:', authError);
+      return createErrorResponse(authError || 'Authentication failed', 401);
+    }
+
+    const { days = DEFAULT_DAYS }: { days?: number } = await req.json().catch(() => ({}));
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return createErrorResponse(`days must be an integer between 1 and ${MAX_DAYS}`, 400);
+    }
+
+    // Use service role to access database
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data: storedSettings } = await supabase
+      .from('api_settings')
+      .select(`${SHADOW_SETTINGS_COLUMNS}, alpaca_live_api_key, alpaca_live_secret_key`)
+      .eq('user_id', userId)
+      .returns<ComparisonSettings[]>()
+      .maybeSingle();
+    const apiSettings = storedSettings
+      ? await decryptApiSettings(supabase, storedSettings, userId, 'shadow-comparison', ALPACA_CREDENTIAL_FIELDS)
+      : null;
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const { data: rows, error: rowsError } = await supabase
+      .from('shadow_trade_divergence')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .returns<ShadowDivergenceRow[]>();
+
+    if (rowsError) {
+      throw rowsError;
+    }
+
+    const refreshedRows = await refreshPaperFills(supabase, userId, apiSettings, rows || []);
+
+    const quoteBroker = createQuoteBroker(userId, apiSettings);
+    const currentPrices: Record<string, number> = {};
+    if (quoteBroker) {
+      const tickers = Array.from(new Set(
+        refreshedRows.filter(row => row.asset_class !== 'option').map(row => row.ticker)
+      ));
+      for (const ticker of tickers) {
+        const quote = await quoteBroker.getQuote(ticker);
+        if (quote?.price) {
+          currentPrices[ticker] = quote.price;
+        }
+      }
+    }
+
+    const { trades, summary } = compareShadowTrades(refreshedRows, currentPrices);
+
+    console.log(`👥 Shadow comparison for user ${userId}: ${trades.length} trades, AI ${summary.followedAi.pnl} vs approved ${summary.approved.pnl}`);
+
+    return createSuccessResponse({
+      days,
+      shadowModeActive: isShadowModeActive(apiSettings),
+      summary,
+      trades
+    });
+
+  } catch (error) {
+    console.error('❌ Shadow comparison error:', error);
+    return createErrorResponse(error.message || 'Shadow comparison failed', 500);
+  }
+});
@@ -0,0 +1,138 @@
+/**
+ * Fake external services for offline pipeline runs
+ *
+ * One local HTTP server standing in for everything outside Supabase that the pipeline calls:
+ * - POST /llm           AI fixture responder (AI_RESPONDER=fixtures, see _shared/aiFixtures.ts)
+ * - POST /llm/record    saves a provider response as a fixture (AI_RESPONDER=record)
+ * - POST /perplefina    fake Perplefina search (PERPLEFINA_API_URL)
+ * - GET  /bars          recorded bars for the simulated broker (SIMULATED_BROKER_BARS_URL)
+ *
+ * AI fixtures are looked up in fixtures/llm, most specific first:
+ *   <agent>/<promptHash>.<ext>, <agent>/<format>.<ext>, <format>.<ext>
+ * where <format> is the structured output name ('text' for prose) and <ext> is json for structured
+ * output and md for prose. Prompt-hash fixtures pin one exact prompt; the others are defaults.
+ *
+ * Run standalone with: deno run --allow-net --allow-read --allow-write fakeServices.ts [port]
+ */
+import type { AIFixtureRequest } from '../../_shared/aiFixtures.ts';
+
+export interface FakeServiceCalls {
+  llm: Array<AIFixtureRequest & { fixture: string | null }>;
+  perplefina: Array<{ focusMode: string; query: string }>;
+  bars: number;
+}
+
+export interface FakeServices {
+  url: string;
+  calls: FakeServiceCalls;
+  shutdown(): Promise<void>;
+}
+
+export interface FakeServicesOptions {
+  port?: number;
+  fixturesDir?: string;
+}
+
+const DEFAULT_PORT = 54399;
+const DEFAULT_FIXTURES_DIR = new URL('./fixtures/', import.meta.url).pathname;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+function fixtureNames(request: AIFixtureRequest): string[] {
+  const format = request.format || 'text';
+  const extension = request.format ? 'json' : 'md';
+  return [
+    `${request.agent}/${request.promptHash}.${extension}`,
+    `${request.agent}/${format}.${extension}`,
+    `${format}.${extension}`
+  ];
+}
+
+async function findAIFixture(fixturesDir: string, request: AIFixtureRequest): Promise<{ name: string; content: string } | null> {
+  for (const name of fixtureNames(request)) {
+    const content = await readOptional(`${fixturesDir}llm/${name}`);
+    if (content !== null) return { name, content };
+  }
+  return null;
+}
+
+export function startFakeServices(options: FakeServicesOptions = {}): FakeServices {
+  const port = options.port ?? DEFAULT_PORT;
+  const fixturesDir = (options.fixturesDir || DEFAULT_FIXTURES_DIR).replace(/\/?$/, '/');
+  const calls: FakeServiceCalls = { llm: [], perplefina: [], bars: 0 };
+
+  const server = Deno.serve({ port, onListen: () => {} }, async (req) => {
+    const { pathname } = new URL(req.url);
+
+    try {
+      if (req.method === 'POST' && pathname === '/llm') {
+        const request = await req.json() as AIFixtureRequest;
+        const fixture = await findAIFixture(fixturesDir, request);
+        calls.llm.push({ ...request, fixture: fixture?.name || null });
+
+        if (!fixture) {
+          console.warn(`⚠️ No AI fixture for ${request.agent} (${request.format || 'text'}, prompt ${request.promptHash})`);
+          return json({ error: `No fixture matches ${fixtureNames(request).join(', ')}` }, 404);
+        }
+        return json({ content: fixture.content });
+      }
+
+      if (req.method === 'POST' && pathname === '/llm/record') {
+        const { content, ...request } = await req.json() as AIFixtureRequest & { content: string };
+        const name = fixtureNames(request)[0];
+        await Deno.mkdir(`${fixturesDir}llm/${request.agent}`, { recursive: true });
+        await Deno.writeTextFile(`${fixturesDir}llm/${name}`, content);
+        console.log(`📼 Recorded ${name}`);
+        return json({ saved: name });
+      }
+
+      if (req.method === 'POST' && pathname === '/perplefina') {
+        const { focusMode, query } = await req.json();
+        calls.perplefina.push({ focusMode, query });
+
+        const fixture = await readOptional(`${fixturesDir}perplefina/${focusMode}.json`);
+        if (!fixture) {
+          return json({ message: `No ${focusMode} fixture`, sources: [] }, 404);
+        }
+        return json(JSON.parse(fixture));
+      }
+
+      if (req.method === 'GET' && pathname === '/bars') {
+        calls.bars++;
+        const bars = await readOptional(`${fixturesDir}bars.json`);
+        return bars ? json(JSON.parse(bars)) : json({});
+      }
+
+      return json({ error: `Unknown route ${req.method} ${pathname}` }, 404);
+    } catch (error) {
+      console.error(`❌ Fake services error on ${pathname}:`, error);
+      return json({ error: error.message }, 500);
+    }
+  });
+
+  return {
+    url: `http://localhost:${port}`,
+    calls,
+    shutdown: () => server.shutdown()
+  };
+}
+
+if (import.meta.main) {
+  const port = Number(Deno.args[0]) || DEFAULT_PORT;
+  const services = startFakeServices({ port });
+  console.log(`🧪 Fake services listening on ${services.url} (fixtures in ${DEFAULT_FIXTURES_DIR})`);
+}
@@ -0,0 +1,166 @@
+/**
+ * End-to-end run of one analysis against local Supabase with every external service faked:
+ * start-analysis -> analysis, research, trading and risk agents -> portfolio manager -> execute-trade
+ *
+ * Needs a local stack with the schema loaded and the functions served with functions.env
+ * (see README.md). Run from this directory:
+ *   deno test --allow-net --allow-env --allow-read --allow-write pipeline.test.ts
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { assert, assertAlmostEquals, assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import { startFakeServices } from './fakeServices.ts';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') || 'http://127.0.0.1:54321';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const FAKE_SERVICES_PORT = Number(Deno.env.get('FAKE_SERVICES_PORT')) || 54399;
+const TIMEOUT_MS = Number(Deno.env.get('E2E_TIMEOUT_MS')) || 10 * 60 * 1000;
+
+// Matches the recorded bars and fixtures/llm/portfolio-manager/text.md
+const TICKER = 'AAPL';
+const ORDER_DOLLARS = 5000;
+
+// agent_insights keys written by the default workflow
+const EXPECTED_INSIGHTS = [
+  'macroAnalyst',
+  'marketAnalyst',
+  'newsAnalyst',
+  'socialMediaAnalyst',
+  'fundamentalsAnalyst',
+  'bullResearcher',
+  'bearResearcher',
+  'researchManager',
+  'trader',
+  'riskyAnalyst',
+  'safeAnalyst',
+  'neutralAnalyst',
+  'riskManager',
+  'portfolioManager'
+];
+
+async function waitFor<T>(label: string, check: () => Promise<T | null | undefined>): Promise<T> {
+  const deadline = Date.now() + TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const result = await check();
+    if (result) return result;
+    await new Promise(resolve => setTimeout(resolve, 3000));
+  }
+  throw new Error(`Timed out after ${TIMEOUT_MS / 1000}s waiting for ${label}`);
+}
+
+async function lastRecordedClose(ticker: string): Promise<number> {
+  const bars = JSON.parse(await Deno.readTextFile(new URL('./fixtures/bars.json', import.meta.url)));
+  const tickerBars = bars[ticker];
+  return tickerBars[tickerBars.length - 1].close;
+}
+
+Deno.test({
+  name: 'analysis pipeline creates and executes a trade on the simulated broker',
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn() {
+    assert(SUPABASE_ANON_KEY && SUPABASE_SERVICE_ROLE_KEY, 'SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY must be set');
+
+    const services = startFakeServices({ port: FAKE_SERVICES_PORT });
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } });
+    const email = `e2e-${Date.now()}@example.com`;
+    const password = crypto.randomUUID();
+    let userId: string | null = null;
+
+    try {
+      const { data: created, error: userError } = await admin.auth.admin.createUser({ email, password, email_confirm: true });
+      if (userError) throw userError;
+      userId = created.user.id;
+
+      // The AI and Alpaca settings only need to pass validation; fixtures and the simulated broker answer instead
+      const perplefinaOnly = { priority: ['perplefina'], fallback: false };
+      const { error: settingsError } = await admin.from('api_settings').upsert({
+        user_id: userId,
+        ai_provider: 'openai-compatible',
+        ai_base_url: 'http://fixtures.invalid/v1',
+        ai_model: 'fixture',
+        alpaca_paper_api_key: 'simulated',
+        alpaca_paper_secret_key: 'simulated',
+        alpaca_paper_trading: true,
+        research_debate_rounds: 1,
+        default_position_size_dollars: ORDER_DOLLARS,
+        research_sources: {
+          news: perplefinaOnly,
+          social: perplefinaOnly,
+          fundamentals: perplefinaOnly,
+          macroEconomy: perplefinaOnly
+        }
+      }, { onConflict: 'user_id' });
+      if (settingsError) throw settingsError;
+
+      // 1. Start the analysis the way the dashboard does
+      const { data: started, error: startError } = await admin.functions.invoke('analysis-coordinator', {
+        body: { action: 'start-analysis', ticker: TICKER, userId }
+      });
+      if (startError) throw startError;
+      const analysisId: string = started.analysisId;
+      assert(analysisId, `start-analysis returned no analysisId: ${JSON.stringify(started)}`);
+
+      // 2. Every phase runs and the portfolio manager records its decision
+      const analysis = await waitFor('the analysis to finish', async () => {
+        const { data } = await admin.from('analysis_history').select('*').eq('id', analysisId).single();
+        return data && ['completed', 'error', 'cancelled'].includes(data.analysis_status) && data.agent_insights?.portfolioManager
+          ? data
+          : null;
+      });
+
+      assertEquals(analysis.analysis_status, 'completed');
+      assertEquals(analysis.decision, 'BUY');
+      for (const key of EXPECTED_INSIGHTS) {
+        assert(analysis.agent_insights?.[key], `agent_insights.${key} is missing`);
+      }
+
+      const missingFixtures = services.calls.llm.filter(call => !call.fixture);
+      assertEquals(missingFixtures.map(call => `${call.agent}/${call.format || 'text'}`), []);
+      assertEquals(
+        [...new Set(services.calls.perplefina.map(call => call.focusMode))].sort(),
+        ['fundamentals', 'macroEconomy', 'news', 'social']
+      );
+      assert(services.calls.bars > 0, 'the simulated broker never loaded the recorded bars');
+
+      // 3. One pending market order sized by the portfolio manager
+      const { data: actions, error: actionsError } = await admin
+        .from('trading_actions')
+        .select('*')
+        .eq('analysis_id', analysisId);
+      if (actionsError) throw actionsError;
+
+      assertEquals(actions.length, 1);
+      const [action] = actions;
+      assertEquals(action.ticker, TICKER);
+      assertEquals(action.action, 'BUY');
+      assertEquals(action.status, 'pending');
+      assertEquals(action.order_type, 'market');
+      assertEquals(Number(action.dollar_amount), ORDER_DOLLARS);
+
+      // 4. The user approves it and the simulated broker fills it at the last recorded close
+      const user = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, { auth: { persistSession: false } });
+      const { error: signInError } = await user.auth.signInWithPassword({ email, password });
+      if (signInError) throw signInError;
+
+      const { data: executed, error: executeError } = await user.functions.invoke('execute-trade', {
+        body: { tradeActionId: action.id, action: 'approve' }
+      });
+      if (executeError) throw executeError;
+      assert(executed.success, `execute-trade failed: ${JSON.stringify(executed)}`);
+      assert(String(executed.alpacaOrderId).startsWith('sim-'), `expected a simulated order id, got ${executed.alpacaOrderId}`);
+
+      const { data: approved } = await admin.from('trading_actions').select('*').eq('id', action.id).single();
+      const close = await lastRecordedClose(TICKER);
+      assertEquals(approved.status, 'approved');
+      assertEquals(approved.metadata?.alpaca_order?.status, 'filled');
+      assertEquals(approved.metadata?.alpaca_order?.filled_avg_price, close);
+      assertAlmostEquals(approved.metadata?.alpaca_order?.filled_qty, ORDER_DOLLARS / close, 1e-4);
+    } finally {
+      if (userId) {
+        await admin.auth.admin.deleteUser(userId);
+      }
+      await services.shutdown();
+    }
+  }
+});
@@ -0,0 +1,45 @@
+/**
+ * Record daily bars from Alpaca into fixtures/bars.json for the simulated broker
+ *
+ * Uses ALPACA_PAPER_API_KEY / ALPACA_PAPER_SECRET_KEY. Run from this directory:
+ *   deno run --allow-net --allow-env --allow-write recordBars.ts AAPL MSFT --end 2024-12-31 --days 365
+ */
+import { AlpacaBroker, type BrokerBar } from '../../_shared/broker.ts';
+import { getAlpacaCredentials } from '../../_shared/marketData.ts';
+
+function option(name: string, fallback: string): string {
+  const index = Deno.args.indexOf(`--${name}`);
+  return index >= 0 && Deno.args[index + 1] ? Deno.args[index + 1] : fallback;
+}
+
+const credentials = getAlpacaCredentials(true);
+if (!credentials) {
+  console.error('❌ ALPACA_PAPER_API_KEY and ALPACA_PAPER_SECRET_KEY must be set');
+  Deno.exit(1);
+}
+
+const symbols = Deno.args.filter((arg, index) => !arg.startsWith('--') && !Deno.args[index - 1]?.startsWith('--'));
+if (symbols.length === 0) {
+  console.error('❌ Pass at least one symbol, e.g. AAPL');
+  Deno.exit(1);
+}
+
+const end = new Date(`${option('end', new Date().toISOString().slice(0, 10))}T23:59:59.000Z`);
+const start = new Date(end);
+start.setUTCDate(start.getUTCDate() - Number(option('days', '365')));
+
+const broker = new AlpacaBroker({ ...credentials, paper: true });
+const recorded: Record<string, BrokerBar[]> = {};
+for (const symbol of symbols) {
+  const ticker = symbol.toUpperCase();
+  recorded[ticker] = await broker.getBars(ticker, { timeframe: '1Day', start: start.toISOString(), end: end.toISOString() });
+  console.log(`📼 ${ticker}: ${recorded[ticker].length} bars`);
+}
+
+// One bar per line keeps fixture diffs readable
+const body = Object.entries(recorded)
+  .map(([ticker, bars]) => `  ${JSON.stringify(ticker)}: [\n${bars.map(bar => `    ${JSON.stringify(bar)}`).join(',\n')}\n  ]`)
+  .join(',\n');
+const path = new URL('./fixtures/bars.json', import.meta.url);
+await Deno.writeTextFile(path, `{\n${body}\n}\n`);
+console.log(`✅ Wrote ${path.pathname}`);
@@ -0,0 +1,92 @@
+import { assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import { runBacktest } from '../../backtest/engine.ts';
+import { BacktestDecision, BacktestSettings, BarsByTicker, TradeDirection } from '../../backtest/types.ts';
+
+// Daily AAPL closes for the first two weeks of 2024; January 15 is Martin Luther King Jr. Day
+const CLOSES: [string, number][] = [
+  ['2024-01-02', 100], ['2024-01-03', 102], ['2024-01-04', 105], ['2024-01-05', 99],
+  ['2024-01-08', 95], ['2024-01-09', 98], ['2024-01-10', 110], ['2024-01-11', 108],
+  ['2024-01-12', 112], ['2024-01-16', 104]
+];
+
+const BARS: BarsByTicker = {
+  AAPL: CLOSES.map(([date, close]) => ({ date, open: close, high: close, low: close, close, volume: 1000000 }))
+};
+
+// $2,000 positions kept between 5% and 25% of a $10k account, scored over 2 trading days
+const SETTINGS: BacktestSettings = {
+  initialCapital: 10000,
+  holdingPeriodDays: 2,
+  positionSizeDollars: 2000,
+  minPositionPercent: 5,
+  maxPositionPercent: 25
+};
+
+function decision(analysisId: string, date: string, direction: TradeDirection): BacktestDecision {
+  return { analysisId, ticker: 'AAPL', date, decision: direction, confidence: 70, agentSignals: {} };
+}
+
+// Buy on the 3rd, add on Saturday the 6th, sell on the 11th and hold on the 12th
+const DECISIONS = [
+  decision('buy', '2024-01-03', 'BUY'),
+  decision('add', '2024-01-06', 'BUY'),
+  decision('sell', '2024-01-11', 'SELL'),
+  decision('hold', '2024-01-12', 'HOLD')
+];
+
+const run = (decisions: BacktestDecision[]) => runBacktest(decisions, BARS, SETTINGS, '2024-01-02', '2024-01-12');
+
+Deno.test('decisions fill at the close of the analysis day or the next trading day', () => {
+  const { trades } = run(DECISIONS);
+  assertEquals(trades.map(trade => [trade.analysisId, trade.date, trade.action, trade.price]), [
+    ['buy', '2024-01-03', 'BUY', 102],
+    ['add', '2024-01-08', 'BUY', 95],
+    ['sell', '2024-01-11', 'SELL', 108]
+  ]);
+});
+
+Deno.test('buys are sized to the default amount and capped at the maximum position', () => {
+  const { trades } = run(DECISIONS);
+  assertEquals(trades.map(trade => [trade.dollarAmount, trade.shares]), [
+    [2000, 19.607843],
+    // $9,862.75 equity on the 8th leaves $602.94 under the 25% cap
+    [602.94, 6.346749],
+    [2803.1, 25.954592]
+  ]);
+  assertEquals(trades[2].realizedPnl, 200.15);
+
+  const { outcomes } = run([...DECISIONS, decision('again', '2024-01-09', 'BUY')]);
+  assertEquals(outcomes.find(outcome => outcome.analysisId === 'again')?.skipReason, 'Position already at 25% maximum');
+});
+
+Deno.test('return, drawdown and hit rate come from the equity curve and the scored decisions', () => {
+  const { metrics, equityCurve, outcomes } = run(DECISIONS);
+  assertEquals(equityCurve.map(point => point.equity), [
+    10000, 10000, 10058.82, 9941.18, 9862.75, 9940.61, 10252.06, 10200.15, 10200.15
+  ]);
+  // Scoring looks past the end of the range: the SELL is scored against the close on the 16th
+  assertEquals(outcomes.map(outcome => [outcome.analysisId, outcome.forwardReturn, outcome.hit]), [
+    ['buy', -2.9412, false],
+    ['add', 15.7895, true],
+    ['sell', -3.7037, true],
+    ['hold', null, null]
+  ]);
+  assertEquals(metrics.finalEquity, 10200.15);
+  assertEquals(metrics.totalReturn, 2);
+  assertEquals(metrics.maxDrawdown, 1.95);
+  assertEquals(metrics.hitRate, 66.67);
+  assertEquals(metrics.decisionsEvaluated, 3);
+  assertEquals(metrics.tradesExecuted, 3);
+});
+
+Deno.test('a sell without a position and a decision before the price data are not traded', () => {
+  const { trades, outcomes } = run([
+    decision('early', '2023-12-20', 'BUY'),
+    decision('sell', '2024-01-04', 'SELL')
+  ]);
+  assertEquals(trades, []);
+  assertEquals(outcomes.map(outcome => outcome.skipReason), [
+    'Price data starts on 2024-01-02, after the analysis date',
+    'No position to sell'
+  ]);
+});
@@ -0,0 +1,46 @@
+import { assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import { extractAgentSignal, extractAgentSignals } from '../../backtest/signals.ts';
+
+const structured = (decision: string, valid = true) => ({
+  analysis: 'Strong upside, we would buy on any dip. Bullish.',
+  structuredOutput: {
+    schema: 'agent_decision',
+    schemaVersion: 1,
+    valid,
+    repaired: false,
+    data: valid ? { decision, confidence: 70, priceTargets: { entry: null, target: null, stopLoss: null }, keyRisks: [], rationale: '' } : null,
+    generatedAt: '2024-12-31T00:00:00.000Z'
+  }
+});
+
+Deno.test('the structured decision wins over the prose', () => {
+  assertEquals(extractAgentSignal('marketAnalyst', structured('SELL')), 'SELL');
+  assertEquals(extractAgentSignal('marketAnalyst', structured('HOLD')), 'HOLD');
+});
+
+Deno.test('bull and bear researchers report their own decision', () => {
+  assertEquals(extractAgentSignal('bullResearcher', structured('HOLD')), 'HOLD');
+  assertEquals(extractAgentSignal('bearResearcher', structured('BUY')), 'BUY');
+});
+
+Deno.test('prose without structured fields gives no signal', () => {
+  assertEquals(extractAgentSignal('newsAnalyst', structured('BUY', false)), null);
+  assertEquals(extractAgentSignal('newsAnalyst', { analysis: 'Buy, buy, buy. Bullish.' }), null);
+  assertEquals(extractAgentSignal('newsAnalyst', 'Buy. Bullish.'), null);
+});
+
+Deno.test('older insights fall back to their structured summary fields', () => {
+  assertEquals(extractAgentSignal('trader', { tradingPlan: { action: 'accumulate' } }), 'BUY');
+  assertEquals(extractAgentSignal('riskManager', { finalAssessment: { decision: 'Reduce' } }), 'SELL');
+});
+
+Deno.test('portfolio insights and failed agents are skipped', () => {
+  assertEquals(
+    extractAgentSignals({
+      portfolioManager: structured('BUY'),
+      trader: { ...structured('BUY'), error: 'timeout' },
+      riskManager: structured('SELL')
+    }),
+    { riskManager: 'SELL' }
+  );
+});
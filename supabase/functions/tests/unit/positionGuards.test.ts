@@ -0,0 +1,115 @@
+import { assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import {
+  evaluateGuard,
+  getGuardStopPrice,
+  PositionGuard,
+  proposeExitRules,
+  resolveExitRules
+} from '../../_shared/positionGuards.ts';
+
+const NOW = new Date('2024-12-31T15:00:00.000Z');
+
+// 10 shares bought at $100 on 2024-12-01 that have since traded up to $120
+function guard(rules: Partial<PositionGuard>): PositionGuard {
+  return {
+    id: 'guard-1',
+    user_id: 'user-1',
+    trading_action_id: 'action-1',
+    analysis_id: null,
+    ticker: 'AAPL',
+    shares: 10,
+    entry_price: 100,
+    entry_at: '2024-12-01T15:00:00.000Z',
+    high_water_price: 120,
+    trailing_stop_percent: null,
+    atr_multiplier: null,
+    atr: null,
+    take_profit_price: null,
+    time_stop_days: null,
+    rule_source: 'settings',
+    status: 'active',
+    triggered_rule: null,
+    triggered_price: null,
+    triggered_at: null,
+    exit_action_id: null,
+    last_checked_at: null,
+    last_error: null,
+    ...rules
+  };
+}
+
+const rule = (positionGuard: PositionGuard, price: number) => evaluateGuard(positionGuard, price, NOW)?.rule ?? null;
+
+Deno.test('a guard without rules never triggers', () => {
+  assertEquals(rule(guard({}), 1), null);
+});
+
+Deno.test('trailing stop follows the high-water price', () => {
+  const trailing = guard({ trailing_stop_percent: 10 });
+  assertEquals(rule(trailing, 108.01), null);
+  assertEquals(rule(trailing, 108), 'trailing_stop');
+  // A new high moves the stop up with it
+  assertEquals(rule(guard({ trailing_stop_percent: 10, high_water_price: 100 }), 108), null);
+});
+
+Deno.test('ATR stop needs both the multiplier and the ATR', () => {
+  assertEquals(rule(guard({ atr_multiplier: 2, atr: 5 }), 110), 'atr_stop');
+  assertEquals(rule(guard({ atr_multiplier: 2, atr: 5 }), 110.01), null);
+  assertEquals(rule(guard({ atr_multiplier: 2, atr: null }), 50), null);
+});
+
+Deno.test('take-profit triggers at or above its price', () => {
+  assertEquals(rule(guard({ take_profit_price: 125 }), 124.99), null);
+  assertEquals(rule(guard({ take_profit_price: 125 }), 125), 'take_profit');
+});
+
+Deno.test('time stop counts calendar days since entry', () => {
+  assertEquals(rule(guard({ time_stop_days: 30 }), 120), 'time_stop');
+  assertEquals(rule(guard({ time_stop_days: 31 }), 120), null);
+});
+
+Deno.test('stops are checked before the take-profit and the time stop', () => {
+  const everything = guard({ trailing_stop_percent: 10, atr_multiplier: 1, atr: 5, take_profit_price: 100, time_stop_days: 1 });
+  assertEquals(rule(everything, 107), 'trailing_stop');
+  assertEquals(rule(everything, 112), 'atr_stop');
+  assertEquals(rule(everything, 118), 'take_profit');
+});
+
+Deno.test('getGuardStopPrice returns the higher of the two stops', () => {
+  assertEquals(getGuardStopPrice(guard({})), null);
+  assertEquals(getGuardStopPrice(guard({ trailing_stop_percent: 10 })), 108);
+  assertEquals(getGuardStopPrice(guard({ trailing_stop_percent: 10, atr_multiplier: 2, atr: 5 })), 110);
+  assertEquals(getGuardStopPrice(guard({ trailing_stop_percent: 10 }), 130), 117);
+});
+
+Deno.test('user defaults override the proposal rule by rule', () => {
+  const proposal = { trailingStopPercent: 8, takeProfitPercent: 20, timeStopDays: 30 };
+
+  assertEquals(resolveExitRules(proposal, null), {
+    rules: { trailingStopPercent: 8, atrMultiplier: null, takeProfitPercent: 20, timeStopDays: 30 },
+    source: 'risk_manager'
+  });
+  assertEquals(resolveExitRules(proposal, { trailingStopPercent: 5, takeProfitPercent: null }), {
+    rules: { trailingStopPercent: 5, atrMultiplier: null, takeProfitPercent: null, timeStopDays: 30 },
+    source: 'mixed'
+  });
+  // Values outside the table constraints disable the rule
+  assertEquals(resolveExitRules({ trailingStopPercent: 100, atrMultiplier: 11, timeStopDays: 2.6 }, null).rules, {
+    trailingStopPercent: null,
+    atrMultiplier: null,
+    takeProfitPercent: null,
+    timeStopDays: 3
+  });
+});
+
+Deno.test('proposeExitRules reads the stop, core target and horizon of the trading plan', () => {
+  const plan = {
+    entryPrice: '$200.00',
+    stopLoss: '$180',
+    targets: [{ description: 'First target', price: 210 }, { description: 'Core target', price: '$250' }],
+    timeframe: '2-3 months'
+  };
+  assertEquals(proposeExitRules(plan), { trailingStopPercent: 10, atrMultiplier: null, takeProfitPercent: 25, timeStopDays: 90 });
+  assertEquals(proposeExitRules(plan, '6 weeks').timeStopDays, 42);
+  assertEquals(proposeExitRules({ entryPrice: 200, stopLoss: 220 }).trailingStopPercent, null);
+});
@@ -0,0 +1,80 @@
+import { assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import { buildRebalancePlan, computeDrift } from '../../rebalance-coordinator/plan.ts';
+import { PortfolioSnapshot, RebalanceSettings, TargetAllocation } from '../../rebalance-coordinator/types.ts';
+
+// $100k account: 40% AAPL, 15% MSFT, 25% XOM without a target and 20% cash
+const SNAPSHOT: PortfolioSnapshot = {
+  totalValue: 100000,
+  cash: 20000,
+  positions: [
+    { ticker: 'AAPL', qty: 200, marketValue: 40000, price: 200 },
+    { ticker: 'MSFT', qty: 50, marketValue: 15000, price: 300 },
+    { ticker: 'XOM', qty: 250, marketValue: 25000, price: 100 }
+  ],
+  takenAt: '2024-12-31T15:00:00.000Z'
+};
+
+const SETTINGS: RebalanceSettings = {
+  driftThreshold: 5,
+  targetStockAllocation: 80,
+  targetCashAllocation: 20,
+  minPositionPercent: 2,
+  maxPositionPercent: 25
+};
+
+// Weights within the 80% stock portion: AAPL 20% and MSFT 40% (capped at 25%) of the portfolio
+const TARGETS: TargetAllocation[] = [
+  { ticker: 'aapl', target_percentage: 25 },
+  { ticker: 'MSFT', target_percentage: 50 }
+];
+
+Deno.test('computeDrift scales targets by the stock allocation and caps them at the max position', () => {
+  const { drifts, untracked } = computeDrift(SNAPSHOT, TARGETS, SETTINGS);
+  assertEquals(drifts, [
+    { ticker: 'AAPL', currentValue: 40000, currentWeight: 40, targetWeight: 20, drift: 20, drifted: true },
+    { ticker: 'MSFT', currentValue: 15000, currentWeight: 15, targetWeight: 25, drift: -10, drifted: true }
+  ]);
+  assertEquals(untracked, ['XOM']);
+});
+
+Deno.test('sells are planned before buys and fund them', () => {
+  const plan = buildRebalancePlan(SNAPSHOT, TARGETS, SETTINGS);
+  assertEquals(plan.trades.map(trade => [trade.ticker, trade.action, trade.dollarAmount, trade.afterValue]), [
+    ['AAPL', 'SELL', 20000, 20000],
+    ['MSFT', 'BUY', 10000, 25000]
+  ]);
+  assertEquals(plan.skipped, []);
+  // 20% cash equals the target, so only the 25% buffer of it is spendable
+  assertEquals(plan.budget, { allowedCash: 5000, sellProceeds: 20000, requestedBuys: 10000, buyScale: 1 });
+});
+
+Deno.test('an analysis against the trade vetoes it and buys shrink to the cash left', () => {
+  const plan = buildRebalancePlan(SNAPSHOT, TARGETS, SETTINGS, { AAPL: 'BUY', MSFT: 'HOLD' });
+  assertEquals(plan.skipped, [{ ticker: 'AAPL', action: 'SELL', reason: 'Latest analysis recommends BUY' }]);
+  assertEquals(plan.trades.map(trade => [trade.ticker, trade.action, trade.dollarAmount]), [['MSFT', 'BUY', 5000]]);
+  assertEquals(plan.budget.buyScale, 0.5);
+});
+
+Deno.test('a 0% target sells the whole position by shares', () => {
+  const plan = buildRebalancePlan(SNAPSHOT, [{ ticker: 'XOM', target_percentage: 0 }], SETTINGS);
+  assertEquals(plan.trades.length, 1);
+  assertEquals(plan.trades[0].closePosition, true);
+  assertEquals(plan.trades[0].shares, 250);
+  assertEquals(plan.trades[0].dollarAmount, 25000);
+});
+
+Deno.test('new positions below the minimum size are skipped', () => {
+  const plan = buildRebalancePlan(SNAPSHOT, [{ ticker: 'NVDA', target_percentage: 2 }], { ...SETTINGS, driftThreshold: 1 });
+  assertEquals(plan.trades, []);
+  assertEquals(plan.skipped, [{
+    ticker: 'NVDA',
+    action: 'BUY',
+    reason: 'Target 1.6% is below the minimum position size of 2%'
+  }]);
+});
+
+Deno.test('drift inside the threshold plans nothing', () => {
+  const plan = buildRebalancePlan(SNAPSHOT, TARGETS, { ...SETTINGS, driftThreshold: 25 });
+  assertEquals(plan.trades, []);
+  assertEquals(plan.skipped, []);
+});
@@ -0,0 +1,129 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import {
+  checkRiskLimits,
+  getUnderlyingSymbol,
+  isRiskCheckUnavailable,
+  normalizeRiskLimits,
+  PreTradeContext,
+  PreTradeOrder,
+  RiskLimits
+} from '../../_shared/riskLimits.ts';
+
+const NO_LIMITS: RiskLimits = {
+  maxPositionPercent: null,
+  maxSectorPercent: null,
+  maxDailyLossPercent: null,
+  maxOrdersPerDay: null,
+  maxGrossExposurePercent: null,
+  blacklist: [],
+  earningsBlackoutDays: null
+};
+
+// $100k account holding $20k AAPL and $10k MSFT (both Technology) and $10k XOM
+const CONTEXT: PreTradeContext = {
+  equity: 100000,
+  lastEquity: 100000,
+  longMarketValue: 40000,
+  shortMarketValue: 0,
+  positions: [
+    { symbol: 'AAPL', marketValue: 20000 },
+    { symbol: 'MSFT', marketValue: 10000 },
+    { symbol: 'XOM', marketValue: 10000 }
+  ],
+  sectors: { AAPL: 'Technology', MSFT: 'Technology', NVDA: 'Technology', XOM: 'Energy' },
+  ordersToday: 0,
+  daysUntilEarnings: null
+};
+
+const buy = (ticker: string, orderValue: number): PreTradeOrder => ({ ticker, action: 'BUY', orderValue });
+const sell = (ticker: string, orderValue: number): PreTradeOrder => ({ ticker, action: 'SELL', orderValue });
+
+function rules(order: PreTradeOrder, limits: Partial<RiskLimits>, context: Partial<PreTradeContext> = {}): string[] {
+  return checkRiskLimits(order, { ...NO_LIMITS, ...limits }, { ...CONTEXT, ...context }).map(violation => violation.rule);
+}
+
+Deno.test('normalizeRiskLimits drops empty rules and upper-cases the blacklist', () => {
+  assertEquals(normalizeRiskLimits(null), null);
+  assertEquals(normalizeRiskLimits({ maxPositionPercent: '', blacklist: [] }), null);
+  assertEquals(normalizeRiskLimits({ maxPositionPercent: 0, maxOrdersPerDay: -1 }), null);
+
+  const limits = normalizeRiskLimits({ maxPositionPercent: '10', blacklist: [' tsla ', 'TSLA', ''] });
+  assertEquals(limits?.maxPositionPercent, 10);
+  assertEquals(limits?.blacklist, ['TSLA']);
+  assertEquals(limits?.maxSectorPercent, null);
+});
+
+Deno.test('no limits allow any order', () => {
+  assertEquals(rules(buy('AAPL', 1000000), {}), []);
+});
+
+Deno.test('max_orders_per_day counts the new order and applies to sells', () => {
+  assertEquals(rules(buy('AAPL', 100), { maxOrdersPerDay: 3 }, { ordersToday: 2 }), []);
+  assertEquals(rules(buy('AAPL', 100), { maxOrdersPerDay: 3 }, { ordersToday: 3 }), ['max_orders_per_day']);
+  assertEquals(rules(sell('AAPL', 100), { maxOrdersPerDay: 3 }, { ordersToday: 3 }), ['max_orders_per_day']);
+});
+
+Deno.test('blacklist blocks buys of the ticker in any case but never sells', () => {
+  assertEquals(rules(buy('tsla', 100), { blacklist: ['TSLA'] }), ['blacklist']);
+  assertEquals(rules(buy('AAPL', 100), { blacklist: ['TSLA'] }), []);
+  assertEquals(rules(sell('TSLA', 100), { blacklist: ['TSLA'] }), []);
+});
+
+Deno.test('max_daily_loss stops buys once the day loss reaches the limit', () => {
+  assertEquals(rules(buy('AAPL', 100), { maxDailyLossPercent: 3 }, { equity: 97500 }), []);
+  assertEquals(rules(buy('AAPL', 100), { maxDailyLossPercent: 3 }, { equity: 97000 }), ['max_daily_loss']);
+  assertEquals(rules(sell('AAPL', 100), { maxDailyLossPercent: 3 }, { equity: 90000 }), []);
+  // Without yesterday's equity there is nothing to compare against
+  assertEquals(rules(buy('AAPL', 100), { maxDailyLossPercent: 3 }, { equity: 90000, lastEquity: 0 }), []);
+});
+
+Deno.test('max_position_weight adds the order to the existing position', () => {
+  assertEquals(rules(buy('AAPL', 5000), { maxPositionPercent: 25 }), []);
+  const violations = checkRiskLimits(buy('AAPL', 6000), { ...NO_LIMITS, maxPositionPercent: 25 }, CONTEXT);
+  assertEquals(violations.map(violation => violation.rule), ['max_position_weight']);
+  assertEquals(violations[0].actual, 26);
+  assertEquals(rules(sell('AAPL', 6000), { maxPositionPercent: 10 }), []);
+});
+
+Deno.test('options count against their underlying', () => {
+  assertEquals(getUnderlyingSymbol('AAPL240119C00190000'), 'AAPL');
+  assertEquals(getUnderlyingSymbol('msft'), 'MSFT');
+  // An AAPL call held next to the shares adds to the AAPL weight
+  const positions = [...CONTEXT.positions, { symbol: getUnderlyingSymbol('AAPL240119C00190000'), marketValue: 2000 }];
+  assertEquals(rules(buy('AAPL', 5000), { maxPositionPercent: 25 }, { positions }), ['max_position_weight']);
+});
+
+Deno.test('max_sector_weight sums the positions in the ticker sector', () => {
+  assertEquals(rules(buy('NVDA', 10000), { maxSectorPercent: 40 }), []);
+  assertEquals(rules(buy('NVDA', 10001), { maxSectorPercent: 40 }), ['max_sector_weight']);
+  assertEquals(rules(buy('XOM', 25000), { maxSectorPercent: 40 }), []);
+  // Unclassified tickers are not held to a sector limit
+  assertEquals(rules(buy('ZZZZ', 90000), { maxSectorPercent: 40 }), []);
+});
+
+Deno.test('max_gross_exposure counts long and short positions', () => {
+  assertEquals(rules(buy('AAPL', 60000), { maxGrossExposurePercent: 100 }), []);
+  assertEquals(rules(buy('AAPL', 50000), { maxGrossExposurePercent: 100 }, { shortMarketValue: -20000 }), ['max_gross_exposure']);
+});
+
+Deno.test('earnings_blackout only blocks new positions', () => {
+  assertEquals(rules(buy('NVDA', 1000), { earningsBlackoutDays: 3 }, { daysUntilEarnings: 2 }), ['earnings_blackout']);
+  assertEquals(rules(buy('NVDA', 1000), { earningsBlackoutDays: 3 }, { daysUntilEarnings: 5 }), []);
+  assertEquals(rules(buy('AAPL', 1000), { earningsBlackoutDays: 3 }, { daysUntilEarnings: 2 }), []);
+  assertEquals(rules(buy('NVDA', 1000), { earningsBlackoutDays: 3 }, { daysUntilEarnings: null }), []);
+});
+
+Deno.test('every broken rule is reported', () => {
+  const violations = rules(
+    buy('TSLA', 50000),
+    { blacklist: ['TSLA'], maxPositionPercent: 10, maxOrdersPerDay: 1 },
+    { ordersToday: 1 }
+  );
+  assertEquals(violations, ['max_orders_per_day', 'blacklist', 'max_position_weight']);
+});
+
+Deno.test('isRiskCheckUnavailable tells a failed check from a violation', () => {
+  assert(isRiskCheckUnavailable([{ rule: 'risk_check_unavailable', message: 'down', limit: null, actual: null }]));
+  assert(!isRiskCheckUnavailable([{ rule: 'blacklist', message: 'TSLA', limit: null, actual: 'TSLA' }]));
+  assert(!isRiskCheckUnavailable([]));
+});
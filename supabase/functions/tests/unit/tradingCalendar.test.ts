@@ -0,0 +1,72 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import {
+  getMarketHoliday,
+  getMarketHolidays,
+  getTradingHours,
+  isTradingDay,
+  nextTradingDay,
+  previousTradingDay
+} from '../../_shared/tradingCalendar.ts';
+
+// Published NYSE holiday schedules
+Deno.test('holidays match the NYSE schedules for 2024 and 2025', () => {
+  assertEquals([...getMarketHolidays(2024).keys()].sort(), [
+    '2024-01-01', '2024-01-15', '2024-02-19', '2024-03-29', '2024-05-27',
+    '2024-06-19', '2024-07-04', '2024-09-02', '2024-11-28', '2024-12-25'
+  ]);
+  assertEquals([...getMarketHolidays(2025).keys()].sort(), [
+    '2025-01-01', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26',
+    '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25'
+  ]);
+  assertEquals(getMarketHoliday('2024-03-29'), 'Good Friday');
+  assertEquals(getMarketHoliday('2024-03-28'), null);
+});
+
+Deno.test('weekend holidays are observed on the nearest weekday', () => {
+  assertEquals(getMarketHoliday('2021-07-05'), 'Independence Day');
+  assertEquals(getMarketHoliday('2021-12-24'), 'Christmas Day');
+  assertEquals(getMarketHoliday('2022-06-20'), 'Juneteenth');
+  assertEquals(getMarketHoliday('2026-07-03'), 'Independence Day');
+});
+
+Deno.test('a Saturday New Year is not made up on the Friday before', () => {
+  assertEquals(getMarketHoliday('2021-12-31'), null);
+  assert(!getMarketHolidays(2022).has('2022-01-03'));
+  assert(isTradingDay('2021-12-31'));
+});
+
+Deno.test('Juneteenth is a holiday from 2022 on', () => {
+  assertEquals(getMarketHoliday('2021-06-18'), null);
+  assertEquals(getMarketHoliday('2023-06-19'), 'Juneteenth');
+});
+
+Deno.test('early closes fall on trading days only', () => {
+  for (const date of ['2024-07-03', '2024-11-29', '2024-12-24']) {
+    assertEquals(getTradingHours(date), { date, open: '09:30', close: '13:00', extendedClose: '17:00', earlyClose: true });
+  }
+  // July 3, 2026 is the observed Independence Day and Christmas Eve 2022 a Saturday
+  assertEquals(getTradingHours('2026-07-03'), null);
+  assertEquals(getTradingHours('2022-12-24'), null);
+  assertEquals(getTradingHours('2024-12-23')?.close, '16:00');
+});
+
+Deno.test('weekends and holidays have no session', () => {
+  assert(!isTradingDay('2024-12-28'));
+  assert(!isTradingDay('2024-12-29'));
+  assert(!isTradingDay('2024-12-25'));
+  assertEquals(getTradingHours('2024-12-30'), {
+    date: '2024-12-30',
+    open: '09:30',
+    close: '16:00',
+    extendedClose: '20:00',
+    earlyClose: false
+  });
+});
+
+Deno.test('next and previous trading days skip weekends and holidays', () => {
+  assertEquals(nextTradingDay('2024-12-24'), '2024-12-26');
+  assertEquals(nextTradingDay('2024-03-28'), '2024-04-01');
+  assertEquals(nextTradingDay('2024-12-31'), '2025-01-02');
+  assertEquals(previousTradingDay('2024-01-02'), '2023-12-29');
+  assertEquals(previousTradingDay('2024-05-28'), '2024-05-24');
+});
@@ -0,0 +1,75 @@
+import { assertEquals } from 'https://deno.land/std@0.210.0/assert/mod.ts';
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  getAgentDisplayName,
+  getAgentInsightKey,
+  getAgentInstanceRefs,
+  getAgentRefByDisplayName,
+  getPhaseAgentRefs,
+  getRepeatedInstanceInsights,
+  parseAgentRef,
+  validateWorkflowDefinition,
+  WorkflowDefinition
+} from '../../_shared/workflowCatalog.ts';
+
+// The default workflow with the agents of one phase replaced
+function withAgents(phaseId: string, agents: string[]): WorkflowDefinition {
+  const phases = { ...DEFAULT_WORKFLOW_DEFINITION.phases };
+  phases[phaseId] = { ...phases[phaseId], agents };
+  return { phases };
+}
+
+Deno.test('the default workflow is valid', () => {
+  assertEquals(validateWorkflowDefinition(DEFAULT_WORKFLOW_DEFINITION), []);
+});
+
+Deno.test('repeatable agents may be listed more than once', () => {
+  assertEquals(validateWorkflowDefinition(withAgents('trading', ['agent-trader', 'agent-trader'])), []);
+  assertEquals(validateWorkflowDefinition(withAgents('risk', [
+    'agent-risky-analyst', 'agent-safe-analyst', 'agent-safe-analyst', 'agent-neutral-analyst'
+  ])), []);
+});
+
+Deno.test('other agents are rejected when listed twice', () => {
+  assertEquals(
+    validateWorkflowDefinition(withAgents('analysis', ['agent-market-analyst', 'agent-market-analyst'])),
+    ['Agent "agent-market-analyst" is listed more than once in phase "analysis" but can only run once per analysis']
+  );
+});
+
+Deno.test('repeated listings are numbered from the second instance', () => {
+  const refs = getAgentInstanceRefs(['agent-safe-analyst', 'agent-risky-analyst', 'agent-safe-analyst']);
+  assertEquals(refs, ['agent-safe-analyst', 'agent-risky-analyst', 'agent-safe-analyst#2']);
+  assertEquals(parseAgentRef('agent-safe-analyst#2'), { functionName: 'agent-safe-analyst', instance: 2 });
+  assertEquals(parseAgentRef('agent-trader'), { functionName: 'agent-trader', instance: 1 });
+});
+
+Deno.test('phase refs include the final agent and the research manager', () => {
+  const definition = withAgents('risk', ['agent-safe-analyst', 'agent-safe-analyst']);
+  assertEquals(getPhaseAgentRefs('risk', definition.phases.risk), [
+    'agent-safe-analyst', 'agent-safe-analyst#2', 'agent-risk-manager'
+  ]);
+  assertEquals(getPhaseAgentRefs('research', DEFAULT_WORKFLOW_DEFINITION.phases.research).at(-1), 'agent-research-manager');
+});
+
+Deno.test('instances keep their own display name and insight key', () => {
+  assertEquals(getAgentDisplayName('agent-trader'), 'Trader');
+  assertEquals(getAgentDisplayName('agent-trader#2'), 'Trader 2');
+  assertEquals(getAgentInsightKey('agent-trader'), 'trader');
+  assertEquals(getAgentInsightKey('agent-safe-analyst#3'), 'safeAnalyst3');
+});
+
+Deno.test('display names map back to agent refs', () => {
+  assertEquals(getAgentRefByDisplayName('Trader'), 'agent-trader');
+  assertEquals(getAgentRefByDisplayName('Safe Analyst 2'), 'agent-safe-analyst#2');
+  assertEquals(getAgentRefByDisplayName('Unknown Agent'), null);
+});
+
+Deno.test('repeated instance insights are returned in instance order', () => {
+  const insights = { trader: { plan: 1 }, trader2: { plan: 2 }, trader3: { plan: 3 }, safeAnalyst2: { plan: 4 } };
+  assertEquals(getRepeatedInstanceInsights(insights, 'agent-trader'), [
+    { agentRef: 'agent-trader#2', insight: { plan: 2 } },
+    { agentRef: 'agent-trader#3', insight: { plan: 3 } }
+  ]);
+  assertEquals(getRepeatedInstanceInsights(insights, 'agent-risky-analyst'), []);
+});
@@ -50,6 +50,50 @@ $$;
 
 ALTER FUNCTION "public"."check_analysis_exists"() OWNER TO "postgres";
 
+CREATE OR REPLACE FUNCTION "public"."claim_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text", "p_agent_names" "text"[]) RETURNS boolean
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+    current_analysis JSONB;
+    phase_agents JSONB;
+    finished_count INT;
+BEGIN
+    -- Lock the row so completion callbacks arriving together evaluate the join one at a time
+    SELECT full_analysis INTO current_analysis
+    FROM analysis_history
+    WHERE id = p_analysis_id
+    FOR UPDATE;
+    IF current_analysis IS NULL THEN
+        RETURN FALSE;
+    END IF;
+    -- Another callback already passed the join and started the next phase
+    IF COALESCE(current_analysis->'phaseJoins', '{}'::JSONB) ? p_phase_id THEN
+        RETURN FALSE;
+    END IF;
+    SELECT step->'agents' INTO phase_agents
+    FROM jsonb_array_elements(COALESCE(current_analysis->'workflowSteps', '[]'::JSONB)) AS step
+    WHERE step->>'id' = p_phase_id;
+    SELECT COUNT(DISTINCT agent->>'name') INTO finished_count
+    FROM jsonb_array_elements(COALESCE(phase_agents, '[]'::JSONB)) AS agent
+    WHERE agent->>'name' = ANY(p_agent_names)
+      AND agent->>'status' IN ('completed', 'error');
+    IF finished_count < cardinality(p_agent_names) THEN
+        RETURN FALSE;
+    END IF;
+    UPDATE analysis_history
+    SET full_analysis = current_analysis || jsonb_build_object(
+        'phaseJoins', COALESCE(current_analysis->'phaseJoins', '{}'::JSONB) || jsonb_build_object(p_phase_id, NOW()::TEXT),
+        'lastUpdated', NOW()::TEXT
+    )
+    WHERE id = p_analysis_id;
+    RETURN TRUE;
+END;
+$$;
+
+ALTER FUNCTION "public"."claim_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text", "p_agent_names" "text"[]) OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."claim_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text", "p_agent_names" "text"[]) IS 'Join barrier for phases whose agents run in parallel. Returns true for exactly one caller, once every named agent in the phase has completed or failed, and records the join in full_analysis.phaseJoins';
+
 CREATE OR REPLACE FUNCTION "public"."get_ny_current_date"() RETURNS "date"
     LANGUAGE "sql" IMMUTABLE
     AS $$
@@ -69,6 +113,62 @@ $$;
 
 ALTER FUNCTION "public"."handle_updated_at"() OWNER TO "postgres";
 
+CREATE OR REPLACE FUNCTION "public"."increment_scheduled_usage"("p_user_id" "uuid", "p_usage_date" "date") RETURNS integer
+    LANGUAGE "sql"
+    AS $$
+    INSERT INTO user_usage (user_id, usage_date, scheduled_analysis_count)
+    VALUES (p_user_id, p_usage_date, 1)
+    ON CONFLICT (user_id, usage_date) DO UPDATE SET
+        scheduled_analysis_count = COALESCE(user_usage.scheduled_analysis_count, 0) + 1
+    RETURNING scheduled_analysis_count;
+$$;
+
+ALTER FUNCTION "public"."increment_scheduled_usage"("p_user_id" "uuid", "p_usage_date" "date") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."increment_scheduled_usage"("p_user_id" "uuid", "p_usage_date" "date") IS 'Count one scheduled analysis for the user on a New York date and return the new count. Called by the analysis-scheduler function with the service role';
+
+CREATE OR REPLACE FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_analysis_id" "uuid", "p_agent" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_latency_ms" integer, "p_estimated_cost" numeric, "p_priced" boolean) RETURNS "void"
+    LANGUAGE "plpgsql"
+    AS $$
+BEGIN
+    INSERT INTO ai_usage_events (
+        user_id, analysis_id, agent, provider, model,
+        prompt_tokens, completion_tokens, latency_ms, estimated_cost, priced
+    ) VALUES (
+        p_user_id, p_analysis_id, p_agent, p_provider, p_model,
+        p_prompt_tokens, p_completion_tokens, p_latency_ms, p_estimated_cost, p_priced
+    );
+    -- Daily totals are incremented in the same statement so concurrent agents cannot lose updates
+    INSERT INTO user_usage (
+        user_id, usage_date, ai_request_count, ai_prompt_tokens, ai_completion_tokens, ai_cost
+    ) VALUES (
+        p_user_id, get_ny_current_date(), 1, p_prompt_tokens, p_completion_tokens, p_estimated_cost
+    )
+    ON CONFLICT (user_id, usage_date) DO UPDATE SET
+        ai_request_count = COALESCE(user_usage.ai_request_count, 0) + 1,
+        ai_prompt_tokens = COALESCE(user_usage.ai_prompt_tokens, 0) + EXCLUDED.ai_prompt_tokens,
+        ai_completion_tokens = COALESCE(user_usage.ai_completion_tokens, 0) + EXCLUDED.ai_completion_tokens,
+        ai_cost = COALESCE(user_usage.ai_cost, 0) + EXCLUDED.ai_cost;
+END;
+$$;
+
+ALTER FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_analysis_id" "uuid", "p_agent" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_latency_ms" integer, "p_estimated_cost" numeric, "p_priced" boolean) OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_analysis_id" "uuid", "p_agent" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_latency_ms" integer, "p_estimated_cost" numeric, "p_priced" boolean) IS 'Record one AI provider call and add it to the daily totals in user_usage. Called by edge functions with the service role';
+
+CREATE OR REPLACE FUNCTION "public"."reset_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text") RETURNS boolean
+    LANGUAGE "sql"
+    AS $$
+    UPDATE analysis_history
+    SET full_analysis = full_analysis #- ARRAY['phaseJoins', p_phase_id]
+    WHERE id = p_analysis_id
+    RETURNING TRUE;
+$$;
+
+ALTER FUNCTION "public"."reset_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."reset_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text") IS 'Clear the join recorded by claim_phase_join so a retried agent can complete the phase again';
+
 CREATE OR REPLACE FUNCTION "public"."sync_user_profile"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO 'public'
@@ -115,6 +215,32 @@ $$;
 
 ALTER FUNCTION "public"."sync_user_profile"() OWNER TO "postgres";
 
+CREATE OR REPLACE FUNCTION "public"."update_agent_insight"("p_analysis_id" "uuid", "p_agent_key" "text", "p_insight" "jsonb") RETURNS boolean
+    LANGUAGE "plpgsql"
+    AS $$
+DECLARE
+    current_insights JSONB;
+BEGIN
+    -- Lock the row so agents finishing together each add their insight instead of overwriting the others
+    SELECT COALESCE(agent_insights, '{}'::JSONB) INTO current_insights
+    FROM analysis_history
+    WHERE id = p_analysis_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+    UPDATE analysis_history
+    SET agent_insights = jsonb_set(current_insights, ARRAY[p_agent_key], COALESCE(p_insight, 'null'::JSONB)),
+        updated_at = NOW()
+    WHERE id = p_analysis_id;
+    RETURN TRUE;
+END;
+$$;
+
+ALTER FUNCTION "public"."update_agent_insight"("p_analysis_id" "uuid", "p_agent_key" "text", "p_insight" "jsonb") OWNER TO "postgres";
+
+COMMENT ON FUNCTION "public"."update_agent_insight"("p_analysis_id" "uuid", "p_agent_key" "text", "p_insight" "jsonb") IS 'Set one key of analysis_history.agent_insights under a row lock, so concurrent agents cannot lose each other''s insights';
+
 CREATE OR REPLACE FUNCTION "public"."update_debate_round"("p_analysis_id" "uuid", "p_round" integer, "p_agent_type" "text", "p_response" "text", "p_points" "text"[]) RETURNS boolean
     LANGUAGE "plpgsql"
     AS $$
@@ -221,10 +347,11 @@ DECLARE
     step_index INT;
     agent_index INT;
 BEGIN
-    -- Get current full_analysis
+    -- Get current full_analysis, locking the row so concurrently running agents cannot overwrite each other's status
     SELECT full_analysis INTO current_analysis 
     FROM analysis_history 
-    WHERE id = p_analysis_id;
+    WHERE id = p_analysis_id
+    FOR UPDATE;
     
     IF current_analysis IS NULL THEN
         RETURN FALSE;
@@ -343,6 +470,29 @@ SET default_tablespace = '';
 
 SET default_table_access_method = "heap";
 
+CREATE TABLE IF NOT EXISTS "public"."ai_usage_events" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "analysis_id" "uuid",
+    "agent" "text" NOT NULL,
+    "provider" "text" NOT NULL,
+    "model" "text",
+    "prompt_tokens" integer DEFAULT 0 NOT NULL,
+    "completion_tokens" integer DEFAULT 0 NOT NULL,
+    "latency_ms" integer,
+    "estimated_cost" numeric(12,6) DEFAULT 0 NOT NULL,
+    "priced" boolean DEFAULT true NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."ai_usage_events" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."ai_usage_events" IS 'One row per successful AI provider call with token counts and estimated cost';
+
+COMMENT ON COLUMN "public"."ai_usage_events"."estimated_cost" IS 'USD estimated from the price table in supabase/functions/_shared/aiPricing.ts at the time of the call';
+
+COMMENT ON COLUMN "public"."ai_usage_events"."priced" IS 'False when the model was not in the price table, so estimated_cost is 0 rather than a real estimate';
+
 CREATE TABLE IF NOT EXISTS "public"."analysis_history" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -357,6 +507,7 @@ CREATE TABLE IF NOT EXISTS "public"."analysis_history" (
     "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
     "analysis_context" "jsonb",
     "analysis_status" "text" DEFAULT 'pending'::"text",
+    "broker_account_id" "uuid",
     CONSTRAINT "analysis_history_confidence_check" CHECK ((("confidence" >= (0)::numeric) AND ("confidence" <= (100)::numeric))),
     CONSTRAINT "analysis_history_decision_check" CHECK (("decision" = ANY (ARRAY['BUY'::"text", 'SELL'::"text", 'HOLD'::"text", 'PENDING'::"text"]))),
     CONSTRAINT "analysis_history_status_check" CHECK (("analysis_status" = ANY (ARRAY['pending'::"text", 'running'::"text", 'completed'::"text", 'error'::"text", 'cancelled'::"text"])))
@@ -368,6 +519,8 @@ COMMENT ON COLUMN "public"."analysis_history"."is_canceled" IS 'TRUE if analysis
 
 COMMENT ON COLUMN "public"."analysis_history"."analysis_status" IS 'Analysis status: pending, running, completed, error, cancelled';
 
+COMMENT ON COLUMN "public"."analysis_history"."broker_account_id" IS 'Broker account the analysis sized and traded for; null for the primary account in api_settings';
+
 CREATE TABLE IF NOT EXISTS "public"."analysis_messages" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "analysis_id" "uuid" NOT NULL,
@@ -383,6 +536,37 @@ ALTER TABLE "public"."analysis_messages" OWNER TO "postgres";
 
 COMMENT ON COLUMN "public"."analysis_messages"."metadata" IS 'Additional metadata for the message (e.g., debate round number)';
 
+CREATE TABLE IF NOT EXISTS "public"."analysis_schedules" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "ticker" "text" NOT NULL,
+    "frequency" "text" NOT NULL,
+    "day_of_week" integer,
+    "run_time" time without time zone NOT NULL,
+    "enabled" boolean DEFAULT true NOT NULL,
+    "next_run_at" timestamp with time zone,
+    "last_run_at" timestamp with time zone,
+    "last_status" "text",
+    "last_error" "text",
+    "last_analysis_id" "uuid",
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "analysis_schedules_day_of_week_check" CHECK ((("frequency" = 'daily'::"text") OR (("day_of_week" >= 1) AND ("day_of_week" <= 5)))),
+    CONSTRAINT "analysis_schedules_frequency_check" CHECK (("frequency" = ANY (ARRAY['daily'::"text", 'weekly'::"text"]))),
+    CONSTRAINT "analysis_schedules_last_status_check" CHECK (("last_status" = ANY (ARRAY['started'::"text", 'skipped'::"text", 'failed'::"text"]))),
+    CONSTRAINT "analysis_schedules_run_time_check" CHECK ((("run_time" >= '04:00:00'::time without time zone) AND ("run_time" < '20:00:00'::time without time zone)))
+);
+
+ALTER TABLE "public"."analysis_schedules" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."analysis_schedules" IS 'Recurring analysis schedules for watchlist tickers, run by the analysis-scheduler function';
+
+COMMENT ON COLUMN "public"."analysis_schedules"."day_of_week" IS 'Weekday for weekly schedules: 1 (Monday) - 5 (Friday)';
+
+COMMENT ON COLUMN "public"."analysis_schedules"."run_time" IS 'Time of day in America/New_York, limited to the extended session (04:00 - 20:00)';
+
+COMMENT ON COLUMN "public"."analysis_schedules"."next_run_at" IS 'Next weekday occurrence; NULL while the schedule is disabled';
+
 CREATE TABLE IF NOT EXISTS "public"."api_settings" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -438,10 +622,24 @@ CREATE TABLE IF NOT EXISTS "public"."api_settings" (
     "analysis_history_days" "text" DEFAULT '1M'::"text",
     "analysis_optimization" character varying(20) DEFAULT 'speed'::character varying,
     "portfolio_manager_provider_id" "uuid",
-    CONSTRAINT "api_settings_ai_provider_check" CHECK (("ai_provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'openrouter'::"text", 'deepseek'::"text"]))),
+    "ai_base_url" "text",
+    "ai_models" "text"[],
+    "monthly_ai_budget" numeric,
+    "shadow_mode_enabled" boolean DEFAULT false,
+    "market_analyst_indicators" "text"[],
+    "market_analyst_intraday" boolean DEFAULT false,
+    "research_sources" "jsonb",
+    "research_rss_feeds" "text"[],
+    "earnings_window_days" integer DEFAULT 7,
+    "position_guard_enabled" boolean DEFAULT false,
+    "position_guard_defaults" "jsonb",
+    "risk_limits" "jsonb",
+    CONSTRAINT "api_settings_ai_provider_check" CHECK (("ai_provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'openrouter'::"text", 'deepseek'::"text", 'openai-compatible'::"text"]))),
     CONSTRAINT "api_settings_analysis_history_days_check" CHECK (("analysis_history_days" = ANY (ARRAY['1M'::"text", '3M'::"text", '6M'::"text", '1Y'::"text"]))),
     CONSTRAINT "api_settings_analysis_max_tokens_check" CHECK ((("analysis_max_tokens" >= 500) AND ("analysis_max_tokens" <= 8000))),
     CONSTRAINT "api_settings_analysis_optimization_check" CHECK (((("analysis_optimization")::"text" = ANY ((ARRAY['speed'::character varying, 'balanced'::character varying])::"text"[])) OR ("analysis_optimization" IS NULL))),
+    CONSTRAINT "api_settings_earnings_window_days_check" CHECK ((("earnings_window_days" >= 1) AND ("earnings_window_days" <= 30))),
+    CONSTRAINT "api_settings_monthly_ai_budget_check" CHECK ((("monthly_ai_budget" IS NULL) OR ("monthly_ai_budget" >= (0)::numeric))),
     CONSTRAINT "api_settings_opportunity_market_range_check" CHECK (("opportunity_market_range" = ANY (ARRAY['1D'::"text", '1W'::"text", '1M'::"text", '3M'::"text", '1Y'::"text"]))),
     CONSTRAINT "api_settings_opportunity_max_tokens_check" CHECK ((("opportunity_max_tokens" >= 500) AND ("opportunity_max_tokens" <= 8000))),
     CONSTRAINT "api_settings_portfolio_manager_max_tokens_check" CHECK ((("portfolio_manager_max_tokens" >= 500) AND ("portfolio_manager_max_tokens" <= 8000))),
@@ -472,6 +670,12 @@ COMMENT ON COLUMN "public"."api_settings"."deepseek_api_key" IS 'DeepSeek API ke
 
 COMMENT ON COLUMN "public"."api_settings"."openrouter_api_key" IS 'OpenRouter API key for multiple models';
 
+COMMENT ON COLUMN "public"."api_settings"."ai_base_url" IS 'Base URL of a self-hosted OpenAI-compatible server (e.g. http://localhost:11434/v1) when ai_provider is openai-compatible';
+
+COMMENT ON COLUMN "public"."api_settings"."ai_models" IS 'Models served by the OpenAI-compatible server, offered in model selectors';
+
+COMMENT ON COLUMN "public"."api_settings"."monthly_ai_budget" IS 'Optional monthly AI spend limit in USD; start-analysis is refused once the estimated cost for the current New York month reaches it. NULL means no limit';
+
 COMMENT ON COLUMN "public"."api_settings"."analysis_team_model" IS 'Specific model for analysis team agents';
 
 COMMENT ON COLUMN "public"."api_settings"."research_team_model" IS 'Specific model for research team agents';
@@ -516,6 +720,8 @@ COMMENT ON COLUMN "public"."api_settings"."opportunity_max_tokens" IS 'Maximum r
 
 COMMENT ON COLUMN "public"."api_settings"."auto_execute_trades" IS 'When true, approved trade orders are automatically executed without manual confirmation';
 
+COMMENT ON COLUMN "public"."api_settings"."shadow_mode_enabled" IS 'When true and live trading is selected, every trade order is also submitted to the paper account immediately (recorded in shadow_trades) while the live order waits for approval';
+
 COMMENT ON COLUMN "public"."api_settings"."default_position_size_dollars" IS 'Default position size in dollars when using dollar-based orders';
 
 COMMENT ON COLUMN "public"."api_settings"."user_risk_level" IS 'User risk tolerance level: conservative, moderate, or aggressive';
@@ -530,6 +736,22 @@ COMMENT ON COLUMN "public"."api_settings"."opportunity_agent_provider_id" IS 'Pr
 
 COMMENT ON COLUMN "public"."api_settings"."analysis_history_days" IS 'Historical data range for analysis agents (1M, 3M, 6M, 1Y)';
 
+COMMENT ON COLUMN "public"."api_settings"."market_analyst_indicators" IS 'Technical indicators (indicator registry ids, e.g. rsi, macd, vwap, ichimoku) given to the market analyst. NULL or empty uses the default set';
+
+COMMENT ON COLUMN "public"."api_settings"."research_sources" IS 'Research source priority and fallback per analyst focus (news, social, fundamentals, macroEconomy), e.g. {"news": {"priority": ["alpaca_news", "rss"], "fallback": true}}. NULL uses the defaults';
+
+COMMENT ON COLUMN "public"."api_settings"."research_rss_feeds" IS 'Feed URLs for the RSS research source; {ticker} is replaced with the analyzed symbol. NULL uses built-in feeds';
+
+COMMENT ON COLUMN "public"."api_settings"."market_analyst_intraday" IS 'Give the market analyst 5Min, 15Min and 1Hour bars and a multi-timeframe confluence summary alongside the analysis range';
+
+COMMENT ON COLUMN "public"."api_settings"."earnings_window_days" IS 'Days ahead of an earnings report in which analyses run in pre-earnings mode and the watchlist flags the ticker';
+
+COMMENT ON COLUMN "public"."api_settings"."position_guard_enabled" IS 'Arm a position guard for each filled BUY; the position-guardian function creates a SELL order when one of its exit rules triggers (executed right away when auto_execute_trades is on)';
+
+COMMENT ON COLUMN "public"."api_settings"."position_guard_defaults" IS 'Exit rules that override the risk manager proposal, e.g. {"trailingStopPercent": 8, "atrMultiplier": 3, "takeProfitPercent": 20, "timeStopDays": 90}. Omitted rules use the proposal, null disables a rule';
+
+COMMENT ON COLUMN "public"."api_settings"."risk_limits" IS 'Hard pre-trade limits checked before an order is created and again before it is sent to Alpaca, e.g. {"maxPositionPercent": 15, "maxSectorPercent": 35, "maxDailyLossPercent": 3, "maxOrdersPerDay": 10, "maxGrossExposurePercent": 100, "blacklist": ["TSLA"], "earningsBlackoutDays": 3}. Null or a missing key turns a rule off';
+
 COMMENT ON COLUMN "public"."api_settings"."analysis_optimization" IS 'Optimization strategy for analysis. Values: speed (faster, less thorough) or balanced (slower, more thorough). Default: speed';
 
 COMMENT ON COLUMN "public"."api_settings"."portfolio_manager_provider_id" IS 'Reference to provider_configurations for portfolio manager agent-specific AI provider';
@@ -554,22 +776,98 @@ ALTER VIEW "public"."api_settings_unified" OWNER TO "postgres";
 
 COMMENT ON VIEW "public"."api_settings_unified" IS 'Unified API settings view. Uses SECURITY INVOKER to respect user permissions and RLS policies.';
 
+CREATE TABLE IF NOT EXISTS "public"."broker_accounts" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "name" "text" NOT NULL,
+    "is_paper" boolean DEFAULT true NOT NULL,
+    "api_key" "text" NOT NULL,
+    "secret_key" "text" NOT NULL,
+    "user_risk_level" "text" DEFAULT 'moderate'::"text" NOT NULL,
+    "default_position_size_dollars" numeric DEFAULT 1000 NOT NULL,
+    "default_min_position_size" numeric DEFAULT 2 NOT NULL,
+    "default_max_position_size" numeric DEFAULT 25 NOT NULL,
+    "target_stock_allocation" numeric DEFAULT 80 NOT NULL,
+    "target_cash_allocation" numeric DEFAULT 20 NOT NULL,
+    "auto_execute_trades" boolean DEFAULT false NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "broker_accounts_allocation_total_check" CHECK ((("target_stock_allocation" + "target_cash_allocation") = (100)::numeric)),
+    CONSTRAINT "broker_accounts_position_size_check" CHECK (((("default_min_position_size" >= (0)::numeric) AND ("default_max_position_size" <= (100)::numeric)) AND ("default_min_position_size" <= "default_max_position_size"))),
+    CONSTRAINT "broker_accounts_user_risk_level_check" CHECK (("user_risk_level" = ANY (ARRAY['conservative'::"text", 'moderate'::"text", 'aggressive'::"text"])))
+);
+
+ALTER TABLE "public"."broker_accounts" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."broker_accounts" IS 'Additional Alpaca accounts per user, each with its own keys and strategy settings. The keys and settings in api_settings remain the primary account';
+
+COMMENT ON COLUMN "public"."broker_accounts"."api_key" IS 'Alpaca API key for the paper or live endpoint chosen by is_paper; encrypted by the credential vault';
+
+COMMENT ON COLUMN "public"."broker_accounts"."secret_key" IS 'Alpaca secret key; encrypted by the credential vault';
+
+COMMENT ON COLUMN "public"."broker_accounts"."auto_execute_trades" IS 'Execute this account''s trade orders without manual approval';
+
+CREATE TABLE IF NOT EXISTS "public"."credential_access_log" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "function_name" "text" NOT NULL,
+    "source_table" "text" NOT NULL,
+    "record_id" "uuid",
+    "credential_fields" "text"[] NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "credential_access_log_source_table_check" CHECK (("source_table" = ANY (ARRAY['api_settings'::"text", 'provider_configurations'::"text", 'broker_accounts'::"text"])))
+);
+
+ALTER TABLE "public"."credential_access_log" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."credential_access_log" IS 'Audit log of credential decryptions: one row per edge function call that decrypted stored API keys, written by supabase/functions/_shared/credentialVault.ts';
+
+COMMENT ON COLUMN "public"."credential_access_log"."credential_fields" IS 'Columns of source_table that were decrypted, never their values';
+
+CREATE TABLE IF NOT EXISTS "public"."earnings_calendar" (
+    "ticker" "text" NOT NULL,
+    "report_date" "date" NOT NULL,
+    "timing" "text",
+    "fiscal_year" integer,
+    "fiscal_quarter" integer,
+    "eps_estimate" numeric,
+    "eps_actual" numeric,
+    "revenue_estimate" numeric,
+    "revenue_actual" numeric,
+    "fetched_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "earnings_calendar_timing_check" CHECK ((("timing" IS NULL) OR ("timing" = ANY (ARRAY['bmo'::"text", 'amc'::"text", 'dmh'::"text"]))))
+);
+
+ALTER TABLE "public"."earnings_calendar" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."earnings_calendar" IS 'Earnings reports per ticker: past release dates from SEC 8-K item 2.02 filings, upcoming dates with consensus and actual EPS/revenue from Finnhub. Refreshed every 12 hours';
+
+COMMENT ON COLUMN "public"."earnings_calendar"."timing" IS 'Release time: bmo (before the open), amc (after the close) or dmh (during market hours)';
+
 CREATE TABLE IF NOT EXISTS "public"."market_data_cache" (
     "ticker" "text" NOT NULL,
     "timeframe" "text" DEFAULT '1Y'::"text" NOT NULL,
     "historical_data" "jsonb" NOT NULL,
+    "raw_historical_data" "jsonb",
     "technical_indicators" "jsonb" NOT NULL,
     "data_points" integer NOT NULL,
     "analysis_range" "text" NOT NULL,
     "fetched_date" "date" DEFAULT CURRENT_DATE NOT NULL,
     "created_at" timestamp with time zone DEFAULT "now"(),
-    "updated_at" timestamp with time zone DEFAULT "now"()
+    "updated_at" timestamp with time zone DEFAULT "now"(),
+    "expires_at" timestamp with time zone
 );
 
 ALTER TABLE "public"."market_data_cache" OWNER TO "postgres";
 
 COMMENT ON TABLE "public"."market_data_cache" IS 'Market data cache using New York timezone (America/New_York) for all date operations';
 
+COMMENT ON COLUMN "public"."market_data_cache"."historical_data" IS 'Split- and dividend-adjusted bars, used for indicator calculations';
+
+COMMENT ON COLUMN "public"."market_data_cache"."raw_historical_data" IS 'Unadjusted bars as traded, used for price display';
+
+COMMENT ON COLUMN "public"."market_data_cache"."expires_at" IS 'When intraday bars (timeframe 5Min, 15Min or 1Hour) go stale. NULL for analysis-range bars, which are refreshed daily';
+
 COMMENT ON COLUMN "public"."market_data_cache"."fetched_date" IS 'Date when data was fetched, in New York timezone (YYYY-MM-DD format)';
 
 COMMENT ON COLUMN "public"."market_data_cache"."created_at" IS 'Timestamp when cache entry was created, stored in UTC but represents NY time operation';
@@ -602,6 +900,51 @@ CREATE TABLE IF NOT EXISTS "public"."portfolios" (
 
 ALTER TABLE "public"."portfolios" OWNER TO "postgres";
 
+CREATE TABLE IF NOT EXISTS "public"."position_guards" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "trading_action_id" "uuid" NOT NULL,
+    "analysis_id" "uuid",
+    "ticker" "text" NOT NULL,
+    "shares" numeric(16,6) NOT NULL,
+    "entry_price" numeric(12,4) NOT NULL,
+    "entry_at" timestamp with time zone NOT NULL,
+    "high_water_price" numeric(12,4) NOT NULL,
+    "trailing_stop_percent" numeric,
+    "atr_multiplier" numeric,
+    "atr" numeric(12,4),
+    "take_profit_price" numeric(12,4),
+    "time_stop_days" integer,
+    "rule_source" "text" NOT NULL,
+    "status" "text" DEFAULT 'active'::"text" NOT NULL,
+    "triggered_rule" "text",
+    "triggered_price" numeric(12,4),
+    "triggered_at" timestamp with time zone,
+    "exit_action_id" "uuid",
+    "last_checked_at" timestamp with time zone,
+    "last_error" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "position_guards_atr_multiplier_check" CHECK ((("atr_multiplier" IS NULL) OR (("atr_multiplier" > (0)::numeric) AND ("atr_multiplier" <= (10)::numeric)))),
+    CONSTRAINT "position_guards_rule_source_check" CHECK (("rule_source" = ANY (ARRAY['risk_manager'::"text", 'settings'::"text", 'mixed'::"text"]))),
+    CONSTRAINT "position_guards_status_check" CHECK (("status" = ANY (ARRAY['active'::"text", 'triggered'::"text", 'closed'::"text", 'canceled'::"text"]))),
+    CONSTRAINT "position_guards_time_stop_days_check" CHECK ((("time_stop_days" IS NULL) OR ("time_stop_days" >= 1))),
+    CONSTRAINT "position_guards_trailing_stop_percent_check" CHECK ((("trailing_stop_percent" IS NULL) OR (("trailing_stop_percent" > (0)::numeric) AND ("trailing_stop_percent" < (100)::numeric)))),
+    CONSTRAINT "position_guards_triggered_rule_check" CHECK ((("triggered_rule" IS NULL) OR ("triggered_rule" = ANY (ARRAY['trailing_stop'::"text", 'atr_stop'::"text", 'take_profit'::"text", 'time_stop'::"text"]))))
+);
+
+ALTER TABLE "public"."position_guards" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."position_guards" IS 'Exit rules of each position opened by a filled BUY trading_actions row, enforced by the position-guardian function';
+
+COMMENT ON COLUMN "public"."position_guards"."high_water_price" IS 'Highest price seen by the guardian since entry; trailing and ATR stops ratchet up from it';
+
+COMMENT ON COLUMN "public"."position_guards"."atr" IS '14-day ATR when the guard was armed; the ATR stop sits atr_multiplier x atr below the high-water price';
+
+COMMENT ON COLUMN "public"."position_guards"."rule_source" IS 'Where the rules came from: risk_manager (the analysis proposal), settings (api_settings.position_guard_defaults) or mixed';
+
+COMMENT ON COLUMN "public"."position_guards"."exit_action_id" IS 'SELL trading_actions row created when a rule triggered';
+
 CREATE TABLE IF NOT EXISTS "public"."positions" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "portfolio_id" "uuid" NOT NULL,
@@ -634,10 +977,12 @@ CREATE TABLE IF NOT EXISTS "public"."provider_configurations" (
     "nickname" "text" NOT NULL,
     "provider" "text" NOT NULL,
     "api_key" "text" NOT NULL,
+    "base_url" "text",
+    "models" "text"[],
     "is_default" boolean DEFAULT false,
     "created_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
     "updated_at" timestamp with time zone DEFAULT CURRENT_TIMESTAMP,
-    CONSTRAINT "provider_configurations_provider_check" CHECK (("provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'deepseek'::"text", 'openrouter'::"text"])))
+    CONSTRAINT "provider_configurations_provider_check" CHECK (("provider" = ANY (ARRAY['openai'::"text", 'anthropic'::"text", 'google'::"text", 'deepseek'::"text", 'openrouter'::"text", 'openai-compatible'::"text"])))
 );
 
 ALTER TABLE "public"."provider_configurations" OWNER TO "postgres";
@@ -648,6 +993,10 @@ COMMENT ON COLUMN "public"."provider_configurations"."nickname" IS 'User-defined
 
 COMMENT ON COLUMN "public"."provider_configurations"."is_default" IS 'Whether this is the default provider for the user';
 
+COMMENT ON COLUMN "public"."provider_configurations"."base_url" IS 'Base URL of a self-hosted OpenAI-compatible server; api_key may be empty for these';
+
+COMMENT ON COLUMN "public"."provider_configurations"."models" IS 'Models served by the OpenAI-compatible server, offered in model selectors';
+
 
 CREATE TABLE IF NOT EXISTS "public"."trading_actions" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
@@ -674,9 +1023,28 @@ CREATE TABLE IF NOT EXISTS "public"."trading_actions" (
     "alpaca_order_status" "text",
     "alpaca_filled_qty" numeric(15,4),
     "alpaca_filled_price" numeric(10,2),
+    "order_type" "text" DEFAULT 'market'::"text" NOT NULL,
+    "time_in_force" "text" DEFAULT 'day'::"text" NOT NULL,
+    "limit_price" numeric(10,2),
+    "stop_price" numeric(10,2),
+    "take_profit_price" numeric(10,2),
+    "stop_loss_price" numeric(10,2),
+    "rebalance_request_id" "uuid",
+    "asset_class" "text" DEFAULT 'equity'::"text" NOT NULL,
+    "option_symbol" "text",
+    "option_type" "text",
+    "option_strike" numeric(10,2),
+    "option_expiration" "date",
+    "risk_violations" "jsonb",
+    "broker_account_id" "uuid",
     CONSTRAINT "trading_actions_action_check" CHECK (("action" = ANY (ARRAY['BUY'::"text", 'SELL'::"text"]))),
+    CONSTRAINT "trading_actions_asset_class_check" CHECK (("asset_class" = ANY (ARRAY['equity'::"text", 'option'::"text"]))),
+    CONSTRAINT "trading_actions_option_contract_check" CHECK (((("asset_class" = 'equity'::"text") AND ("option_symbol" IS NULL)) OR (("asset_class" = 'option'::"text") AND ("option_symbol" IS NOT NULL) AND ("option_type" = ANY (ARRAY['call'::"text", 'put'::"text"])) AND ("option_strike" > (0)::numeric) AND ("option_expiration" IS NOT NULL) AND ("dollar_amount" = (0)::numeric) AND ("order_type" = ANY (ARRAY['market'::"text", 'limit'::"text"])) AND ("time_in_force" = 'day'::"text") AND ("take_profit_price" IS NULL) AND ("stop_loss_price" IS NULL)))),
+    CONSTRAINT "trading_actions_order_prices_check" CHECK (((("order_type" <> ALL (ARRAY['limit'::"text", 'stop_limit'::"text"])) OR ("limit_price" > (0)::numeric)) AND (("order_type" <> ALL (ARRAY['stop'::"text", 'stop_limit'::"text"])) OR ("stop_price" > (0)::numeric)))),
+    CONSTRAINT "trading_actions_order_type_check" CHECK (("order_type" = ANY (ARRAY['market'::"text", 'limit'::"text", 'stop'::"text", 'stop_limit'::"text"]))),
     CONSTRAINT "trading_actions_order_validation" CHECK (((("shares" > (0)::numeric) AND ("dollar_amount" = (0)::numeric)) OR (("shares" = (0)::numeric) AND ("dollar_amount" > (0)::numeric)) OR (("shares" = (0)::numeric) AND ("dollar_amount" = (0)::numeric) AND ("action" = 'HOLD'::"text")))),
-    CONSTRAINT "trading_actions_source_type_check" CHECK (("source_type" = ANY (ARRAY['individual_analysis'::"text"]))));
+    CONSTRAINT "trading_actions_source_type_check" CHECK (("source_type" = ANY (ARRAY['individual_analysis'::"text", 'rebalance'::"text"]))),
+    CONSTRAINT "trading_actions_time_in_force_check" CHECK (("time_in_force" = ANY (ARRAY['day'::"text", 'gtc'::"text", 'opg'::"text", 'cls'::"text", 'ioc'::"text", 'fok'::"text"]))));
 
 ALTER TABLE "public"."trading_actions" OWNER TO "postgres";
 
@@ -717,6 +1085,133 @@ COMMENT ON COLUMN "public"."trading_actions"."alpaca_filled_qty" IS 'Quantity fi
 
 COMMENT ON COLUMN "public"."trading_actions"."alpaca_filled_price" IS 'Average filled price by Alpaca for this order';
 
+COMMENT ON COLUMN "public"."trading_actions"."order_type" IS 'Alpaca order type submitted on approval: market, limit, stop or stop_limit';
+
+COMMENT ON COLUMN "public"."trading_actions"."time_in_force" IS 'Alpaca time in force: day, gtc, opg, cls, ioc or fok';
+
+COMMENT ON COLUMN "public"."trading_actions"."limit_price" IS 'Limit price, required for limit and stop_limit orders';
+
+COMMENT ON COLUMN "public"."trading_actions"."stop_price" IS 'Stop trigger price, required for stop and stop_limit orders';
+
+COMMENT ON COLUMN "public"."trading_actions"."take_profit_price" IS 'Optional take-profit leg; with stop_loss_price the order is submitted as a bracket, alone as OTO';
+
+COMMENT ON COLUMN "public"."trading_actions"."stop_loss_price" IS 'Optional stop-loss leg; with take_profit_price the order is submitted as a bracket, alone as OTO';
+
+COMMENT ON COLUMN "public"."trading_actions"."rebalance_request_id" IS 'Rebalance batch this order belongs to; batch orders are approved or rejected together';
+
+COMMENT ON COLUMN "public"."trading_actions"."asset_class" IS 'equity for stock orders, option for single-leg option orders; for options shares holds the number of contracts';
+
+COMMENT ON COLUMN "public"."trading_actions"."option_symbol" IS 'OCC contract symbol submitted to Alpaca for option orders, e.g. AAPL250117C00200000; ticker keeps the underlying';
+
+COMMENT ON COLUMN "public"."trading_actions"."option_type" IS 'call or put, for option orders';
+
+COMMENT ON COLUMN "public"."trading_actions"."option_strike" IS 'Contract strike price, for option orders';
+
+COMMENT ON COLUMN "public"."trading_actions"."option_expiration" IS 'Contract expiration date, for option orders';
+
+COMMENT ON COLUMN "public"."trading_actions"."risk_violations" IS 'Risk limit rules that blocked the order, as [{rule, message, limit, actual}]; set together with status rejected';
+
+COMMENT ON COLUMN "public"."trading_actions"."broker_account_id" IS 'Broker account the order is executed on; null for the primary account in api_settings';
+
+CREATE TABLE IF NOT EXISTS "public"."rebalance_requests" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "status" "text" DEFAULT 'planning'::"text" NOT NULL,
+    "drift_threshold" numeric DEFAULT 2 NOT NULL,
+    "run_analysis" boolean DEFAULT false NOT NULL,
+    "analysis_ids" "uuid"[] DEFAULT '{}'::"uuid"[] NOT NULL,
+    "portfolio_snapshot" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "plan" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "error_message" "text",
+    "decided_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"(),
+    CONSTRAINT "rebalance_requests_drift_threshold_check" CHECK ((("drift_threshold" >= (0)::numeric) AND ("drift_threshold" <= (100)::numeric))),
+    CONSTRAINT "rebalance_requests_status_check" CHECK (("status" = ANY (ARRAY['analyzing'::"text", 'planning'::"text", 'pending_approval'::"text", 'approved'::"text", 'rejected'::"text", 'no_action'::"text", 'failed'::"text"])))
+);
+
+ALTER TABLE "public"."rebalance_requests" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."rebalance_requests" IS 'Portfolio rebalances against target_allocations; the generated trading_actions are approved or rejected together';
+
+COMMENT ON COLUMN "public"."rebalance_requests"."status" IS 'analyzing (waiting for analyses of drifted tickers), planning, pending_approval (batch created), approved, rejected, no_action (nothing to trade) or failed';
+
+COMMENT ON COLUMN "public"."rebalance_requests"."drift_threshold" IS 'Minimum difference between current and target weight, in percentage points of portfolio value, before a ticker is traded';
+
+COMMENT ON COLUMN "public"."rebalance_requests"."analysis_ids" IS 'Individual analyses started for drifted tickers; their decisions can veto rebalance trades';
+
+COMMENT ON COLUMN "public"."rebalance_requests"."plan" IS 'Computed drift per ticker and the planned trades, including skipped trades and their reasons';
+
+CREATE TABLE IF NOT EXISTS "public"."sec_fundamentals_cache" (
+    "ticker" "text" NOT NULL,
+    "cik" "text" NOT NULL,
+    "company_name" "text",
+    "quarters" "jsonb" NOT NULL,
+    "shares_outstanding" numeric,
+    "fetched_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."sec_fundamentals_cache" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."sec_fundamentals_cache" IS 'Last eight quarters of normalized SEC EDGAR XBRL financials per ticker, refreshed daily. Price-based ratios are computed at analysis time';
+
+COMMENT ON COLUMN "public"."sec_fundamentals_cache"."shares_outstanding" IS 'Cover-page share count (dei:EntityCommonStockSharesOutstanding) of the latest filing';
+
+CREATE TABLE IF NOT EXISTS "public"."shadow_trades" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "trading_action_id" "uuid" NOT NULL,
+    "ticker" "text" NOT NULL,
+    "action" "text" NOT NULL,
+    "decision_price" numeric(12,4),
+    "paper_order_id" "text",
+    "paper_order_status" "text",
+    "paper_filled_qty" numeric(16,6),
+    "paper_filled_price" numeric(12,4),
+    "error" "text",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "shadow_trades_action_check" CHECK (("action" = ANY (ARRAY['BUY'::"text", 'SELL'::"text"])))
+);
+
+ALTER TABLE "public"."shadow_trades" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."shadow_trades" IS 'Paper-account twin of each trading_actions row created while shadow mode is on; executed immediately regardless of the live approval';
+
+COMMENT ON COLUMN "public"."shadow_trades"."decision_price" IS 'Mid quote when the order was mirrored, i.e. what the live order would have paid had it been executed at decision time';
+
+COMMENT ON COLUMN "public"."shadow_trades"."error" IS 'Why the paper order could not be submitted; paper_order_id is NULL in that case';
+
+CREATE OR REPLACE VIEW "public"."shadow_trade_divergence" WITH ("security_invoker"='true') AS
+ SELECT "st"."id",
+    "st"."user_id",
+    "st"."trading_action_id",
+    "st"."ticker",
+    "st"."action",
+    "ta"."asset_class",
+    "ta"."option_symbol",
+    "st"."created_at",
+    "st"."decision_price",
+    "st"."paper_order_id",
+    "st"."paper_order_status",
+    "st"."paper_filled_qty",
+    "st"."paper_filled_price",
+    "st"."error" AS "paper_error",
+    "ta"."status" AS "live_status",
+    ((("ta"."metadata" -> 'alpaca_order'::"text") ->> 'status'::"text")) AS "live_order_status",
+    ((("ta"."metadata" -> 'alpaca_order'::"text") ->> 'filled_qty'::"text"))::numeric AS "live_filled_qty",
+    ((("ta"."metadata" -> 'alpaca_order'::"text") ->> 'filled_avg_price'::"text"))::numeric AS "live_filled_price",
+        CASE
+            WHEN ("st"."paper_order_id" IS NULL) THEN 'paper_failed'::"text"
+            WHEN ("ta"."status" = 'rejected'::"text") THEN 'rejected_live'::"text"
+            WHEN ("ta"."status" = 'pending'::"text") THEN 'pending_live'::"text"
+            WHEN (((("ta"."metadata" -> 'alpaca_order'::"text") ->> 'filled_avg_price'::"text") IS NOT NULL) AND ("st"."paper_filled_price" IS NOT NULL)) THEN 'both_filled'::"text"
+            ELSE 'awaiting_fill'::"text"
+        END AS "divergence",
+    (((("ta"."metadata" -> 'alpaca_order'::"text") ->> 'filled_avg_price'::"text"))::numeric - "st"."paper_filled_price") AS "fill_price_difference"
+   FROM ("public"."shadow_trades" "st"
+     JOIN "public"."trading_actions" "ta" ON (("st"."trading_action_id" = "ta"."id")));
+
 CREATE TABLE IF NOT EXISTS "public"."target_allocations" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -729,6 +1224,24 @@ CREATE TABLE IF NOT EXISTS "public"."target_allocations" (
 
 ALTER TABLE "public"."target_allocations" OWNER TO "postgres";
 
+COMMENT ON COLUMN "public"."target_allocations"."target_percentage" IS 'Target weight within the stock portion of the portfolio (api_settings.target_stock_allocation)';
+
+CREATE TABLE IF NOT EXISTS "public"."ticker_classifications" (
+    "ticker" "text" NOT NULL,
+    "sic" integer,
+    "sector" "text" DEFAULT 'Unclassified'::"text" NOT NULL,
+    "industry" "text",
+    "fetched_at" timestamp with time zone DEFAULT "now"() NOT NULL
+);
+
+ALTER TABLE "public"."ticker_classifications" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."ticker_classifications" IS 'Sector and industry per ticker from the SIC code of its SEC EDGAR registration, used for portfolio sector exposure. Refreshed every 90 days';
+
+COMMENT ON COLUMN "public"."ticker_classifications"."sector" IS 'GICS-style sector mapped from the SIC code; Unclassified for ETFs and tickers SEC does not list';
+
+COMMENT ON COLUMN "public"."ticker_classifications"."industry" IS 'SEC SIC description, e.g. Semiconductors & Related Devices';
+
 CREATE OR REPLACE VIEW "public"."trade_orders_detailed" WITH ("security_invoker"='true') AS
  SELECT "ta"."id",
     "ta"."user_id",
@@ -771,12 +1284,21 @@ CREATE TABLE IF NOT EXISTS "public"."user_usage" (
     "user_id" "uuid",
     "usage_date" "date" DEFAULT CURRENT_DATE,
     "analysis_count" integer DEFAULT 0,
+    "scheduled_analysis_count" integer DEFAULT 0,
+    "ai_request_count" integer DEFAULT 0,
+    "ai_prompt_tokens" bigint DEFAULT 0,
+    "ai_completion_tokens" bigint DEFAULT 0,
+    "ai_cost" numeric(12,6) DEFAULT 0,
     "created_at" timestamp with time zone DEFAULT "now"(),
     "updated_at" timestamp with time zone DEFAULT "now"()
 );
 
 ALTER TABLE "public"."user_usage" OWNER TO "postgres";
 
+COMMENT ON COLUMN "public"."user_usage"."scheduled_analysis_count" IS 'Analyses started by analysis schedules on this New York date; capped per day by the analysis-scheduler function';
+
+COMMENT ON COLUMN "public"."user_usage"."ai_cost" IS 'Estimated AI spend in USD on this New York date, summed from ai_usage_events by record_ai_usage';
+
 CREATE TABLE IF NOT EXISTS "public"."watchlist" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "user_id" "uuid" NOT NULL,
@@ -789,24 +1311,65 @@ CREATE TABLE IF NOT EXISTS "public"."watchlist" (
 
 ALTER TABLE "public"."watchlist" OWNER TO "postgres";
 
+CREATE TABLE IF NOT EXISTS "public"."workflow_definitions" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "user_id" "uuid" NOT NULL,
+    "definition" "jsonb" NOT NULL,
+    "created_at" timestamp with time zone DEFAULT "now"(),
+    "updated_at" timestamp with time zone DEFAULT "now"()
+);
+
+ALTER TABLE "public"."workflow_definitions" OWNER TO "postgres";
+
+COMMENT ON TABLE "public"."workflow_definitions" IS 'Per-user analysis workflow graph (phases, agents, ordering, parallel vs sequential, final agents)';
+
+COMMENT ON COLUMN "public"."workflow_definitions"."definition" IS 'Workflow definition JSON: { phases: { [phaseId]: { name, mode, agents, nextPhase, finalAgent } } }';
+
+ALTER TABLE ONLY "public"."ai_usage_events"
+    ADD CONSTRAINT "ai_usage_events_pkey" PRIMARY KEY ("id");
+
 ALTER TABLE ONLY "public"."analysis_history"
     ADD CONSTRAINT "analysis_history_pkey" PRIMARY KEY ("id");
 
 ALTER TABLE ONLY "public"."analysis_messages"
     ADD CONSTRAINT "analysis_messages_pkey" PRIMARY KEY ("id");
 
+ALTER TABLE ONLY "public"."analysis_schedules"
+    ADD CONSTRAINT "analysis_schedules_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."analysis_schedules"
+    ADD CONSTRAINT "analysis_schedules_user_id_ticker_key" UNIQUE ("user_id", "ticker");
+
 ALTER TABLE ONLY "public"."api_settings"
     ADD CONSTRAINT "api_settings_pkey" PRIMARY KEY ("id");
 
 ALTER TABLE ONLY "public"."api_settings"
     ADD CONSTRAINT "api_settings_user_id_key" UNIQUE ("user_id");
 
+ALTER TABLE ONLY "public"."broker_accounts"
+    ADD CONSTRAINT "broker_accounts_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."broker_accounts"
+    ADD CONSTRAINT "broker_accounts_user_id_name_key" UNIQUE ("user_id", "name");
+
+ALTER TABLE ONLY "public"."credential_access_log"
+    ADD CONSTRAINT "credential_access_log_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."earnings_calendar"
+    ADD CONSTRAINT "earnings_calendar_pkey" PRIMARY KEY ("ticker", "report_date");
+
 ALTER TABLE ONLY "public"."market_data_cache"
     ADD CONSTRAINT "market_data_cache_pkey" PRIMARY KEY ("ticker", "timeframe", "fetched_date");
 
 ALTER TABLE ONLY "public"."portfolios"
     ADD CONSTRAINT "portfolios_pkey" PRIMARY KEY ("id");
 
+ALTER TABLE ONLY "public"."position_guards"
+    ADD CONSTRAINT "position_guards_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."position_guards"
+    ADD CONSTRAINT "position_guards_trading_action_id_key" UNIQUE ("trading_action_id");
+
 ALTER TABLE ONLY "public"."positions"
     ADD CONSTRAINT "positions_pkey" PRIMARY KEY ("id");
 
@@ -822,12 +1385,27 @@ ALTER TABLE ONLY "public"."provider_configurations"
 ALTER TABLE ONLY "public"."provider_configurations"
     ADD CONSTRAINT "provider_configurations_user_id_nickname_key" UNIQUE ("user_id", "nickname");
 
+ALTER TABLE ONLY "public"."rebalance_requests"
+    ADD CONSTRAINT "rebalance_requests_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."sec_fundamentals_cache"
+    ADD CONSTRAINT "sec_fundamentals_cache_pkey" PRIMARY KEY ("ticker");
+
+ALTER TABLE ONLY "public"."shadow_trades"
+    ADD CONSTRAINT "shadow_trades_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."shadow_trades"
+    ADD CONSTRAINT "shadow_trades_trading_action_id_key" UNIQUE ("trading_action_id");
+
 ALTER TABLE ONLY "public"."target_allocations"
     ADD CONSTRAINT "target_allocations_pkey" PRIMARY KEY ("id");
 
 ALTER TABLE ONLY "public"."target_allocations"
     ADD CONSTRAINT "target_allocations_user_id_ticker_key" UNIQUE ("user_id", "ticker");
 
+ALTER TABLE ONLY "public"."ticker_classifications"
+    ADD CONSTRAINT "ticker_classifications_pkey" PRIMARY KEY ("ticker");
+
 ALTER TABLE ONLY "public"."trading_actions"
     ADD CONSTRAINT "trading_actions_pkey" PRIMARY KEY ("id");
 
@@ -843,6 +1421,16 @@ ALTER TABLE ONLY "public"."watchlist"
 ALTER TABLE ONLY "public"."watchlist"
     ADD CONSTRAINT "watchlist_user_id_ticker_key" UNIQUE ("user_id", "ticker");
 
+ALTER TABLE ONLY "public"."workflow_definitions"
+    ADD CONSTRAINT "workflow_definitions_pkey" PRIMARY KEY ("id");
+
+ALTER TABLE ONLY "public"."workflow_definitions"
+    ADD CONSTRAINT "workflow_definitions_user_id_key" UNIQUE ("user_id");
+
+CREATE INDEX "idx_ai_usage_events_analysis" ON "public"."ai_usage_events" USING "btree" ("analysis_id");
+
+CREATE INDEX "idx_ai_usage_events_user_created" ON "public"."ai_usage_events" USING "btree" ("user_id", "created_at" DESC);
+
 CREATE INDEX "idx_analysis_history_canceled" ON "public"."analysis_history" USING "btree" ("user_id", "is_canceled") WHERE ("is_canceled" = true);
 
 CREATE INDEX "idx_analysis_history_status" ON "public"."analysis_history" USING "btree" ("analysis_status");
@@ -855,6 +1443,8 @@ CREATE INDEX "idx_analysis_messages_created_at" ON "public"."analysis_messages"
 
 CREATE INDEX "idx_analysis_messages_metadata" ON "public"."analysis_messages" USING "gin" ("metadata") WHERE ("metadata" IS NOT NULL);
 
+CREATE INDEX "idx_analysis_schedules_due" ON "public"."analysis_schedules" USING "btree" ("next_run_at") WHERE ("enabled" = true);
+
 CREATE INDEX "idx_api_settings_opportunity_agent" ON "public"."api_settings" USING "btree" ("user_id", "opportunity_agent_ai") WHERE ("opportunity_agent_ai" IS NOT NULL);
 
 CREATE INDEX "idx_api_settings_opportunity_provider" ON "public"."api_settings" USING "btree" ("user_id", "opportunity_agent_provider_id") WHERE ("opportunity_agent_provider_id" IS NOT NULL);
@@ -865,10 +1455,20 @@ CREATE INDEX "idx_api_settings_portfolio_manager_provider" ON "public"."api_sett
 
 CREATE INDEX "idx_api_settings_risk_level" ON "public"."api_settings" USING "btree" ("user_id", "user_risk_level");
 
+CREATE INDEX "idx_credential_access_log_user_created" ON "public"."credential_access_log" USING "btree" ("user_id", "created_at" DESC);
+
+CREATE INDEX "idx_earnings_calendar_report_date" ON "public"."earnings_calendar" USING "btree" ("report_date");
+
 CREATE INDEX "idx_market_cache_ny_date" ON "public"."market_data_cache" USING "btree" ("ticker", "timeframe", "fetched_date" DESC) WHERE ("fetched_date" = "public"."get_ny_current_date"());
 
 CREATE INDEX "idx_market_cache_ticker_timeframe_date" ON "public"."market_data_cache" USING "btree" ("ticker", "timeframe", "fetched_date" DESC);
 
+CREATE INDEX "idx_position_guards_user_status" ON "public"."position_guards" USING "btree" ("user_id", "status");
+
+CREATE INDEX "idx_rebalance_requests_user" ON "public"."rebalance_requests" USING "btree" ("user_id", "created_at" DESC);
+
+CREATE INDEX "idx_shadow_trades_user_created" ON "public"."shadow_trades" USING "btree" ("user_id", "created_at" DESC);
+
 CREATE INDEX "idx_target_allocations_user" ON "public"."target_allocations" USING "btree" ("user_id");
 
 CREATE INDEX "idx_trading_actions_alpaca_order" ON "public"."trading_actions" USING "btree" ("alpaca_order_id") WHERE ("alpaca_order_id" IS NOT NULL);
@@ -879,12 +1479,16 @@ CREATE INDEX "idx_trading_actions_alpaca_status" ON "public"."trading_actions" U
 
 CREATE INDEX "idx_trading_actions_analysis" ON "public"."trading_actions" USING "btree" ("analysis_id") WHERE ("analysis_id" IS NOT NULL);
 
+CREATE INDEX "idx_trading_actions_broker_account" ON "public"."trading_actions" USING "btree" ("broker_account_id") WHERE ("broker_account_id" IS NOT NULL);
+
 CREATE INDEX "idx_trading_actions_composite" ON "public"."trading_actions" USING "btree" ("user_id", "created_at" DESC, "status") WHERE ("status" = ANY (ARRAY['pending'::"text", 'approved'::"text"]));
 
 CREATE INDEX "idx_trading_actions_dollar_orders" ON "public"."trading_actions" USING "btree" ("user_id", "created_at" DESC) WHERE ("dollar_amount" > (0)::numeric);
 
 CREATE INDEX "idx_trading_actions_metadata_gin" ON "public"."trading_actions" USING "gin" ("metadata");
 
+CREATE INDEX "idx_trading_actions_rebalance_request" ON "public"."trading_actions" USING "btree" ("rebalance_request_id") WHERE ("rebalance_request_id" IS NOT NULL);
+
 CREATE INDEX "idx_trading_actions_source_analysis" ON "public"."trading_actions" USING "btree" ("source_type", "analysis_id") WHERE ("source_type" = 'individual_analysis'::"text");
 
 CREATE INDEX "idx_trading_actions_status" ON "public"."trading_actions" USING "btree" ("status");
@@ -897,30 +1501,57 @@ CREATE INDEX "idx_user_usage_user_date" ON "public"."user_usage" USING "btree" (
 
 CREATE OR REPLACE TRIGGER "handle_api_settings_updated_at" BEFORE UPDATE ON "public"."api_settings" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
 
+CREATE OR REPLACE TRIGGER "handle_broker_accounts_updated_at" BEFORE UPDATE ON "public"."broker_accounts" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
 CREATE OR REPLACE TRIGGER "handle_portfolios_updated_at" BEFORE UPDATE ON "public"."portfolios" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
 
+CREATE OR REPLACE TRIGGER "handle_position_guards_updated_at" BEFORE UPDATE ON "public"."position_guards" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
 CREATE OR REPLACE TRIGGER "handle_positions_updated_at" BEFORE UPDATE ON "public"."positions" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
 
 CREATE OR REPLACE TRIGGER "handle_profiles_updated_at" BEFORE UPDATE ON "public"."profiles" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
 
+CREATE OR REPLACE TRIGGER "handle_shadow_trades_updated_at" BEFORE UPDATE ON "public"."shadow_trades" FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
 CREATE OR REPLACE TRIGGER "update_analysis_history_updated_at" BEFORE UPDATE ON "public"."analysis_history" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
 
+CREATE OR REPLACE TRIGGER "update_analysis_schedules_updated_at" BEFORE UPDATE ON "public"."analysis_schedules" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
 CREATE OR REPLACE TRIGGER "update_market_cache_updated_at" BEFORE UPDATE ON "public"."market_data_cache" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
 
 CREATE OR REPLACE TRIGGER "update_provider_configurations_updated_at" BEFORE UPDATE ON "public"."provider_configurations" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
 
+CREATE OR REPLACE TRIGGER "update_rebalance_requests_updated_at" BEFORE UPDATE ON "public"."rebalance_requests" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
 CREATE OR REPLACE TRIGGER "update_user_usage_updated_at" BEFORE UPDATE ON "public"."user_usage" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
 
+CREATE OR REPLACE TRIGGER "update_workflow_definitions_updated_at" BEFORE UPDATE ON "public"."workflow_definitions" FOR EACH ROW EXECUTE FUNCTION "public"."update_updated_at_column"();
+
 CREATE OR REPLACE TRIGGER "validate_analysis_reference" BEFORE INSERT OR UPDATE ON "public"."trading_actions" FOR EACH ROW EXECUTE FUNCTION "public"."check_analysis_exists"();
 
 CREATE OR REPLACE TRIGGER "validate_trade_order_trigger" BEFORE INSERT OR UPDATE ON "public"."trading_actions" FOR EACH ROW EXECUTE FUNCTION "public"."validate_trade_order"();
 
+ALTER TABLE ONLY "public"."ai_usage_events"
+    ADD CONSTRAINT "ai_usage_events_analysis_id_fkey" FOREIGN KEY ("analysis_id") REFERENCES "public"."analysis_history"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."ai_usage_events"
+    ADD CONSTRAINT "ai_usage_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."analysis_history"
+    ADD CONSTRAINT "analysis_history_broker_account_id_fkey" FOREIGN KEY ("broker_account_id") REFERENCES "public"."broker_accounts"("id") ON DELETE SET NULL;
+
 ALTER TABLE ONLY "public"."analysis_history"
     ADD CONSTRAINT "analysis_history_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
 ALTER TABLE ONLY "public"."analysis_messages"
     ADD CONSTRAINT "analysis_messages_analysis_id_fkey" FOREIGN KEY ("analysis_id") REFERENCES "public"."analysis_history"("id") ON DELETE CASCADE;
 
+ALTER TABLE ONLY "public"."analysis_schedules"
+    ADD CONSTRAINT "analysis_schedules_last_analysis_id_fkey" FOREIGN KEY ("last_analysis_id") REFERENCES "public"."analysis_history"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."analysis_schedules"
+    ADD CONSTRAINT "analysis_schedules_user_id_ticker_fkey" FOREIGN KEY ("user_id", "ticker") REFERENCES "public"."watchlist"("user_id", "ticker") ON DELETE CASCADE;
+
 ALTER TABLE ONLY "public"."api_settings"
     ADD CONSTRAINT "api_settings_analysis_team_provider_id_fkey" FOREIGN KEY ("analysis_team_provider_id") REFERENCES "public"."provider_configurations"("id");
 
@@ -945,9 +1576,27 @@ ALTER TABLE ONLY "public"."api_settings"
 ALTER TABLE ONLY "public"."api_settings"
     ADD CONSTRAINT "api_settings_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
+ALTER TABLE ONLY "public"."broker_accounts"
+    ADD CONSTRAINT "broker_accounts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."credential_access_log"
+    ADD CONSTRAINT "credential_access_log_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
 ALTER TABLE ONLY "public"."portfolios"
     ADD CONSTRAINT "portfolios_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
+ALTER TABLE ONLY "public"."position_guards"
+    ADD CONSTRAINT "position_guards_analysis_id_fkey" FOREIGN KEY ("analysis_id") REFERENCES "public"."analysis_history"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."position_guards"
+    ADD CONSTRAINT "position_guards_exit_action_id_fkey" FOREIGN KEY ("exit_action_id") REFERENCES "public"."trading_actions"("id") ON DELETE SET NULL;
+
+ALTER TABLE ONLY "public"."position_guards"
+    ADD CONSTRAINT "position_guards_trading_action_id_fkey" FOREIGN KEY ("trading_action_id") REFERENCES "public"."trading_actions"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."position_guards"
+    ADD CONSTRAINT "position_guards_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
 ALTER TABLE ONLY "public"."positions"
     ADD CONSTRAINT "positions_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE CASCADE;
 
@@ -957,6 +1606,15 @@ ALTER TABLE ONLY "public"."profiles"
 ALTER TABLE ONLY "public"."provider_configurations"
     ADD CONSTRAINT "provider_configurations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
+ALTER TABLE ONLY "public"."rebalance_requests"
+    ADD CONSTRAINT "rebalance_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."shadow_trades"
+    ADD CONSTRAINT "shadow_trades_trading_action_id_fkey" FOREIGN KEY ("trading_action_id") REFERENCES "public"."trading_actions"("id") ON DELETE CASCADE;
+
+ALTER TABLE ONLY "public"."shadow_trades"
+    ADD CONSTRAINT "shadow_trades_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
 ALTER TABLE ONLY "public"."target_allocations"
     ADD CONSTRAINT "target_allocations_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
@@ -965,9 +1623,15 @@ ALTER TABLE ONLY "public"."trading_actions"
 
 COMMENT ON CONSTRAINT "trading_actions_analysis_id_fkey" ON "public"."trading_actions" IS 'Ensures trade actions are deleted when their linked analysis is deleted (CASCADE DELETE)';
 
+ALTER TABLE ONLY "public"."trading_actions"
+    ADD CONSTRAINT "trading_actions_broker_account_id_fkey" FOREIGN KEY ("broker_account_id") REFERENCES "public"."broker_accounts"("id") ON DELETE SET NULL;
+
 ALTER TABLE ONLY "public"."trading_actions"
     ADD CONSTRAINT "trading_actions_portfolio_id_fkey" FOREIGN KEY ("portfolio_id") REFERENCES "public"."portfolios"("id") ON DELETE CASCADE;
 
+ALTER TABLE ONLY "public"."trading_actions"
+    ADD CONSTRAINT "trading_actions_rebalance_request_id_fkey" FOREIGN KEY ("rebalance_request_id") REFERENCES "public"."rebalance_requests"("id") ON DELETE SET NULL;
+
 ALTER TABLE ONLY "public"."trading_actions"
     ADD CONSTRAINT "trading_actions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
@@ -977,10 +1641,25 @@ ALTER TABLE ONLY "public"."user_usage"
 ALTER TABLE ONLY "public"."watchlist"
     ADD CONSTRAINT "watchlist_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
 
+ALTER TABLE ONLY "public"."workflow_definitions"
+    ADD CONSTRAINT "workflow_definitions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "auth"."users"("id") ON DELETE CASCADE;
+
+CREATE POLICY "Allow authenticated users to read SEC fundamentals cache" ON "public"."sec_fundamentals_cache" FOR SELECT TO "authenticated" USING (true);
+
+CREATE POLICY "Allow authenticated users to read earnings calendar" ON "public"."earnings_calendar" FOR SELECT TO "authenticated" USING (true);
+
 CREATE POLICY "Allow authenticated users to read market cache" ON "public"."market_data_cache" FOR SELECT TO "authenticated" USING (true);
 
+CREATE POLICY "Allow authenticated users to read ticker classifications" ON "public"."ticker_classifications" FOR SELECT TO "authenticated" USING (true);
+
+CREATE POLICY "Allow service role full access to SEC fundamentals cache" ON "public"."sec_fundamentals_cache" TO "service_role" USING (true);
+
+CREATE POLICY "Allow service role full access to earnings calendar" ON "public"."earnings_calendar" TO "service_role" USING (true);
+
 CREATE POLICY "Allow service role full access to market cache" ON "public"."market_data_cache" TO "service_role" USING (true);
 
+CREATE POLICY "Allow service role full access to ticker classifications" ON "public"."ticker_classifications" TO "service_role" USING (true);
+
 CREATE POLICY "Service role can insert messages" ON "public"."analysis_messages" FOR INSERT WITH CHECK (true);
 
 CREATE POLICY "Service role can update messages" ON "public"."analysis_messages" FOR UPDATE USING (true) WITH CHECK (true);
@@ -1011,6 +1690,8 @@ CREATE POLICY "Users can insert their own provider configurations" ON "public"."
 
 CREATE POLICY "Users can manage own watchlist" ON "public"."watchlist" USING (("auth"."uid"() = "user_id"));
 
+CREATE POLICY "Users can manage own workflow definition" ON "public"."workflow_definitions" USING (("auth"."uid"() = "user_id")) WITH CHECK (("auth"."uid"() = "user_id"));
+
 CREATE POLICY "Users can manage positions in own portfolios" ON "public"."positions" USING ((EXISTS ( SELECT 1
    FROM "public"."portfolios"
   WHERE (("portfolios"."id" = "positions"."portfolio_id") AND ("portfolios"."user_id" = "auth"."uid"())))));
@@ -1029,14 +1710,28 @@ CREATE POLICY "Users can update own trading actions" ON "public"."trading_action
 
 CREATE POLICY "Users can update their own provider configurations" ON "public"."provider_configurations" FOR UPDATE TO "authenticated" USING (("auth"."uid"() = "user_id"));
 
+CREATE POLICY "Users can view own AI usage" ON "public"."ai_usage_events" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
 CREATE POLICY "Users can view own analysis history" ON "public"."analysis_history" FOR SELECT USING (("user_id" = "auth"."uid"()));
 
+CREATE POLICY "Users can view own analysis schedules" ON "public"."analysis_schedules" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+CREATE POLICY "Users can view own broker accounts" ON "public"."broker_accounts" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+CREATE POLICY "Users can view own credential access log" ON "public"."credential_access_log" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
 CREATE POLICY "Users can view own detailed trade orders" ON "public"."trading_actions" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
 CREATE POLICY "Users can view own portfolios" ON "public"."portfolios" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
+CREATE POLICY "Users can view own position guards" ON "public"."position_guards" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
 CREATE POLICY "Users can view own profile" ON "public"."profiles" FOR SELECT USING (("auth"."uid"() = "id"));
 
+CREATE POLICY "Users can view own rebalance requests" ON "public"."rebalance_requests" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
+CREATE POLICY "Users can view own shadow trades" ON "public"."shadow_trades" FOR SELECT USING (("auth"."uid"() = "user_id"));
+
 CREATE POLICY "Users can view own target allocations" ON "public"."target_allocations" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
 CREATE POLICY "Users can view own trading actions" ON "public"."trading_actions" FOR SELECT USING (("auth"."uid"() = "user_id"));
@@ -1053,10 +1748,14 @@ CREATE POLICY "Users can view their own provider configurations" ON "public"."pr
 
 CREATE POLICY "Users can view their own usage" ON "public"."user_usage" FOR SELECT USING (("auth"."uid"() = "user_id"));
 
+ALTER TABLE "public"."ai_usage_events" ENABLE ROW LEVEL SECURITY;
+
 ALTER TABLE "public"."analysis_history" ENABLE ROW LEVEL SECURITY;
 
 ALTER TABLE "public"."analysis_messages" ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE "public"."analysis_schedules" ENABLE ROW LEVEL SECURITY;
+
 ALTER TABLE "public"."api_settings" ENABLE ROW LEVEL SECURITY;
 
 CREATE POLICY "api_settings_delete_own" ON "public"."api_settings" FOR DELETE TO "authenticated" USING (("user_id" = "auth"."uid"()));
@@ -1079,6 +1778,12 @@ CREATE POLICY "api_settings_update_own" ON "public"."api_settings" FOR UPDATE TO
 
 COMMENT ON POLICY "api_settings_update_own" ON "public"."api_settings" IS 'Users can update their own API settings';
 
+ALTER TABLE "public"."broker_accounts" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."credential_access_log" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."earnings_calendar" ENABLE ROW LEVEL SECURITY;
+
 ALTER TABLE "public"."market_data_cache" ENABLE ROW LEVEL SECURITY;
 
 CREATE POLICY "market_data_cache_access_policy" ON "public"."market_data_cache" FOR SELECT USING ((("current_setting"('role'::"text") = 'service_role'::"text") OR ("auth"."uid"() IS NOT NULL)));
@@ -1087,6 +1792,8 @@ COMMENT ON POLICY "market_data_cache_access_policy" ON "public"."market_data_cac
 
 ALTER TABLE "public"."portfolios" ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE "public"."position_guards" ENABLE ROW LEVEL SECURITY;
+
 ALTER TABLE "public"."positions" ENABLE ROW LEVEL SECURITY;
 
 ALTER TABLE "public"."profiles" ENABLE ROW LEVEL SECURITY;
@@ -1095,8 +1802,16 @@ CREATE POLICY "profiles_self_access" ON "public"."profiles" TO "authenticated" U
 
 ALTER TABLE "public"."provider_configurations" ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE "public"."rebalance_requests" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."sec_fundamentals_cache" ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE "public"."shadow_trades" ENABLE ROW LEVEL SECURITY;
+
 ALTER TABLE "public"."target_allocations" ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE "public"."ticker_classifications" ENABLE ROW LEVEL SECURITY;
+
 ALTER TABLE "public"."trading_actions" ENABLE ROW LEVEL SECURITY;
 
 CREATE POLICY "trading_actions_user_access" ON "public"."trading_actions" FOR SELECT USING ((("current_setting"('role'::"text") = 'service_role'::"text") OR ("user_id" = "auth"."uid"())));
@@ -1109,6 +1824,8 @@ CREATE POLICY "users_view_own_profile" ON "public"."profiles" FOR SELECT USING (
 
 ALTER TABLE "public"."watchlist" ENABLE ROW LEVEL SECURITY;
 
+ALTER TABLE "public"."workflow_definitions" ENABLE ROW LEVEL SECURITY;
+
 ALTER PUBLICATION "supabase_realtime" OWNER TO "postgres";
 
 GRANT USAGE ON SCHEMA "public" TO "postgres";
@@ -1120,6 +1837,9 @@ GRANT ALL ON FUNCTION "public"."check_analysis_exists"() TO "anon";
 GRANT ALL ON FUNCTION "public"."check_analysis_exists"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."check_analysis_exists"() TO "service_role";
 
+REVOKE ALL ON FUNCTION "public"."claim_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text", "p_agent_names" "text"[]) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."claim_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text", "p_agent_names" "text"[]) TO "service_role";
+
 GRANT ALL ON FUNCTION "public"."get_ny_current_date"() TO "anon";
 GRANT ALL ON FUNCTION "public"."get_ny_current_date"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."get_ny_current_date"() TO "service_role";
@@ -1128,10 +1848,22 @@ GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "anon";
 GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."handle_updated_at"() TO "service_role";
 
+REVOKE ALL ON FUNCTION "public"."increment_scheduled_usage"("p_user_id" "uuid", "p_usage_date" "date") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."increment_scheduled_usage"("p_user_id" "uuid", "p_usage_date" "date") TO "service_role";
+
+REVOKE ALL ON FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_analysis_id" "uuid", "p_agent" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_latency_ms" integer, "p_estimated_cost" numeric, "p_priced" boolean) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."record_ai_usage"("p_user_id" "uuid", "p_analysis_id" "uuid", "p_agent" "text", "p_provider" "text", "p_model" "text", "p_prompt_tokens" integer, "p_completion_tokens" integer, "p_latency_ms" integer, "p_estimated_cost" numeric, "p_priced" boolean) TO "service_role";
+
+REVOKE ALL ON FUNCTION "public"."reset_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."reset_phase_join"("p_analysis_id" "uuid", "p_phase_id" "text") TO "service_role";
+
 GRANT ALL ON FUNCTION "public"."sync_user_profile"() TO "anon";
 GRANT ALL ON FUNCTION "public"."sync_user_profile"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."sync_user_profile"() TO "service_role";
 
+REVOKE ALL ON FUNCTION "public"."update_agent_insight"("p_analysis_id" "uuid", "p_agent_key" "text", "p_insight" "jsonb") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."update_agent_insight"("p_analysis_id" "uuid", "p_agent_key" "text", "p_insight" "jsonb") TO "service_role";
+
 GRANT ALL ON FUNCTION "public"."update_debate_round"("p_analysis_id" "uuid", "p_round" integer, "p_agent_type" "text", "p_response" "text", "p_points" "text"[]) TO "anon";
 GRANT ALL ON FUNCTION "public"."update_debate_round"("p_analysis_id" "uuid", "p_round" integer, "p_agent_type" "text", "p_response" "text", "p_points" "text"[]) TO "authenticated";
 GRANT ALL ON FUNCTION "public"."update_debate_round"("p_analysis_id" "uuid", "p_round" integer, "p_agent_type" "text", "p_response" "text", "p_points" "text"[]) TO "service_role";
@@ -1148,6 +1880,10 @@ GRANT ALL ON FUNCTION "public"."validate_trade_order"() TO "anon";
 GRANT ALL ON FUNCTION "public"."validate_trade_order"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."validate_trade_order"() TO "service_role";
 
+GRANT ALL ON TABLE "public"."ai_usage_events" TO "anon";
+GRANT ALL ON TABLE "public"."ai_usage_events" TO "authenticated";
+GRANT ALL ON TABLE "public"."ai_usage_events" TO "service_role";
+
 GRANT ALL ON TABLE "public"."analysis_history" TO "anon";
 GRANT ALL ON TABLE "public"."analysis_history" TO "authenticated";
 GRANT ALL ON TABLE "public"."analysis_history" TO "service_role";
@@ -1156,12 +1892,32 @@ GRANT ALL ON TABLE "public"."analysis_messages" TO "anon";
 GRANT ALL ON TABLE "public"."analysis_messages" TO "authenticated";
 GRANT ALL ON TABLE "public"."analysis_messages" TO "service_role";
 
+GRANT ALL ON TABLE "public"."analysis_schedules" TO "anon";
+GRANT ALL ON TABLE "public"."analysis_schedules" TO "authenticated";
+GRANT ALL ON TABLE "public"."analysis_schedules" TO "service_role";
+
 GRANT ALL ON TABLE "public"."api_settings" TO "authenticated";
 GRANT ALL ON TABLE "public"."api_settings" TO "service_role";
 
 GRANT ALL ON TABLE "public"."api_settings_unified" TO "authenticated";
 GRANT ALL ON TABLE "public"."api_settings_unified" TO "service_role";
 
+GRANT ALL ON TABLE "public"."broker_accounts" TO "anon";
+
+GRANT ALL ON TABLE "public"."broker_accounts" TO "authenticated";
+
+GRANT ALL ON TABLE "public"."broker_accounts" TO "service_role";
+
+GRANT ALL ON TABLE "public"."credential_access_log" TO "anon";
+GRANT ALL ON TABLE "public"."credential_access_log" TO "authenticated";
+GRANT ALL ON TABLE "public"."credential_access_log" TO "service_role";
+
+GRANT ALL ON TABLE "public"."earnings_calendar" TO "anon";
+
+GRANT ALL ON TABLE "public"."earnings_calendar" TO "authenticated";
+
+GRANT ALL ON TABLE "public"."earnings_calendar" TO "service_role";
+
 GRANT ALL ON TABLE "public"."market_data_cache" TO "anon";
 GRANT ALL ON TABLE "public"."market_data_cache" TO "authenticated";
 GRANT ALL ON TABLE "public"."market_data_cache" TO "service_role";
@@ -1173,6 +1929,12 @@ GRANT ALL ON TABLE "public"."portfolios" TO "anon";
 GRANT ALL ON TABLE "public"."portfolios" TO "authenticated";
 GRANT ALL ON TABLE "public"."portfolios" TO "service_role";
 
+GRANT ALL ON TABLE "public"."position_guards" TO "anon";
+
+GRANT ALL ON TABLE "public"."position_guards" TO "authenticated";
+
+GRANT ALL ON TABLE "public"."position_guards" TO "service_role";
+
 GRANT ALL ON TABLE "public"."positions" TO "anon";
 GRANT ALL ON TABLE "public"."positions" TO "authenticated";
 GRANT ALL ON TABLE "public"."positions" TO "service_role";
@@ -1184,6 +1946,30 @@ GRANT ALL ON TABLE "public"."provider_configurations" TO "anon";
 GRANT ALL ON TABLE "public"."provider_configurations" TO "authenticated";
 GRANT ALL ON TABLE "public"."provider_configurations" TO "service_role";
 
+GRANT ALL ON TABLE "public"."rebalance_requests" TO "anon";
+GRANT ALL ON TABLE "public"."rebalance_requests" TO "authenticated";
+GRANT ALL ON TABLE "public"."rebalance_requests" TO "service_role";
+
+GRANT ALL ON TABLE "public"."sec_fundamentals_cache" TO "anon";
+
+GRANT ALL ON TABLE "public"."sec_fundamentals_cache" TO "authenticated";
+
+GRANT ALL ON TABLE "public"."sec_fundamentals_cache" TO "service_role";
+
+GRANT ALL ON TABLE "public"."shadow_trade_divergence" TO "anon";
+GRANT ALL ON TABLE "public"."shadow_trade_divergence" TO "authenticated";
+GRANT ALL ON TABLE "public"."shadow_trade_divergence" TO "service_role";
+
+GRANT ALL ON TABLE "public"."shadow_trades" TO "anon";
+GRANT ALL ON TABLE "public"."shadow_trades" TO "authenticated";
+GRANT ALL ON TABLE "public"."shadow_trades" TO "service_role";
+
+GRANT ALL ON TABLE "public"."ticker_classifications" TO "anon";
+
+GRANT ALL ON TABLE "public"."ticker_classifications" TO "authenticated";
+
+GRANT ALL ON TABLE "public"."ticker_classifications" TO "service_role";
+
 GRANT ALL ON TABLE "public"."trading_actions" TO "authenticated";
 GRANT ALL ON TABLE "public"."trading_actions" TO "service_role";
 
@@ -1202,6 +1988,10 @@ GRANT ALL ON TABLE "public"."watchlist" TO "anon";
 GRANT ALL ON TABLE "public"."watchlist" TO "authenticated";
 GRANT ALL ON TABLE "public"."watchlist" TO "service_role";
 
+GRANT ALL ON TABLE "public"."workflow_definitions" TO "anon";
+GRANT ALL ON TABLE "public"."workflow_definitions" TO "authenticated";
+GRANT ALL ON TABLE "public"."workflow_definitions" TO "service_role";
+
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON SEQUENCES TO "postgres";
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON SEQUENCES TO "anon";
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON SEQUENCES TO "authenticated";
@@ -1217,4 +2007,39 @@ ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON TAB
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON TABLES TO "authenticated";
 ALTER DEFAULT PRIVILEGES FOR ROLE "postgres" IN SCHEMA "public" GRANT ALL ON TABLES TO "service_role";
 
+-- Background jobs call edge functions with the service role key, read from Vault. Create both secrets once:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+SELECT cron.schedule(
+    'analysis-scheduler-run-due',
+    '*/5 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/analysis-scheduler',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{"action": "run-due"}'::jsonb,
+        timeout_milliseconds := 60000
+    );
+    $$
+);
+
+SELECT cron.schedule(
+    'position-guardian-run-due',
+    '*/5 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/position-guardian',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{"action": "run-due"}'::jsonb,
+        timeout_milliseconds := 60000
+    );
+    $$
+);
+
 RESET ALL;